@@ -0,0 +1,54 @@
+-- Canvasser conversion attribution + commissions. Apply on merge (additive;
+-- the attribution cron starts filling it once the tables exist).
+
+-- Commission terms: per-rep rules beat the team default (canvasserId null).
+CREATE TABLE IF NOT EXISTS "CanvassCommissionRule" (
+  "id"                 TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  "createdAt"          TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt"          TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "name"               TEXT NOT NULL,
+  "canvasserId"        TEXT,
+  "signupBountyCents"  INTEGER NOT NULL DEFAULT 0,
+  "revenueSharePct"    DOUBLE PRECISION NOT NULL DEFAULT 0,
+  "revenueShareMonths" INTEGER NOT NULL DEFAULT 0,
+  "attributionDays"    INTEGER NOT NULL DEFAULT 90,
+  "active"             BOOLEAN NOT NULL DEFAULT true,
+  "createdBy"          TEXT
+);
+CREATE INDEX IF NOT EXISTS "CanvassCommissionRule_canvasserId_active_idx" ON "CanvassCommissionRule"("canvasserId", "active");
+
+-- A canvasser lead that became an active customer, one per lead.
+CREATE TABLE IF NOT EXISTS "CanvassConversion" (
+  "id"                 TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  "createdAt"          TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "leadId"             TEXT NOT NULL,
+  "visitId"            TEXT,
+  "canvasserId"        TEXT NOT NULL,
+  "canvasserName"      TEXT NOT NULL DEFAULT '',
+  "territoryId"        TEXT,
+  "customerId"         TEXT NOT NULL,
+  "convertedAt"        TIMESTAMP(3) NOT NULL,
+  "monthlyValueCents"  INTEGER NOT NULL DEFAULT 0,
+  "ruleId"             TEXT,
+  "signupBountyCents"  INTEGER NOT NULL DEFAULT 0,
+  "revenueSharePct"    DOUBLE PRECISION NOT NULL DEFAULT 0,
+  "revenueShareMonths" INTEGER NOT NULL DEFAULT 0
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "CanvassConversion_leadId_key" ON "CanvassConversion"("leadId");
+CREATE INDEX IF NOT EXISTS "CanvassConversion_canvasserId_idx" ON "CanvassConversion"("canvasserId");
+CREATE INDEX IF NOT EXISTS "CanvassConversion_convertedAt_idx" ON "CanvassConversion"("convertedAt");
+CREATE INDEX IF NOT EXISTS "CanvassConversion_territoryId_idx" ON "CanvassConversion"("territoryId");
+
+-- Commission ledger: the signup bounty (month 0) and each revenue-share month.
+CREATE TABLE IF NOT EXISTS "CanvassCommission" (
+  "id"           TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  "createdAt"    TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "conversionId" TEXT NOT NULL,
+  "canvasserId"  TEXT NOT NULL,
+  "kind"         TEXT NOT NULL,
+  "month"        INTEGER NOT NULL DEFAULT 0,
+  "amountCents"  INTEGER NOT NULL,
+  "earnedAt"     TIMESTAMP(3) NOT NULL
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "CanvassCommission_conversionId_kind_month_key" ON "CanvassCommission"("conversionId", "kind", "month");
+CREATE INDEX IF NOT EXISTS "CanvassCommission_canvasserId_earnedAt_idx" ON "CanvassCommission"("canvasserId", "earnedAt");
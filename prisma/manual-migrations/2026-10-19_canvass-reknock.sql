@@ -0,0 +1,48 @@
+-- Canvass re-knock queue: attempt history, scheduling on CanvassVisit and
+-- Web Push subscriptions for callback reminders. Apply on merge (additive).
+
+ALTER TABLE "CanvassVisit" ADD COLUMN IF NOT EXISTS "attempts" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "CanvassVisit" ADD COLUMN IF NOT EXISTS "lastAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+ALTER TABLE "CanvassVisit" ADD COLUMN IF NOT EXISTS "nextKnockAt" TIMESTAMP(3);
+ALTER TABLE "CanvassVisit" ADD COLUMN IF NOT EXISTS "callbackAt" TIMESTAMP(3);
+ALTER TABLE "CanvassVisit" ADD COLUMN IF NOT EXISTS "callbackRemindedAt" TIMESTAMP(3);
+CREATE INDEX IF NOT EXISTS "CanvassVisit_canvasserId_nextKnockAt_idx" ON "CanvassVisit"("canvasserId", "nextKnockAt");
+CREATE INDEX IF NOT EXISTS "CanvassVisit_callbackAt_idx" ON "CanvassVisit"("callbackAt");
+
+-- Existing pins count as one knock, made when they were last saved. Not-home
+-- doors come back on the default 3-day gap.
+UPDATE "CanvassVisit" SET "lastAttemptAt" = "updatedAt" WHERE "attempts" = 1 AND "nextKnockAt" IS NULL;
+UPDATE "CanvassVisit"
+  SET "nextKnockAt" = "updatedAt" + interval '3 days'
+  WHERE "status" = 'NOT_HOME' AND "nextKnockAt" IS NULL;
+
+-- One row per knock on a door.
+CREATE TABLE IF NOT EXISTS "CanvassVisitAttempt" (
+  "id"          TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  "createdAt"   TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt"   TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "visitId"     TEXT NOT NULL,
+  "canvasserId" TEXT NOT NULL,
+  "status"      TEXT NOT NULL,
+  "notes"       TEXT,
+  "callbackAt"  TIMESTAMP(3)
+);
+CREATE INDEX IF NOT EXISTS "CanvassVisitAttempt_visitId_createdAt_idx" ON "CanvassVisitAttempt"("visitId", "createdAt");
+
+INSERT INTO "CanvassVisitAttempt" ("visitId", "canvasserId", "status", "notes", "createdAt", "updatedAt")
+SELECT v."id", v."canvasserId", v."status", v."notes", v."updatedAt", v."updatedAt"
+FROM "CanvassVisit" v
+WHERE NOT EXISTS (SELECT 1 FROM "CanvassVisitAttempt" a WHERE a."visitId" = v."id");
+
+-- Web Push subscriptions for canvasser devices.
+CREATE TABLE IF NOT EXISTS "CanvasserPushSubscription" (
+  "id"          TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  "canvasserId" TEXT NOT NULL,
+  "endpoint"    TEXT NOT NULL,
+  "p256dh"      TEXT NOT NULL,
+  "auth"        TEXT NOT NULL,
+  "createdAt"   TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt"   TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "CanvasserPushSubscription_endpoint_key" ON "CanvasserPushSubscription"("endpoint");
+CREATE INDEX IF NOT EXISTS "CanvasserPushSubscription_canvasserId_idx" ON "CanvasserPushSubscription"("canvasserId");
@@ -0,0 +1,36 @@
+-- Canvass walk lists: generated door-knocking routes through a territory.
+-- Apply on merge (additive).
+
+CREATE TABLE IF NOT EXISTS "CanvassWalkList" (
+  "id"                TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  "createdAt"         TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt"         TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "territoryId"       TEXT NOT NULL,
+  "canvasserId"       TEXT NOT NULL,
+  "status"            TEXT NOT NULL DEFAULT 'ACTIVE',
+  "homesFound"        INTEGER NOT NULL DEFAULT 0,
+  "skippedRecent"     INTEGER NOT NULL DEFAULT 0,
+  "skippedDoNotKnock" INTEGER NOT NULL DEFAULT 0,
+  "skippedCustomers"  INTEGER NOT NULL DEFAULT 0,
+  "stopCount"         INTEGER NOT NULL DEFAULT 0,
+  "distanceMeters"    INTEGER NOT NULL DEFAULT 0
+);
+CREATE INDEX IF NOT EXISTS "CanvassWalkList_canvasserId_status_idx" ON "CanvassWalkList"("canvasserId", "status");
+CREATE INDEX IF NOT EXISTS "CanvassWalkList_territoryId_idx" ON "CanvassWalkList"("territoryId");
+
+-- One door on a walk list, in walking order.
+CREATE TABLE IF NOT EXISTS "CanvassWalkStop" (
+  "id"         TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  "walkListId" TEXT NOT NULL,
+  "seq"        INTEGER NOT NULL,
+  "lat"        DOUBLE PRECISION NOT NULL,
+  "lng"        DOUBLE PRECISION NOT NULL,
+  "address"    TEXT,
+  "city"       TEXT,
+  "zipCode"    TEXT,
+  "status"     TEXT NOT NULL DEFAULT 'PENDING',
+  "visitId"    TEXT,
+  "doneAt"     TIMESTAMP(3)
+);
+CREATE INDEX IF NOT EXISTS "CanvassWalkStop_walkListId_seq_idx" ON "CanvassWalkStop"("walkListId", "seq");
+CREATE INDEX IF NOT EXISTS "CanvassWalkStop_visitId_idx" ON "CanvassWalkStop"("visitId");
@@ -75,3 +75,37 @@ self.addEventListener("fetch", (event) => {
     );
   }
 });
+
+// Callback reminders (web push from /api/v2/cron/canvass-callbacks).
+self.addEventListener("push", (event) => {
+  if (!event.data) return;
+  let data;
+  try {
+    data = event.data.json();
+  } catch {
+    data = { title: "DooGoodScoopers", body: event.data.text(), url: "/app/canvasser/list" };
+  }
+  event.waitUntil(
+    self.registration.showNotification(data.title || "DooGoodScoopers", {
+      body: data.body || "",
+      icon: "/images/icons/icon-192.png",
+      badge: "/images/icons/icon-192.png",
+      data: { url: data.url || "/app/canvasser/list" },
+      tag: data.tag || "canvass-callback",
+      renotify: !!data.renotify,
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const targetUrl = event.notification.data?.url || "/app/canvasser/list";
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((list) => {
+      for (const client of list) {
+        if (client.url.includes(targetUrl) && "focus" in client) return client.focus();
+      }
+      return self.clients.openWindow ? self.clients.openWindow(targetUrl) : undefined;
+    })
+  );
+});
@@ -54,8 +54,14 @@ self.addEventListener('fetch', (event) => {
 
   // Skip non-GET requests (except for special handling)
   if (request.method !== 'GET') {
-    // Handle photo uploads with background sync
-    if (request.method === 'POST' && url.pathname.includes('/photos')) {
+    // Handle photo uploads with background sync. Uploads replayed by the
+    // field outbox (src/lib/pwa/field-outbox.ts) are already queued there and
+    // need the real response, so they go straight to the network.
+    if (
+      request.method === 'POST' &&
+      url.pathname.includes('/photos') &&
+      !request.headers.has('X-Field-Outbox')
+    ) {
       event.respondWith(handlePhotoUpload(request));
       return;
     }
@@ -0,0 +1,255 @@
+/**
+ * Local mock of the QuickBooks Online OAuth + Accounting API, enough to
+ * exercise src/lib/quickbooks.ts end to end without an Intuit sandbox.
+ *
+ * Covers: OAuth authorize (auto-approves), token exchange/refresh, revoke,
+ * companyinfo, query (Item / Account / PaymentMethod / Customer / Invoice /
+ * Payment / RefundReceipt), create, sparse update, invoice void and read by id.
+ * Like QBO it de-duplicates POSTs by `requestid`, enforces unique customer
+ * DisplayName (error 6240) and rejects stale SyncTokens (error 5010).
+ * State is in memory and resets on restart.
+ *
+ * Usage:
+ *   node scripts/mock-qbo-server.mjs            # listens on :4010 (or PORT)
+ *
+ * Then run the app with:
+ *   QBO_CLIENT_ID=mock QBO_CLIENT_SECRET=mock
+ *   QBO_AUTHORIZE_URL=http://localhost:4010/connect/oauth2
+ *   QBO_TOKEN_URL=http://localhost:4010/oauth2/v1/tokens/bearer
+ *   QBO_REVOKE_URL=http://localhost:4010/oauth2/v1/tokens/revoke
+ *   QBO_API_BASE_URL=http://localhost:4010
+ *
+ * GET /__state dumps every stored entity for inspection.
+ */
+
+import http from "node:http";
+
+const port = Number(process.env.PORT || 4010);
+const REALM_ID = "9130350000000001";
+
+const store = {
+  Item: [
+    { Id: "1", Name: "Services", Type: "Service", Active: true },
+    { Id: "2", Name: "Pet Waste Removal", Type: "Service", Active: true },
+    { Id: "3", Name: "Initial Cleanup", Type: "Service", Active: true },
+    { Id: "4", Name: "Sales Tax", Type: "Service", Active: true },
+  ],
+  Account: [
+    { Id: "35", Name: "Checking", AccountType: "Bank", Active: true },
+    { Id: "4", Name: "Undeposited Funds", AccountType: "Other Current Asset", Active: true },
+    { Id: "79", Name: "Services Income", AccountType: "Income", Active: true },
+  ],
+  PaymentMethod: [
+    { Id: "1", Name: "Cash", Active: true },
+    { Id: "2", Name: "Check", Active: true },
+    { Id: "3", Name: "Credit Card", Active: true },
+    { Id: "4", Name: "ACH", Active: true },
+  ],
+  Customer: [],
+  Invoice: [],
+  Payment: [],
+  RefundReceipt: [],
+};
+
+const ENTITY_PATHS = {
+  customer: "Customer",
+  invoice: "Invoice",
+  payment: "Payment",
+  refundreceipt: "RefundReceipt",
+};
+
+// requestid → response body, as QBO replays the original response for a repeated requestid
+const requests = new Map();
+let nextId = 1000;
+
+function send(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function fault(res, status, code, message, detail) {
+  send(res, status, { Fault: { Error: [{ Message: message, Detail: detail || message, code: String(code) }], type: "ValidationFault" } });
+}
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => resolve(data));
+  });
+}
+
+function totalOf(entity) {
+  const lines = entity.Line || [];
+  const sales = lines
+    .filter((l) => l.DetailType === "SalesItemLineDetail")
+    .reduce((sum, l) => sum + Number(l.Amount || 0), 0);
+  const discount = lines
+    .filter((l) => l.DetailType === "DiscountLineDetail")
+    .reduce((sum, l) => sum + Number(l.Amount || 0), 0);
+  return Math.round((sales - discount) * 100) / 100;
+}
+
+// Recompute derived amounts the way QBO does
+function recalculate() {
+  for (const invoice of store.Invoice) {
+    invoice.TotalAmt = invoice.voided ? 0 : totalOf(invoice);
+    const paid = store.Payment.flatMap((p) => p.Line || [])
+      .filter((l) => (l.LinkedTxn || []).some((t) => t.TxnId === invoice.Id))
+      .reduce((sum, l) => sum + Number(l.Amount || 0), 0);
+    invoice.Balance = Math.max(0, Math.round((invoice.TotalAmt - paid) * 100) / 100);
+  }
+  for (const receipt of store.RefundReceipt) {
+    receipt.TotalAmt = totalOf(receipt);
+  }
+}
+
+// Supports the query shapes the app sends: optional "where" with Id in (...),
+// Field = 'value' or Active = true, and "maxresults"
+function runQuery(query) {
+  const match = query.match(/select\s+.+?\s+from\s+(\w+)(?:\s+where\s+(.+?))?(?:\s+maxresults\s+(\d+))?\s*$/i);
+  if (!match) return null;
+  const [, entity, where, max] = match;
+  let rows = store[entity];
+  if (!rows) return null;
+
+  if (where) {
+    const inMatch = where.match(/^(\w+)\s+in\s+\((.+)\)$/i);
+    const eqMatch = where.match(/^(\w+)\s*=\s*'((?:[^'\\]|\\.)*)'$/i);
+    const boolMatch = where.match(/^(\w+)\s*=\s*(true|false)$/i);
+    if (inMatch) {
+      const values = inMatch[2].split(",").map((v) => v.trim().replace(/^'|'$/g, ""));
+      rows = rows.filter((r) => values.includes(String(r[inMatch[1]])));
+    } else if (eqMatch) {
+      const value = eqMatch[2].replace(/\\(.)/g, "$1");
+      rows = rows.filter((r) => String(r[eqMatch[1]]) === value);
+    } else if (boolMatch) {
+      rows = rows.filter((r) => (r[boolMatch[1]] ?? true) === (boolMatch[2].toLowerCase() === "true"));
+    }
+  }
+
+  return { entity, rows: rows.slice(0, Number(max || 100)) };
+}
+
+function saveEntity(res, entityName, body, operation) {
+  const rows = store[entityName];
+
+  if (body.Id) {
+    const existing = rows.find((r) => r.Id === String(body.Id));
+    if (!existing) return fault(res, 400, 610, "Object Not Found", `${entityName} ${body.Id} not found`);
+    if (String(body.SyncToken) !== existing.SyncToken) {
+      return fault(res, 400, 5010, "Stale Object Error", "You and someone else are editing the same record");
+    }
+    if (operation === "void") {
+      existing.voided = true;
+      existing.PrivateNote = "Voided";
+    } else {
+      const changes = { ...body };
+      delete changes.sparse;
+      Object.assign(existing, changes);
+    }
+    existing.SyncToken = String(Number(existing.SyncToken) + 1);
+    recalculate();
+    return { [entityName]: existing };
+  }
+
+  if (entityName === "Customer" && rows.some((r) => r.DisplayName === body.DisplayName)) {
+    return fault(res, 400, 6240, "Duplicate Name Exists Error", `The name supplied already exists. : ${body.DisplayName}`);
+  }
+
+  const created = { ...body, Id: String(nextId++), SyncToken: "0", MetaData: { CreateTime: new Date().toISOString() } };
+  rows.push(created);
+  recalculate();
+  return { [entityName]: created };
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${port}`);
+  const path = url.pathname;
+  const body = await readBody(req);
+
+  // OAuth: approve immediately and bounce back to the app
+  if (req.method === "GET" && path === "/connect/oauth2") {
+    const redirect = new URL(url.searchParams.get("redirect_uri"));
+    redirect.searchParams.set("code", `mock-code-${Date.now()}`);
+    redirect.searchParams.set("state", url.searchParams.get("state") || "");
+    redirect.searchParams.set("realmId", REALM_ID);
+    res.writeHead(302, { Location: redirect.toString() });
+    return res.end();
+  }
+
+  if (req.method === "POST" && path === "/oauth2/v1/tokens/bearer") {
+    const params = new URLSearchParams(body);
+    if (params.get("grant_type") === "refresh_token" && params.get("refresh_token") === "revoked") {
+      return send(res, 400, { error: "invalid_grant" });
+    }
+    return send(res, 200, {
+      token_type: "bearer",
+      access_token: `mock-access-${Date.now()}`,
+      refresh_token: `mock-refresh-${Date.now()}`,
+      expires_in: 3600,
+      x_refresh_token_expires_in: 8726400,
+    });
+  }
+
+  if (req.method === "POST" && path === "/oauth2/v1/tokens/revoke") {
+    return send(res, 200, {});
+  }
+
+  if (req.method === "GET" && path === "/__state") {
+    return send(res, 200, store);
+  }
+
+  const company = path.match(/^\/v3\/company\/([^/]+)(\/.*)$/);
+  if (!company) return send(res, 404, { error: "Not found" });
+
+  if (!(req.headers.authorization || "").startsWith("Bearer ")) {
+    return fault(res, 401, 100, "AuthenticationFailed", "Missing bearer token");
+  }
+
+  const [, realmId, rest] = company;
+
+  if (req.method === "GET" && rest === `/companyinfo/${realmId}`) {
+    return send(res, 200, { CompanyInfo: { Id: "1", CompanyName: "Mock Scooping Co", SyncToken: "0" } });
+  }
+
+  if (req.method === "GET" && rest === "/query") {
+    const result = runQuery(url.searchParams.get("query") || "");
+    if (!result) return fault(res, 400, 4000, "Error parsing query", url.searchParams.get("query"));
+    return send(res, 200, { QueryResponse: result.rows.length ? { [result.entity]: result.rows } : {}, time: new Date().toISOString() });
+  }
+
+  const entityMatch = rest.match(/^\/(\w+)(?:\/(\w+))?$/);
+  const entityName = entityMatch && ENTITY_PATHS[entityMatch[1]];
+  if (!entityName) return send(res, 404, { error: "Unknown entity" });
+
+  if (req.method === "GET" && entityMatch[2]) {
+    const row = store[entityName].find((r) => r.Id === entityMatch[2]);
+    return row ? send(res, 200, { [entityName]: row }) : fault(res, 400, 610, "Object Not Found", entityMatch[2]);
+  }
+
+  if (req.method === "POST") {
+    const requestId = url.searchParams.get("requestid");
+    if (requestId && requests.has(requestId)) {
+      return send(res, 200, requests.get(requestId));
+    }
+
+    let payload;
+    try {
+      payload = JSON.parse(body || "{}");
+    } catch {
+      return fault(res, 400, 2500, "Invalid JSON");
+    }
+
+    const result = saveEntity(res, entityName, payload, url.searchParams.get("operation"));
+    if (!result) return; // fault already sent
+    if (requestId) requests.set(requestId, result);
+    return send(res, 200, result);
+  }
+
+  return send(res, 405, { error: "Method not allowed" });
+});
+
+server.listen(port, () => {
+  console.log(`Mock QuickBooks Online API listening on http://localhost:${port}`);
+});
@@ -57,7 +57,7 @@ function CardForm({
       return;
     }
 
-    const { error: stripeError } = await stripe.confirmCardSetup(
+    const { error: stripeError, setupIntent } = await stripe.confirmCardSetup(
       clientSecret,
       {
         payment_method: {
@@ -78,7 +78,7 @@ function CardForm({
       await fetch(`/api/public/add-card/${token}`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ linkId }),
+        body: JSON.stringify({ linkId, setupIntentId: setupIntent?.id }),
       });
     } catch {
       // Link marking is best-effort
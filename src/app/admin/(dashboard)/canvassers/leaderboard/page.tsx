@@ -0,0 +1,127 @@
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft, Trophy } from "lucide-react";
+import { getSession } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { PageHero } from "@/components/admin/PageHero";
+import { CanvassCommissionRules } from "@/components/admin/CanvassCommissionRules";
+import { canvassLeaderboard, payPeriod, type LeaderboardRow } from "@/lib/canvass-commissions";
+
+export const dynamic = "force-dynamic";
+
+// Ranges: the current and previous pay periods, or a rolling window.
+const RANGES = [
+  { key: "period", label: "This pay period" },
+  { key: "last-period", label: "Last pay period" },
+  { key: "30d", label: "30 days" },
+  { key: "90d", label: "90 days" },
+  { key: "all", label: "All time" },
+] as const;
+
+function rangeFor(key: string, now = new Date()): { from: Date; to: Date } {
+  if (key === "period") { const p = payPeriod(now); return { from: p.start, to: p.end }; }
+  if (key === "last-period") { const p = payPeriod(now, -1); return { from: p.start, to: p.end }; }
+  if (key === "30d") return { from: new Date(now.getTime() - 30 * 86_400_000), to: now };
+  if (key === "90d") return { from: new Date(now.getTime() - 90 * 86_400_000), to: now };
+  return { from: new Date(0), to: now };
+}
+
+const money = (cents: number) => `$${(cents / 100).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const pct = (n: number) => `${Math.round(n * 100)}%`;
+
+function Board({ title, label, rows, empty }: { title: string; label: string; rows: LeaderboardRow[]; empty: string }) {
+  const th = "px-4 py-2.5 text-right text-[11px] font-semibold text-gray-500 uppercase tracking-wider";
+  return (
+    <div className="dgs-card overflow-hidden">
+      <h3 className="text-[13px] font-bold text-ink px-4 pt-4 pb-2">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-[13px] text-muted px-4 pb-4">{empty}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-[13px]">
+            <thead className="bg-gray-50 border-y border-gray-100">
+              <tr>
+                <th className="px-4 py-2.5 text-left text-[11px] font-semibold text-gray-500 uppercase tracking-wider">{label}</th>
+                <th className={th}>Doors</th>
+                <th className={th}>Contact rate</th>
+                <th className={th}>Leads</th>
+                <th className={th}>Conversions</th>
+                <th className={th}>Commission</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map((r, i) => (
+                <tr key={r.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-2.5 font-semibold text-navy-900">
+                    <span className="inline-block w-5 text-gray-400 tabular-nums">{i + 1}</span>{r.name}
+                  </td>
+                  <td className="px-4 py-2.5 text-right tabular-nums text-navy-900">{r.doors.toLocaleString()}</td>
+                  <td className="px-4 py-2.5 text-right tabular-nums text-gray-600" title={`${r.contacts} contacts`}>{r.doors ? pct(r.contactRate) : "—"}</td>
+                  <td className="px-4 py-2.5 text-right tabular-nums text-gray-700">{r.leads.toLocaleString()}</td>
+                  <td className="px-4 py-2.5 text-right tabular-nums font-bold text-green-700">{r.conversions.toLocaleString()}</td>
+                  <td className="px-4 py-2.5 text-right tabular-nums text-navy-900">{money(r.commissionCents)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default async function CanvassLeaderboardPage({ searchParams }: { searchParams: Promise<{ range?: string }> }) {
+  const session = await getSession();
+  if (!session) redirect("/admin/login");
+
+  const { range: rangeParam } = await searchParams;
+  const range = RANGES.find((r) => r.key === rangeParam)?.key ?? "period";
+  const { from, to } = rangeFor(range);
+
+  const [{ reps, territories }, canvassers] = await Promise.all([
+    canvassLeaderboard(from, to),
+    prisma.canvasser.findMany({ orderBy: { name: "asc" }, select: { id: true, name: true } }),
+  ]);
+  const totals = { doors: 0, conversions: 0, commissionCents: 0 };
+  for (const r of reps as LeaderboardRow[]) {
+    totals.doors += r.doors;
+    totals.conversions += r.conversions;
+    totals.commissionCents += r.commissionCents;
+  }
+
+  return (
+    <div className="space-y-3.5 pb-20 lg:pb-0">
+      <PageHero
+        title="Canvassing Leaderboard"
+        subtitle={`${totals.doors.toLocaleString()} doors · ${totals.conversions} signups · ${money(totals.commissionCents)} commission`}
+        icon={
+          <div className="w-11 h-11 rounded-[13px] flex items-center justify-center" style={{ background: "linear-gradient(150deg,#FCD34D,#D97706)" }}>
+            <Trophy className="w-[22px] h-[22px] text-white" />
+          </div>
+        }
+        actions={
+          <Link href="/admin/canvassers" className="inline-flex items-center gap-1.5 px-4 py-2 rounded-[12px] text-[13px] font-semibold bg-white/10 text-white hover:bg-white/15 transition-colors">
+            <ArrowLeft className="w-4 h-4" /> Canvassers
+          </Link>
+        }
+      />
+
+      <div className="flex flex-wrap gap-1.5">
+        {RANGES.map((r) => (
+          <Link
+            key={r.key}
+            href={`/admin/canvassers/leaderboard?range=${r.key}`}
+            className={`px-3 py-1.5 rounded-full text-[12.5px] font-semibold transition-colors ${r.key === range ? "bg-violet-600 text-white" : "bg-white text-gray-600 border border-gray-200 hover:bg-gray-50"}`}
+          >
+            {r.label}
+          </Link>
+        ))}
+      </div>
+
+      <Board title="Reps" label="Canvasser" rows={reps} empty="No canvassing activity in this range." />
+      <Board title="Territories" label="Territory" rows={territories} empty="No doors knocked inside a drawn territory in this range." />
+
+      <CanvassCommissionRules canvassers={canvassers} />
+    </div>
+  );
+}
@@ -1,11 +1,12 @@
 import { redirect } from "next/navigation";
 import Link from "next/link";
-import { Footprints, MapPinned } from "lucide-react";
+import { Footprints, MapPinned, Trophy } from "lucide-react";
 import { getSession } from "@/lib/auth";
 import prisma from "@/lib/prisma";
 import { PageHero } from "@/components/admin/PageHero";
 import { CanvassersOverviewMap, type OverviewPin } from "@/components/admin/CanvassersOverviewMap";
 import { CanvasserTeamManager } from "@/components/admin/CanvasserTeamManager";
+import { CanvassReknockSettings } from "@/components/admin/CanvassReknockSettings";
 
 export const dynamic = "force-dynamic";
 
@@ -74,14 +75,20 @@ export default async function CanvassersOverviewPage() {
           </div>
         }
         actions={
-          <Link href="/admin/canvassers/territories" className="inline-flex items-center gap-1.5 px-4 py-2 rounded-[12px] text-[13px] font-bold text-white transition-colors hover:brightness-110" style={{ background: "#8B6BFF" }}>
-            <MapPinned className="w-4 h-4" /> Territories
-          </Link>
+          <div className="flex items-center gap-2">
+            <Link href="/admin/canvassers/leaderboard" className="inline-flex items-center gap-1.5 px-4 py-2 rounded-[12px] text-[13px] font-semibold bg-white/10 text-white hover:bg-white/15 transition-colors">
+              <Trophy className="w-4 h-4" /> Leaderboard
+            </Link>
+            <Link href="/admin/canvassers/territories" className="inline-flex items-center gap-1.5 px-4 py-2 rounded-[12px] text-[13px] font-bold text-white transition-colors hover:brightness-110" style={{ background: "#8B6BFF" }}>
+              <MapPinned className="w-4 h-4" /> Territories
+            </Link>
+          </div>
         }
       />
 
       {/* Account management — add/invite canvassers, resend, deactivate */}
       <CanvasserTeamManager />
+      <CanvassReknockSettings />
 
       {rows.length === 0 ? (
         <div className="dgs-card p-8 text-center">
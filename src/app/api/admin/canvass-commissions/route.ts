@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { syncCanvassCommissions } from "@/lib/canvass-commissions";
+
+// Canvasser commission rules (bounty per signup + % of the first N months).
+// One active rule per canvasser overrides the team default (canvasserId null).
+// POST { action: "sync" } re-runs attribution + accrual on demand.
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const session = await getSession();
+  if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const rules = await prisma.canvassCommissionRule.findMany({ orderBy: [{ active: "desc" }, { createdAt: "desc" }] });
+  return NextResponse.json({ rules });
+}
+
+function intIn(v: unknown, min: number, max: number, fallback: number): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, Math.round(n))) : fallback;
+}
+
+export async function POST(request: Request) {
+  const session = await getSession();
+  if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const b = await request.json().catch(() => ({}));
+
+  if (b?.action === "sync") {
+    const result = await syncCanvassCommissions();
+    return NextResponse.json({ ok: true, ...result });
+  }
+
+  const name = String(b?.name || "").trim();
+  if (!name) return NextResponse.json({ error: "Name the rule." }, { status: 400 });
+
+  let canvasserId: string | null = typeof b.canvasserId === "string" && b.canvasserId ? b.canvasserId : null;
+  if (canvasserId && !(await prisma.canvasser.findUnique({ where: { id: canvasserId }, select: { id: true } }))) {
+    canvasserId = null;
+  }
+
+  const pct = Number(b.revenueSharePct);
+  const data = {
+    name,
+    canvasserId,
+    signupBountyCents: intIn(b.signupBountyCents, 0, 100_000, 0),
+    revenueSharePct: Number.isFinite(pct) ? Math.min(100, Math.max(0, Math.round(pct * 100) / 100)) : 0,
+    revenueShareMonths: intIn(b.revenueShareMonths, 0, 24, 0),
+    attributionDays: intIn(b.attributionDays, 1, 365, 90),
+    active: b.active !== false,
+  };
+  if (!data.signupBountyCents && !(data.revenueSharePct && data.revenueShareMonths)) {
+    return NextResponse.json({ error: "Set a signup bounty or a revenue share." }, { status: 400 });
+  }
+
+  const rule = b.id
+    ? await prisma.canvassCommissionRule.update({ where: { id: String(b.id) }, data })
+    : await prisma.canvassCommissionRule.create({ data: { ...data, createdBy: session.email } });
+  // Only one active rule per canvasser (or one team default)
+  if (rule.active) {
+    await prisma.canvassCommissionRule.updateMany({
+      where: { canvasserId, active: true, id: { not: rule.id } },
+      data: { active: false },
+    });
+  }
+
+  return NextResponse.json({ rule });
+}
+
+export async function DELETE(request: Request) {
+  const session = await getSession();
+  if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const { id } = await request.json().catch(() => ({}));
+  if (!id) return NextResponse.json({ error: "id required" }, { status: 400 });
+  // Deactivate rather than delete: conversions keep a ruleId reference
+  await prisma.canvassCommissionRule.updateMany({ where: { id: String(id) }, data: { active: false } });
+  return NextResponse.json({ ok: true });
+}
@@ -5,13 +5,24 @@
  * Requires clients:read for GET, clients:write for management.
  *
  * GET /api/admin/change-requests - List all change requests with filters
+ *                                    (?previewId=xxx for the proration
+ *                                    approving that request would record)
  * POST /api/admin/change-requests - Create new change request
- * PUT /api/admin/change-requests - Update change request (resolve, dismiss)
+ * PUT /api/admin/change-requests - Update change request (resolve, dismiss,
+ *                                    or action "apply" to approve and apply it)
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import {
+  applyChangeRequest,
+  previewChangeProration,
+  isApplicableChange,
+  isBeingApplied,
+  needsManualResolution,
+  ChangeRequestError,
+} from "@/lib/change-requests";
 
 function getSupabase() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -23,7 +34,8 @@ function getSupabase() {
 }
 
 // Change request statuses
-type ChangeRequestStatus = "OPEN" | "IN_PROGRESS" | "COMPLETED" | "DISMISSED";
+// (APPLYING is set only while an approved request is being applied)
+type ChangeRequestStatus = "OPEN" | "IN_PROGRESS" | "APPLYING" | "COMPLETED" | "DISMISSED";
 const CHANGE_REQUEST_STATUSES: ChangeRequestStatus[] = ["OPEN", "IN_PROGRESS", "COMPLETED", "DISMISSED"];
 
 // Change request types
@@ -39,6 +51,7 @@ const CHANGE_REQUEST_TYPES = [
   "ADD_DOG",
   "REMOVE_DOG",
   "UPDATE_DOG_INFO",
+  "ADD_ADD_ON",
   "CHANGE_GATE_CODE",
   "UPDATE_ACCESS_NOTES",
   "CHANGE_BILLING_INFO",
@@ -74,6 +87,35 @@ export async function GET(request: NextRequest) {
   const supabase = getSupabase();
   const { searchParams } = new URL(request.url);
 
+  // Proration preview for a single request
+  const previewId = searchParams.get("previewId");
+  if (previewId) {
+    const { data: changeRequest } = await supabase
+      .from("change_requests")
+      .select("request_type, requested_value, client_id, subscription_id")
+      .eq("id", previewId)
+      .eq("org_id", auth.user.orgId)
+      .single();
+
+    if (!changeRequest) {
+      return NextResponse.json(
+        { error: "Change request not found" },
+        { status: 404 }
+      );
+    }
+
+    try {
+      const proration = await previewChangeProration(supabase, auth.user.orgId, changeRequest);
+      return NextResponse.json({ proration });
+    } catch (error) {
+      console.error("Error previewing proration:", error);
+      return NextResponse.json(
+        { error: "Failed to preview proration" },
+        { status: 500 }
+      );
+    }
+  }
+
   const status = searchParams.get("status");
   const requestType = searchParams.get("type");
   const clientId = searchParams.get("clientId");
@@ -94,6 +136,12 @@ export async function GET(request: NextRequest) {
       current_value,
       requested_value,
       resolution_notes,
+      source,
+      subscription_id,
+      apply_result,
+      apply_error,
+      applying_at,
+      applied_at,
       created_at,
       updated_at,
       resolved_at,
@@ -169,6 +217,13 @@ export async function GET(request: NextRequest) {
     currentValue: req.current_value,
     requestedValue: req.requested_value,
     resolutionNotes: req.resolution_notes,
+    source: req.source,
+    subscriptionId: req.subscription_id,
+    canApply: isApplicableChange(req.request_type) && (req.status === "OPEN" || req.status === "IN_PROGRESS"),
+    needsManualResolution: needsManualResolution(req),
+    applyResult: req.apply_result,
+    applyError: req.apply_error,
+    appliedAt: req.applied_at,
     createdAt: req.created_at,
     updatedAt: req.updated_at,
     resolvedAt: req.resolved_at,
@@ -301,7 +356,7 @@ export async function PUT(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { id, status, resolutionNotes } = body;
+    const { id, status, resolutionNotes, action } = body;
 
     if (!id) {
       return NextResponse.json(
@@ -310,10 +365,28 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    // Approve and apply the change to the client's account
+    if (action === "apply") {
+      try {
+        const result = await applyChangeRequest(supabase, {
+          orgId: auth.user.orgId,
+          requestId: id,
+          userId: auth.user.id,
+          notes: resolutionNotes,
+        });
+        return NextResponse.json({ success: true, result });
+      } catch (error) {
+        if (error instanceof ChangeRequestError) {
+          return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        throw error;
+      }
+    }
+
     // Verify change request belongs to org
     const { data: existing, error: checkError } = await supabase
       .from("change_requests")
-      .select("id, status")
+      .select("id, status, applying_at")
       .eq("id", id)
       .eq("org_id", auth.user.orgId)
       .single();
@@ -325,6 +398,14 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    // A stale claim (the apply never finished) can be resolved by hand
+    if (isBeingApplied(existing)) {
+      return NextResponse.json(
+        { error: "This request is being applied" },
+        { status: 409 }
+      );
+    }
+
     const updateData: Record<string, unknown> = {};
 
     if (status && CHANGE_REQUEST_STATUSES.includes(status)) {
@@ -0,0 +1,114 @@
+/**
+ * Client Activity API
+ *
+ * The client's timeline: activity log entries recorded against the client
+ * (vacation holds, card links, dunning steps, ...) plus their dunning cases.
+ *
+ * GET /api/admin/clients/[id]/activity - Recent activity and dunning cases
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import { listClientDunningCases } from "@/lib/dunning";
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/admin/clients/[id]/activity
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const auth = await authenticateWithPermission(request, "clients:read");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const { id: clientId } = await params;
+  const supabase = getSupabase();
+
+  // Verify client belongs to org
+  const { data: client } = await supabase
+    .from("clients")
+    .select("id, org_id")
+    .eq("id", clientId)
+    .single();
+
+  if (!client || client.org_id !== auth.user.orgId) {
+    return NextResponse.json({ error: "Client not found" }, { status: 404 });
+  }
+
+  try {
+    const [{ data: logs, error }, dunningCases] = await Promise.all([
+      supabase
+        .from("activity_logs")
+        .select(`
+          id,
+          action,
+          details,
+          created_at,
+          user:user_id (
+            first_name,
+            last_name
+          )
+        `)
+        .eq("org_id", auth.user.orgId)
+        .eq("entity_type", "CLIENT")
+        .eq("entity_id", clientId)
+        .order("created_at", { ascending: false })
+        .limit(100),
+      listClientDunningCases(supabase, auth.user.orgId, clientId),
+    ]);
+
+    if (error) {
+      console.error("Error fetching client activity:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch activity" },
+        { status: 500 }
+      );
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const activity = (logs || []).map((log: any) => ({
+      id: log.id,
+      action: log.action,
+      details: log.details || {},
+      createdAt: log.created_at,
+      userName: log.user
+        ? [log.user.first_name, log.user.last_name].filter(Boolean).join(" ") || null
+        : null,
+    }));
+
+    return NextResponse.json({
+      activity,
+      dunningCases: dunningCases.map((c) => ({
+        id: c.id,
+        status: c.status,
+        amountDueCents: c.amountDueCents,
+        failureCount: c.failureCount,
+        lastFailureReason: c.lastFailureReason,
+        firstFailedAt: c.firstFailedAt,
+        escalatedAt: c.escalatedAt,
+        pausedAt: c.pausedAt,
+        resolvedAt: c.resolvedAt,
+        resolution: c.resolution,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching client activity:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch activity" },
+      { status: 500 }
+    );
+  }
+}
@@ -7,6 +7,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import { getCreditBalance, listCreditActivity } from "@/lib/credit-ledger";
+import { getClientTaxRates } from "@/lib/sales-tax";
 
 function getSupabase() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -48,6 +50,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         clientType: "RESIDENTIAL",
         status: "ACTIVE",
         accountCreditCents: 0,
+        taxExempt: false,
         tags: [],
         notes: "",
         referralSource: "",
@@ -162,6 +165,13 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     .order("is_primary", { ascending: false })
     .order("created_at", { ascending: true });
 
+  // Remaining credit by tier and recent draws
+  const [credit, creditActivity, salesTax] = await Promise.all([
+    getCreditBalance(supabase, auth.user.orgId, id),
+    listCreditActivity(supabase, auth.user.orgId, id),
+    getClientTaxRates(supabase, auth.user.orgId, id),
+  ]);
+
   // Fetch assigned tech info if subscription has one
   let assignedTech = null;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -193,6 +203,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     clientType: client.client_type,
     status: client.status,
     accountCreditCents: client.account_credit_cents,
+    taxExempt: client.tax_exempt === true,
+    salesTax: { location: salesTax.location, rates: salesTax.rates },
+    credit,
+    creditActivity,
     tags: client.tags || [],
     notes: client.notes,
     referralSource: client.referral_source,
@@ -9,6 +9,16 @@ import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
 import { regenerateJobsForSubscription } from "@/lib/subscription-jobs";
+import { applyCreditsToInvoice } from "@/lib/credit-ledger";
+import { applySalesTax } from "@/lib/sales-tax";
+import {
+  defaultRecurrence,
+  describeRecurrence,
+  getSubscriptionRecurrence,
+  parseRecurrence,
+  primaryDayKey,
+  type RecurrenceRule,
+} from "@/lib/recurrence";
 
 function getSupabase() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -69,6 +79,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     status: sub.status,
     frequency: sub.frequency,
     preferredDay: sub.preferred_day,
+    recurrence: getSubscriptionRecurrence(sub),
+    scheduleLabel: describeRecurrence(getSubscriptionRecurrence(sub)),
     pricePerVisitCents: sub.price_per_visit_cents,
     billingDay: sub.billing_day,
     startDate: sub.start_date,
@@ -181,6 +193,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       servicePlanValue,
       dogCount,
       frequency: requestFrequency,
+      recurrence: requestRecurrence,
     } = body;
 
     // Validate required fields
@@ -216,6 +229,16 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // Explicit rule from the form, e.g. "1st Monday" or "Mon & Thu"
+    let explicitRecurrence: RecurrenceRule | null = null;
+    if (requestRecurrence) {
+      const { rule, error: recurrenceError } = parseRecurrence(requestRecurrence);
+      if (!rule) {
+        return NextResponse.json({ error: recurrenceError }, { status: 400 });
+      }
+      explicitRecurrence = rule;
+    }
+
     let subscriptionData: {
       org_id: string;
       client_id: string;
@@ -223,6 +246,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       plan_id: string | null;
       status: string;
       frequency: string;
+      recurrence: RecurrenceRule | null;
+      preferred_day: string | null;
       price_per_visit_cents: number;
       start_date: string;
       end_date: string | null;
@@ -260,6 +285,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         plan_id: null, // No service plan for No Dogs mode
         status: "ACTIVE",
         frequency: requestFrequency,
+        recurrence: null,
+        preferred_day: null,
         price_per_visit_cents: priceOverrideCents,
         start_date: startDate,
         end_date: endDate || null,
@@ -303,6 +330,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         plan_id: null, // Dynamic plans don't have a plan_id
         status: "ACTIVE",
         frequency: subscriptionFrequency,
+        recurrence: null,
+        preferred_day: null,
         price_per_visit_cents: priceOverrideCents || calculatedPrice,
         start_date: startDate,
         end_date: endDate || null,
@@ -320,6 +349,13 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       };
     }
 
+    // Pin the schedule: the form's rule, else derived from the frequency with the start week as anchor
+    const cleanupFrequency = (subscriptionData.metadata.cleanup_frequency as string | undefined) || null;
+    subscriptionData.recurrence =
+      explicitRecurrence ||
+      defaultRecurrence(subscriptionData.frequency, null, startDate, cleanupFrequency);
+    subscriptionData.preferred_day = primaryDayKey(subscriptionData.recurrence);
+
     // Create subscription
     const { data: subscription, error: subError } = await supabase
       .from("subscriptions")
@@ -390,6 +426,14 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
           quantity: 1,
           unit_price_cents: subscriptionData.price_per_visit_cents,
           total_cents: subscriptionData.price_per_visit_cents,
+          tax_category: "SERVICE_PLAN",
+        });
+
+        const taxCents = await applySalesTax(supabase, { orgId: auth.user.orgId, invoiceId: invoice.id });
+        const { appliedCents: creditAppliedCents } = await applyCreditsToInvoice(supabase, {
+          orgId: auth.user.orgId,
+          invoiceId: invoice.id,
+          userId: auth.user.id,
         });
 
         // Log invoice creation
@@ -403,7 +447,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
             invoiceNumber,
             subscriptionId: subscription.id,
             status: "DRAFT",
-            totalCents: subscriptionData.price_per_visit_cents,
+            totalCents: subscriptionData.price_per_visit_cents + taxCents - creditAppliedCents,
+            taxCents,
+            creditAppliedCents,
           },
         });
       }
@@ -421,6 +467,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         location_id: subscription.location_id,
         frequency: subscription.frequency,
         preferred_day: subscription.preferred_day,
+        recurrence: subscription.recurrence,
+        start_date: subscription.start_date,
+        metadata: subscription.metadata,
         price_per_visit_cents: subscription.price_per_visit_cents,
         created_at: subscription.created_at,
         status: subscription.status,
@@ -452,6 +501,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       status: subscription.status,
       frequency: subscription.frequency,
       preferredDay: subscription.preferred_day,
+      recurrence: subscriptionData.recurrence,
+      scheduleLabel: describeRecurrence(subscriptionData.recurrence),
       pricePerVisitCents: subscription.price_per_visit_cents,
       billingDay: subscription.billing_day,
       startDate: subscription.start_date,
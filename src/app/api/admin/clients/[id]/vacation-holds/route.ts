@@ -0,0 +1,164 @@
+/**
+ * Client Vacation Holds API
+ *
+ * Office management of a client's vacation holds. Creating a hold puts the
+ * client's scheduled visits in that range ON_HOLD; canceling releases them.
+ *
+ * GET /api/admin/clients/[id]/vacation-holds?includePast=true - List holds and the org credit default
+ * POST /api/admin/clients/[id]/vacation-holds - Create a hold
+ * DELETE /api/admin/clients/[id]/vacation-holds?holdId=xxx - Cancel a hold
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import { listClientHolds, createVacationHold, cancelVacationHold } from "@/lib/vacation-holds";
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/admin/clients/[id]/vacation-holds
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const auth = await authenticateWithPermission(request, "clients:read");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const { id: clientId } = await params;
+  const supabase = getSupabase();
+
+  // Verify client belongs to org
+  const { data: client } = await supabase
+    .from("clients")
+    .select("id, org_id")
+    .eq("id", clientId)
+    .single();
+
+  if (!client || client.org_id !== auth.user.orgId) {
+    return NextResponse.json({ error: "Client not found" }, { status: 404 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const includePast = searchParams.get("includePast") === "true";
+
+  const holds = await listClientHolds(supabase, auth.user.orgId, clientId, includePast);
+
+  // Pre-fills the credit option when the office adds a hold
+  const { data: org } = await supabase
+    .from("organizations")
+    .select("settings")
+    .eq("id", auth.user.orgId)
+    .single();
+
+  return NextResponse.json({
+    holds,
+    creditByDefault: org?.settings?.billing?.vacationHoldCredit === true,
+  });
+}
+
+/**
+ * POST /api/admin/clients/[id]/vacation-holds
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const auth = await authenticateWithPermission(request, "clients:write");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const { id: clientId } = await params;
+
+  try {
+    const body = await request.json();
+    const supabase = getSupabase();
+
+    // Verify client belongs to org
+    const { data: client } = await supabase
+      .from("clients")
+      .select("id, org_id")
+      .eq("id", clientId)
+      .single();
+
+    if (!client || client.org_id !== auth.user.orgId) {
+      return NextResponse.json({ error: "Client not found" }, { status: 404 });
+    }
+
+    if (body.subscriptionId) {
+      const { data: subscription } = await supabase
+        .from("subscriptions")
+        .select("id")
+        .eq("id", body.subscriptionId)
+        .eq("client_id", clientId)
+        .single();
+
+      if (!subscription) {
+        return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+      }
+    }
+
+    const { hold, jobsHeld, error } = await createVacationHold(supabase, {
+      orgId: auth.user.orgId,
+      clientId,
+      subscriptionId: body.subscriptionId || null,
+      startDate: body.startDate,
+      endDate: body.endDate,
+      reason: body.reason,
+      applyCredit: typeof body.applyCredit === "boolean" ? body.applyCredit : undefined,
+      source: "OFFICE",
+      userId: auth.user.id,
+    });
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    return NextResponse.json({ hold, jobsHeld }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating vacation hold:", error);
+    return NextResponse.json(
+      { error: "Invalid request body" },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/clients/[id]/vacation-holds?holdId=xxx
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const auth = await authenticateWithPermission(request, "clients:write");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const { id: clientId } = await params;
+  const { searchParams } = new URL(request.url);
+  const holdId = searchParams.get("holdId");
+
+  if (!holdId) {
+    return NextResponse.json(
+      { error: "Hold ID is required" },
+      { status: 400 }
+    );
+  }
+
+  const supabase = getSupabase();
+  const result = await cancelVacationHold(supabase, auth.user.orgId, clientId, holdId, auth.user.id);
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  return NextResponse.json({ success: true, jobsReleased: result.jobsReleased });
+}
@@ -15,6 +15,7 @@ import { createClient } from "@supabase/supabase-js";
 import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
 import type { ClientStatus } from "@/lib/supabase/types";
 import { syncContactToQuo } from "@/lib/quo";
+import { adjustAccountCredit } from "@/lib/credit-ledger";
 
 function getSupabase() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -380,6 +381,7 @@ export async function PUT(request: NextRequest) {
       notes,
       tags,
       accountCreditCents,
+      taxExempt,
     } = body;
 
     if (!id) {
@@ -392,7 +394,7 @@ export async function PUT(request: NextRequest) {
     // Verify client belongs to org
     const { data: existing } = await supabase
       .from("clients")
-      .select("id, email")
+      .select("id, email, account_credit_cents")
       .eq("id", id)
       .eq("org_id", auth.user.orgId)
       .single();
@@ -432,7 +434,18 @@ export async function PUT(request: NextRequest) {
     if (referralSource !== undefined) updates.referral_source = referralSource;
     if (notes !== undefined) updates.notes = notes;
     if (tags !== undefined) updates.tags = tags;
-    if (accountCreditCents !== undefined) updates.account_credit_cents = accountCreditCents;
+    if (taxExempt !== undefined) updates.tax_exempt = taxExempt === true;
+
+    // Account credit goes through the ledger so invoices can draw it down
+    if (accountCreditCents !== undefined && accountCreditCents !== existing.account_credit_cents) {
+      await adjustAccountCredit(supabase, {
+        orgId: auth.user.orgId,
+        clientId: id,
+        deltaCents: accountCreditCents - (existing.account_credit_cents || 0),
+        reason: "Office adjustment",
+        userId: auth.user.id,
+      });
+    }
 
     const { data: updatedClient, error: updateError } = await supabase
       .from("clients")
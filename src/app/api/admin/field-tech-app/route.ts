@@ -51,6 +51,11 @@ const defaultSettings = {
   commercialWorkAreas: {
     showWorkAreasCards: false,
   },
+  serviceProof: {
+    minPhotos: 0,
+    requireGatePhoto: false,
+    maxDistanceMeters: 0,
+  },
 };
 
 /**
@@ -80,7 +85,9 @@ export async function GET(request: NextRequest) {
   }
 
   const settings = (org?.settings as Record<string, unknown>) || {};
-  const fieldTechAppSettings = settings.fieldTechApp || defaultSettings;
+  const fieldTechAppSettings = settings.fieldTechApp
+    ? { ...defaultSettings, ...(settings.fieldTechApp as Record<string, unknown>) }
+    : defaultSettings;
 
   return NextResponse.json({
     settings: fieldTechAppSettings,
@@ -0,0 +1,355 @@
+/**
+ * Admin Service Holidays API
+ *
+ * Manage the org holiday / blackout calendar. Saving a holiday immediately
+ * applies its policy to jobs already scheduled on that date and notifies
+ * affected clients; job generation applies it to visits created later.
+ * Requires settings:read for GET, settings:write for POST/PUT/DELETE.
+ *
+ * GET    /api/admin/holidays?includePast=true - List holidays
+ * POST   /api/admin/holidays - Create a holiday
+ * PUT    /api/admin/holidays - Update a holiday (body.id)
+ * DELETE /api/admin/holidays?id=xxx - Remove a holiday and restore its visits
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import {
+  HOLIDAY_POLICIES,
+  mapHoliday,
+  applyHolidayToScheduledJobs,
+  revertHolidayJobs,
+  notifyHolidayChanges,
+  type HolidayPolicy,
+} from "@/lib/holidays";
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/admin/holidays
+ * List holidays, upcoming only unless includePast=true
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "settings:read");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const supabase = getSupabase();
+  const { searchParams } = new URL(request.url);
+  const includePast = searchParams.get("includePast") === "true";
+
+  let query = supabase
+    .from("service_holidays")
+    .select("id, date, name, policy, notify_clients")
+    .eq("org_id", auth.user.orgId)
+    .order("date", { ascending: true });
+
+  if (!includePast) {
+    query = query.gte("date", new Date().toISOString().split("T")[0]);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error fetching holidays:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch holidays" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ holidays: (data || []).map(mapHoliday) });
+}
+
+/**
+ * POST /api/admin/holidays
+ * Create a holiday and apply it to already scheduled jobs
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "settings:write");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  try {
+    const body = await request.json();
+    const { date, name, policy, notifyClients } = body;
+
+    if (!date || !DATE_PATTERN.test(date) || !name?.trim()) {
+      return NextResponse.json(
+        { error: "Date (YYYY-MM-DD) and name are required" },
+        { status: 400 }
+      );
+    }
+
+    if (policy && !HOLIDAY_POLICIES.includes(policy)) {
+      return NextResponse.json(
+        { error: "Invalid policy. Must be SKIP, SHIFT_NEXT, or SHIFT_PREVIOUS" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabase();
+
+    const { data: existing } = await supabase
+      .from("service_holidays")
+      .select("id")
+      .eq("org_id", auth.user.orgId)
+      .eq("date", date)
+      .maybeSingle();
+
+    if (existing) {
+      return NextResponse.json(
+        { error: "A holiday already exists on this date" },
+        { status: 409 }
+      );
+    }
+
+    const { data: created, error } = await supabase
+      .from("service_holidays")
+      .insert({
+        org_id: auth.user.orgId,
+        date,
+        name: name.trim(),
+        policy: (policy as HolidayPolicy) || "SKIP",
+        notify_clients: notifyClients !== false,
+        created_by: auth.user.id,
+      })
+      .select("id, date, name, policy, notify_clients")
+      .single();
+
+    if (error || !created) {
+      console.error("Error creating holiday:", error);
+      return NextResponse.json(
+        { error: "Failed to create holiday" },
+        { status: 500 }
+      );
+    }
+
+    const holiday = mapHoliday(created);
+    const changes = await applyHolidayToScheduledJobs(supabase, auth.user.orgId, holiday);
+    const notified = await notifyHolidayChanges(supabase, auth.user.orgId, holiday, changes);
+
+    await supabase.from("activity_logs").insert({
+      org_id: auth.user.orgId,
+      user_id: auth.user.id,
+      action: "HOLIDAY_CREATED",
+      entity_type: "SERVICE_HOLIDAY",
+      entity_id: holiday.id,
+      details: { date: holiday.date, name: holiday.name, policy: holiday.policy, jobsAffected: changes.length },
+    });
+
+    return NextResponse.json(
+      { holiday, jobsAffected: changes.length, clientsNotified: notified },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating holiday:", error);
+    return NextResponse.json(
+      { error: "Invalid request" },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * PUT /api/admin/holidays
+ * Update a holiday. Visits it already moved are restored, then the new
+ * settings are applied.
+ */
+export async function PUT(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "settings:write");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  try {
+    const body = await request.json();
+
+    if (!body.id) {
+      return NextResponse.json(
+        { error: "Holiday ID is required" },
+        { status: 400 }
+      );
+    }
+
+    if (body.date !== undefined && !DATE_PATTERN.test(body.date)) {
+      return NextResponse.json(
+        { error: "Date must be YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
+
+    if (body.policy !== undefined && !HOLIDAY_POLICIES.includes(body.policy)) {
+      return NextResponse.json(
+        { error: "Invalid policy. Must be SKIP, SHIFT_NEXT, or SHIFT_PREVIOUS" },
+        { status: 400 }
+      );
+    }
+
+    if (body.name !== undefined && !String(body.name).trim()) {
+      return NextResponse.json(
+        { error: "Name cannot be empty" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabase();
+
+    const { data: existingRow } = await supabase
+      .from("service_holidays")
+      .select("id, date, name, policy, notify_clients")
+      .eq("id", body.id)
+      .eq("org_id", auth.user.orgId)
+      .single();
+
+    if (!existingRow) {
+      return NextResponse.json(
+        { error: "Holiday not found" },
+        { status: 404 }
+      );
+    }
+
+    const previous = mapHoliday(existingRow);
+
+    const updates: Record<string, unknown> = {};
+    if (body.date !== undefined) updates.date = body.date;
+    if (body.name !== undefined) updates.name = String(body.name).trim();
+    if (body.policy !== undefined) updates.policy = body.policy;
+    if (body.notifyClients !== undefined) updates.notify_clients = body.notifyClients;
+
+    const { data: updated, error } = await supabase
+      .from("service_holidays")
+      .update(updates)
+      .eq("id", body.id)
+      .select("id, date, name, policy, notify_clients")
+      .single();
+
+    if (error || !updated) {
+      console.error("Error updating holiday:", error);
+      const conflict = error?.code === "23505";
+      return NextResponse.json(
+        { error: conflict ? "A holiday already exists on this date" : "Failed to update holiday" },
+        { status: conflict ? 409 : 500 }
+      );
+    }
+
+    const holiday = mapHoliday(updated);
+    let changes: Awaited<ReturnType<typeof applyHolidayToScheduledJobs>> = [];
+    let notified = 0;
+
+    // Only re-plan visits when the schedule itself changed
+    if (holiday.date !== previous.date || holiday.policy !== previous.policy) {
+      await revertHolidayJobs(supabase, auth.user.orgId, previous);
+
+      // Clients get a fresh notice for the new plan
+      await supabase
+        .from("service_holiday_notices")
+        .delete()
+        .eq("holiday_id", holiday.id);
+
+      changes = await applyHolidayToScheduledJobs(supabase, auth.user.orgId, holiday);
+      notified = await notifyHolidayChanges(supabase, auth.user.orgId, holiday, changes);
+    }
+
+    await supabase.from("activity_logs").insert({
+      org_id: auth.user.orgId,
+      user_id: auth.user.id,
+      action: "HOLIDAY_UPDATED",
+      entity_type: "SERVICE_HOLIDAY",
+      entity_id: holiday.id,
+      details: { updatedKeys: Object.keys(updates), jobsAffected: changes.length },
+    });
+
+    return NextResponse.json({ holiday, jobsAffected: changes.length, clientsNotified: notified });
+  } catch (error) {
+    console.error("Error updating holiday:", error);
+    return NextResponse.json(
+      { error: "Invalid request" },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/holidays?id=xxx
+ * Remove a holiday and return its upcoming visits to their original dates
+ */
+export async function DELETE(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "settings:write");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get("id");
+
+    if (!id) {
+      return NextResponse.json(
+        { error: "Holiday ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabase();
+
+    const { data: existingRow } = await supabase
+      .from("service_holidays")
+      .select("id, date, name, policy, notify_clients")
+      .eq("id", id)
+      .eq("org_id", auth.user.orgId)
+      .single();
+
+    if (!existingRow) {
+      return NextResponse.json(
+        { error: "Holiday not found" },
+        { status: 404 }
+      );
+    }
+
+    const holiday = mapHoliday(existingRow);
+    const restored = await revertHolidayJobs(supabase, auth.user.orgId, holiday);
+
+    const { error } = await supabase
+      .from("service_holidays")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      console.error("Error deleting holiday:", error);
+      return NextResponse.json(
+        { error: "Failed to delete holiday" },
+        { status: 500 }
+      );
+    }
+
+    await supabase.from("activity_logs").insert({
+      org_id: auth.user.orgId,
+      user_id: auth.user.id,
+      action: "HOLIDAY_DELETED",
+      entity_type: "SERVICE_HOLIDAY",
+      entity_id: id,
+      details: { date: holiday.date, name: holiday.name, jobsRestored: restored },
+    });
+
+    return NextResponse.json({ success: true, jobsRestored: restored });
+  } catch (error) {
+    console.error("Error deleting holiday:", error);
+    return NextResponse.json(
+      { error: "Invalid request" },
+      { status: 400 }
+    );
+  }
+}
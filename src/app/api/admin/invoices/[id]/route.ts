@@ -9,6 +9,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
 import { getStripe, listPaymentMethods } from "@/lib/stripe";
+import { applySalesTax, parseTaxCategory, SalesTaxError } from "@/lib/sales-tax";
 
 function getSupabase() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -67,7 +68,11 @@ export async function GET(
         description,
         quantity,
         unit_price_cents,
-        total_cents
+        total_cents,
+        tax_category,
+        tax_jurisdiction,
+        tax_rate_percent,
+        tax_cents
       )
     `
     )
@@ -298,6 +303,8 @@ export async function PUT(
       );
     }
 
+    const taxCategories = items.map((item: { taxCategory?: unknown }) => parseTaxCategory(item.taxCategory));
+
     // Delete existing items
     await supabase
       .from("invoice_items")
@@ -311,7 +318,7 @@ export async function PUT(
         description: string;
         quantity: number;
         unitPriceCents: number;
-      }) => {
+      }, index: number) => {
         const totalCents = item.quantity * item.unitPriceCents;
         subtotalCents += totalCents;
         return {
@@ -321,6 +328,7 @@ export async function PUT(
           quantity: item.quantity,
           unit_price_cents: item.unitPriceCents,
           total_cents: totalCents,
+          tax_category: taxCategories[index],
         };
       }
     );
@@ -338,17 +346,9 @@ export async function PUT(
       );
     }
 
-    // Calculate tax (could be made org-configurable in the future)
-    const taxRate = 0;
-    const taxCents = Math.round(subtotalCents * (taxRate / 100));
-    const totalCents = subtotalCents + taxCents;
-
-    // Update invoice
+    // Update invoice (tax, total and amount due follow from the items below)
     const updateData: Record<string, unknown> = {
       subtotal_cents: subtotalCents,
-      tax_cents: taxCents,
-      total_cents: totalCents,
-      amount_due_cents: totalCents,
       notes: notes || null,
       updated_at: new Date().toISOString(),
     };
@@ -371,6 +371,14 @@ export async function PUT(
       );
     }
 
+    const taxCents = await applySalesTax(supabase, { orgId: auth.user.orgId, invoiceId: id });
+    const { data: totals } = await supabase
+      .from("invoices")
+      .select("total_cents")
+      .eq("id", id)
+      .single();
+    const totalCents = totals?.total_cents ?? subtotalCents + taxCents;
+
     // Log activity
     await supabase.from("activity_logs").insert({
       org_id: auth.user.orgId,
@@ -381,6 +389,7 @@ export async function PUT(
       details: {
         invoiceNumber: invoice.invoice_number,
         subtotalCents,
+        taxCents,
         totalCents,
         itemCount: items.length,
       },
@@ -397,6 +406,9 @@ export async function PUT(
       },
     });
   } catch (error) {
+    if (error instanceof SalesTaxError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error("Error updating invoice:", error);
     return NextResponse.json(
       { error: "Failed to update invoice" },
@@ -13,6 +13,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import { applyCreditsToInvoice, reverseInvoiceCredits } from "@/lib/credit-ledger";
+import { applySalesTax, parseTaxCategory, SalesTaxError } from "@/lib/sales-tax";
 
 function getSupabase() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -239,8 +241,8 @@ export async function POST(request: NextRequest) {
       dueDate,
       notes,
       items,
-      taxRate = 0,
       discountCents = 0,
+      applyCredits = true,
     } = body;
 
     // Validate required fields
@@ -270,14 +272,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Client not found" }, { status: 404 });
     }
 
-    // Calculate totals
+    // Calculate totals (tax is added from the sales tax rules once items exist)
     const subtotalCents = items.reduce(
       (sum: number, item: { quantity: number; unitPriceCents: number }) =>
         sum + item.quantity * item.unitPriceCents,
       0
     );
-    const taxCents = Math.round(subtotalCents * (taxRate / 100));
-    const totalCents = subtotalCents + taxCents - discountCents;
+    const totalCents = subtotalCents - discountCents;
+    const taxCategories = items.map((item: { taxCategory?: unknown }) => parseTaxCategory(item.taxCategory));
 
     // Generate invoice number - find the highest existing number and increment
     const { data: latestInvoice } = await supabase
@@ -308,7 +310,7 @@ export async function POST(request: NextRequest) {
         invoice_number: invoiceNumber,
         status: "DRAFT",
         subtotal_cents: subtotalCents,
-        tax_cents: taxCents,
+        tax_cents: 0,
         discount_cents: discountCents,
         total_cents: totalCents,
         amount_paid_cents: 0,
@@ -329,13 +331,14 @@ export async function POST(request: NextRequest) {
 
     // Create line items
     const invoiceItems = items.map(
-      (item: { description: string; quantity: number; unitPriceCents: number }) => ({
+      (item: { description: string; quantity: number; unitPriceCents: number }, index: number) => ({
         org_id: auth.user!.orgId,
         invoice_id: newInvoice.id,
         description: item.description,
         quantity: item.quantity,
         unit_price_cents: item.unitPriceCents,
         total_cents: item.quantity * item.unitPriceCents,
+        tax_category: taxCategories[index],
       })
     );
 
@@ -347,6 +350,17 @@ export async function POST(request: NextRequest) {
       console.warn("Error creating invoice items:", itemsError);
     }
 
+    const taxCents = await applySalesTax(supabase, { orgId: auth.user.orgId, invoiceId: newInvoice.id });
+
+    // Draw down the client's gift card, referral and goodwill credits
+    const { appliedCents: creditAppliedCents } = applyCredits
+      ? await applyCreditsToInvoice(supabase, {
+          orgId: auth.user.orgId,
+          invoiceId: newInvoice.id,
+          userId: auth.user.id,
+        })
+      : { appliedCents: 0 };
+
     // Log activity
     await supabase.from("activity_logs").insert({
       org_id: auth.user.orgId,
@@ -354,11 +368,23 @@ export async function POST(request: NextRequest) {
       action: "INVOICE_CREATED",
       entity_type: "INVOICE",
       entity_id: newInvoice.id,
-      details: { invoiceNumber, totalCents, clientId },
+      details: { invoiceNumber, totalCents: totalCents + taxCents, taxCents, clientId, creditAppliedCents },
     });
 
-    return NextResponse.json({ invoice: newInvoice }, { status: 201 });
+    if (taxCents > 0 || creditAppliedCents > 0) {
+      const { data: finalInvoice } = await supabase
+        .from("invoices")
+        .select()
+        .eq("id", newInvoice.id)
+        .single();
+      return NextResponse.json({ invoice: finalInvoice || newInvoice, creditAppliedCents }, { status: 201 });
+    }
+
+    return NextResponse.json({ invoice: newInvoice, creditAppliedCents }, { status: 201 });
   } catch (error) {
+    if (error instanceof SalesTaxError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error("Error creating invoice:", error);
     return NextResponse.json(
       { error: "Invalid request body" },
@@ -450,6 +476,10 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    if (updates.status === "VOID" && existing.status !== "VOID") {
+      await reverseInvoiceCredits(supabase, auth.user.orgId, id);
+    }
+
     // Log activity
     await supabase.from("activity_logs").insert({
       org_id: auth.user.orgId,
@@ -526,6 +556,9 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
+    // Give back any credits the invoice drew
+    const creditRestoredCents = await reverseInvoiceCredits(supabase, auth.user.orgId, id);
+
     // Log activity
     await supabase.from("activity_logs").insert({
       org_id: auth.user.orgId,
@@ -533,10 +566,10 @@ export async function DELETE(request: NextRequest) {
       action: "INVOICE_VOIDED",
       entity_type: "INVOICE",
       entity_id: id,
-      details: { invoiceNumber: existing.invoice_number },
+      details: { invoiceNumber: existing.invoice_number, creditRestoredCents },
     });
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, creditRestoredCents });
   } catch (error) {
     console.error("Error voiding invoice:", error);
     return NextResponse.json(
@@ -1,7 +1,8 @@
 /**
  * Admin Job Detail API
  *
- * GET a single job with full details including subscription, plan, and location info.
+ * GET a single job with full details including subscription, plan, and location info,
+ * plus its crew time, split parts and station checklist.
  * Requires jobs:read permission.
  */
 
@@ -50,7 +51,8 @@ export async function GET(
         last_name,
         phone,
         email,
-        status
+        status,
+        client_type
       ),
       location:location_id (
         id,
@@ -127,6 +129,26 @@ export async function GET(
     .limit(1)
     .single();
 
+  const [{ data: crewTime }, { data: splitParts }, { data: checklist }] = await Promise.all([
+    supabase
+      .from("job_crew_time")
+      .select("user_id, minutes, user:user_id ( first_name, last_name )")
+      .eq("job_id", job.id),
+    job.split_group_id
+      ? supabase
+          .from("jobs")
+          .select("id, scheduled_date, status, split_index, price_cents")
+          .eq("split_group_id", job.split_group_id)
+          .eq("org_id", auth.user.orgId)
+          .order("split_index", { ascending: true })
+      : Promise.resolve({ data: [] }),
+    supabase
+      .from("job_station_checklists")
+      .select("stations_total, stations_serviced, bags_restocked, cans_emptied, notes")
+      .eq("job_id", job.id)
+      .maybeSingle(),
+  ]);
+
   // Format the response
   const formattedJob = {
     id: job.id,
@@ -151,6 +173,7 @@ export async function GET(
       phone: job.client.phone,
       email: job.client.email,
       status: job.client.status,
+      clientType: job.client.client_type,
     } : null,
     // Location info
     location: job.location ? {
@@ -192,13 +215,44 @@ export async function GET(
       name: job.route.name,
       status: job.route.status,
     } : null,
+    // Crew members' time (crew routes only)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    crewTime: (crewTime || []).map((row: any) => {
+      const user = Array.isArray(row.user) ? row.user[0] : row.user;
+      return {
+        userId: row.user_id,
+        name: `${user?.first_name || ""} ${user?.last_name || ""}`.trim(),
+        minutes: row.minutes,
+      };
+    }),
+    // Split parts, this job included
+    split: job.split_group_id ? {
+      index: job.split_index,
+      count: job.split_count,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      parts: (splitParts || []).map((part: any) => ({
+        id: part.id,
+        scheduledDate: part.scheduled_date,
+        status: part.status,
+        splitIndex: part.split_index,
+        priceCents: part.price_cents,
+      })),
+    } : null,
+    stationChecklist: checklist ? {
+      stationsTotal: checklist.stations_total,
+      stationsServiced: checklist.stations_serviced,
+      bagsRestocked: checklist.bags_restocked,
+      cansEmptied: checklist.cans_emptied,
+      notes: checklist.notes,
+    } : null,
     // Last service date
     lastServiceDate: lastJob?.scheduled_date || null,
     // Computed fields
     jobType: job.subscription_id ? "Recurring" : "One Time",
     servicePlan: job.subscription?.plan?.frequency || job.metadata?.service_name || "Custom",
     pricingPlan: job.subscription?.plan?.name || "Custom",
-    revenue: job.subscription?.price_per_visit_cents
+    // A split part earns its share of the visit, not the whole visit price
+    revenue: job.subscription?.price_per_visit_cents && !job.split_group_id
       ? (job.subscription.price_per_visit_cents / 100).toFixed(2)
       : job.price_cents
         ? (job.price_cents / 100).toFixed(2)
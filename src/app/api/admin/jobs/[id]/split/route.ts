@@ -0,0 +1,78 @@
+/**
+ * Job Split API
+ *
+ * Split a scheduled job that is too big for one visit into parts on other
+ * days; the price is shared across the parts. See lib/crews.
+ * Requires jobs:write permission.
+ *
+ * POST /api/admin/jobs/[id]/split
+ *   Body: { dates: string[] } - the days for parts 2..n (YYYY-MM-DD)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import {
+  authenticateWithPermission,
+  errorResponse,
+} from "@/lib/api-auth";
+import { CrewError, splitJob } from "@/lib/crews";
+
+// Get Supabase client with service role
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+/**
+ * POST /api/admin/jobs/[id]/split
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateWithPermission(request, "jobs:write");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const { id } = await params;
+  const supabase = getSupabase();
+
+  try {
+    const body = await request.json();
+    const dates = body.dates;
+
+    if (!Array.isArray(dates) || dates.some((d) => typeof d !== "string")) {
+      return NextResponse.json(
+        { error: "dates must be an array of YYYY-MM-DD strings" },
+        { status: 400 }
+      );
+    }
+
+    const parts = await splitJob(supabase, auth.user.orgId, id, dates);
+
+    await supabase.from("activity_logs").insert({
+      org_id: auth.user.orgId,
+      user_id: auth.user.id,
+      action: "JOB_SPLIT",
+      entity_type: "JOB",
+      entity_id: id,
+      details: { parts: parts.map((p) => ({ id: p.id, date: p.scheduledDate })) },
+    });
+
+    return NextResponse.json({ parts }, { status: 201 });
+  } catch (error) {
+    if (error instanceof CrewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error splitting job:", error);
+    return NextResponse.json(
+      { error: "Failed to split job" },
+      { status: 500 }
+    );
+  }
+}
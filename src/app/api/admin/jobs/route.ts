@@ -216,7 +216,7 @@ export async function POST(request: NextRequest) {
 
     // Validate status if provided
     if (body.status) {
-      const validStatuses = ["SCHEDULED", "EN_ROUTE", "IN_PROGRESS", "COMPLETED", "SKIPPED", "CANCELED"];
+      const validStatuses = ["SCHEDULED", "EN_ROUTE", "IN_PROGRESS", "COMPLETED", "SKIPPED", "CANCELED", "ON_HOLD"];
       if (!validStatuses.includes(body.status)) {
         return NextResponse.json(
           { error: "Invalid status" },
@@ -324,7 +324,7 @@ export async function PUT(request: NextRequest) {
 
     // Status updates
     if (body.status !== undefined) {
-      const validStatuses = ["SCHEDULED", "EN_ROUTE", "IN_PROGRESS", "COMPLETED", "SKIPPED", "CANCELED"];
+      const validStatuses = ["SCHEDULED", "EN_ROUTE", "IN_PROGRESS", "COMPLETED", "SKIPPED", "CANCELED", "ON_HOLD"];
       if (!validStatuses.includes(body.status)) {
         return NextResponse.json(
           { error: "Invalid status" },
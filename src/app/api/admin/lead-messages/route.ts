@@ -1,10 +1,12 @@
 import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
 import { getSession } from "@/lib/auth";
 import prisma from "@/lib/prisma";
 import { sendSms, isQuoConfigured } from "@/lib/quo";
 import { renderTemplate } from "@/lib/resend";
 import { isOptedOut } from "@/lib/sms-optout";
 import { getLeadPersonalization, firstNameOf } from "@/lib/personalization";
+import { markLeadConversationReplied } from "@/lib/inbox";
 import type { LeadSource } from "@prisma/client";
 
 const leadTypeMap: Record<string, LeadSource> = {
@@ -16,6 +18,15 @@ const leadTypeMap: Record<string, LeadSource> = {
   canvasser: "CANVASSER",
 };
 
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
 type Contact = { phone: string | null; firstName: string | null; lastName: string | null };
 
 async function getLeadContact(mapped: LeadSource, leadId: string): Promise<Contact | null> {
@@ -125,5 +136,12 @@ export async function POST(request: Request) {
     },
   });
 
+  // Answered here, so the office inbox thread no longer needs a reply
+  if (result.success) {
+    await markLeadConversationReplied(getSupabase(), mapped, leadId).catch((e) =>
+      console.error("[lead-messages] inbox update failed:", e)
+    );
+  }
+
   return NextResponse.json({ success: true, message, sent: result.success, error: result.error });
 }
@@ -0,0 +1,107 @@
+/**
+ * Pay Run API
+ *
+ * Computes pay statements for all field staff over a pay period using the
+ * payroll engine (lib/payroll.ts). Hidden fields follow the org's payroll
+ * visibility toggles, which apply to every payroll view.
+ * Requires staff:read permission.
+ *
+ * GET /api/admin/payroll?offset=0 - Current pay period (offset -1 = previous)
+ * GET /api/admin/payroll?startDate=YYYY-MM-DD&endDate=YYYY-MM-DD - Custom range
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import {
+  calculatePayroll,
+  getPayrollConfig,
+  getPayPeriod,
+  applyPayrollVisibility,
+} from "@/lib/payroll";
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/admin/payroll
+ * Get the pay run for a period
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "staff:read");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const supabase = getSupabase();
+  const { searchParams } = new URL(request.url);
+  const startDate = searchParams.get("startDate");
+  const endDate = searchParams.get("endDate");
+  const userId = searchParams.get("userId");
+
+  const { data: org } = await supabase
+    .from("organizations")
+    .select("settings")
+    .eq("id", auth.user.orgId)
+    .single();
+
+  const config = getPayrollConfig(org?.settings);
+
+  let period: { start: string; end: string };
+  let offset: number | null = null;
+
+  if (startDate || endDate) {
+    if (!startDate || !endDate || !DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate)) {
+      return NextResponse.json(
+        { error: "startDate and endDate must both be YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
+    if (startDate > endDate) {
+      return NextResponse.json(
+        { error: "startDate must be before endDate" },
+        { status: 400 }
+      );
+    }
+    period = { start: startDate, end: endDate };
+  } else {
+    offset = parseInt(searchParams.get("offset") || "0") || 0;
+    const today = new Date().toISOString().split("T")[0];
+    period = getPayPeriod(config, today, offset);
+  }
+
+  try {
+    const statements = await calculatePayroll(supabase, auth.user.orgId, period, {
+      userIds: userId ? [userId] : undefined,
+      config,
+    });
+
+    const visible = statements.map((s) => applyPayrollVisibility(s, config.visibility));
+
+    return NextResponse.json({
+      period: { ...period, type: config.payPeriod, offset },
+      statements: visible,
+      totals: {
+        staffCount: visible.length,
+        totalCents: visible.reduce((sum, s) => sum + s.totalCents, 0),
+        incompleteShiftCount: visible.filter((s) => s.hasIncompleteShifts).length,
+      },
+      visibility: config.visibility,
+      overtime: config.overtime,
+    });
+  } catch (error) {
+    console.error("Error calculating pay run:", error);
+    return NextResponse.json(
+      { error: "Failed to calculate pay run" },
+      { status: 500 }
+    );
+  }
+}
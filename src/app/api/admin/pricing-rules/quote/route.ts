@@ -0,0 +1,77 @@
+/**
+ * Admin Pricing Quote API
+ *
+ * Runs the shared pricing engine for the office: the Test a Quote simulator,
+ * service plan previews and the initial cleanup fee table.
+ * Requires pricing:read.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import {
+  authenticateWithPermission,
+  errorResponse,
+} from "@/lib/api-auth";
+import { loadPricingContext, quotePrice, type QuoteInput } from "@/lib/pricing-engine";
+
+// Get Supabase client with service role
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+const MAX_BATCH = 200;
+
+/**
+ * POST /api/admin/pricing-rules/quote
+ * Quote one request ({ dogs, frequency, ... }) or a batch ({ quotes: [...] })
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "pricing:read");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  let body: QuoteInput & { quotes?: QuoteInput[] };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid request body" },
+      { status: 400 }
+    );
+  }
+
+  const inputs = Array.isArray(body.quotes) ? body.quotes : [body];
+  if (inputs.length === 0 || inputs.length > MAX_BATCH) {
+    return NextResponse.json(
+      { error: `Between 1 and ${MAX_BATCH} quotes can be requested at once` },
+      { status: 400 }
+    );
+  }
+  if (inputs.some((input) => !input.frequency || !(Number(input.dogs) >= 1))) {
+    return NextResponse.json(
+      { error: "Each quote needs frequency and dogs" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const ctx = await loadPricingContext(getSupabase(), auth.user.orgId);
+    const quotes = inputs.map((input) =>
+      quotePrice(ctx, { ...input, dogs: Number(input.dogs) })
+    );
+
+    return NextResponse.json(Array.isArray(body.quotes) ? { quotes } : { quote: quotes[0] });
+  } catch (error) {
+    console.error("Error quoting price:", error);
+    return NextResponse.json(
+      { error: "Failed to calculate quote" },
+      { status: 500 }
+    );
+  }
+}
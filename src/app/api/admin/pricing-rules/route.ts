@@ -1,7 +1,8 @@
 /**
  * Admin Pricing Rules API
  *
- * CRUD operations for pricing rules.
+ * CRUD operations for pricing rules. rule_type says what a rule prices
+ * (see src/lib/pricing-engine.ts); it defaults to PRICE.
  * Requires pricing:read for GET, pricing:write for POST/PUT/DELETE.
  */
 
@@ -12,6 +13,10 @@ import {
   errorResponse,
 } from "@/lib/api-auth";
 
+const RULE_TYPES = ["PRICE", "SERVICE_AREA", "INITIAL_CLEANUP", "YARD_SIZE", "ZIP_SURCHARGE"];
+const YARD_SIZES = ["SMALL", "MEDIUM", "LARGE", "XLARGE"];
+const PRICE_UNITS = ["PER_VISIT", "PER_MONTH"];
+
 // Get Supabase client with service role
 function getSupabase() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -39,6 +44,7 @@ export async function GET(request: NextRequest) {
   const frequency = searchParams.get("frequency");
   const zone = searchParams.get("zone");
   const planId = searchParams.get("plan_id");
+  const ruleType = searchParams.get("rule_type");
 
   let query = supabase
     .from("pricing_rules")
@@ -63,6 +69,9 @@ export async function GET(request: NextRequest) {
   if (planId) {
     query = query.eq("plan_id", planId);
   }
+  if (ruleType) {
+    query = query.eq("rule_type", ruleType);
+  }
 
   const { data: rules, error } = await query;
 
@@ -134,6 +143,25 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    if (body.rule_type && !RULE_TYPES.includes(body.rule_type)) {
+      return NextResponse.json(
+        { error: "Invalid rule type" },
+        { status: 400 }
+      );
+    }
+    if (body.yard_size && !YARD_SIZES.includes(body.yard_size)) {
+      return NextResponse.json(
+        { error: "Invalid yard size" },
+        { status: 400 }
+      );
+    }
+    if (body.price_unit && !PRICE_UNITS.includes(body.price_unit)) {
+      return NextResponse.json(
+        { error: "Invalid price unit" },
+        { status: 400 }
+      );
+    }
+
     const supabase = getSupabase();
 
     // Create the rule
@@ -150,6 +178,9 @@ export async function POST(request: NextRequest) {
         min_dogs: body.min_dogs ?? null,
         max_dogs: body.max_dogs ?? null,
         last_cleaned_bracket: body.last_cleaned_bracket || null,
+        rule_type: body.rule_type || "PRICE",
+        yard_size: body.yard_size || null,
+        price_unit: body.price_unit || "PER_VISIT",
         base_price_cents: body.base_price_cents,
         per_dog_price_cents: body.per_dog_price_cents ?? 0,
         initial_cleanup_cents: body.initial_cleanup_cents ?? 0,
@@ -263,6 +294,33 @@ export async function PUT(request: NextRequest) {
       updates.per_dog_price_cents = body.per_dog_price_cents;
     if (body.initial_cleanup_cents !== undefined)
       updates.initial_cleanup_cents = body.initial_cleanup_cents;
+    if (body.rule_type !== undefined) {
+      if (!RULE_TYPES.includes(body.rule_type)) {
+        return NextResponse.json(
+          { error: "Invalid rule type" },
+          { status: 400 }
+        );
+      }
+      updates.rule_type = body.rule_type;
+    }
+    if (body.yard_size !== undefined) {
+      if (body.yard_size && !YARD_SIZES.includes(body.yard_size)) {
+        return NextResponse.json(
+          { error: "Invalid yard size" },
+          { status: 400 }
+        );
+      }
+      updates.yard_size = body.yard_size;
+    }
+    if (body.price_unit !== undefined) {
+      if (!PRICE_UNITS.includes(body.price_unit)) {
+        return NextResponse.json(
+          { error: "Invalid price unit" },
+          { status: 400 }
+        );
+      }
+      updates.price_unit = body.price_unit;
+    }
     if (body.priority !== undefined) updates.priority = body.priority;
     if (body.is_active !== undefined) updates.is_active = body.is_active;
 
@@ -0,0 +1,50 @@
+/**
+ * Admin QuickBooks Lookups API
+ *
+ * Products/services, accounts and payment methods from the connected
+ * QuickBooks company, for the mapping form. Requires settings:read.
+ *
+ * GET /api/admin/quickbooks/lookups
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import { getQuickbooksConnection, getQuickbooksLookups, QuickbooksError } from "@/lib/quickbooks";
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "settings:read");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const supabase = getSupabase();
+
+  try {
+    const connection = await getQuickbooksConnection(supabase, auth.user.orgId);
+    if (!connection) {
+      return NextResponse.json({ error: "QuickBooks is not connected" }, { status: 400 });
+    }
+
+    const lookups = await getQuickbooksLookups(supabase, connection);
+    return NextResponse.json(lookups);
+  } catch (error) {
+    if (error instanceof QuickbooksError) {
+      return NextResponse.json({ error: error.message }, { status: error.status >= 500 ? 502 : error.status });
+    }
+    console.error("Error fetching QuickBooks lookups:", error);
+    return NextResponse.json(
+      { error: "Failed to load QuickBooks lists" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import { completeQuickbooksConnection } from "@/lib/quickbooks";
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+// QuickBooks OAuth redirect target: exchange code → store tokens + realm for the org.
+export async function GET(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "settings:write");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const { searchParams, origin } = request.nextUrl;
+  const back = (q: string) => NextResponse.redirect(new URL(`/app/office/settings/quickbooks?qbo=${q}`, origin));
+
+  if (searchParams.get("error")) return back("denied");
+  const code = searchParams.get("code");
+  const realmId = searchParams.get("realmId");
+  const state = searchParams.get("state");
+  const cookieState = request.cookies.get("qbo_oauth_state")?.value;
+  if (!code || !realmId || !state || !cookieState || state !== cookieState) return back("state");
+
+  try {
+    const supabase = getSupabase();
+    const connection = await completeQuickbooksConnection(supabase, auth.user.orgId, auth.user.id, code, realmId, origin);
+
+    await supabase.from("activity_logs").insert({
+      org_id: auth.user.orgId,
+      user_id: auth.user.id,
+      action: "QUICKBOOKS_CONNECTED",
+      entity_type: "SETTINGS",
+      entity_id: connection.id,
+      details: { realmId, companyName: connection.companyName },
+    });
+
+    const res = back("connected");
+    res.cookies.delete("qbo_oauth_state");
+    return res;
+  } catch (e) {
+    console.error("[quickbooks oauth callback]", e);
+    return back("error");
+  }
+}
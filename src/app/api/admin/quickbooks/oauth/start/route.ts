@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import { quickbooksConfigured, buildAuthUrl } from "@/lib/quickbooks";
+
+// Kick off the QuickBooks Online OAuth consent flow for the current org.
+export async function GET(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "settings:write");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const origin = request.nextUrl.origin;
+  if (!quickbooksConfigured()) {
+    return NextResponse.redirect(new URL("/app/office/settings/quickbooks?qbo=notconfigured", origin));
+  }
+
+  const state = crypto.randomUUID();
+  const res = NextResponse.redirect(buildAuthUrl(origin, state));
+  res.cookies.set("qbo_oauth_state", state, { httpOnly: true, secure: true, sameSite: "lax", maxAge: 600, path: "/" });
+  return res;
+}
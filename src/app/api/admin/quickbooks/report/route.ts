@@ -0,0 +1,51 @@
+/**
+ * Admin QuickBooks Mismatch Report API
+ *
+ * Compares local invoices, payments and refunds with QuickBooks Online:
+ * never synced, failed, deleted in QBO, or different totals/balances.
+ * Requires reports:read.
+ *
+ * GET /api/admin/quickbooks/report?since=YYYY-MM-DD
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import { getQuickbooksMismatchReport, QuickbooksError } from "@/lib/quickbooks";
+
+export const maxDuration = 120;
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "reports:read");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const since = request.nextUrl.searchParams.get("since") || undefined;
+  if (since && !/^\d{4}-\d{2}-\d{2}$/.test(since)) {
+    return NextResponse.json({ error: "since must be YYYY-MM-DD" }, { status: 400 });
+  }
+
+  try {
+    const mismatches = await getQuickbooksMismatchReport(getSupabase(), auth.user.orgId, { since });
+    return NextResponse.json({ mismatches });
+  } catch (error) {
+    if (error instanceof QuickbooksError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error building QuickBooks mismatch report:", error);
+    return NextResponse.json(
+      { error: "Failed to build mismatch report" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Admin QuickBooks Online API
+ *
+ * Connection status, item/account mapping and the sync log for the org's
+ * QuickBooks Online connection. OAuth tokens never leave the server.
+ * Requires settings:read for GET, settings:write for PUT/DELETE.
+ *
+ * GET    /api/admin/quickbooks - Connection status, mapping, log counts and recent log
+ * PUT    /api/admin/quickbooks - Save the item/account mapping
+ * DELETE /api/admin/quickbooks - Disconnect (revokes the token)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import {
+  quickbooksConfigured,
+  getQuickbooksConnection,
+  disconnectQuickbooks,
+  MAX_SYNC_ATTEMPTS,
+  type QuickbooksMapping,
+} from "@/lib/quickbooks";
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/admin/quickbooks
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "settings:read");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const supabase = getSupabase();
+  const orgId = auth.user.orgId;
+
+  try {
+    const connection = await getQuickbooksConnection(supabase, orgId);
+
+    if (!connection) {
+      return NextResponse.json({
+        configured: quickbooksConfigured(),
+        connected: false,
+        connection: null,
+        counts: null,
+        log: [],
+      });
+    }
+
+    const [{ data: log }, { data: statuses }] = await Promise.all([
+      supabase
+        .from("quickbooks_sync_log")
+        .select("id, entity_type, local_id, operation, status, attempts, qbo_id, last_error, last_attempt_at")
+        .eq("org_id", orgId)
+        .order("last_attempt_at", { ascending: false })
+        .limit(50),
+      supabase
+        .from("quickbooks_sync_log")
+        .select("status")
+        .eq("org_id", orgId)
+        .in("status", ["PENDING", "FAILED"]),
+    ]);
+
+    const counts = { pending: 0, failed: 0 };
+    for (const row of statuses || []) {
+      if (row.status === "PENDING") counts.pending++;
+      if (row.status === "FAILED") counts.failed++;
+    }
+
+    return NextResponse.json({
+      configured: quickbooksConfigured(),
+      connected: true,
+      connection: {
+        realmId: connection.realmId,
+        companyName: connection.companyName,
+        connectedAt: connection.connectedAt,
+        lastSyncAt: connection.lastSyncAt,
+        lastError: connection.lastError,
+        mapping: connection.mapping,
+      },
+      counts,
+      maxAttempts: MAX_SYNC_ATTEMPTS,
+      log: (log || []).map((row) => ({
+        id: row.id,
+        entityType: row.entity_type,
+        localId: row.local_id,
+        operation: row.operation,
+        status: row.status,
+        attempts: row.attempts,
+        qboId: row.qbo_id,
+        lastError: row.last_error,
+        lastAttemptAt: row.last_attempt_at,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching QuickBooks status:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch QuickBooks status" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/admin/quickbooks
+ * Save the item/account mapping
+ */
+export async function PUT(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "settings:write");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const supabase = getSupabase();
+  const orgId = auth.user.orgId;
+
+  try {
+    const body = await request.json();
+    const input = (body.mapping || {}) as QuickbooksMapping;
+
+    if (input.syncStartDate && !DATE_PATTERN.test(input.syncStartDate)) {
+      return NextResponse.json(
+        { error: "Sync start date must be YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
+
+    const clean = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined);
+
+    const mapping: QuickbooksMapping = {
+      defaultItemId: clean(input.defaultItemId),
+      itemRules: (Array.isArray(input.itemRules) ? input.itemRules : [])
+        .map((rule) => ({ match: String(rule?.match || "").trim(), itemId: String(rule?.itemId || "").trim() }))
+        .filter((rule) => rule.match && rule.itemId),
+      taxItemId: clean(input.taxItemId),
+      depositAccountId: clean(input.depositAccountId),
+      refundAccountId: clean(input.refundAccountId),
+      paymentMethodIds: Object.fromEntries(
+        Object.entries(input.paymentMethodIds || {})
+          .map(([method, id]) => [method, clean(id)])
+          .filter(([, id]) => !!id)
+      ),
+      syncStartDate: clean(input.syncStartDate),
+    };
+
+    const { data, error } = await supabase
+      .from("quickbooks_connections")
+      .update({ mapping })
+      .eq("org_id", orgId)
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error saving QuickBooks mapping:", error);
+      return NextResponse.json(
+        { error: "Failed to save mapping" },
+        { status: 500 }
+      );
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "QuickBooks is not connected" },
+        { status: 400 }
+      );
+    }
+
+    await supabase.from("activity_logs").insert({
+      org_id: orgId,
+      user_id: auth.user.id,
+      action: "QUICKBOOKS_MAPPING_UPDATED",
+      entity_type: "SETTINGS",
+      entity_id: data.id,
+      details: { mapping },
+    });
+
+    return NextResponse.json({ success: true, mapping });
+  } catch (error) {
+    console.error("Error saving QuickBooks mapping:", error);
+    return NextResponse.json(
+      { error: "Failed to save mapping" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/quickbooks
+ * Disconnect QuickBooks. Entity links are kept for a later reconnect.
+ */
+export async function DELETE(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "settings:write");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const supabase = getSupabase();
+
+  try {
+    await disconnectQuickbooks(supabase, auth.user.orgId);
+
+    await supabase.from("activity_logs").insert({
+      org_id: auth.user.orgId,
+      user_id: auth.user.id,
+      action: "QUICKBOOKS_DISCONNECTED",
+      entity_type: "SETTINGS",
+      entity_id: auth.user.orgId,
+      details: {},
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error disconnecting QuickBooks:", error);
+    return NextResponse.json(
+      { error: "Failed to disconnect QuickBooks" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Admin QuickBooks Sync API
+ *
+ * Push changed clients, invoices, payments and refunds to QuickBooks Online now.
+ * Requires settings:write.
+ *
+ * POST /api/admin/quickbooks/sync - Run a sync (body.retryFailed resets the retry budget of failed items)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import {
+  runQuickbooksSync,
+  retryFailedQuickbooksSync,
+  QuickbooksError,
+} from "@/lib/quickbooks";
+
+export const maxDuration = 300;
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "settings:write");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const supabase = getSupabase();
+  const body = await request.json().catch(() => ({}));
+  const retryFailed = body.retryFailed === true;
+
+  try {
+    const result = retryFailed
+      ? await retryFailedQuickbooksSync(supabase, auth.user.orgId)
+      : await runQuickbooksSync(supabase, auth.user.orgId);
+
+    await supabase.from("activity_logs").insert({
+      org_id: auth.user.orgId,
+      user_id: auth.user.id,
+      action: "QUICKBOOKS_SYNCED",
+      entity_type: "SETTINGS",
+      entity_id: auth.user.orgId,
+      details: {
+        retryFailed,
+        created: result.created,
+        updated: result.updated,
+        skipped: result.skipped,
+        failed: result.failed,
+      },
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof QuickbooksError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error running QuickBooks sync:", error);
+    return NextResponse.json(
+      { error: "Failed to sync with QuickBooks" },
+      { status: 500 }
+    );
+  }
+}
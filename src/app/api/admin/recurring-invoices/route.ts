@@ -13,6 +13,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import { reverseInvoiceCredits } from "@/lib/credit-ledger";
 import type {
   RecurringInvoice,
   RecurringInvoiceStats,
@@ -397,7 +398,10 @@ export async function PUT(request: NextRequest) {
           );
         }
 
-        // Delete invoice items first
+        // Give back credits the drafts drew, then delete invoice items
+        for (const draftId of draftIds) {
+          await reverseInvoiceCredits(supabase, auth.user.orgId, draftId);
+        }
         await supabase
           .from("invoice_items")
           .delete()
@@ -506,6 +510,9 @@ export async function DELETE(request: NextRequest) {
       throw updateError;
     }
 
+    // Give back any credits the invoice drew
+    const creditRestoredCents = await reverseInvoiceCredits(supabase, auth.user.orgId, id);
+
     // Log activity
     await supabase.from("activity_logs").insert({
       org_id: auth.user.orgId,
@@ -513,10 +520,10 @@ export async function DELETE(request: NextRequest) {
       action: "INVOICE_VOIDED",
       entity_type: "INVOICE",
       entity_id: id,
-      details: { invoiceNumber: existing.invoice_number },
+      details: { invoiceNumber: existing.invoice_number, creditRestoredCents },
     });
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, creditRestoredCents });
   } catch (error) {
     console.error("Error voiding invoice:", error);
     return NextResponse.json(
@@ -0,0 +1,81 @@
+/**
+ * Commercial Service Report API
+ *
+ * A commercial client's visits for a month with station checklists and crew
+ * time rolled up; see lib/station-checklists.
+ * Requires reports:read permission.
+ *
+ * GET /api/admin/reports/commercial-service?clientId=&month=YYYY-MM
+ *   Without clientId, lists the commercial clients to pick from.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import { buildCommercialServiceReport } from "@/lib/station-checklists";
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+/**
+ * GET /api/admin/reports/commercial-service
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "reports:read");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const supabase = getSupabase();
+  const { searchParams } = new URL(request.url);
+  const clientId = searchParams.get("clientId");
+  const month = searchParams.get("month") || new Date().toISOString().slice(0, 7);
+
+  if (!clientId) {
+    const { data: clients, error } = await supabase
+      .from("clients")
+      .select("id, first_name, last_name, company_name")
+      .eq("org_id", auth.user.orgId)
+      .eq("client_type", "COMMERCIAL")
+      .neq("status", "CANCELED")
+      .order("company_name", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching commercial clients:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch clients" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      clients: (clients || []).map((c) => ({
+        id: c.id,
+        name: c.company_name || `${c.first_name} ${c.last_name || ""}`.trim(),
+      })),
+    });
+  }
+
+  try {
+    const report = await buildCommercialServiceReport(supabase, auth.user.orgId, clientId, month);
+    if (!report) {
+      return NextResponse.json(
+        { error: "Client not found or invalid month" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error("Error building commercial service report:", error);
+    return NextResponse.json(
+      { error: "Failed to build report" },
+      { status: 500 }
+    );
+  }
+}
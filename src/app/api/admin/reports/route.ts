@@ -10,6 +10,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import { normalizeFrequency, visitsPerMonth } from "@/lib/pricing-engine";
 
 function getSupabase() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -161,15 +162,11 @@ export async function GET(request: NextRequest) {
       s.canceled_at && s.canceled_at >= startDate && s.canceled_at <= `${endDate}T23:59:59`
     );
 
+    // Visits per month from the pricing engine, so MRR matches quoted monthly prices
     const monthlyRecurringRevenue = activeSubscriptions.reduce((sum, s) => {
+      if (normalizeFrequency(s.frequency) === "ONETIME") return sum;
       const pricePerVisit = s.price_per_visit_cents || 0;
-      // Estimate monthly visits based on frequency
-      let visitsPerMonth = 4; // Default to weekly
-      if (s.frequency === "TWICE_WEEKLY") visitsPerMonth = 8;
-      else if (s.frequency === "EVERY_OTHER_WEEK") visitsPerMonth = 2;
-      else if (s.frequency === "MONTHLY") visitsPerMonth = 1;
-      else if (s.frequency === "ONE_TIME") visitsPerMonth = 0;
-      return sum + (pricePerVisit * visitsPerMonth);
+      return sum + Math.round(pricePerVisit * visitsPerMonth(s.frequency));
     }, 0);
 
     const subscriptionMetrics = {
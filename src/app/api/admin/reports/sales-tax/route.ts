@@ -0,0 +1,59 @@
+/**
+ * Sales Tax Liability Report API
+ *
+ * Taxable sales and tax billed per month, jurisdiction and category for
+ * invoices created in a date range; see lib/sales-tax.
+ * Requires reports:read permission.
+ *
+ * GET /api/admin/reports/sales-tax?from=YYYY-MM-DD&to=YYYY-MM-DD
+ *   Defaults to the current month.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import { buildSalesTaxReport } from "@/lib/sales-tax";
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/admin/reports/sales-tax
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "reports:read");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const today = new Date().toISOString().split("T")[0];
+  const from = searchParams.get("from") || `${today.slice(0, 7)}-01`;
+  const to = searchParams.get("to") || today;
+
+  if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || to < from) {
+    return NextResponse.json(
+      { error: "from and to must be YYYY-MM-DD dates, with to on or after from" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const report = await buildSalesTaxReport(getSupabase(), auth.user.orgId, from, to);
+    return NextResponse.json({ from, to, ...report });
+  } catch (error) {
+    console.error("Error building sales tax report:", error);
+    return NextResponse.json(
+      { error: "Failed to build report" },
+      { status: 500 }
+    );
+  }
+}
@@ -7,6 +7,10 @@
  * - continuous_check: Check for optimization opportunities
  * - full_reorg: Complete route reorganization
  *
+ * Placement and reorganization respect each tech's route-day capacity
+ * (src/lib/route-capacity.ts): over-capacity suggestions are refused when the
+ * org blocks and flagged when it only warns.
+ *
  * Requires routes:write permission.
  */
 
@@ -20,6 +24,13 @@ import {
   type ReorgResult,
 } from "@/lib/ai/route-optimizer";
 import type { ClientLocation, Tech } from "@/lib/ai/prompts/route-optimization";
+import {
+  checkReassignmentCapacity,
+  computeDayLoads,
+  describeDayLoad,
+  loadCapacityModel,
+  placementSlots,
+} from "@/lib/route-capacity";
 
 function getSupabase() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -51,6 +62,7 @@ interface AnalysisResponse {
   }>;
   analysisId: string;
   summary: string;
+  capacityWarnings?: string[];
 }
 
 /**
@@ -159,6 +171,11 @@ export async function POST(request: NextRequest) {
       techMap[tech.id] = tech.name;
     }
 
+    const capacityModel = await loadCapacityModel(supabase, orgId);
+    const serviceMinutesBySubscription = new Map(
+      capacityModel.stops.map((s) => [s.subscriptionId, s.serviceMinutes])
+    );
+
     // Transform subscriptions to ClientLocation format
     const clients: ClientLocation[] = (subscriptions || []).map((sub) => {
       const client = sub.client as unknown as {
@@ -195,6 +212,7 @@ export async function POST(request: NextRequest) {
         techId,
         techName: techId ? techMap[techId] || "Unknown" : "Unassigned",
         frequency: sub.frequency,
+        serviceMinutes: serviceMinutesBySubscription.get(sub.id),
       };
     });
 
@@ -240,7 +258,14 @@ export async function POST(request: NextRequest) {
           },
           clients,
           techs,
-          daysOff
+          daysOff,
+          {
+            slots: placementSlots(capacityModel, {
+              lat: body.newClientLocation.latitude,
+              lng: body.newClientLocation.longitude,
+            }),
+            enforcement: capacityModel.settings.enforcement,
+          }
         );
 
         if (suggestion) {
@@ -258,6 +283,7 @@ export async function POST(request: NextRequest) {
               techId: suggestion.suggestedTechId,
               techName: suggestion.suggestedTechName,
               nearbyClients: suggestion.nearbyClients,
+              capacityWarning: suggestion.capacityWarning || null,
             },
             reasoning: suggestion.reasoning,
             status: "pending",
@@ -273,6 +299,7 @@ export async function POST(request: NextRequest) {
                   techId: suggestion.suggestedTechId,
                   techName: suggestion.suggestedTechName,
                   nearbyClients: suggestion.nearbyClients,
+                  capacityWarning: suggestion.capacityWarning || null,
                 },
                 reasoning: suggestion.reasoning,
                 time_impact_minutes: 0,
@@ -280,6 +307,7 @@ export async function POST(request: NextRequest) {
             ],
             analysisId,
             summary: suggestion.reasoning,
+            capacityWarnings: suggestion.capacityWarning ? [suggestion.capacityWarning] : [],
           };
         } else {
           response = {
@@ -346,10 +374,31 @@ export async function POST(request: NextRequest) {
         const reorgResult = await optimizer.analyzeFullReorganization(
           clients,
           techs,
-          daysOff
+          daysOff,
+          computeDayLoads(capacityModel)
         );
 
-        if (reorgResult) {
+        const capacityCheck = reorgResult
+          ? checkReassignmentCapacity(
+              capacityModel,
+              reorgResult.assignments.map((a) => ({
+                subscriptionId: a.subscriptionId,
+                day: a.newDay,
+                techId: a.newTechId,
+              }))
+            )
+          : null;
+
+        if (reorgResult && capacityCheck && !capacityCheck.ok && capacityCheck.enforcement === "BLOCK") {
+          response = {
+            suggestions: [],
+            analysisId,
+            summary: `Reorganization plan rejected. ${capacityCheck.message}`,
+            capacityWarnings: capacityCheck.violations.map(describeDayLoad),
+          };
+        } else if (reorgResult) {
+          const capacityWarnings = (capacityCheck?.violations || []).map(describeDayLoad);
+
           // Save all assignments as suggestions
           for (const assignment of reorgResult.assignments) {
             const currentClient = clients.find(
@@ -402,7 +451,10 @@ export async function POST(request: NextRequest) {
               };
             }),
             analysisId,
-            summary: reorgResult.summary,
+            summary: capacityCheck?.message
+              ? `${reorgResult.summary} Warning: ${capacityCheck.message}`
+              : reorgResult.summary,
+            capacityWarnings,
           };
         } else {
           response = {
@@ -0,0 +1,51 @@
+/**
+ * Route Planner Capacity API
+ *
+ * Weekly load per tech and service day (stops, minutes on site, minutes
+ * driving) against the org's route capacity limits, for the load heatmap.
+ *
+ * Requires routes:read permission.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import { capacityDays, computeDayLoads, loadCapacityModel } from "@/lib/route-capacity";
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+/**
+ * GET /api/admin/route-planner/capacity
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "routes:read");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const supabase = getSupabase();
+
+  try {
+    const model = await loadCapacityModel(supabase, auth.user.orgId);
+
+    return NextResponse.json({
+      enforcement: model.settings.enforcement,
+      weekStart: model.weekStart,
+      days: capacityDays(model),
+      loads: computeDayLoads(model),
+    });
+  } catch (error) {
+    console.error("Error in route capacity API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -11,6 +11,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import { setSubscriptionServiceDays } from "@/lib/recurrence";
 
 function getSupabase() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -258,15 +259,8 @@ export async function POST(request: NextRequest) {
       };
 
       if (suggestedState.day) {
-        const { error: subError } = await supabase
-          .from("subscriptions")
-          .update({ preferred_day: suggestedState.day })
-          .eq("id", suggestion.subscription_id);
-
-        if (subError) {
-          console.error("Error updating subscription:", subError);
-          // Don't fail the request, just log the error
-        }
+        // Moves the recurrence rule's day too; failures are logged, not surfaced
+        await setSubscriptionServiceDays(supabase, orgId, [suggestion.subscription_id], [suggestedState.day]);
       }
 
       // Log activity
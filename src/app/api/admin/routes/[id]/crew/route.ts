@@ -0,0 +1,109 @@
+/**
+ * Route Crew API
+ *
+ * The lead (the route's assigned tech) and helpers working a route together.
+ * See lib/crews.
+ *
+ * GET /api/admin/routes/[id]/crew - Get the crew (requires routes:read)
+ * PUT /api/admin/routes/[id]/crew - Replace the helpers (requires routes:write)
+ *   Body: { helperIds: string[] }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import {
+  authenticateWithPermission,
+  errorResponse,
+} from "@/lib/api-auth";
+import { CrewError, loadRouteCrew, setRouteHelpers } from "@/lib/crews";
+
+// Get Supabase client with service role
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/admin/routes/[id]/crew
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const auth = await authenticateWithPermission(request, "routes:read");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const { id: routeId } = await params;
+  const supabase = getSupabase();
+
+  const { data: route } = await supabase
+    .from("routes")
+    .select("id")
+    .eq("id", routeId)
+    .eq("org_id", auth.user.orgId)
+    .single();
+
+  if (!route) {
+    return NextResponse.json(
+      { error: "Route not found" },
+      { status: 404 }
+    );
+  }
+
+  const crew = await loadRouteCrew(supabase, routeId);
+  return NextResponse.json({ crew });
+}
+
+/**
+ * PUT /api/admin/routes/[id]/crew
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const auth = await authenticateWithPermission(request, "routes:write");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const { id: routeId } = await params;
+  const supabase = getSupabase();
+
+  try {
+    const body = await request.json();
+    const helperIds = body.helperIds;
+
+    if (!Array.isArray(helperIds) || helperIds.some((id) => typeof id !== "string")) {
+      return NextResponse.json(
+        { error: "helperIds must be an array of user IDs" },
+        { status: 400 }
+      );
+    }
+
+    const crew = await setRouteHelpers(supabase, auth.user.orgId, routeId, helperIds);
+
+    await supabase.from("activity_logs").insert({
+      org_id: auth.user.orgId,
+      user_id: auth.user.id,
+      action: "ROUTE_CREW_UPDATED",
+      entity_type: "ROUTE",
+      entity_id: routeId,
+      details: { helperIds: crew.filter((m) => m.role === "HELPER").map((m) => m.userId) },
+    });
+
+    return NextResponse.json({ crew });
+  } catch (error) {
+    if (error instanceof CrewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error updating route crew:", error);
+    return NextResponse.json(
+      { error: "Failed to update crew" },
+      { status: 500 }
+    );
+  }
+}
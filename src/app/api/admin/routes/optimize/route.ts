@@ -1,22 +1,39 @@
 /**
  * Route Optimization API
  *
- * Optimizes route stops by grouping jobs by ZIP code.
- * This is a basic optimization that clusters nearby stops together.
+ * Orders route stops with the stop sequencer (lib/stop-sequencer.ts): a
+ * time-window aware TSP solver over estimated drive times. Respects the tech's
+ * start/end depot, each job's scheduled time window and an estimated service
+ * duration per yard. Responses include before/after miles and minutes so
+ * dispatch can accept or reject the new order.
  * Requires routes:write permission.
  *
  * POST /api/admin/routes/optimize
- * Body: { routeId: string } - Optimize an existing route
+ * Body: { routeId: string, dryRun?: boolean, stopOrder?: string[] }
+ *   - dryRun: return the proposed order without saving it
+ *   - stopOrder: save this exact order of route_stop IDs (e.g. an accepted preview)
  *   OR
  * Body: { date: string, jobIds: string[] } - Create optimized route from jobs
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@supabase/supabase-js";
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
 import {
   authenticateWithPermission,
   errorResponse,
 } from "@/lib/api-auth";
+import {
+  optimizeStopSequence,
+  evaluateSequence,
+  parseTimeToMinutes,
+  formatMinutesAsTime,
+  DEFAULT_AVG_SPEED_MPH,
+  DEFAULT_CIRCUITY_FACTOR,
+  type SequencerStop,
+  type SequencerPoint,
+  type SequencerOptions,
+  type SequenceMetrics,
+} from "@/lib/stop-sequencer";
 
 // Get Supabase client with service role
 function getSupabase() {
@@ -31,61 +48,196 @@ function getSupabase() {
 interface JobWithLocation {
   id: string;
   client_id: string;
+  scheduled_time_start: string | null;
+  scheduled_time_end: string | null;
   location: {
     id: string;
     zip_code: string;
     city: string;
     address_line1: string;
-    lat?: number;
-    lng?: number;
+    latitude: number | string | null;
+    longitude: number | string | null;
+    dogs?: Array<{ id: string; is_active: boolean }>;
+  } | null;
+}
+
+interface OptimizerSettings {
+  depot: SequencerPoint | null;
+  routeStartTime: string;
+  avgSpeedMph: number;
+  circuityFactor: number;
+  serviceMinutesBase: number;
+  serviceMinutesPerDog: number;
+}
+
+const DEFAULT_OPTIMIZER_SETTINGS: OptimizerSettings = {
+  depot: null,
+  routeStartTime: "08:00",
+  avgSpeedMph: DEFAULT_AVG_SPEED_MPH,
+  circuityFactor: DEFAULT_CIRCUITY_FACTOR,
+  serviceMinutesBase: 5,
+  serviceMinutesPerDog: 2,
+};
+
+const JOB_SELECT = `
+  id,
+  client_id,
+  scheduled_time_start,
+  scheduled_time_end,
+  location:location_id (
+    id,
+    zip_code,
+    city,
+    address_line1,
+    latitude,
+    longitude,
+    dogs (
+      id,
+      is_active
+    )
+  )
+`;
+
+function toCoordinate(value: number | string | null | undefined): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const num = typeof value === "number" ? value : parseFloat(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+function toPoint(lat: unknown, lng: unknown): SequencerPoint | null {
+  const latitude = toCoordinate(lat as number | string | null);
+  const longitude = toCoordinate(lng as number | string | null);
+  if (latitude === null || longitude === null) return null;
+  return { lat: latitude, lng: longitude };
+}
+
+/**
+ * Read settings.routeOptimization for the stop sequencer
+ */
+async function getOptimizerSettings(
+  supabase: SupabaseClient,
+  orgId: string
+): Promise<OptimizerSettings> {
+  const { data: org } = await supabase
+    .from("organizations")
+    .select("settings")
+    .eq("id", orgId)
+    .single();
+
+  const raw = ((org?.settings as Record<string, unknown>)?.routeOptimization || {}) as Record<
+    string,
+    unknown
+  >;
+  const depot = raw.depot as { latitude?: unknown; longitude?: unknown } | undefined;
+
+  return {
+    depot: depot ? toPoint(depot.latitude, depot.longitude) : null,
+    routeStartTime:
+      typeof raw.routeStartTime === "string"
+        ? raw.routeStartTime
+        : DEFAULT_OPTIMIZER_SETTINGS.routeStartTime,
+    avgSpeedMph: Number(raw.avgSpeedMph) || DEFAULT_OPTIMIZER_SETTINGS.avgSpeedMph,
+    circuityFactor: Number(raw.circuityFactor) || DEFAULT_OPTIMIZER_SETTINGS.circuityFactor,
+    serviceMinutesBase:
+      raw.serviceMinutesBase !== undefined
+        ? Number(raw.serviceMinutesBase) || 0
+        : DEFAULT_OPTIMIZER_SETTINGS.serviceMinutesBase,
+    serviceMinutesPerDog:
+      raw.serviceMinutesPerDog !== undefined
+        ? Number(raw.serviceMinutesPerDog) || 0
+        : DEFAULT_OPTIMIZER_SETTINGS.serviceMinutesPerDog,
   };
 }
 
 /**
- * Sort jobs by ZIP code to minimize travel
- * Groups by ZIP, then sorts within each ZIP group
+ * Build sequencer options for a tech: their own depot if set, else the org depot
  */
-function optimizeJobsByZip(jobs: JobWithLocation[]): JobWithLocation[] {
-  // Group jobs by ZIP code
-  const zipGroups: Map<string, JobWithLocation[]> = new Map();
-
-  for (const job of jobs) {
-    const zip = job.location?.zip_code || "00000";
-    if (!zipGroups.has(zip)) {
-      zipGroups.set(zip, []);
+async function getSequencerOptions(
+  supabase: SupabaseClient,
+  settings: OptimizerSettings,
+  techId: string | null,
+  startTime?: string | null
+): Promise<SequencerOptions> {
+  let start = settings.depot;
+  let end = settings.depot;
+
+  if (techId) {
+    const { data: profile } = await supabase
+      .from("staff_profiles")
+      .select("start_latitude, start_longitude, end_latitude, end_longitude")
+      .eq("user_id", techId)
+      .maybeSingle();
+
+    if (profile) {
+      const techStart = toPoint(profile.start_latitude, profile.start_longitude);
+      const techEnd = toPoint(profile.end_latitude, profile.end_longitude);
+      if (techStart) {
+        start = techStart;
+        end = techEnd || techStart;
+      } else if (techEnd) {
+        end = techEnd;
+      }
     }
-    zipGroups.get(zip)!.push(job);
   }
 
-  // Sort ZIP codes numerically
-  const sortedZips = Array.from(zipGroups.keys()).sort((a, b) => {
-    // Extract the base ZIP (first 5 digits)
-    const zipA = parseInt(a.slice(0, 5)) || 0;
-    const zipB = parseInt(b.slice(0, 5)) || 0;
-    return zipA - zipB;
-  });
-
-  // Flatten back into a single array, maintaining ZIP grouping
-  const optimizedJobs: JobWithLocation[] = [];
-  for (const zip of sortedZips) {
-    const jobsInZip = zipGroups.get(zip)!;
+  return {
+    start,
+    end,
+    startMinutes:
+      parseTimeToMinutes(startTime) ?? parseTimeToMinutes(settings.routeStartTime) ?? undefined,
+    avgSpeedMph: settings.avgSpeedMph,
+    circuityFactor: settings.circuityFactor,
+  };
+}
 
-    // Within each ZIP, sort by street address for a basic street-by-street approach
-    jobsInZip.sort((a, b) => {
-      const addrA = a.location?.address_line1 || "";
-      const addrB = b.location?.address_line1 || "";
-      return addrA.localeCompare(addrB);
-    });
+/**
+ * Convert a job to a sequencer stop, estimating service time from dog count
+ */
+function toSequencerStop(
+  id: string,
+  job: JobWithLocation,
+  settings: OptimizerSettings
+): SequencerStop {
+  const dogCount = job.location?.dogs?.filter((d) => d.is_active).length || 0;
+  return {
+    id,
+    lat: toCoordinate(job.location?.latitude),
+    lng: toCoordinate(job.location?.longitude),
+    serviceMinutes:
+      settings.serviceMinutesBase + settings.serviceMinutesPerDog * Math.max(dogCount, 1),
+    windowStart: parseTimeToMinutes(job.scheduled_time_start),
+    windowEnd: parseTimeToMinutes(job.scheduled_time_end),
+  };
+}
 
-    optimizedJobs.push(...jobsInZip);
-  }
+function summarizeMetrics(metrics: SequenceMetrics) {
+  return {
+    miles: Math.round(metrics.miles * 10) / 10,
+    driveMinutes: Math.round(metrics.driveMinutes),
+    serviceMinutes: Math.round(metrics.serviceMinutes),
+    waitMinutes: Math.round(metrics.waitMinutes),
+    totalMinutes: Math.round(metrics.totalMinutes),
+    lateMinutes: Math.round(metrics.lateMinutes),
+    windowViolations: metrics.windowViolations,
+  };
+}
 
-  return optimizedJobs;
+function buildComparison(before: SequenceMetrics, after: SequenceMetrics) {
+  const beforeSummary = summarizeMetrics(before);
+  const afterSummary = summarizeMetrics(after);
+  return {
+    before: beforeSummary,
+    after: afterSummary,
+    savings: {
+      miles: Math.round((before.miles - after.miles) * 10) / 10,
+      minutes: beforeSummary.totalMinutes - afterSummary.totalMinutes,
+    },
+  };
 }
 
 /**
  * POST /api/admin/routes/optimize
- * Optimize route stop order by ZIP code
+ * Optimize route stop order
  */
 export async function POST(request: NextRequest) {
   const auth = await authenticateWithPermission(request, "routes:write");
@@ -98,15 +250,17 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const supabase = getSupabase();
+    const settings = await getOptimizerSettings(supabase, orgId);
 
     // Option 1: Optimize an existing route
     if (body.routeId) {
       const routeId = body.routeId;
+      const dryRun = body.dryRun === true;
 
       // Verify route belongs to org
       const { data: route, error: routeError } = await supabase
         .from("routes")
-        .select("id, status, route_date")
+        .select("id, status, route_date, assigned_to")
         .eq("id", routeId)
         .eq("org_id", orgId)
         .single();
@@ -125,25 +279,16 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      // Get all stops with job and location info
+      // Get all stops with job and location info, in their current order
       const { data: stops, error: stopsError } = await supabase
         .from("route_stops")
         .select(`
           id,
-          job:job_id (
-            id,
-            client_id,
-            location:location_id (
-              id,
-              zip_code,
-              city,
-              address_line1,
-              lat,
-              lng
-            )
-          )
+          stop_order,
+          job:job_id (${JOB_SELECT})
         `)
-        .eq("route_id", routeId);
+        .eq("route_id", routeId)
+        .order("stop_order");
 
       if (stopsError) {
         console.error("Error fetching route stops:", stopsError);
@@ -160,44 +305,97 @@ export async function POST(request: NextRequest) {
         });
       }
 
-      // Extract jobs from stops
-      const jobs: JobWithLocation[] = stops
+      const stopsWithJobs = stops
         .filter((s) => s.job)
-        .map((s) => {
-          const job = s.job as unknown as JobWithLocation;
-          return {
-            id: job.id,
-            client_id: job.client_id,
-            location: job.location,
-          };
-        });
-
-      // Optimize order
-      const optimizedJobs = optimizeJobsByZip(jobs);
+        .map((s) => ({ id: s.id as string, job: s.job as unknown as JobWithLocation }));
+
+      const sequencerStops = stopsWithJobs.map((s) =>
+        toSequencerStop(s.id, s.job, settings)
+      );
+      const options = await getSequencerOptions(
+        supabase,
+        settings,
+        route.assigned_to,
+        body.startTime
+      );
+
+      const result = optimizeStopSequence(sequencerStops, options);
+      let order = result.order;
+      let after = result.after;
+
+      // Applying an accepted preview: keep exactly the order dispatch reviewed
+      if (Array.isArray(body.stopOrder)) {
+        const requested = body.stopOrder as string[];
+        const known = new Set(stopsWithJobs.map((s) => s.id));
+        if (
+          requested.length !== known.size ||
+          !requested.every((id) => known.has(id))
+        ) {
+          return NextResponse.json(
+            { error: "Route stops changed since the preview. Please re-run optimization." },
+            { status: 409 }
+          );
+        }
+        order = requested;
+        after = evaluateSequence(sequencerStops, order, options);
+      }
 
-      // Create a map of job ID to new order
-      const newOrder = new Map<string, number>();
-      optimizedJobs.forEach((job, index) => {
-        newOrder.set(job.id, index + 1);
+      const arrivalByStop = new Map(after.arrivals.map((a) => [a.stopId, a]));
+      const serviceByStop = new Map(sequencerStops.map((s) => [s.id, s.serviceMinutes]));
+      const jobByStop = new Map(stopsWithJobs.map((s) => [s.id, s.job]));
+
+      const proposedOrder = order.map((stopId, index) => {
+        const job = jobByStop.get(stopId);
+        const arrival = arrivalByStop.get(stopId);
+        return {
+          stopId,
+          jobId: job?.id || null,
+          order: index + 1,
+          address: job?.location?.address_line1 || null,
+          estimatedArrival: arrival ? formatMinutesAsTime(arrival.arrivalMinutes) : null,
+          serviceMinutes: serviceByStop.get(stopId) ?? null,
+          lateMinutes: arrival ? Math.round(arrival.lateMinutes) : 0,
+        };
       });
 
-      // Update stop orders
-      for (const stop of stops) {
-        const job = stop.job as unknown as { id: string } | null;
-        if (job) {
-          const order = newOrder.get(job.id);
-          if (order !== undefined) {
-            await supabase
-              .from("route_stops")
-              .update({ stop_order: order })
-              .eq("id", stop.id);
-
-            // Also update job route_order
-            await supabase
-              .from("jobs")
-              .update({ route_order: order })
-              .eq("id", job.id);
-          }
+      const comparison = buildComparison(result.before, after);
+
+      if (dryRun) {
+        return NextResponse.json({
+          message: result.improved
+            ? `Proposed new order saves ${comparison.savings.miles} mi and ${comparison.savings.minutes} min`
+            : "Current stop order is already optimal",
+          applied: false,
+          improved: result.improved,
+          ...comparison,
+          proposedOrder,
+          unlocatedStopIds: result.unlocatedStopIds,
+        });
+      }
+
+      // Move every stop out of the way first: (route_id, stop_order) is unique
+      for (let i = 0; i < proposedOrder.length; i++) {
+        await supabase
+          .from("route_stops")
+          .update({ stop_order: -(i + 1) })
+          .eq("id", proposedOrder[i].stopId);
+      }
+
+      for (const stop of proposedOrder) {
+        await supabase
+          .from("route_stops")
+          .update({
+            stop_order: stop.order,
+            estimated_arrival: stop.estimatedArrival,
+            estimated_service_minutes: stop.serviceMinutes,
+          })
+          .eq("id", stop.stopId);
+
+        if (stop.jobId) {
+          await supabase
+            .from("jobs")
+            .update({ route_order: stop.order })
+            .eq("id", stop.jobId);
         }
       }
 
@@ -207,6 +405,7 @@ export async function POST(request: NextRequest) {
         .select(`
           id,
           stop_order,
+          estimated_arrival,
           job:job_id (
             id,
             status,
@@ -227,7 +426,12 @@ export async function POST(request: NextRequest) {
         .order("stop_order");
 
       return NextResponse.json({
-        message: `Optimized ${stops.length} stops by ZIP code`,
+        message: `Optimized ${proposedOrder.length} stops`,
+        applied: true,
+        improved: result.improved,
+        ...comparison,
+        proposedOrder,
+        unlocatedStopIds: result.unlocatedStopIds,
         stops: updatedStops,
       });
     }
@@ -246,18 +450,7 @@ export async function POST(request: NextRequest) {
       // Get jobs with locations
       const { data: jobs, error: jobsError } = await supabase
         .from("jobs")
-        .select(`
-          id,
-          client_id,
-          location:location_id (
-            id,
-            zip_code,
-            city,
-            address_line1,
-            lat,
-            lng
-          )
-        `)
+        .select(JOB_SELECT)
         .eq("org_id", orgId)
         .in("id", jobIds);
 
@@ -277,14 +470,18 @@ export async function POST(request: NextRequest) {
       }
 
       // Cast to proper type
-      const typedJobs: JobWithLocation[] = jobs.map((j) => ({
-        id: j.id,
-        client_id: j.client_id,
-        location: j.location as unknown as JobWithLocation["location"],
-      }));
-
-      // Optimize order
-      const optimizedJobs = optimizeJobsByZip(typedJobs);
+      const typedJobs = jobs as unknown as JobWithLocation[];
+      const options = await getSequencerOptions(
+        supabase,
+        settings,
+        assignedTo || null,
+        body.startTime
+      );
+      const result = optimizeStopSequence(
+        typedJobs.map((j) => toSequencerStop(j.id, j, settings)),
+        options
+      );
+      const arrivalByJob = new Map(result.after.arrivals.map((a) => [a.stopId, a]));
 
       // Create the route
       const { data: route, error: routeError } = await supabase
@@ -308,12 +505,16 @@ export async function POST(request: NextRequest) {
       }
 
       // Create route stops with optimized order
-      const stopsToInsert = optimizedJobs.map((job, index) => ({
-        org_id: orgId,
-        route_id: route.id,
-        job_id: job.id,
-        stop_order: index + 1,
-      }));
+      const stopsToInsert = result.order.map((jobId, index) => {
+        const arrival = arrivalByJob.get(jobId);
+        return {
+          org_id: orgId,
+          route_id: route.id,
+          job_id: jobId,
+          stop_order: index + 1,
+          estimated_arrival: arrival ? formatMinutesAsTime(arrival.arrivalMinutes) : null,
+        };
+      });
 
       const { error: stopsError } = await supabase
         .from("route_stops")
@@ -330,11 +531,11 @@ export async function POST(request: NextRequest) {
       }
 
       // Update jobs with route assignment
-      for (let i = 0; i < optimizedJobs.length; i++) {
+      for (let i = 0; i < result.order.length; i++) {
         await supabase
           .from("jobs")
           .update({ route_id: route.id, route_order: i + 1 })
-          .eq("id", optimizedJobs[i].id);
+          .eq("id", result.order[i]);
       }
 
       // Get the full route with stops
@@ -351,6 +552,7 @@ export async function POST(request: NextRequest) {
           stops:route_stops (
             id,
             stop_order,
+            estimated_arrival,
             job:job_id (
               id,
               status,
@@ -380,7 +582,9 @@ export async function POST(request: NextRequest) {
       }
 
       return NextResponse.json({
-        message: `Created optimized route with ${optimizedJobs.length} stops`,
+        message: `Created optimized route with ${result.order.length} stops`,
+        ...buildComparison(result.before, result.after),
+        unlocatedJobIds: result.unlocatedStopIds,
         route: fullRoute,
       }, { status: 201 });
     }
@@ -399,7 +603,7 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * GET /api/admin/routes/optimize/preview
+ * GET /api/admin/routes/optimize?jobIds=a,b,c&techId=xxx
  * Preview the optimized order for a set of jobs without creating/modifying anything
  */
 export async function GET(request: NextRequest) {
@@ -411,6 +615,7 @@ export async function GET(request: NextRequest) {
   const { orgId } = auth.user;
   const { searchParams } = new URL(request.url);
   const jobIds = searchParams.get("jobIds");
+  const techId = searchParams.get("techId");
 
   if (!jobIds) {
     return NextResponse.json(
@@ -433,19 +638,10 @@ export async function GET(request: NextRequest) {
   const { data: jobs, error: jobsError } = await supabase
     .from("jobs")
     .select(`
-      id,
-      client_id,
+      ${JOB_SELECT},
       client:client_id (
         first_name,
         last_name
-      ),
-      location:location_id (
-        id,
-        zip_code,
-        city,
-        address_line1,
-        lat,
-        lng
       )
     `)
     .eq("org_id", orgId)
@@ -466,28 +662,46 @@ export async function GET(request: NextRequest) {
     });
   }
 
-  // Cast and optimize
-  const typedJobs: JobWithLocation[] = jobs.map((j) => ({
-    id: j.id,
-    client_id: j.client_id,
-    location: j.location as unknown as JobWithLocation["location"],
-  }));
-
-  const optimizedJobs = optimizeJobsByZip(typedJobs);
+  const typedJobs = jobs as unknown as Array<
+    JobWithLocation & { client: { first_name: string; last_name: string | null } | null }
+  >;
+  const settings = await getOptimizerSettings(supabase, orgId);
+  const options = await getSequencerOptions(
+    supabase,
+    settings,
+    techId,
+    searchParams.get("startTime")
+  );
+  const result = optimizeStopSequence(
+    typedJobs.map((j) => toSequencerStop(j.id, j, settings)),
+    options
+  );
+  const arrivalByJob = new Map(result.after.arrivals.map((a) => [a.stopId, a]));
 
   // Build preview with original job data
-  const preview = optimizedJobs.map((optimizedJob, index) => {
-    const originalJob = jobs.find((j) => j.id === optimizedJob.id);
+  const preview = result.order.map((jobId, index) => {
+    const job = typedJobs.find((j) => j.id === jobId);
+    const arrival = arrivalByJob.get(jobId);
     return {
       order: index + 1,
-      jobId: optimizedJob.id,
-      client: originalJob?.client || null,
-      location: optimizedJob.location,
+      jobId,
+      client: job?.client || null,
+      location: job?.location
+        ? {
+            id: job.location.id,
+            zip_code: job.location.zip_code,
+            city: job.location.city,
+            address_line1: job.location.address_line1,
+          }
+        : null,
+      estimatedArrival: arrival ? formatMinutesAsTime(arrival.arrivalMinutes) : null,
     };
   });
 
   return NextResponse.json({
-    message: `Preview of ${preview.length} stops optimized by ZIP code`,
+    message: `Preview of ${preview.length} optimized stops`,
+    ...buildComparison(result.before, result.after),
+    unlocatedJobIds: result.unlocatedStopIds,
     preview,
   });
 }
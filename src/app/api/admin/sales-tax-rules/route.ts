@@ -0,0 +1,250 @@
+/**
+ * Admin Sales Tax Rules API
+ *
+ * Manage the rates invoices are taxed at, by jurisdiction (ZIP, city or
+ * state), product category and effective dates. Rule changes apply to
+ * invoices created afterwards; lines already billed keep the rate they were
+ * taxed at.
+ * Requires settings:read for GET, settings:write for POST/PUT/DELETE.
+ *
+ * GET    /api/admin/sales-tax-rules - List rules
+ * POST   /api/admin/sales-tax-rules - Create a rule
+ * PUT    /api/admin/sales-tax-rules - Update a rule (body.id)
+ * DELETE /api/admin/sales-tax-rules?id=xxx - Delete a rule
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import {
+  TAX_RULE_COLUMNS,
+  mapTaxRule,
+  parseTaxRuleInput,
+  SalesTaxError,
+} from "@/lib/sales-tax";
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+/**
+ * GET /api/admin/sales-tax-rules
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "settings:read");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const { data, error } = await getSupabase()
+    .from("sales_tax_rules")
+    .select(TAX_RULE_COLUMNS)
+    .eq("org_id", auth.user.orgId)
+    .order("jurisdiction", { ascending: true })
+    .order("category", { ascending: true })
+    .order("effective_from", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching sales tax rules:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch sales tax rules" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ rules: (data || []).map(mapTaxRule) });
+}
+
+/**
+ * POST /api/admin/sales-tax-rules
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "settings:write");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  try {
+    const body = await request.json();
+    const row = parseTaxRuleInput(body);
+    const supabase = getSupabase();
+
+    const { data: created, error } = await supabase
+      .from("sales_tax_rules")
+      .insert({ ...row, org_id: auth.user.orgId, created_by: auth.user.id })
+      .select(TAX_RULE_COLUMNS)
+      .single();
+
+    if (error || !created) {
+      console.error("Error creating sales tax rule:", error);
+      return NextResponse.json(
+        { error: "Failed to create sales tax rule" },
+        { status: 500 }
+      );
+    }
+
+    const rule = mapTaxRule(created);
+
+    await supabase.from("activity_logs").insert({
+      org_id: auth.user.orgId,
+      user_id: auth.user.id,
+      action: "SALES_TAX_RULE_CREATED",
+      entity_type: "SALES_TAX_RULE",
+      entity_id: rule.id,
+      details: { jurisdiction: rule.jurisdiction, category: rule.category, ratePercent: rule.ratePercent },
+    });
+
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    if (error instanceof SalesTaxError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error creating sales tax rule:", error);
+    return NextResponse.json(
+      { error: "Invalid request" },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * PUT /api/admin/sales-tax-rules
+ */
+export async function PUT(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "settings:write");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  try {
+    const body = await request.json();
+
+    if (!body.id) {
+      return NextResponse.json(
+        { error: "Rule ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabase();
+
+    const { data: existingRow } = await supabase
+      .from("sales_tax_rules")
+      .select(TAX_RULE_COLUMNS)
+      .eq("id", body.id)
+      .eq("org_id", auth.user.orgId)
+      .single();
+
+    if (!existingRow) {
+      return NextResponse.json(
+        { error: "Sales tax rule not found" },
+        { status: 404 }
+      );
+    }
+
+    // Validate the rule as it will be saved, not just the changed fields
+    const existing = mapTaxRule(existingRow);
+    const updates = parseTaxRuleInput(body, true);
+    parseTaxRuleInput({ ...existing, ...body });
+
+    const { data: updated, error } = await supabase
+      .from("sales_tax_rules")
+      .update(updates)
+      .eq("id", body.id)
+      .select(TAX_RULE_COLUMNS)
+      .single();
+
+    if (error || !updated) {
+      console.error("Error updating sales tax rule:", error);
+      return NextResponse.json(
+        { error: "Failed to update sales tax rule" },
+        { status: 500 }
+      );
+    }
+
+    await supabase.from("activity_logs").insert({
+      org_id: auth.user.orgId,
+      user_id: auth.user.id,
+      action: "SALES_TAX_RULE_UPDATED",
+      entity_type: "SALES_TAX_RULE",
+      entity_id: body.id,
+      details: { updatedKeys: Object.keys(updates) },
+    });
+
+    return NextResponse.json({ rule: mapTaxRule(updated) });
+  } catch (error) {
+    if (error instanceof SalesTaxError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error updating sales tax rule:", error);
+    return NextResponse.json(
+      { error: "Invalid request" },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/sales-tax-rules?id=xxx
+ */
+export async function DELETE(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "settings:write");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+
+  if (!id) {
+    return NextResponse.json(
+      { error: "Rule ID is required" },
+      { status: 400 }
+    );
+  }
+
+  const supabase = getSupabase();
+
+  const { data: existing } = await supabase
+    .from("sales_tax_rules")
+    .select("id, jurisdiction, category")
+    .eq("id", id)
+    .eq("org_id", auth.user.orgId)
+    .single();
+
+  if (!existing) {
+    return NextResponse.json(
+      { error: "Sales tax rule not found" },
+      { status: 404 }
+    );
+  }
+
+  const { error } = await supabase
+    .from("sales_tax_rules")
+    .delete()
+    .eq("id", id);
+
+  if (error) {
+    console.error("Error deleting sales tax rule:", error);
+    return NextResponse.json(
+      { error: "Failed to delete sales tax rule" },
+      { status: 500 }
+    );
+  }
+
+  await supabase.from("activity_logs").insert({
+    org_id: auth.user.orgId,
+    user_id: auth.user.id,
+    action: "SALES_TAX_RULE_DELETED",
+    entity_type: "SALES_TAX_RULE",
+    entity_id: id,
+    details: { jurisdiction: existing.jurisdiction, category: existing.category },
+  });
+
+  return NextResponse.json({ success: true });
+}
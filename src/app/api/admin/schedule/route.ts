@@ -11,6 +11,7 @@ import {
   authenticateWithPermission,
   errorResponse,
 } from "@/lib/api-auth";
+import { describeRecurrence, getSubscriptionRecurrence, setSubscriptionServiceDays } from "@/lib/recurrence";
 
 // Get Supabase client with service role
 function getSupabase() {
@@ -51,6 +52,9 @@ export async function GET(request: NextRequest) {
       status,
       frequency,
       preferred_day,
+      recurrence,
+      start_date,
+      metadata,
       price_per_visit_cents,
       created_at,
       client:client_id (
@@ -177,6 +181,7 @@ export async function GET(request: NextRequest) {
       frequency: sub.frequency,
       frequencyDisplay: formatFrequency(sub.frequency),
       preferredDay: sub.preferred_day,
+      scheduleLabel: describeRecurrence(getSubscriptionRecurrence(sub)),
       pricePerVisitCents: sub.price_per_visit_cents,
       planName: sub.plan?.name || null,
       status: sub.status,
@@ -252,11 +257,19 @@ export async function PUT(request: NextRequest) {
       updates.assigned_to = body.assignedTo || null;
     }
 
-    if (body.preferredDay !== undefined) {
+    // A new day moves each subscription's recurrence rule too (cadence and anchor kept)
+    let daysUpdated = 0;
+    if (body.preferredDay) {
+      daysUpdated = await setSubscriptionServiceDays(supabase, auth.user.orgId, body.subscriptionIds, [body.preferredDay]);
+    } else if (body.preferredDay !== undefined) {
       updates.preferred_day = body.preferredDay;
     }
 
     if (Object.keys(updates).length === 0) {
+      if (daysUpdated > 0) {
+        return NextResponse.json({ success: true, updated: daysUpdated });
+      }
+
       return NextResponse.json(
         { error: "No updates provided" },
         { status: 400 }
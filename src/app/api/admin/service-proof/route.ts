@@ -0,0 +1,171 @@
+/**
+ * Service Proof Review API
+ *
+ * Completions that missed the org's service proof rules (lib/service-proof)
+ * for the office to review, and the same rows for dispute exports.
+ *
+ * GET /api/admin/service-proof - List flagged / reviewed completions
+ *   ?status=FLAGGED|REVIEWED|ALL (default FLAGGED), ?from=, ?to= (completed date)
+ * PUT /api/admin/service-proof - Mark a flagged completion reviewed
+ *   Body: { jobId, note? }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import { reviewServiceProof, type ProofCheck } from "@/lib/service-proof";
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+const MAX_ROWS = 500;
+
+/**
+ * GET /api/admin/service-proof
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "jobs:read");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const supabase = getSupabase();
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get("status") || "FLAGGED";
+  const from = searchParams.get("from");
+  const to = searchParams.get("to");
+
+  let query = supabase
+    .from("jobs")
+    .select(`
+      id,
+      scheduled_date,
+      completed_at,
+      proof_status,
+      proof_check,
+      proof_reviewed_at,
+      proof_review_note,
+      photos,
+      client:client_id ( id, first_name, last_name ),
+      location:location_id ( address_line1, city, latitude, longitude ),
+      tech:assigned_to ( id, first_name, last_name ),
+      reviewer:proof_reviewed_by ( first_name, last_name )
+    `)
+    .eq("org_id", auth.user.orgId)
+    .order("completed_at", { ascending: false })
+    .limit(MAX_ROWS);
+
+  query = status === "ALL"
+    ? query.in("proof_status", ["FLAGGED", "REVIEWED"])
+    : query.eq("proof_status", status === "REVIEWED" ? "REVIEWED" : "FLAGGED");
+  if (from) query = query.gte("scheduled_date", from);
+  if (to) query = query.lte("scheduled_date", to);
+
+  const { data: jobs, error } = await query;
+
+  if (error) {
+    console.error("Error fetching service proof flags:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch flagged completions" },
+      { status: 500 }
+    );
+  }
+
+  const { count: flaggedCount } = await supabase
+    .from("jobs")
+    .select("id", { count: "exact", head: true })
+    .eq("org_id", auth.user.orgId)
+    .eq("proof_status", "FLAGGED");
+
+  const one = <T,>(value: T | T[] | null): T | null => (Array.isArray(value) ? value[0] ?? null : value);
+  const name = (person: { first_name?: string; last_name?: string } | null) =>
+    person ? `${person.first_name || ""} ${person.last_name || ""}`.trim() : null;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const items = (jobs || []).map((job: any) => {
+    const check = job.proof_check as ProofCheck | null;
+    const location = one(job.location) as { address_line1?: string; city?: string; latitude?: number; longitude?: number } | null;
+    return {
+      jobId: job.id,
+      scheduledDate: job.scheduled_date,
+      completedAt: job.completed_at,
+      status: job.proof_status,
+      client: name(one(job.client)),
+      clientId: one(job.client)?.id ?? null,
+      tech: name(one(job.tech)),
+      address: location ? [location.address_line1, location.city].filter(Boolean).join(", ") : null,
+      geocode: location?.latitude != null ? { lat: Number(location.latitude), lng: Number(location.longitude) } : null,
+      issues: check?.issues || [],
+      rules: check?.rules || null,
+      photoCount: check?.photoCount ?? (job.photos || []).length,
+      gatePhoto: check?.gatePhoto ?? false,
+      checkin: check?.checkin || null,
+      distanceMeters: check?.distanceMeters ?? null,
+      reviewedAt: job.proof_reviewed_at,
+      reviewedBy: name(one(job.reviewer)),
+      reviewNote: job.proof_review_note,
+    };
+  });
+
+  return NextResponse.json({ items, flaggedCount: flaggedCount || 0, truncated: items.length === MAX_ROWS });
+}
+
+/**
+ * PUT /api/admin/service-proof
+ */
+export async function PUT(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "jobs:write");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  try {
+    const body = await request.json();
+    const { jobId, note } = body;
+
+    if (!jobId || typeof jobId !== "string") {
+      return NextResponse.json(
+        { error: "jobId is required" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabase();
+    const reviewed = await reviewServiceProof(supabase, {
+      orgId: auth.user.orgId,
+      jobId,
+      userId: auth.user.id,
+      note: typeof note === "string" && note.trim() ? note.trim() : null,
+    });
+
+    if (!reviewed) {
+      return NextResponse.json(
+        { error: "No flagged completion found for that job" },
+        { status: 404 }
+      );
+    }
+
+    await supabase.from("activity_logs").insert({
+      org_id: auth.user.orgId,
+      user_id: auth.user.id,
+      action: "JOB_PROOF_REVIEWED",
+      entity_type: "JOB",
+      entity_id: jobId,
+      details: { note: typeof note === "string" ? note.trim() || undefined : undefined },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error reviewing service proof:", error);
+    return NextResponse.json(
+      { error: "Failed to review completion" },
+      { status: 500 }
+    );
+  }
+}
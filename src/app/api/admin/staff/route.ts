@@ -13,6 +13,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import { getRatingSummaries } from "@/lib/job-ratings";
 import type { UserRole } from "@/lib/supabase/types";
 
 function getSupabase() {
@@ -42,6 +43,12 @@ interface StaffProfile {
   emergency_contact: Record<string, string> | null;
   certifications: string[];
   notes: string | null;
+  start_address: string | null;
+  start_latitude: number | null;
+  start_longitude: number | null;
+  end_address: string | null;
+  end_latitude: number | null;
+  end_longitude: number | null;
 }
 
 /**
@@ -85,7 +92,13 @@ export async function GET(request: NextRequest) {
         license_plate,
         emergency_contact,
         certifications,
-        notes
+        notes,
+        start_address,
+        start_latitude,
+        start_longitude,
+        end_address,
+        end_latitude,
+        end_longitude
       )
     `
     )
@@ -138,6 +151,9 @@ export async function GET(request: NextRequest) {
 
   const activeShiftUsers = new Set((todayShifts || []).map((s) => s.user_id));
 
+  // Client rating averages for techs
+  const ratingSummaries = await getRatingSummaries(supabase, auth.user.orgId);
+
   // Normalize staff_profile from array to object and add camelCase aliases
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const normalizedStaff = (staff || []).map((s: any) => ({
@@ -154,6 +170,7 @@ export async function GET(request: NextRequest) {
       ? s.staff_profile[0] || null
       : s.staff_profile,
     is_clocked_in: activeShiftUsers.has(s.id),
+    rating: ratingSummaries.get(s.id) || null,
   }));
 
   return NextResponse.json({
@@ -404,6 +421,20 @@ export async function PUT(request: NextRequest) {
         profileData.certifications = profile.certifications;
       if (profile.notes !== undefined) profileData.notes = profile.notes;
 
+      // Start/end depot used by the route stop optimizer
+      if (profile.startAddress !== undefined)
+        profileData.start_address = profile.startAddress;
+      if (profile.startLatitude !== undefined)
+        profileData.start_latitude = profile.startLatitude;
+      if (profile.startLongitude !== undefined)
+        profileData.start_longitude = profile.startLongitude;
+      if (profile.endAddress !== undefined)
+        profileData.end_address = profile.endAddress;
+      if (profile.endLatitude !== undefined)
+        profileData.end_latitude = profile.endLatitude;
+      if (profile.endLongitude !== undefined)
+        profileData.end_longitude = profile.endLongitude;
+
       // Handle emergency contact as jsonb
       if (profile.emergencyContactName !== undefined || profile.emergencyContactPhone !== undefined) {
         const emergencyContact: Record<string, string> = {};
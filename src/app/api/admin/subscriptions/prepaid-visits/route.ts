@@ -0,0 +1,130 @@
+/**
+ * Admin Prepaid Visits API
+ *
+ * A prepaid pack subscription's visit balance and its history, and selling
+ * a pack or adjusting the balance by hand. A pack sold for a price is
+ * invoiced and charged to the client's card on file.
+ * Requires subscriptions:read for GET, subscriptions:write for POST.
+ *
+ * GET  /api/admin/subscriptions/prepaid-visits?id= - Balance and ledger
+ * POST /api/admin/subscriptions/prepaid-visits - Add visits (body: id, visits,
+ *      price_cents, note); price_cents 0 is a manual adjustment and visits
+ *      may then be negative
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import { addPrepaidVisits, listPrepaidLedger, VisitBillingError } from "@/lib/visit-billing";
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+/**
+ * GET /api/admin/subscriptions/prepaid-visits
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "subscriptions:read");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const id = new URL(request.url).searchParams.get("id");
+  if (!id) {
+    return NextResponse.json(
+      { error: "Subscription ID is required" },
+      { status: 400 }
+    );
+  }
+
+  const supabase = getSupabase();
+
+  const { data: subscription } = await supabase
+    .from("subscriptions")
+    .select("id, billing_mode, visit_charge_batch, prepaid_visits_remaining")
+    .eq("id", id)
+    .eq("org_id", auth.user.orgId)
+    .single();
+
+  if (!subscription) {
+    return NextResponse.json(
+      { error: "Subscription not found" },
+      { status: 404 }
+    );
+  }
+
+  const entries = await listPrepaidLedger(supabase, auth.user.orgId, id);
+
+  return NextResponse.json({
+    billingMode: subscription.billing_mode,
+    visitChargeBatch: subscription.visit_charge_batch,
+    visitsRemaining: subscription.prepaid_visits_remaining,
+    entries,
+  });
+}
+
+/**
+ * POST /api/admin/subscriptions/prepaid-visits
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "subscriptions:write");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  try {
+    const body = await request.json();
+
+    if (!body.id) {
+      return NextResponse.json(
+        { error: "Subscription ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabase();
+    const visits = Number(body.visits);
+    const priceCents = Number(body.price_cents ?? 0);
+
+    const result = await addPrepaidVisits(supabase, {
+      orgId: auth.user.orgId,
+      subscriptionId: body.id,
+      visits,
+      priceCents,
+      note: typeof body.note === "string" ? body.note.trim() : null,
+      userId: auth.user.id,
+    });
+
+    await supabase.from("activity_logs").insert({
+      org_id: auth.user.orgId,
+      user_id: auth.user.id,
+      action: priceCents > 0 ? "PREPAID_PACK_SOLD" : "PREPAID_VISITS_ADJUSTED",
+      entity_type: "SUBSCRIPTION",
+      entity_id: body.id,
+      details: {
+        visits,
+        priceCents,
+        visitsRemaining: result.visitsRemaining,
+        invoiceId: result.invoice?.invoiceId,
+        invoiceStatus: result.invoice?.status,
+      },
+    });
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof VisitBillingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error adding prepaid visits:", error);
+    return NextResponse.json(
+      { error: "Failed to add prepaid visits" },
+      { status: 500 }
+    );
+  }
+}
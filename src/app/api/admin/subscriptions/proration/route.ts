@@ -0,0 +1,86 @@
+/**
+ * Admin Subscription Proration Preview API
+ *
+ * What a subscription change would charge or credit on the next invoice
+ * for the rest of the month, before the office confirms it. Nothing is
+ * written; PUT /api/admin/subscriptions applies the change.
+ * Requires subscriptions:read.
+ *
+ * POST /api/admin/subscriptions/proration - Preview (body: id, the changes
+ *      PUT accepts, and an optional effective_date, which must be today)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import {
+  previewSubscriptionChange,
+  subscriptionChangesFromBody,
+  parseEffectiveDate,
+  SubscriptionUpdateError,
+} from "@/lib/subscription-update";
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+/**
+ * POST /api/admin/subscriptions/proration
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "subscriptions:read");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  try {
+    const body = await request.json();
+
+    if (!body.id) {
+      return NextResponse.json(
+        { error: "Subscription ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabase();
+
+    const { data: existing } = await supabase
+      .from("subscriptions")
+      .select("*")
+      .eq("id", body.id)
+      .eq("org_id", auth.user.orgId)
+      .single();
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Subscription not found" },
+        { status: 404 }
+      );
+    }
+
+    const proration = await previewSubscriptionChange(
+      supabase,
+      auth.user.orgId,
+      existing,
+      subscriptionChangesFromBody(body),
+      parseEffectiveDate(body.effective_date)
+    );
+
+    return NextResponse.json({ proration });
+  } catch (error) {
+    if (error instanceof SubscriptionUpdateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error previewing proration:", error);
+    return NextResponse.json(
+      { error: "Invalid request body" },
+      { status: 400 }
+    );
+  }
+}
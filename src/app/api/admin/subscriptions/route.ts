@@ -2,7 +2,8 @@
  * Admin Subscriptions API
  *
  * CRUD operations for subscription management.
- * Handles subscription changes with automatic job void/regeneration.
+ * Handles subscription changes with automatic job void/regeneration, and
+ * prorates plan changes made partway through an invoiced month.
  * Requires subscriptions:read for GET, subscriptions:write for POST/PUT.
  */
 
@@ -13,9 +14,11 @@ import {
   errorResponse,
 } from "@/lib/api-auth";
 import {
-  voidFutureJobsForSubscription,
-  regenerateJobsForSubscription,
-} from "@/lib/subscription-jobs";
+  updateSubscription,
+  subscriptionChangesFromBody,
+  parseEffectiveDate,
+  SubscriptionUpdateError,
+} from "@/lib/subscription-update";
 
 // Get Supabase client with service role
 function getSupabase() {
@@ -131,144 +134,29 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    // Build update object
-    const updates: Record<string, unknown> = {};
-    let needsJobRegeneration = false;
-    let shouldVoidFutureJobs = false;
-
-    // Status changes
-    if (body.status !== undefined && body.status !== existing.status) {
-      const validStatuses = ["ACTIVE", "PAUSED", "CANCELED", "PAST_DUE"];
-      if (!validStatuses.includes(body.status)) {
-        return NextResponse.json(
-          { error: "Invalid status" },
-          { status: 400 }
-        );
-      }
-      updates.status = body.status;
-
-      // If pausing or canceling, void future jobs
-      if (body.status === "PAUSED" || body.status === "CANCELED") {
-        shouldVoidFutureJobs = true;
-        if (body.status === "CANCELED") {
-          updates.canceled_at = new Date().toISOString();
-          updates.cancel_reason = body.cancel_reason || null;
-        }
-      }
-
-      // If reactivating, regenerate jobs
-      if (body.status === "ACTIVE" && existing.status !== "ACTIVE") {
-        needsJobRegeneration = true;
-      }
-    }
-
-    // Frequency changes
-    if (body.frequency !== undefined && body.frequency !== existing.frequency) {
-      const validFrequencies = ["WEEKLY", "BIWEEKLY", "MONTHLY", "ONETIME"];
-      if (!validFrequencies.includes(body.frequency)) {
-        return NextResponse.json(
-          { error: "Invalid frequency" },
-          { status: 400 }
-        );
-      }
-      updates.frequency = body.frequency;
-      shouldVoidFutureJobs = true;
-      if (existing.status === "ACTIVE" || body.status === "ACTIVE") {
-        needsJobRegeneration = true;
-      }
-    }
-
-    // Preferred day changes
-    if (body.preferred_day !== undefined) {
-      const validDays = ["MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY", "SATURDAY", "SUNDAY", null];
-      if (!validDays.includes(body.preferred_day)) {
-        return NextResponse.json(
-          { error: "Invalid preferred_day" },
-          { status: 400 }
-        );
+    const result = await updateSubscription(
+      supabase,
+      auth.user.orgId,
+      existing,
+      subscriptionChangesFromBody(body),
+      {
+        // prorate: false leaves the rest of the month at the old plan
+        prorate: body.prorate === false
+          ? undefined
+          : { effectiveDate: parseEffectiveDate(body.effective_date), userId: auth.user.id },
       }
-      updates.preferred_day = body.preferred_day;
-      shouldVoidFutureJobs = true;
-      needsJobRegeneration = true;
-    }
-
-    // Price changes
-    if (body.price_per_visit_cents !== undefined) {
-      updates.price_per_visit_cents = body.price_per_visit_cents;
-    }
-
-    // Pause dates
-    if (body.pause_start_date !== undefined) {
-      updates.pause_start_date = body.pause_start_date;
-    }
-    if (body.pause_end_date !== undefined) {
-      updates.pause_end_date = body.pause_end_date;
-    }
-
-    // Next service date
-    if (body.next_service_date !== undefined) {
-      updates.next_service_date = body.next_service_date;
-    }
-
-    // Notes
-    if (body.notes !== undefined) {
-      updates.notes = body.notes;
-    }
-
-    // Void future jobs if needed
-    let voidedJobsCount = 0;
-
-    if (shouldVoidFutureJobs) {
-      voidedJobsCount = await voidFutureJobsForSubscription(
-        supabase,
-        body.id,
-        auth.user.orgId,
-        "Subscription changed"
-      );
-    }
-
-    // Update the subscription
-    const { data: subscription, error: updateError } = await supabase
-      .from("subscriptions")
-      .update(updates)
-      .eq("id", body.id)
-      .select()
-      .single();
-
-    if (updateError) {
-      console.error("Error updating subscription:", updateError);
-      return NextResponse.json(
-        { error: "Failed to update subscription" },
-        { status: 500 }
-      );
-    }
-
-    // Regenerate jobs if needed
-    let generatedJobsCount = 0;
-    if (needsJobRegeneration && subscription.status === "ACTIVE") {
-      generatedJobsCount = await regenerateJobsForSubscription(
-        supabase,
-        {
-          id: subscription.id,
-          client_id: subscription.client_id,
-          location_id: subscription.location_id,
-          frequency: subscription.frequency,
-          preferred_day: subscription.preferred_day,
-          price_per_visit_cents: subscription.price_per_visit_cents,
-          created_at: subscription.created_at,
-          status: subscription.status,
-        },
-        auth.user.orgId,
-        14 // Generate 2 weeks ahead
-      );
-    }
+    );
 
     return NextResponse.json({
-      subscription,
-      jobsVoided: voidedJobsCount,
-      jobsGenerated: generatedJobsCount,
+      subscription: result.subscription,
+      jobsVoided: result.jobsVoided,
+      jobsGenerated: result.jobsGenerated,
+      proration: result.proration,
     });
   } catch (error) {
+    if (error instanceof SubscriptionUpdateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error("Error updating subscription:", error);
     return NextResponse.json(
       { error: "Invalid request body" },
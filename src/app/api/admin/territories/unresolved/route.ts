@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+
+// Doors still waiting on a re-knock (NOT_HOME with tries left, CALLBACK) for the
+// territory planner's heat layer. Call-backs weigh more — someone asked us back.
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const session = await getSession();
+  if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const rows: Array<{ lat: number; lng: number; status: string }> = await prisma.canvassVisit.findMany({
+    where: { nextKnockAt: { not: null }, status: { in: ["NOT_HOME", "CALLBACK"] } },
+    select: { lat: true, lng: true, status: true },
+    take: 20000,
+  });
+  const points = rows.map((r) => ({ lat: r.lat, lng: r.lng, weight: r.status === "CALLBACK" ? 1 : 0.6 }));
+  return NextResponse.json({ points, callbacks: rows.filter((r) => r.status === "CALLBACK").length });
+}
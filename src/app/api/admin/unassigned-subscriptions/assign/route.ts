@@ -4,6 +4,8 @@
  * Assigns tech and route to a subscription.
  * Creates initial cleanup job if specified.
  * Updates recurring jobs with tech and route assignment.
+ * Refuses (409) when the service days would put the tech over route capacity;
+ * in WARN mode the office can resend with acknowledgeCapacity to go ahead.
  *
  * Requires subscriptions:write permission.
  */
@@ -11,6 +13,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import {
+  WEEKDAY_KEYS,
+  getSubscriptionRecurrence,
+  setSubscriptionServiceDays,
+} from "@/lib/recurrence";
+import {
+  checkPlacementCapacity,
+  describeDayLoad,
+  loadCapacityModel,
+} from "@/lib/route-capacity";
 
 function getSupabase() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -34,6 +46,8 @@ interface AssignmentRequest {
     techId: string;
     estimatedMinutes: number;
   };
+  /** Go ahead even though a service day is over capacity (WARN mode only) */
+  acknowledgeCapacity?: boolean;
 }
 
 /**
@@ -153,6 +167,53 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Check the tech's route on each new service day against capacity (an
+    // address that was never geocoded can't be placed, so it isn't checked)
+    const rule = getSubscriptionRecurrence(subscription);
+    const geocoded = subscription.location?.latitude != null && subscription.location?.longitude != null;
+    const latitude = geocoded ? Number(subscription.location.latitude) : NaN;
+    const longitude = geocoded ? Number(subscription.location.longitude) : NaN;
+    const dayIndexes = body.recurringService.serviceDays
+      .map((day) => WEEKDAY_KEYS.indexOf(day))
+      .filter((d) => d >= 0);
+
+    if (rule && dayIndexes.length > 0 && Number.isFinite(latitude) && Number.isFinite(longitude)) {
+      const [capacityModel, { count: dogCount }] = await Promise.all([
+        loadCapacityModel(supabase, orgId),
+        supabase
+          .from("dogs")
+          .select("id", { count: "exact", head: true })
+          .eq("location_id", subscription.location_id)
+          .eq("is_active", true),
+      ]);
+      const cleanupFrequency = subscription.metadata?.cleanup_frequency;
+
+      const capacity = checkPlacementCapacity(capacityModel, {
+        subscriptionId: subscription.id,
+        clientName: `${subscription.client?.first_name || ""} ${subscription.client?.last_name || ""}`.trim(),
+        techId: body.recurringService.techId,
+        rule: { ...rule, days: dayIndexes },
+        lat: latitude,
+        lng: longitude,
+        dogCount: dogCount || 0,
+        frequency: typeof cleanupFrequency === "string" ? cleanupFrequency : subscription.frequency,
+      });
+
+      if (!capacity.ok && (capacity.enforcement === "BLOCK" || !body.acknowledgeCapacity)) {
+        return NextResponse.json(
+          {
+            error: capacity.message,
+            capacity: {
+              enforcement: capacity.enforcement,
+              violations: capacity.violations.map(describeDayLoad),
+              canOverride: capacity.enforcement === "WARN",
+            },
+          },
+          { status: 409 }
+        );
+      }
+    }
+
     let initialCleanupJob = null;
     let recurringJobsUpdated = 0;
 
@@ -208,18 +269,12 @@ export async function POST(request: NextRequest) {
       // The initial_cleanup_completed stays false until the job is completed
     }
 
-    // Update subscription with preferred_day
+    // Update the subscription's recurrence days (and preferred_day), e.g. Mon/Thu
     // Note: subscriptions table doesn't have assigned_to column
     // Tech assignment is done at the job/route level
     const { serviceDays, techId: recurringTechId } = body.recurringService;
-    const primaryDay = serviceDays[0];
 
-    await supabase
-      .from("subscriptions")
-      .update({
-        preferred_day: primaryDay,
-      })
-      .eq("id", subscription.id);
+    await setSubscriptionServiceDays(supabase, orgId, [subscription.id], serviceDays);
 
     // Update all future scheduled jobs with tech and route assignment
     const { data: scheduledJobs } = await supabase
@@ -278,7 +333,8 @@ export async function POST(request: NextRequest) {
       recurringJobsUpdated,
       subscription: {
         id: subscription.id,
-        preferredDay: primaryDay,
+        preferredDay: serviceDays[0],
+        serviceDays,
       },
     });
   } catch (error) {
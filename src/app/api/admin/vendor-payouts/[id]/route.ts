@@ -39,7 +39,7 @@ export async function GET(
 
   const { data: payout, error } = await supabase
     .from("vendor_payouts")
-    .select("*, vendor:vendor_id (id, name, payout_method)")
+    .select("*, vendor:vendor_id (id, name, email, payout_method)")
     .eq("id", id)
     .eq("org_id", auth.user.orgId)
     .single();
@@ -54,7 +54,7 @@ export async function GET(
   // Fetch line items
   const { data: items } = await supabase
     .from("vendor_payout_items")
-    .select("*")
+    .select("*, invoice:invoice_id (invoice_number)")
     .eq("vendor_payout_id", id)
     .order("created_at", { ascending: true });
 
@@ -75,6 +75,10 @@ export async function GET(
       periodEnd: payout.period_end,
       notes: payout.notes,
       paidAt: payout.paid_at,
+      payoutRunId: payout.payout_run_id ?? null,
+      statementSentAt: payout.statement_sent_at ?? null,
+      statementSentTo: payout.statement_sent_to ?? null,
+      vendorEmail: vendor?.email ?? null,
       createdAt: payout.created_at,
       updatedAt: payout.updated_at,
     },
@@ -82,8 +86,14 @@ export async function GET(
     items: (items || []).map((item: any) => ({
       id: item.id,
       jobAddOnId: item.job_add_on_id,
+      source: item.source ?? "MANUAL",
+      invoiceId: item.invoice_id ?? null,
+      invoiceNumber: item.invoice?.invoice_number ?? null,
       description: item.description,
+      grossCents: item.gross_cents ?? null,
+      commissionCents: item.commission_cents ?? null,
       amountCents: item.amount_cents,
+      releasedAt: item.released_at ?? null,
       createdAt: item.created_at,
     })),
   });
@@ -0,0 +1,101 @@
+/**
+ * Admin Vendor Payout Statement API
+ *
+ * Download a payout's statement as CSV, or email it to the vendor.
+ * Requires vendors:read for GET, vendors:write for POST.
+ *
+ * GET  /api/admin/vendor-payouts/[id]/statement - CSV download
+ * POST /api/admin/vendor-payouts/[id]/statement - Email the statement to the vendor
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import {
+  buildPayoutStatement,
+  sendPayoutStatement,
+  VendorPayoutError,
+} from "@/lib/vendor-payouts";
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+/**
+ * GET /api/admin/vendor-payouts/[id]/statement
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateWithPermission(request, "vendors:read");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const { id } = await params;
+
+  try {
+    const statement = await buildPayoutStatement(getSupabase(), auth.user.orgId, id);
+    return new NextResponse(statement.csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${statement.filename}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof VendorPayoutError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error building payout statement:", error);
+    return NextResponse.json(
+      { error: "Failed to build statement" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/vendor-payouts/[id]/statement
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateWithPermission(request, "vendors:write");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const { id } = await params;
+
+  try {
+    const supabase = getSupabase();
+    const { sentTo } = await sendPayoutStatement(supabase, auth.user.orgId, id);
+
+    await supabase.from("activity_logs").insert({
+      org_id: auth.user.orgId,
+      user_id: auth.user.id,
+      action: "VENDOR_PAYOUT_STATEMENT_SENT",
+      entity_type: "VENDOR_PAYOUT",
+      entity_id: id,
+      details: { sentTo },
+    });
+
+    return NextResponse.json({ success: true, sentTo });
+  } catch (error) {
+    if (error instanceof VendorPayoutError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error sending payout statement:", error);
+    return NextResponse.json(
+      { error: "Failed to send statement" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,9 @@
 /**
  * Admin Vendor Payouts API
  *
- * CRUD operations for vendor payouts.
+ * CRUD operations for vendor payouts. Payouts for a period's vendor work
+ * are generated by the payout run (./run); this creates one-off payouts.
+ * Canceling a payout releases its items so a later run can pay them again.
  * Requires vendors:read for GET, vendors:write for POST/PUT.
  */
 
@@ -11,6 +13,7 @@ import {
   authenticateWithPermission,
   errorResponse,
 } from "@/lib/api-auth";
+import { releasePayoutItems } from "@/lib/vendor-payouts";
 
 function getSupabase() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -35,6 +38,8 @@ function formatPayout(p: any) {
     periodEnd: p.period_end,
     notes: p.notes,
     paidAt: p.paid_at,
+    payoutRunId: p.payout_run_id ?? null,
+    statementSentAt: p.statement_sent_at ?? null,
     createdAt: p.created_at,
     updatedAt: p.updated_at,
   };
@@ -153,7 +158,14 @@ export async function POST(request: NextRequest) {
         job_add_on_id: item.jobAddOnId ?? item.job_add_on_id ?? null,
       }));
 
-      await supabase.from("vendor_payout_items").insert(lineItems);
+      const { error: itemsError } = await supabase.from("vendor_payout_items").insert(lineItems);
+      if (itemsError?.code === "23505") {
+        await supabase.from("vendor_payouts").delete().eq("id", payout.id);
+        return NextResponse.json(
+          { error: "An add-on on this payout is already on another payout" },
+          { status: 409 }
+        );
+      }
     }
 
     return NextResponse.json({ payout: formatPayout(payout) }, { status: 201 });
@@ -213,6 +225,12 @@ export async function PUT(request: NextRequest) {
           { status: 400 }
         );
       }
+      if (existing.status === "CANCELED" && status !== "CANCELED") {
+        return NextResponse.json(
+          { error: "Canceled payouts can't be reopened; run payouts again instead" },
+          { status: 400 }
+        );
+      }
       updates.status = status;
       if (status === "PAID") {
         updates.paid_at = new Date().toISOString();
@@ -245,6 +263,10 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    if (updates.status === "CANCELED" && existing.status !== "CANCELED") {
+      await releasePayoutItems(supabase, body.id);
+    }
+
     return NextResponse.json({ payout: formatPayout(payout) });
   } catch (error) {
     console.error("Error updating vendor payout:", error);
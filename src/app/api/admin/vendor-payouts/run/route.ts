@@ -0,0 +1,123 @@
+/**
+ * Admin Vendor Payout Run API
+ *
+ * Generate vendor payouts for a period from completed add-on work and paid
+ * cross-sell lines, less each vendor's commission. Lines already on a live
+ * payout are never included again.
+ * Requires vendors:read for GET, vendors:write for POST.
+ *
+ * GET  /api/admin/vendor-payouts/run?periodStart=&periodEnd=&vendorId= - Preview what a run would pay
+ * POST /api/admin/vendor-payouts/run - Create the payouts (body: periodStart, periodEnd, vendorId?, sendStatements?)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { authenticateWithPermission, errorResponse } from "@/lib/api-auth";
+import {
+  findPayableWork,
+  parsePayoutPeriod,
+  runVendorPayouts,
+  VendorPayoutError,
+} from "@/lib/vendor-payouts";
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+/**
+ * GET /api/admin/vendor-payouts/run
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "vendors:read");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const { periodStart, periodEnd } = parsePayoutPeriod({
+      periodStart: searchParams.get("periodStart"),
+      periodEnd: searchParams.get("periodEnd"),
+    });
+
+    const { drafts, unassigned } = await findPayableWork(getSupabase(), {
+      orgId: auth.user.orgId,
+      periodStart,
+      periodEnd,
+      vendorId: searchParams.get("vendorId"),
+    });
+
+    return NextResponse.json({
+      periodStart,
+      periodEnd,
+      vendors: drafts,
+      unassigned,
+      totalCents: drafts.reduce((sum, draft) => sum + draft.amountCents, 0),
+    });
+  } catch (error) {
+    if (error instanceof VendorPayoutError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error previewing vendor payout run:", error);
+    return NextResponse.json(
+      { error: "Failed to preview payout run" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/vendor-payouts/run
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authenticateWithPermission(request, "vendors:write");
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  try {
+    const body = await request.json();
+    const { periodStart, periodEnd } = parsePayoutPeriod(body);
+    const supabase = getSupabase();
+
+    const result = await runVendorPayouts(supabase, {
+      orgId: auth.user.orgId,
+      periodStart,
+      periodEnd,
+      vendorId: body.vendorId ?? null,
+      sendStatements: body.sendStatements === true,
+      userId: auth.user.id,
+    });
+
+    await supabase.from("activity_logs").insert({
+      org_id: auth.user.orgId,
+      user_id: auth.user.id,
+      action: "VENDOR_PAYOUT_RUN",
+      entity_type: "VENDOR_PAYOUT_RUN",
+      entity_id: result.runId,
+      details: {
+        periodStart,
+        periodEnd,
+        payoutCount: result.payouts.length,
+        totalCents: result.totalCents,
+        statementsSent: result.statementsSent,
+      },
+    });
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof VendorPayoutError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error running vendor payouts:", error);
+    return NextResponse.json(
+      { error: "Failed to run vendor payouts" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getCanvasserSession } from "@/lib/canvasser-auth";
+
+// Save / remove a canvasser device's push subscription (callback reminders).
+export async function POST(request: Request) {
+  const user = await getCanvasserSession();
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { endpoint, keys } = await request.json().catch(() => ({}));
+  if (!endpoint || !keys?.p256dh || !keys?.auth) {
+    return NextResponse.json({ error: "Invalid subscription data" }, { status: 400 });
+  }
+
+  // A shared device moves to whoever signed in last
+  await prisma.canvasserPushSubscription.upsert({
+    where: { endpoint },
+    create: { canvasserId: user.id, endpoint, p256dh: keys.p256dh, auth: keys.auth },
+    update: { canvasserId: user.id, p256dh: keys.p256dh, auth: keys.auth },
+  });
+
+  return NextResponse.json({ ok: true });
+}
+
+export async function DELETE(request: Request) {
+  const user = await getCanvasserSession();
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { endpoint } = await request.json().catch(() => ({}));
+  if (!endpoint) return NextResponse.json({ error: "Missing endpoint" }, { status: 400 });
+
+  await prisma.canvasserPushSubscription.deleteMany({ where: { endpoint, canvasserId: user.id } });
+  return NextResponse.json({ ok: true });
+}
@@ -2,6 +2,8 @@ import { NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
 import { getCanvasserSession } from "@/lib/canvasser-auth";
 import { reverseGeocode, normalizeZip } from "@/lib/geo/zipgeo";
+import { recordWalkStopVisit } from "@/lib/canvass-walk-list";
+import { getReknockSettings, parseCallbackAt, planKnock, recordAttempt } from "@/lib/canvass-reknock";
 
 // Canvasser map pins. Every handler is gated to a canvasser session and scoped
 // to the caller's own rows (canvasserId = the Supabase user id). Writes are
@@ -62,14 +64,21 @@ export async function POST(request: Request) {
     }
   }
 
+  // Attempt count + when this door comes back around (NOT_HOME / CALLBACK)
+  const knock = planKnock(
+    existing,
+    { status, callbackAt: parseCallbackAt(body.callbackAt), moved: regeocode },
+    await getReknockSettings()
+  );
+
   const visit = await prisma.canvassVisit.upsert({
     where: { clientKey },
     create: {
       clientKey, canvasserId: user.id, canvasserName: user.name, orgId: "",
-      lat, lng, address, city, zipCode, status, notes,
+      lat, lng, address, city, zipCode, status, notes, ...knock.fields,
     },
     update: {
-      lat, lng, status, notes,
+      lat, lng, status, notes, ...knock.fields,
       // keep the first resolved address; only backfill if we now have one
       ...(address ? { address } : {}),
       ...(city ? { city } : {}),
@@ -77,6 +86,11 @@ export async function POST(request: Request) {
     },
   });
 
+  await recordAttempt(visit, knock.newAttempt);
+
+  // Check off the walk-list door this pin landed on (never fails the save)
+  await recordWalkStopVisit(user.id, visit).catch((e) => console.error("[canvasser/visits] walk list", e));
+
   return NextResponse.json({ visit });
 }
 
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { getCanvasserSession } from "@/lib/canvasser-auth";
+import { canvasserWalkLists, generateWalkList, setWalkStopStatus, WalkListError } from "@/lib/canvass-walk-list";
+
+// The signed-in canvasser's walk lists (one per assigned territory).
+//   GET   — territories with coverage + the latest list and its stops
+//   POST  { territoryId, lat?, lng? } — (re)generate a list starting near the rep
+//   PATCH { stopId, action: "skip" | "unskip" }
+export const dynamic = "force-dynamic";
+export const maxDuration = 60; // generation queries the map data service
+
+export async function GET() {
+  const user = await getCanvasserSession();
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  return NextResponse.json({ territories: await canvasserWalkLists(user.id) });
+}
+
+export async function POST(request: Request) {
+  const user = await getCanvasserSession();
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const b = await request.json().catch(() => ({}));
+  if (!b?.territoryId || typeof b.territoryId !== "string") {
+    return NextResponse.json({ error: "territoryId is required" }, { status: 400 });
+  }
+  const from = typeof b.lat === "number" && typeof b.lng === "number" ? { lat: b.lat, lng: b.lng } : null;
+
+  try {
+    const list = await generateWalkList(user.id, b.territoryId, from);
+    return NextResponse.json({ list });
+  } catch (e) {
+    if (e instanceof WalkListError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[canvasser/walk-list]", e);
+    return NextResponse.json({ error: "Couldn't build the walk list." }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: Request) {
+  const user = await getCanvasserSession();
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { stopId, action } = await request.json().catch(() => ({}));
+  if (!stopId || (action !== "skip" && action !== "unskip")) {
+    return NextResponse.json({ error: "stopId and a skip/unskip action are required" }, { status: 400 });
+  }
+  try {
+    const stop = await setWalkStopStatus(user.id, String(stopId), action === "skip" ? "SKIPPED" : "PENDING");
+    return NextResponse.json({ stop });
+  } catch (e) {
+    if (e instanceof WalkListError) return NextResponse.json({ error: e.message }, { status: e.status });
+    throw e;
+  }
+}
@@ -8,6 +8,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import Stripe from "stripe";
 import { authenticateRequest, errorResponse } from "@/lib/api-auth";
+import { getCreditBalance, listCreditActivity } from "@/lib/credit-ledger";
 
 function getSupabase() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -48,7 +49,7 @@ export async function GET(request: NextRequest) {
       .from("clients")
       .select(`
         id,
-        account_credit_cents,
+        org_id,
         stripe_customer_id
       `)
       .eq("user_id", auth.user.id)
@@ -104,26 +105,13 @@ export async function GET(request: NextRequest) {
       openBalance: allInvoices
         ?.filter((inv) => inv.status === "UNPAID")
         .reduce((sum, inv) => sum + (inv.total_cents - (inv.paid_cents || 0)), 0) || 0,
-      accountCredit: client.account_credit_cents || 0,
     };
 
-    // Get gift certificate balance
-    const { data: giftCerts } = await supabase
-      .from("gift_certificate_redemptions")
-      .select(`
-        id,
-        amount_cents,
-        gift_certificate:gift_certificates (
-          code,
-          original_amount_cents
-        )
-      `)
-      .eq("client_id", client.id)
-      .eq("status", "APPLIED");
-
-    // Calculate total remaining gift certificate balance
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const giftCertBalance = giftCerts?.reduce((sum: number, r: any) => sum + (r.amount_cents || 0), 0) || 0;
+    // Remaining credit, in the order invoices draw it down
+    const [credit, creditActivity] = await Promise.all([
+      getCreditBalance(supabase, client.org_id, client.id),
+      listCreditActivity(supabase, client.org_id, client.id, 10),
+    ]);
 
     // Get Stripe payment methods if customer exists
     interface PaymentMethod {
@@ -192,8 +180,11 @@ export async function GET(request: NextRequest) {
       paymentMethods,
       totals: {
         ...totals,
-        giftCertBalance,
+        accountCredit: credit.referralCents + credit.goodwillCents,
+        giftCertBalance: credit.giftCents,
       },
+      credit,
+      creditActivity,
       hasStripeCustomer: !!client.stripe_customer_id,
       stripeCustomerId: client.stripe_customer_id,
       pagination: {
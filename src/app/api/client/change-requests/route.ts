@@ -0,0 +1,157 @@
+/**
+ * Client Change Requests API
+ *
+ * GET  - The client's change requests and the add-ons they can request
+ * POST - Request a change (frequency, service day, dog, add-on, gate code,
+ *        cancel); the office approves it and it's applied automatically.
+ *        With preview: true nothing is submitted; the response says what
+ *        the change would add to or take off the next invoice this month.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { authenticateRequest, errorResponse } from "@/lib/api-auth";
+import {
+  createClientChangeRequest,
+  previewClientChangeRequest,
+  ChangeRequestError,
+} from "@/lib/change-requests";
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  if (auth.user.role !== "CLIENT") {
+    return NextResponse.json({ error: "Client access required" }, { status: 403 });
+  }
+
+  const supabase = getSupabase();
+
+  try {
+    const { data: client } = await supabase
+      .from("clients")
+      .select("id, org_id")
+      .eq("user_id", auth.user.id)
+      .single();
+
+    if (!client) {
+      return NextResponse.json({ error: "Client not found" }, { status: 404 });
+    }
+
+    const [{ data: requests }, { data: addOns }] = await Promise.all([
+      supabase
+        .from("change_requests")
+        .select("id, request_type, status, title, subscription_id, location_id, requested_value, resolution_notes, created_at, resolved_at")
+        .eq("client_id", client.id)
+        .order("created_at", { ascending: false })
+        .limit(50),
+      supabase
+        .from("add_ons")
+        .select("id, name, description, price_cents, price_type, is_recurring")
+        .eq("org_id", client.org_id)
+        .eq("is_active", true)
+        .order("sort_order", { ascending: true }),
+    ]);
+
+    return NextResponse.json({
+      changeRequests: (requests || []).map((req) => ({
+        id: req.id,
+        requestType: req.request_type,
+        // APPLYING is an office-side detail; to the client it's still pending
+        status: req.status === "APPLYING" ? "IN_PROGRESS" : req.status,
+        title: req.title,
+        subscriptionId: req.subscription_id,
+        locationId: req.location_id,
+        requestedValue: req.requested_value,
+        resolutionNotes: req.resolution_notes,
+        createdAt: req.created_at,
+        resolvedAt: req.resolved_at,
+      })),
+      addOns: (addOns || []).map((addOn) => ({
+        id: addOn.id,
+        name: addOn.name,
+        description: addOn.description,
+        priceCents: addOn.price_cents,
+        priceType: addOn.price_type,
+        isRecurring: addOn.is_recurring,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching change requests:", error);
+    return NextResponse.json({ error: "Failed to fetch change requests" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  if (auth.user.role !== "CLIENT") {
+    return NextResponse.json({ error: "Client access required" }, { status: 403 });
+  }
+
+  const supabase = getSupabase();
+
+  try {
+    const { requestType, subscriptionId, locationId, value, description, preview } = await request.json();
+
+    if (!requestType) {
+      return NextResponse.json({ error: "Request type required" }, { status: 400 });
+    }
+
+    const { data: client } = await supabase
+      .from("clients")
+      .select("id, org_id")
+      .eq("user_id", auth.user.id)
+      .single();
+
+    if (!client) {
+      return NextResponse.json({ error: "Client not found" }, { status: 404 });
+    }
+
+    const input = {
+      type: requestType,
+      subscriptionId,
+      locationId,
+      value: value || {},
+      description,
+      userId: auth.user.id,
+    };
+
+    if (preview === true) {
+      const proration = await previewClientChangeRequest(supabase, client, input);
+      return NextResponse.json({
+        proration: proration?.applies
+          ? { amountCents: proration.amountCents, effectiveDate: proration.effectiveDate, description: proration.description }
+          : null,
+      });
+    }
+
+    const changeRequest = await createClientChangeRequest(supabase, client, input);
+
+    return NextResponse.json({
+      success: true,
+      changeRequest: { id: changeRequest.id, title: changeRequest.title, status: changeRequest.status },
+      message: "Request sent. We'll let you know once it's been made.",
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ChangeRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error creating change request:", error);
+    return NextResponse.json({ error: "Failed to submit request" }, { status: 500 });
+  }
+}
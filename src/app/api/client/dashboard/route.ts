@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { authenticateRequest, errorResponse } from "@/lib/api-auth";
+import { describeRecurrence, getSubscriptionRecurrence, subscriptionNextServiceDate } from "@/lib/recurrence";
 
 function getSupabase() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -78,6 +79,11 @@ export async function GET(request: NextRequest) {
         frequency,
         price_per_visit_cents,
         next_service_date,
+        preferred_day,
+        recurrence,
+        start_date,
+        metadata,
+        created_at,
         plan:plan_id (
           name
         )
@@ -164,7 +170,8 @@ export async function GET(request: NextRequest) {
             status: subscription.status,
             frequency: subscription.frequency,
             pricePerVisit: subscription.price_per_visit_cents,
-            nextServiceDate: subscription.next_service_date,
+            nextServiceDate: subscriptionNextServiceDate(subscription, today),
+            scheduleLabel: describeRecurrence(getSubscriptionRecurrence(subscription)),
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             planName: (subscription.plan as any)?.name,
           }
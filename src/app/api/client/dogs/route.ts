@@ -1,12 +1,15 @@
 /**
  * Client Dogs API
  *
- * Manage client dog information.
+ * Manage client dog information. Adding or removing a dog changes the price,
+ * so those go to the office as change requests (see lib/change-requests);
+ * name, breed and safety notes are edited directly.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { authenticateRequest, errorResponse } from "@/lib/api-auth";
+import { createClientChangeRequest, ChangeRequestError } from "@/lib/change-requests";
 
 function getSupabase() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -47,6 +50,7 @@ export async function GET(request: NextRequest) {
     .from("dogs")
     .select("*")
     .eq("client_id", client.id)
+    .eq("is_active", true)
     .order("created_at", { ascending: true });
 
   if (error) {
@@ -137,7 +141,7 @@ export async function PUT(request: NextRequest) {
 
 /**
  * POST /api/client/dogs
- * Add a new dog
+ * Request to add a new dog
  */
 export async function POST(request: NextRequest) {
   const auth = await authenticateRequest(request);
@@ -169,41 +173,27 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Client not found" }, { status: 404 });
     }
 
-    const { data: newDog, error: insertError } = await supabase
-      .from("dogs")
-      .insert({
-        org_id: client.org_id,
-        client_id: client.id,
-        name: name.trim(),
-        breed: breed?.trim() || null,
-        is_safe: isSafe ?? true,
-        safety_notes: safetyNotes?.trim() || null,
-      })
-      .select()
-      .single();
-
-    if (insertError) {
-      return NextResponse.json({ error: "Failed to add dog" }, { status: 500 });
-    }
+    const changeRequest = await createClientChangeRequest(supabase, client, {
+      type: "ADD_DOG",
+      value: { name, breed, isSafe, safetyNotes },
+      userId: auth.user.id,
+    });
 
     return NextResponse.json({
-      dog: {
-        id: newDog.id,
-        name: newDog.name,
-        breed: newDog.breed,
-        isSafe: newDog.is_safe,
-        safetyNotes: newDog.safety_notes,
-      },
-      message: "Dog added successfully",
-    }, { status: 201 });
-  } catch {
+      changeRequest: { id: changeRequest.id, title: changeRequest.title, status: changeRequest.status },
+      message: `Request sent. We'll add ${changeRequest.requested_value.name} and confirm any price change.`,
+    }, { status: 202 });
+  } catch (error) {
+    if (error instanceof ChangeRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
   }
 }
 
 /**
  * DELETE /api/client/dogs
- * Remove a dog
+ * Request to remove a dog
  */
 export async function DELETE(request: NextRequest) {
   const auth = await authenticateRequest(request);
@@ -227,7 +217,7 @@ export async function DELETE(request: NextRequest) {
 
     const { data: client } = await supabase
       .from("clients")
-      .select("id")
+      .select("id, org_id")
       .eq("user_id", auth.user.id)
       .single();
 
@@ -235,29 +225,20 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: "Client not found" }, { status: 404 });
     }
 
-    // Verify dog belongs to client
-    const { data: dog } = await supabase
-      .from("dogs")
-      .select("id")
-      .eq("id", dogId)
-      .eq("client_id", client.id)
-      .single();
-
-    if (!dog) {
-      return NextResponse.json({ error: "Dog not found" }, { status: 404 });
-    }
-
-    const { error: deleteError } = await supabase
-      .from("dogs")
-      .delete()
-      .eq("id", dogId);
+    const changeRequest = await createClientChangeRequest(supabase, client, {
+      type: "REMOVE_DOG",
+      value: { dogId },
+      userId: auth.user.id,
+    });
 
-    if (deleteError) {
-      return NextResponse.json({ error: "Failed to remove dog" }, { status: 500 });
+    return NextResponse.json({
+      changeRequest: { id: changeRequest.id, title: changeRequest.title, status: changeRequest.status },
+      message: `Request sent. We'll remove ${changeRequest.requested_value.name} and confirm any price change.`,
+    }, { status: 202 });
+  } catch (error) {
+    if (error instanceof ChangeRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
     }
-
-    return NextResponse.json({ message: "Dog removed successfully" });
-  } catch {
     return NextResponse.json({ error: "Failed to remove dog" }, { status: 500 });
   }
 }
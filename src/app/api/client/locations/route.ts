@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { authenticateRequest, errorResponse } from "@/lib/api-auth";
+import { createClientChangeRequest, ChangeRequestError } from "@/lib/change-requests";
 
 function getSupabase() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -71,7 +72,8 @@ export async function GET(request: NextRequest) {
 
 /**
  * PUT /api/client/locations
- * Update a location (access notes and gate code only - address changes require staff)
+ * Update a location (access notes only - a gate code change goes to the office
+ * as a change request so techs aren't locked out; address changes require staff)
  */
 export async function PUT(request: NextRequest) {
   const auth = await authenticateRequest(request);
@@ -95,7 +97,7 @@ export async function PUT(request: NextRequest) {
 
     const { data: client } = await supabase
       .from("clients")
-      .select("id")
+      .select("id, org_id")
       .eq("user_id", auth.user.id)
       .single();
 
@@ -106,7 +108,7 @@ export async function PUT(request: NextRequest) {
     // Verify location belongs to client
     const { data: location } = await supabase
       .from("locations")
-      .select("id")
+      .select("id, gate_code")
       .eq("id", locationId)
       .eq("client_id", client.id)
       .single();
@@ -119,7 +121,6 @@ export async function PUT(request: NextRequest) {
     const { error: updateError } = await supabase
       .from("locations")
       .update({
-        gate_code: gateCode ?? null,
         access_notes: accessNotes ?? null,
         updated_at: new Date().toISOString(),
       })
@@ -129,8 +130,26 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: "Failed to update location" }, { status: 500 });
     }
 
+    const newGateCode = typeof gateCode === "string" && gateCode.trim() ? gateCode.trim() : null;
+    if (gateCode !== undefined && newGateCode !== (location.gate_code || null)) {
+      await createClientChangeRequest(supabase, client, {
+        type: "CHANGE_GATE_CODE",
+        locationId,
+        value: { gateCode: newGateCode },
+        userId: auth.user.id,
+      });
+
+      return NextResponse.json({
+        gateCodePending: true,
+        message: "Access notes saved. Your new gate code has been sent to the office; we'll confirm once your technician has it.",
+      });
+    }
+
     return NextResponse.json({ message: "Location updated successfully" });
-  } catch {
+  } catch (error) {
+    if (error instanceof ChangeRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
   }
 }
@@ -0,0 +1,132 @@
+/**
+ * Client Messages API
+ *
+ * GET  - The client's message thread with the office (texts, emails and
+ *        portal messages)
+ * POST - Send the office a message from the portal
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { authenticateRequest, errorResponse } from "@/lib/api-auth";
+import { getThread, recordInboundMessage } from "@/lib/inbox";
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+const MAX_MESSAGE_LENGTH = 2000;
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  if (auth.user.role !== "CLIENT") {
+    return NextResponse.json({ error: "Client access required" }, { status: 403 });
+  }
+
+  const supabase = getSupabase();
+
+  try {
+    const { data: client } = await supabase
+      .from("clients")
+      .select("id")
+      .eq("user_id", auth.user.id)
+      .single();
+
+    if (!client) {
+      return NextResponse.json({ error: "Client not found" }, { status: 404 });
+    }
+
+    const { data: conversation } = await supabase
+      .from("message_conversations")
+      .select("id, lead_type, lead_id")
+      .eq("client_id", client.id)
+      .neq("status", "ARCHIVED")
+      .order("last_message_at", { ascending: false, nullsFirst: false })
+      .limit(1)
+      .maybeSingle();
+
+    const thread = conversation ? await getThread(supabase, conversation) : [];
+
+    return NextResponse.json({
+      messages: thread
+        .filter((m) => m.status !== "FAILED")
+        .map((m) => ({
+          id: m.id,
+          channel: m.channel,
+          fromClient: m.direction === "INBOUND",
+          subject: m.subject,
+          body: m.body,
+          createdAt: m.createdAt,
+        })),
+    });
+  } catch (error) {
+    console.error("Error fetching client messages:", error);
+    return NextResponse.json({ error: "Failed to fetch messages" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  if (auth.user.role !== "CLIENT") {
+    return NextResponse.json({ error: "Client access required" }, { status: 403 });
+  }
+
+  const supabase = getSupabase();
+
+  try {
+    const { message } = await request.json();
+    const body = typeof message === "string" ? message.trim() : "";
+
+    if (!body) {
+      return NextResponse.json({ error: "Message is required" }, { status: 400 });
+    }
+    if (body.length > MAX_MESSAGE_LENGTH) {
+      return NextResponse.json(
+        { error: `Messages are limited to ${MAX_MESSAGE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const { data: client } = await supabase
+      .from("clients")
+      .select("id, org_id, email")
+      .eq("user_id", auth.user.id)
+      .single();
+
+    if (!client) {
+      return NextResponse.json({ error: "Client not found" }, { status: 404 });
+    }
+
+    const conversationId = await recordInboundMessage(supabase, {
+      orgId: client.org_id,
+      party: { clientId: client.id },
+      channel: "PORTAL",
+      from: client.email || auth.user.email,
+      body,
+      provider: "portal",
+      metadata: { userId: auth.user.id },
+    });
+
+    if (!conversationId) {
+      return NextResponse.json({ error: "Failed to send message" }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, message: "Message sent" });
+  } catch (error) {
+    console.error("Error sending client message:", error);
+    return NextResponse.json({ error: "Failed to send message" }, { status: 500 });
+  }
+}
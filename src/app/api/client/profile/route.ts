@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { authenticateRequest, errorResponse } from "@/lib/api-auth";
+import { describeRecurrence, getSubscriptionRecurrence, subscriptionNextServiceDate } from "@/lib/recurrence";
 
 function getSupabase() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -94,6 +95,10 @@ export async function GET(request: NextRequest) {
         price_per_visit_cents,
         preferred_day,
         next_service_date,
+        recurrence,
+        start_date,
+        metadata,
+        created_at,
         paused_until,
         plan:plan_id (
           id,
@@ -105,6 +110,8 @@ export async function GET(request: NextRequest) {
       .limit(1)
       .single();
 
+    const today = new Date().toISOString().split("T")[0];
+
     return NextResponse.json({
       profile: {
         id: client.id,
@@ -149,7 +156,8 @@ export async function GET(request: NextRequest) {
             frequency: subscription.frequency,
             pricePerVisit: subscription.price_per_visit_cents,
             preferredDay: subscription.preferred_day,
-            nextServiceDate: subscription.next_service_date,
+            nextServiceDate: subscriptionNextServiceDate(subscription, today),
+            scheduleLabel: describeRecurrence(getSubscriptionRecurrence(subscription)),
             pausedUntil: subscription.paused_until,
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             planName: (subscription.plan as any)?.name,
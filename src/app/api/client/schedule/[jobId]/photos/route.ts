@@ -1,12 +1,15 @@
 /**
  * Client Job Photos API
  *
- * Fetch photos for a job that belongs to the authenticated client.
+ * Fetch photos for a job that belongs to the authenticated client, with the
+ * visit's service proof (GPS check-in and gate photo) when it was recorded.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { authenticateRequest, errorResponse } from "@/lib/api-auth";
+import { loadRatingsSettings } from "@/lib/job-ratings";
+import type { ProofCheck } from "@/lib/service-proof";
 
 // Get Supabase client with service role
 function getSupabase() {
@@ -47,7 +50,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     // Get the client record to find their subscription
     const { data: client, error: clientError } = await supabase
       .from("clients")
-      .select("id")
+      .select("id, org_id")
       .eq("user_id", auth.user.id)
       .single();
 
@@ -66,6 +69,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         scheduled_date,
         status,
         photos,
+        completed_at,
+        proof_check,
         subscription:subscriptions!inner (
           id,
           client_id,
@@ -130,16 +135,33 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       })
     );
 
+    const ratings = await loadRatingsSettings(supabase, client.org_id);
+
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const tech = job.technician as any;
     const location = subscription?.location;
     const loc = Array.isArray(location) ? location[0] : location;
 
+    // What the check found, without the office-facing rules and flags
+    const check = job.proof_check as ProofCheck | null;
+    const proof = check ? {
+      completedAt: job.completed_at,
+      checkedInAt: check.checkin?.at || null,
+      distanceMeters: check.distanceMeters,
+      onSite: check.distanceMeters != null && check.rules.maxDistanceMeters > 0
+        ? !check.issues.some((issue) => issue.code === "TOO_FAR")
+        : null,
+      gatePhoto: check.gatePhoto,
+      photoCount: check.photoCount,
+    } : null;
+
     return NextResponse.json({
+      proof,
       job: {
         id: job.id,
         scheduledDate: job.scheduled_date,
         status: job.status,
+        canRate: job.status === "COMPLETED" && ratings.mode !== "disabled",
         location: loc ? {
           addressLine1: loc.address_line1,
           city: loc.city,
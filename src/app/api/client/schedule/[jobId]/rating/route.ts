@@ -0,0 +1,113 @@
+/**
+ * Client Job Rating API
+ *
+ * Get the rating link for a completed job that belongs to the authenticated
+ * client, so the portal can show the same rate-your-visit page as the SMS link.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { authenticateRequest, errorResponse } from "@/lib/api-auth";
+import { ensureRatingLink, loadRatingsSettings } from "@/lib/job-ratings";
+
+// Get Supabase client with service role
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+interface RouteParams {
+  params: Promise<{ jobId: string }>;
+}
+
+/**
+ * GET /api/client/schedule/[jobId]/rating
+ * Get (or create) the rating link for a completed job
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const auth = await authenticateRequest(request);
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  // Only clients can access this endpoint
+  if (auth.user.role !== "CLIENT") {
+    return NextResponse.json(
+      { error: "Only clients can access this endpoint" },
+      { status: 403 }
+    );
+  }
+
+  const { jobId } = await params;
+  const supabase = getSupabase();
+
+  try {
+    const { data: client, error: clientError } = await supabase
+      .from("clients")
+      .select("id")
+      .eq("user_id", auth.user.id)
+      .single();
+
+    if (clientError || !client) {
+      return NextResponse.json(
+        { error: "Client not found" },
+        { status: 404 }
+      );
+    }
+
+    const { data: job, error: jobError } = await supabase
+      .from("jobs")
+      .select("id, org_id, client_id, assigned_to, status")
+      .eq("id", jobId)
+      .single();
+
+    if (jobError || !job) {
+      return NextResponse.json(
+        { error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    if (job.client_id !== client.id) {
+      return NextResponse.json(
+        { error: "Not authorized to rate this job" },
+        { status: 403 }
+      );
+    }
+
+    if (job.status !== "COMPLETED") {
+      return NextResponse.json(
+        { error: "Only completed visits can be rated" },
+        { status: 400 }
+      );
+    }
+
+    const settings = await loadRatingsSettings(supabase, job.org_id);
+    if (settings.mode === "disabled") {
+      return NextResponse.json(
+        { error: "Ratings are not enabled" },
+        { status: 403 }
+      );
+    }
+
+    const rating = await ensureRatingLink(supabase, job);
+    if (!rating) {
+      return NextResponse.json(
+        { error: "Failed to load rating" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ token: rating.token, rated: !!rating.ratedAt });
+  } catch (error) {
+    console.error("Error fetching job rating:", error);
+    return NextResponse.json(
+      { error: "Failed to load rating" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,11 +2,18 @@
  * Client Schedule API
  *
  * Returns upcoming and past service jobs for the authenticated client.
+ * The upcoming view also lists office holidays in the next few weeks and
+ * includes visits on vacation hold.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { authenticateRequest, errorResponse } from "@/lib/api-auth";
+import { addDaysToDateString, mapHoliday, type JobHolidayMetadata } from "@/lib/holidays";
+import { loadRatingsSettings } from "@/lib/job-ratings";
+
+// How far ahead the upcoming view shows holidays
+const HOLIDAY_LOOKAHEAD_DAYS = 60;
 
 function getSupabase() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -38,7 +45,7 @@ export async function GET(request: NextRequest) {
     // Get client record
     const { data: client } = await supabase
       .from("clients")
-      .select("id")
+      .select("id, org_id")
       .eq("user_id", auth.user.id)
       .single();
 
@@ -58,6 +65,7 @@ export async function GET(request: NextRequest) {
         completed_at,
         skip_reason,
         photos,
+        metadata,
         location:location_id (
           id,
           address_line1,
@@ -75,7 +83,7 @@ export async function GET(request: NextRequest) {
     if (view === "upcoming") {
       query = query
         .gte("scheduled_date", today)
-        .in("status", ["SCHEDULED", "EN_ROUTE", "IN_PROGRESS"])
+        .in("status", ["SCHEDULED", "EN_ROUTE", "IN_PROGRESS", "ON_HOLD"])
         .order("scheduled_date", { ascending: true });
     } else {
       query = query
@@ -91,6 +99,20 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Failed to fetch schedule" }, { status: 500 });
     }
 
+    // Past visits carry the client's rating, or whether they can still leave one
+    const ratingsByJob = new Map<string, number | null>();
+    let ratingsEnabled = false;
+    if (view !== "upcoming" && jobs && jobs.length > 0) {
+      ratingsEnabled = (await loadRatingsSettings(supabase, client.org_id)).mode !== "disabled";
+      const { data: ratings } = await supabase
+        .from("job_ratings")
+        .select("job_id, rating")
+        .in("job_id", jobs.map((job) => job.id));
+      for (const rating of ratings || []) {
+        ratingsByJob.set(rating.job_id, rating.rating);
+      }
+    }
+
     // Format jobs
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const formattedJobs = (jobs || []).map((job: any) => ({
@@ -100,7 +122,15 @@ export async function GET(request: NextRequest) {
       startedAt: job.started_at,
       completedAt: job.completed_at,
       skipReason: job.skip_reason,
+      holiday: job.metadata?.holiday
+        ? {
+            name: (job.metadata.holiday as JobHolidayMetadata).name,
+            originalDate: (job.metadata.holiday as JobHolidayMetadata).original_date,
+          }
+        : null,
       photoCount: Array.isArray(job.photos) ? job.photos.length : 0,
+      rating: ratingsByJob.get(job.id) ?? null,
+      canRate: ratingsEnabled && job.status === "COMPLETED" && !ratingsByJob.get(job.id),
       location: job.location
         ? {
             id: job.location.id,
@@ -118,8 +148,23 @@ export async function GET(request: NextRequest) {
         : null,
     }));
 
+    // Office closures coming up, so clients aren't surprised by a moved visit
+    let holidays: ReturnType<typeof mapHoliday>[] = [];
+    if (view === "upcoming") {
+      const { data: holidayRows } = await supabase
+        .from("service_holidays")
+        .select("id, date, name, policy, notify_clients")
+        .eq("org_id", client.org_id)
+        .gte("date", today)
+        .lte("date", addDaysToDateString(today, HOLIDAY_LOOKAHEAD_DAYS))
+        .order("date", { ascending: true });
+
+      holidays = (holidayRows || []).map(mapHoliday);
+    }
+
     return NextResponse.json({
       jobs: formattedJobs,
+      holidays: holidays.map((h) => ({ date: h.date, name: h.name, policy: h.policy })),
       pagination: {
         page,
         limit,
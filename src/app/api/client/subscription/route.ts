@@ -1,12 +1,18 @@
 /**
  * Client Subscription API
  *
- * Manage subscription: pause, resume, request changes.
+ * Manage subscription: pause, resume, vacation holds (skip visits for a date
+ * range without pausing), and requests for frequency, service day, add-on
+ * and cancel changes (see lib/change-requests).
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { authenticateRequest, errorResponse } from "@/lib/api-auth";
+import { describeRecurrence, getSubscriptionRecurrence, subscriptionNextServiceDate } from "@/lib/recurrence";
+import { listClientHolds, createVacationHold, cancelVacationHold } from "@/lib/vacation-holds";
+import { createClientChangeRequest, ChangeRequestError } from "@/lib/change-requests";
+import { billingModeOf } from "@/lib/visit-billing";
 
 function getSupabase() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -33,7 +39,7 @@ export async function GET(request: NextRequest) {
     // Get client
     const { data: client } = await supabase
       .from("clients")
-      .select("id")
+      .select("id, org_id")
       .eq("user_id", auth.user.id)
       .single();
 
@@ -51,11 +57,17 @@ export async function GET(request: NextRequest) {
         price_per_visit_cents,
         preferred_day,
         next_service_date,
+        recurrence,
+        start_date,
+        metadata,
         pause_start_date,
         pause_end_date,
         canceled_at,
         cancel_reason,
         created_at,
+        billing_mode,
+        visit_charge_batch,
+        prepaid_visits_remaining,
         plan:plan_id (
           id,
           name
@@ -90,14 +102,20 @@ export async function GET(request: NextRequest) {
           .in("subscription_id", subscriptionIds)
       : { data: [] };
 
+    const today = new Date().toISOString().split("T")[0];
+
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const result = (subscriptions || []).map((sub: any) => ({
       id: sub.id,
       status: sub.status,
       frequency: sub.frequency,
       pricePerVisit: sub.price_per_visit_cents,
+      billingMode: billingModeOf(sub),
+      visitChargeBatch: sub.visit_charge_batch,
+      prepaidVisitsRemaining: sub.prepaid_visits_remaining,
       preferredDay: sub.preferred_day,
-      nextServiceDate: sub.next_service_date,
+      nextServiceDate: sub.status === "ACTIVE" ? subscriptionNextServiceDate(sub, today) : sub.next_service_date,
+      scheduleLabel: describeRecurrence(getSubscriptionRecurrence(sub)),
       pauseStartDate: sub.pause_start_date,
       pauseEndDate: sub.pause_end_date,
       canceledAt: sub.canceled_at,
@@ -121,13 +139,16 @@ export async function GET(request: NextRequest) {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         .map((ao: any) => ({
           id: ao.id,
+          addOnId: ao.add_on?.id,
           name: ao.add_on?.name,
           priceCents: ao.price_cents,
           quantity: ao.quantity,
         })),
     }));
 
-    return NextResponse.json({ subscriptions: result });
+    const vacationHolds = await listClientHolds(supabase, client.org_id, client.id);
+
+    return NextResponse.json({ subscriptions: result, vacationHolds });
   } catch (error) {
     console.error("Error fetching subscriptions:", error);
     return NextResponse.json({ error: "Failed to fetch subscriptions" }, { status: 500 });
@@ -148,7 +169,7 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { action, subscriptionId, pauseUntil, reason, frequency } = body;
+    const { action, subscriptionId, pauseUntil, reason, frequency, preferredDay, addOnId, startDate, endDate, holdId } = body;
 
     if (!action) {
       return NextResponse.json({ error: "Action required" }, { status: 400 });
@@ -165,6 +186,59 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Client not found" }, { status: 404 });
     }
 
+    // Vacation holds can cover all of the client's subscriptions, so they
+    // don't go through the single-subscription lookup below
+    if (action === "vacationHold") {
+      if (subscriptionId) {
+        const { data: ownSub } = await supabase
+          .from("subscriptions")
+          .select("id, status")
+          .eq("id", subscriptionId)
+          .eq("client_id", client.id)
+          .single();
+
+        if (!ownSub || ownSub.status !== "ACTIVE") {
+          return NextResponse.json({ error: "Subscription is not active" }, { status: 400 });
+        }
+      }
+
+      const { hold, jobsHeld, error: holdError } = await createVacationHold(supabase, {
+        orgId: client.org_id,
+        clientId: client.id,
+        subscriptionId: subscriptionId || null,
+        startDate,
+        endDate,
+        reason,
+        source: "CLIENT",
+        userId: auth.user.id,
+      });
+
+      if (holdError) {
+        return NextResponse.json({ error: holdError }, { status: 400 });
+      }
+
+      return NextResponse.json({
+        success: true,
+        hold,
+        message: jobsHeld
+          ? `Vacation hold added. ${jobsHeld} visit${jobsHeld !== 1 ? "s" : ""} placed on hold.`
+          : "Vacation hold added.",
+      });
+    }
+
+    if (action === "cancelVacationHold") {
+      if (!holdId) {
+        return NextResponse.json({ error: "Hold ID required" }, { status: 400 });
+      }
+
+      const result = await cancelVacationHold(supabase, client.org_id, client.id, holdId, auth.user.id);
+      if (result.error) {
+        return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+      }
+
+      return NextResponse.json({ success: true, message: "Vacation hold canceled. Your visits are back on the schedule." });
+    }
+
     // Get the subscription (verify ownership)
     const query = supabase
       .from("subscriptions")
@@ -247,78 +321,38 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ success: true, message: "Subscription resumed" });
       }
 
-      case "cancel": {
-        const { error: cancelError } = await supabase
-          .from("subscriptions")
-          .update({
-            status: "CANCELED",
-            canceled_at: new Date().toISOString(),
-            cancel_reason: reason || null,
-          })
-          .eq("id", subscription.id);
-
-        if (cancelError) {
-          return NextResponse.json({ error: "Failed to cancel subscription" }, { status: 500 });
-        }
-
-        await supabase.from("activity_logs").insert({
-          org_id: client.org_id,
-          user_id: auth.user.id,
-          action: "SUBSCRIPTION_CANCEL_REQUESTED",
-          entity_type: "SUBSCRIPTION",
-          entity_id: subscription.id,
-          details: { reason },
-        });
-
-        return NextResponse.json({
-          success: true,
-          message: "Subscription has been canceled.",
-        });
-      }
-
-      case "changeFrequency": {
-        if (!frequency || !["WEEKLY", "BIWEEKLY", "MONTHLY"].includes(frequency)) {
-          return NextResponse.json({ error: "Invalid frequency" }, { status: 400 });
-        }
-
-        const { data: currentSub } = await supabase
-          .from("subscriptions")
-          .select("frequency")
-          .eq("id", subscription.id)
-          .single();
-
-        const oldFrequency = currentSub?.frequency;
-
-        const { error: freqError } = await supabase
-          .from("subscriptions")
-          .update({
-            frequency,
-            updated_at: new Date().toISOString(),
-          })
-          .eq("id", subscription.id);
+      // These go to the office as change requests and are applied on approval
+      case "cancel":
+      case "changeFrequency":
+      case "changeServiceDay":
+      case "addAddOn": {
+        const requestTypes: Record<string, string> = {
+          cancel: "CANCEL_SERVICE",
+          changeFrequency: "CHANGE_FREQUENCY",
+          changeServiceDay: "CHANGE_SERVICE_DAY",
+          addAddOn: "ADD_ADD_ON",
+        };
 
-        if (freqError) {
-          return NextResponse.json({ error: "Failed to change frequency" }, { status: 500 });
+        try {
+          await createClientChangeRequest(supabase, client, {
+            type: requestTypes[action],
+            subscriptionId: subscription.id,
+            value: { reason, frequency, preferredDay, addOnId },
+            description: reason,
+            userId: auth.user.id,
+          });
+        } catch (requestError) {
+          if (requestError instanceof ChangeRequestError) {
+            return NextResponse.json({ error: requestError.message }, { status: requestError.status });
+          }
+          throw requestError;
         }
 
-        await supabase.from("activity_logs").insert({
-          org_id: client.org_id,
-          user_id: auth.user.id,
-          action: "SUBSCRIPTION_FREQUENCY_CHANGED",
-          entity_type: "SUBSCRIPTION",
-          entity_id: subscription.id,
-          details: { oldFrequency, newFrequency: frequency },
-        });
-
-        const freqLabels: Record<string, string> = {
-          WEEKLY: "Weekly",
-          BIWEEKLY: "Every 2 Weeks",
-          MONTHLY: "Monthly",
-        };
-
         return NextResponse.json({
           success: true,
-          message: `Frequency changed to ${freqLabels[frequency] || frequency}. This will take effect on your next billing cycle.`,
+          message: action === "cancel"
+            ? "Your cancellation request has been sent. We'll confirm once your service is canceled."
+            : "Your request has been sent. We'll let you know once the change has been made.",
         });
       }
 
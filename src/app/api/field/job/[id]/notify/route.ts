@@ -2,13 +2,24 @@
  * Field Job Notify API
  *
  * Send "on the way" notification to client for a job.
- * Creates notification record and triggers SMS/email if enabled.
+ * Creates notification record and triggers SMS/email if enabled. The message
+ * links to the live /track/[token] page for the visit.
+ *
+ * When replayed from the offline outbox long after the tech tapped the
+ * button, the job is still marked en route but the client isn't messaged.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { authenticateRequest, errorResponse } from "@/lib/api-auth";
 import { sendClientNotification } from "@/lib/notifications";
+import { ensureTrackingLink, trackingLink } from "@/lib/job-tracking";
+import {
+  detectJobConflict,
+  findFieldSyncEvent,
+  parseFieldSyncMeta,
+  recordFieldSyncEvent,
+} from "@/lib/field-sync";
 
 // Get Supabase client with service role
 function getSupabase() {
@@ -23,6 +34,9 @@ function getSupabase() {
 // Allowed roles for field operations
 const FIELD_ROLES = ["FIELD_TECH", "CREW_LEAD", "MANAGER", "OWNER"];
 
+// A queued "on the way" older than this would only confuse the client
+const STALE_NOTIFY_MS = 20 * 60 * 1000;
+
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
@@ -50,6 +64,15 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const body = await request.json();
     const { eta } = body; // Optional ETA in minutes
+    const sync = parseFieldSyncMeta(body);
+
+    // A replay that already landed (its response was lost) is answered as-is
+    if (sync) {
+      const previous = await findFieldSyncEvent(supabase, auth.user.orgId, sync.clientKey);
+      if (previous?.status === "APPLIED") {
+        return NextResponse.json({ ...(previous.result || {}), duplicate: true });
+      }
+    }
 
     // Get the job with client info
     const { data: job, error: jobError } = await supabase
@@ -58,6 +81,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         id,
         status,
         scheduled_date,
+        assigned_to,
         client:client_id (
           id,
           first_name,
@@ -83,6 +107,26 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // Refuse queued actions the office has overtaken while the tech was offline
+    if (sync) {
+      const conflict = detectJobConflict(job, sync);
+      if (conflict) {
+        await recordFieldSyncEvent(supabase, {
+          orgId: auth.user.orgId,
+          userId: auth.user.id,
+          jobId: id,
+          kind: "en_route",
+          meta: sync,
+          status: "CONFLICT",
+          conflict,
+        });
+        return NextResponse.json(
+          { error: conflict.message, conflict },
+          { status: 409 }
+        );
+      }
+    }
+
     // Check if job is in a valid state for notification
     if (!["SCHEDULED", "EN_ROUTE"].includes(job.status)) {
       return NextResponse.json(
@@ -106,10 +150,11 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     // Get notification preferences
     const prefs = client.notification_preferences || {};
-    const sendSms = prefs.sms_on_the_way !== false && client.phone;
-    const sendEmail = prefs.email_on_the_way === true && client.email;
+    const stale = !!sync && Date.now() - new Date(sync.occurredAt).getTime() > STALE_NOTIFY_MS;
+    const sendSms = !stale && prefs.sms_on_the_way !== false && client.phone;
+    const sendEmail = !stale && prefs.email_on_the_way === true && client.email;
 
-    if (!sendSms && !sendEmail) {
+    if (!sendSms && !sendEmail && !stale) {
       return NextResponse.json({
         sent: false,
         message: "Client has no notification channels enabled",
@@ -117,6 +162,12 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       });
     }
 
+    // Live tracking link for the visit
+    const trackingToken = stale
+      ? null
+      : await ensureTrackingLink(supabase, { id, org_id: auth.user.orgId, client_id: client.id });
+    const trackingUrl = trackingToken ? trackingLink(trackingToken) : "";
+
     // Build template variables
     const templateVars = {
       client_first_name: client.first_name || "there",
@@ -124,26 +175,30 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       eta_minutes: eta ? String(eta) : "",
       address: location?.address_line1 || "",
       city: location?.city || "",
+      tracking_link: trackingUrl,
+      tracking_prompt: trackingUrl ? ` Track your technician's live ETA: ${trackingUrl}` : "",
     };
 
     const notificationsSent: string[] = [];
 
     // Send notifications using the notification service
-    const results = await sendClientNotification({
-      orgId: auth.user.orgId,
-      clientId: client.id,
-      jobId: id,
-      type: "ON_THE_WAY",
-      phone: sendSms ? client.phone : undefined,
-      email: sendEmail ? client.email : undefined,
-      variables: templateVars,
-    });
+    if (sendSms || sendEmail) {
+      const results = await sendClientNotification({
+        orgId: auth.user.orgId,
+        clientId: client.id,
+        jobId: id,
+        type: "ON_THE_WAY",
+        phone: sendSms ? client.phone : undefined,
+        email: sendEmail ? client.email : undefined,
+        variables: templateVars,
+      });
 
-    if (results.sms?.success) {
-      notificationsSent.push("SMS");
-    }
-    if (results.email?.success) {
-      notificationsSent.push("EMAIL");
+      if (results.sms?.success) {
+        notificationsSent.push("SMS");
+      }
+      if (results.email?.success) {
+        notificationsSent.push("EMAIL");
+      }
     }
 
     // Update job status to EN_ROUTE if it was SCHEDULED
@@ -168,17 +223,36 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         clientId: client.id,
         channels: notificationsSent,
         eta,
+        occurredAt: sync?.occurredAt,
+        clientKey: sync?.clientKey,
+        skippedStale: stale || undefined,
       },
     });
 
-    return NextResponse.json({
+    const result = {
       sent: notificationsSent.length > 0,
       message: notificationsSent.length > 0
         ? `Notification sent via ${notificationsSent.join(" and ")}`
-        : "No notifications sent",
+        : stale
+          ? "Marked en route; the client wasn't notified because the update was sent too late"
+          : "No notifications sent",
       channels: notificationsSent,
       jobStatus: job.status === "SCHEDULED" ? "EN_ROUTE" : job.status,
-    });
+    };
+
+    if (sync) {
+      await recordFieldSyncEvent(supabase, {
+        orgId: auth.user.orgId,
+        userId: auth.user.id,
+        jobId: id,
+        kind: "en_route",
+        meta: sync,
+        status: "APPLIED",
+        result,
+      });
+    }
+
+    return NextResponse.json(result);
   } catch {
     return NextResponse.json(
       { error: "Invalid request body" },
@@ -3,11 +3,18 @@
  *
  * Upload and list photos for a job.
  * Stores photos in Supabase Storage bucket 'job-photos'.
+ *
+ * Uploads replayed from the offline outbox carry a clientKey (the same
+ * photo is never attached twice) and the time the photo was taken.
+ * Adding or removing a photo on a completed job re-runs its service proof
+ * check (lib/service-proof).
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { authenticateRequest, errorResponse } from "@/lib/api-auth";
+import { findFieldSyncEvent, parseFieldSyncMeta, recordFieldSyncEvent } from "@/lib/field-sync";
+import { recordServiceProof } from "@/lib/service-proof";
 
 // Get Supabase client with service role
 function getSupabase() {
@@ -125,6 +132,18 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     const formData = await request.formData();
     const file = formData.get("photo") as File | null;
     const type = formData.get("type") as string || "after"; // before, after, issue
+    const sync = parseFieldSyncMeta({
+      clientKey: formData.get("clientKey"),
+      occurredAt: formData.get("occurredAt"),
+    });
+
+    // A replay that already landed (its response was lost) is answered as-is
+    if (sync) {
+      const previous = await findFieldSyncEvent(supabase, auth.user.orgId, sync.clientKey);
+      if (previous?.status === "APPLIED") {
+        return NextResponse.json({ ...(previous.result || {}), duplicate: true }, { status: 201 });
+      }
+    }
 
     if (!file) {
       return NextResponse.json(
@@ -152,7 +171,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     // Verify job exists and belongs to org
     const { data: job, error: jobError } = await supabase
       .from("jobs")
-      .select("id, photos, org_id")
+      .select("id, photos, org_id, status")
       .eq("id", id)
       .eq("org_id", auth.user.orgId)
       .single();
@@ -209,7 +228,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       id: photoId,
       url: storagePath,
       type,
-      uploadedAt: new Date().toISOString(),
+      uploadedAt: sync?.occurredAt || new Date().toISOString(),
       uploadedBy: auth.user.id,
     };
 
@@ -245,7 +264,13 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       },
     });
 
-    return NextResponse.json({
+    if (job.status === "COMPLETED") {
+      await recordServiceProof(supabase, id).catch((error) => {
+        console.error("Error re-checking service proof:", error);
+      });
+    }
+
+    const result = {
       photo: {
         id: photoId,
         url: urlData.publicUrl,
@@ -253,7 +278,21 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         uploadedAt: newPhoto.uploadedAt,
       },
       message: "Photo uploaded successfully",
-    }, { status: 201 });
+    };
+
+    if (sync) {
+      await recordFieldSyncEvent(supabase, {
+        orgId: auth.user.orgId,
+        userId: auth.user.id,
+        jobId: id,
+        kind: "photo",
+        meta: sync,
+        status: "APPLIED",
+        result,
+      });
+    }
+
+    return NextResponse.json(result, { status: 201 });
   } catch (error) {
     console.error("Error processing photo upload:", error);
     return NextResponse.json(
@@ -297,7 +336,7 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     // Get job with photos
     const { data: job, error: jobError } = await supabase
       .from("jobs")
-      .select("id, photos")
+      .select("id, photos, status")
       .eq("id", id)
       .eq("org_id", auth.user.orgId)
       .single();
@@ -355,6 +394,12 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       },
     });
 
+    if (job.status === "COMPLETED") {
+      await recordServiceProof(supabase, id).catch((error) => {
+        console.error("Error re-checking service proof:", error);
+      });
+    }
+
     return NextResponse.json({
       message: "Photo deleted successfully",
     });
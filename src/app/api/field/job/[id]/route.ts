@@ -2,13 +2,34 @@
  * Field Job Status API
  *
  * Update job status for the authenticated field tech.
- * Supports: en_route, start, complete, skip actions.
+ * Supports: en_route, start, complete, skip and notes actions.
+ *
+ * Actions replayed from the offline outbox carry a clientKey, the time the
+ * tech took them and the job as the device saw it; see lib/field-sync.
+ * A complete may carry the device's GPS fix (`checkin`) for the service
+ * proof check; see lib/service-proof. On a crew route it may carry each
+ * member's minutes (`crewMinutes`), and a commercial visit its station
+ * checklist (`stations`); see lib/crews and lib/station-checklists.
+ * Completing or skipping a visit on a per-visit or prepaid pack plan bills
+ * it; see lib/visit-billing.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { authenticateRequest, errorResponse } from "@/lib/api-auth";
 import { queueMarketingSync } from "@/lib/marketing-sync";
+import { sendCompletedNotification } from "@/lib/job-ratings";
+import { expireTrackingLink } from "@/lib/job-tracking";
+import { parseCheckin, recordServiceProof, type ProofCheck } from "@/lib/service-proof";
+import { loadRouteCrew, parseCrewMinutes, recordCrewTime } from "@/lib/crews";
+import { loadStationChecklist, parseStationChecklist, saveStationChecklist } from "@/lib/station-checklists";
+import { billVisit, type VisitBillingResult } from "@/lib/visit-billing";
+import {
+  detectJobConflict,
+  findFieldSyncEvent,
+  parseFieldSyncMeta,
+  recordFieldSyncEvent,
+} from "@/lib/field-sync";
 
 // Get Supabase client with service role
 function getSupabase() {
@@ -30,6 +51,7 @@ const VALID_TRANSITIONS: Record<string, string[]> = {
   IN_PROGRESS: ["COMPLETED", "SKIPPED"],
   SKIPPED: [], // Terminal state
   COMPLETED: [], // Terminal state
+  ON_HOLD: [], // Vacation hold - released by canceling the hold
 };
 
 interface RouteParams {
@@ -71,10 +93,15 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       photos,
       started_at,
       completed_at,
+      assigned_to,
+      route_id,
+      split_index,
+      split_count,
       client:client_id (
         id,
         first_name,
         last_name,
+        client_type,
         phone,
         email,
         notification_preferences
@@ -135,6 +162,11 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const location = job.location as any;
 
+  const crew = job.route_id ? await loadRouteCrew(supabase, job.route_id) : [];
+  const stations = client?.client_type === "COMMERCIAL"
+    ? await loadStationChecklist(supabase, job.id)
+    : null;
+
   return NextResponse.json({
     job: {
       id: job.id,
@@ -148,10 +180,17 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       photos: job.photos || [],
       startedAt: job.started_at,
       completedAt: job.completed_at,
+      assignedTo: job.assigned_to,
+      splitIndex: job.split_index,
+      splitCount: job.split_count,
+      crew: crew.length > 1 ? crew : [],
+      stationChecklist: stations?.checklist ?? null,
+      lastStationsTotal: stations?.lastStationsTotal ?? null,
       client: client ? {
         id: client.id,
         firstName: client.first_name,
         lastName: client.last_name,
+        clientType: client.client_type,
         phone: client.phone,
         email: client.email,
         notificationPreferences: client.notification_preferences,
@@ -204,7 +243,8 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
 
   try {
     const body = await request.json();
-    const { action, skipReason, notes } = body;
+    const { action, skipReason, notes, checkin, crewMinutes, stations } = body;
+    const sync = parseFieldSyncMeta(body);
 
     if (!action) {
       return NextResponse.json(
@@ -213,10 +253,18 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // A replay that already landed (its response was lost) is answered as-is
+    if (sync) {
+      const previous = await findFieldSyncEvent(supabase, auth.user.orgId, sync.clientKey);
+      if (previous?.status === "APPLIED") {
+        return NextResponse.json({ ...(previous.result || {}), duplicate: true });
+      }
+    }
+
     // Get current job status
     const { data: job, error: jobError } = await supabase
       .from("jobs")
-      .select("id, status, org_id")
+      .select("id, status, org_id, scheduled_date, assigned_to, route_id, started_at, completed_at, skip_reason")
       .eq("id", id)
       .eq("org_id", auth.user.orgId)
       .single();
@@ -228,6 +276,57 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    const occurredAt = sync?.occurredAt || new Date().toISOString();
+
+    // Notes can be saved whatever state the job is in
+    if (action === "notes") {
+      if (typeof notes !== "string") {
+        return NextResponse.json(
+          { error: "Notes are required" },
+          { status: 400 }
+        );
+      }
+
+      const { error: notesError } = await supabase
+        .from("jobs")
+        .update({ internal_notes: notes, updated_at: new Date().toISOString() })
+        .eq("id", id);
+
+      if (notesError) {
+        console.error("Error updating job notes:", notesError);
+        return NextResponse.json(
+          { error: "Failed to update job" },
+          { status: 500 }
+        );
+      }
+
+      await supabase.from("activity_logs").insert({
+        org_id: auth.user.orgId,
+        user_id: auth.user.id,
+        action: "JOB_NOTES",
+        entity_type: "JOB",
+        entity_id: id,
+        details: { occurredAt, clientKey: sync?.clientKey },
+      });
+
+      const result = {
+        job: { id, status: job.status, internalNotes: notes },
+        message: "Notes saved",
+      };
+      if (sync) {
+        await recordFieldSyncEvent(supabase, {
+          orgId: auth.user.orgId,
+          userId: auth.user.id,
+          jobId: id,
+          kind: action,
+          meta: sync,
+          status: "APPLIED",
+          result,
+        });
+      }
+      return NextResponse.json(result);
+    }
+
     // Map action to new status
     const actionToStatus: Record<string, string> = {
       en_route: "EN_ROUTE",
@@ -239,12 +338,83 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     const newStatus = actionToStatus[action];
     if (!newStatus) {
       return NextResponse.json(
-        { error: "Invalid action. Use: en_route, start, complete, skip" },
+        { error: "Invalid action. Use: en_route, start, complete, skip, notes" },
         { status: 400 }
       );
     }
 
-    // Validate transition
+    // Another crew member already completed this job: this completion just
+    // records the caller's own time (and a checklist if none was taken)
+    if (action === "complete" && job.status === "COMPLETED" && job.route_id) {
+      const crew = await loadRouteCrew(supabase, job.route_id);
+      if (crew.length > 1 && crew.some((member) => member.userId === auth.user!.id)) {
+        const result = await joinCrewCompletion(supabase, {
+          orgId: auth.user.orgId,
+          userId: auth.user.id,
+          job,
+          crewMinutes,
+          stations,
+        });
+        if (sync) {
+          await recordFieldSyncEvent(supabase, {
+            orgId: auth.user.orgId,
+            userId: auth.user.id,
+            jobId: id,
+            kind: action,
+            meta: sync,
+            status: "APPLIED",
+            result,
+          });
+        }
+        return NextResponse.json(result);
+      }
+    }
+
+    // A replay onto the status the job already ended in changes nothing
+    if (sync && job.status === newStatus && (newStatus === "COMPLETED" || newStatus === "SKIPPED")) {
+      const result = {
+        job: {
+          id: job.id,
+          status: job.status,
+          startedAt: job.started_at,
+          completedAt: job.completed_at,
+          skipReason: job.skip_reason,
+        },
+        message: `Job already ${newStatus === "COMPLETED" ? "completed" : "skipped"}`,
+      };
+      await recordFieldSyncEvent(supabase, {
+        orgId: auth.user.orgId,
+        userId: auth.user.id,
+        jobId: id,
+        kind: action,
+        meta: sync,
+        status: "APPLIED",
+        result,
+      });
+      return NextResponse.json({ ...result, duplicate: true });
+    }
+
+    // Refuse queued actions the office has overtaken while the tech was offline
+    if (sync) {
+      const conflict = detectJobConflict(job, sync);
+      if (conflict) {
+        await recordFieldSyncEvent(supabase, {
+          orgId: auth.user.orgId,
+          userId: auth.user.id,
+          jobId: id,
+          kind: action,
+          meta: sync,
+          status: "CONFLICT",
+          conflict,
+        });
+        return NextResponse.json(
+          { error: conflict.message, conflict },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Validate transition (force only overrides the office-edit conflict above)
     const allowedTransitions = VALID_TRANSITIONS[job.status] || [];
     if (!allowedTransitions.includes(newStatus)) {
       return NextResponse.json(
@@ -265,9 +435,9 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
 
     // Add timestamps based on action
     if (action === "start") {
-      updates.started_at = new Date().toISOString();
+      updates.started_at = occurredAt;
     } else if (action === "complete") {
-      updates.completed_at = new Date().toISOString();
+      updates.completed_at = occurredAt;
     } else if (action === "skip") {
       if (!skipReason) {
         return NextResponse.json(
@@ -276,7 +446,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         );
       }
       updates.skip_reason = skipReason;
-      updates.completed_at = new Date().toISOString();
+      updates.completed_at = occurredAt;
     }
 
     // Add notes if provided
@@ -311,15 +481,64 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         previousStatus: job.status,
         newStatus,
         skipReason: action === "skip" ? skipReason : undefined,
+        occurredAt,
+        clientKey: sync?.clientKey,
+        forced: sync?.force || undefined,
       },
     });
 
-    // Trigger one-time client remarketing on job completion
+    // The client's live tracking page ends with the visit
+    if (action === "complete" || action === "skip") {
+      await expireTrackingLink(supabase, id);
+    }
+
+    // Check the visit against the org's proof rules; a miss flags it, never blocks it
+    let proof: ProofCheck | null = null;
     if (action === "complete") {
+      try {
+        proof = await recordServiceProof(supabase, id, { checkin: parseCheckin(checkin, occurredAt) });
+      } catch (error) {
+        console.error("Error recording service proof:", error);
+      }
+    }
+
+    // Crew time for payroll and the commercial station checklist
+    if (action === "complete") {
+      try {
+        await recordCrewTime(supabase, {
+          orgId: auth.user.orgId,
+          jobId: id,
+          routeId: job.route_id,
+          startedAt: updatedJob.started_at,
+          completedAt: occurredAt,
+          minutes: parseCrewMinutes(crewMinutes),
+        });
+        const checklist = parseStationChecklist(stations);
+        if (checklist) {
+          await saveStationChecklist(supabase, { orgId: auth.user.orgId, jobId: id, userId: auth.user.id, checklist });
+        }
+      } catch (error) {
+        console.error("Error recording crew time / station checklist:", error);
+      }
+    }
+
+    // Per-visit and prepaid pack billing; a failed charge never fails the visit
+    let billing: VisitBillingResult | null = null;
+    if (action === "complete" || action === "skip") {
+      try {
+        billing = await billVisit(supabase, id);
+      } catch (error) {
+        console.error("Error billing visit:", error);
+      }
+    }
+
+    // Let the client know (with a rating link) and trigger one-time remarketing
+    if (action === "complete") {
+      await sendCompletedNotification(supabase, id);
       await triggerOnetimeRemarketing(supabase, auth.user.orgId, id);
     }
 
-    return NextResponse.json({
+    const result = {
       job: {
         id: updatedJob.id,
         status: updatedJob.status,
@@ -327,8 +546,26 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         completedAt: updatedJob.completed_at,
         skipReason: updatedJob.skip_reason,
       },
+      proof: proof ? { issues: proof.issues } : undefined,
+      billing: billing && billing.action !== "NONE"
+        ? { mode: billing.mode, action: billing.action, visitsRemaining: billing.visitsRemaining }
+        : undefined,
       message: `Job ${action === "complete" ? "completed" : action === "skip" ? "skipped" : "updated"} successfully`,
-    });
+    };
+
+    if (sync) {
+      await recordFieldSyncEvent(supabase, {
+        orgId: auth.user.orgId,
+        userId: auth.user.id,
+        jobId: id,
+        kind: action,
+        meta: sync,
+        status: "APPLIED",
+        result,
+      });
+    }
+
+    return NextResponse.json(result);
   } catch {
     return NextResponse.json(
       { error: "Invalid request body" },
@@ -337,6 +574,60 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
   }
 }
 
+/**
+ * A crew member completing a job someone else on the crew already completed
+ */
+async function joinCrewCompletion(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  input: {
+    orgId: string;
+    userId: string;
+    job: { id: string; status: string; route_id: string; started_at: string | null; completed_at: string | null };
+    crewMinutes: unknown;
+    stations: unknown;
+  }
+) {
+  const minutes = parseCrewMinutes(input.crewMinutes);
+  await recordCrewTime(supabase, {
+    orgId: input.orgId,
+    jobId: input.job.id,
+    routeId: input.job.route_id,
+    startedAt: input.job.started_at,
+    completedAt: input.job.completed_at || new Date().toISOString(),
+    minutes,
+    onlyUserId: input.userId,
+  });
+
+  const checklist = parseStationChecklist(input.stations);
+  if (checklist) {
+    const { checklist: existing } = await loadStationChecklist(supabase, input.job.id);
+    if (!existing) {
+      await saveStationChecklist(supabase, { orgId: input.orgId, jobId: input.job.id, userId: input.userId, checklist });
+    }
+  }
+
+  await supabase.from("activity_logs").insert({
+    org_id: input.orgId,
+    user_id: input.userId,
+    action: "JOB_CREW_COMPLETE",
+    entity_type: "JOB",
+    entity_id: input.job.id,
+    details: { minutes: minutes?.[input.userId] },
+  });
+
+  return {
+    job: {
+      id: input.job.id,
+      status: input.job.status,
+      startedAt: input.job.started_at,
+      completedAt: input.job.completed_at,
+      skipReason: null,
+    },
+    message: "Already completed by your crew - your time was recorded",
+  };
+}
+
 /**
  * Queue marketing sync for one-time client after job completion
  * Only triggers if client has a one-time subscription
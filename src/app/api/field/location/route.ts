@@ -3,6 +3,8 @@
  *
  * Allows field technicians to report their GPS location.
  * This is used for real-time tracking on the dispatch board.
+ * Pings queued offline by the field outbox carry a clientKey and are stored
+ * once, at the time they were captured.
  *
  * POST /api/field/location - Report current location
  */
@@ -67,6 +69,21 @@ export async function POST(request: NextRequest) {
     }
 
     const supabase = getSupabase();
+    const clientKey = typeof body.clientKey === "string" ? body.clientKey : null;
+
+    // A replayed ping that already landed is answered with the stored row
+    if (clientKey) {
+      const { data: existing } = await supabase
+        .from("staff_locations")
+        .select("id, lat, lng, recorded_at")
+        .eq("user_id", auth.user.id)
+        .eq("metadata->>clientKey", clientKey)
+        .maybeSingle();
+
+      if (existing) {
+        return NextResponse.json({ success: true, duplicate: true, location: existing });
+      }
+    }
 
     // Insert location record
     const { data: location, error } = await supabase
@@ -81,7 +98,7 @@ export async function POST(request: NextRequest) {
         speed: body.speed || null,
         altitude: body.altitude || null,
         recorded_at: body.timestamp ? new Date(body.timestamp).toISOString() : new Date().toISOString(),
-        metadata: body.metadata || {},
+        metadata: clientKey ? { ...(body.metadata || {}), clientKey } : body.metadata || {},
       })
       .select()
       .single();
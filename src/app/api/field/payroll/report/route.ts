@@ -0,0 +1,94 @@
+/**
+ * Field Payroll Report API
+ *
+ * Returns the authenticated tech's pay statement for a pay period, computed by
+ * the payroll engine (lib/payroll.ts). Only available when the office has
+ * enabled "Show payroll on field tech app", and hidden fields follow the org's
+ * payroll visibility toggles.
+ *
+ * GET /api/field/payroll/report?offset=0 - Current period (offset -1 = previous)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { authenticateRequest, errorResponse } from "@/lib/api-auth";
+import {
+  calculatePayroll,
+  getPayrollConfig,
+  getPayPeriod,
+  applyPayrollVisibility,
+} from "@/lib/payroll";
+
+// Get Supabase client with service role
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+// Allowed roles for field payroll
+const FIELD_ROLES = ["FIELD_TECH", "CREW_LEAD", "MANAGER", "OWNER"];
+
+/**
+ * GET /api/field/payroll/report
+ * Get the current user's pay statement
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  if (!FIELD_ROLES.includes(auth.user.role)) {
+    return NextResponse.json(
+      { error: "Not authorized for field operations" },
+      { status: 403 }
+    );
+  }
+
+  const supabase = getSupabase();
+  const { searchParams } = new URL(request.url);
+  const offset = Math.min(0, parseInt(searchParams.get("offset") || "0") || 0);
+
+  const { data: org } = await supabase
+    .from("organizations")
+    .select("settings")
+    .eq("id", auth.user.orgId)
+    .single();
+
+  const config = getPayrollConfig(org?.settings);
+
+  if (!config.showPayrollOnFieldTechApp) {
+    return NextResponse.json({
+      enabled: false,
+      period: null,
+      statement: null,
+    });
+  }
+
+  const today = new Date().toISOString().split("T")[0];
+  const period = getPayPeriod(config, today, offset);
+
+  try {
+    const [statement] = await calculatePayroll(supabase, auth.user.orgId, period, {
+      userIds: [auth.user.id],
+      config,
+    });
+
+    return NextResponse.json({
+      enabled: true,
+      period: { ...period, type: config.payPeriod, offset },
+      statement: statement ? applyPayrollVisibility(statement, config.visibility) : null,
+      visibility: config.visibility,
+    });
+  } catch (error) {
+    console.error("Error calculating payroll:", error);
+    return NextResponse.json(
+      { error: "Failed to calculate payroll" },
+      { status: 500 }
+    );
+  }
+}
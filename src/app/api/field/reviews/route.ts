@@ -0,0 +1,143 @@
+/**
+ * Field Reviews API
+ *
+ * Ratings and comments clients left for the authenticated field tech's
+ * visits. Techs only ever see their own, and only when the office shares them
+ * (settings.ratingsTipping.showToFieldTech and the field tech app toggle).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { authenticateRequest, errorResponse } from "@/lib/api-auth";
+import { getRatingsSettings } from "@/lib/job-ratings";
+
+// Get Supabase client with service role
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+// Allowed roles for field operations
+const FIELD_ROLES = ["FIELD_TECH", "CREW_LEAD", "MANAGER", "OWNER"];
+
+const MAX_REVIEWS = 100;
+
+/**
+ * GET /api/field/reviews
+ * Get the tech's average rating and most recent reviews
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  if (!FIELD_ROLES.includes(auth.user.role)) {
+    return NextResponse.json(
+      { error: "Not authorized for field operations" },
+      { status: 403 }
+    );
+  }
+
+  const supabase = getSupabase();
+
+  try {
+    const { data: org } = await supabase
+      .from("organizations")
+      .select("settings")
+      .eq("id", auth.user.orgId)
+      .single();
+
+    const settings = getRatingsSettings(org?.settings);
+    const fieldTechApp = (org?.settings?.fieldTechApp || {}) as {
+      ratingsComments?: { showToFieldTech?: boolean };
+    };
+    if (
+      settings.mode === "disabled" ||
+      !settings.showToFieldTech ||
+      fieldTechApp.ratingsComments?.showToFieldTech === false
+    ) {
+      return NextResponse.json({
+        hidden: true,
+        averageRating: null,
+        totalCount: 0,
+        reviews: [],
+      });
+    }
+
+    const { data: ratings, count, error } = await supabase
+      .from("job_ratings")
+      .select(`
+        id,
+        rating,
+        comment,
+        rated_at,
+        client:client_id (
+          first_name,
+          last_name
+        )
+      `, { count: "exact" })
+      .eq("org_id", auth.user.orgId)
+      .eq("tech_id", auth.user.id)
+      .not("rated_at", "is", null)
+      .order("rated_at", { ascending: false })
+      .limit(MAX_REVIEWS);
+
+    if (error) {
+      console.error("Error fetching reviews:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch reviews" },
+        { status: 500 }
+      );
+    }
+
+    // Average over every rating, not just the page of recent ones
+    const { data: allRatings } = await supabase
+      .from("job_ratings")
+      .select("rating")
+      .eq("org_id", auth.user.orgId)
+      .eq("tech_id", auth.user.id)
+      .not("rated_at", "is", null);
+
+    const values = (allRatings || []).map((r) => r.rating as number);
+    const averageRating = values.length > 0
+      ? Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10
+      : null;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const reviews = (ratings || []).map((row: any) => {
+      const client = Array.isArray(row.client) ? row.client[0] : row.client;
+      return {
+        id: row.id,
+        // First name and last initial only
+        clientName: client
+          ? `${client.first_name || ""} ${client.last_name ? `${client.last_name[0]}.` : ""}`.trim() || "Client"
+          : "Client",
+        date: new Date(row.rated_at).toLocaleDateString("en-US", {
+          month: "short",
+          day: "numeric",
+          year: "numeric",
+        }),
+        rating: row.rating,
+        comment: row.comment,
+      };
+    });
+
+    return NextResponse.json({
+      hidden: false,
+      averageRating,
+      totalCount: count || values.length,
+      reviews,
+    });
+  } catch (error) {
+    console.error("Error fetching reviews:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch reviews" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,11 +3,13 @@
  *
  * Get today's route with all stops for the authenticated field tech.
  * Returns full stop details including client, location, and dog info.
+ * A helper on a crew gets the lead's route, with the crew listed.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { authenticateRequest, errorResponse } from "@/lib/api-auth";
+import { findHelperRouteId, loadRouteCrew } from "@/lib/crews";
 
 // Get Supabase client with service role
 function getSupabase() {
@@ -45,8 +47,10 @@ export async function GET(request: NextRequest) {
   // Allow specifying a date (default to today)
   const date = searchParams.get("date") || new Date().toISOString().split("T")[0];
 
-  // Get the route assigned to this user for the date
-  const { data: route, error: routeError } = await supabase
+  // Get the route assigned to this user for the date, or the crew route
+  // they're helping on
+  const helperRouteId = await findHelperRouteId(supabase, auth.user.orgId, auth.user.id, date);
+  let routeQuery = supabase
     .from("routes")
     .select(`
       id,
@@ -57,9 +61,12 @@ export async function GET(request: NextRequest) {
       end_time,
       notes
     `)
-    .eq("assigned_to", auth.user.id)
     .eq("route_date", date)
-    .eq("org_id", auth.user.orgId)
+    .eq("org_id", auth.user.orgId);
+  routeQuery = helperRouteId
+    ? routeQuery.eq("id", helperRouteId)
+    : routeQuery.eq("assigned_to", auth.user.id);
+  const { data: route, error: routeError } = await routeQuery
     .limit(1)
     .single();
 
@@ -75,7 +82,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       route: null,
       stops: [],
-      stats: { total: 0, completed: 0, skipped: 0, remaining: 0 },
+      stats: { total: 0, completed: 0, skipped: 0, remaining: 0, onHold: 0 },
     });
   }
 
@@ -99,10 +106,13 @@ export async function GET(request: NextRequest) {
         photos,
         started_at,
         completed_at,
+        split_index,
+        split_count,
         client:client_id (
           id,
           first_name,
           last_name,
+          client_type,
           phone,
           email,
           notification_preferences
@@ -188,10 +198,13 @@ export async function GET(request: NextRequest) {
         photos: job.photos || [],
         startedAt: job.started_at,
         completedAt: job.completed_at,
+        splitIndex: job.split_index,
+        splitCount: job.split_count,
         client: job.client ? {
           id: job.client.id,
           firstName: job.client.first_name,
           lastName: job.client.last_name,
+          clientType: job.client.client_type,
           phone: job.client.phone,
           email: job.client.email,
           notificationPreferences: job.client.notification_preferences,
@@ -222,8 +235,10 @@ export async function GET(request: NextRequest) {
     };
   });
 
-  // Calculate stats
-  const jobStatuses = formattedStops.map((s) => s.job?.status).filter(Boolean);
+  // Calculate stats. Stops on vacation hold aren't serviced, so they're
+  // counted separately rather than toward the route total.
+  const allStatuses = formattedStops.map((s) => s.job?.status).filter(Boolean);
+  const jobStatuses = allStatuses.filter((s) => s !== "ON_HOLD");
   const stats = {
     total: jobStatuses.length,
     completed: jobStatuses.filter((s) => s === "COMPLETED").length,
@@ -231,9 +246,13 @@ export async function GET(request: NextRequest) {
     inProgress: jobStatuses.filter((s) => s === "IN_PROGRESS").length,
     enRoute: jobStatuses.filter((s) => s === "EN_ROUTE").length,
     remaining: jobStatuses.filter((s) => s === "SCHEDULED" || s === "EN_ROUTE").length,
+    onHold: allStatuses.length - jobStatuses.length,
   };
 
+  const crew = await loadRouteCrew(supabase, route.id);
+
   return NextResponse.json({
+    crew: crew.length > 1 ? crew : [],
     route: {
       id: route.id,
       name: route.name,
@@ -1,14 +1,15 @@
 /**
  * Conversation Detail API
  *
- * Get conversation details, messages, and send replies.
+ * Get a conversation's merged thread, send replies (on the channel the
+ * customer last used unless another is picked), assign, close and mark
+ * needs-reply.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { authenticateRequest, errorResponse } from "@/lib/api-auth";
-import { sendSms, isQuoConfigured, normalizePhoneNumber } from "@/lib/quo";
-import { sendEmail, isResendConfigured, wrapEmailHtml } from "@/lib/resend";
+import { assignConversation, getThread, InboxError, leadAdminPath, sendInboxReply, type InboxChannel } from "@/lib/inbox";
 
 function getSupabase() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -46,6 +47,11 @@ export async function GET(
         channel,
         status,
         unread_count,
+        needs_reply,
+        lead_type,
+        lead_id,
+        contact_name,
+        participant_their,
         created_at,
         updated_at,
         client:client_id (
@@ -79,21 +85,7 @@ export async function GET(
       return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
     }
 
-    // Get messages
-    const { data: messages } = await supabase
-      .from("messages")
-      .select(`
-        id,
-        direction,
-        body,
-        status,
-        provider,
-        provider_message_id,
-        sent_by,
-        created_at
-      `)
-      .eq("conversation_id", conversationId)
-      .order("created_at", { ascending: true });
+    const messages = await getThread(supabase, conversation);
 
     // Mark as read
     await supabase
@@ -106,6 +98,17 @@ export async function GET(
         id: conversation.id,
         channel: conversation.channel,
         status: conversation.status,
+        needsReply: conversation.needs_reply,
+        lead: conversation.lead_type && conversation.lead_id
+          ? {
+              type: conversation.lead_type,
+              id: conversation.lead_id,
+              name: conversation.contact_name || conversation.participant_their,
+              phone: conversation.channel === "SMS" ? conversation.participant_their : null,
+              email: conversation.channel === "EMAIL" ? conversation.participant_their : null,
+              adminPath: leadAdminPath(conversation.lead_type, conversation.lead_id),
+            }
+          : null,
         createdAt: conversation.created_at,
         updatedAt: conversation.updated_at,
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -131,15 +134,7 @@ export async function GET(
             }
           : null,
       },
-      messages: (messages || []).map((m) => ({
-        id: m.id,
-        direction: m.direction,
-        body: m.body,
-        status: m.status,
-        provider: m.provider,
-        sentBy: m.sent_by,
-        createdAt: m.created_at,
-      })),
+      messages,
     });
   } catch (error) {
     console.error("Error fetching conversation:", error);
@@ -165,149 +160,28 @@ export async function POST(
 
   try {
     const body = await request.json();
-    const { message } = body;
+    const { message, channel } = body;
 
-    if (!message) {
+    if (!message?.trim()) {
       return NextResponse.json({ error: "Message required" }, { status: 400 });
     }
-
-    // Get conversation with client
-    const { data: conversation } = await supabase
-      .from("message_conversations")
-      .select(`
-        id,
-        channel,
-        org_id,
-        client:client_id (
-          id,
-          first_name,
-          last_name,
-          email,
-          phone
-        )
-      `)
-      .eq("id", conversationId)
-      .eq("org_id", auth.user.orgId)
-      .single();
-
-    if (!conversation) {
-      return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
-    }
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const client = conversation.client as any;
-    if (!client) {
-      return NextResponse.json({ error: "Client not found" }, { status: 404 });
-    }
-
-    // Determine recipient
-    const recipient = conversation.channel === "SMS" ? client.phone : client.email;
-    if (!recipient) {
-      return NextResponse.json(
-        { error: `Client has no ${conversation.channel === "SMS" ? "phone" : "email"} on file` },
-        { status: 400 }
-      );
+    if (channel && !["SMS", "EMAIL", "PORTAL"].includes(channel)) {
+      return NextResponse.json({ error: "Invalid channel" }, { status: 400 });
     }
 
-    // Create message record
-    const { data: newMessage, error: msgError } = await supabase
-      .from("messages")
-      .insert({
-        org_id: auth.user.orgId,
-        conversation_id: conversationId,
-        direction: "OUTBOUND",
-        body: message,
-        status: "QUEUED",
-        sent_by: auth.user.id,
-      })
-      .select()
-      .single();
-
-    if (msgError || !newMessage) {
-      console.error("Error creating message:", msgError);
-      return NextResponse.json({ error: "Failed to create message" }, { status: 500 });
-    }
-
-    // Send the message
-    let sendResult;
-    if (conversation.channel === "SMS") {
-      if (!isQuoConfigured()) {
-        await supabase
-          .from("messages")
-          .update({ status: "FAILED" })
-          .eq("id", newMessage.id);
-        return NextResponse.json({ error: "SMS not configured" }, { status: 500 });
-      }
-
-      const normalizedPhone = normalizePhoneNumber(recipient);
-      if (!normalizedPhone) {
-        await supabase
-          .from("messages")
-          .update({ status: "FAILED" })
-          .eq("id", newMessage.id);
-        return NextResponse.json({ error: "Invalid phone number" }, { status: 400 });
-      }
-
-      // Quo reports delivery status via /api/webhooks/quo (no per-message callback).
-      sendResult = await sendSms({
-        to: normalizedPhone,
-        body: message,
-      });
-    } else {
-      if (!isResendConfigured()) {
-        await supabase
-          .from("messages")
-          .update({ status: "FAILED" })
-          .eq("id", newMessage.id);
-        return NextResponse.json({ error: "Email not configured" }, { status: 500 });
-      }
-
-      sendResult = await sendEmail({
-        to: recipient,
-        subject: "Message from DooGoodScoopers",
-        html: wrapEmailHtml(`<p>${message}</p>`),
-      });
-    }
-
-    // Update message with result
-    if (sendResult.success) {
-      await supabase
-        .from("messages")
-        .update({
-          status: "SENT",
-          provider: conversation.channel === "SMS" ? "quo" : "resend",
-          provider_id: sendResult.messageId,
-        })
-        .eq("id", newMessage.id);
-
-      // Update conversation
-      await supabase
-        .from("message_conversations")
-        .update({
-          last_message_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", conversationId);
-
-      return NextResponse.json({
-        success: true,
-        message: {
-          id: newMessage.id,
-          direction: "OUTBOUND",
-          body: message,
-          status: "SENT",
-          createdAt: newMessage.created_at,
-        },
-      });
-    } else {
-      await supabase
-        .from("messages")
-        .update({ status: "FAILED" })
-        .eq("id", newMessage.id);
+    const sent = await sendInboxReply(supabase, {
+      orgId: auth.user.orgId,
+      conversationId,
+      body: message,
+      channel: channel as InboxChannel | undefined,
+      sentBy: { id: auth.user.id, email: auth.user.email },
+    });
 
-      return NextResponse.json({ error: sendResult.error || "Failed to send" }, { status: 500 });
-    }
+    return NextResponse.json({ success: true, message: sent });
   } catch (error) {
+    if (error instanceof InboxError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error("Error sending message:", error);
     return NextResponse.json({ error: "Failed to send message" }, { status: 500 });
   }
@@ -331,7 +205,7 @@ export async function PUT(
 
   try {
     const body = await request.json();
-    const { status, assignToStaffId } = body;
+    const { status, assignToStaffId, needsReply } = body;
 
     // Verify conversation belongs to org
     const { data: existing } = await supabase
@@ -350,10 +224,31 @@ export async function PUT(
     };
 
     if (status) {
+      if (!["OPEN", "CLOSED", "ARCHIVED"].includes(status)) {
+        return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+      }
       updates.status = status;
+      // Closing a thread means it's been dealt with
+      if (status !== "OPEN") updates.needs_reply = false;
     }
+    if (needsReply !== undefined) {
+      updates.needs_reply = !!needsReply;
+    }
+
     if (assignToStaffId !== undefined) {
-      updates.staff_id = assignToStaffId;
+      if (assignToStaffId) {
+        const { data: staff } = await supabase
+          .from("users")
+          .select("id")
+          .eq("id", assignToStaffId)
+          .eq("org_id", auth.user.orgId)
+          .in("role", ALLOWED_ROLES)
+          .single();
+        if (!staff) {
+          return NextResponse.json({ error: "Staff member not found" }, { status: 404 });
+        }
+      }
+      await assignConversation(supabase, conversationId, assignToStaffId || null, auth.user.id);
     }
 
     const { error: updateError } = await supabase
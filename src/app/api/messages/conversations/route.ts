@@ -1,13 +1,16 @@
 /**
  * Conversations API
  *
- * List and manage message conversations.
+ * List and manage unified inbox conversations (one per client or lead, across
+ * SMS, email and the client portal). See lib/inbox.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import type { LeadSource } from "@prisma/client";
+import prisma from "@/lib/prisma";
 import { authenticateRequest, errorResponse } from "@/lib/api-auth";
-import { getQuoFromNumber } from "@/lib/quo";
+import { ensureConversation, leadAdminPath } from "@/lib/inbox";
 
 function getSupabase() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -35,6 +38,8 @@ export async function GET(request: NextRequest) {
 
   const status = searchParams.get("status") || "OPEN";
   const channel = searchParams.get("channel");
+  // all | mine | unassigned | needs_reply | unread
+  const view = searchParams.get("view") || "all";
   const page = parseInt(searchParams.get("page") || "1");
   const limit = Math.min(parseInt(searchParams.get("limit") || "50"), 100);
   const offset = (page - 1) * limit;
@@ -48,7 +53,13 @@ export async function GET(request: NextRequest) {
         channel,
         status,
         unread_count,
+        needs_reply,
+        lead_type,
+        lead_id,
+        contact_name,
+        participant_their,
         last_message_at,
+        last_inbound_at,
         created_at,
         updated_at,
         client:client_id (
@@ -82,10 +93,21 @@ export async function GET(request: NextRequest) {
 
     if (status !== "ALL") {
       query = query.eq("status", status);
+    } else {
+      query = query.neq("status", "ARCHIVED");
     }
     if (channel) {
       query = query.eq("channel", channel);
     }
+    if (view === "mine") {
+      query = query.eq("staff_id", auth.user.id);
+    } else if (view === "unassigned") {
+      query = query.is("staff_id", null);
+    } else if (view === "needs_reply") {
+      query = query.eq("needs_reply", true);
+    } else if (view === "unread") {
+      query = query.gt("unread_count", 0);
+    }
 
     const { data: conversations, count, error } = await query;
 
@@ -96,12 +118,12 @@ export async function GET(request: NextRequest) {
 
     // Get last message for each conversation
     const conversationIds = (conversations || []).map((c) => c.id);
-    let lastMessages: Record<string, { body: string; direction: string; created_at: string }> = {};
+    const lastMessages: Record<string, { body: string; direction: string; channel: string; created_at: string }> = {};
 
     if (conversationIds.length > 0) {
       const { data: messages } = await supabase
         .from("messages")
-        .select("conversation_id, body, direction, created_at")
+        .select("conversation_id, body, direction, channel, created_at")
         .in("conversation_id", conversationIds)
         .order("created_at", { ascending: false });
 
@@ -111,30 +133,80 @@ export async function GET(request: NextRequest) {
           lastMessages[msg.conversation_id] = {
             body: msg.body,
             direction: msg.direction,
+            channel: msg.channel,
             created_at: msg.created_at,
           };
         }
       }
     }
 
-    // Get unread counts
-    const { data: unreadData } = await supabase
+    // Lead threads keep their texts in LeadMessage
+    const leadConversations = (conversations || []).filter((c) => c.lead_type && c.lead_id);
+    if (leadConversations.length > 0) {
+      const leadMessages = await prisma.leadMessage.findMany({
+        where: {
+          OR: leadConversations.map((c) => ({ leadType: c.lead_type as LeadSource, leadId: c.lead_id as string })),
+        },
+        orderBy: { createdAt: "desc" },
+        select: { leadType: true, leadId: true, body: true, direction: true, createdAt: true },
+      });
+      for (const c of leadConversations) {
+        const latest = leadMessages.find((m) => m.leadType === c.lead_type && m.leadId === c.lead_id);
+        const current = lastMessages[c.id];
+        if (latest && (!current || latest.createdAt.toISOString() > current.created_at)) {
+          lastMessages[c.id] = {
+            body: latest.body,
+            direction: latest.direction,
+            channel: "SMS",
+            created_at: latest.createdAt.toISOString(),
+          };
+        }
+      }
+    }
+
+    // Counts for the status and view filters
+    const { data: countData } = await supabase
       .from("message_conversations")
-      .select("status")
-      .eq("org_id", auth.user.orgId);
+      .select("status, needs_reply, unread_count, staff_id")
+      .eq("org_id", auth.user.orgId)
+      .neq("status", "ARCHIVED");
 
+    const openRows = (countData || []).filter((c) => c.status === "OPEN");
     const statusCounts = {
-      open: unreadData?.filter((c) => c.status === "OPEN").length || 0,
-      closed: unreadData?.filter((c) => c.status === "CLOSED").length || 0,
+      open: openRows.length,
+      closed: (countData || []).filter((c) => c.status === "CLOSED").length,
+      needsReply: openRows.filter((c) => c.needs_reply).length,
+      unread: openRows.filter((c) => c.unread_count > 0).length,
+      mine: openRows.filter((c) => c.staff_id === auth.user!.id).length,
+      unassigned: openRows.filter((c) => !c.staff_id).length,
     };
 
+    // Office staff a conversation can be assigned to
+    const { data: assignees } = await supabase
+      .from("users")
+      .select("id, first_name, last_name, role")
+      .eq("org_id", auth.user.orgId)
+      .eq("is_active", true)
+      .in("role", ALLOWED_ROLES)
+      .order("first_name", { ascending: true });
+
     return NextResponse.json({
       conversations: (conversations || []).map((c) => ({
         id: c.id,
         channel: c.channel,
         status: c.status,
         unreadCount: c.unread_count || 0,
+        needsReply: c.needs_reply,
+        lead: c.lead_type && c.lead_id
+          ? {
+              type: c.lead_type,
+              id: c.lead_id,
+              name: c.contact_name || c.participant_their,
+              adminPath: leadAdminPath(c.lead_type, c.lead_id),
+            }
+          : null,
         lastMessageAt: c.last_message_at,
+        lastInboundAt: c.last_inbound_at,
         createdAt: c.created_at,
         updatedAt: c.updated_at,
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -182,6 +254,11 @@ export async function GET(request: NextRequest) {
         lastMessage: lastMessages[c.id] || null,
       })),
       stats: statusCounts,
+      assignees: (assignees || []).map((u) => ({
+        id: u.id,
+        name: `${u.first_name || ""} ${u.last_name || ""}`.trim(),
+        role: u.role,
+      })),
       pagination: {
         page,
         limit,
@@ -227,57 +304,37 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Client not found" }, { status: 404 });
     }
 
-    // Check for existing open conversation
-    const { data: existing } = await supabase
-      .from("message_conversations")
-      .select("id")
-      .eq("client_id", clientId)
-      .eq("channel", channel)
-      .eq("status", "OPEN")
-      .single();
-
-    if (existing) {
-      return NextResponse.json({
-        conversation: { id: existing.id },
-        message: "Existing conversation found",
-      });
+    if (!["SMS", "EMAIL", "PORTAL"].includes(channel)) {
+      return NextResponse.json({ error: "Invalid channel" }, { status: 400 });
     }
 
-    // participant_our/participant_their are NOT NULL. For SMS, "our" side is the
-    // Quo number; for EMAIL it's the org's from-address. "their" side is the
-    // client's phone/email.
-    const participantOur =
-      channel === "SMS"
-        ? getQuoFromNumber()
-        : process.env.RESEND_FROM_EMAIL || process.env.SMTP_FROM || "";
+    // A client has one thread across channels; reuse it if they're already
+    // in the inbox
     const participantTheir =
-      (channel === "SMS" ? client.phone : client.email) || "";
-
-    // Create new conversation
-    const { data: conversation, error: createError } = await supabase
-      .from("message_conversations")
-      .insert({
-        org_id: auth.user.orgId,
-        client_id: clientId,
-        channel,
-        job_id: jobId || null,
-        location_id: locationId || null,
-        status: "OPEN",
-        participant_our: participantOur,
-        participant_their: participantTheir,
-      })
-      .select()
-      .single();
+      (channel === "SMS" ? client.phone : channel === "EMAIL" ? client.email : client.id) || "";
+    const conversation = await ensureConversation(
+      supabase,
+      auth.user.orgId,
+      { clientId },
+      channel,
+      participantTheir
+    );
 
-    if (createError) {
-      console.error("Error creating conversation:", createError);
+    if (!conversation) {
       return NextResponse.json({ error: "Failed to create conversation" }, { status: 500 });
     }
 
+    if (jobId || locationId) {
+      await supabase
+        .from("message_conversations")
+        .update({ job_id: jobId || null, location_id: locationId || null })
+        .eq("id", conversation.id);
+    }
+
     return NextResponse.json(
       {
         conversation: { id: conversation.id },
-        message: "Conversation created",
+        message: "Conversation ready",
       },
       { status: 201 }
     );
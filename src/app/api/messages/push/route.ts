@@ -0,0 +1,77 @@
+/**
+ * Inbox Push Subscription API
+ *
+ * Office staff register their browser here to get push notifications for
+ * inbox messages routed to them (PUSH reply forwarding rules, assignments).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { authenticateRequest, errorResponse } from "@/lib/api-auth";
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+const ALLOWED_ROLES = ["OWNER", "MANAGER", "OFFICE"];
+
+export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  if (!ALLOWED_ROLES.includes(auth.user.role)) {
+    return NextResponse.json({ error: "Access denied" }, { status: 403 });
+  }
+
+  const { endpoint, keys } = await request.json();
+  if (!endpoint || !keys?.p256dh || !keys?.auth) {
+    return NextResponse.json({ error: "Invalid subscription data" }, { status: 400 });
+  }
+
+  const { error } = await getSupabase()
+    .from("staff_push_subscriptions")
+    .upsert(
+      {
+        org_id: auth.user.orgId,
+        user_id: auth.user.id,
+        endpoint,
+        p256dh: keys.p256dh,
+        auth: keys.auth,
+      },
+      { onConflict: "endpoint" }
+    );
+
+  if (error) {
+    console.error("Error saving push subscription:", error);
+    return NextResponse.json({ error: "Failed to save subscription" }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
+
+export async function DELETE(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  const { endpoint } = await request.json();
+  if (!endpoint) {
+    return NextResponse.json({ error: "Missing endpoint" }, { status: 400 });
+  }
+
+  await getSupabase()
+    .from("staff_push_subscriptions")
+    .delete()
+    .eq("endpoint", endpoint)
+    .eq("user_id", auth.user.id);
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,36 @@
+/**
+ * Saved Replies API
+ *
+ * The inbox's saved replies are the same MessageTemplate rows the /admin
+ * lead compose box uses ("general" category; campaign copy is left out).
+ * {{firstName}} and {{lastName}} are filled in when the reply is sent.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { authenticateRequest, errorResponse } from "@/lib/api-auth";
+
+const ALLOWED_ROLES = ["OWNER", "MANAGER", "OFFICE"];
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (!auth.user) {
+    return errorResponse(auth.error!, auth.status);
+  }
+
+  if (!ALLOWED_ROLES.includes(auth.user.role)) {
+    return NextResponse.json({ error: "Access denied" }, { status: 403 });
+  }
+
+  try {
+    const templates = await prisma.messageTemplate.findMany({
+      where: { OR: [{ category: "general" }, { category: null }] },
+      orderBy: { name: "asc" },
+      select: { id: true, name: true, body: true },
+    });
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error("Error fetching saved replies:", error);
+    return NextResponse.json({ error: "Failed to fetch saved replies" }, { status: 500 });
+  }
+}
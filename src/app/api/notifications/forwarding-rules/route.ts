@@ -83,7 +83,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!["EMAIL", "SMS", "WEBHOOK"].includes(forwardToType)) {
+    if (!["EMAIL", "SMS", "PUSH"].includes(forwardToType)) {
       return NextResponse.json({ error: "Invalid forward type" }, { status: 400 });
     }
 
@@ -161,7 +161,12 @@ export async function PUT(request: NextRequest) {
     };
 
     if (name !== undefined) updates.name = name;
-    if (forwardToType !== undefined) updates.forward_to_type = forwardToType;
+    if (forwardToType !== undefined) {
+      if (!["EMAIL", "SMS", "PUSH"].includes(forwardToType)) {
+        return NextResponse.json({ error: "Invalid forward type" }, { status: 400 });
+      }
+      updates.forward_to_type = forwardToType;
+    }
     if (forwardToValue !== undefined) updates.forward_to_value = forwardToValue;
     if (conditions !== undefined) updates.conditions = conditions;
     if (isEnabled !== undefined) updates.is_enabled = isEnabled;
@@ -2,12 +2,19 @@
  * Public Add Card API
  *
  * GET  /api/public/add-card/[token] - Validate link and get SetupIntent
- * POST /api/public/add-card/[token] - Mark link as used
+ * POST /api/public/add-card/[token] - Mark link as used, make the new card the
+ *                                     default and retry any failed invoices
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
-import { getOrCreateStripeCustomer, createSetupIntent } from "@/lib/stripe";
+import {
+  getOrCreateStripeCustomer,
+  createSetupIntent,
+  getStripe,
+  setDefaultPaymentMethod,
+} from "@/lib/stripe";
+import { retryDunningForClient } from "@/lib/dunning";
 
 function getSupabase() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -117,7 +124,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
   try {
     const body = await request.json();
-    const { linkId } = body;
+    const { linkId, setupIntentId } = body;
 
     if (!linkId) {
       return NextResponse.json(
@@ -141,7 +148,13 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    return NextResponse.json({ success: true });
+    // Charge the new card for anything in dunning
+    let invoicesPaid = 0;
+    if (setupIntentId) {
+      invoicesPaid = await applyNewCard(supabase, token, setupIntentId);
+    }
+
+    return NextResponse.json({ success: true, invoicesPaid });
   } catch (error) {
     console.error("Error marking link as used:", error);
     return NextResponse.json(
@@ -150,3 +163,50 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     );
   }
 }
+
+/**
+ * Make the card from a completed SetupIntent the client's default and retry
+ * their open dunning invoices with it. Best-effort: the card is saved either way.
+ */
+async function applyNewCard(
+  supabase: ReturnType<typeof getSupabase>,
+  token: string,
+  setupIntentId: string
+): Promise<number> {
+  try {
+    const { data: link } = await supabase
+      .from("credit_card_links")
+      .select("client_id")
+      .eq("token", token)
+      .single();
+    if (!link) return 0;
+
+    const { data: client } = await supabase
+      .from("clients")
+      .select("stripe_customer_id")
+      .eq("id", link.client_id)
+      .single();
+
+    const setupIntent = await getStripe().setupIntents.retrieve(setupIntentId);
+    const paymentMethodId =
+      typeof setupIntent.payment_method === "string"
+        ? setupIntent.payment_method
+        : setupIntent.payment_method?.id;
+
+    // Only trust a SetupIntent that belongs to this link's customer
+    if (
+      setupIntent.status !== "succeeded" ||
+      !paymentMethodId ||
+      !client?.stripe_customer_id ||
+      setupIntent.customer !== client.stripe_customer_id
+    ) {
+      return 0;
+    }
+
+    await setDefaultPaymentMethod(client.stripe_customer_id, paymentMethodId);
+    return await retryDunningForClient(supabase, link.client_id, paymentMethodId);
+  } catch (error) {
+    console.error("Error applying new card:", error);
+    return 0;
+  }
+}
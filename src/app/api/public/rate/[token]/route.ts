@@ -0,0 +1,163 @@
+/**
+ * Public Rate Visit API
+ *
+ * GET  /api/public/rate/[token] - Validate link and get the visit, tip amounts
+ *                                 and any rating already left
+ * POST /api/public/rate/[token] - Submit stars, comment and an optional tip
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import {
+  getRatingByToken,
+  loadRatingsSettings,
+  submitRating,
+  RatingError,
+  type JobRating,
+} from "@/lib/job-ratings";
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+interface RouteParams {
+  params: Promise<{ token: string }>;
+}
+
+function formatRating(rating: JobRating) {
+  return rating.ratedAt
+    ? {
+        rating: rating.rating,
+        comment: rating.comment,
+        tipCents: rating.tipCents,
+        tipStatus: rating.tipStatus,
+        tipError: rating.tipStatus === "FAILED" ? rating.tipError : null,
+        ratedAt: rating.ratedAt,
+      }
+    : null;
+}
+
+/**
+ * GET /api/public/rate/[token]
+ * Validate a rating link and return what the rating page needs
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { token } = await params;
+  const supabase = getSupabase();
+
+  const rating = await getRatingByToken(supabase, token);
+  if (!rating) {
+    return NextResponse.json(
+      { valid: false, error: "Link not found" },
+      { status: 404 }
+    );
+  }
+
+  // A submitted rating stays viewable; an unused link expires
+  if (!rating.ratedAt && new Date(rating.expiresAt) < new Date()) {
+    return NextResponse.json(
+      { valid: false, error: "This link has expired" },
+      { status: 410 }
+    );
+  }
+
+  const [settings, { data: job }, { data: org }] = await Promise.all([
+    loadRatingsSettings(supabase, rating.orgId),
+    supabase
+      .from("jobs")
+      .select("scheduled_date, completed_at")
+      .eq("id", rating.jobId)
+      .single(),
+    supabase
+      .from("organizations")
+      .select("name, logo_url")
+      .eq("id", rating.orgId)
+      .single(),
+  ]);
+
+  if (settings.mode === "disabled" && !rating.ratedAt) {
+    return NextResponse.json(
+      { valid: false, error: "Ratings are not available right now" },
+      { status: 410 }
+    );
+  }
+
+  let techFirstName: string | null = null;
+  if (rating.techId) {
+    const { data: tech } = await supabase
+      .from("users")
+      .select("first_name")
+      .eq("id", rating.techId)
+      .single();
+    techFirstName = tech?.first_name || null;
+  }
+
+  return NextResponse.json({
+    valid: true,
+    orgName: org?.name || "DooGoodScoopers",
+    orgLogo: org?.logo_url || null,
+    tippingEnabled: settings.mode === "all",
+    tipAmounts: settings.tipAmounts,
+    visit: {
+      date: job?.scheduled_date || null,
+      completedAt: job?.completed_at || null,
+      techFirstName,
+    },
+    rating: formatRating(rating),
+  });
+}
+
+/**
+ * POST /api/public/rate/[token]
+ * Submit a rating (and tip) for the visit
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { token } = await params;
+  const supabase = getSupabase();
+
+  let body: { rating?: number; comment?: string; tipCents?: number; source?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid request body" },
+      { status: 400 }
+    );
+  }
+
+  const rating = await getRatingByToken(supabase, token);
+  if (!rating) {
+    return NextResponse.json(
+      { error: "Link not found" },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const saved = await submitRating(supabase, rating, {
+      rating: Number(body.rating),
+      comment: typeof body.comment === "string" ? body.comment.slice(0, 2000) : null,
+      tipCents: Number(body.tipCents) || 0,
+      source: body.source === "PORTAL" ? "PORTAL" : "LINK",
+    });
+
+    return NextResponse.json({ success: true, rating: formatRating(saved) });
+  } catch (error) {
+    if (error instanceof RatingError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Error submitting rating:", error);
+    return NextResponse.json(
+      { error: "Failed to submit rating" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Public Job Tracking API
+ *
+ * GET /api/public/track/[token] - Tech's approximate position, stops ahead
+ *                                 and ETA for an on-the-way link. Polled by
+ *                                 the /track/[token] page.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { getTrackingView } from "@/lib/job-tracking";
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+interface RouteParams {
+  params: Promise<{ token: string }>;
+}
+
+const END_MESSAGES = {
+  completed: "Your visit is complete. Thanks for choosing us!",
+  skipped: "Your visit was not completed today. We'll be in touch.",
+  expired: "This tracking link has expired.",
+};
+
+/**
+ * GET /api/public/track/[token]
+ * Current tracking status for a job
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { token } = await params;
+
+  try {
+    const view = await getTrackingView(getSupabase(), token);
+
+    if (!view) {
+      return NextResponse.json(
+        { valid: false, error: "Link not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!view.active) {
+      return NextResponse.json(
+        { valid: false, reason: view.reason, orgName: view.orgName, error: END_MESSAGES[view.reason] },
+        { status: 410 }
+      );
+    }
+
+    return NextResponse.json(
+      { valid: true, ...view },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("Error loading tracking view:", error);
+    return NextResponse.json(
+      { valid: false, error: "Failed to load tracking" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getSession } from "@/lib/auth";
+import { sendCanvasserPush } from "@/lib/web-push";
+
+// Every 15 minutes: push each canvasser a reminder for call-backs coming up in
+// the next 30 minutes (once per requested time — callbackRemindedAt).
+// Auth: the Vercel cron Bearer token, OR a logged-in admin (to run on demand).
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+const LEAD_MS = 30 * 60 * 1000;
+// A missed run still reminds for a call-back that just passed
+const GRACE_MS = 15 * 60 * 1000;
+
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  const authed =
+    (cronSecret && request.headers.get("authorization") === `Bearer ${cronSecret}`) ||
+    (await getSession());
+  if (!authed) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const now = Date.now();
+  const due: Array<{ id: string; canvasserId: string; address: string | null; city: string | null; callbackAt: Date }> =
+    await prisma.canvassVisit.findMany({
+      where: {
+        status: "CALLBACK",
+        callbackRemindedAt: null,
+        callbackAt: { gte: new Date(now - GRACE_MS), lte: new Date(now + LEAD_MS) },
+      },
+      select: { id: true, canvasserId: true, address: true, city: true, callbackAt: true },
+    });
+
+  let sent = 0;
+  for (const v of due) {
+    const time = v.callbackAt.toLocaleTimeString("en-US", { timeZone: "America/Los_Angeles", hour: "numeric", minute: "2-digit" });
+    const where = [v.address, v.city].filter(Boolean).join(", ") || "a door on your list";
+    const res = await sendCanvasserPush(v.canvasserId, {
+      title: `Call-back at ${time}`,
+      body: `${where} asked you to come back.`,
+      url: `/app/canvasser/pin/${v.id}`,
+      tag: `callback-${v.id}`,
+    });
+    sent += res.sent;
+    // Mark even with no device so we don't re-scan it every run
+    await prisma.canvassVisit.update({ where: { id: v.id }, data: { callbackRemindedAt: new Date() } });
+  }
+
+  return NextResponse.json({ success: true, due: due.length, sent });
+}
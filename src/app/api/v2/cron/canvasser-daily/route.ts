@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { runCanvasserDaily } from "@/lib/canvasser-daily";
+import { syncCanvassCommissions } from "@/lib/canvass-commissions";
 import { getSession } from "@/lib/auth";
 
-// Evening (Pacific): email each canvasser who worked today their recap.
+// Evening (Pacific): email each canvasser who worked today their recap, and
+// credit any canvass leads that became customers (commission ledger).
 // Auth: the Vercel cron Bearer token, OR a logged-in admin (to run on demand).
 export const dynamic = "force-dynamic";
 export const maxDuration = 120;
@@ -14,11 +16,20 @@ export async function GET(request: NextRequest) {
     (await getSession());
   if (!authed) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
+  // Commissions first so a recap failure doesn't hold up pay
+  let commissions: { converted: number; accrued: number } | { error: string };
+  try {
+    commissions = await syncCanvassCommissions();
+  } catch (e) {
+    console.error("[cron/canvasser-daily] commissions", e);
+    commissions = { error: "commission sync failed" };
+  }
+
   try {
     const result = await runCanvasserDaily();
-    return NextResponse.json({ success: true, ...result });
+    return NextResponse.json({ success: true, ...result, commissions });
   } catch (e) {
     console.error("[cron/canvasser-daily]", e);
-    return NextResponse.json({ success: false, error: "recap failed" }, { status: 500 });
+    return NextResponse.json({ success: false, error: "recap failed", commissions }, { status: 500 });
   }
 }
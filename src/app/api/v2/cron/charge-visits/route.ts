@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { runVisitChargeBatches } from "@/lib/visit-billing";
+
+// Daily: invoice and charge per-visit subscriptions' pending visits — daily
+// batches every day, weekly batches on Mondays (see lib/visit-billing).
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await runVisitChargeBatches(getSupabase());
+    return NextResponse.json({
+      success: true,
+      ...result,
+      errors: result.errors.length > 0 ? result.errors : undefined,
+    });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Visit charge run failed";
+    console.error("[cron/charge-visits]", message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
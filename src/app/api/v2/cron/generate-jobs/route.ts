@@ -1,8 +1,12 @@
 /**
  * Job Generation Cron API
  *
- * Generates scheduled jobs from active subscriptions.
+ * Generates scheduled jobs from active subscriptions on the dates their
+ * recurrence rule services (see lib/recurrence).
  * Should be called nightly via a cron job (e.g., Vercel Cron).
+ * Visits that land on an org holiday are skipped or shifted per the
+ * holiday's policy, and affected clients are notified. Visits inside a
+ * client's vacation hold are created with status ON_HOLD.
  *
  * POST /api/v2/cron/generate-jobs
  *
@@ -12,6 +16,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { authenticateWithPermission } from "@/lib/api-auth";
+import {
+  getHolidayCalendar,
+  resolveServiceDate,
+  buildHolidayMetadata,
+  holidaySkipReason,
+  notifyHolidayChanges,
+  type HolidayCalendar,
+  type HolidayJobChange,
+  type ServiceHoliday,
+} from "@/lib/holidays";
+import { getActiveHolds, findHoldForDate, type VacationHold } from "@/lib/vacation-holds";
+import { getSubscriptionRecurrence, isServiceDate } from "@/lib/recurrence";
 
 // Get Supabase client with service role
 function getSupabase() {
@@ -23,20 +39,6 @@ function getSupabase() {
   return createClient(url, serviceKey);
 }
 
-// Map frequency to service interval in days
-const frequencyIntervals: Record<string, number> = {
-  WEEKLY: 7,
-  BIWEEKLY: 14,
-  MONTHLY: 30,
-  ONETIME: 0, // One-time jobs are handled differently
-};
-
-// Get the day of week as string
-function getDayOfWeek(date: Date): string {
-  const days = ["SUNDAY", "MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY", "SATURDAY"];
-  return days[date.getDay()];
-}
-
 // Add days to a date
 function addDays(date: Date, days: number): Date {
   const result = new Date(date);
@@ -44,46 +46,6 @@ function addDays(date: Date, days: number): Date {
   return result;
 }
 
-// Check if a date falls on a service day for the subscription
-function isServiceDay(
-  date: Date,
-  frequency: string,
-  subscriptionStartDate: Date,
-  preferredDay?: string
-): boolean {
-  // Skip weekends (service days are Mon-Sat typically)
-  const dayOfWeek = date.getDay();
-  if (dayOfWeek === 0) return false; // Skip Sunday
-
-  // If preferred day is set, only service on that day
-  if (preferredDay) {
-    return getDayOfWeek(date) === preferredDay;
-  }
-
-  // For weekly, any weekday works
-  if (frequency === "WEEKLY") {
-    return true;
-  }
-
-  // For biweekly, check if this is an "on" week
-  if (frequency === "BIWEEKLY") {
-    const diffTime = date.getTime() - subscriptionStartDate.getTime();
-    const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
-    const weekNumber = Math.floor(diffDays / 7);
-    return weekNumber % 2 === 0;
-  }
-
-  // For monthly, service on a specific week of the month
-  if (frequency === "MONTHLY") {
-    const subscriptionDayOfMonth = subscriptionStartDate.getDate();
-    const dateDayOfMonth = date.getDate();
-    // Service within a week of the subscription start day
-    return Math.abs(dateDayOfMonth - subscriptionDayOfMonth) <= 3;
-  }
-
-  return false;
-}
-
 export async function POST(request: NextRequest) {
   // Verify authentication - either CRON_SECRET or authenticated admin
   const cronSecret = request.headers.get("x-cron-secret");
@@ -117,6 +79,9 @@ export async function POST(request: NextRequest) {
         plan_id,
         frequency,
         preferred_day,
+        recurrence,
+        start_date,
+        metadata,
         price_per_visit_cents,
         next_service_date,
         created_at,
@@ -162,10 +127,39 @@ export async function POST(request: NextRequest) {
 
     const today = new Date();
     today.setHours(0, 0, 0, 0);
+    const todayStr = today.toISOString().split("T")[0];
+    const lastDateStr = addDays(today, daysAhead).toISOString().split("T")[0];
 
     let totalGenerated = 0;
     let totalSkipped = 0;
     let totalErrors = 0;
+    let totalHolidayAdjusted = 0;
+    let totalOnHold = 0;
+
+    // Holiday calendars per org, loaded on first use
+    const holidayCalendars = new Map<string, HolidayCalendar>();
+    const getCalendar = async (calendarOrgId: string) => {
+      let calendar = holidayCalendars.get(calendarOrgId);
+      if (!calendar) {
+        calendar = await getHolidayCalendar(supabase, calendarOrgId, todayStr, lastDateStr);
+        holidayCalendars.set(calendarOrgId, calendar);
+      }
+      return calendar;
+    };
+
+    // Vacation holds per org, loaded on first use
+    const vacationHolds = new Map<string, VacationHold[]>();
+    const getHolds = async (holdsOrgId: string) => {
+      let holds = vacationHolds.get(holdsOrgId);
+      if (!holds) {
+        holds = await getActiveHolds(supabase, holdsOrgId, todayStr, lastDateStr);
+        vacationHolds.set(holdsOrgId, holds);
+      }
+      return holds;
+    };
+
+    // Visits moved or skipped by a holiday, grouped for client notices
+    const holidayChanges = new Map<string, { orgId: string; holiday: ServiceHoliday; changes: HolidayJobChange[] }>();
 
     // Process each subscription
     for (const subscription of subscriptions) {
@@ -187,8 +181,11 @@ export async function POST(request: NextRequest) {
         continue;
       }
 
-      const subscriptionStart = new Date(subscription.created_at);
-      const intervalDays = frequencyIntervals[subscription.frequency] || 7;
+      const recurrence = getSubscriptionRecurrence(subscription);
+      if (!recurrence) {
+        totalSkipped++;
+        continue;
+      }
 
       // Generate jobs for each day in the range
       for (let dayOffset = 0; dayOffset <= daysAhead; dayOffset++) {
@@ -196,15 +193,14 @@ export async function POST(request: NextRequest) {
         const jobDateStr = jobDate.toISOString().split("T")[0];
 
         // Check if this is a service day for this subscription
-        if (!isServiceDay(
-          jobDate,
-          subscription.frequency,
-          subscriptionStart,
-          subscription.preferred_day
-        )) {
+        if (!isServiceDate(recurrence, jobDateStr)) {
           continue;
         }
 
+        // Apply the holiday calendar (skip or shift to another day)
+        const calendar = await getCalendar(subscription.org_id);
+        const { date: serviceDateStr, holiday } = resolveServiceDate(jobDateStr, calendar, todayStr);
+
         // Check if a job already exists for this subscription on this date
         const { data: existingJob } = await supabase
           .from("jobs")
@@ -218,31 +214,84 @@ export async function POST(request: NextRequest) {
           continue;
         }
 
-        // Create the job
-        const { error: jobError } = await supabase.from("jobs").insert({
-          org_id: subscription.org_id,
-          subscription_id: subscription.id,
-          client_id: subscription.client_id,
-          location_id: subscription.location_id,
-          scheduled_date: jobDateStr,
-          status: "SCHEDULED",
-          price_cents: subscription.price_per_visit_cents,
-          metadata: {
-            generated_by: "cron",
-            generated_at: new Date().toISOString(),
-            frequency: subscription.frequency,
-          },
-        });
+        // A shifted visit may already have been created on its new day
+        if (holiday && serviceDateStr) {
+          const { data: shiftedJobs } = await supabase
+            .from("jobs")
+            .select("id")
+            .eq("subscription_id", subscription.id)
+            .eq("scheduled_date", serviceDateStr)
+            .limit(1);
+
+          if (shiftedJobs && shiftedJobs.length > 0) {
+            continue;
+          }
+        }
+
+        // Visits inside a vacation hold stay on the schedule as ON_HOLD
+        const vacationHold = serviceDateStr
+          ? findHoldForDate(await getHolds(subscription.org_id), subscription.client_id, subscription.id, serviceDateStr)
+          : null;
+
+        // Create the job. Skipped holiday visits are recorded as canceled so
+        // the client sees why and later runs don't recreate them.
+        const { data: createdJob, error: jobError } = await supabase
+          .from("jobs")
+          .insert({
+            org_id: subscription.org_id,
+            subscription_id: subscription.id,
+            client_id: subscription.client_id,
+            location_id: subscription.location_id,
+            scheduled_date: serviceDateStr || jobDateStr,
+            status: !serviceDateStr ? "CANCELED" : vacationHold ? "ON_HOLD" : "SCHEDULED",
+            skip_reason: holiday && !serviceDateStr ? holidaySkipReason(holiday) : null,
+            price_cents: subscription.price_per_visit_cents,
+            metadata: {
+              generated_by: "cron",
+              generated_at: new Date().toISOString(),
+              frequency: subscription.frequency,
+              ...(holiday && { holiday: buildHolidayMetadata(holiday, jobDateStr) }),
+              ...(vacationHold && { vacation_hold_id: vacationHold.id }),
+            },
+          })
+          .select("id")
+          .single();
 
         if (jobError) {
           console.error(`Error creating job for subscription ${subscription.id}:`, jobError);
           totalErrors++;
-        } else {
+          continue;
+        }
+
+        if (vacationHold) {
+          totalOnHold++;
+        } else if (serviceDateStr) {
           totalGenerated++;
         }
+
+        if (holiday && createdJob) {
+          totalHolidayAdjusted++;
+          const entry = holidayChanges.get(holiday.id) || {
+            orgId: subscription.org_id,
+            holiday,
+            changes: [] as HolidayJobChange[],
+          };
+          entry.changes.push({
+            jobId: createdJob.id,
+            clientId: subscription.client_id,
+            originalDate: jobDateStr,
+            newDate: serviceDateStr,
+          });
+          holidayChanges.set(holiday.id, entry);
+        }
       }
     }
 
+    // Let clients know about visits moved or skipped for a holiday
+    for (const { orgId: holidayOrgId, holiday, changes } of holidayChanges.values()) {
+      await notifyHolidayChanges(supabase, holidayOrgId, holiday, changes);
+    }
+
     // Also handle one-time subscriptions that need their single job created
     const { data: onetimeSubscriptions } = await supabase
       .from("subscriptions")
@@ -273,6 +322,13 @@ export async function POST(request: NextRequest) {
           continue;
         }
 
+        const vacationHold = findHoldForDate(
+          await getHolds(subscription.org_id),
+          subscription.client_id,
+          subscription.id,
+          subscription.next_service_date
+        );
+
         // Create the one-time job
         const { error: jobError } = await supabase.from("jobs").insert({
           org_id: subscription.org_id,
@@ -280,18 +336,21 @@ export async function POST(request: NextRequest) {
           client_id: subscription.client_id,
           location_id: subscription.location_id,
           scheduled_date: subscription.next_service_date,
-          status: "SCHEDULED",
+          status: vacationHold ? "ON_HOLD" : "SCHEDULED",
           price_cents: subscription.price_per_visit_cents,
           metadata: {
             generated_by: "cron",
             generated_at: new Date().toISOString(),
             frequency: "ONETIME",
+            ...(vacationHold && { vacation_hold_id: vacationHold.id }),
           },
         });
 
         if (jobError) {
           console.error(`Error creating one-time job for subscription ${subscription.id}:`, jobError);
           totalErrors++;
+        } else if (vacationHold) {
+          totalOnHold++;
         } else {
           totalGenerated++;
         }
@@ -306,6 +365,8 @@ export async function POST(request: NextRequest) {
       generated: totalGenerated,
       skipped: totalSkipped,
       errors: totalErrors,
+      holidayAdjusted: totalHolidayAdjusted,
+      onHold: totalOnHold,
       subscriptionsProcessed: subscriptions.length,
       daysAhead,
     });
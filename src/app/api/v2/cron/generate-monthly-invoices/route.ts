@@ -3,8 +3,16 @@
  *
  * Runs on the 1st of every month. For each active client with an active
  * subscription, creates a DRAFT invoice with line items for:
- *   - Each active subscription (monthly rate)
+ *   - Each active flat-rate subscription (monthly rate); per-visit and
+ *     prepaid pack plans are billed by the visit (see lib/visit-billing)
  *   - Each active client cross-sell
+ *   - A credit for visits skipped by ended vacation holds marked to credit
+ *   - A charge or credit for each mid-month plan change (see lib/proration)
+ *
+ * Line items are taxed from the org's sales tax rules (see lib/sales-tax),
+ * then the client's gift card, referral and goodwill credits are drawn down
+ * against the amount due (see lib/credit-ledger). Credits worth more than
+ * the month's charges carry over to the client's account credit.
  *
  * GET /api/v2/cron/generate-monthly-invoices
  * Authentication: CRON_SECRET Bearer token
@@ -12,6 +20,11 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { getPendingHoldCredits, markHoldsCredited } from "@/lib/vacation-holds";
+import { applyCreditsToInvoice, carryInvoiceCredit } from "@/lib/credit-ledger";
+import { applySalesTax, loadNonTaxableCrossSellIds, type TaxCategory } from "@/lib/sales-tax";
+import { getPendingProrations, markProrationsInvoiced } from "@/lib/proration";
+import { billingModeOf } from "@/lib/visit-billing";
 
 function getSupabase() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -70,6 +83,7 @@ export async function GET(request: NextRequest) {
     const supabase = getSupabase();
     const now = new Date();
     const billingMonth = now.toLocaleDateString("en-US", { month: "long", year: "numeric" });
+    const todayStr = now.toISOString().split("T")[0];
     const dueDate = new Date(now.getFullYear(), now.getMonth(), 15)
       .toISOString()
       .split("T")[0]; // Due on the 15th
@@ -86,6 +100,7 @@ export async function GET(request: NextRequest) {
 
     let totalInvoices = 0;
     let totalSkipped = 0;
+    let totalCreditsApplied = 0;
     const errors: string[] = [];
 
     for (const org of orgs || []) {
@@ -99,6 +114,7 @@ export async function GET(request: NextRequest) {
             frequency,
             price_per_visit_cents,
             billing_interval,
+            billing_mode,
             status,
             client:client_id (
               id,
@@ -128,6 +144,9 @@ export async function GET(request: NextRequest) {
           clientSubs[sub.client_id].push(sub);
         }
 
+        // Cross-sells the org hasn't marked taxable are billed untaxed
+        const nonTaxableCrossSells = await loadNonTaxableCrossSellIds(supabase, org.id);
+
         // For each client, get their dogs + cross-sells and create an invoice
         for (const [clientId, subs] of Object.entries(clientSubs)) {
           try {
@@ -162,10 +181,17 @@ export async function GET(request: NextRequest) {
             const dogLabel = dogCount === 1 ? "1 Dog" : `${dogCount} Dogs`;
 
             // Build line items
-            const lineItems: { description: string; quantity: number; unitPriceCents: number }[] = [];
+            const lineItems: {
+              description: string;
+              quantity: number;
+              unitPriceCents: number;
+              taxCategory: TaxCategory | null;
+              clientCrossSellId?: string;
+            }[] = [];
 
             // Add subscription line items
-            for (const sub of subs) {
+            const flatSubs = subs.filter((sub) => billingModeOf(sub) === "MONTHLY_FLAT");
+            for (const sub of flatSubs) {
               const freq = sub.frequency || "MONTHLY";
               const perVisitCents = sub.price_per_visit_cents || 0;
               const monthlyCents = toMonthlyCents(perVisitCents, freq);
@@ -174,6 +200,7 @@ export async function GET(request: NextRequest) {
                 description: `${freq} - ${dogLabel} (${(perVisitCents / 100).toFixed(2)}/visit)`,
                 quantity: 1,
                 unitPriceCents: monthlyCents,
+                taxCategory: "SERVICE_PLAN",
               });
             }
 
@@ -190,19 +217,73 @@ export async function GET(request: NextRequest) {
                 description: cs.name,
                 quantity: cs.quantity || 1,
                 unitPriceCents: cs.price_per_unit_cents,
+                taxCategory: nonTaxableCrossSells.has(cs.cross_sell_id) ? null : "CROSS_SELL",
+                clientCrossSellId: cs.id,
               });
             }
 
+            // Credit visits held by vacation holds that have ended (held visits
+            // on per-visit plans were never charged)
+            const flatSubIds = new Set(flatSubs.map((sub) => sub.id));
+            const pendingHolds = await getPendingHoldCredits(supabase, org.id, clientId, todayStr);
+            const holdCredits = pendingHolds.filter((credit) =>
+              credit.creditCents > 0 &&
+              (credit.hold.subscriptionId ? flatSubIds.has(credit.hold.subscriptionId) : flatSubs.length > 0)
+            );
+            const uncreditedHolds = pendingHolds.filter((credit) => !holdCredits.includes(credit));
+            if (uncreditedHolds.length > 0) {
+              await markHoldsCredited(
+                supabase,
+                uncreditedHolds.map((credit) => ({ hold: credit.hold, creditCents: 0 })),
+                null
+              );
+            }
+
+            for (const credit of holdCredits) {
+              lineItems.push({
+                description: `Vacation hold credit (${credit.hold.startDate} to ${credit.hold.endDate}, ${credit.visits} visit${credit.visits !== 1 ? "s" : ""})`,
+                quantity: 1,
+                unitPriceCents: -credit.creditCents,
+                taxCategory: "SERVICE_PLAN",
+              });
+            }
+
+            // Charge or credit the rest of last month for plan changes made mid-month
+            const prorations = await getPendingProrations(supabase, org.id, clientId);
+
+            for (const proration of prorations) {
+              lineItems.push({
+                description: proration.description,
+                quantity: 1,
+                unitPriceCents: proration.amountCents,
+                taxCategory: "SERVICE_PLAN",
+              });
+            }
+
+            // A client with only a credit (e.g. a plan moved to per-visit billing
+            // mid-month) still gets an invoice that carries it to their account
             if (lineItems.length === 0) {
               totalSkipped++;
               continue;
             }
 
-            // Calculate totals
-            const subtotalCents = lineItems.reduce(
-              (sum, item) => sum + item.quantity * item.unitPriceCents,
-              0
+            // Credits never take an invoice below zero; the rest carries to the
+            // client's account credit, shown as its own line so the lines add up
+            const carriedCents = Math.max(
+              0,
+              -lineItems.reduce((sum, item) => sum + item.quantity * item.unitPriceCents, 0)
             );
+            if (carriedCents > 0) {
+              lineItems.push({
+                description: "Credit carried over to account balance",
+                quantity: 1,
+                unitPriceCents: carriedCents,
+                taxCategory: null,
+              });
+            }
+
+            // Calculate totals
+            const subtotalCents = lineItems.reduce((sum, item) => sum + item.quantity * item.unitPriceCents, 0);
 
             // Generate invoice number
             const { data: latestInvoice } = await supabase
@@ -237,7 +318,7 @@ export async function GET(request: NextRequest) {
                 amount_due_cents: subtotalCents,
                 due_date: dueDate,
                 billing_interval: "MONTHLY",
-                subscription_id: subs[0].id,
+                subscription_id: (flatSubs[0] || subs[0]).id,
                 notes: `Auto-generated monthly invoice for ${billingMonth}`,
               })
               .select()
@@ -256,6 +337,9 @@ export async function GET(request: NextRequest) {
               quantity: item.quantity,
               unit_price_cents: item.unitPriceCents,
               total_cents: item.quantity * item.unitPriceCents,
+              tax_category: item.taxCategory,
+              // Vendor payout runs pay the cross-sell's vendor from this line
+              client_cross_sell_id: item.clientCrossSellId ?? null,
             }));
 
             const { error: itemsError } = await supabase
@@ -266,6 +350,28 @@ export async function GET(request: NextRequest) {
               errors.push(`Invoice ${invoiceNumber}: Failed to create line items - ${itemsError.message}`);
             }
 
+            if (holdCredits.length > 0) {
+              await markHoldsCredited(supabase, holdCredits, newInvoice.id);
+            }
+
+            await markProrationsInvoiced(supabase, prorations, newInvoice.id);
+
+            await carryInvoiceCredit(supabase, {
+              orgId: org.id,
+              clientId,
+              invoiceId: newInvoice.id,
+              amountCents: carriedCents,
+              reason: `Credit carried over from ${invoiceNumber}`,
+            });
+
+            await applySalesTax(supabase, { orgId: org.id, invoiceId: newInvoice.id });
+
+            const { appliedCents } = await applyCreditsToInvoice(supabase, {
+              orgId: org.id,
+              invoiceId: newInvoice.id,
+            });
+            totalCreditsApplied += appliedCents;
+
             totalInvoices++;
           } catch (err) {
             errors.push(`Client ${clientId}: ${err}`);
@@ -281,6 +387,7 @@ export async function GET(request: NextRequest) {
       message: `Generated ${totalInvoices} invoices, skipped ${totalSkipped}`,
       invoicesCreated: totalInvoices,
       skipped: totalSkipped,
+      creditsAppliedCents: totalCreditsApplied,
       errors: errors.length > 0 ? errors : undefined,
     });
   } catch (error) {
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { runDunning } from "@/lib/dunning";
+
+// Hourly: advance open dunning cases for failed Stripe invoices — retries,
+// add-card reminders (inside the SMS send window), office escalation and
+// auto-pause, per each org's billing.dunning settings.
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await runDunning(getSupabase());
+    return NextResponse.json({ success: true, ...result });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Dunning run failed";
+    console.error("[cron/process-dunning]", message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
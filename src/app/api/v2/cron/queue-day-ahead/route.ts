@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { queueDayAheadReminders } from "@/lib/day-ahead";
+
+// Hourly: once an org's day-ahead send hour comes (settings.scheduler), queue
+// DAY_AHEAD reminders for tomorrow's routed jobs per client channel
+// preferences and the SMS opt-out list. process-notifications sends them.
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await queueDayAheadReminders(getSupabase());
+    return NextResponse.json({ success: true, ...result });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Day-ahead run failed";
+    console.error("[cron/queue-day-ahead]", message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
 import { archiveConvertedLeads } from "@/lib/lead-duplicates";
-import { estimateMonthlyRevenue } from "@/lib/plan-pricing";
+import { estimateMonthlyRevenue, loadPlanPricing } from "@/lib/plan-pricing";
 
 // One-way mirror of ACTIVE Sweep&Go residential customers.
 //
@@ -92,6 +92,7 @@ export async function GET(request: NextRequest) {
   let created = 0;
   let updated = 0;
   let leadsArchived = 0;
+  const pricing = await loadPlanPricing();
 
   for (const c of clients) {
     if (!c.client) continue;
@@ -138,7 +139,7 @@ export async function GET(request: NextRequest) {
           kind: "SIGNUP", occurredAt: result.startDate ?? now,
           clientName: [result.firstName, result.lastName].filter(Boolean).join(" ") || null,
           email: result.email, zipCode: result.zipCode, plan: result.subscriptionNames,
-          revenue: estimateMonthlyRevenue(result.subscriptionNames),
+          revenue: estimateMonthlyRevenue(result.subscriptionNames, pricing),
           source: "sync-customers", dedupeKey: `sng-signup:${result.sngId}`,
         },
         update: {},
@@ -171,7 +172,7 @@ export async function GET(request: NextRequest) {
         kind: "CANCELLATION", occurredAt: now,
         clientName: [c.firstName, c.lastName].filter(Boolean).join(" ") || null,
         email: c.email, zipCode: c.zipCode, plan: c.subscriptionNames,
-        revenue: estimateMonthlyRevenue(c.subscriptionNames),
+        revenue: estimateMonthlyRevenue(c.subscriptionNames, pricing),
         source: "sync-customers", dedupeKey: `sng-cancel:${c.sngId}`,
       },
       update: {},
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { quickbooksConfigured, runQuickbooksSync } from "@/lib/quickbooks";
+
+// Hourly: push changed clients, invoices, payments and refunds to QuickBooks Online
+// for every connected org, retrying earlier failures. Orgs that have not finished
+// their mapping are skipped.
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!quickbooksConfigured()) {
+    return NextResponse.json({ success: false, skipped: "quickbooks_not_configured" });
+  }
+
+  const supabase = getSupabase();
+  const { data: connections, error } = await supabase
+    .from("quickbooks_connections")
+    .select("org_id, mapping");
+
+  if (error) {
+    console.error("[cron/sync-quickbooks]", error);
+    return NextResponse.json({ error: "Failed to load connections" }, { status: 500 });
+  }
+
+  const results: Record<string, unknown>[] = [];
+
+  for (const connection of connections || []) {
+    if (!connection.mapping?.defaultItemId) {
+      results.push({ orgId: connection.org_id, skipped: "mapping_incomplete" });
+      continue;
+    }
+
+    try {
+      const result = await runQuickbooksSync(supabase, connection.org_id);
+      results.push({
+        orgId: connection.org_id,
+        created: result.created,
+        updated: result.updated,
+        skipped: result.skipped,
+        failed: result.failed,
+      });
+    } catch (e) {
+      const message = e instanceof Error ? e.message : "Sync failed";
+      console.error("[cron/sync-quickbooks]", connection.org_id, message);
+      results.push({ orgId: connection.org_id, error: message });
+    }
+  }
+
+  return NextResponse.json({ success: true, orgs: results.length, results });
+}
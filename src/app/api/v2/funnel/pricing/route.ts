@@ -1,9 +1,12 @@
 import { NextResponse } from "next/server";
 import { sngPrice } from "@/lib/sweepandgo-zip";
+import { createServiceClient } from "@/lib/supabase/server";
+import { loadPricingContext, quotePrice, visitsPerMonth } from "@/lib/pricing-engine";
 
-// Funnel pricing. Sweep&Go's real onboarding price is the source of truth; falls
-// back to the local get-pricing if SNG can't be reached / has no price. Both are
-// normalized to { amount, interval, initialFee } for the renderer.
+// Funnel pricing. The shared pricing engine (pricing_rules) is the source of
+// truth, so the funnel quotes exactly what QuoteForm and the office do; falls
+// back to Sweep&Go's onboarding price when no rule covers the request. Both are
+// normalized to { perVisit, monthly, initialFee } for the renderer.
 export const dynamic = "force-dynamic";
 export const maxDuration = 20;
 
@@ -15,16 +18,6 @@ const normInterval = (raw?: string): string => {
   return raw || "month";
 };
 
-// Visits per month by funnel frequency, on Sweep&Go's 4.33-weeks/month basis, so
-// per-visit matches theirs exactly ($168/mo ÷ 8.66 = $19.40/visit).
-const WEEKS_PER_MONTH = 4.33;
-const VPM: Record<string, number> = {
-  once_a_week: WEEKS_PER_MONTH,
-  two_times_a_week: WEEKS_PER_MONTH * 2,
-  bi_weekly: WEEKS_PER_MONTH / 2,
-  once_a_month: 1,
-  one_time: 1,
-};
 const round2 = (n: number) => Math.round(n * 100) / 100;
 
 export async function GET(request: Request) {
@@ -40,9 +33,43 @@ export async function GET(request: Request) {
     return NextResponse.json({ error: "zipCode and frequency are required" }, { status: 400 });
   }
 
-  const vpm = VPM[frequency] ?? 4.33;
+  // 4.33-weeks/month basis, so per-visit matches Sweep&Go ($168/mo ÷ 8.66 = $19.40/visit)
+  const vpm = visitsPerMonth(frequency);
   const oneTime = frequency === "one_time";
 
+  try {
+    const supabase = await createServiceClient();
+    const { data: org } = await supabase
+      .from("organizations")
+      .select("id")
+      .eq("slug", "doogoodscoopers")
+      .single<{ id: string }>();
+    if (org) {
+      const quote = quotePrice(await loadPricingContext(supabase, org.id), {
+        zipCode: zip,
+        dogs: parseInt(dogs) || 1,
+        frequency,
+        lastCleaned,
+        yardSize: url.searchParams.get("yardSize"),
+      });
+      if (!quote.priceNotConfigured) {
+        return NextResponse.json({
+          success: true, source: "pricing-engine",
+          pricing: {
+            perVisit: round2(quote.perVisitCents / 100),
+            monthly: quote.monthlyCents !== null ? round2(quote.monthlyCents / 100) : null,
+            initialFee: quote.initialCleanupCents ? round2(quote.initialCleanupCents / 100) : null,
+            oneTime, zipType: quote.zone, priceNotConfigured: false,
+            lineItems: quote.lineItems.map((l) => ({ label: l.label, amount: round2(l.amountCents / 100), cadence: l.cadence })),
+          },
+        });
+      }
+    }
+  } catch (e) {
+    console.error("[funnel/pricing] pricing engine failed:", e);
+  }
+
+  // Fallback → Sweep&Go's onboarding price.
   const sng = await sngPrice({ zip, frequency, dogs, lastCleaned, cfOverride, includeRaw: debug, isOneTime: oneTime });
   if (sng && !sng.priceNotConfigured && sng.amount != null) {
     const isMonthly = normInterval(sng.interval) === "month";
@@ -58,25 +85,5 @@ export async function GET(request: Request) {
     });
   }
 
-  // Fallback → the existing Supabase-backed pricing.
-  try {
-    const qs = new URLSearchParams({ zipCode: zip, numberOfDogs: dogs, frequency, ...(lastCleaned ? { lastCleaned } : {}) });
-    const res = await fetch(`${url.origin}/api/v2/get-pricing?${qs.toString()}`);
-    const d = await res.json().catch(() => null);
-    if (res.ok && d?.pricing) {
-      const pr = d.pricing;
-      return NextResponse.json({
-        success: true, source: "fallback",
-        pricing: {
-          perVisit: pr.recurringPrice ?? pr.basePrice ?? null,
-          monthly: oneTime ? null : (pr.monthlyPrice ?? null),
-          initialFee: pr.initialCleanupFee || null, oneTime, zipType: null,
-          priceNotConfigured: !!pr.priceNotConfigured,
-        },
-        ...(debug ? { sngRaw: sng?.raw ?? null } : {}),
-      });
-    }
-  } catch { /* fall through */ }
-
   return NextResponse.json({ success: false, source: "none", pricing: { priceNotConfigured: true }, ...(debug ? { sngRaw: sng?.raw ?? null } : {}) });
 }
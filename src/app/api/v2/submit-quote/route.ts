@@ -6,6 +6,7 @@ import { sendWelcomeEmail, sendNewCustomerNotificationEmail } from "@/lib/email"
 import { getStripe } from "@/lib/stripe";
 import { queueMarketingSync } from "@/lib/marketing-sync";
 import { syncContactToQuo } from "@/lib/quo";
+import { applySalesTax, DEFAULT_TAX_CATEGORY } from "@/lib/sales-tax";
 
 function getServiceSupabase() {
   return createSupabaseClient(
@@ -377,6 +378,7 @@ async function submitInServiceAreaQuote(data: QuoteSubmission) {
     }
 
     // 7a. Create draft invoice for the new subscription
+    let firstInvoiceTaxCents = 0;
     if (subscription && pricePerVisitCents > 0) {
       try {
         // Generate invoice number - find the highest existing number and increment
@@ -408,7 +410,7 @@ async function submitInServiceAreaQuote(data: QuoteSubmission) {
 
         // Create draft invoice in local database
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        await (supabase as any).from("invoices").insert({
+        const { data: draftInvoice } = await (supabase as any).from("invoices").insert({
           org_id: org.id,
           client_id: client.id,
           subscription_id: subscription.id,
@@ -425,7 +427,22 @@ async function submitInServiceAreaQuote(data: QuoteSubmission) {
           billing_interval: billingIntervalMap[dbFrequency] || "MONTHLY",
           due_date: getNextServiceDate(),
           notes: `Auto-generated draft invoice for subscription`,
-        });
+        }).select("id").single() as { data: { id: string } | null; error: Error | null };
+
+        if (draftInvoice) {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          await (supabase as any).from("invoice_items").insert({
+            org_id: org.id,
+            invoice_id: draftInvoice.id,
+            description: `Pet Waste Removal - ${dbFrequency}`,
+            quantity: 1,
+            unit_price_cents: pricePerVisitCents,
+            total_cents: pricePerVisitCents,
+            tax_category: "SERVICE_PLAN",
+          });
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          firstInvoiceTaxCents = await applySalesTax(supabase as any, { orgId: org.id, invoiceId: draftInvoice.id });
+        }
 
         console.log(`Created draft invoice ${invoiceNumber} for subscription ${subscription.id}`);
       } catch (draftInvoiceError) {
@@ -469,10 +486,18 @@ async function submitInServiceAreaQuote(data: QuoteSubmission) {
           },
         });
 
-        // Create the Stripe subscription
+        // Create the Stripe subscription. Its first invoice is finalized right
+        // away, so the sales tax from the local draft goes on as a one-off line;
+        // renewals are taxed by the invoice.created webhook.
         const stripeSubscription = await stripe.subscriptions.create({
           customer: stripeCustomer.id,
           items: [{ price: price.id }],
+          add_invoice_items: firstInvoiceTaxCents > 0
+            ? [{
+                price_data: { currency: "usd", product: product.id, unit_amount: firstInvoiceTaxCents },
+                metadata: { type: "sales_tax" },
+              }]
+            : undefined,
           metadata: {
             subscription_id: subscription.id,
             client_id: client.id,
@@ -532,9 +557,6 @@ async function submitInServiceAreaQuote(data: QuoteSubmission) {
           },
         });
 
-        // Finalize the invoice so it can be paid
-        await stripe.invoices.finalizeInvoice(invoice.id);
-
         initialCleanupInvoiceId = invoice.id;
 
         // Generate invoice number for initial cleanup
@@ -558,7 +580,7 @@ async function submitInServiceAreaQuote(data: QuoteSubmission) {
 
         // Create local invoice record
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        await (supabase as any).from("invoices").insert({
+        const { data: cleanupInvoice } = await (supabase as any).from("invoices").insert({
           org_id: org.id,
           client_id: client.id,
           stripe_invoice_id: invoice.id,
@@ -572,7 +594,37 @@ async function submitInServiceAreaQuote(data: QuoteSubmission) {
           amount_due_cents: initialCleanupCents,
           due_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split("T")[0],
           notes: "Initial yard cleanup fee",
-        });
+        }).select("id").single() as { data: { id: string } | null; error: Error | null };
+
+        // Tax the fee locally, then add the same tax to the Stripe invoice
+        // before it's finalized
+        if (cleanupInvoice) {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          await (supabase as any).from("invoice_items").insert({
+            org_id: org.id,
+            invoice_id: cleanupInvoice.id,
+            description: "Initial Yard Cleanup",
+            quantity: 1,
+            unit_price_cents: initialCleanupCents,
+            total_cents: initialCleanupCents,
+            tax_category: DEFAULT_TAX_CATEGORY,
+          });
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const cleanupTaxCents = await applySalesTax(supabase as any, { orgId: org.id, invoiceId: cleanupInvoice.id });
+          if (cleanupTaxCents > 0) {
+            await stripe.invoiceItems.create({
+              customer: stripeCustomer.id,
+              invoice: invoice.id,
+              amount: cleanupTaxCents,
+              currency: "usd",
+              description: "Sales tax",
+              metadata: { type: "sales_tax" },
+            });
+          }
+        }
+
+        // Finalize the invoice so it can be paid
+        await stripe.invoices.finalizeInvoice(invoice.id);
 
         console.log(`Created initial cleanup invoice ${invoice.id} for $${(initialCleanupCents / 100).toFixed(2)}`);
       } catch (invoiceError) {
@@ -2,7 +2,7 @@
  * Quo Webhook
  *
  * Receives Quo events (https://api.quo.com/v1 webhooks):
- *   - message.received            → inbound SMS → conversation + messages(INBOUND)
+ *   - message.received            → inbound SMS → inbox conversation (lib/inbox)
  *   - message.delivered / .failed → delivery status → messages/notifications
  *   - call.*                      → call activity into lead/client timeline (Phase 4)
  *
@@ -24,6 +24,7 @@ import {
   getQuoFromNumber,
 } from "@/lib/quo";
 import { analyzeCall, applyCallIntel, isCallIntelConfigured } from "@/lib/call-intel";
+import { ensureConversation, recordInboundMessage, routeInboundMessage } from "@/lib/inbox";
 
 function getSupabase(): SupabaseClient {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -123,7 +124,8 @@ async function handleInbound(supabase: SupabaseClient, payload: unknown) {
     return NextResponse.json({ success: true, skipped: true });
   }
 
-  // Match to a client by normalized phone.
+  // Match to a client by normalized phone and thread it into their inbox
+  // conversation (opened if they don't have one yet).
   let matchedClientId: string | null = null;
   let matchedConversationId: string | null = null;
 
@@ -137,35 +139,16 @@ async function handleInbound(supabase: SupabaseClient, payload: unknown) {
 
     if (client) {
       matchedClientId = client.id;
-
-      const { data: conversation } = await supabase
-        .from("message_conversations")
-        .select("id, unread_count")
-        .eq("client_id", client.id)
-        .eq("channel", "SMS")
-        .eq("status", "OPEN")
-        .order("last_message_at", { ascending: false, nullsFirst: false })
-        .limit(1)
-        .maybeSingle();
-
-      if (conversation) {
-        matchedConversationId = conversation.id;
-      } else {
-        const { data: newConversation } = await supabase
-          .from("message_conversations")
-          .insert({
-            org_id: org.id,
-            client_id: client.id,
-            channel: "SMS",
-            status: "OPEN",
-            participant_our: getQuoFromNumber() || msg.to,
-            participant_their: normalizedFrom,
-            last_message_at: new Date().toISOString(),
-          })
-          .select("id")
-          .single();
-        matchedConversationId = newConversation?.id ?? null;
-      }
+      matchedConversationId = await recordInboundMessage(supabase, {
+        orgId: org.id,
+        party: { clientId: client.id },
+        channel: "SMS",
+        from: normalizedFrom,
+        body: msg.body,
+        provider: "quo",
+        providerId: msg.messageId,
+        metadata: msg.mediaUrls.length ? { mediaUrls: msg.mediaUrls } : {},
+      });
     }
   }
 
@@ -184,34 +167,6 @@ async function handleInbound(supabase: SupabaseClient, payload: unknown) {
     raw_payload: (payload as object) ?? {},
   });
 
-  // Thread the message and bump the conversation.
-  if (matchedConversationId) {
-    await supabase.from("messages").insert({
-      org_id: org.id,
-      conversation_id: matchedConversationId,
-      direction: "INBOUND",
-      body: msg.body,
-      status: "DELIVERED", // inbound is received; RECEIVED is not a valid status value
-      provider: "quo",
-      provider_id: msg.messageId,
-      metadata: msg.mediaUrls.length ? { mediaUrls: msg.mediaUrls } : {},
-    });
-
-    const { data: conv } = await supabase
-      .from("message_conversations")
-      .select("unread_count")
-      .eq("id", matchedConversationId)
-      .single();
-    await supabase
-      .from("message_conversations")
-      .update({
-        last_message_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        unread_count: (conv?.unread_count ?? 0) + 1,
-      })
-      .eq("id", matchedConversationId);
-  }
-
   // A converted Sweep&Go customer texting is NOT a lead. Their old prospect lead
   // should already be archived at conversion (sync-customers), but guard here too:
   // never fire a "Lead replied" alert — or match a stale lead — for a real customer.
@@ -307,6 +262,18 @@ async function handleInbound(supabase: SupabaseClient, payload: unknown) {
           (nameRow as { firstName?: string | null } | null)?.firstName ||
           (nameRow as { fullName?: string | null } | null)?.fullName ||
           normalizedFrom;
+        // The text itself lives in LeadMessage; the inbox thread just tracks
+        // unread / needs-reply and runs the forwarding rules.
+        matchedConversationId = await recordInboundMessage(supabase, {
+          orgId: org.id,
+          party: { lead: { type: match.type, id: match.id, name: name === normalizedFrom ? null : name } },
+          channel: "SMS",
+          from: normalizedFrom,
+          body: msg.body,
+          provider: "quo",
+          providerId: msg.messageId,
+          threadMessage: false,
+        });
         sendAdminPush({
           title: "💬 Lead replied",
           body: `${name}: ${msg.body.slice(0, 60)}`,
@@ -339,31 +306,17 @@ async function handleInbound(supabase: SupabaseClient, payload: unknown) {
     }).catch(console.error);
   }
 
-  // Reply forwarding (e.g. email a staffer).
-  const { data: forwardRules } = await supabase
-    .from("reply_forwarding_rules")
-    .select("*")
-    .eq("org_id", org.id)
-    .eq("is_enabled", true);
-
-  if (forwardRules && forwardRules.length > 0) {
-    const { sendEmail, wrapEmailHtml } = await import("@/lib/resend");
-    for (const rule of forwardRules) {
-      if (rule.forward_to_type === "EMAIL" && rule.forward_to_value) {
-        await sendEmail({
-          to: rule.forward_to_value,
-          subject: `New SMS from ${msg.from}`,
-          html: wrapEmailHtml(`
-            <p>You received a new SMS message:</p>
-            <blockquote style="border-left: 4px solid #14b8a6; padding-left: 16px; margin: 16px 0;">
-              ${msg.body}
-            </blockquote>
-            <p><strong>From:</strong> ${msg.from}</p>
-            <p><a href="${process.env.NEXT_PUBLIC_SITE_URL || ""}/app/office/messages">View in Dashboard</a></p>
-          `),
-        }).catch((e) => console.error("[Quo] forward email failed:", e));
-      }
-    }
+  // Unthreaded senders (unknown numbers, Sweep&Go customers) still go
+  // through the forwarding rules; threaded ones already did.
+  if (!matchedConversationId) {
+    await routeInboundMessage(supabase, {
+      orgId: org.id,
+      conversation: null,
+      channel: "SMS",
+      from: normalizedFrom || msg.from,
+      contactName: normalizedFrom || msg.from,
+      body: msg.body,
+    });
   }
 
   return NextResponse.json({ success: true, conversation_id: matchedConversationId });
@@ -636,38 +589,13 @@ async function handleCall(supabase: SupabaseClient, event: string, payload: unkn
       .maybeSingle();
 
     if (client) {
-      let convId: string | null = null;
-      const { data: conv } = await supabase
-        .from("message_conversations")
-        .select("id")
-        .eq("client_id", client.id)
-        .eq("channel", "SMS")
-        .eq("status", "OPEN")
-        .order("last_message_at", { ascending: false, nullsFirst: false })
-        .limit(1)
-        .maybeSingle();
-      if (conv) {
-        convId = conv.id;
-      } else {
-        const { data: nc } = await supabase
-          .from("message_conversations")
-          .insert({
-            org_id: org.id,
-            client_id: client.id,
-            channel: "SMS",
-            status: "OPEN",
-            participant_our: getQuoFromNumber() || "",
-            participant_their: external,
-            last_message_at: new Date().toISOString(),
-          })
-          .select("id")
-          .single();
-        convId = nc?.id ?? null;
-      }
+      const conv = await ensureConversation(supabase, org.id, { clientId: client.id }, "SMS", external);
+      const convId = conv?.id ?? null;
       if (convId) {
         await supabase.from("messages").insert({
           org_id: org.id,
           conversation_id: convId,
+          channel: "SMS",
           direction: "INBOUND",
           body: text,
           status: "DELIVERED",
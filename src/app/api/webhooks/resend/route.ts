@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { Webhook } from "svix";
+import { createClient } from "@supabase/supabase-js";
 import prisma from "@/lib/prisma";
 import { recordUnsubscribe } from "@/lib/email-unsubscribe";
+import { getReceivedEmail } from "@/lib/resend";
+import { emailAddressOf, recordInboundMessage, routeInboundMessage, stripQuotedReply, type InboxParty } from "@/lib/inbox";
 
 // Resend event webhook → update per-recipient engagement + campaign counters.
 // Events: email.delivered / opened / clicked / bounced / complained.
+// email.received (Resend inbound) → client/lead email replies into the inbox.
 
 export const dynamic = "force-dynamic";
 
@@ -32,6 +36,11 @@ export async function POST(request: NextRequest) {
   const resendId = evt.data?.email_id;
   if (!type || !resendId) return NextResponse.json({ ok: true });
 
+  if (type === "email.received") {
+    await handleReceived(resendId);
+    return NextResponse.json({ ok: true });
+  }
+
   const recipient = await prisma.emailRecipient.findFirst({ where: { resendId }, select: { id: true, campaignId: true, email: true, openedAt: true, clickedAt: true, bouncedAt: true } });
   if (!recipient) return NextResponse.json({ ok: true });
 
@@ -56,3 +65,119 @@ export async function POST(request: NextRequest) {
 
   return NextResponse.json({ ok: true });
 }
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Supabase environment variables not configured");
+  }
+  return createClient(url, serviceKey);
+}
+
+// An email to our inbound address: match the sender to a client (then a
+// QuoteLead / AdLead) and thread the new part of the reply. Unmatched mail is
+// kept in inbound_messages and still forwarded. Svix redelivers webhooks, so
+// an email we already have is ignored.
+async function handleReceived(emailId: string) {
+  const supabase = getSupabase();
+  if (await alreadyReceived(supabase, emailId)) return;
+
+  const email = await getReceivedEmail(emailId);
+  if (!email) return;
+  if (email.id !== emailId && (await alreadyReceived(supabase, email.id))) return;
+
+  const { data: org } = await supabase.from("organizations").select("id").limit(1).single();
+  if (!org) return;
+
+  const from = emailAddressOf(email.from).toLowerCase();
+  const text = email.text || (email.html || "").replace(/<[^>]*>/g, " ").replace(/\s+\n/g, "\n");
+  const body = stripQuotedReply(text).slice(0, 10000);
+
+  let party: InboxParty | null = null;
+  const { data: client } = await supabase
+    .from("clients")
+    .select("id")
+    .eq("org_id", org.id)
+    .eq("email", from)
+    .limit(1)
+    .maybeSingle();
+  if (client) {
+    party = { clientId: client.id };
+  } else {
+    const quote = await prisma.quoteLead.findFirst({
+      where: { email: { equals: from, mode: "insensitive" } },
+      orderBy: { createdAt: "desc" },
+      select: { id: true, firstName: true, lastName: true },
+    });
+    if (quote) {
+      party = { lead: { type: "QUOTE_FORM", id: quote.id, name: [quote.firstName, quote.lastName].filter(Boolean).join(" ") } };
+    } else {
+      const ad = await prisma.adLead.findFirst({
+        where: { email: { equals: from, mode: "insensitive" } },
+        orderBy: { createdAt: "desc" },
+        select: { id: true, firstName: true, lastName: true, fullName: true },
+      });
+      if (ad) {
+        party = {
+          lead: { type: "AD_LEAD", id: ad.id, name: ad.fullName || [ad.firstName, ad.lastName].filter(Boolean).join(" ") || null },
+        };
+      }
+    }
+  }
+
+  const conversationId = party
+    ? await recordInboundMessage(supabase, {
+        orgId: org.id,
+        party,
+        channel: "EMAIL",
+        from,
+        subject: email.subject,
+        body,
+        provider: "resend",
+        providerId: email.id,
+      })
+    : null;
+
+  await supabase.from("inbound_messages").insert({
+    org_id: org.id,
+    channel: "EMAIL",
+    from_address: from,
+    to_address: email.to.join(", "),
+    subject: email.subject,
+    body,
+    provider: "resend",
+    provider_id: email.id,
+    matched_client_id: party && "clientId" in party ? party.clientId : null,
+    matched_conversation_id: conversationId,
+    processed: !!conversationId,
+    raw_payload: { messageId: email.messageId },
+  });
+
+  if (!conversationId) {
+    await routeInboundMessage(supabase, {
+      orgId: org.id,
+      conversation: null,
+      channel: "EMAIL",
+      from,
+      contactName: email.from,
+      body,
+    });
+  }
+}
+
+async function alreadyReceived(supabase: ReturnType<typeof getSupabase>, providerId: string): Promise<boolean> {
+  const [{ count: inbound }, { count: messages }] = await Promise.all([
+    supabase
+      .from("inbound_messages")
+      .select("id", { count: "exact", head: true })
+      .eq("provider", "resend")
+      .eq("provider_id", providerId),
+    supabase
+      .from("messages")
+      .select("id", { count: "exact", head: true })
+      .eq("provider", "resend")
+      .eq("provider_id", providerId),
+  ]);
+  return (inbound || 0) + (messages || 0) > 0;
+}
@@ -8,11 +8,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import Stripe from "stripe";
 import { createClient } from "@supabase/supabase-js";
-import { verifyWebhookSignature } from "@/lib/stripe";
+import { getStripe, verifyWebhookSignature } from "@/lib/stripe";
 import {
   voidFutureJobsForSubscription,
   regenerateJobsForSubscription,
+  SUBSCRIPTION_JOB_COLUMNS,
 } from "@/lib/subscription-jobs";
+import { recordPaymentFailure, resolveDunningCase, cancelDunningCase } from "@/lib/dunning";
+import { applySalesTax } from "@/lib/sales-tax";
 
 // Get Supabase client with service role
 function getSupabase() {
@@ -365,7 +368,7 @@ async function handleSubscriptionResumed(
   // Get the full local subscription for job regeneration
   const { data: localSub } = await supabase
     .from("subscriptions")
-    .select("id, org_id, client_id, location_id, frequency, preferred_day, price_per_visit_cents, created_at, status")
+    .select(`org_id, ${SUBSCRIPTION_JOB_COLUMNS}`)
     .eq("stripe_subscription_id", subscription.id)
     .single();
 
@@ -397,7 +400,20 @@ async function handleSubscriptionResumed(
 }
 
 /**
- * Handle invoice created event
+ * Sales tax lines we added to a Stripe invoice (metadata type "sales_tax").
+ * Stripe counts them in the subtotal; locally they are the invoice's tax.
+ */
+function stripeSalesTaxCents(invoice: Stripe.Invoice): number {
+  return (invoice.lines?.data || [])
+    .filter((line) => line.metadata?.type === "sales_tax")
+    .reduce((sum, line) => sum + line.amount, 0);
+}
+
+/**
+ * Handle invoice created event. Subscription renewals arrive as drafts:
+ * their lines are taxed from the org's sales tax rules and the tax is added
+ * to the Stripe invoice before it finalizes. Other invoices were taxed where
+ * they were created (see submit-quote).
  */
 async function handleInvoiceCreated(
   supabase: ReturnType<typeof getSupabase>,
@@ -441,26 +457,59 @@ async function handleInvoiceCreated(
     (invoice as unknown as { total_discount_amounts?: { amount: number }[] })
       .total_discount_amounts?.[0]?.amount || 0;
 
+  const taxCents = stripeSalesTaxCents(invoice);
+
   // Create local invoice record
-  const { error } = await supabase.from("invoices").insert({
+  const { data: localInvoice, error } = await supabase.from("invoices").insert({
     org_id: client.org_id,
     client_id: client.id,
     stripe_invoice_id: invoice.id,
     invoice_number: invoiceNumber,
     status: "DRAFT",
-    subtotal_cents: invoice.subtotal || 0,
+    subtotal_cents: (invoice.subtotal || 0) - taxCents,
     discount_cents: discountCents,
-    tax_cents: 0, // We don't charge sales tax
+    tax_cents: taxCents,
     total_cents: invoice.total || 0,
     amount_paid_cents: invoice.amount_paid || 0,
     amount_due_cents: invoice.amount_due || 0,
     due_date: invoice.due_date
       ? new Date(invoice.due_date * 1000).toISOString().split("T")[0]
       : null,
-  });
+  }).select("id").single();
+
+  if (error) {
+    if (!error.message.includes("duplicate")) {
+      console.error("Failed to create invoice:", error);
+    }
+    return;
+  }
 
-  if (error && !error.message.includes("duplicate")) {
-    console.error("Failed to create invoice:", error);
+  if (invoice.status !== "draft" || invoice.billing_reason !== "subscription_cycle" || taxCents > 0) {
+    return;
+  }
+
+  await supabase.from("invoice_items").insert(
+    (invoice.lines?.data || []).map((line) => ({
+      org_id: client.org_id,
+      invoice_id: localInvoice.id,
+      description: line.description || "Subscription",
+      quantity: line.quantity || 1,
+      unit_price_cents: Math.round(line.amount / (line.quantity || 1)),
+      total_cents: line.amount,
+      tax_category: "SERVICE_PLAN",
+    }))
+  );
+
+  const renewalTaxCents = await applySalesTax(supabase, { orgId: client.org_id, invoiceId: localInvoice.id });
+  if (renewalTaxCents > 0) {
+    await getStripe().invoiceItems.create({
+      customer: invoice.customer as string,
+      invoice: invoice.id,
+      amount: renewalTaxCents,
+      currency: invoice.currency,
+      description: "Sales tax",
+      metadata: { type: "sales_tax" },
+    });
   }
 }
 
@@ -475,7 +524,8 @@ async function handleInvoiceFinalized(
     .from("invoices")
     .update({
       status: "OPEN",
-      subtotal_cents: invoice.subtotal || 0,
+      subtotal_cents: (invoice.subtotal || 0) - stripeSalesTaxCents(invoice),
+      tax_cents: stripeSalesTaxCents(invoice),
       total_cents: invoice.total || 0,
       amount_due_cents: invoice.amount_due || 0,
     })
@@ -547,6 +597,9 @@ async function handleInvoicePaymentSucceeded(
       console.error("Failed to create payment record:", paymentError);
     }
   }
+
+  // Close any dunning case for the invoice and resume what it paused
+  await resolveDunningCase(supabase, invoice.id);
 }
 
 /**
@@ -586,7 +639,23 @@ async function handleInvoicePaymentFailed(
       .eq("stripe_subscription_id", subscriptionId);
   }
 
-  // TODO: Queue payment failed notification
+  // Open (or advance) the dunning case: retries, reminders, escalation, pause
+  if (invoiceAny.customer) {
+    // The decline message is only present when the payment intent is expanded
+    const failure = invoice as unknown as {
+      payment_intent?: string | { last_payment_error?: { message?: string } | null };
+    };
+    const reason = typeof failure.payment_intent === "object"
+      ? failure.payment_intent?.last_payment_error?.message || null
+      : null;
+    await recordPaymentFailure(supabase, {
+      stripeInvoiceId: invoice.id,
+      stripeCustomerId: invoiceAny.customer,
+      stripeSubscriptionId: subscriptionId,
+      amountDueCents: invoice.amount_due || 0,
+      reason,
+    });
+  }
 }
 
 /**
@@ -607,6 +676,8 @@ async function handleInvoiceVoided(
   if (error) {
     console.error("Failed to mark invoice as voided:", error);
   }
+
+  await cancelDunningCase(supabase, invoice.id, "Invoice voided");
 }
 
 /**
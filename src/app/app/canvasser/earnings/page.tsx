@@ -0,0 +1,82 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { getCanvasserSession } from "@/lib/canvasser-auth";
+import { commissionStatement, payPeriod } from "@/lib/canvass-commissions";
+import { ChevronLeft, ChevronRight, Wallet } from "lucide-react";
+
+export const dynamic = "force-dynamic";
+
+const money = (cents: number) => `$${(cents / 100).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export default async function EarningsPage({ searchParams }: { searchParams: Promise<{ period?: string }> }) {
+  const session = await getCanvasserSession();
+  if (!session) redirect("/canvasser/login");
+
+  // ?period=-1 is the previous pay period; never ahead of the current one
+  const { period: periodParam } = await searchParams;
+  const offset = Math.min(0, Math.max(-24, parseInt(periodParam || "0", 10) || 0));
+  const period = payPeriod(new Date(), offset);
+  const s = await commissionStatement(session.id, period);
+
+  return (
+    <div className="space-y-2.5">
+      <div className="flex items-center justify-between px-1">
+        <h1 className="text-[16px] font-extrabold text-gray-900">Earnings</h1>
+        <div className="flex items-center gap-1">
+          <Link href={`/app/canvasser/earnings?period=${offset - 1}`} className="p-1.5 rounded-lg text-gray-500 active:bg-gray-100" aria-label="Previous pay period">
+            <ChevronLeft className="w-4 h-4" />
+          </Link>
+          <span className="text-[12.5px] font-semibold text-gray-600">{period.label}</span>
+          {offset < 0 ? (
+            <Link href={`/app/canvasser/earnings?period=${offset + 1}`} className="p-1.5 rounded-lg text-gray-500 active:bg-gray-100" aria-label="Next pay period">
+              <ChevronRight className="w-4 h-4" />
+            </Link>
+          ) : (
+            <span className="p-1.5 text-gray-200"><ChevronRight className="w-4 h-4" /></span>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl p-4 border border-gray-100">
+        <p className="text-[11px] font-semibold text-gray-500 uppercase tracking-wide">{offset === 0 ? "Earned so far this period" : "Earned this period"}</p>
+        <p className="text-[28px] font-extrabold text-gray-900 leading-tight">{money(s.totalCents)}</p>
+        <p className="text-[12.5px] text-gray-500 mt-0.5">{money(s.bountyCents)} signup bonuses · {money(s.revenueShareCents)} revenue share</p>
+        <div className="grid grid-cols-3 gap-2 mt-3">
+          {[
+            { label: "Doors", value: s.doors },
+            { label: "Leads", value: s.leads },
+            { label: "Signups", value: s.conversions },
+          ].map((k) => (
+            <div key={k.label} className="bg-gray-50 rounded-xl py-2 text-center">
+              <p className="text-[18px] font-extrabold text-gray-900 leading-none">{k.value}</p>
+              <p className="text-[10.5px] font-semibold text-gray-500 uppercase mt-1">{k.label}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {s.lines.length === 0 ? (
+        <div className="bg-white rounded-2xl p-8 text-center border border-gray-100">
+          <Wallet className="w-8 h-8 text-gray-300 mx-auto mb-2" />
+          <p className="text-[13.5px] text-gray-500">No commission in this pay period yet. When one of your leads signs up, it shows up here.</p>
+        </div>
+      ) : (
+        s.lines.map((l) => (
+          <div key={l.id} className="bg-white rounded-2xl p-3.5 border border-gray-100">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-[14px] font-bold text-gray-900 truncate">{l.customerLabel}</p>
+                {l.address && <p className="text-[12.5px] text-gray-600 truncate">{l.address}</p>}
+                <p className="text-[12px] text-gray-500 mt-0.5">
+                  {l.kind === "BOUNTY" ? "Signup bonus" : `Revenue share · month ${l.month}`} ·{" "}
+                  {l.earnedAt.toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" })}
+                </p>
+              </div>
+              <span className="text-[14px] font-extrabold text-green-700 tabular-nums">{money(l.amountCents)}</span>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
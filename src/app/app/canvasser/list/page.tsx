@@ -2,6 +2,11 @@ import { redirect } from "next/navigation";
 import { getCanvasserSession } from "@/lib/canvasser-auth";
 import prisma from "@/lib/prisma";
 import { CanvasserVisitsList, type VisitItem } from "@/components/portals/canvasser/CanvasserVisitsList";
+import { CanvasserWalkList } from "@/components/portals/canvasser/CanvasserWalkList";
+import { CanvasserReknockQueue } from "@/components/portals/canvasser/CanvasserReknockQueue";
+import { canvasserWalkLists } from "@/lib/canvass-walk-list";
+import { reknockQueue } from "@/lib/canvass-reknock";
+import { ptDayStart } from "@/lib/canvasser-daily";
 
 export const dynamic = "force-dynamic";
 
@@ -9,11 +14,18 @@ export default async function CanvasserListPage() {
   const session = await getCanvasserSession();
   if (!session) redirect("/canvasser/login");
 
-  const rows = await prisma.canvassVisit.findMany({
-    where: { canvasserId: session.id },
-    orderBy: { createdAt: "desc" },
-    take: 5000,
-  });
+  // Re-knocks due by the end of today (Pacific): noon tomorrow → tomorrow's midnight
+  const now = new Date();
+  const endOfToday = ptDayStart(new Date(ptDayStart(now).getTime() + 36 * 60 * 60 * 1000));
+  const [rows, walkLists, reknocks] = await Promise.all([
+    prisma.canvassVisit.findMany({
+      where: { canvasserId: session.id },
+      orderBy: { createdAt: "desc" },
+      take: 5000,
+    }),
+    canvasserWalkLists(session.id),
+    reknockQueue(session.id, endOfToday),
+  ]);
 
   const visits: VisitItem[] = rows.map((v) => ({
     id: v.id,
@@ -28,5 +40,11 @@ export default async function CanvasserListPage() {
     createdAt: v.createdAt.toISOString(),
   }));
 
-  return <CanvasserVisitsList visits={visits} />;
+  return (
+    <div className="space-y-4">
+      <CanvasserReknockQueue items={reknocks} now={now} />
+      <CanvasserWalkList territories={walkLists} />
+      <CanvasserVisitsList visits={visits} />
+    </div>
+  );
 }
@@ -1,7 +1,8 @@
 import { redirect, notFound } from "next/navigation";
 import { getCanvasserSession } from "@/lib/canvasser-auth";
 import prisma from "@/lib/prisma";
-import { PinDetail, type PinData } from "@/components/portals/canvasser/PinDetail";
+import { PinDetail, type PinAttempt, type PinData } from "@/components/portals/canvasser/PinDetail";
+import { walkContextForVisit } from "@/lib/canvass-walk-list";
 
 export const dynamic = "force-dynamic";
 
@@ -27,7 +28,20 @@ export default async function PinDetailPage({ params }: { params: Promise<{ id:
     canvasserLeadId: v.canvasserLeadId,
     createdAt: v.createdAt.toISOString(),
     updatedAt: v.updatedAt.toISOString(),
+    attempts: v.attempts,
+    nextKnockAt: v.nextKnockAt?.toISOString() ?? null,
+    callbackAt: v.callbackAt?.toISOString() ?? null,
   };
 
-  return <PinDetail pin={pin} />;
+  const history: PinAttempt[] = (
+    await prisma.canvassVisitAttempt.findMany({ where: { visitId: v.id }, orderBy: { createdAt: "desc" }, take: 20 })
+  ).map((a: { id: string; status: string; notes: string | null; callbackAt: Date | null; createdAt: Date }) => ({
+    id: a.id,
+    status: a.status,
+    notes: a.notes,
+    callbackAt: a.callbackAt?.toISOString() ?? null,
+    createdAt: a.createdAt.toISOString(),
+  }));
+
+  return <PinDetail pin={pin} history={history} walk={await walkContextForVisit(session.id, v.id)} />;
 }
@@ -44,6 +44,28 @@ interface PaymentMethod {
   isDefault: boolean;
 }
 
+interface CreditBalance {
+  giftCents: number;
+  referralCents: number;
+  goodwillCents: number;
+  totalCents: number;
+}
+
+interface CreditActivity {
+  id: string;
+  createdAt: string;
+  amountCents: number;
+  tier: "GIFT" | "REFERRAL" | "GOODWILL";
+  invoiceNumber: string | null;
+  reversed: boolean;
+}
+
+const CREDIT_TIER_LABELS: Record<CreditActivity["tier"], string> = {
+  GIFT: "Gift certificate",
+  REFERRAL: "Referral credit",
+  GOODWILL: "Account credit",
+};
+
 interface Totals {
   totalBilled: number;
   totalPaid: number;
@@ -66,6 +88,8 @@ export default function BillingPage() {
     accountCredit: 0,
     giftCertBalance: 0,
   });
+  const [credit, setCredit] = useState<CreditBalance | null>(null);
+  const [creditActivity, setCreditActivity] = useState<CreditActivity[]>([]);
   const [hasStripeCustomer, setHasStripeCustomer] = useState(false);
 
   useEffect(() => {
@@ -79,6 +103,8 @@ export default function BillingPage() {
           setPayments(data.payments || []);
           setPaymentMethods(data.paymentMethods || []);
           setTotals(data.totals);
+          setCredit(data.credit || null);
+          setCreditActivity(data.creditActivity || []);
           setHasStripeCustomer(data.hasStripeCustomer);
         } else {
           setError(data.error || "Failed to load billing");
@@ -198,6 +224,11 @@ export default function BillingPage() {
           <p className="text-2xl font-bold text-green-600">
             {formatCurrency(totals.accountCredit)}
           </p>
+          {credit && credit.referralCents > 0 && (
+            <p className="text-xs text-gray-500 mt-1">
+              Includes {formatCurrency(credit.referralCents)} in referral rewards
+            </p>
+          )}
         </div>
       </div>
 
@@ -210,7 +241,7 @@ export default function BillingPage() {
           <div>
             <p className="font-medium text-purple-800">Gift Certificate Balance</p>
             <p className="text-sm text-purple-700">
-              {formatCurrency(totals.giftCertBalance)} available
+              {formatCurrency(totals.giftCertBalance)} available · applied to your invoices first
             </p>
           </div>
         </div>
@@ -280,6 +311,31 @@ export default function BillingPage() {
         )}
       </div>
 
+      {/* Credits Applied */}
+      {creditActivity.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-100">
+            <h2 className="font-semibold text-gray-900">Credits Applied</h2>
+          </div>
+          <div className="divide-y divide-gray-100">
+            {creditActivity.map((entry) => (
+              <div key={entry.id} className="p-4 flex items-center justify-between">
+                <div>
+                  <p className="font-medium text-gray-900">{CREDIT_TIER_LABELS[entry.tier]}</p>
+                  <p className="text-sm text-gray-500">
+                    {formatDate(entry.createdAt)}
+                    {entry.invoiceNumber ? ` · Invoice #${entry.invoiceNumber}` : " · Adjustment"}
+                  </p>
+                </div>
+                <p className={`font-semibold ${entry.reversed ? "text-gray-400 line-through" : "text-green-600"}`}>
+                  -{formatCurrency(entry.amountCents)}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Recent Payments */}
       <div className="bg-white rounded-xl shadow-sm overflow-hidden">
         <div className="px-4 py-3 border-b border-gray-100">
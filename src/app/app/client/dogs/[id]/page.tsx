@@ -89,8 +89,8 @@ export default function EditDogPage() {
       const data = await res.json();
 
       if (res.ok) {
-        setSuccess(isNew ? "Dog added successfully" : "Dog updated successfully");
-        setTimeout(() => router.push("/app/client/profile"), 1500);
+        setSuccess(data.message || (isNew ? "Dog added successfully" : "Dog updated successfully"));
+        setTimeout(() => router.push("/app/client/profile"), isNew ? 3000 : 1500);
       } else {
         setError(data.error || "Failed to save dog");
       }
@@ -114,7 +114,9 @@ export default function EditDogPage() {
       const data = await res.json();
 
       if (res.ok) {
-        router.push("/app/client/profile");
+        setShowDeleteConfirm(false);
+        setSuccess(data.message || "Dog removed");
+        setTimeout(() => router.push("/app/client/profile"), 3000);
       } else {
         setError(data.error || "Failed to remove dog");
         setShowDeleteConfirm(false);
@@ -247,7 +249,7 @@ export default function EditDogPage() {
               Saving...
             </>
           ) : isNew ? (
-            "Add Dog"
+            "Request to Add Dog"
           ) : (
             "Save Changes"
           )}
@@ -270,7 +272,8 @@ export default function EditDogPage() {
           <div className="bg-white rounded-xl max-w-sm w-full p-6">
             <h3 className="text-lg font-bold text-gray-900 mb-2">Remove Dog?</h3>
             <p className="text-gray-600 mb-4">
-              Are you sure you want to remove {name} from your account?
+              Are you sure you want to remove {name} from your account? We&apos;ll confirm
+              once it&apos;s done, along with any change to your price.
             </p>
             <div className="flex gap-3">
               <button
@@ -78,8 +78,8 @@ export default function EditLocationPage() {
       const data = await res.json();
 
       if (res.ok) {
-        setSuccess("Location updated successfully");
-        setTimeout(() => router.push("/app/client/profile"), 1500);
+        setSuccess(data.message || "Location updated successfully");
+        setTimeout(() => router.push("/app/client/profile"), data.gateCodePending ? 3000 : 1500);
       } else {
         setError(data.error || "Failed to update location");
       }
@@ -0,0 +1,172 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { MessageSquare, Send, Mail, Smartphone } from "lucide-react";
+
+interface PortalMessage {
+  id: string;
+  channel: "SMS" | "EMAIL" | "PORTAL";
+  fromClient: boolean;
+  subject: string | null;
+  body: string;
+  createdAt: string;
+}
+
+function formatTimestamp(iso: string) {
+  return new Date(iso).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export default function ClientMessagesPage() {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [messages, setMessages] = useState<PortalMessage[]>([]);
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  async function fetchMessages() {
+    try {
+      const res = await fetch("/api/client/messages");
+      const data = await res.json();
+
+      if (res.ok) {
+        setMessages(data.messages || []);
+      } else {
+        setError(data.error || "Failed to load messages");
+      }
+    } catch (err) {
+      console.error("Error fetching messages:", err);
+      setError("Failed to load messages");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchMessages();
+  }, []);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages]);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+    setSending(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/client/messages", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message: draft }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        setDraft("");
+        setSent(true);
+        setTimeout(() => setSent(false), 3000);
+        await fetchMessages();
+      } else {
+        setError(data.error || "Failed to send message");
+      }
+    } catch (err) {
+      console.error("Error sending message:", err);
+      setError("Failed to send message");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-teal-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-xl font-bold text-gray-900">Messages</h1>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm">
+        <div className="p-4 space-y-3 max-h-[60vh] overflow-y-auto">
+          {messages.length === 0 ? (
+            <div className="py-10 text-center">
+              <MessageSquare className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+              <p className="text-sm text-gray-500">
+                No messages yet. Send us a note and we&apos;ll get back to you.
+              </p>
+            </div>
+          ) : (
+            messages.map((message) => (
+              <div
+                key={message.id}
+                className={`flex ${message.fromClient ? "justify-end" : "justify-start"}`}
+              >
+                <div
+                  className={`max-w-[80%] rounded-2xl px-4 py-2 ${
+                    message.fromClient ? "bg-teal-600 text-white" : "bg-gray-100 text-gray-900"
+                  }`}
+                >
+                  {message.subject && (
+                    <p className="text-xs font-semibold mb-1">{message.subject}</p>
+                  )}
+                  <p className="text-sm whitespace-pre-wrap">{message.body}</p>
+                  <p
+                    className={`text-xs mt-1 flex items-center gap-1 ${
+                      message.fromClient ? "text-teal-100" : "text-gray-500"
+                    }`}
+                  >
+                    {message.channel === "SMS" && <Smartphone className="w-3 h-3" />}
+                    {message.channel === "EMAIL" && <Mail className="w-3 h-3" />}
+                    {formatTimestamp(message.createdAt)}
+                  </p>
+                </div>
+              </div>
+            ))
+          )}
+          <div ref={bottomRef} />
+        </div>
+
+        <form onSubmit={handleSend} className="border-t border-gray-100 p-4 flex items-end gap-3">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Write a message..."
+            rows={2}
+            maxLength={2000}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:border-teal-500 resize-none"
+          />
+          <button
+            type="submit"
+            disabled={sending || !draft.trim()}
+            className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50 flex items-center gap-2"
+          >
+            <Send className="w-4 h-4" />
+            {sending ? "Sending..." : "Send"}
+          </button>
+        </form>
+      </div>
+
+      {sent && (
+        <p className="text-sm text-teal-700">Thanks! We&apos;ll reply here or by your usual contact method.</p>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { ArrowLeft, Calendar, Download, X } from "lucide-react";
+import { ArrowLeft, Calendar, Download, Star, X, MapPin, DoorClosed } from "lucide-react";
 import Link from "next/link";
 import Image from "next/image";
 import { useParams } from "next/navigation";
@@ -13,10 +13,21 @@ interface Photo {
   takenAt: string;
 }
 
+interface ServiceProof {
+  completedAt: string | null;
+  checkedInAt: string | null;
+  distanceMeters: number | null;
+  /** Null when the office doesn't check GPS distance */
+  onSite: boolean | null;
+  gatePhoto: boolean;
+  photoCount: number;
+}
+
 interface JobDetails {
   id: string;
   scheduledDate: string;
   status: string;
+  canRate: boolean;
   location: {
     addressLine1: string;
     city: string;
@@ -35,6 +46,7 @@ export default function JobPhotosPage() {
   const [error, setError] = useState<string | null>(null);
   const [job, setJob] = useState<JobDetails | null>(null);
   const [photos, setPhotos] = useState<Photo[]>([]);
+  const [proof, setProof] = useState<ServiceProof | null>(null);
   const [selectedPhoto, setSelectedPhoto] = useState<Photo | null>(null);
 
   useEffect(() => {
@@ -46,6 +58,7 @@ export default function JobPhotosPage() {
         if (res.ok) {
           setJob(data.job);
           setPhotos(data.photos || []);
+          setProof(data.proof || null);
         } else {
           setError(data.error || "Failed to load photos");
         }
@@ -73,11 +86,13 @@ export default function JobPhotosPage() {
   };
 
   const formatPhotoType = (type: string) => {
-    switch (type) {
+    switch (type.toUpperCase()) {
       case "BEFORE":
         return "Before";
       case "AFTER":
         return "After";
+      case "GATE":
+        return "Gate Closed";
       case "ISSUE":
         return "Issue Found";
       default:
@@ -147,8 +162,42 @@ export default function JobPhotosPage() {
             )}
           </div>
         </div>
+        {job.canRate && (
+          <Link
+            href={`/app/client/schedule/${job.id}/rate`}
+            className="mt-3 flex items-center gap-2 text-sm text-teal-600 font-medium"
+          >
+            <Star className="w-4 h-4" />
+            Rate this visit
+          </Link>
+        )}
       </div>
 
+      {/* Service Proof */}
+      {proof && (proof.checkedInAt || proof.gatePhoto) && (
+        <div className="bg-white rounded-xl shadow-sm p-4 space-y-3">
+          <h2 className="text-sm font-semibold text-gray-900">Service Proof</h2>
+          {proof.checkedInAt && (
+            <div className="flex items-start gap-3">
+              <MapPin className={`w-5 h-5 flex-shrink-0 ${proof.onSite ? "text-green-600" : "text-gray-400"}`} />
+              <p className="text-sm text-gray-700">
+                {proof.onSite ? "Checked in at your property" : "GPS check-in recorded"}{" "}
+                at {new Date(proof.checkedInAt).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })}
+                {proof.onSite && proof.distanceMeters != null && (
+                  <span className="text-gray-500"> · within {Math.max(proof.distanceMeters, 10)} m</span>
+                )}
+              </p>
+            </div>
+          )}
+          {proof.gatePhoto && (
+            <div className="flex items-start gap-3">
+              <DoorClosed className="w-5 h-5 flex-shrink-0 text-green-600" />
+              <p className="text-sm text-gray-700">Gate closed photo taken when we left</p>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Photos Grid */}
       {photos.length === 0 ? (
         <div className="bg-white rounded-xl shadow-sm p-8 text-center">
@@ -0,0 +1,69 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { ArrowLeft } from "lucide-react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { RateVisitForm } from "@/components/ratings/RateVisitForm";
+
+export default function RateVisitPage() {
+  const params = useParams();
+  const jobId = params.jobId as string;
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [token, setToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchRatingLink() {
+      try {
+        const res = await fetch(`/api/client/schedule/${jobId}/rating`);
+        const data = await res.json();
+
+        if (res.ok) {
+          setToken(data.token);
+        } else {
+          setError(data.error || "Failed to load rating");
+        }
+      } catch (err) {
+        console.error("Error fetching rating link:", err);
+        setError("Failed to load rating");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    if (jobId) {
+      fetchRatingLink();
+    }
+  }, [jobId]);
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <Link
+          href="/app/client/schedule"
+          className="w-10 h-10 bg-white rounded-full flex items-center justify-center shadow-sm"
+        >
+          <ArrowLeft className="w-5 h-5 text-gray-600" />
+        </Link>
+        <h1 className="text-xl font-bold text-gray-900">Rate Your Visit</h1>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center min-h-[40vh]">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-teal-600" />
+        </div>
+      ) : error || !token ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-sm text-red-700">{error || "Rating not available"}</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <RateVisitForm token={token} source="PORTAL" showHeader={false} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import { Calendar, CheckCircle, XCircle, Clock, MapPin, Camera, ChevronDown } from "lucide-react";
+import { Calendar, CheckCircle, XCircle, Clock, MapPin, Camera, ChevronDown, CalendarOff, Plane, PauseCircle, Star } from "lucide-react";
 import Link from "next/link";
 
 interface Job {
@@ -11,7 +11,13 @@ interface Job {
   startedAt: string | null;
   completedAt: string | null;
   skipReason: string | null;
+  holiday: {
+    name: string;
+    originalDate: string;
+  } | null;
   photoCount: number;
+  rating: number | null;
+  canRate: boolean;
   location: {
     id: string;
     addressLine1: string;
@@ -25,6 +31,25 @@ interface Job {
   } | null;
 }
 
+interface Holiday {
+  date: string;
+  name: string;
+  policy: "SKIP" | "SHIFT_NEXT" | "SHIFT_PREVIOUS";
+}
+
+interface VacationHold {
+  id: string;
+  subscriptionId: string | null;
+  startDate: string;
+  endDate: string;
+  reason: string | null;
+}
+
+interface ActiveSubscription {
+  id: string;
+  label: string;
+}
+
 interface Pagination {
   page: number;
   limit: number;
@@ -40,6 +65,14 @@ export default function SchedulePage() {
   const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [jobs, setJobs] = useState<Job[]>([]);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [vacationHolds, setVacationHolds] = useState<VacationHold[]>([]);
+  const [activeSubscriptions, setActiveSubscriptions] = useState<ActiveSubscription[]>([]);
+  const [showHoldForm, setShowHoldForm] = useState(false);
+  const [holdForm, setHoldForm] = useState({ startDate: "", endDate: "", reason: "", subscriptionId: "" });
+  const [holdSaving, setHoldSaving] = useState(false);
+  const [holdMessage, setHoldMessage] = useState<string | null>(null);
+  const [holdError, setHoldError] = useState<string | null>(null);
   const [pagination, setPagination] = useState<Pagination>({
     page: 1,
     limit: 20,
@@ -63,6 +96,7 @@ export default function SchedulePage() {
           setJobs((prev) => [...prev, ...data.jobs]);
         } else {
           setJobs(data.jobs || []);
+          setHolidays(data.holidays || []);
         }
         setPagination(data.pagination);
       } else {
@@ -81,6 +115,90 @@ export default function SchedulePage() {
     fetchSchedule();
   }, [fetchSchedule]);
 
+  const fetchVacationHolds = useCallback(async () => {
+    try {
+      const res = await fetch("/api/client/subscription");
+      const data = await res.json();
+
+      if (res.ok) {
+        setVacationHolds(data.vacationHolds || []);
+        setActiveSubscriptions(
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          (data.subscriptions || []).filter((sub: any) => sub.status === "ACTIVE").map((sub: any) => ({
+            id: sub.id,
+            label: sub.location?.addressLine1 || sub.plan?.name || "Subscription",
+          }))
+        );
+      }
+    } catch (err) {
+      console.error("Error fetching vacation holds:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchVacationHolds();
+  }, [fetchVacationHolds]);
+
+  const manageHold = async (body: Record<string, unknown>) => {
+    setHoldSaving(true);
+    setHoldError(null);
+    setHoldMessage(null);
+
+    try {
+      const res = await fetch("/api/client/subscription", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setHoldError(data.error || "Failed to update vacation hold");
+        return false;
+      }
+
+      setHoldMessage(data.message);
+      fetchVacationHolds();
+      fetchSchedule();
+      return true;
+    } catch (err) {
+      console.error("Error updating vacation hold:", err);
+      setHoldError("Failed to update vacation hold");
+      return false;
+    } finally {
+      setHoldSaving(false);
+    }
+  };
+
+  const handleAddHold = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!holdForm.startDate || !holdForm.endDate) {
+      setHoldError("Choose the first and last day you'll be away");
+      return;
+    }
+
+    const saved = await manageHold({
+      action: "vacationHold",
+      startDate: holdForm.startDate,
+      endDate: holdForm.endDate,
+      reason: holdForm.reason || undefined,
+      subscriptionId: holdForm.subscriptionId || undefined,
+    });
+
+    if (saved) {
+      setShowHoldForm(false);
+      setHoldForm({ startDate: "", endDate: "", reason: "", subscriptionId: "" });
+    }
+  };
+
+  const handleCancelHold = async (hold: VacationHold) => {
+    if (!confirm("Cancel this vacation hold? Your visits will go back on the schedule.")) {
+      return;
+    }
+    await manageHold({ action: "cancelVacationHold", holdId: hold.id });
+  };
+
   const loadMore = () => {
     if (pagination.page < pagination.totalPages && !loadingMore) {
       fetchSchedule(pagination.page + 1, true);
@@ -97,6 +215,15 @@ export default function SchedulePage() {
     });
   };
 
+  const formatShortDate = (dateStr: string) => {
+    const date = new Date(dateStr + "T00:00:00");
+    return date.toLocaleDateString("en-US", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+    });
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case "SCHEDULED":
@@ -111,6 +238,8 @@ export default function SchedulePage() {
         return { color: "bg-red-100 text-red-700", icon: XCircle, label: "Skipped" };
       case "CANCELED":
         return { color: "bg-gray-100 text-gray-700", icon: XCircle, label: "Canceled" };
+      case "ON_HOLD":
+        return { color: "bg-indigo-100 text-indigo-700", icon: PauseCircle, label: "On Hold" };
       default:
         return { color: "bg-gray-100 text-gray-700", icon: Clock, label: status };
     }
@@ -160,6 +289,143 @@ export default function SchedulePage() {
         </div>
       )}
 
+      {/* Upcoming Holidays */}
+      {view === "upcoming" && holidays.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-4">
+          <div className="flex items-center gap-2 mb-2">
+            <CalendarOff className="w-4 h-4 text-amber-700" />
+            <p className="text-sm font-semibold text-amber-900">Upcoming Holidays</p>
+          </div>
+          <ul className="space-y-1">
+            {holidays.map((holiday) => (
+              <li key={holiday.date} className="text-sm text-amber-800">
+                {holiday.name} ({formatShortDate(holiday.date)}) –{" "}
+                {holiday.policy === "SKIP"
+                  ? "no service that day"
+                  : holiday.policy === "SHIFT_NEXT"
+                  ? "service moves to the next day"
+                  : "service moves to the day before"}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Vacation Holds */}
+      {view === "upcoming" && (
+        <div className="bg-white rounded-xl shadow-sm p-4">
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center gap-2">
+              <Plane className="w-4 h-4 text-indigo-600" />
+              <p className="text-sm font-semibold text-gray-900">Vacation Holds</p>
+            </div>
+            {!showHoldForm && activeSubscriptions.length > 0 && (
+              <button
+                onClick={() => {
+                  setShowHoldForm(true);
+                  setHoldError(null);
+                  setHoldMessage(null);
+                }}
+                className="text-sm font-medium text-teal-600"
+              >
+                Add Hold
+              </button>
+            )}
+          </div>
+
+          {holdMessage && <p className="text-sm text-teal-700 mb-2">{holdMessage}</p>}
+          {holdError && <p className="text-sm text-red-700 mb-2">{holdError}</p>}
+
+          {vacationHolds.length === 0 && !showHoldForm && (
+            <p className="text-sm text-gray-500">
+              Going away? Put service on hold for those dates without pausing your plan.
+            </p>
+          )}
+
+          {vacationHolds.length > 0 && (
+            <ul className="space-y-2">
+              {vacationHolds.map((hold) => (
+                <li key={hold.id} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-700">
+                    {formatShortDate(hold.startDate)} – {formatShortDate(hold.endDate)}
+                    {hold.reason && <span className="text-gray-500"> ({hold.reason})</span>}
+                  </span>
+                  <button
+                    onClick={() => handleCancelHold(hold)}
+                    disabled={holdSaving}
+                    className="text-red-600 font-medium disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {showHoldForm && (
+            <form onSubmit={handleAddHold} className="space-y-3 mt-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">First day away</label>
+                  <input
+                    type="date"
+                    value={holdForm.startDate}
+                    min={new Date().toISOString().split("T")[0]}
+                    onChange={(e) => setHoldForm({ ...holdForm, startDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Last day away</label>
+                  <input
+                    type="date"
+                    value={holdForm.endDate}
+                    min={holdForm.startDate || new Date().toISOString().split("T")[0]}
+                    onChange={(e) => setHoldForm({ ...holdForm, endDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+              </div>
+              {activeSubscriptions.length > 1 && (
+                <select
+                  value={holdForm.subscriptionId}
+                  onChange={(e) => setHoldForm({ ...holdForm, subscriptionId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  <option value="">All of my services</option>
+                  {activeSubscriptions.map((sub) => (
+                    <option key={sub.id} value={sub.id}>{sub.label}</option>
+                  ))}
+                </select>
+              )}
+              <input
+                type="text"
+                value={holdForm.reason}
+                onChange={(e) => setHoldForm({ ...holdForm, reason: e.target.value })}
+                placeholder="Reason (optional)"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+              <div className="flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => setShowHoldForm(false)}
+                  className="px-3 py-2 text-sm font-medium text-gray-600"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={holdSaving}
+                  className="px-4 py-2 text-sm font-medium text-white bg-teal-600 rounded-lg disabled:opacity-50"
+                >
+                  {holdSaving ? "Saving..." : "Hold Service"}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      )}
+
       {/* Empty State */}
       {jobs.length === 0 && !error && (
         <div className="bg-white rounded-xl shadow-sm p-8 text-center">
@@ -202,6 +468,12 @@ export default function SchedulePage() {
                 </span>
               </div>
 
+              {job.holiday && job.holiday.originalDate !== job.scheduledDate && (
+                <p className="text-sm text-amber-700 mb-1">
+                  Moved from {formatShortDate(job.holiday.originalDate)} for {job.holiday.name}
+                </p>
+              )}
+
               {job.technician && (
                 <p className="text-sm text-gray-600">
                   Technician: {job.technician.firstName} {job.technician.lastName}
@@ -232,6 +504,21 @@ export default function SchedulePage() {
                   View {job.photoCount} photo{job.photoCount > 1 ? "s" : ""}
                 </Link>
               )}
+
+              {job.rating ? (
+                <p className="mt-3 flex items-center gap-1 text-sm text-gray-500">
+                  <Star className="w-4 h-4 fill-teal-500 text-teal-500" />
+                  You rated this visit {job.rating} star{job.rating > 1 ? "s" : ""}
+                </p>
+              ) : job.canRate && (
+                <Link
+                  href={`/app/client/schedule/${job.id}/rate`}
+                  className="mt-3 flex items-center gap-2 text-sm text-teal-600 font-medium"
+                >
+                  <Star className="w-4 h-4" />
+                  Rate this visit
+                </Link>
+              )}
             </div>
           );
         })}
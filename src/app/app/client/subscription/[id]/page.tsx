@@ -9,6 +9,9 @@ import {
   AlertTriangle,
   Loader2,
   RefreshCw,
+  CalendarDays,
+  PlusCircle,
+  Clock,
 } from "lucide-react";
 import Link from "next/link";
 
@@ -17,6 +20,9 @@ interface Subscription {
   status: string;
   frequency: string;
   pricePerVisit: number;
+  billingMode: string;
+  visitChargeBatch: string;
+  prepaidVisitsRemaining: number;
   preferredDay: string | null;
   nextServiceDate: string | null;
   pauseStartDate: string | null;
@@ -34,12 +40,51 @@ interface Subscription {
   } | null;
   addOns: Array<{
     id: string;
+    addOnId: string;
     name: string;
     priceCents: number;
     quantity: number;
   }>;
 }
 
+interface ChangeRequest {
+  id: string;
+  status: string;
+  title: string;
+  subscriptionId: string | null;
+  createdAt: string;
+}
+
+interface AvailableAddOn {
+  id: string;
+  name: string;
+  description: string | null;
+  priceCents: number;
+  priceType: string;
+  isRecurring: boolean;
+}
+
+interface ProrationEstimate {
+  amountCents: number;
+  effectiveDate: string;
+  description: string;
+}
+
+// Matches BILLING_MODE_LABELS and VISIT_CHARGE_BATCH_LABELS in lib/visit-billing
+const BILLING_MODE_LABELS: Record<string, string> = {
+  MONTHLY_FLAT: "Monthly flat rate",
+  PER_VISIT: "Per visit",
+  PREPAID_PACK: "Prepaid pack",
+};
+
+const VISIT_CHARGE_BATCH_LABELS: Record<string, string> = {
+  IMMEDIATE: "after each visit",
+  DAILY: "daily",
+  WEEKLY: "weekly",
+};
+
+const SERVICE_DAYS = ["MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY", "SATURDAY", "SUNDAY"];
+
 export default function SubscriptionDetailPage({
   params,
 }: {
@@ -57,6 +102,25 @@ export default function SubscriptionDetailPage({
   const [pauseUntil, setPauseUntil] = useState("");
   const [cancelReason, setCancelReason] = useState("");
   const [newFrequency, setNewFrequency] = useState("");
+  const [showDayModal, setShowDayModal] = useState(false);
+  const [showAddOnModal, setShowAddOnModal] = useState(false);
+  const [newDay, setNewDay] = useState("");
+  const [newAddOnId, setNewAddOnId] = useState("");
+  const [pendingRequests, setPendingRequests] = useState<ChangeRequest[]>([]);
+  const [availableAddOns, setAvailableAddOns] = useState<AvailableAddOn[]>([]);
+  const [frequencyProration, setFrequencyProration] = useState<ProrationEstimate | null>(null);
+
+  const fetchChangeRequests = async () => {
+    const res = await fetch("/api/client/change-requests");
+    if (!res.ok) return;
+    const data = await res.json();
+    setPendingRequests(
+      (data.changeRequests || []).filter(
+        (r: ChangeRequest) => r.subscriptionId === id && (r.status === "OPEN" || r.status === "IN_PROGRESS")
+      )
+    );
+    setAvailableAddOns(data.addOns || []);
+  };
 
   useEffect(() => {
     async function fetchSubscription() {
@@ -72,6 +136,7 @@ export default function SubscriptionDetailPage({
         } else {
           setError(data.error || "Failed to load subscription");
         }
+        await fetchChangeRequests();
       } catch (err) {
         console.error("Error fetching subscription:", err);
         setError("Failed to load subscription");
@@ -81,8 +146,32 @@ export default function SubscriptionDetailPage({
     }
 
     fetchSubscription();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [id]);
 
+  // Estimate what a frequency change adds to or takes off this month's bill
+  const previewFrequency = async (frequency: string) => {
+    setFrequencyProration(null);
+    if (!subscription || frequency === subscription.frequency) return;
+    try {
+      const res = await fetch("/api/client/change-requests", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          requestType: "CHANGE_FREQUENCY",
+          subscriptionId: id,
+          value: { frequency },
+          preview: true,
+        }),
+      });
+      if (!res.ok) return;
+      const data = await res.json();
+      setFrequencyProration(data.proration);
+    } catch (err) {
+      console.error("Error previewing change:", err);
+    }
+  };
+
   const handleAction = async (action: string, data: Record<string, unknown> = {}) => {
     setActionLoading(true);
     setError(null);
@@ -108,9 +197,12 @@ export default function SubscriptionDetailPage({
           );
           setSubscription(found || null);
         }
+        await fetchChangeRequests();
         setShowPauseModal(false);
         setShowCancelModal(false);
         setShowFrequencyModal(false);
+        setShowDayModal(false);
+        setShowAddOnModal(false);
       } else {
         setError(result.error || "Action failed");
       }
@@ -142,6 +234,16 @@ export default function SubscriptionDetailPage({
 
   const formatCurrency = (cents: number) => `$${(cents / 100).toFixed(2)}`;
 
+  const formatDay = (day: string) => day.charAt(0) + day.slice(1).toLowerCase();
+
+  const formatAddOnPrice = (addOn: AvailableAddOn) => {
+    if (addOn.priceType === "PER_DOG") return `${formatCurrency(addOn.priceCents)} per dog`;
+    if (!addOn.isRecurring) return `${formatCurrency(addOn.priceCents)} one time`;
+    return addOn.priceType === "FIXED"
+      ? `${formatCurrency(addOn.priceCents)} per month`
+      : `${formatCurrency(addOn.priceCents)} per visit`;
+  };
+
   const getStatusStyle = (status: string) => {
     switch (status) {
       case "ACTIVE":
@@ -194,6 +296,11 @@ export default function SubscriptionDetailPage({
     );
   }
 
+  const requestableAddOns = availableAddOns.filter(
+    (addOn) => !subscription.addOns.some((a) => a.addOnId === addOn.id)
+  );
+  const hasPending = (prefix: string) => pendingRequests.some((r) => r.title.startsWith(prefix));
+
   const totalPerVisit =
     subscription.pricePerVisit +
     subscription.addOns.reduce((sum, a) => sum + a.priceCents * a.quantity, 0);
@@ -231,6 +338,23 @@ export default function SubscriptionDetailPage({
         </div>
       )}
 
+      {/* Pending change requests */}
+      {pendingRequests.length > 0 && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+          <div className="flex items-center gap-2 mb-2">
+            <Clock className="w-4 h-4 text-blue-600" />
+            <p className="text-sm font-medium text-blue-800">Waiting for the office</p>
+          </div>
+          <ul className="space-y-1">
+            {pendingRequests.map((r) => (
+              <li key={r.id} className="text-sm text-blue-700">
+                {r.title} <span className="text-blue-500">(requested {formatDate(r.createdAt)})</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Details Table */}
       <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
         <div className="px-5 py-3 bg-gray-50 border-b border-gray-200">
@@ -253,6 +377,18 @@ export default function SubscriptionDetailPage({
             <DetailRow label="Preferred Day" value={subscription.preferredDay} bold />
           )}
           <DetailRow label="Amount" value={`${formatCurrency(subscription.pricePerVisit)} per visit`} bold />
+          <DetailRow
+            label="Billing"
+            value={
+              subscription.billingMode === "PER_VISIT"
+                ? `${BILLING_MODE_LABELS.PER_VISIT}, charged ${VISIT_CHARGE_BATCH_LABELS[subscription.visitChargeBatch] || "after each visit"}`
+                : BILLING_MODE_LABELS[subscription.billingMode] || BILLING_MODE_LABELS.MONTHLY_FLAT
+            }
+            bold
+          />
+          {subscription.billingMode === "PREPAID_PACK" && (
+            <DetailRow label="Prepaid Visits Left" value={String(subscription.prepaidVisitsRemaining)} bold />
+          )}
           {subscription.addOns.length > 0 && (
             <DetailRow
               label="Add-ons"
@@ -291,6 +427,7 @@ export default function SubscriptionDetailPage({
             <button
               onClick={() => {
                 setNewFrequency(subscription.frequency);
+                setFrequencyProration(null);
                 setShowFrequencyModal(true);
               }}
               className="inline-flex items-center gap-2 px-4 py-2.5 bg-teal-50 text-teal-700 border border-teal-200 rounded-lg text-sm font-medium hover:bg-teal-100 transition-colors"
@@ -299,6 +436,30 @@ export default function SubscriptionDetailPage({
               Change Frequency
             </button>
           )}
+          {subscription.frequency !== "ONETIME" && (
+            <button
+              onClick={() => {
+                setNewDay(subscription.preferredDay || "");
+                setShowDayModal(true);
+              }}
+              className="inline-flex items-center gap-2 px-4 py-2.5 bg-teal-50 text-teal-700 border border-teal-200 rounded-lg text-sm font-medium hover:bg-teal-100 transition-colors"
+            >
+              <CalendarDays className="w-4 h-4" />
+              Change Service Day
+            </button>
+          )}
+          {requestableAddOns.length > 0 && (
+            <button
+              onClick={() => {
+                setNewAddOnId("");
+                setShowAddOnModal(true);
+              }}
+              className="inline-flex items-center gap-2 px-4 py-2.5 bg-teal-50 text-teal-700 border border-teal-200 rounded-lg text-sm font-medium hover:bg-teal-100 transition-colors"
+            >
+              <PlusCircle className="w-4 h-4" />
+              Add an Extra
+            </button>
+          )}
           <button
             onClick={() => setShowPauseModal(true)}
             className="inline-flex items-center gap-2 px-4 py-2.5 bg-yellow-50 text-yellow-700 border border-yellow-200 rounded-lg text-sm font-medium hover:bg-yellow-100 transition-colors"
@@ -308,10 +469,11 @@ export default function SubscriptionDetailPage({
           </button>
           <button
             onClick={() => setShowCancelModal(true)}
-            className="inline-flex items-center gap-2 px-4 py-2.5 bg-white text-red-600 border border-red-200 rounded-lg text-sm font-medium hover:bg-red-50 transition-colors"
+            disabled={hasPending("Cancel service")}
+            className="inline-flex items-center gap-2 px-4 py-2.5 bg-white text-red-600 border border-red-200 rounded-lg text-sm font-medium hover:bg-red-50 transition-colors disabled:opacity-50"
           >
             <XCircle className="w-4 h-4" />
-            Cancel Subscription
+            {hasPending("Cancel service") ? "Cancellation Requested" : "Cancel Subscription"}
           </button>
         </div>
       )}
@@ -380,7 +542,8 @@ export default function SubscriptionDetailPage({
               <h3 className="text-lg font-semibold text-gray-900">Cancel Subscription</h3>
             </div>
             <p className="text-gray-600 text-sm mb-4">
-              Are you sure you want to cancel your subscription?
+              Are you sure you want to cancel your subscription? We&apos;ll confirm once
+              your service has been canceled.
             </p>
             <div className="mb-4">
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -406,7 +569,7 @@ export default function SubscriptionDetailPage({
                 disabled={actionLoading}
                 className="flex-1 bg-red-600 text-white py-2 rounded-lg text-sm font-medium disabled:opacity-50 flex items-center justify-center gap-2"
               >
-                {actionLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : "Cancel"}
+                {actionLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : "Request Cancellation"}
               </button>
             </div>
           </div>
@@ -422,7 +585,8 @@ export default function SubscriptionDetailPage({
               <h3 className="text-lg font-semibold text-gray-900">Change Service Frequency</h3>
             </div>
             <p className="text-gray-600 text-sm mb-4">
-              Select how often you&apos;d like us to service your yard. Changes take effect on your next billing cycle.
+              Select how often you&apos;d like us to service your yard. We&apos;ll confirm the change and
+              your new price once the office has made it.
             </p>
             <div className="space-y-2 mb-4">
               {[
@@ -443,7 +607,10 @@ export default function SubscriptionDetailPage({
                     name="frequency"
                     value={option.value}
                     checked={newFrequency === option.value}
-                    onChange={(e) => setNewFrequency(e.target.value)}
+                    onChange={(e) => {
+                      setNewFrequency(e.target.value);
+                      previewFrequency(e.target.value);
+                    }}
                     className="mt-1 w-4 h-4 text-teal-600 focus:ring-teal-500"
                   />
                   <div>
@@ -453,6 +620,16 @@ export default function SubscriptionDetailPage({
                 </label>
               ))}
             </div>
+            {frequencyProration && newFrequency !== subscription.frequency && (
+              <p className="text-sm text-gray-600 bg-gray-50 rounded-lg p-3 mb-4">
+                If approved today, your next invoice will include an estimated{" "}
+                <span className="font-medium text-gray-900">
+                  ${(Math.abs(frequencyProration.amountCents) / 100).toFixed(2)}{" "}
+                  {frequencyProration.amountCents > 0 ? "charge" : "credit"}
+                </span>{" "}
+                for the rest of this month.
+              </p>
+            )}
             <div className="flex gap-3">
               <button
                 onClick={() => setShowFrequencyModal(false)}
@@ -467,7 +644,103 @@ export default function SubscriptionDetailPage({
                 disabled={actionLoading || newFrequency === subscription.frequency}
                 className="flex-1 bg-teal-600 text-white py-2 rounded-lg text-sm font-medium disabled:opacity-50 flex items-center justify-center gap-2"
               >
-                {actionLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : "Update Frequency"}
+                {actionLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : "Request Change"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Service Day Modal */}
+      {showDayModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-md w-full p-6">
+            <div className="flex items-center gap-3 mb-4">
+              <CalendarDays className="w-6 h-6 text-teal-500" />
+              <h3 className="text-lg font-semibold text-gray-900">Change Service Day</h3>
+            </div>
+            <p className="text-gray-600 text-sm mb-4">
+              Pick the day you&apos;d like your visits on. We&apos;ll confirm once your schedule has been updated.
+            </p>
+            <select
+              value={newDay}
+              onChange={(e) => setNewDay(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 text-sm mb-4"
+            >
+              <option value="">Select a day</option>
+              {SERVICE_DAYS.map((day) => (
+                <option key={day} value={day}>
+                  {formatDay(day)}
+                </option>
+              ))}
+            </select>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setShowDayModal(false)}
+                className="flex-1 bg-gray-100 text-gray-700 py-2 rounded-lg text-sm font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => handleAction("changeServiceDay", { preferredDay: newDay })}
+                disabled={actionLoading || !newDay || newDay === subscription.preferredDay}
+                className="flex-1 bg-teal-600 text-white py-2 rounded-lg text-sm font-medium disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {actionLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : "Request Change"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Add-on Modal */}
+      {showAddOnModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-md w-full p-6">
+            <div className="flex items-center gap-3 mb-4">
+              <PlusCircle className="w-6 h-6 text-teal-500" />
+              <h3 className="text-lg font-semibold text-gray-900">Add an Extra</h3>
+            </div>
+            <div className="space-y-2 mb-4">
+              {requestableAddOns.map((addOn) => (
+                <label
+                  key={addOn.id}
+                  className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                    newAddOnId === addOn.id
+                      ? "border-teal-500 bg-teal-50"
+                      : "border-gray-200 hover:bg-gray-50"
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="addOn"
+                    value={addOn.id}
+                    checked={newAddOnId === addOn.id}
+                    onChange={(e) => setNewAddOnId(e.target.value)}
+                    className="mt-1 w-4 h-4 text-teal-600 focus:ring-teal-500"
+                  />
+                  <div>
+                    <p className="font-medium text-gray-900 text-sm">
+                      {addOn.name} <span className="text-gray-500 font-normal">{formatAddOnPrice(addOn)}</span>
+                    </p>
+                    {addOn.description && <p className="text-xs text-gray-500">{addOn.description}</p>}
+                  </div>
+                </label>
+              ))}
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setShowAddOnModal(false)}
+                className="flex-1 bg-gray-100 text-gray-700 py-2 rounded-lg text-sm font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => handleAction("addAddOn", { addOnId: newAddOnId })}
+                disabled={actionLoading || !newAddOnId}
+                className="flex-1 bg-teal-600 text-white py-2 rounded-lg text-sm font-medium disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {actionLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : "Request"}
               </button>
             </div>
           </div>
@@ -283,6 +283,8 @@ export default function JobDetailPage() {
                     ? "bg-blue-500 text-white"
                     : photo.type === "after"
                     ? "bg-green-500 text-white"
+                    : photo.type === "gate"
+                    ? "bg-violet-500 text-white"
                     : "bg-orange-500 text-white"
                 }`}>
                   {photo.type}
@@ -1,35 +1,76 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import { DollarSign } from "lucide-react";
+import { DollarSign, ChevronLeft, ChevronRight, AlertTriangle } from "lucide-react";
 import { FieldContentCard } from "@/components/portals/field/FieldContentCard";
 
-interface PayrollEntry {
-  id: string;
+interface PayrollLineItem {
+  type: string;
+  description: string;
+  quantity: number | null;
+  rateCents: number | null;
+  amountCents: number;
+}
+
+interface PayrollDay {
   date: string;
-  hoursWorked: number;
-  rate: number;
-  amount: number;
-  status: "PENDING" | "PAID";
+  workedMinutes: number;
+  overtimeMinutes: number;
+  miles: number;
+  jobsCompleted: number;
+}
+
+interface PayrollStatement {
+  workedHours: number | null;
+  regularHours: number | null;
+  overtimeHours: number | null;
+  miles: number | null;
+  jobsCompleted: number | null;
+  revenueCents: number | null;
+  hasIncompleteShifts: boolean;
+  lineItems: PayrollLineItem[];
+  days: PayrollDay[];
+  totalCents: number;
+}
+
+interface PayPeriod {
+  start: string;
+  end: string;
+  offset: number;
 }
 
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+
 export default function PayrollReportPage() {
   const [loading, setLoading] = useState(true);
-  const [entries, setEntries] = useState<PayrollEntry[]>([]);
+  const [enabled, setEnabled] = useState(true);
+  const [offset, setOffset] = useState(0);
+  const [period, setPeriod] = useState<PayPeriod | null>(null);
+  const [statement, setStatement] = useState<PayrollStatement | null>(null);
 
   const fetchPayroll = useCallback(async () => {
+    setLoading(true);
     try {
-      const res = await fetch("/api/field/payroll/report");
+      const res = await fetch(`/api/field/payroll/report?offset=${offset}`);
       if (res.ok) {
         const data = await res.json();
-        setEntries(data.entries || []);
+        setEnabled(data.enabled !== false);
+        setPeriod(data.period);
+        setStatement(data.statement);
       }
     } catch (err) {
       console.error("Error fetching payroll:", err);
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [offset]);
 
   useEffect(() => {
     fetchPayroll();
@@ -43,47 +84,127 @@ export default function PayrollReportPage() {
     );
   }
 
+  const stats = statement
+    ? [
+        { label: "Hours Worked", value: statement.workedHours?.toFixed(2) },
+        { label: "Overtime", value: statement.overtimeHours?.toFixed(2) },
+        { label: "Yards", value: statement.jobsCompleted?.toString() },
+        { label: "Miles", value: statement.miles?.toFixed(1) },
+      ].filter((s) => s.value !== undefined)
+    : [];
+
   return (
     <FieldContentCard className="mt-4">
       {/* Header */}
       <div className="bg-gradient-to-r from-teal-50 to-cyan-50 -mx-4 -mt-4 px-4 py-4 rounded-t-xl mb-4">
         <h2 className="text-lg font-semibold text-gray-900">Payroll Report</h2>
+        {period && (
+          <div className="flex items-center justify-between mt-2">
+            <button
+              onClick={() => setOffset(offset - 1)}
+              className="p-1 text-gray-500 hover:text-gray-700"
+              title="Previous pay period"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <span className="text-sm text-gray-600">
+              {formatDate(period.start)} – {formatDate(period.end)}
+            </span>
+            <button
+              onClick={() => setOffset(offset + 1)}
+              disabled={offset >= 0}
+              className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+              title="Next pay period"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+          </div>
+        )}
       </div>
 
-      {entries.length === 0 ? (
+      {!enabled ? (
+        <div className="py-12 text-center">
+          <DollarSign className="w-16 h-16 mx-auto text-gray-300 mb-4" />
+          <p className="text-gray-600">Payroll is not available in the app</p>
+          <p className="text-sm text-gray-400 mt-1">Ask the office for your pay statement</p>
+        </div>
+      ) : !statement ? (
         <div className="py-12 text-center">
           <DollarSign className="w-16 h-16 mx-auto text-gray-300 mb-4" />
           <p className="text-gray-600">No payroll entries found</p>
         </div>
       ) : (
-        <div className="space-y-4">
-          {entries.map((entry) => (
-            <div
-              key={entry.id}
-              className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
-            >
-              <div>
-                <p className="font-medium text-gray-900">{entry.date}</p>
-                <p className="text-sm text-gray-500">
-                  {entry.hoursWorked} hours @ ${entry.rate.toFixed(2)}/hr
-                </p>
+        <div className="space-y-6">
+          {statement.hasIncompleteShifts && (
+            <div className="flex items-center gap-2 p-3 bg-yellow-50 text-yellow-800 rounded-lg text-sm">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              A shift in this period has no clock-out and is not counted yet.
+            </div>
+          )}
+
+          {stats.length > 0 && (
+            <div className="grid grid-cols-2 gap-3">
+              {stats.map((stat) => (
+                <div key={stat.label} className="bg-gray-50 rounded-lg p-3">
+                  <p className="text-xs text-gray-500 uppercase">{stat.label}</p>
+                  <p className="text-2xl font-bold text-teal-600">{stat.value}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Line items */}
+          <div className="space-y-2">
+            {statement.lineItems.map((item) => (
+              <div
+                key={item.type}
+                className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
+              >
+                <div>
+                  <p className="font-medium text-gray-900">{item.description}</p>
+                  {(item.quantity !== null || item.rateCents !== null) && (
+                    <p className="text-sm text-gray-500">
+                      {item.quantity !== null && item.quantity}
+                      {item.quantity !== null && item.rateCents !== null && " @ "}
+                      {item.rateCents !== null && formatCents(item.rateCents)}
+                    </p>
+                  )}
+                </div>
+                <p className="font-semibold text-gray-900">{formatCents(item.amountCents)}</p>
               </div>
-              <div className="text-right">
-                <p className="font-semibold text-gray-900">
-                  ${entry.amount.toFixed(2)}
-                </p>
-                <span
-                  className={`text-xs px-2 py-0.5 rounded ${
-                    entry.status === "PAID"
-                      ? "bg-green-100 text-green-700"
-                      : "bg-yellow-100 text-yellow-700"
-                  }`}
-                >
-                  {entry.status}
-                </span>
+            ))}
+            <div className="flex items-center justify-between px-3 pt-2 border-t border-gray-200">
+              <p className="font-semibold text-gray-900">Total</p>
+              <p className="text-lg font-bold text-teal-600">{formatCents(statement.totalCents)}</p>
+            </div>
+          </div>
+
+          {/* Daily breakdown */}
+          {statement.days.length > 0 && (
+            <div>
+              <h3 className="font-semibold text-gray-900 mb-2">Daily Breakdown</h3>
+              <div className="divide-y divide-gray-100">
+                {statement.days.map((day) => (
+                  <div key={day.date} className="flex items-center justify-between py-2 text-sm">
+                    <span className="text-gray-900">{formatDate(day.date)}</span>
+                    <span className="text-gray-500">
+                      {[
+                        statement.workedHours !== null &&
+                          `${(day.workedMinutes / 60).toFixed(2)} h` +
+                            (day.overtimeMinutes > 0
+                              ? ` (${(day.overtimeMinutes / 60).toFixed(2)} OT)`
+                              : ""),
+                        statement.jobsCompleted !== null &&
+                          `${day.jobsCompleted} yard${day.jobsCompleted !== 1 ? "s" : ""}`,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </span>
+                  </div>
+                ))}
               </div>
             </div>
-          ))}
+          )}
         </div>
       )}
     </FieldContentCard>
@@ -14,6 +14,7 @@ interface Review {
 }
 
 interface ReviewsData {
+  hidden: boolean;
   averageRating: number;
   totalCount: number;
   reviews: Review[];
@@ -40,6 +41,7 @@ function StarRating({ rating, size = "sm" }: { rating: number; size?: "sm" | "lg
 export default function ClientReviewsPage() {
   const [loading, setLoading] = useState(true);
   const [reviewsData, setReviewsData] = useState<ReviewsData>({
+    hidden: false,
     averageRating: 5.0,
     totalCount: 0,
     reviews: [],
@@ -51,6 +53,7 @@ export default function ClientReviewsPage() {
       if (res.ok) {
         const data = await res.json();
         setReviewsData({
+          hidden: !!data.hidden,
           averageRating: data.averageRating || 5.0,
           totalCount: data.totalCount || 0,
           reviews: data.reviews || [],
@@ -75,6 +78,18 @@ export default function ClientReviewsPage() {
     );
   }
 
+  if (reviewsData.hidden) {
+    return (
+      <div className="space-y-4 mt-4">
+        <FieldContentCard>
+          <div className="py-8 text-center text-gray-500">
+            Client ratings aren&apos;t shared in the field app.
+          </div>
+        </FieldContentCard>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-4 mt-4">
       {/* Rating Summary Card */}
@@ -5,6 +5,8 @@ import { useParams, useRouter } from "next/navigation";
 import { DogWarningBanner } from "@/components/portals/field/DogWarningBanner";
 import { JobActionButtons } from "@/components/portals/field/JobActionButtons";
 import { OnTheWayButton } from "@/components/portals/field/OnTheWayButton";
+import { StationChecklist, type StationChecklistValue } from "@/components/portals/field/StationChecklist";
+import { getPendingJobStatuses, submitFieldAction } from "@/lib/pwa/field-outbox";
 import {
   ArrowLeft,
   MapPin,
@@ -16,6 +18,8 @@ import {
   Dog,
   Camera,
   Clock,
+  StickyNote,
+  Users,
 } from "lucide-react";
 import Link from "next/link";
 
@@ -40,10 +44,17 @@ interface JobDetails {
   photos: Array<{ id: string; type: string }>;
   startedAt: string | null;
   completedAt: string | null;
+  assignedTo: string | null;
+  splitIndex: number | null;
+  splitCount: number | null;
+  crew: Array<{ userId: string; name: string; role: "LEAD" | "HELPER" }>;
+  stationChecklist: Omit<StationChecklistValue, "notes"> & { notes: string | null } | null;
+  lastStationsTotal: number | null;
   client: {
     id: string;
     firstName: string | null;
     lastName: string | null;
+    clientType: "RESIDENTIAL" | "COMMERCIAL";
     phone: string | null;
     email: string | null;
   } | null;
@@ -73,6 +84,10 @@ export default function StopDetailPage() {
   const [error, setError] = useState<string | null>(null);
   const [job, setJob] = useState<JobDetails | null>(null);
   const [jobStatus, setJobStatus] = useState<string>("");
+  const [notes, setNotes] = useState("");
+  const [savingNotes, setSavingNotes] = useState(false);
+  const [notesMessage, setNotesMessage] = useState<string | null>(null);
+  const [stations, setStations] = useState<StationChecklistValue | null>(null);
 
   const fetchStop = useCallback(async () => {
     try {
@@ -96,8 +111,23 @@ export default function StopDetailPage() {
       const jobData = await jobRes.json();
 
       if (jobRes.ok) {
+        // Show actions still waiting in the offline outbox over the server status
+        const pending = await getPendingJobStatuses();
         setJob(jobData.job);
-        setJobStatus(jobData.job.status);
+        setJobStatus(pending[jobData.job.id] || jobData.job.status);
+        setNotes(jobData.job.internalNotes || "");
+        if (jobData.job.client?.clientType === "COMMERCIAL") {
+          const saved = jobData.job.stationChecklist;
+          setStations(saved
+            ? { ...saved, notes: saved.notes || "" }
+            : {
+                stationsTotal: jobData.job.lastStationsTotal || 0,
+                stationsServiced: 0,
+                bagsRestocked: 0,
+                cansEmptied: 0,
+                notes: "",
+              });
+        }
       } else {
         setError(jobData.error || "Failed to load job details");
       }
@@ -113,6 +143,16 @@ export default function StopDetailPage() {
     fetchStop();
   }, [fetchStop]);
 
+  // The office changed this job while we were offline: show what it is now
+  const jobId = job?.id;
+  useEffect(() => {
+    const handleConflict = (e: Event) => {
+      if ((e as CustomEvent).detail?.jobId === jobId) fetchStop();
+    };
+    window.addEventListener("field-sync-conflict", handleConflict);
+    return () => window.removeEventListener("field-sync-conflict", handleConflict);
+  }, [jobId, fetchStop]);
+
   const handleStatusChange = (newStatus: string) => {
     setJobStatus(newStatus);
     if (newStatus === "COMPLETED" || newStatus === "SKIPPED") {
@@ -121,6 +161,33 @@ export default function StopDetailPage() {
     }
   };
 
+  const clientName = job?.client
+    ? `${job.client.firstName || ""} ${job.client.lastName || ""}`.trim()
+    : "Job Details";
+
+  const saveNotes = async () => {
+    if (!job) return;
+    setSavingNotes(true);
+    setNotesMessage(null);
+    try {
+      const result = await submitFieldAction({
+        kind: "notes",
+        jobId: job.id,
+        label: `Notes · ${clientName}`,
+        payload: { notes },
+      });
+      setNotesMessage(
+        result.state === "synced"
+          ? "Notes saved"
+          : result.state === "queued"
+          ? "Saved offline - will sync when connected"
+          : result.error || "Failed to save notes"
+      );
+    } finally {
+      setSavingNotes(false);
+    }
+  };
+
   const openMaps = () => {
     if (!job?.location) return;
     const address = encodeURIComponent(
@@ -159,6 +226,7 @@ export default function StopDetailPage() {
   }
 
   const hasUnsafeDogs = job.dogs.some((dog) => !dog.isSafe);
+  const jobBase = { scheduledDate: job.scheduledDate, assignedTo: job.assignedTo };
 
   return (
     <div className="space-y-4 pb-24">
@@ -172,10 +240,13 @@ export default function StopDetailPage() {
         </Link>
         <div className="flex-1">
           <h1 className="text-xl font-bold text-gray-900">
-            {job.client
-              ? `${job.client.firstName || ""} ${job.client.lastName || ""}`.trim()
-              : "Job Details"}
+            {clientName}
           </h1>
+          {job.splitCount && (
+            <p className="text-xs font-medium text-indigo-600">
+              Part {job.splitIndex} of {job.splitCount}
+            </p>
+          )}
           {job.scheduledTimeStart && (
             <p className="text-sm text-gray-500 flex items-center gap-1">
               <Clock className="w-4 h-4" />
@@ -186,6 +257,19 @@ export default function StopDetailPage() {
         </div>
       </div>
 
+      {/* Crew */}
+      {job.crew.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm p-4 flex items-start gap-3">
+          <Users className="w-5 h-5 text-gray-400 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="text-sm font-medium text-gray-700">Crew</p>
+            <p className="text-sm text-gray-600">
+              {job.crew.map((m) => (m.role === "LEAD" ? `${m.name} (lead)` : m.name)).join(", ")}
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Dog Warning */}
       {hasUnsafeDogs && <DogWarningBanner dogs={job.dogs} />}
 
@@ -326,6 +410,45 @@ export default function StopDetailPage() {
         </div>
       )}
 
+      {/* Notes for the office */}
+      {jobStatus !== "SCHEDULED" && (
+        <div className="bg-white rounded-xl shadow-sm p-4">
+          <div className="flex items-center gap-2 mb-2">
+            <StickyNote className="w-5 h-5 text-gray-400" />
+            <h3 className="font-semibold text-gray-900">Notes for the Office</h3>
+          </div>
+          <textarea
+            value={notes}
+            onChange={(e) => {
+              setNotes(e.target.value);
+              setNotesMessage(null);
+            }}
+            placeholder="Anything the office should know about this visit..."
+            className="w-full px-3 py-2 rounded-lg border border-gray-300 text-sm focus:ring-teal-500 focus:border-teal-500"
+            rows={3}
+          />
+          <div className="flex items-center justify-between mt-2">
+            <p className="text-xs text-gray-500">{notesMessage}</p>
+            <button
+              onClick={saveNotes}
+              disabled={savingNotes || notes === (job.internalNotes || "")}
+              className="px-4 py-2 rounded-lg text-sm font-medium text-white bg-teal-600 disabled:opacity-50"
+            >
+              {savingNotes ? "Saving..." : "Save Notes"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Commercial station checklist, sent with the completion */}
+      {stations && (jobStatus === "IN_PROGRESS" || jobStatus === "COMPLETED") && (
+        <StationChecklist
+          value={stations}
+          onChange={setStations}
+          disabled={jobStatus === "COMPLETED"}
+        />
+      )}
+
       {/* Photos link */}
       {jobStatus === "IN_PROGRESS" && (
         <Link
@@ -354,6 +477,8 @@ export default function StopDetailPage() {
           <OnTheWayButton
             jobId={job.id}
             status={jobStatus}
+            base={jobBase}
+            label={clientName}
             onSent={() => setJobStatus("EN_ROUTE")}
           />
 
@@ -361,6 +486,9 @@ export default function StopDetailPage() {
           <JobActionButtons
             jobId={job.id}
             status={jobStatus}
+            base={jobBase}
+            label={clientName}
+            completePayload={stations ? { stations } : undefined}
             onStatusChange={handleStatusChange}
           />
         </div>
@@ -4,9 +4,12 @@ import { useState, useEffect, useCallback } from "react";
 import { useParams } from "next/navigation";
 import { PhotoCapture } from "@/components/portals/field/PhotoCapture";
 import { PhotoQueue } from "@/components/portals/field/PhotoQueue";
+import { discardFieldItem } from "@/lib/pwa/field-outbox";
 import { ArrowLeft, Camera, Plus, Trash2, Image as ImageIcon } from "lucide-react";
 import Link from "next/link";
 
+type PhotoType = "before" | "after" | "gate" | "issue";
+
 interface Photo {
   id: string;
   url: string;
@@ -23,7 +26,7 @@ export default function PhotosPage() {
   const [photos, setPhotos] = useState<Photo[]>([]);
   const [jobId, setJobId] = useState<string | null>(null);
   const [showCapture, setShowCapture] = useState(false);
-  const [captureType, setCaptureType] = useState<"before" | "after" | "issue">("after");
+  const [captureType, setCaptureType] = useState<PhotoType>("after");
   const [deleting, setDeleting] = useState<string | null>(null);
 
   const fetchPhotos = useCallback(async () => {
@@ -84,6 +87,12 @@ export default function PhotosPage() {
 
     setDeleting(photoId);
     try {
+      // A photo still waiting in the offline outbox is just dropped from it
+      if (await discardFieldItem(photoId)) {
+        setPhotos((prev) => prev.filter((p) => p.id !== photoId));
+        return;
+      }
+
       const res = await fetch(`/api/field/job/${jobId}/photos?photoId=${photoId}`, {
         method: "DELETE",
       });
@@ -102,7 +111,7 @@ export default function PhotosPage() {
     }
   };
 
-  const startCapture = (type: "before" | "after" | "issue") => {
+  const startCapture = (type: PhotoType) => {
     setCaptureType(type);
     setShowCapture(true);
   };
@@ -130,6 +139,7 @@ export default function PhotosPage() {
   // Group photos by type
   const beforePhotos = photos.filter((p) => p.type === "before");
   const afterPhotos = photos.filter((p) => p.type === "after");
+  const gatePhotos = photos.filter((p) => p.type === "gate");
   const issuePhotos = photos.filter((p) => p.type === "issue");
 
   return (
@@ -159,7 +169,7 @@ export default function PhotosPage() {
       )}
 
       {/* Quick capture buttons */}
-      <div className="grid grid-cols-3 gap-2">
+      <div className="grid grid-cols-4 gap-2">
         <button
           onClick={() => startCapture("before")}
           className="bg-blue-100 text-blue-700 py-3 px-4 rounded-xl font-medium flex flex-col items-center gap-1"
@@ -174,6 +184,13 @@ export default function PhotosPage() {
           <Camera className="w-5 h-5" />
           <span className="text-xs">After</span>
         </button>
+        <button
+          onClick={() => startCapture("gate")}
+          className="bg-violet-100 text-violet-700 py-3 px-4 rounded-xl font-medium flex flex-col items-center gap-1"
+        >
+          <Camera className="w-5 h-5" />
+          <span className="text-xs">Gate</span>
+        </button>
         <button
           onClick={() => startCapture("issue")}
           className="bg-orange-100 text-orange-700 py-3 px-4 rounded-xl font-medium flex flex-col items-center gap-1"
@@ -203,6 +220,16 @@ export default function PhotosPage() {
         deleting={deleting}
       />
 
+      {/* Gate Closed Photos */}
+      <PhotoSection
+        title="Gate Closed"
+        photos={gatePhotos}
+        type="gate"
+        onAdd={() => startCapture("gate")}
+        onDelete={handleDelete}
+        deleting={deleting}
+      />
+
       {/* Issue Photos */}
       <PhotoSection
         title="Issue Photos"
@@ -254,8 +281,8 @@ function PhotoSection({
     return null;
   }
 
-  const bgColor = type === "before" ? "bg-blue-50" : type === "after" ? "bg-green-50" : "bg-orange-50";
-  const textColor = type === "before" ? "text-blue-700" : type === "after" ? "text-green-700" : "text-orange-700";
+  const bgColor = type === "before" ? "bg-blue-50" : type === "after" ? "bg-green-50" : type === "gate" ? "bg-violet-50" : "bg-orange-50";
+  const textColor = type === "before" ? "text-blue-700" : type === "after" ? "text-green-700" : type === "gate" ? "text-violet-700" : "text-orange-700";
 
   return (
     <div className="bg-white rounded-xl shadow-sm p-4">
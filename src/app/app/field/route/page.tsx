@@ -5,6 +5,7 @@ import { StopCard } from "@/components/portals/field/StopCard";
 import { RouteStaticMap } from "@/components/portals/field/RouteStaticMap";
 import { ArrowLeft, MapPin, RefreshCw, CheckCircle, Clock, XCircle } from "lucide-react";
 import Link from "next/link";
+import { getPendingJobStatuses } from "@/lib/pwa/field-outbox";
 
 interface Dog {
   id: string;
@@ -53,6 +54,33 @@ interface Stats {
   remaining: number;
   inProgress: number;
   enRoute: number;
+  onHold: number;
+}
+
+/**
+ * Apply job actions still waiting in the offline outbox, so the list and
+ * counts reflect what the tech has done rather than what has synced.
+ */
+function withPendingStatuses(stops: Stop[], stats: Stats, pending: Record<string, string>) {
+  if (Object.keys(pending).length === 0) return { stops, stats };
+
+  const merged = stops.map((stop) =>
+    stop.job && pending[stop.job.id] && stop.job.status !== "ON_HOLD"
+      ? { ...stop, job: { ...stop.job, status: pending[stop.job.id] } }
+      : stop
+  );
+  const statuses = merged.map((s) => s.job?.status).filter((s) => s && s !== "ON_HOLD");
+  return {
+    stops: merged,
+    stats: {
+      ...stats,
+      completed: statuses.filter((s) => s === "COMPLETED").length,
+      skipped: statuses.filter((s) => s === "SKIPPED").length,
+      inProgress: statuses.filter((s) => s === "IN_PROGRESS").length,
+      enRoute: statuses.filter((s) => s === "EN_ROUTE").length,
+      remaining: statuses.filter((s) => s === "SCHEDULED" || s === "EN_ROUTE").length,
+    },
+  };
 }
 
 export default function RoutePage() {
@@ -61,7 +89,7 @@ export default function RoutePage() {
   const [error, setError] = useState<string | null>(null);
   const [route, setRoute] = useState<Route | null>(null);
   const [stops, setStops] = useState<Stop[]>([]);
-  const [stats, setStats] = useState<Stats>({ total: 0, completed: 0, skipped: 0, remaining: 0, inProgress: 0, enRoute: 0 });
+  const [stats, setStats] = useState<Stats>({ total: 0, completed: 0, skipped: 0, remaining: 0, inProgress: 0, enRoute: 0, onHold: 0 });
 
   const fetchRoute = useCallback(async (isRefresh = false) => {
     if (isRefresh) setRefreshing(true);
@@ -71,9 +99,14 @@ export default function RoutePage() {
       const data = await res.json();
 
       if (res.ok) {
+        const merged = withPendingStatuses(
+          data.stops || [],
+          data.stats || { total: 0, completed: 0, skipped: 0, remaining: 0, inProgress: 0, enRoute: 0, onHold: 0 },
+          await getPendingJobStatuses()
+        );
         setRoute(data.route);
-        setStops(data.stops || []);
-        setStats(data.stats || { total: 0, completed: 0, skipped: 0, remaining: 0, inProgress: 0, enRoute: 0 });
+        setStops(merged.stops);
+        setStats(merged.stats);
       } else {
         setError(data.error || "Failed to load route");
       }
@@ -90,9 +123,9 @@ export default function RoutePage() {
     fetchRoute();
   }, [fetchRoute]);
 
-  // Find the next stop (first non-completed, non-skipped)
+  // Find the next stop (first non-completed, non-skipped, not on hold)
   const nextStop = stops.find(
-    (stop) => stop.job && !["COMPLETED", "SKIPPED"].includes(stop.job.status)
+    (stop) => stop.job && !["COMPLETED", "SKIPPED", "ON_HOLD"].includes(stop.job.status)
   );
 
   if (loading) {
@@ -177,6 +210,12 @@ export default function RoutePage() {
             </p>
           </div>
         )}
+
+        {stats.onHold > 0 && (
+          <p className="text-xs text-indigo-600 mt-2 text-center">
+            {stats.onHold} stop{stats.onHold !== 1 ? "s" : ""} on vacation hold – no service today
+          </p>
+        )}
       </div>
 
       {/* Route Map */}
@@ -12,6 +12,7 @@ import {
   Eye,
   AlertCircle,
   FileText,
+  Zap,
 } from "lucide-react";
 
 interface Client {
@@ -33,6 +34,15 @@ interface ChangeRequest {
   currentValue: Record<string, unknown> | null;
   requestedValue: Record<string, unknown> | null;
   resolutionNotes: string | null;
+  source: "OFFICE" | "CLIENT";
+  subscriptionId: string | null;
+  /** Typed request that can be applied to the account automatically */
+  canApply: boolean;
+  /** An apply never finished; the office checks the account and resolves it */
+  needsManualResolution: boolean;
+  applyResult: ApplyResult | null;
+  applyError: string | null;
+  appliedAt: string | null;
   createdAt: string;
   updatedAt: string;
   resolvedAt: string | null;
@@ -45,6 +55,29 @@ interface ChangeRequest {
   } | null;
 }
 
+interface ApplyResult {
+  changes: Array<{
+    entityType: string;
+    entityId: string;
+    before: Record<string, unknown> | null;
+    after: Record<string, unknown> | null;
+  }>;
+  priceBeforeCents: number | null;
+  priceAfterCents: number | null;
+  jobsVoided: number;
+  jobsGenerated: number;
+  jobsRepriced: number;
+  prorationCents?: number | null;
+}
+
+interface ProrationPreview {
+  applies: boolean;
+  reason: string | null;
+  effectiveDate: string;
+  amountCents: number;
+  description: string;
+}
+
 interface RequestType {
   value: string;
   label: string;
@@ -95,6 +128,9 @@ export default function ChangeRequestsPage() {
   const [showDetailModal, setShowDetailModal] = useState(false);
   const [updating, setUpdating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [proration, setProration] = useState<ProrationPreview | null>(null);
+  const [prorationLoading, setProrationLoading] = useState(false);
 
   const fetchChangeRequests = useCallback(async () => {
     setLoading(true);
@@ -163,9 +199,55 @@ export default function ChangeRequestsPage() {
     }
   };
 
+  const handleApply = async (request: ChangeRequest) => {
+    setUpdating(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch("/api/admin/change-requests", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: request.id, action: "apply" }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        setNotice(`Applied: ${request.title}. ${describeApplyResult(data.result)}`);
+        setShowDetailModal(false);
+        setSelectedRequest(null);
+      } else {
+        setError(data.error || "Failed to apply change request");
+      }
+      fetchChangeRequests();
+    } catch (err) {
+      console.error("Error applying change request:", err);
+      setError("Failed to apply change request");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const fetchProration = async (id: string) => {
+    setProrationLoading(true);
+    try {
+      const res = await fetch(`/api/admin/change-requests?previewId=${id}`);
+      const data = await res.json();
+      setProration(res.ok ? data.proration : null);
+    } catch (err) {
+      console.error("Error previewing proration:", err);
+      setProration(null);
+    } finally {
+      setProrationLoading(false);
+    }
+  };
+
   const openDetailModal = (request: ChangeRequest) => {
     setSelectedRequest(request);
     setShowDetailModal(true);
+    setProration(null);
+    if (request.canApply) {
+      fetchProration(request.id);
+    }
   };
 
   const formatDate = (dateString: string) => {
@@ -203,6 +285,13 @@ export default function ChangeRequestsPage() {
         </div>
       )}
 
+      {notice && (
+        <div className="flex items-center gap-2 p-4 bg-green-50 text-green-700 rounded-lg">
+          <Check className="w-5 h-5 flex-shrink-0" />
+          {notice}
+        </div>
+      )}
+
       {/* Filters */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-4">
         <div className="flex flex-wrap items-end gap-4">
@@ -335,6 +424,17 @@ export default function ChangeRequestsPage() {
                           {request.requestTypeDisplay}
                         </p>
                         <p className="text-xs text-gray-500">{request.title}</p>
+                        {request.source === "CLIENT" && (
+                          <span className="inline-block mt-1 px-1.5 py-0.5 rounded bg-teal-50 text-teal-700 text-[10px] font-medium">
+                            Client portal
+                          </span>
+                        )}
+                        {request.applyError && request.canApply && (
+                          <p className="text-xs text-red-600 mt-1">Last apply failed: {request.applyError}</p>
+                        )}
+                        {request.needsManualResolution && (
+                          <p className="text-xs text-red-600 mt-1">Apply never finished: check the account and resolve by hand</p>
+                        )}
                       </div>
                     </td>
                     <td className="px-4 py-3 text-right">
@@ -346,7 +446,17 @@ export default function ChangeRequestsPage() {
                         >
                           <Eye className="w-4 h-4" />
                         </button>
-                        {request.status === "OPEN" && (
+                        {request.canApply && (
+                          <button
+                            onClick={() => handleApply(request)}
+                            disabled={updating}
+                            className="p-2 text-teal-600 hover:text-teal-700 hover:bg-teal-50 rounded-lg disabled:opacity-50"
+                            title="Approve & Apply"
+                          >
+                            <Zap className="w-4 h-4" />
+                          </button>
+                        )}
+                        {(request.status === "OPEN" || request.needsManualResolution) && (
                           <>
                             <button
                               onClick={() => handleStatusChange(request.id, "COMPLETED")}
@@ -459,7 +569,7 @@ export default function ChangeRequestsPage() {
                   className={`px-2.5 py-1 rounded-full text-xs font-medium ${
                     selectedRequest.status === "OPEN"
                       ? "bg-blue-100 text-blue-700"
-                      : selectedRequest.status === "IN_PROGRESS"
+                      : selectedRequest.status === "IN_PROGRESS" || selectedRequest.status === "APPLYING"
                       ? "bg-yellow-100 text-yellow-700"
                       : selectedRequest.status === "COMPLETED"
                       ? "bg-green-100 text-green-700"
@@ -468,8 +578,30 @@ export default function ChangeRequestsPage() {
                 >
                   {selectedRequest.status}
                 </span>
+                {selectedRequest.source === "CLIENT" && (
+                  <span className="px-2.5 py-1 rounded-full text-xs font-medium bg-teal-50 text-teal-700">
+                    From client portal
+                  </span>
+                )}
               </div>
 
+              {selectedRequest.applyError && selectedRequest.status !== "COMPLETED" && (
+                <div className="flex items-start gap-2 p-3 bg-red-50 text-red-700 rounded-lg text-sm">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                  <span>Last apply attempt failed: {selectedRequest.applyError}</span>
+                </div>
+              )}
+
+              {selectedRequest.needsManualResolution && (
+                <div className="flex items-start gap-2 p-3 bg-red-50 text-red-700 rounded-lg text-sm">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                  <span>
+                    An apply of this request never finished and some of it may already be on the account.
+                    Check the client&apos;s account, finish the change by hand, then mark it complete or dismiss it.
+                  </span>
+                </div>
+              )}
+
               {/* Request Info */}
               <div>
                 <h3 className="text-sm font-medium text-gray-500">Request Type</h3>
@@ -521,6 +653,27 @@ export default function ChangeRequestsPage() {
                 </div>
               )}
 
+              {/* What applying changed */}
+              {selectedRequest.applyResult && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-500">Applied Changes</h3>
+                  <p className="text-sm text-gray-700 mb-2">{describeApplyResult(selectedRequest.applyResult)}</p>
+                  <div className="space-y-2">
+                    {selectedRequest.applyResult.changes.map((change) => (
+                      <div key={`${change.entityType}-${change.entityId}`} className="text-sm bg-gray-50 p-2 rounded">
+                        <p className="font-medium text-gray-700">{formatEntityType(change.entityType)}</p>
+                        {Object.keys({ ...(change.before || {}), ...(change.after || {}) }).map((key) => (
+                          <p key={key} className="text-gray-600">
+                            <span className="text-gray-500">{key}:</span>{" "}
+                            {formatValue(change.before?.[key])} &rarr; {formatValue(change.after?.[key])}
+                          </p>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Dates */}
               <div className="grid grid-cols-2 gap-4">
                 <div>
@@ -551,7 +704,39 @@ export default function ChangeRequestsPage() {
             </div>
 
             {/* Actions */}
-            {selectedRequest.status === "OPEN" && (
+            {selectedRequest.canApply && (
+              <div className="px-6 pt-6 border-t border-gray-100">
+                {prorationLoading ? (
+                  <p className="text-sm text-gray-500 mb-3">Checking proration...</p>
+                ) : proration && (
+                  <div className="mb-3 p-3 bg-gray-50 rounded-lg text-sm">
+                    <p className="font-medium text-gray-700">Next invoice</p>
+                    {proration.applies ? (
+                      <>
+                        <p className={proration.amountCents > 0 ? "text-gray-900" : "text-green-700"}>
+                          {describeProration(proration.amountCents)} for the rest of the month
+                        </p>
+                        <p className="text-xs text-gray-500 mt-1">{proration.description}</p>
+                      </>
+                    ) : (
+                      <p className="text-gray-600">No proration. {proration.reason}</p>
+                    )}
+                  </div>
+                )}
+                <button
+                  onClick={() => handleApply(selectedRequest)}
+                  disabled={updating}
+                  className="w-full px-4 py-2.5 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50 font-medium flex items-center justify-center gap-2"
+                >
+                  <Zap className="w-4 h-4" />
+                  {updating ? "Applying..." : "Approve & Apply"}
+                </button>
+                <p className="text-xs text-gray-500 mt-2">
+                  Makes the change, re-prices the subscription, rebuilds upcoming visits and lets the client know.
+                </p>
+              </div>
+            )}
+            {(selectedRequest.status === "OPEN" || selectedRequest.needsManualResolution) && (
               <div className="p-6 border-t border-gray-100 flex gap-3">
                 <button
                   onClick={() => handleStatusChange(selectedRequest.id, "COMPLETED")}
@@ -577,3 +762,41 @@ export default function ChangeRequestsPage() {
     </div>
   );
 }
+
+function formatCents(cents: number | null) {
+  return cents === null ? "—" : `$${(cents / 100).toFixed(2)}`;
+}
+
+function describeProration(cents: number) {
+  return cents > 0 ? `${formatCents(cents)} charge` : `${formatCents(-cents)} credit`;
+}
+
+function describeApplyResult(result: ApplyResult) {
+  const parts: string[] = [];
+  if (result.priceBeforeCents !== result.priceAfterCents) {
+    parts.push(`Price ${formatCents(result.priceBeforeCents)} → ${formatCents(result.priceAfterCents)} per visit.`);
+  }
+  if (result.jobsVoided > 0 || result.jobsGenerated > 0) {
+    parts.push(`${result.jobsVoided} visit${result.jobsVoided === 1 ? "" : "s"} voided, ${result.jobsGenerated} scheduled.`);
+  }
+  if (result.jobsRepriced > 0) {
+    parts.push(`${result.jobsRepriced} upcoming visit${result.jobsRepriced === 1 ? "" : "s"} re-priced.`);
+  }
+  if (result.prorationCents) {
+    parts.push(`${describeProration(result.prorationCents)} on the next invoice.`);
+  }
+  return parts.join(" ") || "No price or schedule change.";
+}
+
+function formatEntityType(entityType: string) {
+  return entityType
+    .split("_")
+    .map((word) => word.charAt(0) + word.slice(1).toLowerCase())
+    .join(" ");
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
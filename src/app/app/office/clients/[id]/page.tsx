@@ -104,6 +104,39 @@ interface ClientCrossSell {
   updatedAt: string;
 }
 
+interface VacationHold {
+  id: string;
+  subscriptionId: string | null;
+  startDate: string;
+  endDate: string;
+  reason: string | null;
+  status: "ACTIVE" | "CANCELED";
+  applyCredit: boolean;
+  creditCents: number | null;
+  source: "CLIENT" | "OFFICE";
+}
+
+interface ActivityEntry {
+  id: string;
+  action: string;
+  details: Record<string, unknown>;
+  createdAt: string;
+  userName: string | null;
+}
+
+interface DunningCaseSummary {
+  id: string;
+  status: "ACTIVE" | "RESOLVED" | "CANCELED";
+  amountDueCents: number;
+  failureCount: number;
+  lastFailureReason: string | null;
+  firstFailedAt: string;
+  escalatedAt: string | null;
+  pausedAt: string | null;
+  resolvedAt: string | null;
+  resolution: string | null;
+}
+
 interface VendorOption {
   id: string;
   name: string;
@@ -225,6 +258,21 @@ interface Client {
   clientType: "RESIDENTIAL" | "COMMERCIAL";
   status: ClientStatus;
   accountCreditCents: number;
+  taxExempt: boolean;
+  salesTax: {
+    location: { zipCode: string | null; city: string | null; state: string | null } | null;
+    rates: Array<{ category: "SERVICE_PLAN" | "ADD_ON" | "CROSS_SELL" | "GIFT_CARD"; jurisdiction: string | null; ratePercent: number }>;
+  } | null;
+  credit: { giftCents: number; referralCents: number; goodwillCents: number; totalCents: number };
+  creditActivity: Array<{
+    id: string;
+    createdAt: string;
+    amountCents: number;
+    tier: "GIFT" | "REFERRAL" | "GOODWILL";
+    invoiceId: string | null;
+    invoiceNumber: string | null;
+    reversed: boolean;
+  }>;
   tags: string[];
   notes: string | null;
   referralSource: string | null;
@@ -289,6 +337,42 @@ function formatDate(dateStr: string) {
   });
 }
 
+// "DUNNING_REMINDER_SENT" -> "Dunning Reminder Sent"
+function formatActivityAction(action: string) {
+  return action
+    .toLowerCase()
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+function formatActivityComment(entry: ActivityEntry) {
+  const d = entry.details;
+  switch (entry.action) {
+    case "DUNNING_STARTED":
+    case "DUNNING_PAYMENT_FAILED":
+      return [typeof d.amountDueCents === "number" ? formatCurrency(d.amountDueCents) : null, d.reason]
+        .filter(Boolean)
+        .join(" · ") || null;
+    case "DUNNING_RETRY":
+      return `Day ${d.day}: ${d.result}${d.error ? ` (${d.error})` : ""}`;
+    case "DUNNING_REMINDER_SENT":
+      return `Day ${d.day}: SMS ${d.sms}, email ${d.email}`;
+    case "DUNNING_ESCALATED":
+      return `Day ${d.day}: office notified`;
+    case "DUNNING_SUBSCRIPTION_PAUSED":
+      return `Day ${d.day}: ${Array.isArray(d.subscriptionIds) ? d.subscriptionIds.length : 0} subscription(s) paused`;
+    case "DUNNING_RESOLVED":
+      return `${d.resolution}${d.subscriptionsResumed ? `, ${d.subscriptionsResumed} subscription(s) resumed` : ""}`;
+    case "DUNNING_CANCELED":
+      return String(d.resolution || "");
+    case "VACATION_HOLD_CREATED":
+      return `${d.startDate} to ${d.endDate}`;
+    default:
+      return null;
+  }
+}
+
 function getStatusBadge(status: string) {
   const colors: Record<string, string> = {
     ACTIVE: "text-green-700 bg-green-100",
@@ -451,7 +535,7 @@ export default function ClientDetailPage({ params }: PageProps) {
   const [error, setError] = useState<string | null>(null);
   const [showActions, setShowActions] = useState(false);
   const [openInvoiceMenu, setOpenInvoiceMenu] = useState<string | null>(null);
-  const [billingTab, setBillingTab] = useState<"subscriptions" | "invoices" | "payments" | "cards" | "giftcerts">("subscriptions");
+  const [billingTab, setBillingTab] = useState<"subscriptions" | "invoices" | "payments" | "cards" | "giftcerts" | "credits">("subscriptions");
   const [scheduleTab, setScheduleTab] = useState<"recurring" | "initial" | "latest">("recurring");
   const [notesTab, setNotesTab] = useState<"office" | "totech" | "fromtech" | "fromclient">("office");
   const [activeDogTab, setActiveDogTab] = useState(0);
@@ -557,6 +641,19 @@ export default function ClientDetailPage({ params }: PageProps) {
   const [loadingVendors, setLoadingVendors] = useState(false);
   const [crossSellVendorLinks, setCrossSellVendorLinks] = useState<CrossSellVendorLink[]>([]);
 
+  // Vacation holds state
+  const [vacationHolds, setVacationHolds] = useState<VacationHold[]>([]);
+  const [loadingHolds, setLoadingHolds] = useState(false);
+  const [showPastHolds, setShowPastHolds] = useState(false);
+  const [showHoldModal, setShowHoldModal] = useState(false);
+  const [holdForm, setHoldForm] = useState({ startDate: "", endDate: "", reason: "", subscriptionId: "", applyCredit: false });
+  const [savingHold, setSavingHold] = useState(false);
+  const [holdCreditDefault, setHoldCreditDefault] = useState(false);
+
+  // Activity timeline state
+  const [activity, setActivity] = useState<ActivityEntry[]>([]);
+  const [dunningCases, setDunningCases] = useState<DunningCaseSummary[]>([]);
+
   const resetSubscriptionForm = () => {
     setSubscriptionForm({
       servicePlan: "",
@@ -858,7 +955,7 @@ export default function ClientDetailPage({ params }: PageProps) {
         email: client.email || "",
         homePhone: client.phone ? formatPhoneNumber(client.phone) : "",
         cellPhone: client.secondaryPhone ? formatPhoneNumber(client.secondaryPhone) : "",
-        taxExempt: false,
+        taxExempt: client.taxExempt,
       });
     } else {
       const contact = client?.contacts.find((c) => c.id === type);
@@ -893,6 +990,7 @@ export default function ClientDetailPage({ params }: PageProps) {
             email: editContactForm.email || null,
             phone: editContactForm.homePhone || null,
             secondaryPhone: editContactForm.cellPhone || null,
+            taxExempt: editContactForm.taxExempt,
           }),
         });
 
@@ -906,6 +1004,7 @@ export default function ClientDetailPage({ params }: PageProps) {
               email: editContactForm.email || null,
               phone: editContactForm.homePhone || null,
               secondaryPhone: editContactForm.cellPhone || null,
+              taxExempt: editContactForm.taxExempt,
             });
           }
           setEditingContactId(null);
@@ -1218,6 +1317,94 @@ export default function ClientDetailPage({ params }: PageProps) {
     }
   };
 
+  // === Vacation Holds ===
+  const fetchVacationHolds = async () => {
+    setLoadingHolds(true);
+    try {
+      const res = await fetch(`/api/admin/clients/${id}/vacation-holds${showPastHolds ? "?includePast=true" : ""}`);
+      if (res.ok) {
+        const data = await res.json();
+        setVacationHolds(data.holds || []);
+        setHoldCreditDefault(data.creditByDefault === true);
+      }
+    } catch (err) {
+      console.error("Error fetching vacation holds:", err);
+    } finally {
+      setLoadingHolds(false);
+    }
+  };
+
+  // === Activity ===
+  const fetchActivity = async () => {
+    try {
+      const res = await fetch(`/api/admin/clients/${id}/activity`);
+      if (res.ok) {
+        const data = await res.json();
+        setActivity(data.activity || []);
+        setDunningCases(data.dunningCases || []);
+      }
+    } catch (err) {
+      console.error("Error fetching activity:", err);
+    }
+  };
+
+  const openHoldModal = () => {
+    setHoldForm({ startDate: "", endDate: "", reason: "", subscriptionId: "", applyCredit: holdCreditDefault });
+    setShowHoldModal(true);
+  };
+
+  const handleAddHold = async () => {
+    if (!holdForm.startDate || !holdForm.endDate) return;
+
+    setSavingHold(true);
+    try {
+      const res = await fetch(`/api/admin/clients/${id}/vacation-holds`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          startDate: holdForm.startDate,
+          endDate: holdForm.endDate,
+          reason: holdForm.reason || null,
+          subscriptionId: holdForm.subscriptionId || null,
+          applyCredit: holdForm.applyCredit,
+        }),
+      });
+
+      const data = await res.json();
+      if (res.ok) {
+        setShowHoldModal(false);
+        fetchVacationHolds();
+      } else {
+        alert(data.error || "Failed to add vacation hold");
+      }
+    } catch (err) {
+      console.error("Error adding vacation hold:", err);
+      alert("Failed to add vacation hold");
+    } finally {
+      setSavingHold(false);
+    }
+  };
+
+  const handleCancelHold = async (holdId: string) => {
+    if (!confirm("Cancel this vacation hold? Held visits will go back on the schedule.")) return;
+
+    try {
+      const res = await fetch(`/api/admin/clients/${id}/vacation-holds?holdId=${holdId}`, {
+        method: "DELETE",
+      });
+
+      if (res.ok) {
+        fetchVacationHolds();
+      } else {
+        const data = await res.json();
+        alert(data.error || "Failed to cancel vacation hold");
+      }
+    } catch (err) {
+      console.error("Error canceling vacation hold:", err);
+      alert("Failed to cancel vacation hold");
+    }
+  };
+
   const fetchVendors = async () => {
     setLoadingVendors(true);
     try {
@@ -1363,6 +1550,22 @@ export default function ClientDetailPage({ params }: PageProps) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [client?.id]);
 
+  // Fetch vacation holds when client loads or the past toggle changes
+  useEffect(() => {
+    if (client) {
+      fetchVacationHolds();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [client?.id, showPastHolds]);
+
+  // Fetch the activity timeline when client loads
+  useEffect(() => {
+    if (client) {
+      fetchActivity();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [client?.id]);
+
   // Fetch payment methods when cards tab is selected
   useEffect(() => {
     if (billingTab === "cards" && client) {
@@ -1552,7 +1755,7 @@ export default function ClientDetailPage({ params }: PageProps) {
                 </div>
                 <div className="flex gap-4 py-2 border-b border-gray-100">
                   <span className="text-sm text-gray-500 min-w-[140px]">Tax Exempt</span>
-                  <span className="text-sm font-semibold text-gray-900">No</span>
+                  <span className="text-sm font-semibold text-gray-900">{client.taxExempt ? "Yes" : "No"}</span>
                 </div>
                 <div className="flex gap-4 py-2">
                   <span className="text-sm text-gray-500 min-w-[140px]">Email</span>
@@ -1666,6 +1869,7 @@ export default function ClientDetailPage({ params }: PageProps) {
               { key: "payments", label: "PAYMENTS" },
               { key: "cards", label: "CREDIT CARDS" },
               { key: "giftcerts", label: "GIFT CERTIFICATES" },
+              { key: "credits", label: "CREDITS" },
             ].map((tab) => (
               <button
                 key={tab.key}
@@ -2026,6 +2230,68 @@ export default function ClientDetailPage({ params }: PageProps) {
               </div>
             </>
           )}
+
+          {billingTab === "credits" && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                {[
+                  { label: "Gift Cards", value: client.credit?.giftCents || 0 },
+                  { label: "Referral", value: client.credit?.referralCents || 0 },
+                  { label: "Goodwill", value: client.credit?.goodwillCents || 0 },
+                  { label: "Total Available", value: client.credit?.totalCents || 0 },
+                ].map((stat) => (
+                  <div key={stat.label} className="p-3 bg-gray-50 rounded-lg">
+                    <p className="text-xs text-gray-500 uppercase">{stat.label}</p>
+                    <p className="text-lg font-semibold text-gray-900">{formatCurrency(stat.value)}</p>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mb-3">
+                Drawn down automatically on new invoices: gift cards first, then referral, then goodwill credit.
+              </p>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="pb-3 font-medium">Date</th>
+                      <th className="pb-3 font-medium">Source</th>
+                      <th className="pb-3 font-medium">Applied To</th>
+                      <th className="pb-3 font-medium">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {client.creditActivity?.length > 0 ? (
+                      client.creditActivity.map((entry) => (
+                        <tr key={entry.id} className={entry.reversed ? "text-gray-400" : ""}>
+                          <td className="py-3">{formatDate(entry.createdAt)}</td>
+                          <td className="py-3">
+                            {entry.tier === "GIFT" ? "Gift card" : entry.tier === "REFERRAL" ? "Referral" : "Goodwill"}
+                          </td>
+                          <td className="py-3">
+                            {entry.invoiceId ? (
+                              <Link href={`/app/office/invoices/${entry.invoiceId}`} className="text-teal-600 hover:text-teal-700">
+                                {entry.invoiceNumber || "Invoice"}
+                              </Link>
+                            ) : (
+                              "Office adjustment"
+                            )}
+                            {entry.reversed && " (restored)"}
+                          </td>
+                          <td className={`py-3 font-semibold ${entry.reversed ? "line-through" : ""}`}>
+                            {formatCurrency(entry.amountCents)}
+                          </td>
+                        </tr>
+                      ))
+                    ) : (
+                      <tr>
+                        <td colSpan={4} className="py-8 text-center text-gray-400">No credits applied yet</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
         </div>
       </div>
 
@@ -2236,6 +2502,86 @@ export default function ClientDetailPage({ params }: PageProps) {
         </div>
       </div>
 
+      {/* Vacation Holds */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-100">
+        <div className="p-4 border-b border-gray-100 flex items-center justify-between">
+          <h3 className="font-semibold text-gray-900">Vacation Holds</h3>
+          <label className="flex items-center gap-2 text-sm text-gray-500">
+            <input
+              type="checkbox"
+              checked={showPastHolds}
+              onChange={(e) => setShowPastHolds(e.target.checked)}
+              className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+            />
+            Show past & canceled
+          </label>
+        </div>
+        <div className="p-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="pb-3 font-medium">Dates</th>
+                <th className="pb-3 font-medium">Applies To</th>
+                <th className="pb-3 font-medium">Reason</th>
+                <th className="pb-3 font-medium">Credit</th>
+                <th className="pb-3 font-medium">Requested By</th>
+                <th className="pb-3 font-medium">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {loadingHolds ? (
+                <tr>
+                  <td colSpan={6} className="py-8 text-center text-gray-400">Loading...</td>
+                </tr>
+              ) : vacationHolds.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="py-8 text-center text-gray-400">No data available</td>
+                </tr>
+              ) : (
+                vacationHolds.map((hold) => {
+                  const sub = client.subscriptions?.find((s) => s.id === hold.subscriptionId);
+                  return (
+                    <tr key={hold.id} className={`border-b border-gray-50 ${hold.status === "CANCELED" ? "text-gray-400" : ""}`}>
+                      <td className="py-3">
+                        {formatDate(`${hold.startDate}T00:00:00`)} – {formatDate(`${hold.endDate}T00:00:00`)}
+                        {hold.status === "CANCELED" && <span className="ml-2 text-xs">(canceled)</span>}
+                      </td>
+                      <td className="py-3">{sub ? formatFrequency(sub.frequency) : "All services"}</td>
+                      <td className="py-3">{hold.reason || "—"}</td>
+                      <td className="py-3">
+                        {hold.creditCents !== null
+                          ? formatCurrency(hold.creditCents)
+                          : hold.applyCredit ? "Next invoice" : "No"}
+                      </td>
+                      <td className="py-3">{hold.source === "CLIENT" ? "Client" : "Office"}</td>
+                      <td className="py-3">
+                        {hold.status === "ACTIVE" && hold.endDate >= new Date().toISOString().split("T")[0] && (
+                          <button
+                            onClick={() => handleCancelHold(hold.id)}
+                            className="text-sm font-medium text-red-600 hover:text-red-700"
+                          >
+                            CANCEL
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+          <div className="flex justify-end mt-4">
+            <button
+              onClick={openHoldModal}
+              disabled={activeSubscriptions.length === 0}
+              className="text-sm font-medium text-teal-600 hover:text-teal-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              ADD VACATION HOLD
+            </button>
+          </div>
+        </div>
+      </div>
+
       {/* Notes */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-100">
         <div className="p-4 border-b border-gray-100">
@@ -2451,21 +2797,41 @@ export default function ClientDetailPage({ params }: PageProps) {
           <table className="w-full text-sm">
             <thead>
               <tr className="text-left text-gray-500">
-                <th className="pb-3 font-medium">Tax Name</th>
-                <th className="pb-3 font-medium">Service Percentage</th>
-                <th className="pb-3 font-medium">Product Percentage</th>
+                <th className="pb-3 font-medium">Category</th>
+                <th className="pb-3 font-medium">Jurisdiction</th>
+                <th className="pb-3 font-medium">Rate</th>
               </tr>
             </thead>
             <tbody>
-              <tr>
-                <td className="py-2 font-semibold">SALES TAX TOTAL</td>
-                <td className="py-2 font-semibold">0.000%</td>
-                <td className="py-2 font-semibold">0.000%</td>
-              </tr>
+              {client.taxExempt ? (
+                <tr>
+                  <td colSpan={3} className="py-2 font-semibold">Tax exempt, invoices are billed without sales tax</td>
+                </tr>
+              ) : (
+                (client.salesTax?.rates || []).map((rate) => (
+                  <tr key={rate.category}>
+                    <td className="py-2 font-semibold">
+                      {{ SERVICE_PLAN: "Service plan", ADD_ON: "Add-on", CROSS_SELL: "Cross-sell", GIFT_CARD: "Gift card" }[rate.category]}
+                    </td>
+                    <td className={`py-2 ${rate.jurisdiction ? "text-gray-900" : "text-gray-400"}`}>
+                      {rate.jurisdiction || "No rule"}
+                    </td>
+                    <td className="py-2 font-semibold">{rate.ratePercent.toFixed(3)}%</td>
+                  </tr>
+                ))
+              )}
             </tbody>
           </table>
-          <div className="flex justify-end mt-4">
-            <button className="text-sm font-medium text-teal-600 hover:text-teal-700">EDIT</button>
+          <div className="flex justify-end gap-4 mt-4">
+            <button
+              onClick={() => handleEditContact("primary")}
+              className="text-sm font-medium text-teal-600 hover:text-teal-700"
+            >
+              TAX EXEMPT
+            </button>
+            <Link href="/app/office/settings/sales-tax" className="text-sm font-medium text-teal-600 hover:text-teal-700">
+              TAX RULES
+            </Link>
           </div>
         </div>
       </div>
@@ -2498,6 +2864,20 @@ export default function ClientDetailPage({ params }: PageProps) {
           <h3 className="font-semibold text-gray-900">Activity</h3>
         </div>
         <div className="p-4">
+          {dunningCases
+            .filter((c) => c.status === "ACTIVE")
+            .map((c) => (
+              <div key={c.id} className="mb-4 p-3 bg-orange-50 border border-orange-200 rounded-md text-sm text-orange-800">
+                <span className="font-semibold">Payment failing:</span> {formatCurrency(c.amountDueCents)} unpaid since{" "}
+                {formatDate(c.firstFailedAt)} after {c.failureCount} failed attempt{c.failureCount === 1 ? "" : "s"}
+                {c.lastFailureReason ? ` (${c.lastFailureReason})` : ""}.
+                {c.pausedAt
+                  ? " Service is paused until the invoice is paid."
+                  : c.escalatedAt
+                    ? " Escalated to the office."
+                    : " Automatic reminders and retries are running."}
+              </div>
+            ))}
           <table className="w-full text-sm">
             <thead>
               <tr className="text-left text-gray-500">
@@ -2509,6 +2889,15 @@ export default function ClientDetailPage({ params }: PageProps) {
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-100">
+              {activity.map((entry) => (
+                <tr key={entry.id}>
+                  <td className="py-3 font-semibold">{formatActivityAction(entry.action)}</td>
+                  <td className="py-3 font-semibold">{entry.userName || "System"}</td>
+                  <td className="py-3 font-semibold">{entry.action === "DUNNING_RETRY" && entry.details.result !== "paid" ? "Failed" : "Done"}</td>
+                  <td className="py-3 font-semibold text-gray-500">{formatActivityComment(entry) || <span className="text-gray-400">No Data</span>}</td>
+                  <td className="py-3 font-semibold">{formatDate(entry.createdAt)}</td>
+                </tr>
+              ))}
               <tr>
                 <td className="py-3 font-semibold">Client Created</td>
                 <td className="py-3 font-semibold">System</td>
@@ -3408,6 +3797,106 @@ export default function ClientDetailPage({ params }: PageProps) {
         </div>
       )}
 
+      {/* Vacation Hold Modal */}
+      {showHoldModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4">
+            <div className="p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                Add Vacation Hold
+              </h2>
+
+              <div className="bg-blue-50 border border-blue-100 rounded p-3 mb-4">
+                <div className="flex items-start gap-2">
+                  <Info className="w-4 h-4 text-blue-500 mt-0.5 flex-shrink-0" />
+                  <p className="text-xs text-blue-700">
+                    Visits in this range stay on the schedule as On Hold and won&apos;t be serviced.
+                    The subscription stays active.
+                  </p>
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-teal-600 mb-1">Start Date</label>
+                    <input
+                      type="date"
+                      value={holdForm.startDate}
+                      onChange={(e) => setHoldForm({ ...holdForm, startDate: e.target.value })}
+                      className="w-full px-0 py-2 border-0 border-b border-gray-300 focus:border-teal-500 focus:ring-0 text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-teal-600 mb-1">End Date</label>
+                    <input
+                      type="date"
+                      value={holdForm.endDate}
+                      min={holdForm.startDate || undefined}
+                      onChange={(e) => setHoldForm({ ...holdForm, endDate: e.target.value })}
+                      className="w-full px-0 py-2 border-0 border-b border-gray-300 focus:border-teal-500 focus:ring-0 text-sm"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-teal-600 mb-1">Applies To</label>
+                  <select
+                    value={holdForm.subscriptionId}
+                    onChange={(e) => setHoldForm({ ...holdForm, subscriptionId: e.target.value })}
+                    className="w-full px-3 py-2 border-b border-gray-300 focus:border-teal-500 focus:ring-0 text-sm bg-white"
+                  >
+                    <option value="">All active subscriptions</option>
+                    {activeSubscriptions.map((sub) => (
+                      <option key={sub.id} value={sub.id}>
+                        {sub.plan?.name || formatFrequency(sub.frequency)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-teal-600 mb-1">Reason</label>
+                  <input
+                    type="text"
+                    value={holdForm.reason}
+                    onChange={(e) => setHoldForm({ ...holdForm, reason: e.target.value })}
+                    placeholder="Optional"
+                    className="w-full px-0 py-2 border-0 border-b border-gray-300 focus:border-teal-500 focus:ring-0 text-sm"
+                  />
+                </div>
+
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={holdForm.applyCredit}
+                    onChange={(e) => setHoldForm({ ...holdForm, applyCredit: e.target.checked })}
+                    className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+                  />
+                  Credit held visits on the next monthly invoice
+                </label>
+              </div>
+
+              <div className="flex justify-center gap-3 mt-8">
+                <button
+                  onClick={() => setShowHoldModal(false)}
+                  className="px-6 py-2 text-sm font-medium text-teal-600 hover:text-teal-700"
+                >
+                  CANCEL
+                </button>
+                <button
+                  onClick={handleAddHold}
+                  disabled={savingHold || !holdForm.startDate || !holdForm.endDate}
+                  className="px-6 py-2 text-sm font-medium text-white bg-teal-600 rounded hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {savingHold ? "SAVING..." : "SAVE"}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Assign Vendor Modal */}
       {showAssignVendorModal && assignVendorTarget && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
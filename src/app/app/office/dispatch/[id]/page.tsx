@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { useParams, useRouter } from "next/navigation";
-import { ChevronLeft, AlertCircle } from "lucide-react";
+import { ChevronLeft, AlertCircle, Scissors, Plus, X, Loader2 } from "lucide-react";
 import Link from "next/link";
 
 interface JobDetails {
@@ -26,6 +26,7 @@ interface JobDetails {
     phone: string | null;
     email: string | null;
     status: string;
+    clientType: "RESIDENTIAL" | "COMMERCIAL";
   } | null;
   location: {
     id: string;
@@ -66,6 +67,19 @@ interface JobDetails {
     name: string;
     status: string;
   } | null;
+  crewTime: Array<{ userId: string; name: string; minutes: number }>;
+  split: {
+    index: number;
+    count: number;
+    parts: Array<{ id: string; scheduledDate: string; status: string; splitIndex: number; priceCents: number }>;
+  } | null;
+  stationChecklist: {
+    stationsTotal: number;
+    stationsServiced: number;
+    bagsRestocked: number;
+    cansEmptied: number;
+    notes: string | null;
+  } | null;
   lastServiceDate: string | null;
   jobType: string;
   servicePlan: string;
@@ -102,6 +116,9 @@ export default function JobViewPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [job, setJob] = useState<JobDetails | null>(null);
+  const [splitDates, setSplitDates] = useState<string[] | null>(null);
+  const [splitting, setSplitting] = useState(false);
+  const [splitError, setSplitError] = useState<string | null>(null);
 
   const fetchJob = useCallback(async () => {
     try {
@@ -129,6 +146,28 @@ export default function JobViewPage() {
     }
   }, [jobId, fetchJob]);
 
+  const submitSplit = async () => {
+    if (!splitDates) return;
+    setSplitting(true);
+    setSplitError(null);
+    try {
+      const res = await fetch(`/api/admin/jobs/${jobId}/split`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ dates: splitDates.filter(Boolean) }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setSplitError(data.error || "Failed to split job");
+        return;
+      }
+      setSplitDates(null);
+      fetchJob();
+    } finally {
+      setSplitting(false);
+    }
+  };
+
   const formatDate = (dateString: string | null) => {
     if (!dateString) return "No data";
     return new Date(dateString).toLocaleDateString("en-CA"); // YYYY-MM-DD format
@@ -208,15 +247,85 @@ export default function JobViewPage() {
             {STATUS_LABELS[job.status] || job.status}
           </p>
         </div>
-        <Link
-          href="/app/office/dispatch"
-          className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
-        >
-          <ChevronLeft className="w-4 h-4" />
-          Back
-        </Link>
+        <div className="flex items-center gap-4">
+          {job.status === "SCHEDULED" && !job.split && !splitDates && (
+            <button
+              onClick={() => setSplitDates([""])}
+              className="flex items-center gap-2 px-3 py-2 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              <Scissors className="w-4 h-4" />
+              Split Across Days
+            </button>
+          )}
+          <Link
+            href="/app/office/dispatch"
+            className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
+          >
+            <ChevronLeft className="w-4 h-4" />
+            Back
+          </Link>
+        </div>
       </div>
 
+      {/* Split form */}
+      {splitDates && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-6 space-y-3">
+          <h2 className="text-lg font-semibold text-gray-900">Split Across Days</h2>
+          <p className="text-sm text-gray-500">
+            Part 1 stays on {formatDate(job.scheduledDate)}. Pick a day for each further part;
+            the ${job.revenue} price is shared evenly across the parts.
+          </p>
+          {splitDates.map((date, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <span className="w-16 text-sm text-gray-500">Part {i + 2}</span>
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => setSplitDates(splitDates.map((d, j) => (j === i ? e.target.value : d)))}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-teal-500 focus:border-teal-500"
+              />
+              {splitDates.length > 1 && (
+                <button
+                  onClick={() => setSplitDates(splitDates.filter((_, j) => j !== i))}
+                  className="p-1 text-gray-400 hover:text-red-600"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+          {splitDates.length < 6 && (
+            <button
+              onClick={() => setSplitDates([...splitDates, ""])}
+              className="flex items-center gap-1 text-sm text-teal-600 hover:text-teal-700"
+            >
+              <Plus className="w-4 h-4" />
+              Add a day
+            </button>
+          )}
+          {splitError && <p className="text-sm text-red-600">{splitError}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => {
+                setSplitDates(null);
+                setSplitError(null);
+              }}
+              className="px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={submitSplit}
+              disabled={splitting || splitDates.some((d) => !d)}
+              className="flex items-center gap-2 px-4 py-2 text-sm text-white bg-teal-600 hover:bg-teal-700 rounded-lg disabled:opacity-50"
+            >
+              {splitting && <Loader2 className="w-4 h-4 animate-spin" />}
+              Split Job
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Details Table */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-100">
         <div className="px-6 py-4 border-b border-gray-100">
@@ -268,6 +377,65 @@ export default function JobViewPage() {
           <DetailRow label="Revenue" value={`$${job.revenue}`} />
         </div>
       </div>
+
+      {/* Split parts */}
+      {job.split && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-100">
+          <div className="px-6 py-4 border-b border-gray-100">
+            <h2 className="text-lg font-semibold text-gray-900">
+              Split Job &middot; Part {job.split.index} of {job.split.count}
+            </h2>
+          </div>
+          <div className="divide-y divide-gray-100">
+            {job.split.parts.map((part) => (
+              <Link
+                key={part.id}
+                href={`/app/office/dispatch/${part.id}`}
+                className={`flex px-6 py-3 hover:bg-gray-50 ${part.id === job.id ? "bg-teal-50" : ""}`}
+              >
+                <div className="w-48 flex-shrink-0 text-gray-500">Part {part.splitIndex}</div>
+                <div className="flex-1 text-gray-900">{formatDate(part.scheduledDate)}</div>
+                <div className={`w-32 ${STATUS_COLORS[part.status] || "text-gray-500"}`}>
+                  {STATUS_LABELS[part.status] || part.status}
+                </div>
+                <div className="w-24 text-right text-gray-900">${(part.priceCents / 100).toFixed(2)}</div>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Crew time */}
+      {job.crewTime.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-100">
+          <div className="px-6 py-4 border-b border-gray-100">
+            <h2 className="text-lg font-semibold text-gray-900">Crew</h2>
+          </div>
+          <div className="divide-y divide-gray-100">
+            {job.crewTime.map((member) => (
+              <DetailRow key={member.userId} label={member.name} value={formatDuration(member.minutes)} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Station checklist */}
+      {job.stationChecklist && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-100">
+          <div className="px-6 py-4 border-b border-gray-100">
+            <h2 className="text-lg font-semibold text-gray-900">Station Checklist</h2>
+          </div>
+          <div className="divide-y divide-gray-100">
+            <DetailRow
+              label="Stations Serviced"
+              value={`${job.stationChecklist.stationsServiced} of ${job.stationChecklist.stationsTotal}`}
+            />
+            <DetailRow label="Bags Restocked" value={String(job.stationChecklist.bagsRestocked)} />
+            <DetailRow label="Cans Emptied" value={String(job.stationChecklist.cansEmptied)} />
+            <DetailRow label="Notes" value={job.stationChecklist.notes} emptyText="No data" />
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -72,6 +72,7 @@ const JOB_STATUSES = [
   { value: "COMPLETED", label: "Completed", color: "text-green-600" },
   { value: "SKIPPED", label: "Skipped", color: "text-yellow-600" },
   { value: "CANCELED", label: "Canceled", color: "text-gray-400" },
+  { value: "ON_HOLD", label: "On Hold", color: "text-indigo-500" },
   { value: "MISSED", label: "Missed", color: "text-red-500" },
 ];
 
@@ -190,10 +191,10 @@ export default function DispatchBoardPage() {
             jobType = "ONE_TIME";
           }
 
-          // Check if job is missed (past date, not completed)
+          // Check if job is missed (past date, not completed). Held visits were never due.
           let status = job.status;
           const today = new Date().toISOString().split("T")[0];
-          if (job.scheduled_date < today && !["COMPLETED", "SKIPPED", "CANCELED"].includes(job.status)) {
+          if (job.scheduled_date < today && !["COMPLETED", "SKIPPED", "CANCELED", "ON_HOLD"].includes(job.status)) {
             status = "MISSED";
           }
 
@@ -11,6 +11,8 @@ interface InvoiceItem {
   quantity: number;
   unit_price_cents: number;
   total_cents: number;
+  tax_category?: string | null;
+  tax_cents?: number;
 }
 
 interface Invoice {
@@ -41,8 +43,18 @@ interface ServiceOption {
   unitPriceCents: number;
   quantity: number;
   category: string;
+  taxCategory: string | null;
 }
 
+// Sales tax categories (matches lib/sales-tax); "" bills the line untaxed
+const TAX_CATEGORY_OPTIONS = [
+  { value: "ADD_ON", label: "Add-on" },
+  { value: "SERVICE_PLAN", label: "Service plan" },
+  { value: "CROSS_SELL", label: "Cross-sell" },
+  { value: "GIFT_CARD", label: "Gift card" },
+  { value: "", label: "Not taxable" },
+];
+
 function formatCurrency(cents: number) {
   return new Intl.NumberFormat("en-US", {
     style: "currency",
@@ -195,6 +207,7 @@ export default function EditInvoicePage({
               unitPriceCents: monthlyCents,
               quantity: 1,
               category: "Subscriptions",
+              taxCategory: "SERVICE_PLAN",
             });
           }
         });
@@ -210,6 +223,7 @@ export default function EditInvoicePage({
             unitPriceCents: cs.pricePerUnitCents,
             quantity: cs.quantity || 1,
             category: "Cross-Sells",
+            taxCategory: "CROSS_SELL",
           });
         });
       }
@@ -228,6 +242,7 @@ export default function EditInvoicePage({
         quantity: 1,
         unit_price_cents: 0,
         total_cents: 0,
+        tax_category: "ADD_ON",
       },
     ]);
   }
@@ -253,6 +268,7 @@ export default function EditInvoicePage({
       quantity: option.quantity,
       unit_price_cents: option.unitPriceCents,
       total_cents: option.quantity * option.unitPriceCents,
+      tax_category: option.taxCategory,
     };
     setItems(updated);
     setOpenDropdownIndex(null);
@@ -265,8 +281,8 @@ export default function EditInvoicePage({
 
   // Calculate totals
   const subtotalCents = items.reduce((sum, item) => sum + item.total_cents, 0);
-  const taxRate = 0; // Could be made configurable
-  const taxCents = Math.round(subtotalCents * (taxRate / 100));
+  // Tax as of the last save; the server recalculates it from the client's address
+  const taxCents = items.reduce((sum, item) => sum + (item.tax_cents || 0), 0);
   const discountCents = invoice?.discountCents || 0;
   const totalCents = subtotalCents + taxCents - discountCents;
 
@@ -287,6 +303,7 @@ export default function EditInvoicePage({
             description: item.description,
             quantity: item.quantity,
             unitPriceCents: item.unit_price_cents,
+            taxCategory: item.tax_category ?? null,
           })),
           notes: noteToClient || null,
           finalize,
@@ -433,6 +450,9 @@ export default function EditInvoicePage({
               <th className="px-4 py-3 text-right text-sm font-medium text-gray-500 w-32">
                 Rate
               </th>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-500 w-36">
+                Tax
+              </th>
               <th className="px-4 py-3 text-right text-sm font-medium text-gray-500 w-32">
                 Amount
               </th>
@@ -527,6 +547,19 @@ export default function EditInvoicePage({
                     />
                   </div>
                 </td>
+                <td className="px-4 py-2">
+                  <select
+                    value={item.tax_category ?? ""}
+                    onChange={(e) => updateItem(index, "tax_category", e.target.value || null)}
+                    className="w-full px-2 py-1 border border-gray-200 rounded text-sm focus:outline-none focus:border-teal-500"
+                  >
+                    {TAX_CATEGORY_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </td>
                 <td className="px-4 py-2 text-right text-gray-900">
                   {formatCurrency(item.total_cents)}
                 </td>
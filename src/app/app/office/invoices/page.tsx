@@ -61,6 +61,15 @@ interface ClientOption {
   email: string | null;
 }
 
+// Sales tax categories (matches lib/sales-tax); "" bills the line untaxed
+const TAX_CATEGORY_OPTIONS = [
+  { value: "ADD_ON", label: "Add-on" },
+  { value: "SERVICE_PLAN", label: "Service plan" },
+  { value: "CROSS_SELL", label: "Cross-sell" },
+  { value: "GIFT_CARD", label: "Gift card" },
+  { value: "", label: "Not taxable" },
+];
+
 const INVOICE_STATUSES: InvoiceStatus[] = ["DRAFT", "OPEN", "OVERDUE", "PAID", "VOID", "FAILED"];
 
 function getStatusIcon(status: InvoiceStatus) {
@@ -132,9 +141,8 @@ export default function InvoicesPage() {
     clientId: "",
     dueDate: "",
     notes: "",
-    taxRate: 0,
     discountCents: 0,
-    items: [{ description: "", quantity: 1, unitPriceCents: 0 }],
+    items: [{ description: "", quantity: 1, unitPriceCents: 0, taxCategory: "ADD_ON" }],
   });
 
   useEffect(() => {
@@ -198,9 +206,8 @@ export default function InvoicesPage() {
       clientId: "",
       dueDate: "",
       notes: "",
-      taxRate: 0,
       discountCents: 0,
-      items: [{ description: "", quantity: 1, unitPriceCents: 0 }],
+      items: [{ description: "", quantity: 1, unitPriceCents: 0, taxCategory: "ADD_ON" }],
     });
     setShowModal(true);
     setError(null);
@@ -219,7 +226,6 @@ export default function InvoicesPage() {
           clientId: form.clientId,
           dueDate: form.dueDate || null,
           notes: form.notes || null,
-          taxRate: form.taxRate,
           discountCents: form.discountCents,
           items: form.items.filter((i) => i.description && i.unitPriceCents > 0),
         }),
@@ -297,7 +303,7 @@ export default function InvoicesPage() {
   function addItem() {
     setForm({
       ...form,
-      items: [...form.items, { description: "", quantity: 1, unitPriceCents: 0 }],
+      items: [...form.items, { description: "", quantity: 1, unitPriceCents: 0, taxCategory: "ADD_ON" }],
     });
   }
 
@@ -315,8 +321,7 @@ export default function InvoicesPage() {
   }
 
   const subtotal = form.items.reduce((sum, item) => sum + item.quantity * item.unitPriceCents, 0);
-  const tax = Math.round(subtotal * (form.taxRate / 100));
-  const total = subtotal + tax - form.discountCents;
+  const total = subtotal - form.discountCents;
 
   const filteredInvoices = invoices.filter(
     (inv) =>
@@ -718,6 +723,20 @@ export default function InvoicesPage() {
                           className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
                         />
                       </div>
+                      <div className="w-32">
+                        <select
+                          value={item.taxCategory}
+                          onChange={(e) => updateItem(index, "taxCategory", e.target.value)}
+                          title="Sales tax category"
+                          className="w-full px-2 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                        >
+                          {TAX_CATEGORY_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
                       <div className="w-20">
                         <input
                           type="number"
@@ -761,22 +780,8 @@ export default function InvoicesPage() {
                 </div>
               </div>
 
-              {/* Tax & Discount */}
+              {/* Discount */}
               <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Tax Rate (%)
-                  </label>
-                  <input
-                    type="number"
-                    value={form.taxRate}
-                    onChange={(e) => setForm({ ...form, taxRate: parseFloat(e.target.value) || 0 })}
-                    step="0.01"
-                    min="0"
-                    max="100"
-                    className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
-                  />
-                </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     Discount ($)
@@ -800,12 +805,6 @@ export default function InvoicesPage() {
                   <span className="text-gray-600">Subtotal</span>
                   <span className="font-medium">{formatCurrency(subtotal)}</span>
                 </div>
-                {form.taxRate > 0 && (
-                  <div className="flex justify-between text-sm">
-                    <span className="text-gray-600">Tax ({form.taxRate}%)</span>
-                    <span className="font-medium">{formatCurrency(tax)}</span>
-                  </div>
-                )}
                 {form.discountCents > 0 && (
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">Discount</span>
@@ -816,6 +815,9 @@ export default function InvoicesPage() {
                   <span>Total</span>
                   <span>{formatCurrency(total)}</span>
                 </div>
+                <p className="text-xs text-gray-500">
+                  Sales tax for the client&apos;s service address and any account credit are applied when the invoice is created.
+                </p>
               </div>
 
               {/* Notes */}
@@ -1,6 +1,7 @@
 import { requireOfficeAccess } from "@/lib/auth-supabase";
 import { OfficeHeader } from "@/components/portals/office/OfficeHeader";
 import { OfficeSidebar } from "@/components/portals/office/OfficeSidebar";
+import { StaffPushProvider } from "@/components/portals/office/StaffPushProvider";
 
 export default async function OfficeLayout({
   children,
@@ -16,6 +17,7 @@ export default async function OfficeLayout({
         <OfficeHeader user={user} />
         <main className="py-6 px-4 sm:px-6 lg:px-8">{children}</main>
       </div>
+      <StaffPushProvider />
     </div>
   );
 }
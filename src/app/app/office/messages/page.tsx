@@ -1,6 +1,8 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
 import {
   MessageSquare,
   Mail,
@@ -15,11 +17,60 @@ import {
   RefreshCw,
   MoreVertical,
   UserPlus,
+  Globe,
+  ExternalLink,
+  BookOpen,
 } from "lucide-react";
 
+type Channel = "SMS" | "EMAIL" | "PORTAL";
+
+type InboxView = "all" | "mine" | "unassigned" | "needs_reply" | "unread";
+
 interface ConversationStats {
   open: number;
   closed: number;
+  needsReply: number;
+  unread: number;
+  mine: number;
+  unassigned: number;
+}
+
+const EMPTY_STATS: ConversationStats = {
+  open: 0,
+  closed: 0,
+  needsReply: 0,
+  unread: 0,
+  mine: 0,
+  unassigned: 0,
+};
+
+const VIEWS: { value: InboxView; label: string; count?: keyof ConversationStats }[] = [
+  { value: "all", label: "All" },
+  { value: "mine", label: "Mine", count: "mine" },
+  { value: "unassigned", label: "Unassigned", count: "unassigned" },
+  { value: "needs_reply", label: "Needs reply", count: "needsReply" },
+  { value: "unread", label: "Unread", count: "unread" },
+];
+
+const CHANNEL_LABELS: Record<Channel, string> = {
+  SMS: "SMS",
+  EMAIL: "Email",
+  PORTAL: "Portal",
+};
+
+interface LeadRef {
+  type: string;
+  id: string;
+  name: string | null;
+  phone?: string | null;
+  email?: string | null;
+  adminPath: string | null;
+}
+
+interface SavedReply {
+  id: string;
+  name: string;
+  body: string;
 }
 
 interface StaffMember {
@@ -30,9 +81,11 @@ interface StaffMember {
 
 interface Conversation {
   id: string;
-  channel: "SMS" | "EMAIL";
+  channel: Channel;
   status: "OPEN" | "CLOSED";
   unreadCount: number;
+  needsReply: boolean;
+  lead: LeadRef | null;
   lastMessageAt: string | null;
   createdAt: string;
   client: {
@@ -44,6 +97,7 @@ interface Conversation {
   lastMessage: {
     body: string;
     direction: "INBOUND" | "OUTBOUND";
+    channel: Channel;
     created_at: string;
   } | null;
   assignedTo?: {
@@ -54,7 +108,9 @@ interface Conversation {
 
 interface Message {
   id: string;
+  channel: Channel;
   direction: "INBOUND" | "OUTBOUND";
+  subject: string | null;
   body: string;
   status: string;
   sentBy: string | null;
@@ -63,8 +119,10 @@ interface Message {
 
 interface ConversationDetail {
   id: string;
-  channel: "SMS" | "EMAIL";
+  channel: Channel;
   status: string;
+  needsReply: boolean;
+  lead: LeadRef | null;
   client: {
     id: string;
     name: string;
@@ -77,10 +135,22 @@ interface ConversationDetail {
   } | null;
 }
 
+function ChannelIcon({ channel, className }: { channel: Channel; className?: string }) {
+  if (channel === "SMS") return <Phone className={className} />;
+  if (channel === "EMAIL") return <Mail className={className} />;
+  return <Globe className={className} />;
+}
+
+function contactName(conversation: { client: { name: string } | null; lead: LeadRef | null }) {
+  return conversation.client?.name || conversation.lead?.name || "Unknown";
+}
+
 export default function MessagesPage() {
+  const searchParams = useSearchParams();
   const [loading, setLoading] = useState(true);
   const [conversations, setConversations] = useState<Conversation[]>([]);
-  const [stats, setStats] = useState<ConversationStats>({ open: 0, closed: 0 });
+  const [stats, setStats] = useState<ConversationStats>(EMPTY_STATS);
+  const [view, setView] = useState<InboxView>("all");
   const [statusFilter, setStatusFilter] = useState("OPEN");
   const [channelFilter, setChannelFilter] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
@@ -89,17 +159,27 @@ export default function MessagesPage() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [loadingMessages, setLoadingMessages] = useState(false);
   const [newMessage, setNewMessage] = useState("");
+  const [replyChannel, setReplyChannel] = useState<Channel>("SMS");
   const [sending, setSending] = useState(false);
 
   const [staffMembers, setStaffMembers] = useState<StaffMember[]>([]);
   const [showAssignMenu, setShowAssignMenu] = useState(false);
+  const [savedReplies, setSavedReplies] = useState<SavedReply[]>([]);
+  const [showSavedReplies, setShowSavedReplies] = useState(false);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     fetchConversations();
-    fetchStaffMembers();
-  }, [statusFilter, channelFilter]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [statusFilter, channelFilter, view]);
+
+  useEffect(() => {
+    fetchSavedReplies();
+    const conversationId = searchParams.get("conversation");
+    if (conversationId) fetchMessages(conversationId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
   useEffect(() => {
     if (messagesEndRef.current) {
@@ -113,13 +193,15 @@ export default function MessagesPage() {
       const params = new URLSearchParams();
       if (statusFilter) params.set("status", statusFilter);
       if (channelFilter) params.set("channel", channelFilter);
+      if (view !== "all") params.set("view", view);
 
       const res = await fetch(`/api/messages/conversations?${params}`);
       const data = await res.json();
 
       if (res.ok) {
         setConversations(data.conversations || []);
-        setStats(data.stats || { open: 0, closed: 0 });
+        setStats(data.stats || EMPTY_STATS);
+        setStaffMembers(data.assignees || []);
       }
     } catch (error) {
       console.error("Error fetching conversations:", error);
@@ -128,21 +210,15 @@ export default function MessagesPage() {
     }
   }
 
-  async function fetchStaffMembers() {
+  async function fetchSavedReplies() {
     try {
-      const res = await fetch("/api/staff");
+      const res = await fetch("/api/messages/templates");
       const data = await res.json();
       if (res.ok) {
-        setStaffMembers(
-          (data.staff || []).map((s: { id: string; first_name: string; last_name: string; role: string }) => ({
-            id: s.id,
-            name: `${s.first_name} ${s.last_name}`,
-            role: s.role,
-          }))
-        );
+        setSavedReplies(data.templates || []);
       }
     } catch (error) {
-      console.error("Error fetching staff:", error);
+      console.error("Error fetching saved replies:", error);
     }
   }
 
@@ -181,6 +257,8 @@ export default function MessagesPage() {
       if (res.ok) {
         setSelectedConversation(data.conversation);
         setMessages(data.messages || []);
+        // Reply on the channel the customer last used
+        setReplyChannel(data.conversation.channel);
       }
     } catch (error) {
       console.error("Error fetching messages:", error);
@@ -197,7 +275,7 @@ export default function MessagesPage() {
       const res = await fetch(`/api/messages/conversations/${selectedConversation.id}`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ message: newMessage }),
+        body: JSON.stringify({ message: newMessage, channel: replyChannel }),
       });
 
       const data = await res.json();
@@ -205,6 +283,7 @@ export default function MessagesPage() {
       if (res.ok) {
         setMessages([...messages, data.message]);
         setNewMessage("");
+        setSelectedConversation({ ...selectedConversation, needsReply: false });
         fetchConversations(); // Refresh list
       } else {
         alert(data.error || "Failed to send message");
@@ -228,7 +307,30 @@ export default function MessagesPage() {
       });
 
       if (res.ok) {
-        setSelectedConversation({ ...selectedConversation, status });
+        setSelectedConversation({
+          ...selectedConversation,
+          status,
+          needsReply: status === "CLOSED" ? false : selectedConversation.needsReply,
+        });
+        fetchConversations();
+      }
+    } catch (error) {
+      console.error("Error updating conversation:", error);
+    }
+  }
+
+  async function setNeedsReply(needsReply: boolean) {
+    if (!selectedConversation) return;
+
+    try {
+      const res = await fetch(`/api/messages/conversations/${selectedConversation.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ needsReply }),
+      });
+
+      if (res.ok) {
+        setSelectedConversation({ ...selectedConversation, needsReply });
         fetchConversations();
       }
     } catch (error) {
@@ -236,18 +338,36 @@ export default function MessagesPage() {
     }
   }
 
+  function insertSavedReply(reply: SavedReply) {
+    setNewMessage((current) => (current.trim() ? `${current}\n${reply.body}` : reply.body));
+    setShowSavedReplies(false);
+  }
+
   const filteredConversations = conversations.filter((c) => {
     if (searchQuery) {
       const query = searchQuery.toLowerCase();
       return (
-        c.client?.name.toLowerCase().includes(query) ||
-        c.client?.phone.toLowerCase().includes(query) ||
-        c.client?.email.toLowerCase().includes(query)
+        contactName(c).toLowerCase().includes(query) ||
+        c.client?.phone?.toLowerCase().includes(query) ||
+        c.client?.email?.toLowerCase().includes(query)
       );
     }
     return true;
   });
 
+  // Portal replies only reach clients with a login
+  const replyChannels: Channel[] = selectedConversation?.client
+    ? ["SMS", "EMAIL", "PORTAL"]
+    : ["SMS", "EMAIL"];
+
+  const contactDetail = selectedConversation
+    ? selectedConversation.client
+      ? replyChannel === "EMAIL"
+        ? selectedConversation.client.email
+        : selectedConversation.client.phone
+      : selectedConversation.lead?.phone || selectedConversation.lead?.email
+    : null;
+
   return (
     <div className="h-[calc(100vh-120px)] flex flex-col">
       {/* Header */}
@@ -258,7 +378,7 @@ export default function MessagesPage() {
         </div>
         <div className="flex items-center gap-2">
           <span className="text-sm text-gray-500">
-            {stats.open} open, {stats.closed} closed
+            {stats.open} open, {stats.needsReply} need a reply
           </span>
           <button
             onClick={fetchConversations}
@@ -269,6 +389,28 @@ export default function MessagesPage() {
         </div>
       </div>
 
+      {/* Views */}
+      <div className="flex gap-2 mb-4 overflow-x-auto">
+        {VIEWS.map((v) => (
+          <button
+            key={v.value}
+            onClick={() => setView(v.value)}
+            className={`px-3 py-1.5 text-sm rounded-lg whitespace-nowrap ${
+              view === v.value
+                ? "bg-teal-600 text-white"
+                : "bg-white text-gray-700 border border-gray-200 hover:bg-gray-50"
+            }`}
+          >
+            {v.label}
+            {v.count && stats[v.count] > 0 && (
+              <span className={`ml-1.5 text-xs ${view === v.value ? "text-teal-100" : "text-gray-400"}`}>
+                {stats[v.count]}
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+
       {/* Main Content */}
       <div className="flex-1 flex bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
         {/* Conversations List */}
@@ -303,6 +445,7 @@ export default function MessagesPage() {
                 <option value="">All Channels</option>
                 <option value="SMS">SMS</option>
                 <option value="EMAIL">Email</option>
+                <option value="PORTAL">Portal</option>
               </select>
             </div>
           </div>
@@ -333,10 +476,14 @@ export default function MessagesPage() {
                         <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
                           <Phone className="w-5 h-5 text-blue-600" />
                         </div>
-                      ) : (
+                      ) : conv.channel === "EMAIL" ? (
                         <div className="w-10 h-10 bg-purple-100 rounded-full flex items-center justify-center">
                           <Mail className="w-5 h-5 text-purple-600" />
                         </div>
+                      ) : (
+                        <div className="w-10 h-10 bg-teal-100 rounded-full flex items-center justify-center">
+                          <Globe className="w-5 h-5 text-teal-600" />
+                        </div>
                       )}
                       {conv.unreadCount > 0 && (
                         <span className="absolute -top-1 -right-1 w-5 h-5 bg-red-500 text-white text-xs rounded-full flex items-center justify-center">
@@ -347,7 +494,10 @@ export default function MessagesPage() {
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center justify-between mb-1">
                         <span className="font-medium text-gray-900 truncate">
-                          {conv.client?.name || "Unknown"}
+                          {contactName(conv)}
+                          {conv.lead && (
+                            <span className="ml-1.5 text-xs font-normal text-amber-700">Lead</span>
+                          )}
                         </span>
                         <span className="text-xs text-gray-500">
                           {conv.lastMessageAt
@@ -367,6 +517,16 @@ export default function MessagesPage() {
                           <span className="text-gray-400">No messages yet</span>
                         )}
                       </p>
+                      {(conv.needsReply || conv.assignedTo) && (
+                        <div className="flex items-center gap-2 mt-1 text-xs">
+                          {conv.needsReply && (
+                            <span className="px-1.5 py-0.5 rounded bg-amber-100 text-amber-800">Needs reply</span>
+                          )}
+                          {conv.assignedTo && (
+                            <span className="text-gray-400 truncate">{conv.assignedTo.name}</span>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </button>
@@ -389,14 +549,19 @@ export default function MessagesPage() {
                     <ChevronLeft className="w-5 h-5" />
                   </button>
                   <div>
-                    <h3 className="font-semibold text-gray-900">
-                      {selectedConversation.client?.name || "Unknown"}
+                    <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+                      {contactName(selectedConversation)}
+                      {selectedConversation.lead?.adminPath && (
+                        <Link
+                          href={selectedConversation.lead.adminPath}
+                          className="text-xs font-normal text-teal-600 hover:text-teal-700 flex items-center gap-0.5"
+                        >
+                          View lead
+                          <ExternalLink className="w-3 h-3" />
+                        </Link>
+                      )}
                     </h3>
-                    <p className="text-sm text-gray-500">
-                      {selectedConversation.channel === "SMS"
-                        ? selectedConversation.client?.phone
-                        : selectedConversation.client?.email}
-                    </p>
+                    <p className="text-sm text-gray-500">{contactDetail}</p>
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
@@ -432,9 +597,7 @@ export default function MessagesPage() {
                               Unassign
                             </button>
                           )}
-                          {staffMembers
-                            .filter((s) => ["OWNER", "MANAGER", "OFFICE"].includes(s.role))
-                            .map((staff) => (
+                          {staffMembers.map((staff) => (
                               <button
                                 key={staff.id}
                                 onClick={() => assignStaff(staff.id)}
@@ -451,7 +614,7 @@ export default function MessagesPage() {
                                 <span className="text-xs text-gray-400 ml-6">{staff.role}</span>
                               </button>
                             ))}
-                          {staffMembers.filter((s) => ["OWNER", "MANAGER", "OFFICE"].includes(s.role)).length === 0 && (
+                          {staffMembers.length === 0 && (
                             <div className="px-3 py-2 text-sm text-gray-500">No staff available</div>
                           )}
                         </div>
@@ -459,6 +622,11 @@ export default function MessagesPage() {
                     )}
                   </div>
 
+                  {selectedConversation.needsReply && (
+                    <span className="px-2 py-1 text-xs rounded-full bg-amber-100 text-amber-800">
+                      Needs reply
+                    </span>
+                  )}
                   <span
                     className={`px-2 py-1 text-xs rounded-full ${
                       selectedConversation.status === "OPEN"
@@ -472,7 +640,13 @@ export default function MessagesPage() {
                     <button className="p-2 hover:bg-gray-100 rounded-lg">
                       <MoreVertical className="w-5 h-5 text-gray-500" />
                     </button>
-                    <div className="absolute right-0 mt-1 w-40 bg-white rounded-lg shadow-lg border border-gray-100 hidden group-hover:block z-10">
+                    <div className="absolute right-0 mt-1 w-44 bg-white rounded-lg shadow-lg border border-gray-100 hidden group-hover:block z-10">
+                      <button
+                        onClick={() => setNeedsReply(!selectedConversation.needsReply)}
+                        className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                      >
+                        {selectedConversation.needsReply ? "Mark as Replied" : "Mark Needs Reply"}
+                      </button>
                       {selectedConversation.status === "OPEN" ? (
                         <button
                           onClick={() => updateConversationStatus("CLOSED")}
@@ -518,14 +692,20 @@ export default function MessagesPage() {
                             : "bg-gray-100 text-gray-900"
                         }`}
                       >
+                        {msg.subject && (
+                          <p className="text-xs font-semibold mb-1">{msg.subject}</p>
+                        )}
                         <p className="whitespace-pre-wrap">{msg.body}</p>
                         <div
                           className={`flex items-center gap-1 mt-1 text-xs ${
                             msg.direction === "OUTBOUND" ? "text-teal-200" : "text-gray-500"
                           }`}
                         >
+                          <ChannelIcon channel={msg.channel} className="w-3 h-3" />
                           <span>
-                            {new Date(msg.createdAt).toLocaleTimeString([], {
+                            {new Date(msg.createdAt).toLocaleString([], {
+                              month: "short",
+                              day: "numeric",
                               hour: "2-digit",
                               minute: "2-digit",
                             })}
@@ -551,6 +731,48 @@ export default function MessagesPage() {
 
               {/* Message Input */}
               <div className="p-4 border-t border-gray-100">
+                <div className="flex items-center gap-2 mb-2">
+                  <span className="text-xs text-gray-500">Reply via</span>
+                  {replyChannels.map((channel) => (
+                    <button
+                      key={channel}
+                      onClick={() => setReplyChannel(channel)}
+                      className={`flex items-center gap-1 px-2 py-1 text-xs rounded-lg ${
+                        replyChannel === channel
+                          ? "bg-teal-100 text-teal-800"
+                          : "text-gray-600 hover:bg-gray-100"
+                      }`}
+                    >
+                      <ChannelIcon channel={channel} className="w-3 h-3" />
+                      {CHANNEL_LABELS[channel]}
+                    </button>
+                  ))}
+                  {savedReplies.length > 0 && (
+                    <div className="relative ml-auto">
+                      <button
+                        onClick={() => setShowSavedReplies(!showSavedReplies)}
+                        className="flex items-center gap-1 px-2 py-1 text-xs rounded-lg text-gray-600 hover:bg-gray-100"
+                      >
+                        <BookOpen className="w-3 h-3" />
+                        Saved replies
+                      </button>
+                      {showSavedReplies && (
+                        <div className="absolute right-0 bottom-full mb-1 w-64 bg-white rounded-lg shadow-lg border border-gray-100 z-20 max-h-64 overflow-y-auto">
+                          {savedReplies.map((reply) => (
+                            <button
+                              key={reply.id}
+                              onClick={() => insertSavedReply(reply)}
+                              className="w-full text-left px-3 py-2 hover:bg-gray-50"
+                            >
+                              <span className="block text-sm text-gray-900">{reply.name}</span>
+                              <span className="block text-xs text-gray-500 truncate">{reply.body}</span>
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
                 <div className="flex items-end gap-2">
                   <textarea
                     value={newMessage}
@@ -561,7 +783,13 @@ export default function MessagesPage() {
                         sendMessage();
                       }
                     }}
-                    placeholder={`Send ${selectedConversation.channel === "SMS" ? "SMS" : "email"}...`}
+                    placeholder={
+                      replyChannel === "SMS"
+                        ? "Send SMS..."
+                        : replyChannel === "EMAIL"
+                        ? "Send email..."
+                        : "Reply in the client portal..."
+                    }
                     rows={2}
                     className="flex-1 px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 resize-none"
                   />
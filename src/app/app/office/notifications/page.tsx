@@ -61,12 +61,17 @@ interface NotificationTemplate {
 interface ForwardingRule {
   id: string;
   name: string;
-  forwardToType: "EMAIL" | "SMS" | "WEBHOOK";
+  forwardToType: "EMAIL" | "SMS" | "PUSH";
   forwardToValue: string;
   conditions: Record<string, unknown> | null;
   isEnabled: boolean;
 }
 
+interface StaffMember {
+  id: string;
+  name: string;
+}
+
 type Tab = "history" | "templates" | "forwarding";
 
 export default function NotificationsPage() {
@@ -96,8 +101,9 @@ export default function NotificationsPage() {
   const [showRuleModal, setShowRuleModal] = useState(false);
   const [editingRule, setEditingRule] = useState<ForwardingRule | null>(null);
   const [ruleName, setRuleName] = useState("");
-  const [ruleType, setRuleType] = useState<"EMAIL" | "SMS" | "WEBHOOK">("EMAIL");
+  const [ruleType, setRuleType] = useState<"EMAIL" | "SMS" | "PUSH">("EMAIL");
   const [ruleValue, setRuleValue] = useState("");
+  const [staff, setStaff] = useState<StaffMember[]>([]);
 
   useEffect(() => {
     if (activeTab === "history") {
@@ -155,6 +161,13 @@ export default function NotificationsPage() {
       if (res.ok) {
         setForwardingRules(data.rules || []);
       }
+
+      // Office staff for push rules
+      const staffRes = await fetch("/api/messages/conversations?limit=1");
+      if (staffRes.ok) {
+        const staffData = await staffRes.json();
+        setStaff(staffData.assignees || []);
+      }
     } catch (error) {
       console.error("Error fetching forwarding rules:", error);
     } finally {
@@ -275,6 +288,11 @@ export default function NotificationsPage() {
     }
   }
 
+  function describePushTarget(value: string) {
+    if (value === "ASSIGNED") return "assigned staff member";
+    return staff.find((member) => member.id === value)?.name || "staff member";
+  }
+
   function openRuleModal(rule?: ForwardingRule) {
     if (rule) {
       setEditingRule(rule);
@@ -661,7 +679,9 @@ export default function NotificationsPage() {
                           </span>
                         </div>
                         <p className="text-sm text-gray-600">
-                          Forward to {rule.forwardToType}: {rule.forwardToValue}
+                          {rule.forwardToType === "PUSH"
+                            ? `Push to ${describePushTarget(rule.forwardToValue)}`
+                            : `Forward to ${rule.forwardToType}: ${rule.forwardToValue}`}
                         </p>
                       </div>
                       <div className="flex items-center gap-2">
@@ -866,32 +886,51 @@ export default function NotificationsPage() {
                 <label className="block text-sm font-medium text-gray-700 mb-1">Forward Type</label>
                 <select
                   value={ruleType}
-                  onChange={(e) => setRuleType(e.target.value as "EMAIL" | "SMS" | "WEBHOOK")}
+                  onChange={(e) => {
+                    const type = e.target.value as "EMAIL" | "SMS" | "PUSH";
+                    setRuleType(type);
+                    setRuleValue(type === "PUSH" ? "ASSIGNED" : "");
+                  }}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
                 >
                   <option value="EMAIL">Email</option>
                   <option value="SMS">SMS</option>
-                  <option value="WEBHOOK">Webhook URL</option>
+                  <option value="PUSH">Push notification</option>
                 </select>
               </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  {ruleType === "EMAIL" ? "Email Address" : ruleType === "SMS" ? "Phone Number" : "Webhook URL"}
-                </label>
-                <input
-                  type={ruleType === "EMAIL" ? "email" : "text"}
-                  value={ruleValue}
-                  onChange={(e) => setRuleValue(e.target.value)}
-                  placeholder={
-                    ruleType === "EMAIL"
-                      ? "office@company.com"
-                      : ruleType === "SMS"
-                      ? "+1234567890"
-                      : "https://..."
-                  }
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
-                />
-              </div>
+              {ruleType === "PUSH" ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Notify</label>
+                  <select
+                    value={ruleValue}
+                    onChange={(e) => setRuleValue(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                  >
+                    <option value="ASSIGNED">Assigned staff member</option>
+                    {staff.map((member) => (
+                      <option key={member.id} value={member.id}>
+                        {member.name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Sent to browsers where they&apos;ve turned on notifications in the office portal.
+                  </p>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {ruleType === "EMAIL" ? "Email Address" : "Phone Number"}
+                  </label>
+                  <input
+                    type={ruleType === "EMAIL" ? "email" : "text"}
+                    value={ruleValue}
+                    onChange={(e) => setRuleValue(e.target.value)}
+                    placeholder={ruleType === "EMAIL" ? "office@company.com" : "+1234567890"}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                  />
+                </div>
+              )}
             </div>
             <div className="p-6 border-t border-gray-100 flex justify-end gap-3">
               <button onClick={closeRuleModal} className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200">
@@ -0,0 +1,451 @@
+"use client";
+
+import { Fragment, useState, useEffect, useCallback } from "react";
+import {
+  Calendar,
+  RefreshCw,
+  ChevronLeft,
+  ChevronRight,
+  ChevronDown,
+  AlertCircle,
+  AlertTriangle,
+  Download,
+} from "lucide-react";
+import Link from "next/link";
+
+interface PayrollLineItem {
+  type: string;
+  description: string;
+  quantity: number | null;
+  rateCents: number | null;
+  amountCents: number;
+}
+
+interface PayrollDay {
+  date: string;
+  workedMinutes: number;
+  overtimeMinutes: number;
+  miles: number;
+  jobsCompleted: number;
+  revenueCents: number;
+}
+
+interface PayrollStatement {
+  userId: string;
+  name: string;
+  workedHours: number | null;
+  regularHours: number | null;
+  overtimeHours: number | null;
+  miles: number | null;
+  jobsCompleted: number | null;
+  revenueCents: number | null;
+  hasIncompleteShifts: boolean;
+  lineItems: PayrollLineItem[];
+  days: PayrollDay[];
+  totalCents: number;
+}
+
+interface PayPeriod {
+  start: string;
+  end: string;
+  type: string;
+  offset: number | null;
+}
+
+interface PayRunTotals {
+  staffCount: number;
+  totalCents: number;
+  incompleteShiftCount: number;
+}
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+const formatOptional = (value: number | null, digits: number) =>
+  value === null ? "—" : value.toFixed(digits);
+
+export default function PayRunReportPage() {
+  const [loading, setLoading] = useState(true);
+  const [statements, setStatements] = useState<PayrollStatement[]>([]);
+  const [totals, setTotals] = useState<PayRunTotals | null>(null);
+  const [period, setPeriod] = useState<PayPeriod | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  // Filters: either a pay period offset or a custom range
+  const [offset, setOffset] = useState(0);
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [customRange, setCustomRange] = useState<{ start: string; end: string } | null>(null);
+
+  const fetchPayRun = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (customRange) {
+        params.set("startDate", customRange.start);
+        params.set("endDate", customRange.end);
+      } else {
+        params.set("offset", offset.toString());
+      }
+
+      const res = await fetch(`/api/admin/payroll?${params}`);
+      const data = await res.json();
+
+      if (res.ok) {
+        setStatements(data.statements || []);
+        setTotals(data.totals || null);
+        setPeriod(data.period || null);
+      } else {
+        setError(data.error || "Failed to load pay run");
+      }
+    } catch (err) {
+      console.error("Error fetching pay run:", err);
+      setError("Failed to load pay run");
+    } finally {
+      setLoading(false);
+    }
+  }, [offset, customRange]);
+
+  useEffect(() => {
+    fetchPayRun();
+  }, [fetchPayRun]);
+
+  const handleGo = () => {
+    if (fromDate && toDate) {
+      setCustomRange({ start: fromDate, end: toDate });
+    }
+  };
+
+  const resetFilters = () => {
+    setFromDate("");
+    setToDate("");
+    setCustomRange(null);
+    setOffset(0);
+  };
+
+  const exportCsv = () => {
+    if (statements.length === 0 || !period) return;
+
+    const headers = ["Name", "Hours", "Regular hours", "Overtime hours", "Yards", "Miles", "Revenue", "Total pay"];
+    const rows = statements.map((s) => [
+      s.name,
+      formatOptional(s.workedHours, 2),
+      formatOptional(s.regularHours, 2),
+      formatOptional(s.overtimeHours, 2),
+      s.jobsCompleted === null ? "" : s.jobsCompleted.toString(),
+      formatOptional(s.miles, 1),
+      s.revenueCents === null ? "" : (s.revenueCents / 100).toFixed(2),
+      (s.totalCents / 100).toFixed(2),
+    ]);
+
+    const csvContent = [
+      headers.join(","),
+      ...rows.map((row) => row.map((cell) => `"${cell}"`).join(",")),
+    ].join("\n");
+
+    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.setAttribute("href", url);
+    link.setAttribute("download", `pay-run-${period.start}-to-${period.end}.csv`);
+    link.style.visibility = "hidden";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Payroll Report</h1>
+          {period && (
+            <p className="text-sm text-gray-500 mt-1">
+              {formatDate(period.start)} – {formatDate(period.end)}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={exportCsv}
+            disabled={loading || statements.length === 0}
+            className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            CSV
+          </button>
+          <button
+            onClick={fetchPayRun}
+            disabled={loading}
+            className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+          </button>
+        </div>
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <div className="flex items-center gap-2 p-4 bg-red-50 text-red-700 rounded-lg">
+          <AlertCircle className="w-5 h-5 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-4">
+        <div className="flex flex-wrap items-end gap-4">
+          {/* Pay period navigation */}
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => {
+                setCustomRange(null);
+                setOffset(offset - 1);
+              }}
+              className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg"
+              title="Previous pay period"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="text-sm text-gray-700 min-w-[120px] text-center">
+              {customRange ? "Custom range" : offset === 0 ? "Current period" : `${-offset} period${offset !== -1 ? "s" : ""} ago`}
+            </span>
+            <button
+              onClick={() => {
+                setCustomRange(null);
+                setOffset(Math.min(0, offset + 1));
+              }}
+              disabled={!customRange && offset >= 0}
+              className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg disabled:opacity-50 disabled:hover:bg-transparent"
+              title="Next pay period"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+
+          {/* From Date */}
+          <div className="relative">
+            <div className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400">
+              <Calendar className="w-4 h-4" />
+            </div>
+            <input
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="pl-10 pr-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 min-w-[180px]"
+            />
+          </div>
+
+          {/* End Date */}
+          <div className="relative">
+            <div className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400">
+              <Calendar className="w-4 h-4" />
+            </div>
+            <input
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="pl-10 pr-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 min-w-[180px]"
+            />
+          </div>
+
+          {/* GO Button */}
+          <button
+            onClick={handleGo}
+            disabled={loading || !fromDate || !toDate}
+            className="px-6 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50 font-medium"
+          >
+            GO
+          </button>
+        </div>
+
+        {/* Reset Filters */}
+        <div className="mt-3">
+          <button
+            onClick={resetFilters}
+            className="text-teal-600 hover:text-teal-700 text-sm font-medium"
+          >
+            Reset Filters
+          </button>
+        </div>
+      </div>
+
+      {/* Totals */}
+      {totals && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-4">
+            <p className="text-sm text-gray-500">Staff Paid</p>
+            <p className="text-2xl font-bold text-gray-900">{totals.staffCount}</p>
+          </div>
+          <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-4">
+            <p className="text-sm text-gray-500">Total Payroll</p>
+            <p className="text-2xl font-bold text-teal-600">{formatCents(totals.totalCents)}</p>
+          </div>
+          <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-4">
+            <p className="text-sm text-gray-500">Open Shifts</p>
+            <p className={`text-2xl font-bold ${totals.incompleteShiftCount > 0 ? "text-red-600" : "text-gray-900"}`}>
+              {totals.incompleteShiftCount}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {totals && totals.incompleteShiftCount > 0 && (
+        <div className="flex items-center gap-2 p-4 bg-yellow-50 text-yellow-800 rounded-lg text-sm">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+          Shifts without a clock-out are excluded from hours. Close them in{" "}
+          <Link href="/app/office/shifts" className="underline font-medium">
+            Shifts
+          </Link>{" "}
+          before running payroll.
+        </div>
+      )}
+
+      {/* Table */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-100">
+              <tr>
+                <th className="w-8 px-4 py-3" />
+                <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">Name</th>
+                <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase">Hours</th>
+                <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase">Overtime</th>
+                <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase">Yards</th>
+                <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase">Miles</th>
+                <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase">Revenue</th>
+                <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase">Total Pay</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {loading ? (
+                <tr>
+                  <td colSpan={8} className="px-4 py-12 text-center">
+                    <div className="animate-spin w-6 h-6 border-2 border-teal-500 border-t-transparent rounded-full mx-auto" />
+                  </td>
+                </tr>
+              ) : statements.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-4 py-12 text-center text-gray-500">
+                    No payroll for this period
+                  </td>
+                </tr>
+              ) : (
+                statements.map((s) => (
+                  <Fragment key={s.userId}>
+                    <tr
+                      className="hover:bg-gray-50 cursor-pointer"
+                      onClick={() => setExpanded(expanded === s.userId ? null : s.userId)}
+                    >
+                      <td className="px-4 py-3 text-gray-400">
+                        {expanded === s.userId ? (
+                          <ChevronDown className="w-4 h-4" />
+                        ) : (
+                          <ChevronRight className="w-4 h-4" />
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <div className="flex items-center gap-2">
+                          {s.hasIncompleteShifts && (
+                            <AlertTriangle className="w-4 h-4 text-red-500 flex-shrink-0" />
+                          )}
+                          <Link
+                            href={`/app/office/staff/${s.userId}`}
+                            onClick={(e) => e.stopPropagation()}
+                            className="text-teal-600 hover:text-teal-700 hover:underline"
+                          >
+                            {s.name}
+                          </Link>
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900 text-right">{formatOptional(s.workedHours, 2)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-900 text-right">{formatOptional(s.overtimeHours, 2)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-900 text-right">{s.jobsCompleted ?? "—"}</td>
+                      <td className="px-4 py-3 text-sm text-gray-900 text-right">{formatOptional(s.miles, 1)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-900 text-right">
+                        {s.revenueCents === null ? "—" : formatCents(s.revenueCents)}
+                      </td>
+                      <td className="px-4 py-3 text-sm font-semibold text-gray-900 text-right">
+                        {formatCents(s.totalCents)}
+                      </td>
+                    </tr>
+                    {expanded === s.userId && (
+                      <tr className="bg-gray-50">
+                        <td />
+                        <td colSpan={7} className="px-4 py-4">
+                          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                            <div>
+                              <p className="text-xs font-medium text-gray-500 uppercase mb-2">Line Items</p>
+                              {s.lineItems.length === 0 ? (
+                                <p className="text-sm text-gray-500">No pay rates configured</p>
+                              ) : (
+                                <table className="w-full text-sm">
+                                  <tbody className="divide-y divide-gray-200">
+                                    {s.lineItems.map((item) => (
+                                      <tr key={item.type}>
+                                        <td className="py-1.5 text-gray-900">{item.description}</td>
+                                        <td className="py-1.5 text-gray-500 text-right">
+                                          {item.quantity !== null && item.quantity}
+                                          {item.quantity !== null && item.rateCents !== null && " @ "}
+                                          {item.rateCents !== null && formatCents(item.rateCents)}
+                                        </td>
+                                        <td className="py-1.5 text-gray-900 text-right">{formatCents(item.amountCents)}</td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              )}
+                            </div>
+                            <div>
+                              <p className="text-xs font-medium text-gray-500 uppercase mb-2">Daily Breakdown</p>
+                              {s.days.length === 0 ? (
+                                <p className="text-sm text-gray-500">No time or jobs recorded</p>
+                              ) : (
+                                <table className="w-full text-sm">
+                                  <tbody className="divide-y divide-gray-200">
+                                    {s.days.map((day) => (
+                                      <tr key={day.date}>
+                                        <td className="py-1.5 text-gray-900">{formatDate(day.date)}</td>
+                                        {s.workedHours !== null && (
+                                          <td className="py-1.5 text-gray-500 text-right">
+                                            {(day.workedMinutes / 60).toFixed(2)} h
+                                            {day.overtimeMinutes > 0 && ` (${(day.overtimeMinutes / 60).toFixed(2)} OT)`}
+                                          </td>
+                                        )}
+                                        {s.jobsCompleted !== null && (
+                                          <td className="py-1.5 text-gray-500 text-right">
+                                            {day.jobsCompleted} yard{day.jobsCompleted !== 1 ? "s" : ""}
+                                          </td>
+                                        )}
+                                        {s.miles !== null && (
+                                          <td className="py-1.5 text-gray-500 text-right">{day.miles.toFixed(1)} mi</td>
+                                        )}
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              )}
+                            </div>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
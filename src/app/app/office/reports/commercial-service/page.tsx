@@ -0,0 +1,307 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { RefreshCw, AlertCircle, Download, Printer } from "lucide-react";
+
+interface StationChecklist {
+  stationsTotal: number;
+  stationsServiced: number;
+  bagsRestocked: number;
+  cansEmptied: number;
+  notes: string | null;
+}
+
+interface Visit {
+  jobId: string;
+  date: string;
+  status: string;
+  address: string | null;
+  techs: string[];
+  crewMinutes: number;
+  splitIndex: number | null;
+  splitCount: number | null;
+  checklist: StationChecklist | null;
+}
+
+interface Report {
+  client: { id: string; name: string; companyName: string | null };
+  month: string;
+  visits: Visit[];
+  totals: {
+    scheduled: number;
+    completed: number;
+    skipped: number;
+    stationsServiced: number;
+    stationVisits: number;
+    bagsRestocked: number;
+    cansEmptied: number;
+    crewHours: number;
+  };
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  SCHEDULED: "Scheduled",
+  EN_ROUTE: "En Route",
+  IN_PROGRESS: "In Progress",
+  COMPLETED: "Completed",
+  SKIPPED: "Skipped",
+};
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString("en-US", { month: "long", year: "numeric" });
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" });
+
+export default function CommercialServiceReportPage() {
+  const [clients, setClients] = useState<Array<{ id: string; name: string }>>([]);
+  const [clientId, setClientId] = useState("");
+  const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7));
+  const [report, setReport] = useState<Report | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchClients = async () => {
+      const res = await fetch("/api/admin/reports/commercial-service");
+      const data = await res.json();
+      if (res.ok) {
+        setClients(data.clients || []);
+        if (data.clients?.length > 0) setClientId(data.clients[0].id);
+      } else {
+        setError(data.error || "Failed to load clients");
+      }
+    };
+    fetchClients();
+  }, []);
+
+  const fetchReport = useCallback(async () => {
+    if (!clientId || !month) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ clientId, month });
+      const res = await fetch(`/api/admin/reports/commercial-service?${params}`);
+      const data = await res.json();
+      if (res.ok) {
+        setReport(data.report);
+      } else {
+        setError(data.error || "Failed to load report");
+      }
+    } catch (err) {
+      console.error("Error fetching commercial service report:", err);
+      setError("Failed to load report");
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId, month]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const exportCsv = () => {
+    if (!report || report.visits.length === 0) return;
+
+    const headers = [
+      "Date", "Status", "Part", "Address", "Technicians", "Crew minutes",
+      "Stations serviced", "Stations on site", "Bags restocked", "Cans emptied", "Notes",
+    ];
+    const rows = report.visits.map((visit) => [
+      visit.date,
+      STATUS_LABELS[visit.status] || visit.status,
+      visit.splitCount ? `${visit.splitIndex} of ${visit.splitCount}` : "",
+      visit.address || "",
+      visit.techs.join("; "),
+      visit.crewMinutes ? visit.crewMinutes.toString() : "",
+      visit.checklist ? visit.checklist.stationsServiced.toString() : "",
+      visit.checklist ? visit.checklist.stationsTotal.toString() : "",
+      visit.checklist ? visit.checklist.bagsRestocked.toString() : "",
+      visit.checklist ? visit.checklist.cansEmptied.toString() : "",
+      visit.checklist?.notes || "",
+    ]);
+
+    const csvContent = [
+      headers.join(","),
+      ...rows.map((row) => row.map((cell) => `"${cell.replace(/"/g, '""')}"`).join(",")),
+    ].join("\n");
+
+    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.setAttribute("href", url);
+    link.setAttribute("download", `service-report-${report.client.name.replace(/\W+/g, "-").toLowerCase()}-${report.month}.csv`);
+    link.style.visibility = "hidden";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const totals = report?.totals;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between print:hidden">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Commercial Service Report</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Monthly visits, station checklists and crew time for a commercial client.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={exportCsv}
+            disabled={!report || report.visits.length === 0}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-teal-700 bg-teal-50 rounded-lg hover:bg-teal-100 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            Export CSV
+          </button>
+          <button
+            onClick={() => window.print()}
+            disabled={!report}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+          >
+            <Printer className="w-4 h-4" />
+            Print
+          </button>
+          <button
+            onClick={fetchReport}
+            disabled={loading}
+            className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-4 bg-red-50 text-red-700 rounded-lg">
+          <AlertCircle className="w-5 h-5 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-4 print:hidden">
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Client</label>
+            <select
+              value={clientId}
+              onChange={(e) => setClientId(e.target.value)}
+              className="px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 min-w-[220px]"
+            >
+              {clients.length === 0 && <option value="">No commercial clients</option>}
+              {clients.map((client) => (
+                <option key={client.id} value={client.id}>
+                  {client.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Month</label>
+            <input
+              type="month"
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+              className="px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+            />
+          </div>
+        </div>
+      </div>
+
+      {report && totals && (
+        <>
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">
+              {report.client.companyName || report.client.name}
+            </h2>
+            <p className="text-sm text-gray-500">Service report for {formatMonth(report.month)}</p>
+          </div>
+
+          {/* Totals */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {[
+              { label: "Visits completed", value: `${totals.completed} of ${totals.scheduled}` },
+              {
+                label: "Stations serviced",
+                value: totals.stationVisits > 0
+                  ? `${totals.stationsServiced} of ${totals.stationVisits}`
+                  : totals.stationsServiced.toString(),
+              },
+              { label: "Bags restocked", value: totals.bagsRestocked.toString() },
+              { label: "Cans emptied", value: totals.cansEmptied.toString() },
+              { label: "Crew hours", value: totals.crewHours.toString() },
+            ].map((stat) => (
+              <div key={stat.label} className="bg-white rounded-lg shadow-sm border border-gray-100 p-4">
+                <p className="text-xs text-gray-500 uppercase">{stat.label}</p>
+                <p className="text-2xl font-bold text-gray-900 mt-1">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* Visits */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-100 overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-100">
+                  <tr>
+                    <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">Visit</th>
+                    <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">Technicians</th>
+                    <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase">Stations</th>
+                    <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase">Bags</th>
+                    <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase">Cans</th>
+                    <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">Notes</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {report.visits.length === 0 ? (
+                    <tr>
+                      <td colSpan={6} className="px-4 py-12 text-center text-gray-500">
+                        No visits this month
+                      </td>
+                    </tr>
+                  ) : (
+                    report.visits.map((visit) => (
+                      <tr key={visit.jobId} className="hover:bg-gray-50">
+                        <td className="px-4 py-3">
+                          <Link
+                            href={`/app/office/dispatch/${visit.jobId}`}
+                            className="text-sm font-medium text-teal-600 hover:text-teal-700"
+                          >
+                            {formatDate(visit.date)}
+                          </Link>
+                          <p className="text-xs text-gray-500">
+                            {STATUS_LABELS[visit.status] || visit.status}
+                            {visit.splitCount ? ` · Part ${visit.splitIndex} of ${visit.splitCount}` : ""}
+                          </p>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-700">{visit.techs.join(", ") || "—"}</td>
+                        <td className="px-4 py-3 text-sm text-gray-900 text-right">
+                          {visit.checklist
+                            ? `${visit.checklist.stationsServiced} / ${visit.checklist.stationsTotal}`
+                            : "—"}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-900 text-right">
+                          {visit.checklist?.bagsRestocked ?? "—"}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-900 text-right">
+                          {visit.checklist?.cansEmptied ?? "—"}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-500">{visit.checklist?.notes || ""}</td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
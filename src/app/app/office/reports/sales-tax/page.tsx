@@ -0,0 +1,259 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { RefreshCw, AlertCircle, Download } from "lucide-react";
+
+type TaxCategory = "SERVICE_PLAN" | "ADD_ON" | "CROSS_SELL" | "GIFT_CARD";
+
+interface ReportRow {
+  period: string;
+  jurisdiction: string | null;
+  category: TaxCategory;
+  ratePercent: number | null;
+  taxableSalesCents: number;
+  taxCents: number;
+  invoiceCount: number;
+}
+
+const CATEGORY_LABELS: Record<TaxCategory, string> = {
+  SERVICE_PLAN: "Service plan",
+  ADD_ON: "Add-on",
+  CROSS_SELL: "Cross-sell",
+  GIFT_CARD: "Gift card",
+};
+
+const NO_RULE_LABEL = "No matching rule";
+
+const formatCurrency = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString("en-US", { month: "short", year: "numeric" });
+
+const startOfMonth = () => `${new Date().toISOString().slice(0, 7)}-01`;
+
+export default function SalesTaxReportPage() {
+  const [from, setFrom] = useState(startOfMonth);
+  const [to, setTo] = useState(() => new Date().toISOString().split("T")[0]);
+  const [rows, setRows] = useState<ReportRow[]>([]);
+  const [totals, setTotals] = useState({ taxableSalesCents: 0, taxCents: 0 });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReport = useCallback(async () => {
+    if (!from || !to) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ from, to });
+      const res = await fetch(`/api/admin/reports/sales-tax?${params}`);
+      const data = await res.json();
+      if (res.ok) {
+        setRows(data.rows || []);
+        setTotals(data.totals || { taxableSalesCents: 0, taxCents: 0 });
+      } else {
+        setError(data.error || "Failed to load report");
+      }
+    } catch (err) {
+      console.error("Error fetching sales tax report:", err);
+      setError("Failed to load report");
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  // Tax per jurisdiction across the whole period
+  const byJurisdiction = Object.values(
+    rows.reduce<Record<string, { jurisdiction: string; taxableSalesCents: number; taxCents: number }>>(
+      (acc, row) => {
+        const name = row.jurisdiction || NO_RULE_LABEL;
+        acc[name] = acc[name] || { jurisdiction: name, taxableSalesCents: 0, taxCents: 0 };
+        acc[name].taxableSalesCents += row.taxableSalesCents;
+        acc[name].taxCents += row.taxCents;
+        return acc;
+      },
+      {}
+    )
+  ).sort((a, b) => b.taxCents - a.taxCents);
+
+  const exportCsv = () => {
+    if (rows.length === 0) return;
+
+    const headers = ["Period", "Jurisdiction", "Category", "Rate %", "Invoices", "Taxable sales", "Tax"];
+    const csvRows = rows.map((row) => [
+      row.period,
+      row.jurisdiction || NO_RULE_LABEL,
+      CATEGORY_LABELS[row.category] || row.category,
+      row.ratePercent === null ? "" : row.ratePercent.toFixed(3),
+      row.invoiceCount.toString(),
+      (row.taxableSalesCents / 100).toFixed(2),
+      (row.taxCents / 100).toFixed(2),
+    ]);
+
+    const csvContent = [
+      headers.join(","),
+      ...csvRows.map((row) => row.map((cell) => `"${cell.replace(/"/g, '""')}"`).join(",")),
+    ].join("\n");
+
+    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.setAttribute("href", url);
+    link.setAttribute("download", `sales-tax-${from}-to-${to}.csv`);
+    link.style.visibility = "hidden";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Sales Tax Report</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Taxable sales and tax billed by month, jurisdiction and category. Open, paid and failed invoices
+            count; drafts and voided invoices don&apos;t.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={exportCsv}
+            disabled={rows.length === 0}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-teal-700 bg-teal-50 rounded-lg hover:bg-teal-100 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            Export CSV
+          </button>
+          <button
+            onClick={fetchReport}
+            disabled={loading}
+            className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-4 bg-red-50 text-red-700 rounded-lg">
+          <AlertCircle className="w-5 h-5 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">From</label>
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">To</label>
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+            />
+          </div>
+          <Link
+            href="/app/office/settings/sales-tax"
+            className="ml-auto text-sm font-medium text-teal-600 hover:text-teal-700"
+          >
+            Manage tax rules
+          </Link>
+        </div>
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {[
+          { label: "Taxable sales", value: formatCurrency(totals.taxableSalesCents) },
+          { label: "Tax billed", value: formatCurrency(totals.taxCents) },
+          { label: "Jurisdictions", value: byJurisdiction.filter((j) => j.jurisdiction !== NO_RULE_LABEL).length.toString() },
+        ].map((stat) => (
+          <div key={stat.label} className="bg-white rounded-lg shadow-sm border border-gray-100 p-4">
+            <p className="text-xs text-gray-500 uppercase">{stat.label}</p>
+            <p className="text-2xl font-bold text-gray-900 mt-1">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* By jurisdiction */}
+      {byJurisdiction.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-4">
+          <h2 className="text-sm font-semibold text-gray-900 mb-3">By Jurisdiction</h2>
+          <div className="space-y-2">
+            {byJurisdiction.map((j) => (
+              <div key={j.jurisdiction} className="flex items-center justify-between text-sm">
+                <span className={j.jurisdiction === NO_RULE_LABEL ? "text-gray-400" : "text-gray-700"}>
+                  {j.jurisdiction}
+                </span>
+                <span className="text-gray-500">
+                  {formatCurrency(j.taxableSalesCents)} sales ·{" "}
+                  <span className="font-semibold text-gray-900">{formatCurrency(j.taxCents)}</span> tax
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Detail */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-100">
+              <tr>
+                <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">Period</th>
+                <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">Jurisdiction</th>
+                <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">Category</th>
+                <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase">Rate</th>
+                <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase">Invoices</th>
+                <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase">Taxable Sales</th>
+                <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase">Tax</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-4 py-12 text-center text-gray-500">
+                    {loading ? "Loading..." : "No taxable sales in this period"}
+                  </td>
+                </tr>
+              ) : (
+                rows.map((row) => (
+                  <tr key={`${row.period}-${row.jurisdiction}-${row.category}`} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm text-gray-900">{formatMonth(row.period)}</td>
+                    <td className={`px-4 py-3 text-sm ${row.jurisdiction ? "text-gray-900" : "text-gray-400"}`}>
+                      {row.jurisdiction || NO_RULE_LABEL}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{CATEGORY_LABELS[row.category] || row.category}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700 text-right">
+                      {row.ratePercent === null ? "—" : `${row.ratePercent.toFixed(3)}%`}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700 text-right">{row.invoiceCount}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900 text-right">{formatCurrency(row.taxableSalesCents)}</td>
+                    <td className="px-4 py-3 text-sm font-semibold text-gray-900 text-right">{formatCurrency(row.taxCents)}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
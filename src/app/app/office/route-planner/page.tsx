@@ -16,6 +16,7 @@ import { RoutePlannerMap } from "@/components/route-planner/RoutePlannerMap";
 import { AddressSearch } from "@/components/route-planner/AddressSearch";
 import { AiRecommendationPanel } from "@/components/route-planner/AiRecommendationPanel";
 import { GoogleMapsProvider } from "@/components/route-planner/GoogleMapsProvider";
+import { CapacityHeatmap, type DayLoad } from "@/components/route-planner/CapacityHeatmap";
 
 interface MapClient {
   id: string;
@@ -56,6 +57,12 @@ interface NewClientLocation {
   zipCode: string;
 }
 
+interface CapacityResponse {
+  enforcement: "WARN" | "BLOCK";
+  days: string[];
+  loads: DayLoad[];
+}
+
 interface MapDataResponse {
   clients: MapClient[];
   techs: MapTech[];
@@ -77,6 +84,7 @@ export default function RoutePlannerPage() {
   const [techs, setTechs] = useState<MapTech[]>([]);
   const [bounds, setBounds] = useState<MapBounds | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [capacity, setCapacity] = useState<CapacityResponse | null>(null);
 
   // Filters
   const [selectedDay, setSelectedDay] = useState<string | null>(null);
@@ -93,6 +101,7 @@ export default function RoutePlannerPage() {
     suggestedTechName: string;
     nearbyClients: Array<{ clientName: string; address: string; distance: string }>;
     reasoning: string;
+    capacityWarning?: string | null;
   } | null>(null);
 
   // Fetch map data
@@ -127,6 +136,23 @@ export default function RoutePlannerPage() {
     fetchMapData();
   }, [fetchMapData]);
 
+  // Weekly load per tech/day for the heatmap
+  const fetchCapacity = useCallback(async () => {
+    try {
+      const res = await fetch("/api/admin/route-planner/capacity");
+      const data = await res.json();
+      if (res.ok) {
+        setCapacity(data);
+      }
+    } catch (err) {
+      console.error("Error fetching route capacity:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCapacity();
+  }, [fetchCapacity]);
+
   // Handle address selection
   const handleAddressSelect = (result: {
     address: string;
@@ -184,6 +210,7 @@ export default function RoutePlannerPage() {
           suggestedTechName: suggestion.suggested_state?.techName || "Unassigned",
           nearbyClients: suggestion.suggested_state?.nearbyClients || [],
           reasoning: suggestion.reasoning || "",
+          capacityWarning: suggestion.suggested_state?.capacityWarning || null,
         });
       }
     } catch (err) {
@@ -211,7 +238,10 @@ export default function RoutePlannerPage() {
           </p>
         </div>
         <button
-          onClick={fetchMapData}
+          onClick={() => {
+            fetchMapData();
+            fetchCapacity();
+          }}
           disabled={loading}
           className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50"
         >
@@ -279,6 +309,21 @@ export default function RoutePlannerPage() {
         />
       )}
 
+      {/* Weekly load heatmap - click a cell to filter the map to that route */}
+      {capacity && (
+        <CapacityHeatmap
+          days={capacity.days}
+          loads={capacity.loads}
+          enforcement={capacity.enforcement}
+          selectedDay={selectedDay}
+          selectedTechId={selectedTechId}
+          onCellClick={(day, techId) => {
+            setSelectedDay(day);
+            setSelectedTechId(techId);
+          }}
+        />
+      )}
+
       {/* Filters */}
       <div className="flex items-center gap-4">
         <div className="flex items-center gap-2">
@@ -17,6 +17,7 @@ import {
   Sparkles,
   Plus,
   AlertTriangle,
+  Route as RouteIcon,
 } from "lucide-react";
 import { GoogleMapsProvider } from "@/components/route-planner/GoogleMapsProvider";
 import {
@@ -24,6 +25,7 @@ import {
   RouteData,
   RouteStop,
 } from "@/components/route-manager/RouteManagerMap";
+import { RouteCrewEditor } from "@/components/route-manager/RouteCrewEditor";
 
 interface Tech {
   id: string;
@@ -41,6 +43,33 @@ interface RouteSummary {
   unassignedJobs: number;
 }
 
+interface SequenceSummary {
+  miles: number;
+  driveMinutes: number;
+  serviceMinutes: number;
+  waitMinutes: number;
+  totalMinutes: number;
+  lateMinutes: number;
+  windowViolations: number;
+}
+
+interface OptimizationPreview {
+  routeId: string;
+  message: string;
+  improved: boolean;
+  before: SequenceSummary;
+  after: SequenceSummary;
+  savings: { miles: number; minutes: number };
+  proposedOrder: Array<{
+    stopId: string;
+    order: number;
+    address: string | null;
+    estimatedArrival: string | null;
+    lateMinutes: number;
+  }>;
+  unlocatedStopIds: string[];
+}
+
 interface UnassignedJob {
   id: string;
   status: string;
@@ -117,6 +146,8 @@ function RouteManagerContent() {
   const [newRouteName, setNewRouteName] = useState("");
   const [creatingRoute, setCreatingRoute] = useState(false);
   const [viewMode, setViewMode] = useState<"routes" | "unassigned">("routes");
+  const [optimizing, setOptimizing] = useState(false);
+  const [optimizationPreview, setOptimizationPreview] = useState<OptimizationPreview | null>(null);
 
   // Fetch route data
   const fetchRoutes = useCallback(async () => {
@@ -280,6 +311,57 @@ function RouteManagerContent() {
     }
   };
 
+  // Preview a new stop order for a route (nothing is saved yet)
+  const previewOptimization = async (routeId: string) => {
+    setOptimizing(true);
+    try {
+      const response = await fetch("/api/admin/routes/optimize", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ routeId, dryRun: true }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to optimize route");
+      }
+
+      setOptimizationPreview({ routeId, ...data });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to optimize route");
+    } finally {
+      setOptimizing(false);
+    }
+  };
+
+  // Save the previewed stop order
+  const acceptOptimization = async () => {
+    if (!optimizationPreview) return;
+    setOptimizing(true);
+    try {
+      const response = await fetch("/api/admin/routes/optimize", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          routeId: optimizationPreview.routeId,
+          stopOrder: optimizationPreview.proposedOrder.map((s) => s.stopId),
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save new stop order");
+      }
+
+      setOptimizationPreview(null);
+      fetchRoutes();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to save new stop order");
+    } finally {
+      setOptimizing(false);
+    }
+  };
+
   return (
     <GoogleMapsProvider>
       <div className="h-[calc(100vh-140px)] flex flex-col">
@@ -530,9 +612,25 @@ function RouteManagerContent() {
                             {selectedRoute.assignedUser?.fullName || "Unassigned"}
                           </span>
                         </div>
-                        <span className="text-sm text-gray-500">
-                          {selectedRoute.progress.completed}/{selectedRoute.progress.total} completed
-                        </span>
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm text-gray-500">
+                            {selectedRoute.progress.completed}/{selectedRoute.progress.total} completed
+                          </span>
+                          {selectedRoute.stops.length > 1 && (
+                            <button
+                              onClick={() => previewOptimization(selectedRoute.id)}
+                              disabled={optimizing}
+                              className="p-1 text-teal-600 hover:text-teal-700 hover:bg-teal-50 rounded disabled:opacity-50"
+                              title="Optimize stop order"
+                            >
+                              {optimizing ? (
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                              ) : (
+                                <RouteIcon className="w-4 h-4" />
+                              )}
+                            </button>
+                          )}
+                        </div>
                       </div>
                       <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
                         <div
@@ -540,6 +638,12 @@ function RouteManagerContent() {
                           style={{ width: `${selectedRoute.progress.percentage}%` }}
                         />
                       </div>
+                      <RouteCrewEditor
+                        key={selectedRoute.id}
+                        routeId={selectedRoute.id}
+                        leadId={selectedRoute.assignedUser?.id || null}
+                        techs={techs}
+                      />
                     </div>
                   )}
 
@@ -845,6 +949,84 @@ function RouteManagerContent() {
           </div>
         </div>
       )}
+
+      {/* Stop Order Optimization Preview */}
+      {optimizationPreview && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex items-center justify-center min-h-screen px-4">
+            <div
+              className="fixed inset-0 bg-black/30"
+              onClick={() => !optimizing && setOptimizationPreview(null)}
+            />
+            <div className="relative bg-white rounded-lg shadow-xl max-w-lg w-full p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">
+                Optimized Stop Order
+              </h3>
+              <p className="text-sm text-gray-500 mb-4">{optimizationPreview.message}</p>
+
+              <div className="grid grid-cols-3 gap-2 text-sm mb-4">
+                <div />
+                <div className="font-medium text-gray-500">Current</div>
+                <div className="font-medium text-gray-500">Proposed</div>
+                <div className="text-gray-600">Miles</div>
+                <div className="text-gray-900">{optimizationPreview.before.miles}</div>
+                <div className="text-gray-900 font-medium">{optimizationPreview.after.miles}</div>
+                <div className="text-gray-600">Drive time</div>
+                <div className="text-gray-900">{optimizationPreview.before.driveMinutes} min</div>
+                <div className="text-gray-900 font-medium">{optimizationPreview.after.driveMinutes} min</div>
+                <div className="text-gray-600">Total time</div>
+                <div className="text-gray-900">{optimizationPreview.before.totalMinutes} min</div>
+                <div className="text-gray-900 font-medium">{optimizationPreview.after.totalMinutes} min</div>
+                <div className="text-gray-600">Missed windows</div>
+                <div className="text-gray-900">{optimizationPreview.before.windowViolations}</div>
+                <div className="text-gray-900 font-medium">{optimizationPreview.after.windowViolations}</div>
+              </div>
+
+              <div className="max-h-64 overflow-y-auto border border-gray-100 rounded-lg divide-y divide-gray-100">
+                {optimizationPreview.proposedOrder.map((stop) => (
+                  <div key={stop.stopId} className="flex items-center gap-3 px-3 py-2 text-sm">
+                    <span className="w-6 text-gray-400">{stop.order}</span>
+                    <span className="flex-1 truncate text-gray-900">
+                      {stop.address || "Unknown address"}
+                    </span>
+                    {stop.lateMinutes > 0 && (
+                      <span className="text-xs text-red-600">{stop.lateMinutes} min late</span>
+                    )}
+                    <span className="text-gray-500">
+                      {stop.estimatedArrival?.slice(0, 5) || "--:--"}
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              {optimizationPreview.unlocatedStopIds.length > 0 && (
+                <p className="mt-3 text-xs text-orange-600">
+                  {optimizationPreview.unlocatedStopIds.length} stop
+                  {optimizationPreview.unlocatedStopIds.length !== 1 ? "s have" : " has"} no
+                  coordinates and {optimizationPreview.unlocatedStopIds.length !== 1 ? "were" : "was"} kept at the end.
+                </p>
+              )}
+
+              <div className="mt-6 flex justify-end gap-3">
+                <button
+                  onClick={() => setOptimizationPreview(null)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+                  disabled={optimizing}
+                >
+                  Keep Current Order
+                </button>
+                <button
+                  onClick={acceptOptimization}
+                  disabled={optimizing || !optimizationPreview.improved}
+                  className="px-4 py-2 text-sm font-medium text-white bg-teal-600 rounded-lg hover:bg-teal-700 disabled:opacity-50"
+                >
+                  {optimizing ? "Saving..." : "Accept New Order"}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
     </GoogleMapsProvider>
   );
 }
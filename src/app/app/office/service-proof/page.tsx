@@ -0,0 +1,403 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { RefreshCw, AlertCircle, Check, Download, MapPin, Camera, DoorClosed, X } from "lucide-react";
+
+interface ProofIssue {
+  code: string;
+  message: string;
+}
+
+interface FlaggedCompletion {
+  jobId: string;
+  scheduledDate: string;
+  completedAt: string | null;
+  status: "FLAGGED" | "REVIEWED";
+  client: string | null;
+  clientId: string | null;
+  tech: string | null;
+  address: string | null;
+  geocode: { lat: number; lng: number } | null;
+  issues: ProofIssue[];
+  rules: { minPhotos: number; requireGatePhoto: boolean; maxDistanceMeters: number } | null;
+  photoCount: number;
+  gatePhoto: boolean;
+  checkin: { lat: number; lng: number; accuracy: number | null; at: string; source: "DEVICE" | "PING" } | null;
+  distanceMeters: number | null;
+  reviewedAt: string | null;
+  reviewedBy: string | null;
+  reviewNote: string | null;
+}
+
+const STATUS_OPTIONS = [
+  { value: "FLAGGED", label: "Needs Review" },
+  { value: "REVIEWED", label: "Reviewed" },
+  { value: "ALL", label: "All Flagged" },
+];
+
+const formatDateTime = (value: string | null) =>
+  value
+    ? new Date(value).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })
+    : "—";
+
+export default function ServiceProofPage() {
+  const [items, setItems] = useState<FlaggedCompletion[]>([]);
+  const [flaggedCount, setFlaggedCount] = useState(0);
+  const [truncated, setTruncated] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState("FLAGGED");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [reviewing, setReviewing] = useState<FlaggedCompletion | null>(null);
+  const [reviewNote, setReviewNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const fetchItems = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ status: statusFilter });
+      if (fromDate) params.set("from", fromDate);
+      if (toDate) params.set("to", toDate);
+      const res = await fetch(`/api/admin/service-proof?${params}`);
+      const data = await res.json();
+      if (res.ok) {
+        setItems(data.items || []);
+        setFlaggedCount(data.flaggedCount || 0);
+        setTruncated(!!data.truncated);
+      } else {
+        setError(data.error || "Failed to load flagged completions");
+      }
+    } catch (err) {
+      console.error("Error fetching flagged completions:", err);
+      setError("Failed to load flagged completions");
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, fromDate, toDate]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  const submitReview = async () => {
+    if (!reviewing) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/service-proof", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ jobId: reviewing.jobId, note: reviewNote }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to mark reviewed");
+        return;
+      }
+      setNotice("Marked reviewed");
+      setTimeout(() => setNotice(null), 3000);
+      setReviewing(null);
+      setReviewNote("");
+      fetchItems();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // One row per flagged completion with everything a dispute needs
+  const exportCsv = () => {
+    if (items.length === 0) return;
+
+    const headers = [
+      "Job ID", "Service date", "Completed at", "Client", "Address", "Technician",
+      "Issues", "Photos", "Gate photo", "Check-in lat", "Check-in lng", "Check-in accuracy (m)",
+      "Check-in time", "Check-in source", "Property lat", "Property lng", "Distance (m)",
+      "Distance limit (m)", "Status", "Reviewed by", "Reviewed at", "Review note",
+    ];
+    const rows = items.map((item) => [
+      item.jobId,
+      item.scheduledDate,
+      item.completedAt || "",
+      item.client || "",
+      item.address || "",
+      item.tech || "",
+      item.issues.map((issue) => issue.message).join("; "),
+      item.photoCount.toString(),
+      item.gatePhoto ? "Yes" : "No",
+      item.checkin ? item.checkin.lat.toString() : "",
+      item.checkin ? item.checkin.lng.toString() : "",
+      item.checkin?.accuracy != null ? Math.round(item.checkin.accuracy).toString() : "",
+      item.checkin?.at || "",
+      item.checkin?.source || "",
+      item.geocode ? item.geocode.lat.toString() : "",
+      item.geocode ? item.geocode.lng.toString() : "",
+      item.distanceMeters != null ? item.distanceMeters.toString() : "",
+      item.rules?.maxDistanceMeters ? item.rules.maxDistanceMeters.toString() : "",
+      item.status,
+      item.reviewedBy || "",
+      item.reviewedAt || "",
+      item.reviewNote || "",
+    ]);
+
+    const csvContent = [
+      headers.join(","),
+      ...rows.map((row) => row.map((cell) => `"${cell.replace(/"/g, '""')}"`).join(",")),
+    ].join("\n");
+
+    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.setAttribute("href", url);
+    link.setAttribute("download", `service-proof-flags-${new Date().toISOString().split("T")[0]}.csv`);
+    link.style.visibility = "hidden";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Service Proof Review</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Completions that missed the photo or GPS rules set in{" "}
+            <Link href="/app/office/settings/field-tech-app" className="text-teal-600 hover:text-teal-700">
+              Field Tech App settings
+            </Link>
+            . {flaggedCount} waiting for review.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={exportCsv}
+            disabled={items.length === 0}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-teal-700 bg-teal-50 rounded-lg hover:bg-teal-100 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            Export CSV
+          </button>
+          <button
+            onClick={fetchItems}
+            disabled={loading}
+            className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-4 bg-red-50 text-red-700 rounded-lg">
+          <AlertCircle className="w-5 h-5 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {notice && (
+        <div className="flex items-center gap-2 p-4 bg-green-50 text-green-700 rounded-lg">
+          <Check className="w-5 h-5 flex-shrink-0" />
+          {notice}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Status</label>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className="px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 min-w-[150px]"
+            >
+              {STATUS_OPTIONS.map((status) => (
+                <option key={status.value} value={status.value}>
+                  {status.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Service date from</label>
+            <input
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">To</label>
+            <input
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+            />
+          </div>
+          <button
+            onClick={() => {
+              setStatusFilter("FLAGGED");
+              setFromDate("");
+              setToDate("");
+            }}
+            className="text-teal-600 hover:text-teal-700 text-sm font-medium py-2"
+          >
+            Reset Filters
+          </button>
+        </div>
+      </div>
+
+      {/* Table */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-100">
+              <tr>
+                <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">Visit</th>
+                <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">Technician</th>
+                <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">Issues</th>
+                <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">Proof</th>
+                <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase">Review</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {loading ? (
+                <tr>
+                  <td colSpan={5} className="px-4 py-8 text-center text-gray-500">Loading...</td>
+                </tr>
+              ) : items.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-4 py-8 text-center text-gray-500">
+                    {statusFilter === "FLAGGED" ? "Nothing waiting for review." : "No flagged completions."}
+                  </td>
+                </tr>
+              ) : (
+                items.map((item) => (
+                  <tr key={item.jobId} className="hover:bg-gray-50 align-top">
+                    <td className="px-4 py-3">
+                      {item.clientId ? (
+                        <Link href={`/app/office/clients/${item.clientId}`} className="text-sm font-medium text-teal-600 hover:text-teal-700">
+                          {item.client || "Client"}
+                        </Link>
+                      ) : (
+                        <p className="text-sm font-medium text-gray-900">{item.client || "—"}</p>
+                      )}
+                      <p className="text-xs text-gray-500">{item.address || "—"}</p>
+                      <p className="text-xs text-gray-400">Completed {formatDateTime(item.completedAt)}</p>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{item.tech || "—"}</td>
+                    <td className="px-4 py-3">
+                      <ul className="space-y-1">
+                        {item.issues.map((issue) => (
+                          <li key={issue.code} className="text-sm text-amber-700">{issue.message}</li>
+                        ))}
+                      </ul>
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-600 space-y-1">
+                      <p className="flex items-center gap-1.5"><Camera className="w-3.5 h-3.5" /> {item.photoCount} photo{item.photoCount === 1 ? "" : "s"}</p>
+                      <p className="flex items-center gap-1.5"><DoorClosed className="w-3.5 h-3.5" /> Gate photo: {item.gatePhoto ? "yes" : "no"}</p>
+                      {item.checkin ? (
+                        <a
+                          href={`https://www.google.com/maps/search/?api=1&query=${item.checkin.lat},${item.checkin.lng}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-1.5 text-teal-600 hover:text-teal-700"
+                        >
+                          <MapPin className="w-3.5 h-3.5" />
+                          {item.distanceMeters != null ? `${item.distanceMeters} m away` : "Check-in"}
+                          {item.checkin.source === "PING" ? " (location ping)" : ""}
+                        </a>
+                      ) : (
+                        <p className="flex items-center gap-1.5"><MapPin className="w-3.5 h-3.5" /> No GPS fix</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {item.status === "FLAGGED" ? (
+                        <button
+                          onClick={() => {
+                            setReviewing(item);
+                            setReviewNote("");
+                          }}
+                          className="px-3 py-1.5 text-sm font-medium text-white bg-teal-600 rounded-lg hover:bg-teal-700"
+                        >
+                          Review
+                        </button>
+                      ) : (
+                        <div className="text-xs text-gray-500">
+                          <p>Reviewed {formatDateTime(item.reviewedAt)}</p>
+                          {item.reviewedBy && <p>by {item.reviewedBy}</p>}
+                          {item.reviewNote && <p className="text-gray-700 mt-1 max-w-[14rem] ml-auto">{item.reviewNote}</p>}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+        {truncated && (
+          <p className="px-4 py-3 text-xs text-gray-500 border-t border-gray-100">
+            Showing the latest {items.length}. Narrow the dates to see older completions.
+          </p>
+        )}
+      </div>
+
+      {/* Review Modal */}
+      {reviewing && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full">
+            <div className="flex items-center justify-between p-4 border-b border-gray-100">
+              <h2 className="text-lg font-semibold text-gray-900">Review Completion</h2>
+              <button onClick={() => setReviewing(null)} className="p-1 text-gray-400 hover:text-gray-600">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-4 space-y-3">
+              <p className="text-sm text-gray-700">
+                {reviewing.client} · {reviewing.address}
+              </p>
+              <ul className="text-sm text-amber-700 list-disc pl-5">
+                {reviewing.issues.map((issue) => (
+                  <li key={issue.code}>{issue.message}</li>
+                ))}
+              </ul>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Note (kept with the export)</label>
+                <textarea
+                  value={reviewNote}
+                  onChange={(e) => setReviewNote(e.target.value)}
+                  rows={3}
+                  placeholder="e.g. Spoke with tech — phone GPS drifted, visit confirmed"
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 text-sm"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2 p-4 border-t border-gray-100">
+              <button
+                onClick={() => setReviewing(null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={submitReview}
+                disabled={saving}
+                className="px-4 py-2 text-sm font-medium text-white bg-teal-600 rounded-lg hover:bg-teal-700 disabled:opacity-50"
+              >
+                {saving ? "Saving..." : "Mark Reviewed"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -14,6 +14,8 @@ interface BillingSettings {
   startOfBillingCycle: "1st" | "15th" | "rolling";
   netTerms: number;
   emailInvoices: boolean;
+  vacationHoldCredit: boolean;
+  dunning: DunningSettings;
   invoiceEmailNoteResidential: string;
   invoiceEmailNoteCommercial: string;
   invoicePdfNoteResidential: { hideFooter: boolean; title: string; content: string };
@@ -22,6 +24,36 @@ interface BillingSettings {
   skippedCleanupsCommercial: SkipReason[];
 }
 
+// Failed-payment follow-up, in days since the first failure (see lib/dunning.ts)
+interface DunningSettings {
+  enabled: boolean;
+  retryDays: number[];
+  reminderDays: number[];
+  escalateDay: number | null;
+  pauseDay: number | null;
+}
+
+const defaultDunning: DunningSettings = {
+  enabled: true,
+  retryDays: [3, 7],
+  reminderDays: [0, 3, 7],
+  escalateDay: 7,
+  pauseDay: 14,
+};
+
+function parseDayList(value: string): number[] {
+  const days = value
+    .split(",")
+    .map((d) => parseInt(d.trim(), 10))
+    .filter((d) => !isNaN(d) && d >= 0);
+  return [...new Set(days)].sort((a, b) => a - b);
+}
+
+function parseOptionalDay(value: string): number | null {
+  const day = parseInt(value.trim(), 10);
+  return isNaN(day) || day < 0 ? null : day;
+}
+
 interface SkipReason {
   reason: string;
   moreInfo: string;
@@ -196,6 +228,8 @@ export default function BillingSettingsPage() {
     startOfBillingCycle: "1st",
     netTerms: 0,
     emailInvoices: true,
+    vacationHoldCredit: false,
+    dunning: defaultDunning,
     invoiceEmailNoteResidential: "",
     invoiceEmailNoteCommercial: "",
     invoicePdfNoteResidential: { hideFooter: false, title: "Thank You!", content: "" },
@@ -210,6 +244,7 @@ export default function BillingSettingsPage() {
   const [editSkipCosts, setEditSkipCosts] = useState<SkipReason[]>([]);
   const [editPdfNote, setEditPdfNote] = useState({ hideFooter: false, title: "", content: "" });
   const [editEmailBody, setEditEmailBody] = useState("");
+  const [editDunning, setEditDunning] = useState({ enabled: "yes", reminderDays: "", retryDays: "", escalateDay: "", pauseDay: "" });
 
   const fetchSettings = useCallback(async () => {
     try {
@@ -227,6 +262,8 @@ export default function BillingSettingsPage() {
           startOfBillingCycle: billing.startOfBillingCycle || "1st",
           netTerms: billing.netTerms || 0,
           emailInvoices: billing.emailInvoices ?? true,
+          vacationHoldCredit: billing.vacationHoldCredit ?? false,
+          dunning: { ...defaultDunning, ...(billing.dunning || {}) },
           invoiceEmailNoteResidential: billing.invoiceEmailNoteResidential || "",
           invoiceEmailNoteCommercial: billing.invoiceEmailNoteCommercial || "",
           invoicePdfNoteResidential: billing.invoicePdfNoteResidential || { hideFooter: false, title: "Thank You!", content: "" },
@@ -411,9 +448,12 @@ export default function BillingSettingsPage() {
                 >
                   EDIT
                 </button>
-                <button className="px-4 py-2 bg-teal-600 text-white text-sm font-medium rounded-md hover:bg-teal-700">
+                <Link
+                  href="/app/office/settings/sales-tax"
+                  className="px-4 py-2 bg-teal-600 text-white text-sm font-medium rounded-md hover:bg-teal-700"
+                >
                   ADD ZONE
-                </button>
+                </Link>
               </div>
             </div>
             <div className="mt-4 p-3 bg-orange-50 border border-orange-200 rounded-md flex items-start gap-2">
@@ -472,6 +512,45 @@ export default function BillingSettingsPage() {
         }}
       />
 
+      {/* Vacation Hold Credit */}
+      <SettingRow
+        title="Vacation Hold Credit"
+        value={settings.vacationHoldCredit ? "YES" : "NO"}
+        description="Credit visits missed during a client vacation hold on the next monthly invoice. Applies to holds created after the change; the office can override it per hold."
+        onEdit={() => {
+          setEditValue(settings.vacationHoldCredit ? "yes" : "no");
+          setEditModal("vacationHoldCredit");
+        }}
+      />
+
+      {/* Failed Payment Follow-up */}
+      <SettingRow
+        title="Failed Payment Follow-up"
+        value={
+          settings.dunning.enabled
+            ? [
+                settings.dunning.reminderDays.length > 0 && `REMIND DAY ${settings.dunning.reminderDays.join(", ")}`,
+                settings.dunning.retryDays.length > 0 && `RETRY DAY ${settings.dunning.retryDays.join(", ")}`,
+                settings.dunning.escalateDay !== null && `ESCALATE DAY ${settings.dunning.escalateDay}`,
+                settings.dunning.pauseDay !== null && `PAUSE DAY ${settings.dunning.pauseDay}`,
+              ]
+                .filter(Boolean)
+                .join(" · ") || "ON"
+            : "OFF"
+        }
+        description="When a card payment fails: text and email the client a link to update their card, retry the charge, alert the office and finally pause service. Days count from the first failure, and everything is undone automatically once the invoice is paid."
+        onEdit={() => {
+          setEditDunning({
+            enabled: settings.dunning.enabled ? "yes" : "no",
+            reminderDays: settings.dunning.reminderDays.join(", "),
+            retryDays: settings.dunning.retryDays.join(", "),
+            escalateDay: settings.dunning.escalateDay === null ? "" : String(settings.dunning.escalateDay),
+            pauseDay: settings.dunning.pauseDay === null ? "" : String(settings.dunning.pauseDay),
+          });
+          setEditModal("dunning");
+        }}
+      />
+
       {/* Invoice Email Note to Clients */}
       <SettingRow
         title="Invoice Email Note to Clients"
@@ -532,11 +611,12 @@ export default function BillingSettingsPage() {
       <section className="bg-white rounded-lg border border-gray-200 p-6">
         <div className="flex items-start justify-between gap-4 mb-6">
           <div>
-            <h2 className="text-lg font-semibold text-gray-900">Skipped Cleanups (Postpaid Clients Only)</h2>
+            <h2 className="text-lg font-semibold text-gray-900">Skipped Cleanups (Per-Visit and Prepaid Pack Clients)</h2>
             <p className="text-sm text-gray-500 mt-1">
-              Automatically prorate client invoices based on skipped cleanup reason.
+              How much of the visit price a skipped cleanup is charged, by skip reason: 0% when the skip was on
+              us, 100% when it was the client&apos;s doing. A 100% skip uses a visit from a prepaid pack.
               <br />
-              Example: 75% for Bad Weather Conditions or 100% for Unsafe Dog.
+              Example: 0% for Bad Weather Conditions or 100% for Unsafe Dog.
             </p>
           </div>
           <button
@@ -766,6 +846,95 @@ export default function BillingSettingsPage() {
         />
       </Modal>
 
+      {/* Vacation Hold Credit Modal */}
+      <Modal
+        isOpen={editModal === "vacationHoldCredit"}
+        onClose={() => setEditModal(null)}
+        title="Edit Vacation Hold Credit"
+        onSave={() => saveSettings({ vacationHoldCredit: editValue === "yes" })}
+        saving={saving}
+      >
+        <RadioSelect
+          options={[
+            { value: "yes", label: "Yes", description: "Credit held visits on the next monthly invoice" },
+            { value: "no", label: "No", description: "Holds pause service without a billing credit" },
+          ]}
+          value={editValue}
+          onChange={setEditValue}
+        />
+      </Modal>
+
+      {/* Failed Payment Follow-up Modal */}
+      <Modal
+        isOpen={editModal === "dunning"}
+        onClose={() => setEditModal(null)}
+        title="Edit Failed Payment Follow-up"
+        subtitle="Days after the first failed payment. Leave escalate or pause blank to skip that step."
+        onSave={() => saveSettings({
+          dunning: {
+            enabled: editDunning.enabled === "yes",
+            reminderDays: parseDayList(editDunning.reminderDays),
+            retryDays: parseDayList(editDunning.retryDays).filter((d) => d > 0),
+            escalateDay: parseOptionalDay(editDunning.escalateDay),
+            pauseDay: parseOptionalDay(editDunning.pauseDay),
+          },
+        })}
+        saving={saving}
+      >
+        <div className="space-y-4">
+          <RadioSelect
+            options={[
+              { value: "yes", label: "On", description: "Follow up on failed payments automatically" },
+              { value: "no", label: "Off", description: "Only mark the client delinquent" },
+            ]}
+            value={editDunning.enabled}
+            onChange={(value) => setEditDunning({ ...editDunning, enabled: value })}
+          />
+          <div>
+            <label className="block text-sm text-gray-500 mb-1">Send card-update reminders on days</label>
+            <input
+              type="text"
+              placeholder="0, 3, 7"
+              value={editDunning.reminderDays}
+              onChange={(e) => setEditDunning({ ...editDunning, reminderDays: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-500 mb-1">Retry the charge on days</label>
+            <input
+              type="text"
+              placeholder="3, 7"
+              value={editDunning.retryDays}
+              onChange={(e) => setEditDunning({ ...editDunning, retryDays: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm text-gray-500 mb-1">Notify the office on day</label>
+              <input
+                type="number"
+                min="0"
+                value={editDunning.escalateDay}
+                onChange={(e) => setEditDunning({ ...editDunning, escalateDay: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-500 mb-1">Pause service on day</label>
+              <input
+                type="number"
+                min="0"
+                value={editDunning.pauseDay}
+                onChange={(e) => setEditDunning({ ...editDunning, pauseDay: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500"
+              />
+            </div>
+          </div>
+        </div>
+      </Modal>
+
       {/* Invoice Email Residential Modal */}
       <Modal
         isOpen={editModal === "invoiceEmailResidential"}
@@ -31,6 +31,11 @@ interface FieldTechAppSettings {
   commercialWorkAreas: {
     showWorkAreasCards: boolean;
   };
+  serviceProof: {
+    minPhotos: number;
+    requireGatePhoto: boolean;
+    maxDistanceMeters: number;
+  };
 }
 
 const defaultSettings: FieldTechAppSettings = {
@@ -61,6 +66,11 @@ const defaultSettings: FieldTechAppSettings = {
   commercialWorkAreas: {
     showWorkAreasCards: false,
   },
+  serviceProof: {
+    minPhotos: 0,
+    requireGatePhoto: false,
+    maxDistanceMeters: 0,
+  },
 };
 
 interface ToggleSwitchProps {
@@ -107,6 +117,37 @@ function SettingRow({ label, description, enabled, onChange }: SettingRowProps)
   );
 }
 
+interface NumberRowProps {
+  label: string;
+  description: string;
+  value: number;
+  unit: string;
+  onChange: (value: number) => void;
+}
+
+function NumberRow({ label, description, value, unit, onChange }: NumberRowProps) {
+  return (
+    <div className="py-4 border-b border-gray-100 last:border-b-0">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex-1">
+          <label className="text-sm font-medium text-gray-900">{label}</label>
+          <p className="text-sm text-gray-600 mt-1">{description}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min={0}
+            value={value}
+            onChange={(e) => onChange(Math.max(0, parseInt(e.target.value, 10) || 0))}
+            className="w-24 px-3 py-1.5 border border-gray-300 rounded-md text-sm text-right focus:ring-teal-500 focus:border-teal-500"
+          />
+          <span className="text-sm text-gray-500 w-14">{unit}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 interface SectionProps {
   title: string;
   children: React.ReactNode;
@@ -430,6 +471,59 @@ export default function FieldTechAppPage() {
         />
       </Section>
 
+      {/* Service Proof */}
+      <Section
+        title="Service Proof"
+        saving={savingSection === "serviceProof"}
+        onSave={() => saveSettings("serviceProof")}
+      >
+        <NumberRow
+          label="Minimum Photos per Visit"
+          description="Photos (before, after, gate or issue) a completed visit needs. Set to 0 to turn this off."
+          value={settings.serviceProof.minPhotos}
+          unit="photos"
+          onChange={(minPhotos) =>
+            setSettings((prev) => ({
+              ...prev,
+              serviceProof: { ...prev.serviceProof, minPhotos },
+            }))
+          }
+        />
+        <SettingRow
+          label="Require Gate Closed Photo"
+          description="Field techs take a photo of the closed gate before completing each visit."
+          enabled={settings.serviceProof.requireGatePhoto}
+          onChange={() =>
+            setSettings((prev) => ({
+              ...prev,
+              serviceProof: {
+                ...prev.serviceProof,
+                requireGatePhoto: !prev.serviceProof.requireGatePhoto,
+              },
+            }))
+          }
+        />
+        <NumberRow
+          label="GPS Check-In Distance"
+          description="How far from the property's address a field tech can be when they complete the job. Set to 0 to turn this off."
+          value={settings.serviceProof.maxDistanceMeters}
+          unit="meters"
+          onChange={(maxDistanceMeters) =>
+            setSettings((prev) => ({
+              ...prev,
+              serviceProof: { ...prev.serviceProof, maxDistanceMeters },
+            }))
+          }
+        />
+        <p className="text-sm text-gray-500 pt-4">
+          Jobs can still be completed when a rule is missed; they are flagged for review in{" "}
+          <Link href="/app/office/service-proof" className="text-teal-600 hover:text-teal-700">
+            Service Proof Review
+          </Link>
+          .
+        </p>
+      </Section>
+
       {/* Commercial Clients Work Areas */}
       <Section
         title="Commercial Clients Work Areas"
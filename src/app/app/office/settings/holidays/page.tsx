@@ -0,0 +1,371 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Pencil, Trash2, X } from "lucide-react";
+
+type HolidayPolicy = "SKIP" | "SHIFT_NEXT" | "SHIFT_PREVIOUS";
+
+interface Holiday {
+  id: string;
+  date: string;
+  name: string;
+  policy: HolidayPolicy;
+  notifyClients: boolean;
+}
+
+const POLICY_LABELS: Record<HolidayPolicy, string> = {
+  SKIP: "Skip visits",
+  SHIFT_NEXT: "Move to next service day",
+  SHIFT_PREVIOUS: "Move to previous service day",
+};
+
+const defaultHoliday: Omit<Holiday, "id"> = {
+  date: "",
+  name: "",
+  policy: "SKIP",
+  notifyClients: true,
+};
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+export default function HolidaysSettingsPage() {
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [showPast, setShowPast] = useState(false);
+  const [editingHoliday, setEditingHoliday] = useState<Holiday | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const fetchHolidays = useCallback(async () => {
+    try {
+      setLoading(true);
+      const res = await fetch(`/api/admin/holidays${showPast ? "?includePast=true" : ""}`);
+      const data = await res.json();
+
+      if (res.ok) {
+        setHolidays(data.holidays || []);
+      } else {
+        setError(data.error || "Failed to load holidays");
+      }
+    } catch (err) {
+      console.error("Error fetching holidays:", err);
+      setError("Failed to load holidays");
+    } finally {
+      setLoading(false);
+    }
+  }, [showPast]);
+
+  useEffect(() => {
+    fetchHolidays();
+  }, [fetchHolidays]);
+
+  const handleSave = async (holiday: Holiday) => {
+    const res = await fetch("/api/admin/holidays", {
+      method: isCreating ? "POST" : "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(holiday),
+    });
+    const data = await res.json();
+
+    if (!res.ok) {
+      throw new Error(data.error || "Failed to save holiday");
+    }
+
+    setEditingHoliday(null);
+    setIsCreating(false);
+    setMessage(
+      data.jobsAffected > 0
+        ? `Saved. ${data.jobsAffected} scheduled visit${data.jobsAffected !== 1 ? "s" : ""} updated, ${data.clientsNotified} client${data.clientsNotified !== 1 ? "s" : ""} notified.`
+        : "Saved."
+    );
+    fetchHolidays();
+  };
+
+  const handleDelete = async (holiday: Holiday) => {
+    if (!confirm(`Remove ${holiday.name}? Visits it moved or skipped will return to their original date.`)) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/admin/holidays?id=${holiday.id}`, { method: "DELETE" });
+      const data = await res.json();
+
+      if (res.ok) {
+        setMessage(
+          data.jobsRestored > 0
+            ? `Removed. ${data.jobsRestored} visit${data.jobsRestored !== 1 ? "s" : ""} restored.`
+            : "Removed."
+        );
+        fetchHolidays();
+      } else {
+        setError(data.error || "Failed to delete holiday");
+      }
+    } catch (err) {
+      console.error("Error deleting holiday:", err);
+      setError("Failed to delete holiday");
+    }
+  };
+
+  if (loading && holidays.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-teal-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Breadcrumb */}
+      <div className="text-sm text-gray-500">
+        <Link href="/app/office/settings" className="text-teal-600 hover:text-teal-700">
+          SETTINGS
+        </Link>
+        <span className="mx-2">/</span>
+        <span className="text-gray-400">HOLIDAYS & CLOSURES</span>
+      </div>
+
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Holidays & Closures</h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Visits that fall on these dates are skipped or moved when jobs are generated. Saving a date
+          also updates visits already on the schedule and lets affected clients know.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+      {message && (
+        <div className="p-4 bg-teal-50 border border-teal-200 rounded-lg text-sm text-teal-700">{message}</div>
+      )}
+
+      {/* Toolbar */}
+      <div className="flex items-center justify-between gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={showPast}
+            onChange={(e) => setShowPast(e.target.checked)}
+            className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+          />
+          Show past dates
+        </label>
+        <button
+          onClick={() => {
+            setEditingHoliday({ id: "", ...defaultHoliday });
+            setIsCreating(true);
+          }}
+          className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-teal-600 rounded-md hover:bg-teal-700"
+        >
+          ADD NEW
+        </button>
+      </div>
+
+      {/* Holidays Table */}
+      <section className="bg-white rounded-lg border border-gray-200">
+        <div className="overflow-x-auto">
+          <table className="min-w-full">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Date</th>
+                <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Name</th>
+                <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Policy</th>
+                <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Notify Clients</th>
+                <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {holidays.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="py-8 text-center text-gray-500">
+                    No holidays scheduled
+                  </td>
+                </tr>
+              ) : (
+                holidays.map((holiday) => (
+                  <tr key={holiday.id} className="border-b border-gray-100 hover:bg-gray-50">
+                    <td className="py-3 px-4 text-sm text-gray-900">{formatDate(holiday.date)}</td>
+                    <td className="py-3 px-4 text-sm text-gray-900">{holiday.name}</td>
+                    <td className="py-3 px-4 text-sm text-gray-900">{POLICY_LABELS[holiday.policy]}</td>
+                    <td className="py-3 px-4 text-sm text-gray-900">{holiday.notifyClients ? "Yes" : "No"}</td>
+                    <td className="py-3 px-4">
+                      <div className="flex items-center gap-3">
+                        <button
+                          onClick={() => {
+                            setEditingHoliday(holiday);
+                            setIsCreating(false);
+                          }}
+                          className="inline-flex items-center gap-1 text-teal-600 hover:text-teal-700 text-sm font-medium"
+                        >
+                          Edit
+                          <Pencil className="w-3 h-3" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(holiday)}
+                          className="inline-flex items-center gap-1 text-red-600 hover:text-red-700 text-sm font-medium"
+                        >
+                          Delete
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      {editingHoliday && (
+        <HolidayModal
+          holiday={editingHoliday}
+          isCreating={isCreating}
+          onClose={() => {
+            setEditingHoliday(null);
+            setIsCreating(false);
+          }}
+          onSave={handleSave}
+        />
+      )}
+    </div>
+  );
+}
+
+interface HolidayModalProps {
+  holiday: Holiday;
+  isCreating: boolean;
+  onClose: () => void;
+  onSave: (holiday: Holiday) => Promise<void>;
+}
+
+function HolidayModal({ holiday, isCreating, onClose, onSave }: HolidayModalProps) {
+  const [formData, setFormData] = useState<Holiday>(holiday);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.date || !formData.name.trim()) {
+      setError("Date and name are required");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(formData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save holiday");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit}>
+          {/* Header */}
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">
+              {isCreating ? "Add Holiday" : "Edit Holiday"}
+            </h3>
+            <button
+              type="button"
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="px-6 py-4 space-y-5">
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>
+            )}
+
+            <div>
+              <label className="block text-sm text-gray-500 mb-1">Date</label>
+              <input
+                type="date"
+                value={formData.date}
+                onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm text-gray-500 mb-1">Name</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. Thanksgiving"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm text-gray-500 mb-2">Visits on this date</label>
+              <div className="space-y-2">
+                {(Object.keys(POLICY_LABELS) as HolidayPolicy[]).map((policy) => (
+                  <label key={policy} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      name="policy"
+                      value={policy}
+                      checked={formData.policy === policy}
+                      onChange={() => setFormData({ ...formData, policy })}
+                      className="text-teal-600 focus:ring-teal-500"
+                    />
+                    {POLICY_LABELS[policy]}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.notifyClients}
+                onChange={(e) => setFormData({ ...formData, notifyClients: e.target.checked })}
+                className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+              />
+              Notify affected clients (Off Schedule template)
+            </label>
+          </div>
+
+          {/* Footer */}
+          <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-800"
+            >
+              CANCEL
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-white bg-teal-600 rounded-md hover:bg-teal-700 disabled:opacity-50"
+            >
+              {saving ? "SAVING..." : "SAVE"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
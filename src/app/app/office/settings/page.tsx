@@ -100,6 +100,19 @@ const settingsCards: SettingsCard[][] = [
       href: "/app/office/settings/route-optimization",
     },
   ],
+  // Row 8
+  [
+    {
+      title: "Holidays & Closures",
+      description: "Set holiday and blackout dates and choose whether visits on those days are skipped or moved.",
+      href: "/app/office/settings/holidays",
+    },
+    {
+      title: "Sales Tax Rules",
+      description: "Set sales tax rates by ZIP, city or state for service plans, add-ons, cross-sells and gift cards, with effective dates.",
+      href: "/app/office/settings/sales-tax",
+    },
+  ],
 ];
 
 function SettingsCardComponent({ card }: { card: SettingsCard }) {
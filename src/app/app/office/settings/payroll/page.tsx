@@ -82,6 +82,18 @@ const DEFAULT_VISIBILITY: PayrollVisibility = {
   perYardRate: true,
 };
 
+interface OvertimeRules {
+  weeklyThresholdHours: number; // 0 = no weekly overtime
+  dailyThresholdHours: number; // 0 = no daily overtime
+  multiplier: number;
+}
+
+const DEFAULT_OVERTIME: OvertimeRules = {
+  weeklyThresholdHours: 40,
+  dailyThresholdHours: 0,
+  multiplier: 1.5,
+};
+
 interface OrgSettings {
   payroll?: {
     payPeriod: "weekly" | "biweekly" | "monthly";
@@ -89,6 +101,7 @@ interface OrgSettings {
     showPayrollOnFieldTechApp: boolean;
     staffPayroll: Record<string, PayrollSettings>;
     visibility?: PayrollVisibility;
+    overtime?: OvertimeRules;
   };
 }
 
@@ -191,6 +204,11 @@ export default function PayrollSettingsPage() {
   const [tempShowPayroll, setTempShowPayroll] = useState(false);
   const [tempPayPeriod, setTempPayPeriod] = useState<"weekly" | "biweekly" | "monthly">("weekly");
   const [tempPayPeriodStartDay, setTempPayPeriodStartDay] = useState(1);
+  const [tempOvertime, setTempOvertime] = useState({
+    weeklyThresholdHours: String(DEFAULT_OVERTIME.weeklyThresholdHours),
+    dailyThresholdHours: String(DEFAULT_OVERTIME.dailyThresholdHours),
+    multiplier: String(DEFAULT_OVERTIME.multiplier),
+  });
   const [tempVisibility, setTempVisibility] = useState<PayrollVisibility>(DEFAULT_VISIBILITY);
   const [saving, setSaving] = useState(false);
 
@@ -218,6 +236,7 @@ export default function PayrollSettingsPage() {
           showPayrollOnFieldTechApp: payrollSettings.showPayrollOnFieldTechApp ?? false,
           staffPayroll: payrollSettings.staffPayroll || {},
           visibility: payrollSettings.visibility || DEFAULT_VISIBILITY,
+          overtime: { ...DEFAULT_OVERTIME, ...payrollSettings.overtime },
         });
       }
     } catch (error) {
@@ -352,6 +371,12 @@ export default function PayrollSettingsPage() {
 
   // Save pay period settings
   const savePayPeriodSettings = async () => {
+    const overtime: OvertimeRules = {
+      weeklyThresholdHours: Math.max(0, parseFloat(tempOvertime.weeklyThresholdHours) || 0),
+      dailyThresholdHours: Math.max(0, parseFloat(tempOvertime.dailyThresholdHours) || 0),
+      multiplier: Math.max(1, parseFloat(tempOvertime.multiplier) || 1),
+    };
+
     setSaving(true);
     try {
       const res = await fetch("/api/admin/settings", {
@@ -363,6 +388,7 @@ export default function PayrollSettingsPage() {
               ...settings,
               payPeriod: tempPayPeriod,
               payPeriodStartDay: tempPayPeriodStartDay,
+              overtime,
             },
           },
         }),
@@ -373,6 +399,7 @@ export default function PayrollSettingsPage() {
           ...prev,
           payPeriod: tempPayPeriod,
           payPeriodStartDay: tempPayPeriodStartDay,
+          overtime,
         } : prev);
         setShowPayPeriodModal(false);
       }
@@ -394,6 +421,12 @@ export default function PayrollSettingsPage() {
   const openPayPeriodModal = () => {
     setTempPayPeriod(settings?.payPeriod || "weekly");
     setTempPayPeriodStartDay(settings?.payPeriodStartDay ?? 1);
+    const overtime = settings?.overtime || DEFAULT_OVERTIME;
+    setTempOvertime({
+      weeklyThresholdHours: String(overtime.weeklyThresholdHours),
+      dailyThresholdHours: String(overtime.dailyThresholdHours),
+      multiplier: String(overtime.multiplier),
+    });
     setShowPayPeriodModal(true);
     setMenuOpen(false);
   };
@@ -745,6 +778,45 @@ export default function PayrollSettingsPage() {
                     <option value={6}>Saturday</option>
                   </select>
                 </div>
+                <div className="pt-2 border-t border-gray-100">
+                  <p className="text-sm font-medium text-gray-700 mb-3">Overtime</p>
+                  <div className="grid grid-cols-3 gap-3">
+                    <div>
+                      <label className="block text-sm text-gray-500 mb-1">Weekly after (hrs)</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        value={tempOvertime.weeklyThresholdHours}
+                        onChange={(e) => setTempOvertime({ ...tempOvertime, weeklyThresholdHours: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm text-gray-500 mb-1">Daily after (hrs)</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        value={tempOvertime.dailyThresholdHours}
+                        onChange={(e) => setTempOvertime({ ...tempOvertime, dailyThresholdHours: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm text-gray-500 mb-1">Multiplier</label>
+                      <input
+                        type="number"
+                        min="1"
+                        step="0.1"
+                        value={tempOvertime.multiplier}
+                        onChange={(e) => setTempOvertime({ ...tempOvertime, multiplier: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-400 mt-2">Set a threshold to 0 to turn that overtime rule off.</p>
+                </div>
               </div>
               <div className="flex justify-end gap-3 px-6 pb-6">
                 <button
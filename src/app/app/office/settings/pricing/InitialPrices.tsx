@@ -2,19 +2,10 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { Pencil, HelpCircle } from "lucide-react";
+import { LAST_CLEANED_BRACKETS } from "@/lib/pricing-engine";
 
-// Time periods for "last cleaned" options
-const TIME_PERIODS = [
-  { key: "ONE_WEEK", label: "One Week" },
-  { key: "TWO_WEEKS", label: "Two Weeks" },
-  { key: "THREE_WEEKS", label: "Three Weeks" },
-  { key: "ONE_MONTH", label: "One Month" },
-  { key: "TWO_MONTHS", label: "Two Months" },
-  { key: "THREE_TO_FOUR_MONTHS", label: "3-4 Months" },
-  { key: "FIVE_TO_SIX_MONTHS", label: "5-6 Months" },
-  { key: "SEVEN_TO_NINE_MONTHS", label: "7-9 Months" },
-  { key: "TEN_PLUS_MONTHS", label: "10+ Months" },
-] as const;
+// Time periods for "last cleaned" options, shared with the pricing engine
+const TIME_PERIODS = LAST_CLEANED_BRACKETS;
 
 type TimePeriodKey = typeof TIME_PERIODS[number]["key"];
 
@@ -219,6 +210,126 @@ function OneTimePriceEditModal({
   );
 }
 
+interface InitialFeeRow {
+  [dogCount: number]: number;
+}
+
+interface InitialFeeEditModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (fees: InitialFeeRow) => Promise<void>;
+  timePeriodLabel: string;
+  initialFees: InitialFeeRow;
+  maxDogs: number;
+}
+
+function InitialFeeEditModal({
+  isOpen,
+  onClose,
+  onSave,
+  timePeriodLabel,
+  initialFees,
+  maxDogs,
+}: InitialFeeEditModalProps) {
+  const [inputValues, setInputValues] = useState<{ [dogCount: number]: string }>({});
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      const values: { [dogCount: number]: string } = {};
+      for (let i = 1; i <= maxDogs; i++) {
+        values[i] = ((initialFees[i] || 0) / 100).toFixed(2);
+      }
+      setInputValues(values);
+      setSaveError(null);
+    }
+  }, [isOpen, initialFees, maxDogs]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaveError(null);
+    try {
+      const fees: InitialFeeRow = {};
+      for (const [dogCount, rawValue] of Object.entries(inputValues)) {
+        const dollars = parseFloat(rawValue.replace(/[^\d.]/g, "")) || 0;
+        fees[parseInt(dogCount)] = Math.round(dollars * 100);
+      }
+      await onSave(fees);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : "Failed to save fees");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">
+            Initial Cleanup Fee - {timePeriodLabel}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4 max-h-96 overflow-y-auto">
+          <p className="text-sm text-gray-600">
+            Fee charged on the first visit of a recurring plan. Leave at $0.00 for no fee.
+          </p>
+
+          {Array.from({ length: maxDogs }, (_, i) => i + 1).map((dogCount) => (
+            <div key={dogCount} className="flex items-center gap-4">
+              <label className="w-20 text-sm text-gray-700 font-medium">
+                {dogCount} dog{dogCount > 1 ? "s" : ""}
+              </label>
+              <div className="relative flex-1">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">$</span>
+                <input
+                  type="text"
+                  value={inputValues[dogCount] ?? ""}
+                  onChange={(e) => setInputValues((prev) => ({ ...prev, [dogCount]: e.target.value }))}
+                  className="w-full pl-7 pr-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500"
+                  placeholder="0.00"
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {saveError && (
+          <div className="mx-6 mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+            {saveError}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 px-6 py-4 border-t border-gray-200 bg-gray-50 rounded-b-xl">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-white bg-teal-600 rounded-md hover:bg-teal-700 disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Save"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 export default function InitialPrices() {
   const [maxDogs, setMaxDogs] = useState(4);
   const [loading, setLoading] = useState(true);
@@ -241,6 +352,15 @@ export default function InitialPrices() {
   // One-Time Prices by time period
   const [oneTimePrices, setOneTimePrices] = useState<OneTimePrices>({});
 
+  // Initial cleanup fees (INITIAL_CLEANUP pricing rules) by time period
+  const [initialFees, setInitialFees] = useState<{ [timePeriod: string]: InitialFeeRow }>({});
+  const [initialFeeRuleIds, setInitialFeeRuleIds] = useState<{ [key: string]: string }>({});
+  const [feeModal, setFeeModal] = useState<{
+    timePeriod: TimePeriodKey;
+    timePeriodLabel: string;
+    fees: InitialFeeRow;
+  } | null>(null);
+
   // Edit modal state
   const [editModal, setEditModal] = useState<{
     isOpen: boolean;
@@ -261,8 +381,29 @@ export default function InitialPrices() {
     try {
       setLoading(true);
 
-      // Fetch onboarding settings for max dogs and initial cleanup settings
-      const settingsResponse = await fetch("/api/admin/onboarding-settings");
+      // Fetch onboarding settings for max dogs and initial cleanup settings,
+      // plus the initial cleanup fee rules the pricing engine charges
+      const [settingsResponse, rulesResponse] = await Promise.all([
+        fetch("/api/admin/onboarding-settings"),
+        fetch("/api/admin/pricing-rules?rule_type=INITIAL_CLEANUP"),
+      ]);
+
+      if (rulesResponse.ok) {
+        const rulesData = await rulesResponse.json();
+        const fees: { [timePeriod: string]: InitialFeeRow } = {};
+        const ruleIds: { [key: string]: string } = {};
+        for (const rule of rulesData.rules || []) {
+          if (!rule.last_cleaned_bracket || rule.zone || rule.min_dogs !== rule.max_dogs) continue;
+          const dogCount = rule.min_dogs || 1;
+          fees[rule.last_cleaned_bracket] = {
+            ...fees[rule.last_cleaned_bracket],
+            [dogCount]: rule.base_price_cents,
+          };
+          ruleIds[`${rule.last_cleaned_bracket}_${dogCount}`] = rule.id;
+        }
+        setInitialFees(fees);
+        setInitialFeeRuleIds(ruleIds);
+      }
 
       let settingsMaxDogs = 4;
       if (settingsResponse.ok) {
@@ -377,6 +518,44 @@ export default function InitialPrices() {
     }
   };
 
+  const handleSaveInitialFees = async (fees: InitialFeeRow) => {
+    if (!feeModal) return;
+
+    await Promise.all(
+      Object.entries(fees).map(async ([dogCountStr, priceCents]) => {
+        const dogCount = parseInt(dogCountStr);
+        const existingId = initialFeeRuleIds[`${feeModal.timePeriod}_${dogCount}`];
+        if (!existingId && priceCents === 0) return;
+
+        const response = await fetch("/api/admin/pricing-rules", {
+          method: existingId ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(
+            existingId
+              ? { id: existingId, base_price_cents: priceCents }
+              : {
+                  name: `Initial Cleanup - ${feeModal.timePeriodLabel} - ${dogCount} dog${dogCount > 1 ? "s" : ""}`,
+                  rule_type: "INITIAL_CLEANUP",
+                  last_cleaned_bracket: feeModal.timePeriod,
+                  min_dogs: dogCount,
+                  max_dogs: dogCount,
+                  base_price_cents: priceCents,
+                  is_active: true,
+                }
+          ),
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || `Failed to save fee for ${dogCount} dog(s)`);
+        }
+      })
+    );
+
+    await fetchData();
+    setFeeModal(null);
+  };
+
   const formatPriceRange = (priceRow: OneTimePriceRow | undefined, dogCount: number) => {
     if (!priceRow || !priceRow[dogCount]) {
       return "$0.00 - $0.00";
@@ -492,6 +671,58 @@ export default function InitialPrices() {
         </div>
       </section>
 
+      {/* Initial Cleanup Fees */}
+      <section className="bg-white rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Initial Cleanup Fees</h3>
+        <p className="text-sm text-gray-600 mb-6">
+          Fee added to the first visit of a recurring plan, based on when the yard was last cleaned and the number of dogs.
+          These are the fees quoted in the quote form, funnels and Test a Quote.
+        </p>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="text-left py-3 px-4 text-sm font-medium text-gray-500"></th>
+                {dogCounts.map((count) => (
+                  <th key={count} className="text-left py-3 px-4 text-sm font-medium text-gray-500">
+                    {count} dog{count > 1 ? "s" : ""}
+                  </th>
+                ))}
+                <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {TIME_PERIODS.map((period) => (
+                <tr key={period.key} className="border-b border-gray-100 hover:bg-gray-50">
+                  <td className="py-3 px-4 text-sm font-medium text-gray-900">{period.label}</td>
+                  {dogCounts.map((count) => (
+                    <td key={count} className="py-3 px-4 text-sm text-gray-600">
+                      ${((initialFees[period.key]?.[count] || 0) / 100).toFixed(2)}
+                    </td>
+                  ))}
+                  <td className="py-3 px-4">
+                    <button
+                      onClick={() =>
+                        setFeeModal({
+                          timePeriod: period.key,
+                          timePeriodLabel: period.label,
+                          fees: initialFees[period.key] || {},
+                        })
+                      }
+                      className="inline-flex items-center gap-1 text-teal-600 hover:text-teal-700 text-sm font-medium"
+                    >
+                      Edit
+                      <Pencil className="w-3 h-3" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
       {/* One-Time Cleanup Prices */}
       <section className="bg-white rounded-lg border border-gray-200 p-6">
         <div className="flex items-center justify-between mb-4">
@@ -562,6 +793,17 @@ export default function InitialPrices() {
         </div>
       )}
 
+      {feeModal && (
+        <InitialFeeEditModal
+          isOpen
+          onClose={() => setFeeModal(null)}
+          onSave={handleSaveInitialFees}
+          timePeriodLabel={feeModal.timePeriodLabel}
+          initialFees={feeModal.fees}
+          maxDogs={maxDogs}
+        />
+      )}
+
       {/* Edit Modal */}
       {editModal && (
         <OneTimePriceEditModal
@@ -0,0 +1,282 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Calculator, AlertTriangle } from "lucide-react";
+import {
+  YARD_SIZES,
+  LAST_CLEANED_BRACKETS,
+  type PriceQuote,
+  type PriceCadence,
+} from "@/lib/pricing-engine";
+
+const FREQUENCY_OPTIONS = [
+  { value: "TWICE_WEEKLY", label: "Two Times A Week" },
+  { value: "WEEKLY", label: "Once A Week" },
+  { value: "BIWEEKLY", label: "Bi Weekly" },
+  { value: "TWICE_PER_MONTH", label: "Twice Per Month" },
+  { value: "EVERY_THREE_WEEKS", label: "Every Three Weeks" },
+  { value: "EVERY_FOUR_WEEKS", label: "Every Four Weeks" },
+  { value: "MONTHLY", label: "Once A Month" },
+  { value: "ONETIME", label: "One-Time" },
+];
+
+const CADENCE_LABELS: Record<PriceCadence, string> = {
+  PER_VISIT: "/visit",
+  PER_MONTH: "/month",
+  ONE_TIME: "one-time",
+};
+
+interface AddOnOption {
+  id: string;
+  name: string;
+  priceCents: number;
+  priceType: string;
+  isRecurring: boolean;
+  isActive: boolean;
+}
+
+const formatPrice = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+export default function QuoteSimulator() {
+  const [zipCode, setZipCode] = useState("");
+  const [zone, setZone] = useState<"" | "REGULAR" | "PREMIUM">("");
+  const [dogs, setDogs] = useState(1);
+  const [frequency, setFrequency] = useState("WEEKLY");
+  const [lastCleaned, setLastCleaned] = useState("");
+  const [yardSize, setYardSize] = useState("");
+  const [addOns, setAddOns] = useState<AddOnOption[]>([]);
+  const [selectedAddOns, setSelectedAddOns] = useState<string[]>([]);
+  const [quote, setQuote] = useState<PriceQuote | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/admin/add-ons")
+      .then((res) => (res.ok ? res.json() : { addOns: [] }))
+      .then((data) => setAddOns((data.addOns || []).filter((a: AddOnOption) => a.isActive)))
+      .catch(() => setAddOns([]));
+  }, []);
+
+  const toggleAddOn = (id: string) => {
+    setSelectedAddOns((prev) => (prev.includes(id) ? prev.filter((a) => a !== id) : [...prev, id]));
+  };
+
+  const handleQuote = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/admin/pricing-rules/quote", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          zipCode: zipCode.trim() || null,
+          zone: zone || null,
+          dogs,
+          frequency,
+          lastCleaned: lastCleaned || null,
+          yardSize: yardSize || null,
+          addOnIds: selectedAddOns,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to calculate quote");
+      }
+      setQuote(data.quote);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to calculate quote");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">Test a Quote</h3>
+        <p className="text-sm text-gray-600 mt-1">
+          Run a quote through the same pricing engine the quote form, funnels and client onboarding use.
+          Nothing is saved.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Zip Code</label>
+          <input
+            type="text"
+            value={zipCode}
+            onChange={(e) => setZipCode(e.target.value.replace(/\D/g, "").slice(0, 5))}
+            placeholder="92336"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Zone</label>
+          <select
+            value={zone}
+            onChange={(e) => setZone(e.target.value as "" | "REGULAR" | "PREMIUM")}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500"
+          >
+            <option value="">From zip code</option>
+            <option value="REGULAR">Regular</option>
+            <option value="PREMIUM">Premium</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Number of Dogs</label>
+          <input
+            type="number"
+            min={1}
+            max={20}
+            value={dogs}
+            onChange={(e) => setDogs(Math.max(1, parseInt(e.target.value) || 1))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Cleanup Frequency</label>
+          <select
+            value={frequency}
+            onChange={(e) => setFrequency(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500"
+          >
+            {FREQUENCY_OPTIONS.map((f) => (
+              <option key={f.value} value={f.value}>{f.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Last Cleaned</label>
+          <select
+            value={lastCleaned}
+            onChange={(e) => setLastCleaned(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500"
+          >
+            <option value="">Not specified</option>
+            {LAST_CLEANED_BRACKETS.map((b) => (
+              <option key={b.key} value={b.key}>{b.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Yard Size</label>
+          <select
+            value={yardSize}
+            onChange={(e) => setYardSize(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500"
+          >
+            <option value="">Not specified</option>
+            {YARD_SIZES.map((y) => (
+              <option key={y.value} value={y.value}>{y.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {addOns.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Add-ons</label>
+          <div className="flex flex-wrap gap-2">
+            {addOns.map((addOn) => (
+              <button
+                key={addOn.id}
+                type="button"
+                onClick={() => toggleAddOn(addOn.id)}
+                className={`px-3 py-1.5 text-sm rounded-full border ${
+                  selectedAddOns.includes(addOn.id)
+                    ? "bg-teal-50 border-teal-500 text-teal-700"
+                    : "border-gray-300 text-gray-600 hover:bg-gray-50"
+                }`}
+              >
+                {addOn.name} ({formatPrice(addOn.priceCents)})
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={handleQuote}
+        disabled={loading}
+        className="inline-flex items-center gap-2 px-6 py-2 bg-teal-600 text-white font-medium rounded-md hover:bg-teal-700 disabled:opacity-50"
+      >
+        <Calculator className="w-4 h-4" />
+        {loading ? "Calculating..." : "CALCULATE"}
+      </button>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4 text-red-700">
+          {error}
+        </div>
+      )}
+
+      {quote && (
+        <section className="border border-gray-200 rounded-lg p-6 space-y-4">
+          <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-gray-600">
+            <span>Zone: <strong className="text-gray-900">{quote.zone || "Regular (default)"}</strong></span>
+            {quote.inServiceArea !== null && (
+              <span>
+                Service area:{" "}
+                <strong className={quote.inServiceArea ? "text-gray-900" : "text-red-600"}>
+                  {quote.inServiceArea ? "Yes" : "Outside service area"}
+                </strong>
+              </span>
+            )}
+            {!quote.oneTime && <span>Visits per month: <strong className="text-gray-900">{quote.visitsPerMonth.toFixed(2)}</strong></span>}
+          </div>
+
+          {quote.priceNotConfigured ? (
+            <div className="flex items-start gap-2 bg-yellow-50 border-l-4 border-yellow-400 p-4 text-sm text-yellow-800">
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+              No pricing rule covers this frequency and dog count, so clients would be asked to request a custom quote.
+            </div>
+          ) : (
+            <>
+              <table className="min-w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-2 px-3 text-sm font-medium text-gray-500">Item</th>
+                    <th className="text-right py-2 px-3 text-sm font-medium text-gray-500">Amount</th>
+                    <th className="text-left py-2 px-3 text-sm font-medium text-gray-500">Charged</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {quote.lineItems.map((item, i) => (
+                    <tr key={i} className="border-b border-gray-100">
+                      <td className="py-2 px-3 text-sm text-gray-900">{item.label}</td>
+                      <td className="py-2 px-3 text-sm text-gray-900 text-right">{formatPrice(item.amountCents)}</td>
+                      <td className="py-2 px-3 text-sm text-gray-500">{CADENCE_LABELS[item.cadence]}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <p className="text-xs text-gray-500 uppercase">{quote.oneTime ? "One-Time Cleanup" : "Per Visit"}</p>
+                  <p className="text-xl font-bold text-gray-900">{formatPrice(quote.perVisitCents)}</p>
+                  {quote.oneTimeRange && (
+                    <p className="text-xs text-gray-500">
+                      Range {formatPrice(quote.oneTimeRange.minCents)} - {formatPrice(quote.oneTimeRange.maxCents)}
+                    </p>
+                  )}
+                </div>
+                {quote.monthlyCents !== null && (
+                  <div className="bg-gray-50 rounded-lg p-4">
+                    <p className="text-xs text-gray-500 uppercase">Monthly</p>
+                    <p className="text-xl font-bold text-gray-900">{formatPrice(quote.monthlyCents)}</p>
+                  </div>
+                )}
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <p className="text-xs text-gray-500 uppercase">Due at Signup</p>
+                  <p className="text-xl font-bold text-gray-900">{formatPrice(quote.dueTodayCents)}</p>
+                </div>
+              </div>
+            </>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
@@ -110,6 +110,11 @@ export default function RegularPremiumPrices() {
       const ruleIds: { [key: string]: string } = {};
 
       for (const rule of rules) {
+        // Service areas, surcharges and initial cleanup fees aren't part of this matrix
+        if (rule.rule_type && rule.rule_type !== "PRICE") {
+          continue;
+        }
+
         const zone = rule.zone || "REGULAR";
         const frequency = rule.frequency;
         const dogCount = rule.min_dogs || 1;
@@ -188,6 +193,7 @@ export default function RegularPremiumPrices() {
               min_dogs: dogCount,
               max_dogs: dogCount,
               base_price_cents: priceCents,
+              price_unit: "PER_MONTH",
               is_active: true,
             }),
           });
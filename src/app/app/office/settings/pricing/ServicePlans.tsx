@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { Plus, Pencil, Trash2, HelpCircle, X, Trash, Check } from "lucide-react";
+import type { PriceQuote } from "@/lib/pricing-engine";
 
 // Frequency options
 const FREQUENCY_OPTIONS = [
@@ -86,6 +87,8 @@ export default function ServicePlans() {
   const [isCreating, setIsCreating] = useState(false);
   const [itemsPerPage, setItemsPerPage] = useState(10);
   const [currentPage, setCurrentPage] = useState(1);
+  // What the pricing rules charge for each plan's frequency (1 dog, regular zone)
+  const [rulePrices, setRulePrices] = useState<{ [planId: string]: PriceQuote }>({});
 
   const [settings, setSettings] = useState<ServicePlansSettings>({
     enableDisplay: false,
@@ -101,7 +104,25 @@ export default function ServicePlans() {
       const plansResponse = await fetch("/api/admin/service-plans");
       if (plansResponse.ok) {
         const plansData = await plansResponse.json();
-        setPlans(plansData.plans || []);
+        const loadedPlans: ServicePlan[] = plansData.plans || [];
+        setPlans(loadedPlans);
+
+        const quoted = loadedPlans.filter((p) => p.type === "SERVICE" && p.frequency);
+        if (quoted.length > 0) {
+          const quoteResponse = await fetch("/api/admin/pricing-rules/quote", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              quotes: quoted.map((p) => ({ dogs: 1, frequency: p.frequency, zone: "REGULAR" })),
+            }),
+          });
+          if (quoteResponse.ok) {
+            const quoteData = await quoteResponse.json();
+            setRulePrices(
+              Object.fromEntries(quoted.map((p, i) => [p.id, quoteData.quotes[i] as PriceQuote]))
+            );
+          }
+        }
       }
 
       // Fetch settings
@@ -195,6 +216,14 @@ export default function ServicePlans() {
     }
   };
 
+  const formatRulePrice = (quote: PriceQuote | undefined) => {
+    if (!quote) return "—";
+    if (quote.priceNotConfigured) return "No rule";
+    return quote.monthlyCents !== null
+      ? `$${(quote.monthlyCents / 100).toFixed(2)}/mo`
+      : `$${(quote.perVisitCents / 100).toFixed(2)}`;
+  };
+
   const getFrequencyLabel = (frequency: string) => {
     return FREQUENCY_OPTIONS.find(f => f.value === frequency)?.label || frequency;
   };
@@ -255,6 +284,9 @@ export default function ServicePlans() {
                 <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Featured</th>
                 <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Cleanup Frequency</th>
                 <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Price</th>
+                <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">
+                  <span title="What the pricing rules charge for this frequency, 1 dog, regular zone">Rules Price</span>
+                </th>
                 <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Type</th>
                 <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Taxable</th>
                 <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Actions</th>
@@ -263,7 +295,7 @@ export default function ServicePlans() {
             <tbody>
               {paginatedPlans.length === 0 ? (
                 <tr>
-                  <td colSpan={8} className="py-8 text-center text-gray-500">
+                  <td colSpan={9} className="py-8 text-center text-gray-500">
                     No data available
                   </td>
                 </tr>
@@ -285,6 +317,9 @@ export default function ServicePlans() {
                     <td className="py-3 px-4 text-sm text-gray-900">
                       ${(plan.price / 100).toFixed(2)}
                     </td>
+                    <td className="py-3 px-4 text-sm text-gray-500">
+                      {formatRulePrice(rulePrices[plan.id])}
+                    </td>
                     <td className="py-3 px-4 text-sm text-gray-900">
                       {plan.type === "SERVICE" ? "Service" : "Product"}
                     </td>
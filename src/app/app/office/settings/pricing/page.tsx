@@ -5,8 +5,9 @@ import Link from "next/link";
 import RegularPremiumPrices from "./RegularPremiumPrices";
 import InitialPrices from "./InitialPrices";
 import ServicePlans from "./ServicePlans";
+import QuoteSimulator from "./QuoteSimulator";
 
-type TabId = "regular-premium" | "initial-onetime" | "service-plans";
+type TabId = "regular-premium" | "initial-onetime" | "service-plans" | "test-quote";
 
 interface Tab {
   id: TabId;
@@ -17,6 +18,7 @@ const tabs: Tab[] = [
   { id: "regular-premium", label: "REGULAR AND PREMIUM PRICES" },
   { id: "initial-onetime", label: "INITIAL/ONE TIME PRICES" },
   { id: "service-plans", label: "SERVICE PLANS" },
+  { id: "test-quote", label: "TEST A QUOTE" },
 ];
 
 export default function PricingSetupPage() {
@@ -62,6 +64,7 @@ export default function PricingSetupPage() {
         {activeTab === "regular-premium" && <RegularPremiumPrices />}
         {activeTab === "initial-onetime" && <InitialPrices />}
         {activeTab === "service-plans" && <ServicePlans />}
+        {activeTab === "test-quote" && <QuoteSimulator />}
       </div>
     </div>
   );
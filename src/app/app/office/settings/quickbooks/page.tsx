@@ -1,22 +1,300 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect, useCallback } from "react";
 import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Plus, RefreshCw, Trash2 } from "lucide-react";
+
+interface ItemRule {
+  match: string;
+  itemId: string;
+}
+
+interface Mapping {
+  defaultItemId?: string;
+  itemRules?: ItemRule[];
+  taxItemId?: string;
+  depositAccountId?: string;
+  refundAccountId?: string;
+  paymentMethodIds?: Record<string, string>;
+  syncStartDate?: string;
+}
+
+interface Connection {
+  realmId: string;
+  companyName: string | null;
+  connectedAt: string;
+  lastSyncAt: string | null;
+  lastError: string | null;
+  mapping: Mapping;
+}
+
+interface SyncLogEntry {
+  id: string;
+  entityType: string;
+  localId: string;
+  operation: string;
+  status: "PENDING" | "SUCCESS" | "FAILED" | "SUPERSEDED";
+  attempts: number;
+  qboId: string | null;
+  lastError: string | null;
+  lastAttemptAt: string | null;
+}
+
+interface Mismatch {
+  entityType: string;
+  localId: string;
+  reference: string;
+  qboId: string | null;
+  issue: "NOT_SYNCED" | "MISSING_IN_QBO" | "AMOUNT_MISMATCH" | "BALANCE_MISMATCH" | "SYNC_FAILED";
+  localCents: number | null;
+  qboCents: number | null;
+  detail: string | null;
+}
+
+interface Lookups {
+  items: { id: string; name: string; type: string }[];
+  accounts: { id: string; name: string; type: string }[];
+  paymentMethods: { id: string; name: string }[];
+}
+
+// Local payment_method values written by charges, the payments page and imports
+const LOCAL_PAYMENT_METHODS = ["CREDIT_CARD", "CARD", "ACH", "CHECK", "CASH", "OTHER"];
+
+const CALLBACK_MESSAGES: Record<string, { text: string; error: boolean }> = {
+  connected: { text: "QuickBooks connected. Choose your mapping below, then sync.", error: false },
+  denied: { text: "QuickBooks access was denied.", error: true },
+  state: { text: "The QuickBooks sign-in expired. Please try again.", error: true },
+  error: { text: "Could not connect to QuickBooks. Please try again.", error: true },
+  notconfigured: { text: "QuickBooks API credentials are not configured on the server.", error: true },
+};
+
+const ISSUE_LABELS: Record<Mismatch["issue"], string> = {
+  NOT_SYNCED: "Not synced",
+  MISSING_IN_QBO: "Missing in QuickBooks",
+  AMOUNT_MISMATCH: "Amount differs",
+  BALANCE_MISMATCH: "Balance differs",
+  SYNC_FAILED: "Sync failed",
+};
+
+const STATUS_STYLES: Record<SyncLogEntry["status"], string> = {
+  PENDING: "bg-yellow-100 text-yellow-800",
+  SUCCESS: "bg-green-100 text-green-800",
+  FAILED: "bg-red-100 text-red-800",
+  SUPERSEDED: "bg-gray-100 text-gray-600",
+};
+
+const formatCents = (cents: number | null) =>
+  cents === null
+    ? "—"
+    : new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(cents / 100);
+
+const formatDateTime = (value: string | null) =>
+  value
+    ? new Date(value).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })
+    : "Never";
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-teal-500";
 
 export default function QuickbooksIntegrationPage() {
-  const [isConnected, setIsConnected] = useState(false);
-  const [connecting, setConnecting] = useState(false);
-
-  const handleConnect = async () => {
-    setConnecting(true);
-    // In a real implementation, this would initiate OAuth flow with QuickBooks
-    // For now, just show a placeholder message
-    setTimeout(() => {
-      alert("QuickBooks OAuth integration will be implemented when API credentials are configured.");
-      setConnecting(false);
-    }, 500);
+  const searchParams = useSearchParams();
+  const [loading, setLoading] = useState(true);
+  const [configured, setConfigured] = useState(true);
+  const [connection, setConnection] = useState<Connection | null>(null);
+  const [counts, setCounts] = useState<{ pending: number; failed: number } | null>(null);
+  const [log, setLog] = useState<SyncLogEntry[]>([]);
+  const [mapping, setMapping] = useState<Mapping>({});
+  const [lookups, setLookups] = useState<Lookups | null>(null);
+  const [mismatches, setMismatches] = useState<Mismatch[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const [loadingReport, setLoadingReport] = useState(false);
+  const [disconnecting, setDisconnecting] = useState(false);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const res = await fetch("/api/admin/quickbooks");
+      const data = await res.json();
+
+      if (res.ok) {
+        setConfigured(data.configured);
+        setConnection(data.connection);
+        setCounts(data.counts);
+        setLog(data.log || []);
+        setMapping(data.connection?.mapping || {});
+      } else {
+        setError(data.error || "Failed to load QuickBooks status");
+      }
+    } catch (err) {
+      console.error("Error fetching QuickBooks status:", err);
+      setError("Failed to load QuickBooks status");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  useEffect(() => {
+    const result = searchParams.get("qbo");
+    if (result && CALLBACK_MESSAGES[result]) {
+      const { text, error: isError } = CALLBACK_MESSAGES[result];
+      if (isError) setError(text);
+      else setMessage(text);
+    }
+  }, [searchParams]);
+
+  // Lists for the mapping form come live from the connected company
+  const realmId = connection?.realmId;
+  useEffect(() => {
+    if (!realmId) return;
+    fetch("/api/admin/quickbooks/lookups")
+      .then(async (res) => {
+        const data = await res.json();
+        if (res.ok) setLookups(data);
+        else setError(data.error || "Failed to load QuickBooks lists");
+      })
+      .catch((err) => console.error("Error fetching QuickBooks lookups:", err));
+  }, [realmId]);
+
+  // Full-page navigation: the OAuth start route redirects to Intuit
+  const handleConnect = () => {
+    window.location.href = "/api/admin/quickbooks/oauth/start";
   };
 
+  const handleSaveMapping = async () => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/admin/quickbooks", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mapping }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        setMapping(data.mapping);
+        setMessage("Mapping saved.");
+      } else {
+        setError(data.error || "Failed to save mapping");
+      }
+    } catch (err) {
+      console.error("Error saving mapping:", err);
+      setError("Failed to save mapping");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSync = async (retryFailed: boolean) => {
+    setSyncing(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/admin/quickbooks/sync", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ retryFailed }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        const summary = `Sync finished: ${data.created} created, ${data.updated} updated, ${data.skipped} unchanged, ${data.failed} failed.`;
+        if (data.failed > 0) setError(`${summary} ${(data.errors || []).slice(0, 3).join("; ")}`);
+        else setMessage(summary);
+        fetchStatus();
+      } else {
+        setError(data.error || "Sync failed");
+      }
+    } catch (err) {
+      console.error("Error syncing QuickBooks:", err);
+      setError("Sync failed");
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const handleLoadReport = async () => {
+    setLoadingReport(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/quickbooks/report");
+      const data = await res.json();
+
+      if (res.ok) {
+        setMismatches(data.mismatches || []);
+      } else {
+        setError(data.error || "Failed to build mismatch report");
+      }
+    } catch (err) {
+      console.error("Error loading mismatch report:", err);
+      setError("Failed to build mismatch report");
+    } finally {
+      setLoadingReport(false);
+    }
+  };
+
+  const handleDisconnect = async () => {
+    if (!confirm("Disconnect QuickBooks? Syncing stops until you reconnect. Nothing is deleted in QuickBooks.")) {
+      return;
+    }
+
+    setDisconnecting(true);
+    try {
+      const res = await fetch("/api/admin/quickbooks", { method: "DELETE" });
+      const data = await res.json();
+
+      if (res.ok) {
+        setConnection(null);
+        setLookups(null);
+        setMismatches(null);
+        setMessage("QuickBooks disconnected.");
+      } else {
+        setError(data.error || "Failed to disconnect");
+      }
+    } catch (err) {
+      console.error("Error disconnecting QuickBooks:", err);
+      setError("Failed to disconnect");
+    } finally {
+      setDisconnecting(false);
+    }
+  };
+
+  const updateRule = (index: number, rule: ItemRule) => {
+    const rules = [...(mapping.itemRules || [])];
+    rules[index] = rule;
+    setMapping({ ...mapping, itemRules: rules });
+  };
+
+  const incomeItems = lookups?.items.filter((i) => i.type !== "Category") || [];
+  const bankAccounts = lookups?.accounts.filter((a) => a.type === "Bank" || a.type === "Other Current Asset") || [];
+
+  const itemSelect = (value: string | undefined, onChange: (value: string) => void, placeholder: string) => (
+    <select value={value || ""} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+      <option value="">{placeholder}</option>
+      {incomeItems.map((item) => (
+        <option key={item.id} value={item.id}>
+          {item.name}
+        </option>
+      ))}
+    </select>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-teal-600"></div>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       {/* Breadcrumb */}
@@ -33,9 +311,16 @@ export default function QuickbooksIntegrationPage() {
         <h1 className="text-2xl font-bold text-gray-900">Quickbooks Online Integration</h1>
       </div>
 
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+      {message && (
+        <div className="p-4 bg-teal-50 border border-teal-200 rounded-lg text-sm text-teal-700">{message}</div>
+      )}
+
       {/* Integration Card */}
       <section className="bg-white rounded-lg border border-gray-200">
-        <div className="flex flex-col items-center justify-center py-16 px-8">
+        <div className={`flex flex-col items-center justify-center px-8 ${connection ? "py-8" : "py-16"}`}>
           {/* QuickBooks Integration Icon */}
           <div className="flex items-center justify-center mb-8">
             <svg width="100" height="60" viewBox="0 0 100 60" fill="none" xmlns="http://www.w3.org/2000/svg">
@@ -52,39 +337,84 @@ export default function QuickbooksIntegrationPage() {
             </svg>
           </div>
 
-          {/* Title */}
-          <h2 className="text-2xl font-semibold text-gray-900 mb-4 text-center">
-            Streamline Financial Reporting
-          </h2>
-
-          {/* Description */}
-          <p className="text-gray-600 text-center max-w-md mb-8">
-            Keep your DooGood Scoopers clients, invoices and payments in sync with Quickbooks Online.
-          </p>
-
-          {/* Connect Button */}
-          {!isConnected ? (
-            <button
-              onClick={handleConnect}
-              disabled={connecting}
-              className="px-8 py-3 bg-green-600 text-white font-medium rounded-md hover:bg-green-700 disabled:opacity-50 transition-colors"
-            >
-              {connecting ? "Connecting..." : "CONNECT"}
-            </button>
+          {!connection ? (
+            <>
+              {/* Title */}
+              <h2 className="text-2xl font-semibold text-gray-900 mb-4 text-center">
+                Streamline Financial Reporting
+              </h2>
+
+              {/* Description */}
+              <p className="text-gray-600 text-center max-w-md mb-8">
+                Keep your DooGood Scoopers clients, invoices and payments in sync with Quickbooks Online.
+              </p>
+
+              {/* Connect Button */}
+              {configured ? (
+                <button
+                  onClick={handleConnect}
+                  className="px-8 py-3 bg-green-600 text-white font-medium rounded-md hover:bg-green-700 transition-colors"
+                >
+                  CONNECT
+                </button>
+              ) : (
+                <p className="text-sm text-gray-500 text-center max-w-md">
+                  QuickBooks API credentials (QBO_CLIENT_ID, QBO_CLIENT_SECRET) are not configured on the server.
+                </p>
+              )}
+            </>
           ) : (
             <div className="text-center">
-              <div className="flex items-center gap-2 text-green-600 mb-4">
+              <div className="flex items-center justify-center gap-2 text-green-600 mb-2">
                 <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
                   <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
                 </svg>
-                <span className="font-medium">Connected</span>
+                <span className="font-medium">Connected{connection.companyName ? ` to ${connection.companyName}` : ""}</span>
               </div>
-              <button
-                onClick={() => setIsConnected(false)}
-                className="text-red-600 hover:text-red-700 text-sm font-medium"
-              >
-                Disconnect
-              </button>
+              <p className="text-sm text-gray-500 mb-1">Last sync: {formatDateTime(connection.lastSyncAt)}</p>
+              {connection.lastError && (
+                <p className="text-sm text-red-600 mb-1">{connection.lastError}</p>
+              )}
+              {counts && counts.failed > 0 && (
+                <p className="text-sm text-red-600 mb-1">
+                  {counts.failed} item{counts.failed !== 1 ? "s" : ""} waiting to retry
+                </p>
+              )}
+              <div className="flex items-center justify-center gap-3 mt-4">
+                <button
+                  onClick={() => handleSync(false)}
+                  disabled={syncing || !mapping.defaultItemId}
+                  className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-teal-600 rounded-md hover:bg-teal-700 disabled:opacity-50"
+                >
+                  <RefreshCw className={`w-4 h-4 ${syncing ? "animate-spin" : ""}`} />
+                  {syncing ? "SYNCING..." : "SYNC NOW"}
+                </button>
+                {counts && counts.failed > 0 && (
+                  <button
+                    onClick={() => handleSync(true)}
+                    disabled={syncing}
+                    className="px-4 py-2 text-sm font-medium text-teal-700 border border-teal-600 rounded-md hover:bg-teal-50 disabled:opacity-50"
+                  >
+                    RETRY FAILED
+                  </button>
+                )}
+                <button
+                  onClick={handleConnect}
+                  className="px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-800"
+                >
+                  Reconnect
+                </button>
+                <button
+                  onClick={handleDisconnect}
+                  disabled={disconnecting}
+                  className="text-red-600 hover:text-red-700 text-sm font-medium disabled:opacity-50"
+                >
+                  Disconnect
+                </button>
+              </div>
+              {!mapping.defaultItemId && (
+                <p className="text-xs text-gray-500 mt-3">Choose a default product/service below to enable syncing.</p>
+              )}
             </div>
           )}
 
@@ -102,6 +432,263 @@ export default function QuickbooksIntegrationPage() {
           </div>
         </div>
       </section>
+
+      {connection && (
+        <>
+          {/* Mapping */}
+          <section className="bg-white rounded-lg border border-gray-200">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Mapping</h2>
+              <p className="text-sm text-gray-500 mt-1">
+                Clients sync as customers, invoices as invoices, payments as payments and refunds as refund
+                receipts. Syncing is one-way; edit these records here, not in QuickBooks.
+              </p>
+            </div>
+
+            <div className="px-6 py-4 space-y-5">
+              {!lookups && <p className="text-sm text-gray-500">Loading QuickBooks lists...</p>}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm text-gray-500 mb-1">Default product/service</label>
+                  {itemSelect(mapping.defaultItemId, (value) => setMapping({ ...mapping, defaultItemId: value }), "Select...")}
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-500 mb-1">Sales tax product/service</label>
+                  {itemSelect(mapping.taxItemId, (value) => setMapping({ ...mapping, taxItemId: value }), "Use default")}
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-500 mb-1">Deposit payments to</label>
+                  <select
+                    value={mapping.depositAccountId || ""}
+                    onChange={(e) => setMapping({ ...mapping, depositAccountId: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">Undeposited Funds</option>
+                    {bankAccounts.map((account) => (
+                      <option key={account.id} value={account.id}>
+                        {account.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-500 mb-1">Pay refunds from</label>
+                  <select
+                    value={mapping.refundAccountId || ""}
+                    onChange={(e) => setMapping({ ...mapping, refundAccountId: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">Select... (required for refunds)</option>
+                    {bankAccounts.map((account) => (
+                      <option key={account.id} value={account.id}>
+                        {account.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-500 mb-1">Only sync records created on/after</label>
+                  <input
+                    type="date"
+                    value={mapping.syncStartDate || ""}
+                    onChange={(e) => setMapping({ ...mapping, syncStartDate: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm text-gray-500 mb-2">Line item rules</label>
+                <p className="text-xs text-gray-500 mb-2">
+                  Invoice lines whose description contains the text use that product/service instead of the default.
+                </p>
+                <div className="space-y-2">
+                  {(mapping.itemRules || []).map((rule, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={rule.match}
+                        onChange={(e) => updateRule(index, { ...rule, match: e.target.value })}
+                        placeholder="e.g. Initial cleanup"
+                        className={inputClass}
+                      />
+                      {itemSelect(rule.itemId, (value) => updateRule(index, { ...rule, itemId: value }), "Select...")}
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setMapping({ ...mapping, itemRules: (mapping.itemRules || []).filter((_, i) => i !== index) })
+                        }
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setMapping({ ...mapping, itemRules: [...(mapping.itemRules || []), { match: "", itemId: "" }] })}
+                  className="inline-flex items-center gap-1 mt-2 text-sm font-medium text-teal-600 hover:text-teal-700"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add rule
+                </button>
+              </div>
+
+              <div>
+                <label className="block text-sm text-gray-500 mb-2">Payment methods</label>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  {LOCAL_PAYMENT_METHODS.map((method) => (
+                    <div key={method}>
+                      <label className="block text-xs text-gray-500 mb-1">{method.replace("_", " ")}</label>
+                      <select
+                        value={mapping.paymentMethodIds?.[method] || ""}
+                        onChange={(e) =>
+                          setMapping({
+                            ...mapping,
+                            paymentMethodIds: { ...(mapping.paymentMethodIds || {}), [method]: e.target.value },
+                          })
+                        }
+                        className={inputClass}
+                      >
+                        <option value="">None</option>
+                        {(lookups?.paymentMethods || []).map((pm) => (
+                          <option key={pm.id} value={pm.id}>
+                            {pm.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="px-6 py-4 border-t border-gray-200 flex justify-end">
+              <button
+                onClick={handleSaveMapping}
+                disabled={saving}
+                className="px-4 py-2 text-sm font-medium text-white bg-teal-600 rounded-md hover:bg-teal-700 disabled:opacity-50"
+              >
+                {saving ? "SAVING..." : "SAVE"}
+              </button>
+            </div>
+          </section>
+
+          {/* Mismatch Report */}
+          <section className="bg-white rounded-lg border border-gray-200">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">Mismatch Report</h2>
+                <p className="text-sm text-gray-500 mt-1">
+                  Invoices, payments and refunds that are missing or differ in QuickBooks.
+                </p>
+              </div>
+              <button
+                onClick={handleLoadReport}
+                disabled={loadingReport}
+                className="px-4 py-2 text-sm font-medium text-teal-700 border border-teal-600 rounded-md hover:bg-teal-50 disabled:opacity-50"
+              >
+                {loadingReport ? "CHECKING..." : "RUN REPORT"}
+              </button>
+            </div>
+            {mismatches && (
+              <div className="overflow-x-auto">
+                <table className="min-w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Type</th>
+                      <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Reference</th>
+                      <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Issue</th>
+                      <th className="text-right py-3 px-4 text-sm font-medium text-gray-500">Here</th>
+                      <th className="text-right py-3 px-4 text-sm font-medium text-gray-500">QuickBooks</th>
+                      <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Detail</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {mismatches.length === 0 ? (
+                      <tr>
+                        <td colSpan={6} className="py-8 text-center text-gray-500">
+                          Everything matches
+                        </td>
+                      </tr>
+                    ) : (
+                      mismatches.map((m) => (
+                        <tr key={`${m.entityType}:${m.localId}`} className="border-b border-gray-100 hover:bg-gray-50">
+                          <td className="py-3 px-4 text-sm text-gray-900">{m.entityType}</td>
+                          <td className="py-3 px-4 text-sm text-gray-900">
+                            {m.entityType === "INVOICE" ? (
+                              <Link href={`/app/office/invoices/${m.localId}`} className="text-teal-600 hover:text-teal-700">
+                                {m.reference}
+                              </Link>
+                            ) : (
+                              m.reference
+                            )}
+                          </td>
+                          <td className="py-3 px-4 text-sm text-gray-900">{ISSUE_LABELS[m.issue]}</td>
+                          <td className="py-3 px-4 text-sm text-gray-900 text-right">{formatCents(m.localCents)}</td>
+                          <td className="py-3 px-4 text-sm text-gray-900 text-right">{formatCents(m.qboCents)}</td>
+                          <td className="py-3 px-4 text-sm text-gray-500">{m.detail || ""}</td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+
+          {/* Sync Log */}
+          <section className="bg-white rounded-lg border border-gray-200">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Sync Log</h2>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">When</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Type</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Operation</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Status</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Attempts</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">QuickBooks ID</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Error</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {log.length === 0 ? (
+                    <tr>
+                      <td colSpan={7} className="py-8 text-center text-gray-500">
+                        Nothing synced yet
+                      </td>
+                    </tr>
+                  ) : (
+                    log.map((entry) => (
+                      <tr key={entry.id} className="border-b border-gray-100 hover:bg-gray-50">
+                        <td className="py-3 px-4 text-sm text-gray-900 whitespace-nowrap">{formatDateTime(entry.lastAttemptAt)}</td>
+                        <td className="py-3 px-4 text-sm text-gray-900">{entry.entityType}</td>
+                        <td className="py-3 px-4 text-sm text-gray-900">{entry.operation}</td>
+                        <td className="py-3 px-4 text-sm">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[entry.status]}`}>
+                            {entry.status}
+                          </span>
+                        </td>
+                        <td className="py-3 px-4 text-sm text-gray-900">{entry.attempts}</td>
+                        <td className="py-3 px-4 text-sm text-gray-900">{entry.qboId || "—"}</td>
+                        <td className="py-3 px-4 text-sm text-red-600 max-w-xs truncate" title={entry.lastError || ""}>
+                          {entry.lastError || ""}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        </>
+      )}
     </div>
   );
 }
@@ -11,24 +11,80 @@ import {
   Save,
   Loader2,
   ChevronLeft,
+  Route,
+  Gauge,
+  Plus,
+  Trash2,
 } from "lucide-react";
 
+interface CapacityLimits {
+  maxStops: number | null;
+  maxOnSiteMinutes: number | null;
+  maxDriveMinutes: number | null;
+}
+
+interface TechCapacityLimits extends CapacityLimits {
+  techId: string;
+  day: string | null;
+}
+
+interface CapacitySettings {
+  enforcement: "WARN" | "BLOCK";
+  defaultLimits: CapacityLimits;
+  techLimits: TechCapacityLimits[];
+}
+
+interface Staff {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
 interface RouteOptimizationSettings {
   daysOff: string[];
   enableContinuousMonitoring: boolean;
   autoAcceptThreshold: number;
   preferredAnalysisTime: string;
   maxSuggestionsPerDay: number;
+  depot: { address: string; latitude: number | null; longitude: number | null };
+  routeStartTime: string;
+  avgSpeedMph: number;
+  serviceMinutesBase: number;
+  serviceMinutesPerDog: number;
+  capacity: CapacitySettings;
 }
 
+const DEFAULT_CAPACITY: CapacitySettings = {
+  enforcement: "WARN",
+  defaultLimits: { maxStops: 25, maxOnSiteMinutes: 360, maxDriveMinutes: 150 },
+  techLimits: [],
+};
+
 const DEFAULT_SETTINGS: RouteOptimizationSettings = {
   daysOff: ["SUNDAY"],
   enableContinuousMonitoring: false,
   autoAcceptThreshold: 0,
   preferredAnalysisTime: "02:00",
   maxSuggestionsPerDay: 10,
+  depot: { address: "", latitude: null, longitude: null },
+  routeStartTime: "08:00",
+  avgSpeedMph: 25,
+  serviceMinutesBase: 5,
+  serviceMinutesPerDog: 2,
+  capacity: DEFAULT_CAPACITY,
 };
 
+const LIMIT_FIELDS: Array<{ key: keyof CapacityLimits; label: string }> = [
+  { key: "maxStops", label: "Max Stops" },
+  { key: "maxOnSiteMinutes", label: "Max On-Site Minutes" },
+  { key: "maxDriveMinutes", label: "Max Drive Minutes" },
+];
+
+function parseLimit(value: string): number | null {
+  const num = parseInt(value);
+  return Number.isFinite(num) && num > 0 ? num : null;
+}
+
 const DAYS_OF_WEEK = [
   { value: "SUNDAY", label: "Sunday" },
   { value: "MONDAY", label: "Monday" },
@@ -45,6 +101,7 @@ export default function RouteOptimizationSettingsPage() {
   const [settings, setSettings] = useState<RouteOptimizationSettings>(DEFAULT_SETTINGS);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [staff, setStaff] = useState<Staff[]>([]);
 
   const fetchSettings = useCallback(async () => {
     setLoading(true);
@@ -59,8 +116,22 @@ export default function RouteOptimizationSettingsPage() {
         setSettings({
           ...DEFAULT_SETTINGS,
           ...routeOptSettings,
+          capacity: {
+            ...DEFAULT_CAPACITY,
+            ...routeOptSettings.capacity,
+            defaultLimits: {
+              ...DEFAULT_CAPACITY.defaultLimits,
+              ...routeOptSettings.capacity?.defaultLimits,
+            },
+          },
         });
       }
+
+      const staffRes = await fetch("/api/admin/staff?role=FIELD_TECH,CREW_LEAD&status=active");
+      if (staffRes.ok) {
+        const staffData = await staffRes.json();
+        setStaff(staffData.staff || []);
+      }
     } catch (err) {
       console.error("Error fetching settings:", err);
       setError("Failed to load settings");
@@ -113,6 +184,18 @@ export default function RouteOptimizationSettingsPage() {
     }));
   };
 
+  const updateCapacity = (changes: Partial<CapacitySettings>) => {
+    setSettings((prev) => ({ ...prev, capacity: { ...prev.capacity, ...changes } }));
+  };
+
+  const updateTechLimit = (index: number, changes: Partial<TechCapacityLimits>) => {
+    updateCapacity({
+      techLimits: settings.capacity.techLimits.map((t, i) =>
+        i === index ? { ...t, ...changes } : t
+      ),
+    });
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -331,6 +414,287 @@ export default function RouteOptimizationSettingsPage() {
         </div>
       </section>
 
+      {/* Stop Sequencing */}
+      <section className="bg-white rounded-lg border border-gray-200 p-6">
+        <div className="flex items-start gap-3 mb-4">
+          <div className="w-10 h-10 bg-teal-100 rounded-lg flex items-center justify-center">
+            <Route className="w-5 h-5 text-teal-600" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Stop Sequencing</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Used when optimizing the stop order of a route. Techs with their
+              own start location on their staff profile use that instead of the
+              default depot.
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="md:col-span-3">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Default Depot Address
+            </label>
+            <input
+              type="text"
+              value={settings.depot.address}
+              onChange={(e) =>
+                setSettings((prev) => ({
+                  ...prev,
+                  depot: { ...prev.depot, address: e.target.value },
+                }))
+              }
+              placeholder="Where routes start and end"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Depot Latitude
+            </label>
+            <input
+              type="number"
+              step="any"
+              value={settings.depot.latitude ?? ""}
+              onChange={(e) =>
+                setSettings((prev) => ({
+                  ...prev,
+                  depot: {
+                    ...prev.depot,
+                    latitude: e.target.value === "" ? null : parseFloat(e.target.value),
+                  },
+                }))
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Depot Longitude
+            </label>
+            <input
+              type="number"
+              step="any"
+              value={settings.depot.longitude ?? ""}
+              onChange={(e) =>
+                setSettings((prev) => ({
+                  ...prev,
+                  depot: {
+                    ...prev.depot,
+                    longitude: e.target.value === "" ? null : parseFloat(e.target.value),
+                  },
+                }))
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Route Start Time
+            </label>
+            <input
+              type="time"
+              value={settings.routeStartTime}
+              onChange={(e) =>
+                setSettings((prev) => ({ ...prev, routeStartTime: e.target.value }))
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Average Driving Speed (mph)
+            </label>
+            <input
+              type="number"
+              min={5}
+              max={70}
+              value={settings.avgSpeedMph}
+              onChange={(e) =>
+                setSettings((prev) => ({
+                  ...prev,
+                  avgSpeedMph: parseInt(e.target.value) || 25,
+                }))
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Base Minutes per Yard
+            </label>
+            <input
+              type="number"
+              min={0}
+              value={settings.serviceMinutesBase}
+              onChange={(e) =>
+                setSettings((prev) => ({
+                  ...prev,
+                  serviceMinutesBase: parseInt(e.target.value) || 0,
+                }))
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Extra Minutes per Dog
+            </label>
+            <input
+              type="number"
+              min={0}
+              value={settings.serviceMinutesPerDog}
+              onChange={(e) =>
+                setSettings((prev) => ({
+                  ...prev,
+                  serviceMinutesPerDog: parseInt(e.target.value) || 0,
+                }))
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+      </section>
+
+      {/* Route Capacity */}
+      <section className="bg-white rounded-lg border border-gray-200 p-6">
+        <div className="flex items-start gap-3 mb-4">
+          <div className="w-10 h-10 bg-amber-100 rounded-lg flex items-center justify-center">
+            <Gauge className="w-5 h-5 text-amber-600" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Route Capacity</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              How much one tech can take on in a day. Placement suggestions,
+              route reorganization and subscription assignment check these
+              limits. On-site time per yard comes from the minutes above,
+              scaled up for yards serviced less often. Leave a limit blank for
+              no limit.
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              When a Day Is Full
+            </label>
+            <select
+              value={settings.capacity.enforcement}
+              onChange={(e) =>
+                updateCapacity({ enforcement: e.target.value as CapacitySettings["enforcement"] })
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+            >
+              <option value="WARN">Warn and allow override</option>
+              <option value="BLOCK">Block the assignment</option>
+            </select>
+          </div>
+          {LIMIT_FIELDS.map((field) => (
+            <div key={field.key}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {field.label}
+              </label>
+              <input
+                type="number"
+                min={1}
+                value={settings.capacity.defaultLimits[field.key] ?? ""}
+                onChange={(e) =>
+                  updateCapacity({
+                    defaultLimits: {
+                      ...settings.capacity.defaultLimits,
+                      [field.key]: parseLimit(e.target.value),
+                    },
+                  })
+                }
+                placeholder="No limit"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-6">
+          <h3 className="text-sm font-medium text-gray-700 mb-1">Per-Tech Limits</h3>
+          <p className="text-xs text-gray-500 mb-3">
+            Override the defaults for a tech on every day or one weekday. A
+            weekday entry wins over an every-day entry; blank fields fall back.
+          </p>
+
+          {settings.capacity.techLimits.length > 0 && (
+            <div className="space-y-2 mb-3">
+              {settings.capacity.techLimits.map((limit, index) => (
+                <div key={index} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-center">
+                  <select
+                    value={limit.techId}
+                    onChange={(e) => updateTechLimit(index, { techId: e.target.value })}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    <option value="">Select tech...</option>
+                    {staff.map((s) => (
+                      <option key={s.id} value={s.id}>
+                        {`${s.firstName} ${s.lastName}`.trim()}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={limit.day || ""}
+                    onChange={(e) => updateTechLimit(index, { day: e.target.value || null })}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    <option value="">Every day</option>
+                    {DAYS_OF_WEEK.map((day) => (
+                      <option key={day.value} value={day.value}>
+                        {day.label}
+                      </option>
+                    ))}
+                  </select>
+                  {LIMIT_FIELDS.map((field) => (
+                    <input
+                      key={field.key}
+                      type="number"
+                      min={1}
+                      value={limit[field.key] ?? ""}
+                      onChange={(e) =>
+                        updateTechLimit(index, { [field.key]: parseLimit(e.target.value) })
+                      }
+                      placeholder={field.label}
+                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                  ))}
+                  <button
+                    onClick={() =>
+                      updateCapacity({
+                        techLimits: settings.capacity.techLimits.filter((_, i) => i !== index),
+                      })
+                    }
+                    className="p-2 text-gray-400 hover:text-red-600 justify-self-start"
+                    title="Remove"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <button
+            onClick={() =>
+              updateCapacity({
+                techLimits: [
+                  ...settings.capacity.techLimits,
+                  { techId: "", day: null, maxStops: null, maxOnSiteMinutes: null, maxDriveMinutes: null },
+                ],
+              })
+            }
+            className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-amber-700 bg-amber-50 rounded-lg hover:bg-amber-100"
+          >
+            <Plus className="w-4 h-4" />
+            Add Tech Limit
+          </button>
+        </div>
+      </section>
+
       {/* Quick Links */}
       <section className="bg-gray-50 rounded-lg border border-gray-200 p-6">
         <h3 className="text-sm font-medium text-gray-700 mb-4">Quick Links</h3>
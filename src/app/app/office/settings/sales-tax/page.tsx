@@ -0,0 +1,445 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Pencil, Trash2, X } from "lucide-react";
+
+type TaxCategory = "SERVICE_PLAN" | "ADD_ON" | "CROSS_SELL" | "GIFT_CARD";
+
+interface SalesTaxRule {
+  id: string;
+  jurisdiction: string;
+  state: string | null;
+  city: string | null;
+  zipCode: string | null;
+  category: TaxCategory;
+  ratePercent: number;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  notes: string | null;
+}
+
+const CATEGORY_LABELS: Record<TaxCategory, string> = {
+  SERVICE_PLAN: "Service plan",
+  ADD_ON: "Add-on",
+  CROSS_SELL: "Cross-sell",
+  GIFT_CARD: "Gift card",
+};
+
+const defaultRule: Omit<SalesTaxRule, "id"> = {
+  jurisdiction: "",
+  state: "",
+  city: "",
+  zipCode: "",
+  category: "SERVICE_PLAN",
+  ratePercent: 0,
+  effectiveFrom: new Date().toISOString().split("T")[0],
+  effectiveTo: null,
+  notes: null,
+};
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+const describeArea = (rule: SalesTaxRule) =>
+  rule.zipCode
+    ? `ZIP ${rule.zipCode}`
+    : rule.city
+      ? `${rule.city}, ${rule.state}`
+      : `All of ${rule.state}`;
+
+export default function SalesTaxSettingsPage() {
+  const [rules, setRules] = useState<SalesTaxRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [editingRule, setEditingRule] = useState<SalesTaxRule | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      setLoading(true);
+      const res = await fetch("/api/admin/sales-tax-rules");
+      const data = await res.json();
+
+      if (res.ok) {
+        setRules(data.rules || []);
+      } else {
+        setError(data.error || "Failed to load sales tax rules");
+      }
+    } catch (err) {
+      console.error("Error fetching sales tax rules:", err);
+      setError("Failed to load sales tax rules");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const handleSave = async (rule: SalesTaxRule) => {
+    const res = await fetch("/api/admin/sales-tax-rules", {
+      method: isCreating ? "POST" : "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(rule),
+    });
+    const data = await res.json();
+
+    if (!res.ok) {
+      throw new Error(data.error || "Failed to save rule");
+    }
+
+    setEditingRule(null);
+    setIsCreating(false);
+    setMessage("Saved. The rule applies to invoices created from now on.");
+    fetchRules();
+  };
+
+  const handleDelete = async (rule: SalesTaxRule) => {
+    if (!confirm(`Delete the ${CATEGORY_LABELS[rule.category].toLowerCase()} rate for ${rule.jurisdiction}? Invoices already billed keep their tax.`)) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/admin/sales-tax-rules?id=${rule.id}`, { method: "DELETE" });
+      const data = await res.json();
+
+      if (res.ok) {
+        setMessage("Deleted.");
+        fetchRules();
+      } else {
+        setError(data.error || "Failed to delete rule");
+      }
+    } catch (err) {
+      console.error("Error deleting sales tax rule:", err);
+      setError("Failed to delete rule");
+    }
+  };
+
+  if (loading && rules.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-teal-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Breadcrumb */}
+      <div className="text-sm text-gray-500">
+        <Link href="/app/office/settings" className="text-teal-600 hover:text-teal-700">
+          SETTINGS
+        </Link>
+        <span className="mx-2">/</span>
+        <span className="text-gray-400">SALES TAX RULES</span>
+      </div>
+
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Sales Tax Rules</h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Invoice lines are taxed by the client&apos;s primary service address. The most specific rule wins:
+          ZIP code, then city, then state. Addresses no rule covers, tax-exempt clients and lines marked not
+          taxable are billed without tax.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+      {message && (
+        <div className="p-4 bg-teal-50 border border-teal-200 rounded-lg text-sm text-teal-700">{message}</div>
+      )}
+
+      {/* Toolbar */}
+      <div className="flex items-center justify-between gap-4">
+        <Link href="/app/office/reports/sales-tax" className="text-sm font-medium text-teal-600 hover:text-teal-700">
+          View sales tax report
+        </Link>
+        <button
+          onClick={() => {
+            setEditingRule({ id: "", ...defaultRule });
+            setIsCreating(true);
+          }}
+          className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-teal-600 rounded-md hover:bg-teal-700"
+        >
+          ADD NEW
+        </button>
+      </div>
+
+      {/* Rules Table */}
+      <section className="bg-white rounded-lg border border-gray-200">
+        <div className="overflow-x-auto">
+          <table className="min-w-full">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Jurisdiction</th>
+                <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Applies To</th>
+                <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Category</th>
+                <th className="text-right py-3 px-4 text-sm font-medium text-gray-500">Rate</th>
+                <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Effective</th>
+                <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rules.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="py-8 text-center text-gray-500">
+                    No sales tax rules. Invoices are billed without tax.
+                  </td>
+                </tr>
+              ) : (
+                rules.map((rule) => (
+                  <tr key={rule.id} className="border-b border-gray-100 hover:bg-gray-50">
+                    <td className="py-3 px-4 text-sm text-gray-900">
+                      {rule.jurisdiction}
+                      {rule.notes && <p className="text-xs text-gray-500">{rule.notes}</p>}
+                    </td>
+                    <td className="py-3 px-4 text-sm text-gray-900">{describeArea(rule)}</td>
+                    <td className="py-3 px-4 text-sm text-gray-900">{CATEGORY_LABELS[rule.category]}</td>
+                    <td className="py-3 px-4 text-sm text-gray-900 text-right">{rule.ratePercent.toFixed(3)}%</td>
+                    <td className="py-3 px-4 text-sm text-gray-900">
+                      {formatDate(rule.effectiveFrom)}
+                      {rule.effectiveTo ? ` – ${formatDate(rule.effectiveTo)}` : " onward"}
+                    </td>
+                    <td className="py-3 px-4">
+                      <div className="flex items-center gap-3">
+                        <button
+                          onClick={() => {
+                            setEditingRule(rule);
+                            setIsCreating(false);
+                          }}
+                          className="inline-flex items-center gap-1 text-teal-600 hover:text-teal-700 text-sm font-medium"
+                        >
+                          Edit
+                          <Pencil className="w-3 h-3" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(rule)}
+                          className="inline-flex items-center gap-1 text-red-600 hover:text-red-700 text-sm font-medium"
+                        >
+                          Delete
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      {editingRule && (
+        <RuleModal
+          rule={editingRule}
+          isCreating={isCreating}
+          onClose={() => {
+            setEditingRule(null);
+            setIsCreating(false);
+          }}
+          onSave={handleSave}
+        />
+      )}
+    </div>
+  );
+}
+
+interface RuleModalProps {
+  rule: SalesTaxRule;
+  isCreating: boolean;
+  onClose: () => void;
+  onSave: (rule: SalesTaxRule) => Promise<void>;
+}
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-teal-500";
+
+function RuleModal({ rule, isCreating, onClose, onSave }: RuleModalProps) {
+  const [formData, setFormData] = useState<SalesTaxRule>(rule);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.jurisdiction.trim() || !formData.effectiveFrom) {
+      setError("Jurisdiction name and effective date are required");
+      return;
+    }
+    if (!formData.zipCode && !formData.state) {
+      setError("Enter a ZIP code, or a state (and optionally a city)");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(formData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save rule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit}>
+          {/* Header */}
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">
+              {isCreating ? "Add Sales Tax Rule" : "Edit Sales Tax Rule"}
+            </h3>
+            <button
+              type="button"
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="px-6 py-4 space-y-5">
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>
+            )}
+
+            <div>
+              <label className="block text-sm text-gray-500 mb-1">Jurisdiction name</label>
+              <input
+                type="text"
+                value={formData.jurisdiction}
+                onChange={(e) => setFormData({ ...formData, jurisdiction: e.target.value })}
+                placeholder="e.g. Denver, CO"
+                className={inputClass}
+              />
+              <p className="text-xs text-gray-400 mt-1">Tax is reported under this name.</p>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-sm text-gray-500 mb-1">ZIP</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  maxLength={5}
+                  value={formData.zipCode || ""}
+                  onChange={(e) => setFormData({ ...formData, zipCode: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-gray-500 mb-1">City</label>
+                <input
+                  type="text"
+                  value={formData.city || ""}
+                  onChange={(e) => setFormData({ ...formData, city: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-gray-500 mb-1">State</label>
+                <input
+                  type="text"
+                  maxLength={2}
+                  value={formData.state || ""}
+                  onChange={(e) => setFormData({ ...formData, state: e.target.value.toUpperCase() })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm text-gray-500 mb-1">Category</label>
+                <select
+                  value={formData.category}
+                  onChange={(e) => setFormData({ ...formData, category: e.target.value as TaxCategory })}
+                  className={inputClass}
+                >
+                  {(Object.keys(CATEGORY_LABELS) as TaxCategory[]).map((category) => (
+                    <option key={category} value={category}>
+                      {CATEGORY_LABELS[category]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm text-gray-500 mb-1">Rate (%)</label>
+                <input
+                  type="number"
+                  step="0.001"
+                  min="0"
+                  max="100"
+                  value={formData.ratePercent}
+                  onChange={(e) => setFormData({ ...formData, ratePercent: parseFloat(e.target.value) || 0 })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm text-gray-500 mb-1">Effective from</label>
+                <input
+                  type="date"
+                  value={formData.effectiveFrom}
+                  onChange={(e) => setFormData({ ...formData, effectiveFrom: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-gray-500 mb-1">Effective to</label>
+                <input
+                  type="date"
+                  value={formData.effectiveTo || ""}
+                  onChange={(e) => setFormData({ ...formData, effectiveTo: e.target.value || null })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm text-gray-500 mb-1">Notes</label>
+              <input
+                type="text"
+                value={formData.notes || ""}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                placeholder="e.g. City + county + state combined"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-800"
+            >
+              CANCEL
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-white bg-teal-600 rounded-md hover:bg-teal-700 disabled:opacity-50"
+            >
+              {saving ? "SAVING..." : "SAVE"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
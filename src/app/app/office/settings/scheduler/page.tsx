@@ -10,6 +10,15 @@ interface SchedulerSettings {
   emailPreliminarySchedule: "never" | "weekly" | "daily";
   locationDistanceTolerance: number;
   cleanupDurationTolerance: number;
+  dayAheadReminders: boolean;
+  dayAheadSendHour: number;
+}
+
+const DAY_AHEAD_HOURS = [12, 13, 14, 15, 16, 17, 18, 19];
+
+function formatHour(hour: number) {
+  const suffix = hour >= 12 ? "PM" : "AM";
+  return `${hour % 12 || 12} ${suffix}`;
 }
 
 // Modal Component
@@ -184,6 +193,8 @@ export default function SchedulerSettingsPage() {
     emailPreliminarySchedule: "weekly",
     locationDistanceTolerance: 1000,
     cleanupDurationTolerance: 100,
+    dayAheadReminders: true,
+    dayAheadSendHour: 17,
   });
 
   // Modal states
@@ -205,6 +216,8 @@ export default function SchedulerSettingsPage() {
           emailPreliminarySchedule: scheduler.emailPreliminarySchedule || "weekly",
           locationDistanceTolerance: scheduler.locationDistanceTolerance ?? 1000,
           cleanupDurationTolerance: scheduler.cleanupDurationTolerance ?? 100,
+          dayAheadReminders: scheduler.dayAheadReminders ?? true,
+          dayAheadSendHour: scheduler.dayAheadSendHour ?? 17,
         });
       }
     } catch (error) {
@@ -324,6 +337,18 @@ export default function SchedulerSettingsPage() {
         }}
       />
 
+      {/* Day-Ahead Reminders */}
+      <SettingRow
+        title="Day-Ahead Reminders"
+        value={settings.dayAheadReminders ? `YES, AT ${formatHour(settings.dayAheadSendHour)}` : "NO"}
+        description="Remind clients the day before their visit, by text and/or email per each client's notification preferences. Reminders go out for jobs already on a route or assigned to a tech, so pick a time after your routes are usually built. Clients with gate notes are asked to leave the gate unlocked."
+        onEdit={() => {
+          setEditToggle(settings.dayAheadReminders);
+          setEditValue(String(settings.dayAheadSendHour));
+          setEditModal("dayAheadReminders");
+        }}
+      />
+
       {/* Location Distance Tolerance */}
       <SettingRow
         title="Location Distance Tolerance (ft)"
@@ -427,6 +452,37 @@ export default function SchedulerSettingsPage() {
         />
       </Modal>
 
+      {/* Day-Ahead Reminders Modal */}
+      <Modal
+        isOpen={editModal === "dayAheadReminders"}
+        onClose={() => setEditModal(null)}
+        title="Edit Day-Ahead Reminders"
+        onSave={() => saveSettings({ dayAheadReminders: editToggle, dayAheadSendHour: parseInt(editValue) })}
+        saving={saving}
+      >
+        <div className="space-y-4">
+          <Toggle
+            checked={editToggle}
+            onChange={setEditToggle}
+            label="Send Day-Ahead Reminders"
+          />
+          {editToggle && (
+            <SelectDropdown
+              label="Send At"
+              value={editValue}
+              onChange={setEditValue}
+              options={DAY_AHEAD_HOURS.map((hour) => ({
+                value: String(hour),
+                label: hour === 17 ? `${formatHour(hour)} (Default)` : formatHour(hour),
+              }))}
+            />
+          )}
+          <p className="text-sm text-gray-500">
+            Times are in your messaging time zone and always stay within your SMS quiet hours.
+          </p>
+        </div>
+      </Modal>
+
       {/* Location Distance Tolerance Modal */}
       <Modal
         isOpen={editModal === "locationDistanceTolerance"}
@@ -17,6 +17,7 @@ import {
   Car,
   Calendar,
   Shield,
+  Star,
 } from "lucide-react";
 import { getRoleDisplayName, getRoleColor } from "@/lib/rbac";
 import type { UserRole } from "@/lib/supabase/types";
@@ -44,6 +45,7 @@ interface StaffMember {
   last_login_at: string | null;
   created_at: string;
   staff_profile: StaffProfile | null;
+  rating: { averageRating: number; totalCount: number } | null;
 }
 
 const STAFF_ROLES: UserRole[] = [
@@ -433,6 +435,18 @@ export default function StaffPage() {
                   </div>
                 </div>
 
+                {/* Client Rating */}
+                {member.rating && (
+                  <div className="text-right text-sm">
+                    <p className="text-gray-500">Rating</p>
+                    <p className="flex items-center justify-end gap-1 text-gray-900">
+                      <Star className="w-3 h-3 fill-teal-500 text-teal-500" />
+                      {member.rating.averageRating.toFixed(1)}
+                      <span className="text-gray-500">({member.rating.totalCount})</span>
+                    </p>
+                  </div>
+                )}
+
                 {/* Last Login */}
                 <div className="text-right text-sm">
                   <p className="text-gray-500">Last login</p>
@@ -11,6 +11,7 @@ import {
   XCircle,
   PauseCircle,
   ArrowRightLeft,
+  X,
 } from "lucide-react";
 import Link from "next/link";
 
@@ -30,12 +31,41 @@ interface SubscriptionDetails {
   couponCode: string | null;
   couponAddedAt: string | null;
   couponExpiredAt: string | null;
-  billingOption: string;
+  billingMode: string;
+  visitChargeBatch: string;
+  prepaidVisitsRemaining: number;
   billingInterval: string;
   startOfBillingPeriod: string;
   endOfBillingPeriod: string;
 }
 
+interface ProrationPreview {
+  applies: boolean;
+  reason: string | null;
+  effectiveDate: string;
+  periodEnd: string;
+  oldVisits: number;
+  newVisits: number;
+  oldChargeCents: number;
+  newChargeCents: number;
+  amountCents: number;
+}
+
+const PLAN_FREQUENCIES = ["WEEKLY", "BIWEEKLY", "MONTHLY"];
+
+// Matches BILLING_MODE_LABELS and VISIT_CHARGE_BATCH_LABELS in lib/visit-billing
+const BILLING_MODE_LABELS: Record<string, string> = {
+  MONTHLY_FLAT: "Monthly flat rate",
+  PER_VISIT: "Per visit",
+  PREPAID_PACK: "Prepaid pack",
+};
+
+const VISIT_CHARGE_BATCH_LABELS: Record<string, string> = {
+  IMMEDIATE: "On completion",
+  DAILY: "Daily",
+  WEEKLY: "Weekly (Mondays)",
+};
+
 function formatDate(dateString: string | null): string {
   if (!dateString) return "No data";
   return new Date(dateString).toLocaleDateString("en-US", {
@@ -100,6 +130,19 @@ export default function SubscriptionDetailsPage() {
   const [subscription, setSubscription] = useState<SubscriptionDetails | null>(null);
   const [showActionsMenu, setShowActionsMenu] = useState(false);
   const actionsRef = useRef<HTMLDivElement>(null);
+  const [showPlanModal, setShowPlanModal] = useState(false);
+  const [planFrequency, setPlanFrequency] = useState("");
+  const [planBillingMode, setPlanBillingMode] = useState("");
+  const [planChargeBatch, setPlanChargeBatch] = useState("");
+  const [planPrice, setPlanPrice] = useState("");
+  const [planPreview, setPlanPreview] = useState<ProrationPreview | null>(null);
+  const [planSaving, setPlanSaving] = useState(false);
+  const [planError, setPlanError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [showPackModal, setShowPackModal] = useState(false);
+  const [packVisits, setPackVisits] = useState("");
+  const [packPrice, setPackPrice] = useState("");
+  const [packNote, setPackNote] = useState("");
 
   const subscriptionId = params.id as string;
 
@@ -153,8 +196,10 @@ export default function SubscriptionDetailsPage() {
             couponCode: sub.coupon_code || null,
             couponAddedAt: sub.coupon_applied_at || null,
             couponExpiredAt: sub.coupon_expires_at || null,
-            billingOption: "Prepaid Fixed",
-            billingInterval: "Monthly",
+            billingMode: sub.frequency === "ONETIME" ? "PER_VISIT" : sub.billing_mode || "MONTHLY_FLAT",
+            visitChargeBatch: sub.visit_charge_batch || "IMMEDIATE",
+            prepaidVisitsRemaining: sub.prepaid_visits_remaining || 0,
+            billingInterval: sub.billing_interval === "MONTHLY" || !sub.billing_interval ? "Monthly" : sub.billing_interval,
             startOfBillingPeriod: startOfBilling.toISOString(),
             endOfBillingPeriod: endOfBilling.toISOString(),
           });
@@ -167,6 +212,126 @@ export default function SubscriptionDetailsPage() {
     }
   }
 
+  function openPlanModal() {
+    if (!subscription) return;
+    setPlanFrequency(subscription.frequency);
+    setPlanBillingMode(subscription.billingMode);
+    setPlanChargeBatch(subscription.visitChargeBatch);
+    setPlanPrice((subscription.amountCents / 100).toFixed(2));
+    setPlanPreview(null);
+    setPlanError(null);
+    setShowActionsMenu(false);
+    setShowPlanModal(true);
+  }
+
+  function planChanges() {
+    return {
+      id: subscriptionId,
+      frequency: planFrequency,
+      price_per_visit_cents: Math.round(parseFloat(planPrice) * 100),
+      billing_mode: planBillingMode,
+      visit_charge_batch: planChargeBatch,
+    };
+  }
+
+  async function previewPlanChange() {
+    setPlanSaving(true);
+    setPlanError(null);
+    try {
+      const response = await fetch("/api/admin/subscriptions/proration", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(planChanges()),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setPlanPreview(data.proration);
+      } else {
+        setPlanError(data.error || "Failed to preview change");
+      }
+    } catch (error) {
+      console.error("Error previewing plan change:", error);
+      setPlanError("Failed to preview change");
+    } finally {
+      setPlanSaving(false);
+    }
+  }
+
+  async function confirmPlanChange() {
+    setPlanSaving(true);
+    setPlanError(null);
+    try {
+      const response = await fetch("/api/admin/subscriptions", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(planChanges()),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setShowPlanModal(false);
+        setNotice(
+          data.proration?.applies
+            ? `Plan updated. ${formatCurrency(Math.abs(data.proration.amountCents))} ${
+                data.proration.amountCents > 0 ? "charge" : "credit"
+              } added to the next invoice.`
+            : "Plan updated."
+        );
+        fetchSubscriptionDetails();
+      } else {
+        setPlanError(data.error || "Failed to update subscription");
+      }
+    } catch (error) {
+      console.error("Error updating subscription:", error);
+      setPlanError("Failed to update subscription");
+    } finally {
+      setPlanSaving(false);
+    }
+  }
+
+  function openPackModal() {
+    setPackVisits("");
+    setPackPrice("");
+    setPackNote("");
+    setPlanError(null);
+    setShowActionsMenu(false);
+    setShowPackModal(true);
+  }
+
+  async function addPrepaidVisits() {
+    setPlanSaving(true);
+    setPlanError(null);
+    try {
+      const response = await fetch("/api/admin/subscriptions/prepaid-visits", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          id: subscriptionId,
+          visits: parseInt(packVisits, 10),
+          price_cents: packPrice ? Math.round(parseFloat(packPrice) * 100) : 0,
+          note: packNote,
+        }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setShowPackModal(false);
+        setNotice(
+          `${data.visitsRemaining} prepaid visit${data.visitsRemaining !== 1 ? "s" : ""} left.` +
+            (data.invoice
+              ? ` Invoice ${data.invoice.invoiceNumber} ${data.invoice.status === "PAID" ? "charged" : `is ${data.invoice.status.toLowerCase()}`}.`
+              : "")
+        );
+        fetchSubscriptionDetails();
+      } else {
+        setPlanError(data.error || "Failed to add prepaid visits");
+      }
+    } catch (error) {
+      console.error("Error adding prepaid visits:", error);
+      setPlanError("Failed to add prepaid visits");
+    } finally {
+      setPlanSaving(false);
+    }
+  }
+
   if (loading) {
     return (
       <div className="p-6 flex items-center justify-center min-h-[400px]">
@@ -257,19 +422,37 @@ export default function SubscriptionDetailsPage() {
                   <PauseCircle className="w-4 h-4 text-amber-500" />
                   Pause Subscription
                 </button>
-                <button className="w-full flex items-center gap-3 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50">
+                <button
+                  onClick={openPlanModal}
+                  className="w-full flex items-center gap-3 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                >
                   <ArrowRightLeft className="w-4 h-4 text-teal-500" />
                   Change Cleanup Frequency
                 </button>
-                <button className="w-full flex items-center gap-3 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50">
+                <button
+                  onClick={openPlanModal}
+                  className="w-full flex items-center gap-3 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                >
                   <ArrowRightLeft className="w-4 h-4 text-red-500" />
                   Change Billing Option
                 </button>
+                {subscription.billingMode === "PREPAID_PACK" && (
+                  <button
+                    onClick={openPackModal}
+                    className="w-full flex items-center gap-3 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    <PlusCircle className="w-4 h-4 text-teal-500" />
+                    Add Prepaid Visits
+                  </button>
+                )}
                 <button className="w-full flex items-center gap-3 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50">
                   <ArrowRightLeft className="w-4 h-4 text-teal-500" />
                   Change Billing Interval
                 </button>
-                <button className="w-full flex items-center gap-3 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50">
+                <button
+                  onClick={openPlanModal}
+                  className="w-full flex items-center gap-3 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                >
                   <ArrowRightLeft className="w-4 h-4 text-teal-500" />
                   Change Price
                 </button>
@@ -279,6 +462,10 @@ export default function SubscriptionDetailsPage() {
         </div>
       </div>
 
+      {notice && (
+        <div className="mb-4 p-3 bg-teal-50 text-teal-700 rounded-lg text-sm">{notice}</div>
+      )}
+
       {/* Details Card */}
       <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
         <div className="px-6 py-4 border-b border-gray-100">
@@ -399,9 +586,26 @@ export default function SubscriptionDetailsPage() {
           {/* Billing Option */}
           <div className="flex px-6 py-4">
             <div className="w-1/3 text-gray-600">Billing Option</div>
-            <div className="w-2/3 text-gray-900">{subscription.billingOption}</div>
+            <div className="w-2/3 text-gray-900">
+              {BILLING_MODE_LABELS[subscription.billingMode] || subscription.billingMode}
+              {subscription.billingMode !== "MONTHLY_FLAT" && (
+                <span className="text-gray-500">
+                  {" "}
+                  &middot; charged {VISIT_CHARGE_BATCH_LABELS[subscription.visitChargeBatch]?.toLowerCase()}
+                </span>
+              )}
+            </div>
           </div>
 
+          {subscription.billingMode === "PREPAID_PACK" && (
+            <div className="flex px-6 py-4">
+              <div className="w-1/3 text-gray-600">Prepaid Visits Left</div>
+              <div className={`w-2/3 ${subscription.prepaidVisitsRemaining > 0 ? "text-gray-900" : "text-red-600"}`}>
+                {subscription.prepaidVisitsRemaining}
+              </div>
+            </div>
+          )}
+
           {/* Billing Interval */}
           <div className="flex px-6 py-4">
             <div className="w-1/3 text-gray-600">Billing Interval</div>
@@ -436,6 +640,195 @@ export default function SubscriptionDetailsPage() {
           </div>
         </div>
       </div>
+
+      {/* Plan Change Modal */}
+      {showPlanModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-md w-full">
+            <div className="flex items-center justify-between px-6 py-4 border-b border-gray-100">
+              <h2 className="font-medium text-gray-900">Change Plan</h2>
+              <button onClick={() => setShowPlanModal(false)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">Cleanup Frequency</label>
+                <select
+                  value={planFrequency}
+                  onChange={(e) => {
+                    setPlanFrequency(e.target.value);
+                    setPlanPreview(null);
+                  }}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                >
+                  {PLAN_FREQUENCIES.map((frequency) => (
+                    <option key={frequency} value={frequency}>
+                      {getFrequencyLabel(frequency)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">Price per Visit ($)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={planPrice}
+                  onChange={(e) => {
+                    setPlanPrice(e.target.value);
+                    setPlanPreview(null);
+                  }}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">Billing Option</label>
+                <select
+                  value={planBillingMode}
+                  onChange={(e) => {
+                    setPlanBillingMode(e.target.value);
+                    setPlanPreview(null);
+                  }}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                >
+                  {Object.entries(BILLING_MODE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {planBillingMode !== "MONTHLY_FLAT" && (
+                <div>
+                  <label className="block text-sm text-gray-600 mb-1">Charge Visits</label>
+                  <select
+                    value={planChargeBatch}
+                    onChange={(e) => setPlanChargeBatch(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                  >
+                    {Object.entries(VISIT_CHARGE_BATCH_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  {planBillingMode === "PREPAID_PACK" && (
+                    <p className="text-xs text-gray-500 mt-1">Applies once the prepaid visits are used up.</p>
+                  )}
+                </div>
+              )}
+              <p className="text-xs text-gray-500">Changes take effect today.</p>
+
+              {planPreview && (
+                <div className="p-3 bg-gray-50 rounded-lg text-sm">
+                  {planPreview.applies ? (
+                    <>
+                      <p className="text-gray-900 font-medium">
+                        Next invoice: {formatCurrency(Math.abs(planPreview.amountCents))}{" "}
+                        {planPreview.amountCents > 0 ? "charge" : "credit"}
+                      </p>
+                      <p className="text-gray-600 mt-1">
+                        {planPreview.effectiveDate} to {planPreview.periodEnd}: {planPreview.newVisits} visit
+                        {planPreview.newVisits !== 1 ? "s" : ""} ({formatCurrency(planPreview.newChargeCents)})
+                        instead of {planPreview.oldVisits} ({formatCurrency(planPreview.oldChargeCents)})
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-gray-600">No proration. {planPreview.reason}</p>
+                  )}
+                </div>
+              )}
+
+              {planError && <p className="text-sm text-red-600">{planError}</p>}
+            </div>
+            <div className="px-6 py-4 border-t border-gray-100 flex gap-3">
+              <button
+                onClick={previewPlanChange}
+                disabled={planSaving || !planPrice}
+                className="flex-1 px-4 py-2 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                Preview
+              </button>
+              <button
+                onClick={confirmPlanChange}
+                disabled={planSaving || !planPreview}
+                className="flex-1 px-4 py-2 bg-teal-500 text-white rounded-lg hover:bg-teal-600 disabled:opacity-50"
+              >
+                {planSaving ? "Saving..." : "Confirm Change"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Prepaid Visits Modal */}
+      {showPackModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-md w-full">
+            <div className="flex items-center justify-between px-6 py-4 border-b border-gray-100">
+              <h2 className="font-medium text-gray-900">Add Prepaid Visits</h2>
+              <button onClick={() => setShowPackModal(false)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-gray-600">
+                {subscription.prepaidVisitsRemaining} visit{subscription.prepaidVisitsRemaining !== 1 ? "s" : ""} left.
+                A pack sold for a price is invoiced and charged to the card on file; leave the price empty to
+                adjust the balance (use a negative number to remove visits).
+              </p>
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">Visits</label>
+                <input
+                  type="number"
+                  step="1"
+                  value={packVisits}
+                  onChange={(e) => setPackVisits(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">Pack Price ($)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={packPrice}
+                  onChange={(e) => setPackPrice(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">Note</label>
+                <input
+                  type="text"
+                  value={packNote}
+                  onChange={(e) => setPackNote(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                />
+              </div>
+              {planError && <p className="text-sm text-red-600">{planError}</p>}
+            </div>
+            <div className="px-6 py-4 border-t border-gray-100 flex gap-3">
+              <button
+                onClick={() => setShowPackModal(false)}
+                className="flex-1 px-4 py-2 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={addPrepaidVisits}
+                disabled={planSaving || !packVisits}
+                className="flex-1 px-4 py-2 bg-teal-500 text-white rounded-lg hover:bg-teal-600 disabled:opacity-50"
+              >
+                {planSaving ? "Saving..." : packPrice ? "Sell Pack" : "Adjust Balance"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -2,7 +2,7 @@
 
 import { useState, useEffect, use } from "react";
 import Link from "next/link";
-import { ArrowLeft, FileText, CheckCircle } from "lucide-react";
+import { ArrowLeft, FileText, CheckCircle, Download, Mail } from "lucide-react";
 
 interface PayoutDetail {
   id: string;
@@ -17,23 +17,42 @@ interface PayoutDetail {
   periodEnd: string;
   notes: string | null;
   paidAt: string | null;
+  payoutRunId: string | null;
+  statementSentAt: string | null;
+  statementSentTo: string | null;
+  vendorEmail: string | null;
   createdAt: string;
 }
 
 interface PayoutItem {
   id: string;
   jobAddOnId: string | null;
+  source: "MANUAL" | "JOB_ADD_ON" | "CROSS_SELL";
+  invoiceId: string | null;
+  invoiceNumber: string | null;
   description: string;
+  grossCents: number | null;
+  commissionCents: number | null;
   amountCents: number;
+  releasedAt: string | null;
   createdAt: string;
 }
 
+// Matches PAYOUT_SOURCE_LABELS in lib/vendor-payouts
+const SOURCE_LABELS: Record<PayoutItem["source"], string> = {
+  MANUAL: "Manual",
+  JOB_ADD_ON: "Add-on",
+  CROSS_SELL: "Cross-sell",
+};
+
 export default function VendorPayoutDetailPage({ params }: { params: Promise<{ id: string }> }) {
   const { id } = use(params);
   const [loading, setLoading] = useState(true);
   const [payout, setPayout] = useState<PayoutDetail | null>(null);
   const [items, setItems] = useState<PayoutItem[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  const [statementMessage, setStatementMessage] = useState<string | null>(null);
 
   useEffect(() => {
     fetchPayout();
@@ -91,6 +110,51 @@ export default function VendorPayoutDetailPage({ params }: { params: Promise<{ i
     }
   }
 
+  async function handleDownloadStatement() {
+    try {
+      const res = await fetch(`/api/admin/vendor-payouts/${id}/statement`);
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setStatementMessage(data.error || "Failed to download statement");
+        return;
+      }
+      const blob = await res.blob();
+      const match = (res.headers.get("Content-Disposition") || "").match(/filename="([^"]+)"/);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.setAttribute("href", url);
+      link.setAttribute("download", match?.[1] || `payout-${id}.csv`);
+      link.style.visibility = "hidden";
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (err) {
+      console.error("Error downloading statement:", err);
+      setStatementMessage("Failed to download statement");
+    }
+  }
+
+  async function handleEmailStatement() {
+    if (!payout?.vendorEmail || !confirm(`Email this statement to ${payout.vendorEmail}?`)) return;
+    setSending(true);
+    setStatementMessage(null);
+    try {
+      const res = await fetch(`/api/admin/vendor-payouts/${id}/statement`, { method: "POST" });
+      const data = await res.json();
+      if (res.ok) {
+        setStatementMessage(`Statement sent to ${data.sentTo}`);
+        fetchPayout();
+      } else {
+        setStatementMessage(data.error || "Failed to send statement");
+      }
+    } catch (err) {
+      console.error("Error sending statement:", err);
+      setStatementMessage("Failed to send statement");
+    } finally {
+      setSending(false);
+    }
+  }
+
   const formatCurrency = (cents: number) =>
     new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(cents / 100);
 
@@ -170,6 +234,29 @@ export default function VendorPayoutDetailPage({ params }: { params: Promise<{ i
           </div>
         </div>
 
+        <div className="flex flex-wrap items-center gap-3 mt-4 pt-4 border-t border-gray-100">
+          <button
+            onClick={handleDownloadStatement}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-teal-700 bg-teal-50 rounded-lg hover:bg-teal-100"
+          >
+            <Download className="w-4 h-4" /> Download Statement
+          </button>
+          <button
+            onClick={handleEmailStatement}
+            disabled={sending || !payout.vendorEmail}
+            title={payout.vendorEmail ? undefined : "Vendor has no email address"}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-teal-700 bg-teal-50 rounded-lg hover:bg-teal-100 disabled:opacity-50"
+          >
+            <Mail className="w-4 h-4" /> {sending ? "Sending..." : "Email Statement"}
+          </button>
+          <p className="text-xs text-gray-500">
+            {statementMessage ||
+              (payout.statementSentAt
+                ? `Last sent to ${payout.statementSentTo} on ${new Date(payout.statementSentAt).toLocaleDateString()}`
+                : "Statement not sent yet")}
+          </p>
+        </div>
+
         {payout.notes && (
           <div className="mt-4 pt-4 border-t border-gray-100">
             <p className="text-xs text-gray-500 mb-1">Notes</p>
@@ -213,10 +300,27 @@ export default function VendorPayoutDetailPage({ params }: { params: Promise<{ i
                 <div>
                   <p className="font-medium text-gray-900">{item.description}</p>
                   <p className="text-xs text-gray-500">
-                    {new Date(item.createdAt).toLocaleDateString()}
+                    {SOURCE_LABELS[item.source] || item.source}
+                    {item.invoiceId && (
+                      <>
+                        {" · "}
+                        <Link href={`/app/office/invoices/${item.invoiceId}`} className="text-teal-600 hover:underline">
+                          {item.invoiceNumber || "Invoice"}
+                        </Link>
+                      </>
+                    )}
+                    {" · "}{new Date(item.createdAt).toLocaleDateString()}
+                    {item.releasedAt && " · Released"}
                   </p>
                 </div>
-                <p className="font-semibold text-gray-900">{formatCurrency(item.amountCents)}</p>
+                <div className="text-right">
+                  <p className="font-semibold text-gray-900">{formatCurrency(item.amountCents)}</p>
+                  {item.grossCents !== null && item.commissionCents !== null && (
+                    <p className="text-xs text-gray-500">
+                      {formatCurrency(item.grossCents)} less {formatCurrency(item.commissionCents)}
+                    </p>
+                  )}
+                </div>
               </div>
             ))}
             <div className="flex items-center justify-between p-4 bg-gray-50">
@@ -10,6 +10,8 @@ import {
   X,
   AlertCircle,
   ArrowLeft,
+  PlayCircle,
+  Mail,
 } from "lucide-react";
 
 interface VendorPayout {
@@ -24,9 +26,27 @@ interface VendorPayout {
   periodEnd: string;
   notes: string | null;
   paidAt: string | null;
+  payoutRunId: string | null;
+  statementSentAt: string | null;
   createdAt: string;
 }
 
+interface RunPreviewVendor {
+  vendorId: string;
+  vendorName: string;
+  vendorEmail: string | null;
+  lines: { description: string; grossCents: number; commissionCents: number; amountCents: number }[];
+  grossCents: number;
+  commissionCents: number;
+  amountCents: number;
+}
+
+interface RunPreview {
+  vendors: RunPreviewVendor[];
+  unassigned: { source: string; description: string; reason: string }[];
+  totalCents: number;
+}
+
 interface VendorOption {
   id: string;
   name: string;
@@ -51,6 +71,13 @@ export default function VendorPayoutsPage() {
     notes: "",
   });
 
+  const [showRunModal, setShowRunModal] = useState(false);
+  const [runForm, setRunForm] = useState({ periodStart: "", periodEnd: "", vendorId: "", sendStatements: true });
+  const [runPreview, setRunPreview] = useState<RunPreview | null>(null);
+  const [runLoading, setRunLoading] = useState(false);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [runMessage, setRunMessage] = useState<string | null>(null);
+
   useEffect(() => {
     fetchPayouts();
   }, [statusFilter]);
@@ -135,6 +162,77 @@ export default function VendorPayoutsPage() {
     }
   }
 
+  function openRunModal() {
+    // Default to last calendar month
+    const now = new Date();
+    const start = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+    const end = new Date(now.getFullYear(), now.getMonth(), 0);
+    const toDate = (d: Date) =>
+      `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+    setRunForm({ periodStart: toDate(start), periodEnd: toDate(end), vendorId: "", sendStatements: true });
+    setRunPreview(null);
+    setRunError(null);
+    setShowRunModal(true);
+    fetchVendors();
+  }
+
+  async function handlePreviewRun() {
+    setRunLoading(true);
+    setRunError(null);
+    try {
+      const params = new URLSearchParams({ periodStart: runForm.periodStart, periodEnd: runForm.periodEnd });
+      if (runForm.vendorId) params.set("vendorId", runForm.vendorId);
+      const res = await fetch(`/api/admin/vendor-payouts/run?${params}`);
+      const data = await res.json();
+      if (res.ok) {
+        setRunPreview(data);
+      } else {
+        setRunError(data.error || "Failed to preview payouts");
+      }
+    } catch (err) {
+      console.error("Error previewing payout run:", err);
+      setRunError("Failed to preview payouts");
+    } finally {
+      setRunLoading(false);
+    }
+  }
+
+  async function handleRun() {
+    if (!runPreview) return;
+    setRunLoading(true);
+    setRunError(null);
+    try {
+      const res = await fetch("/api/admin/vendor-payouts/run", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          periodStart: runForm.periodStart,
+          periodEnd: runForm.periodEnd,
+          vendorId: runForm.vendorId || null,
+          sendStatements: runForm.sendStatements,
+        }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setShowRunModal(false);
+        const skipped = (data.skipped || []).length;
+        setRunMessage(
+          `Created ${data.payouts.length} payout${data.payouts.length !== 1 ? "s" : ""} totaling ${formatCurrency(data.totalCents)}` +
+          (runForm.sendStatements ? `, ${data.statementsSent} statement${data.statementsSent !== 1 ? "s" : ""} emailed` : "") +
+          (skipped > 0 ? `. ${skipped} vendor${skipped !== 1 ? "s" : ""} skipped.` : ".")
+        );
+        fetchPayouts();
+      } else {
+        setRunError(data.error || "Failed to run payouts");
+      }
+    } catch (err) {
+      console.error("Error running payouts:", err);
+      setRunError("Failed to run payouts");
+    } finally {
+      setRunLoading(false);
+    }
+  }
+
   async function handleMarkPaid(payout: VendorPayout) {
     if (!confirm(`Mark this ${formatCurrency(payout.amountCents)} payout to ${payout.vendorName} as paid?`)) return;
 
@@ -179,6 +277,12 @@ export default function VendorPayoutsPage() {
           <button onClick={fetchPayouts} className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg">
             <RefreshCw className="w-4 h-4" />
           </button>
+          <button
+            onClick={openRunModal}
+            className="flex items-center gap-2 px-4 py-2 text-teal-700 bg-teal-50 rounded-lg hover:bg-teal-100"
+          >
+            <PlayCircle className="w-4 h-4" /> Run Payouts
+          </button>
           <button
             onClick={openCreateModal}
             className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700"
@@ -188,6 +292,15 @@ export default function VendorPayoutsPage() {
         </div>
       </div>
 
+      {runMessage && (
+        <div className="flex items-center justify-between gap-2 p-4 bg-teal-50 text-teal-800 rounded-lg text-sm">
+          <span>{runMessage}</span>
+          <button onClick={() => setRunMessage(null)} className="p-1 text-teal-600 hover:text-teal-800">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* Summary Cards */}
       <div className="grid grid-cols-2 gap-4">
         <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-4">
@@ -260,6 +373,12 @@ export default function VendorPayoutsPage() {
                   <p className="text-sm text-gray-500">
                     {new Date(payout.periodStart).toLocaleDateString()} - {new Date(payout.periodEnd).toLocaleDateString()}
                     {payout.referenceNumber && ` | Ref: ${payout.referenceNumber}`}
+                    {payout.payoutRunId && " | Payout run"}
+                    {payout.statementSentAt && (
+                      <span className="inline-flex items-center gap-1 ml-2 text-xs text-gray-400">
+                        <Mail className="w-3 h-3" /> Statement sent
+                      </span>
+                    )}
                   </p>
                 </div>
 
@@ -284,6 +403,139 @@ export default function VendorPayoutsPage() {
         )}
       </div>
 
+      {/* Run Payouts Modal */}
+      {showRunModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] flex flex-col">
+            <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">Run Vendor Payouts</h2>
+                <p className="text-sm text-gray-500">
+                  Completed add-ons and paid cross-sells in the period, less each vendor&apos;s commission.
+                  Lines already on a payout are left out.
+                </p>
+              </div>
+              <button onClick={() => setShowRunModal(false)} className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-6 space-y-4 overflow-y-auto">
+              {runError && (
+                <div className="flex items-center gap-2 p-3 bg-red-50 text-red-700 rounded-lg text-sm">
+                  <AlertCircle className="w-4 h-4" /> {runError}
+                </div>
+              )}
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Period Start</label>
+                  <input
+                    type="date"
+                    value={runForm.periodStart}
+                    onChange={(e) => { setRunForm({ ...runForm, periodStart: e.target.value }); setRunPreview(null); }}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Period End</label>
+                  <input
+                    type="date"
+                    value={runForm.periodEnd}
+                    onChange={(e) => { setRunForm({ ...runForm, periodEnd: e.target.value }); setRunPreview(null); }}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Vendor</label>
+                  <select
+                    value={runForm.vendorId}
+                    onChange={(e) => { setRunForm({ ...runForm, vendorId: e.target.value }); setRunPreview(null); }}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                  >
+                    <option value="">All vendors</option>
+                    {vendors.map((v) => (
+                      <option key={v.id} value={v.id}>{v.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={runForm.sendStatements}
+                  onChange={(e) => setRunForm({ ...runForm, sendStatements: e.target.checked })}
+                  className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+                />
+                Email each vendor their statement (CSV attached)
+              </label>
+
+              {runPreview && (
+                <div className="space-y-3">
+                  {runPreview.vendors.length === 0 ? (
+                    <p className="p-4 text-sm text-center text-gray-500 bg-gray-50 rounded-lg">
+                      Nothing is owed to vendors for this period.
+                    </p>
+                  ) : (
+                    <div className="border border-gray-100 rounded-lg divide-y divide-gray-100">
+                      {runPreview.vendors.map((v) => (
+                        <div key={v.vendorId} className="flex items-center justify-between p-3 text-sm">
+                          <div>
+                            <p className="font-medium text-gray-900">{v.vendorName}</p>
+                            <p className="text-xs text-gray-500">
+                              {v.lines.length} line{v.lines.length !== 1 ? "s" : ""} · {formatCurrency(v.grossCents)} billed
+                              · {formatCurrency(v.commissionCents)} commission
+                              {runForm.sendStatements && !v.vendorEmail && " · no email on file"}
+                            </p>
+                          </div>
+                          <p className="font-semibold text-gray-900">{formatCurrency(v.amountCents)}</p>
+                        </div>
+                      ))}
+                      <div className="flex items-center justify-between p-3 text-sm bg-gray-50">
+                        <p className="font-semibold text-gray-900">Total</p>
+                        <p className="font-bold text-gray-900">{formatCurrency(runPreview.totalCents)}</p>
+                      </div>
+                    </div>
+                  )}
+                  {runPreview.unassigned.length > 0 && (
+                    <div className="p-3 bg-yellow-50 rounded-lg text-sm">
+                      <p className="font-medium text-yellow-800 mb-1">
+                        {runPreview.unassigned.length} line{runPreview.unassigned.length !== 1 ? "s" : ""} with no vendor to pay
+                      </p>
+                      <ul className="space-y-0.5 text-xs text-yellow-700">
+                        {runPreview.unassigned.slice(0, 10).map((line, i) => (
+                          <li key={i}>{line.description}: {line.reason}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+            <div className="flex gap-3 p-6 border-t border-gray-100">
+              <button type="button" onClick={() => setShowRunModal(false)} className="flex-1 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200">
+                Cancel
+              </button>
+              {runPreview && runPreview.vendors.length > 0 ? (
+                <button
+                  onClick={handleRun}
+                  disabled={runLoading}
+                  className="flex-1 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+                >
+                  {runLoading ? "Creating..." : `Create ${runPreview.vendors.length} Payout${runPreview.vendors.length !== 1 ? "s" : ""}`}
+                </button>
+              ) : (
+                <button
+                  onClick={handlePreviewRun}
+                  disabled={runLoading || !runForm.periodStart || !runForm.periodEnd}
+                  className="flex-1 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+                >
+                  {runLoading ? "Loading..." : "Preview"}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Create Payout Modal */}
       {showModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -0,0 +1,20 @@
+"use client";
+
+import { use } from "react";
+import { RateVisitForm } from "@/components/ratings/RateVisitForm";
+
+interface PageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default function RateVisitPage({ params }: PageProps) {
+  const { token } = use(params);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-sm max-w-md w-full p-8">
+        <RateVisitForm token={token} source="LINK" />
+      </div>
+    </div>
+  );
+}
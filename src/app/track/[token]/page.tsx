@@ -0,0 +1,183 @@
+"use client";
+
+import { useState, useEffect, useCallback, use } from "react";
+import Image from "next/image";
+import { Truck, MapPin, Clock } from "lucide-react";
+
+// How often the page refreshes the ETA
+const POLL_INTERVAL_MS = 30 * 1000;
+
+interface TrackingData {
+  valid: boolean;
+  jobStatus: string;
+  orgName: string;
+  orgLogo: string | null;
+  techFirstName: string | null;
+  stopsAhead: number;
+  etaMinutes: number | null;
+  etaAt: string | null;
+  techPosition: { lat: number; lng: number; recordedAt: string } | null;
+  home: { lat: number; lng: number } | null;
+  refreshedAt: string;
+}
+
+interface PageProps {
+  params: Promise<{ token: string }>;
+}
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+}
+
+function TrackingMap({ data }: { data: TrackingData }) {
+  const [imageError, setImageError] = useState(false);
+  const apiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
+  if (!apiKey || imageError || (!data.techPosition && !data.home)) return null;
+
+  // The tech's position is approximate, so it's drawn as an area, not a pin
+  const params: string[] = ["size=400x240", "scale=2", "maptype=roadmap"];
+  if (data.home) {
+    params.push(`markers=color:0x0D9488|label:H|${data.home.lat},${data.home.lng}`);
+  }
+  if (data.techPosition) {
+    const { lat, lng } = data.techPosition;
+    const circle = Array.from({ length: 17 }, (_, i) => {
+      const angle = (i / 16) * 2 * Math.PI;
+      return `${(lat + 0.006 * Math.sin(angle)).toFixed(4)},${(lng + 0.008 * Math.cos(angle)).toFixed(4)}`;
+    }).join("|");
+    params.push(`path=color:0x3B82F6AA|weight:2|fillcolor:0x3B82F633|${circle}`);
+  }
+  if (!data.techPosition || !data.home) {
+    params.push("zoom=13");
+  }
+
+  return (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img
+      src={`https://maps.googleapis.com/maps/api/staticmap?${params.join("&")}&key=${apiKey}`}
+      alt="Approximate technician location"
+      className="w-full h-[200px] object-cover rounded-lg"
+      onError={() => setImageError(true)}
+    />
+  );
+}
+
+export default function TrackPage({ params }: PageProps) {
+  const { token } = use(params);
+  const [loading, setLoading] = useState(true);
+  const [data, setData] = useState<TrackingData | null>(null);
+  const [ended, setEnded] = useState<string | null>(null);
+
+  const fetchTracking = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/public/track/${token}`, { cache: "no-store" });
+      const result = await res.json();
+      if (!res.ok || !result.valid) {
+        setEnded(result.error || "This tracking link is no longer available.");
+        setData(null);
+      } else {
+        setData(result);
+      }
+    } catch {
+      // Keep showing the last update; the next poll will retry
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchTracking();
+  }, [fetchTracking]);
+
+  useEffect(() => {
+    if (ended) return;
+    const interval = setInterval(fetchTracking, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchTracking, ended]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-teal-500 border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (ended || !data) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-lg shadow-sm max-w-md w-full p-8 text-center">
+          <div className="w-12 h-12 bg-teal-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Truck className="w-6 h-6 text-teal-600" />
+          </div>
+          <h1 className="text-xl font-semibold text-gray-900 mb-2">Tracking Unavailable</h1>
+          <p className="text-sm text-gray-500">{ended}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const techName = data.techFirstName || "Your technician";
+  let headline: string;
+  if (data.jobStatus === "IN_PROGRESS") {
+    headline = `${techName} has arrived`;
+  } else if (data.stopsAhead > 0) {
+    headline = `${techName} has ${data.stopsAhead} stop${data.stopsAhead > 1 ? "s" : ""} before you`;
+  } else if (data.jobStatus === "EN_ROUTE") {
+    headline = `${techName} is on the way`;
+  } else {
+    headline = `${techName} is heading your way soon`;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-sm max-w-md w-full p-6 space-y-5">
+        {/* Logo */}
+        <div className="flex justify-center">
+          {data.orgLogo ? (
+            <Image
+              src={data.orgLogo}
+              alt={data.orgName}
+              width={200}
+              height={60}
+              className="h-10 w-auto object-contain"
+            />
+          ) : (
+            <span className="text-xl font-bold text-gray-900">{data.orgName}</span>
+          )}
+        </div>
+
+        <div className="text-center">
+          <h1 className="text-xl font-semibold text-gray-900">{headline}</h1>
+          {data.jobStatus !== "IN_PROGRESS" && data.etaMinutes !== null && data.etaAt && (
+            <p className="mt-2 text-3xl font-bold text-teal-600">
+              ~{data.etaMinutes} min
+              <span className="block text-sm font-normal text-gray-500 mt-1">
+                Estimated arrival around {formatTime(data.etaAt)}
+              </span>
+            </p>
+          )}
+        </div>
+
+        <TrackingMap data={data} />
+
+        <div className="space-y-2 text-sm text-gray-600">
+          <div className="flex items-center gap-2">
+            <MapPin className="w-4 h-4 text-gray-400" />
+            {data.techPosition
+              ? `Approximate location as of ${formatTime(data.techPosition.recordedAt)}`
+              : "Live location isn't available right now"}
+          </div>
+          <div className="flex items-center gap-2">
+            <Clock className="w-4 h-4 text-gray-400" />
+            Updated {formatTime(data.refreshedAt)}. Refreshes automatically.
+          </div>
+        </div>
+
+        <p className="text-xs text-gray-400 text-center">
+          Times are estimates and can change with traffic and the visits before yours.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Plus, Loader2, RefreshCw, Ban, Pencil } from "lucide-react";
+
+interface Rule {
+  id: string;
+  name: string;
+  canvasserId: string | null;
+  signupBountyCents: number;
+  revenueSharePct: number;
+  revenueShareMonths: number;
+  attributionDays: number;
+  active: boolean;
+}
+
+const BLANK = { id: "", name: "", canvasserId: "", bounty: "", pct: "", months: "", days: "90" };
+
+function describe(r: Rule): string {
+  const parts: string[] = [];
+  if (r.signupBountyCents) parts.push(`$${(r.signupBountyCents / 100).toFixed(2)} per signup`);
+  if (r.revenueSharePct && r.revenueShareMonths) parts.push(`${r.revenueSharePct}% of the first ${r.revenueShareMonths} mo`);
+  return `${parts.join(" + ") || "Nothing"} · ${r.attributionDays}-day window`;
+}
+
+export function CanvassCommissionRules({ canvassers }: { canvassers: { id: string; name: string }[] }) {
+  const router = useRouter();
+  const [rules, setRules] = useState<Rule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState(BLANK);
+  const [busy, setBusy] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const [msg, setMsg] = useState<{ kind: "ok" | "err"; text: string } | null>(null);
+
+  const nameOf = (id: string | null) => (id ? canvassers.find((c) => c.id === id)?.name ?? "Former canvasser" : "Team default");
+
+  const load = async () => {
+    try {
+      const res = await fetch("/api/admin/canvass-commissions");
+      if (res.ok) setRules((await res.json()).rules ?? []);
+    } finally {
+      setLoading(false);
+    }
+  };
+  useEffect(() => { load(); }, []);
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true); setMsg(null);
+    try {
+      const res = await fetch("/api/admin/canvass-commissions", {
+        method: "POST", headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          id: form.id || undefined,
+          name: form.name,
+          canvasserId: form.canvasserId || null,
+          signupBountyCents: Math.round(parseFloat(form.bounty || "0") * 100),
+          revenueSharePct: parseFloat(form.pct || "0"),
+          revenueShareMonths: parseInt(form.months || "0", 10),
+          attributionDays: parseInt(form.days || "90", 10),
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) { setMsg({ kind: "err", text: data.error || "Couldn't save the rule." }); return; }
+      setForm(BLANK);
+      setMsg({ kind: "ok", text: "Rule saved. It applies to conversions from now on." });
+      await load();
+    } catch {
+      setMsg({ kind: "err", text: "Something went wrong." });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const deactivate = async (id: string) => {
+    if (!confirm("Turn this rule off? Commission already earned under it stays.")) return;
+    await fetch("/api/admin/canvass-commissions", {
+      method: "DELETE", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ id }),
+    });
+    await load();
+  };
+
+  const sync = async () => {
+    setSyncing(true); setMsg(null);
+    try {
+      const res = await fetch("/api/admin/canvass-commissions", {
+        method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ action: "sync" }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) { setMsg({ kind: "err", text: data.error || "Sync failed." }); return; }
+      setMsg({ kind: "ok", text: `${data.converted} new conversion${data.converted === 1 ? "" : "s"}, ${data.accrued} commission line${data.accrued === 1 ? "" : "s"} added.` });
+      router.refresh();
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const edit = (r: Rule) => setForm({
+    id: r.id, name: r.name, canvasserId: r.canvasserId ?? "",
+    bounty: r.signupBountyCents ? (r.signupBountyCents / 100).toFixed(2) : "",
+    pct: r.revenueSharePct ? String(r.revenueSharePct) : "",
+    months: r.revenueShareMonths ? String(r.revenueShareMonths) : "",
+    days: String(r.attributionDays),
+  });
+
+  const input = "px-3 py-2 text-sm border border-gray-200 rounded-lg";
+
+  return (
+    <div className="dgs-card p-4">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h3 className="text-[13px] font-bold text-ink">Commission rules</h3>
+        <button onClick={sync} disabled={syncing} className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[12px] font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 disabled:opacity-60">
+          <RefreshCw className={`w-3.5 h-3.5 ${syncing ? "animate-spin" : ""}`} /> Check for signups
+        </button>
+      </div>
+
+      <form onSubmit={save} className="grid grid-cols-2 sm:grid-cols-7 gap-2 mb-3">
+        <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="Rule name" className={`${input} col-span-2`} />
+        <select value={form.canvasserId} onChange={(e) => setForm({ ...form, canvasserId: e.target.value })} className={`${input} col-span-2 sm:col-span-1`}>
+          <option value="">Team default</option>
+          {canvassers.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+        </select>
+        <input value={form.bounty} onChange={(e) => setForm({ ...form, bounty: e.target.value })} placeholder="$ / signup" inputMode="decimal" className={input} />
+        <input value={form.pct} onChange={(e) => setForm({ ...form, pct: e.target.value })} placeholder="% share" inputMode="decimal" className={input} />
+        <input value={form.months} onChange={(e) => setForm({ ...form, months: e.target.value })} placeholder="Months" inputMode="numeric" className={input} />
+        <input value={form.days} onChange={(e) => setForm({ ...form, days: e.target.value })} placeholder="Window (days)" inputMode="numeric" title="Signup must come within this many days of the lead" className={input} />
+        <div className="col-span-2 sm:col-span-7 flex items-center gap-2">
+          <button type="submit" disabled={busy} className="inline-flex items-center justify-center gap-1.5 px-4 py-2 rounded-lg text-[13px] font-bold text-white disabled:opacity-60" style={{ background: "#6D3EF0" }}>
+            {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />} {form.id ? "Update rule" : "Add rule"}
+          </button>
+          {form.id && <button type="button" onClick={() => setForm(BLANK)} className="text-[12.5px] font-semibold text-gray-500 hover:text-gray-700">Cancel</button>}
+        </div>
+      </form>
+      {msg && <p className={`text-[12px] mb-3 ${msg.kind === "ok" ? "text-green-700" : "text-rose-600"}`}>{msg.text}</p>}
+
+      {loading ? (
+        <p className="text-[13px] text-muted">Loading…</p>
+      ) : rules.length === 0 ? (
+        <p className="text-[13px] text-muted">No rules yet. Add a team default — canvassers only earn once a rule is active.</p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {rules.map((r) => (
+            <div key={r.id} className={`flex items-center justify-between gap-3 py-2.5 ${r.active ? "" : "opacity-50"}`}>
+              <div className="min-w-0">
+                <p className="text-[13.5px] font-semibold text-navy-900 truncate">
+                  {r.name}
+                  <span className="ml-1.5 px-2 py-0.5 rounded-full text-[10.5px] font-semibold bg-violet-100 text-violet-700">{nameOf(r.canvasserId)}</span>
+                  {!r.active && <span className="ml-1.5 px-2 py-0.5 rounded-full text-[10.5px] font-semibold bg-gray-100 text-gray-600">Off</span>}
+                </p>
+                <p className="text-[12px] text-gray-500 truncate">{describe(r)}</p>
+              </div>
+              {r.active && (
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button onClick={() => edit(r)} title="Edit" className="p-1.5 rounded-lg hover:bg-gray-100 text-gray-600"><Pencil className="w-4 h-4" /></button>
+                  <button onClick={() => deactivate(r.id)} title="Turn off" className="p-1.5 rounded-lg hover:bg-gray-100 text-amber-600"><Ban className="w-4 h-4" /></button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2, Save } from "lucide-react";
+
+// Keys mirror REKNOCK_SETTING_KEYS in lib/canvass-reknock.ts
+const DAYS_KEY = "canvass.reknock.notHomeDays";
+const ATTEMPTS_KEY = "canvass.reknock.maxAttempts";
+
+export function CanvassReknockSettings() {
+  const [days, setDays] = useState("3");
+  const [attempts, setAttempts] = useState("3");
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<{ kind: "ok" | "err"; text: string } | null>(null);
+
+  useEffect(() => {
+    fetch("/api/admin/app-settings?prefix=canvass.reknock.")
+      .then((r) => (r.ok ? r.json() : { settings: {} }))
+      .then((d) => {
+        if (d.settings?.[DAYS_KEY]) setDays(d.settings[DAYS_KEY]);
+        if (d.settings?.[ATTEMPTS_KEY]) setAttempts(d.settings[ATTEMPTS_KEY]);
+      })
+      .catch(() => {});
+  }, []);
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const d = parseInt(days, 10), a = parseInt(attempts, 10);
+    if (!(d >= 1 && d <= 60) || !(a >= 1 && a <= 10)) {
+      setMsg({ kind: "err", text: "Days must be 1–60 and attempts 1–10." });
+      return;
+    }
+    setBusy(true); setMsg(null);
+    try {
+      const res = await fetch("/api/admin/app-settings", {
+        method: "PUT", headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ settings: { [DAYS_KEY]: String(d), [ATTEMPTS_KEY]: String(a) } }),
+      });
+      setMsg(res.ok ? { kind: "ok", text: "Saved. Applies to the next knock on each door." } : { kind: "err", text: "Couldn't save." });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="dgs-card p-4">
+      <h3 className="text-[13px] font-bold text-ink mb-1">Re-knocks</h3>
+      <p className="text-[12px] text-gray-500 mb-3">Not-home doors come back to the rep&apos;s list after a wait, up to a number of tries. Call-backs come back at the time the homeowner asked for.</p>
+      <form onSubmit={save} className="flex flex-wrap items-end gap-2">
+        <label className="text-[11.5px] font-semibold text-gray-500">
+          Days between tries
+          <input value={days} onChange={(e) => setDays(e.target.value)} inputMode="numeric" className="block mt-1 w-28 px-3 py-2 text-sm border border-gray-200 rounded-lg" />
+        </label>
+        <label className="text-[11.5px] font-semibold text-gray-500">
+          Max tries per door
+          <input value={attempts} onChange={(e) => setAttempts(e.target.value)} inputMode="numeric" className="block mt-1 w-28 px-3 py-2 text-sm border border-gray-200 rounded-lg" />
+        </label>
+        <button type="submit" disabled={busy} className="inline-flex items-center gap-1.5 px-4 py-2 rounded-lg text-[13px] font-bold text-white disabled:opacity-60" style={{ background: "#6D3EF0" }}>
+          {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />} Save
+        </button>
+      </form>
+      {msg && <p className={`text-[12px] mt-2 ${msg.kind === "ok" ? "text-green-700" : "text-rose-600"}`}>{msg.text}</p>}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { Dog, Wand2, Eraser, X, MapPin, Loader2, Info, ChevronDown, ChevronRight
 import { pawSvg, type MapCustomer } from "./CustomerInfoPanels";
 import { DAY_NAMES, DAY_SHORT, parseServiceDays, serviceDaysLabel, frequencyLabel } from "@/lib/customer-schedule";
 import { DAY_ORDER, UNASSIGNED, dayColor, plannedDay, sprayInfo, SPRAY_COLOR, sprayLabel, weekParity, type SprayFreq } from "@/lib/route-plan";
+import { weekParityOf } from "@/lib/recurrence";
 
 // Lanes / chips: Mon-first work week, weekend, then Unassigned.
 const LANES = [...DAY_ORDER, UNASSIGNED];
@@ -80,13 +81,16 @@ export function RoutePlanner({
   }, [customers]);
 
   // Whether a customer's spray card shows in the current week view.
-  function sprayShown(id: string): boolean {
-    const s = sprayById.get(id);
+  function sprayShown(c: MapCustomer): boolean {
+    const s = sprayById.get(c.id);
     if (!s) return false;
     if (week === "both" || s.freq === "weekly") return true;
-    return weekParity(id) === (week === "a" ? 0 : 1);
+    return weekParity(c.id, c.startDate) === (week === "a" ? 0 : 1);
   }
 
+  // Which of Week A / Week B is the current calendar week.
+  const thisWeek = useMemo(() => (weekParityOf(new Date().toISOString().slice(0, 10)) === 0 ? "a" : "b"), []);
+
   // Fan out customers that share a coordinate so each stays clickable.
   const coords = useMemo(() => {
     const groups = new Map<string, MapCustomer[]>();
@@ -321,7 +325,7 @@ export function RoutePlanner({
                 <button key={w} onClick={() => setWeek(w)}
                   className="px-2.5 py-1 rounded-[8px] text-[12px] font-semibold transition-colors"
                   style={week === w ? { background: "#101014", color: "#fff" } : { color: "#5A5A66" }}>
-                  {label}
+                  {label}{w === thisWeek && <span className="font-normal opacity-70"> · this week</span>}
                 </button>
               ))}
             </div>
@@ -414,7 +418,7 @@ export function RoutePlanner({
             const arr = grouped.get(d) ?? [];
             const isOver = dragOver === d;
             const isCollapsed = collapsed.has(d);
-            const sprayCount = arr.filter((c) => sprayShown(c.id)).length;
+            const sprayCount = arr.filter((c) => sprayShown(c)).length;
             return (
               <div key={d} className="dgs-card overflow-hidden"
                 onDragOver={(e) => { e.preventDefault(); e.dataTransfer.dropEffect = "move"; if (dragOver !== d) setDragOver(d); if (isCollapsed) expand(d); }}
@@ -465,7 +469,7 @@ export function RoutePlanner({
                           </p>
                         </div>
                         {/* Sanitization-spray card — follows the customer's assigned day */}
-                        {spray && sprayShown(c.id) && (
+                        {spray && sprayShown(c) && (
                           <div onClick={() => { setSelected(c); flyTo(c); }}
                             onContextMenu={(e) => { e.preventDefault(); openMenu(e.clientX, e.clientY, c); }}
                             className="rounded-[14px] px-2.5 py-2 cursor-pointer"
@@ -2,7 +2,7 @@
 
 import { useEffect, useRef, useState, useCallback } from "react";
 import "mapbox-gl/dist/mapbox-gl.css";
-import { Pencil, Check, X, Trash2, Loader2, Home, Users2, MapPinned, Undo2, PawPrint } from "lucide-react";
+import { Pencil, Check, X, Trash2, Loader2, Home, Users2, MapPinned, Undo2, PawPrint, Flame } from "lucide-react";
 
 // Dog-paw icon (a cyan coin + white paw) added to the map so current-customer
 // pins read instantly and differently from anything else.
@@ -69,6 +69,12 @@ export function TerritoryPlanner({ token, canvassers, initial }: { token: string
   const [custLoading, setCustLoading] = useState(false);
   const [hiddenCount, setHiddenCount] = useState(0);
 
+  // Unresolved-door heat layer (not-home / call-back doors still due a re-knock).
+  const [showUnresolved, setShowUnresolved] = useState(false);
+  const [unresolved, setUnresolved] = useState<{ lat: number; lng: number; weight: number }[]>([]);
+  const [unresLoaded, setUnresLoaded] = useState(false);
+  const [unresLoading, setUnresLoading] = useState(false);
+
   const [territories, setTerritories] = useState<Territory[]>(initial);
   const [mode, setMode] = useState<"idle" | "drawing">("idle");
   const modeRef = useRef(mode);
@@ -109,6 +115,29 @@ export function TerritoryPlanner({ token, canvassers, initial }: { token: string
     }
   };
 
+  const toggleUnresolved = () => {
+    const next = !showUnresolved;
+    setShowUnresolved(next);
+    if (next && !unresLoaded && !unresLoading) {
+      setUnresLoading(true);
+      fetch("/api/admin/territories/unresolved")
+        .then((r) => r.json())
+        .then((d) => { setUnresolved(d.points || []); setUnresLoaded(true); })
+        .catch(() => {})
+        .finally(() => setUnresLoading(false));
+    }
+  };
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !ready || !map.getSource?.("unresolved")) return;
+    map.getSource("unresolved").setData({
+      type: "FeatureCollection",
+      features: unresolved.map((p) => ({ type: "Feature", properties: { weight: p.weight }, geometry: { type: "Point", coordinates: [p.lng, p.lat] } })),
+    });
+    if (map.getLayer("unresolved-heat")) map.setLayoutProperty("unresolved-heat", "visibility", showUnresolved ? "visible" : "none");
+  }, [unresolved, showUnresolved, ready]);
+
   // Push customer points to the map + toggle the paw layer's visibility.
   useEffect(() => {
     const map = mapRef.current;
@@ -145,6 +174,17 @@ export function TerritoryPlanner({ token, canvassers, initial }: { token: string
         map.addLayer({ id: "saved-label", type: "symbol", source: "saved", layout: { "text-field": ["get", "label"], "text-size": 13, "text-font": ["DIN Pro Bold", "Arial Unicode MS Bold"] }, paint: { "text-color": "#fff", "text-halo-color": "rgba(0,0,0,.6)", "text-halo-width": 1.4 } });
         // Current-customer overlay (hidden until toggled). A symbol layer — NOT
         // HTML markers — so the paws never intercept the click-to-draw tool.
+        map.addSource("unresolved", { type: "geojson", data: { type: "FeatureCollection", features: [] } });
+        map.addLayer({
+          id: "unresolved-heat", type: "heatmap", source: "unresolved", layout: { visibility: "none" },
+          paint: {
+            "heatmap-weight": ["get", "weight"],
+            "heatmap-radius": ["interpolate", ["linear"], ["zoom"], 11, 12, 16, 30],
+            "heatmap-opacity": 0.75,
+            "heatmap-color": ["interpolate", ["linear"], ["heatmap-density"], 0, "rgba(0,0,0,0)", 0.2, "#FDE68A", 0.5, "#F59E0B", 0.8, "#EA580C", 1, "#B91C1C"],
+          },
+        });
+
         map.addSource("customers", { type: "geojson", data: { type: "FeatureCollection", features: [] } });
         map.addLayer({ id: "customers-paw", type: "symbol", source: "customers", layout: { "icon-image": "dog-paw", "icon-size": 0.45, "icon-allow-overlap": false, "visibility": "none" } });
 
@@ -404,6 +444,15 @@ export function TerritoryPlanner({ token, canvassers, initial }: { token: string
               {hiddenCount > 0 && <div className="text-gray-400 mt-0.5">{hiddenCount} still locating — hidden until precise</div>}
             </div>
           )}
+          <button onClick={toggleUnresolved} className="inline-flex items-center gap-1.5 px-3 py-2 rounded-lg text-[12.5px] font-bold shadow-lg" style={showUnresolved ? { background: "#EA580C", color: "#fff" } : { background: "#fff", color: "#334155" }}>
+            {unresLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Flame className="w-4 h-4" />}
+            {showUnresolved ? "Hide unresolved doors" : "Unresolved doors"}
+          </button>
+          {showUnresolved && unresLoaded && (
+            <div className="bg-white/95 rounded-lg shadow px-2.5 py-1.5 text-[11px] text-gray-600 w-fit max-w-[13rem]">
+              {unresolved.length} not-home / call-back doors still due a re-knock
+            </div>
+          )}
           {mode === "idle" && !pending && !editing && (
             <button onClick={startDrawing} className="inline-flex items-center gap-1.5 px-3 py-2 rounded-lg text-[12.5px] font-bold text-white shadow-lg" style={{ background: "#6D3EF0" }}>
               <Pencil className="w-4 h-4" /> Draw a territory
@@ -46,6 +46,10 @@ export function AssignmentModal({ subscription, onClose, onSave }: AssignmentMod
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [capacityWarning, setCapacityWarning] = useState<{
+    violations: string[];
+    canOverride: boolean;
+  } | null>(null);
   const [staff, setStaff] = useState<Staff[]>([]);
 
   // Form state
@@ -86,8 +90,9 @@ export function AssignmentModal({ subscription, onClose, onSave }: AssignmentMod
     }
   }
 
-  async function handleSave() {
+  async function handleSave(acknowledgeCapacity = false) {
     setError(null);
+    setCapacityWarning(null);
 
     // Validation
     if (!recurringStartDate) {
@@ -129,8 +134,10 @@ export function AssignmentModal({ subscription, onClose, onSave }: AssignmentMod
           techId: string;
           estimatedMinutes: number;
         };
+        acknowledgeCapacity?: boolean;
       } = {
         subscriptionId: subscription.id,
+        acknowledgeCapacity,
         recurringService: {
           startDate: recurringStartDate,
           serviceDays: recurringServiceDays,
@@ -158,6 +165,11 @@ export function AssignmentModal({ subscription, onClose, onSave }: AssignmentMod
       if (res.ok) {
         onSave();
         onClose();
+      } else if (res.status === 409 && data.capacity) {
+        setCapacityWarning({
+          violations: data.capacity.violations || [],
+          canOverride: !!data.capacity.canOverride,
+        });
       } else {
         setError(data.error || "Failed to save assignment");
       }
@@ -222,6 +234,32 @@ export function AssignmentModal({ subscription, onClose, onSave }: AssignmentMod
             </div>
           )}
 
+          {capacityWarning && (
+            <div className="p-3 bg-amber-50 border border-amber-200 text-amber-800 rounded-lg text-sm">
+              <div className="flex items-center gap-2 font-medium">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                {capacityWarning.canOverride
+                  ? "This would put the route over capacity"
+                  : "Route is over capacity - choose another day or tech"}
+              </div>
+              <ul className="mt-1 ml-6 list-disc">
+                {capacityWarning.violations.map((v) => (
+                  <li key={v}>{v}</li>
+                ))}
+              </ul>
+              {capacityWarning.canOverride && (
+                <button
+                  type="button"
+                  onClick={() => handleSave(true)}
+                  disabled={saving}
+                  className="mt-2 ml-6 px-3 py-1.5 bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-50 font-medium"
+                >
+                  Assign Anyway
+                </button>
+              )}
+            </div>
+          )}
+
           {/* Initial Cleanup Section */}
           <div className="border border-gray-200 rounded-lg p-4">
             <div className="flex items-center justify-between mb-3">
@@ -387,7 +425,7 @@ export function AssignmentModal({ subscription, onClose, onSave }: AssignmentMod
           </button>
           <button
             type="button"
-            onClick={handleSave}
+            onClick={() => handleSave()}
             disabled={saving || loading}
             className="flex-1 px-4 py-2.5 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50 font-medium"
           >
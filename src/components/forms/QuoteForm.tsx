@@ -115,6 +115,7 @@ interface PricingInfo {
   priceNotConfigured?: boolean;
   billingInterval?: string;
   category?: string;
+  lineItems?: { label: string; amount: number; cadence: "PER_VISIT" | "PER_MONTH" | "ONE_TIME" }[];
 }
 
 interface CrossSell {
@@ -1321,6 +1322,18 @@ function QuoteFormInner() {
                           ${pricing.recurringPrice}<span className="text-sm font-normal">/visit</span>
                         </span>
                       </div>
+                      {(pricing.lineItems?.filter((l) => l.cadence !== "ONE_TIME").length ?? 0) > 1 && (
+                        <div className="py-2 border-b border-teal-200/50 space-y-1">
+                          {pricing.lineItems!.filter((l) => l.cadence !== "ONE_TIME").map((item, i) => (
+                            <div key={i} className="flex justify-between text-sm">
+                              <span className="text-teal-700/80">{item.label}</span>
+                              <span className="text-teal-900">
+                                ${item.amount.toFixed(2)}{item.cadence === "PER_MONTH" ? "/month" : "/visit"}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
                       {pricing.monthlyPrice && onboardingSettings.defaultCoupon && serviceData?.couponCode === onboardingSettings.defaultCoupon.code && (
                         <div className="flex justify-between items-center py-2 border-b border-teal-200/50">
                           <div>
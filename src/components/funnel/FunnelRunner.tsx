@@ -6,12 +6,13 @@ import type { FunnelData, Step, Block, FunnelAnswers, BranchRule } from "@/lib/f
 import { DEFAULT_BOOKING_URL } from "@/lib/funnel/types";
 
 // The funnel wizard: walks steps, evaluates branch logic, calls check-zip /
-// get-pricing, logs per-step events, and submits the lead. Reused JSON renderer
+// funnel pricing (the shared pricing engine), logs per-step events, and submits the lead. Reused JSON renderer
 // so the builder's live preview and this public page stay identical.
 
 interface Pricing {
   perVisit?: number | null; monthly?: number | null; initialFee?: number | null;
   oneTime?: boolean; zipType?: string | null; priceNotConfigured?: boolean;
+  lineItems?: { label: string; amount: number; cadence: "PER_VISIT" | "PER_MONTH" | "ONE_TIME" }[];
 }
 
 const cookie = (n: string) =>
@@ -143,6 +144,7 @@ export function FunnelRunner({
     const qs = new URLSearchParams({
       zipCode: answers.zipCode, numberOfDogs: answers.numberOfDogs, frequency: answers.frequency,
       ...(answers.lastCleaned ? { lastCleaned: answers.lastCleaned } : {}),
+      ...(answers.yardSize ? { yardSize: answers.yardSize } : {}),
     });
     fetch(`/api/v2/funnel/pricing?${qs}`).then((r) => r.json())
       .then((d) => setPrice(d?.pricing ?? null)).catch(() => setPrice(null)).finally(() => setPriceLoading(false));
@@ -369,6 +371,13 @@ export function FunnelRunner({
                   {money(price.perVisit)}<span className="text-[15px] font-semibold text-gray-500">{price.oneTime ? " one-time" : " / visit"}</span>
                 </p>
                 {!price.oneTime && price.monthly ? <p className="text-[14px] text-gray-600 mt-1">≈ {money(price.monthly)}/month</p> : null}
+                {!price.oneTime && (price.lineItems?.filter((l) => l.cadence !== "ONE_TIME").length ?? 0) > 1 ? (
+                  <ul className="text-[12px] text-gray-500 mt-2 space-y-0.5">
+                    {price.lineItems!.filter((l) => l.cadence !== "ONE_TIME").map((l, i) => (
+                      <li key={i}>{l.label}: {money(l.amount)}{l.cadence === "PER_MONTH" ? "/month" : "/visit"}</li>
+                    ))}
+                  </ul>
+                ) : null}
                 {price.initialFee ? <p className="text-[13px] text-gray-500 mt-1">+ {money(price.initialFee)} one-time initial cleaning</p> : null}
               </>
             )}
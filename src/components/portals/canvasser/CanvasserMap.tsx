@@ -181,6 +181,16 @@ export function CanvasserMap({ token }: { token: string | undefined }) {
     }
   }, [ready, visits]);
 
+  // Deep-link from a walk-list stop (?at=<lat>,<lng>): fly to the door once.
+  const didAtParamRef = useRef(false);
+  useEffect(() => {
+    if (didAtParamRef.current || !ready) return;
+    didAtParamRef.current = true;
+    const at = typeof window !== "undefined" ? new URLSearchParams(window.location.search).get("at") : null;
+    const [lat, lng] = (at || "").split(",").map(Number);
+    if (at && Number.isFinite(lat) && Number.isFinite(lng)) mapRef.current?.flyTo?.({ center: [lng, lat], zoom: 18 });
+  }, [ready]);
+
   // Reconcile server responses coming back from the outbox.
   useEffect(() => {
     const onSynced = (e: Event) => {
@@ -238,8 +248,8 @@ export function CanvasserMap({ token }: { token: string | undefined }) {
         setSelected(clientKey);
       });
 
-      // Center on the rep.
-      if (navigator.geolocation) {
+      // Center on the rep (unless deep-linked to a walk-list door).
+      if (navigator.geolocation && !new URLSearchParams(window.location.search).has("at")) {
         navigator.geolocation.getCurrentPosition(
           (pos) => { if (!cancelled) map.flyTo({ center: [pos.coords.longitude, pos.coords.latitude], zoom: 16 }); },
           () => {}, { enableHighAccuracy: true, timeout: 6000 },
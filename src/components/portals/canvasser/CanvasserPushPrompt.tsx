@@ -0,0 +1,97 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Bell, BellOff } from "lucide-react";
+
+// Offers push notifications for call-back reminders. Uses the canvasser SW
+// (registered by CanvasserChrome); stays quiet once allowed or denied.
+export function CanvasserPushPrompt() {
+  const [reg, setReg] = useState<ServiceWorkerRegistration | null>(null);
+  const [showBanner, setShowBanner] = useState(false);
+  const [subscribing, setSubscribing] = useState(false);
+
+  const vapidKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+
+  useEffect(() => {
+    if (!vapidKey || !("serviceWorker" in navigator) || !("PushManager" in window)) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const registration = await navigator.serviceWorker.register("/canvasser-sw.js", { scope: "/app/canvasser" });
+        await navigator.serviceWorker.ready;
+        if (cancelled) return;
+        setReg(registration);
+
+        const existing = await registration.pushManager.getSubscription();
+        if (existing) {
+          // Re-sync in case the server lost the row (or another rep used this device)
+          await save(existing);
+        } else if (Notification.permission === "granted") {
+          await subscribe(registration);
+        } else if (Notification.permission === "default") {
+          setShowBanner(true);
+        }
+      } catch (err) {
+        console.error("[CanvasserPush] Init error:", err);
+      }
+    })();
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [vapidKey]);
+
+  async function save(subscription: PushSubscription) {
+    const json = subscription.toJSON();
+    await fetch("/api/canvasser/push/subscribe", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ endpoint: json.endpoint, keys: json.keys }),
+    });
+  }
+
+  async function subscribe(registration: ServiceWorkerRegistration) {
+    const subscription = await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: vapidKey as string,
+    });
+    await save(subscription);
+  }
+
+  // Runs inside the tap so iOS shows the permission prompt
+  async function handleEnable() {
+    if (!reg || subscribing) return;
+    setSubscribing(true);
+    try {
+      const permission = await Notification.requestPermission();
+      setShowBanner(false);
+      if (permission === "granted") await subscribe(reg);
+    } catch (err) {
+      console.error("[CanvasserPush] Permission request failed:", err);
+      setShowBanner(false);
+    } finally {
+      setSubscribing(false);
+    }
+  }
+
+  if (!showBanner) return null;
+
+  return (
+    <div className="mx-3 mt-3 bg-white border border-violet-100 rounded-2xl p-3 flex items-start gap-3">
+      <div className="w-8 h-8 rounded-full bg-violet-100 flex items-center justify-center flex-shrink-0">
+        <Bell className="w-4 h-4 text-violet-700" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-[13px] font-bold text-gray-900">Call-back reminders</p>
+        <p className="text-[12px] text-gray-500 mt-0.5">Get a heads-up before a homeowner&apos;s call-back time.</p>
+        <div className="flex items-center gap-2 mt-2">
+          <button onClick={handleEnable} disabled={subscribing} className="px-3 py-1.5 rounded-lg text-[12px] font-bold text-white disabled:opacity-60" style={{ background: "#6D3EF0" }}>
+            {subscribing ? "Enabling…" : "Turn on"}
+          </button>
+          <button onClick={() => setShowBanner(false)} className="p-1.5 text-gray-400" aria-label="Dismiss">
+            <BellOff className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
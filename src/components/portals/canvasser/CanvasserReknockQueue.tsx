@@ -0,0 +1,37 @@
+import Link from "next/link";
+import { ChevronRight, PhoneCall, DoorClosed } from "lucide-react";
+import type { ReknockItem } from "@/lib/canvass-reknock";
+
+const when = (d: Date) =>
+  d.toLocaleString("en-US", { timeZone: "America/Los_Angeles", weekday: "short", hour: "numeric", minute: "2-digit" });
+
+// Doors due back today: call-backs (with the requested time) first, then
+// not-home doors whose wait is up. Knocking one again from its pin logs the attempt.
+export function CanvasserReknockQueue({ items, now }: { items: ReknockItem[]; now: Date }) {
+  if (items.length === 0) return null;
+  return (
+    <div className="space-y-2">
+      <h2 className="text-[16px] font-extrabold text-gray-900 px-1">Re-knocks <span className="text-gray-400 font-semibold">({items.length})</span></h2>
+      {items.map((v) => {
+        const callback = v.status === "CALLBACK";
+        const at = callback ? v.callbackAt ?? v.nextKnockAt : v.nextKnockAt;
+        const overdue = at <= now;
+        return (
+          <Link key={v.id} href={`/app/canvasser/pin/${v.id}`} className="flex items-center gap-3 bg-white rounded-2xl p-3 border border-gray-100 active:bg-gray-50">
+            <div className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 ${callback ? "bg-amber-100 text-amber-700" : "bg-gray-100 text-gray-600"}`}>
+              {callback ? <PhoneCall className="w-4 h-4" /> : <DoorClosed className="w-4 h-4" />}
+            </div>
+            <div className="min-w-0 flex-1">
+              <p className="text-[13.5px] font-bold text-gray-900 truncate">{v.address || `${v.lat.toFixed(5)}, ${v.lng.toFixed(5)}`}</p>
+              <p className="text-[12px] text-gray-500">
+                {callback ? `Call back ${when(at)}` : `Not home · try #${v.attempts + 1}`}
+                {overdue && !callback ? " · due now" : ""}
+              </p>
+            </div>
+            <ChevronRight className="w-4 h-4 text-gray-300 flex-shrink-0" />
+          </Link>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Footprints, Loader2, Map as MapIcon, Navigation, SkipForward, Undo2, ChevronDown, ChevronUp, RefreshCw } from "lucide-react";
+import type { TerritoryWalkView, WalkStopView } from "@/lib/canvass-walk-list";
+
+const pct = (n: number) => `${Math.round(n * 100)}%`;
+const miles = (m: number) => `${(m / 1609.34).toFixed(1)} mi`;
+const stopLabel = (s: WalkStopView) => s.address || `Home near ${s.lat.toFixed(5)}, ${s.lng.toFixed(5)}`;
+const STOP_STYLE: Record<string, string> = {
+  PENDING: "bg-gray-100 text-gray-600",
+  KNOCKED: "bg-green-100 text-green-700",
+  SKIPPED: "bg-amber-100 text-amber-700",
+};
+
+function here(): Promise<{ lat: number; lng: number } | null> {
+  return new Promise((resolve) => {
+    if (!navigator.geolocation) return resolve(null);
+    navigator.geolocation.getCurrentPosition(
+      (pos) => resolve({ lat: pos.coords.latitude, lng: pos.coords.longitude }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: 6000 },
+    );
+  });
+}
+
+// Walk lists for the rep's assigned territories: coverage, progress, and the
+// next door to knock. Dropping a pin at a door checks it off automatically.
+export function CanvasserWalkList({ territories }: { territories: TerritoryWalkView[] }) {
+  const router = useRouter();
+  const [busy, setBusy] = useState<string | null>(null);
+  const [open, setOpen] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  if (territories.length === 0) return null;
+
+  const generate = async (territoryId: string) => {
+    setBusy(territoryId); setError("");
+    try {
+      const at = await here();
+      const res = await fetch("/api/canvasser/walk-list", {
+        method: "POST", headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ territoryId, ...(at ?? {}) }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) { setError(data.error || "Couldn't build the walk list."); return; }
+      router.refresh();
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const setStop = async (stopId: string, action: "skip" | "unskip") => {
+    setBusy(stopId); setError("");
+    try {
+      const res = await fetch("/api/canvasser/walk-list", {
+        method: "PATCH", headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ stopId, action }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) { setError(data.error || "Couldn't update that stop."); return; }
+      router.refresh();
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2.5">
+      <h2 className="text-[16px] font-extrabold text-gray-900 px-1">Walk Lists</h2>
+      {error && <p className="text-[12.5px] text-rose-600 px-1">{error}</p>}
+
+      {territories.map(({ territory: t, coverage, knockedRecently, list }) => {
+        const next = list?.stops.find((s) => s.status === "PENDING") ?? null;
+        const expanded = open === t.id;
+        return (
+          <div key={t.id} className="bg-white rounded-2xl p-3.5 border border-gray-100">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-[14px] font-bold text-gray-900 truncate flex items-center gap-1.5">
+                  <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ background: t.color }} /> {t.name}
+                </p>
+                <p className="text-[12px] text-gray-500 mt-0.5">
+                  {pct(coverage)} covered · {knockedRecently} of {t.homeCount} homes knocked in 90 days
+                </p>
+              </div>
+              <button
+                onClick={() => generate(t.id)}
+                disabled={busy === t.id}
+                className="flex-shrink-0 inline-flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-[12px] font-semibold text-violet-700 bg-violet-50 disabled:opacity-60"
+              >
+                {busy === t.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : list ? <RefreshCw className="w-3.5 h-3.5" /> : <Footprints className="w-3.5 h-3.5" />}
+                {list ? "Rebuild" : "Build list"}
+              </button>
+            </div>
+
+            {list && (
+              <>
+                <div className="mt-3">
+                  <div className="flex items-center justify-between text-[11.5px] font-semibold text-gray-500 mb-1">
+                    <span>{list.done} of {list.stopCount} doors · {pct(list.progress)}</span>
+                    <span>{miles(list.distanceMeters)} walk</span>
+                  </div>
+                  <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+                    <div className="h-full rounded-full" style={{ width: pct(list.progress), background: "#6D3EF0" }} />
+                  </div>
+                  <p className="text-[11px] text-gray-400 mt-1">
+                    Left off: {list.skippedRecent} knocked recently · {list.skippedDoNotKnock} do-not-knock · {list.skippedCustomers} customers
+                  </p>
+                </div>
+
+                {next ? (
+                  <div className="mt-3 rounded-xl border border-violet-100 bg-violet-50/50 p-3">
+                    <p className="text-[10.5px] font-bold text-violet-700 uppercase tracking-wide">Next door · stop {next.seq}</p>
+                    <p className="text-[14px] font-bold text-gray-900 mt-0.5">{stopLabel(next)}</p>
+                    <div className="flex gap-2 mt-2">
+                      <Link href={`/app/canvasser?at=${next.lat},${next.lng}`} className="flex-1 inline-flex items-center justify-center gap-1.5 px-3 py-2 rounded-xl text-[12.5px] font-bold text-white" style={{ background: "#6D3EF0" }}>
+                        <MapIcon className="w-4 h-4" /> Open on map
+                      </Link>
+                      <a href={`https://www.google.com/maps/dir/?api=1&travelmode=walking&destination=${next.lat},${next.lng}`} target="_blank" rel="noopener noreferrer" className="inline-flex items-center justify-center gap-1.5 px-3 py-2 rounded-xl text-[12.5px] font-semibold text-gray-600 border border-gray-200 bg-white">
+                        <Navigation className="w-4 h-4" />
+                      </a>
+                      <button onClick={() => setStop(next.id, "skip")} disabled={busy === next.id} title="Skip this door" className="inline-flex items-center justify-center gap-1.5 px-3 py-2 rounded-xl text-[12.5px] font-semibold text-amber-700 border border-gray-200 bg-white disabled:opacity-60">
+                        {busy === next.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <SkipForward className="w-4 h-4" />}
+                      </button>
+                    </div>
+                    <p className="text-[11px] text-gray-500 mt-1.5">Drop a pin at the door on the map and it&apos;s checked off.</p>
+                  </div>
+                ) : (
+                  <p className="mt-3 text-[13px] font-semibold text-green-700">Every door on this list is done. Rebuild it to pick up homes that are due again.</p>
+                )}
+
+                <button onClick={() => setOpen(expanded ? null : t.id)} className="mt-2 inline-flex items-center gap-1 text-[12px] font-semibold text-gray-500">
+                  {expanded ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />} {expanded ? "Hide" : "Show"} all stops
+                </button>
+                {expanded && (
+                  <div className="mt-1 divide-y divide-gray-100">
+                    {list.stops.map((s) => (
+                      <div key={s.id} className="flex items-center justify-between gap-2 py-2">
+                        <div className="min-w-0 flex items-center gap-2">
+                          <span className="w-7 text-[11px] font-bold text-gray-400 tabular-nums">{s.seq}</span>
+                          {s.visitId ? (
+                            <Link href={`/app/canvasser/pin/${s.visitId}`} className="text-[13px] text-gray-800 truncate underline decoration-gray-300">{stopLabel(s)}</Link>
+                          ) : (
+                            <Link href={`/app/canvasser?at=${s.lat},${s.lng}`} className="text-[13px] text-gray-800 truncate">{stopLabel(s)}</Link>
+                          )}
+                        </div>
+                        <span className="flex items-center gap-1 flex-shrink-0">
+                          <span className={`text-[10.5px] font-semibold rounded-full px-2 py-0.5 ${STOP_STYLE[s.status] ?? STOP_STYLE.PENDING}`}>
+                            {s.status === "KNOCKED" ? "Knocked" : s.status === "SKIPPED" ? "Skipped" : "To do"}
+                          </span>
+                          {s.status === "SKIPPED" && (
+                            <button onClick={() => setStop(s.id, "unskip")} disabled={busy === s.id} title="Put back on the list" className="p-1 text-gray-400"><Undo2 className="w-3.5 h-3.5" /></button>
+                          )}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -2,8 +2,11 @@
 
 import { useState } from "react";
 import Link from "next/link";
-import { ArrowLeft, MapPin, Sparkles, UserPlus, Map as MapIcon, Loader2, Navigation } from "lucide-react";
+import { ArrowLeft, MapPin, Sparkles, UserPlus, Map as MapIcon, Loader2, Navigation, Footprints, ChevronRight, History } from "lucide-react";
 import { enqueue } from "@/lib/pwa/canvasser-outbox";
+import type { walkContextForVisit } from "@/lib/canvass-walk-list";
+
+export type PinWalkContext = Awaited<ReturnType<typeof walkContextForVisit>>;
 
 export interface PinData {
   id: string;
@@ -19,6 +22,17 @@ export interface PinData {
   canvasserLeadId: string | null;
   createdAt: string;
   updatedAt: string;
+  attempts: number;
+  nextKnockAt: string | null;
+  callbackAt: string | null;
+}
+
+export interface PinAttempt {
+  id: string;
+  status: string;
+  notes: string | null;
+  callbackAt: string | null;
+  createdAt: string;
 }
 
 const STATUS: { id: string; label: string; color: string }[] = [
@@ -32,9 +46,17 @@ const STATUS: { id: string; label: string; color: string }[] = [
 const uuid = () =>
   typeof crypto !== "undefined" && crypto.randomUUID ? crypto.randomUUID() : `ck_${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`;
 const fmt = (iso: string) => new Date(iso).toLocaleString("en-US", { month: "short", day: "numeric", year: "numeric", hour: "numeric", minute: "2-digit" });
+const label = (s: string) => STATUS.find((x) => x.id === s)?.label ?? s;
+// <input type="datetime-local"> wants local "YYYY-MM-DDTHH:mm"
+const toLocalInput = (iso: string | null) => {
+  if (!iso) return "";
+  const d = new Date(iso);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
 
-export function PinDetail({ pin }: { pin: PinData }) {
+export function PinDetail({ pin, history = [], walk = null }: { pin: PinData; history?: PinAttempt[]; walk?: PinWalkContext }) {
   const [status, setStatus] = useState(pin.status);
+  const [callbackAt, setCallbackAt] = useState(toLocalInput(pin.callbackAt));
   const [notes, setNotes] = useState(pin.notes ?? "");
   const [address, setAddress] = useState(pin.address ?? "");
   const [leadId, setLeadId] = useState(pin.canvasserLeadId);
@@ -43,13 +65,15 @@ export function PinDetail({ pin }: { pin: PinData }) {
 
   // Every save sends the full current state through the offline outbox (upsert
   // by clientKey), matching how the map saves — so it's offline-safe.
-  const save = (next: { status?: string; notes?: string; address?: string }) => {
+  const save = (next: { status?: string; notes?: string; address?: string; callbackAt?: string }) => {
+    const cb = next.callbackAt ?? callbackAt;
     void enqueue("visit", {
       clientKey: pin.clientKey, lat: pin.lat, lng: pin.lng,
       status: next.status ?? status,
       notes: next.notes ?? notes,
       address: (next.address ?? address) || null,
       city: pin.city, zipCode: pin.zipCode,
+      callbackAt: cb ? new Date(cb).toISOString() : null,
     });
   };
 
@@ -74,6 +98,27 @@ export function PinDetail({ pin }: { pin: PinData }) {
     <div className="space-y-3">
       <Link href="/app/canvasser/list" className="inline-flex items-center gap-1 text-[13px] text-gray-500 font-semibold"><ArrowLeft className="w-4 h-4" /> All pins</Link>
 
+      {/* Walk-list step-through */}
+      {walk && (
+        <div className="bg-violet-50/60 rounded-2xl p-3.5 border border-violet-100">
+          <div className="flex items-center justify-between text-[11.5px] font-semibold text-violet-700">
+            <span className="inline-flex items-center gap-1"><Footprints className="w-3.5 h-3.5" /> {walk.territoryName} · stop {walk.seq} of {walk.stopCount}</span>
+            <span>{Math.round((walk.done / Math.max(1, walk.stopCount)) * 100)}% done</span>
+          </div>
+          <div className="h-1.5 rounded-full bg-white overflow-hidden mt-1.5">
+            <div className="h-full rounded-full" style={{ width: `${Math.round((walk.done / Math.max(1, walk.stopCount)) * 100)}%`, background: "#6D3EF0" }} />
+          </div>
+          {walk.next ? (
+            <Link href={`/app/canvasser?at=${walk.next.lat},${walk.next.lng}`} className="mt-2 flex items-center justify-between gap-2 text-[13px] font-bold text-gray-900">
+              <span className="truncate">Next: {walk.next.address || `stop ${walk.next.seq}`}</span>
+              <ChevronRight className="w-4 h-4 text-violet-500 flex-shrink-0" />
+            </Link>
+          ) : (
+            <p className="mt-2 text-[12.5px] font-semibold text-green-700">That was the last door on this list.</p>
+          )}
+        </div>
+      )}
+
       {/* Address + location */}
       <div className="bg-white rounded-2xl p-4 border border-gray-100">
         <label className="block text-[11px] font-semibold text-gray-400 mb-1">Address</label>
@@ -103,6 +148,22 @@ export function PinDetail({ pin }: { pin: PinData }) {
             </button>
           ))}
         </div>
+        {status === "CALLBACK" && (
+          <div className="mt-3">
+            <label className="block text-[11px] font-semibold text-gray-400 mb-1">Come back at</label>
+            <input
+              type="datetime-local"
+              value={callbackAt}
+              onChange={(e) => setCallbackAt(e.target.value)}
+              onBlur={(e) => { if (e.target.value !== toLocalInput(pin.callbackAt)) save({ callbackAt: e.target.value }); }}
+              className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg"
+            />
+            {!callbackAt && <p className="text-[11px] text-gray-400 mt-1">No time set — it&apos;ll come back this time tomorrow.</p>}
+          </div>
+        )}
+        {pin.nextKnockAt && status === pin.status && status === "NOT_HOME" && (
+          <p className="text-[11.5px] text-gray-500 mt-2">Back on your list {fmt(pin.nextKnockAt)}.</p>
+        )}
       </div>
 
       {/* Notes */}
@@ -153,6 +214,28 @@ export function PinDetail({ pin }: { pin: PinData }) {
         )}
       </div>
 
+      {/* Attempt history */}
+      {history.length > 0 && (
+        <div className="bg-white rounded-2xl p-4 border border-gray-100">
+          <p className="text-[11px] font-semibold text-gray-400 mb-2 flex items-center gap-1.5"><History className="w-3.5 h-3.5" /> Knocks ({pin.attempts})</p>
+          <div className="space-y-2">
+            {history.map((a, i) => (
+              <div key={a.id} className="flex items-start gap-2">
+                <span className="w-5 text-[11px] font-bold text-gray-400 tabular-nums pt-0.5">{history.length - i}</span>
+                <div className="min-w-0">
+                  <p className="text-[12.5px] text-gray-800">
+                    <span className="font-semibold" style={{ color: STATUS.find((x) => x.id === a.status)?.color }}>{label(a.status)}</span>
+                    <span className="text-gray-400"> · {fmt(a.createdAt)}</span>
+                  </p>
+                  {a.callbackAt && <p className="text-[11.5px] text-gray-500">Asked for {fmt(a.callbackAt)}</p>}
+                  {a.notes && <p className="text-[11.5px] text-gray-500 line-clamp-2">{a.notes}</p>}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <p className="text-[11px] text-gray-400 px-1 flex items-center gap-1"><MapPin className="w-3 h-3" /> Added {fmt(pin.createdAt)}{pin.updatedAt !== pin.createdAt ? ` · updated ${fmt(pin.updatedAt)}` : ""}</p>
     </div>
   );
@@ -10,6 +10,7 @@ import {
   User,
   Calendar,
   CreditCard,
+  MessageSquare,
   Share2,
   Settings,
   ChevronDown,
@@ -64,6 +65,11 @@ const navigation: NavItem[] = [
       { name: "Payment Methods", href: "/app/client/billing/methods" },
     ],
   },
+  {
+    name: "Messages",
+    href: "/app/client/messages",
+    icon: MessageSquare,
+  },
   {
     name: "Refer a Friend",
     href: "/app/client/referrals",
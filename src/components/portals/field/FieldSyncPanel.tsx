@@ -0,0 +1,247 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  X,
+  CloudUpload,
+  RefreshCw,
+  AlertTriangle,
+  AlertCircle,
+  Loader2,
+  Clock,
+  Trash2,
+} from "lucide-react";
+import {
+  getFieldOutboxItems,
+  processOutbox,
+  retryFieldItem,
+  discardFieldItem,
+  type FieldOutboxItem,
+} from "@/lib/pwa/field-outbox";
+
+interface FieldSyncPanelProps {
+  isOnline: boolean;
+  onClose: () => void;
+}
+
+function formatTime(iso: string): string {
+  const date = new Date(iso);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay
+    ? date.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })
+    : date.toLocaleString([], { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+function StateBadge({ item }: { item: FieldOutboxItem }) {
+  if (item.status === "sending") {
+    return (
+      <span className="flex items-center gap-1 text-xs text-teal-700">
+        <Loader2 className="w-3 h-3 animate-spin" />
+        Sending
+      </span>
+    );
+  }
+  if (item.status === "conflict") {
+    return (
+      <span className="flex items-center gap-1 text-xs text-red-700">
+        <AlertTriangle className="w-3 h-3" />
+        Needs review
+      </span>
+    );
+  }
+  if (item.status === "failed") {
+    return (
+      <span className="flex items-center gap-1 text-xs text-red-700">
+        <AlertCircle className="w-3 h-3" />
+        Not sent
+      </span>
+    );
+  }
+  return (
+    <span className="flex items-center gap-1 text-xs text-amber-700">
+      <Clock className="w-3 h-3" />
+      {item.retryCount > 0 ? `Retrying (${item.retryCount})` : "Waiting"}
+    </span>
+  );
+}
+
+/**
+ * Bottom sheet listing everything the field outbox still has to send, oldest
+ * first, with the time each action was actually taken. Conflicts with office
+ * changes are resolved here: keep the tech's version or discard it.
+ */
+export function FieldSyncPanel({ isOnline, onClose }: FieldSyncPanelProps) {
+  const [items, setItems] = useState<FieldOutboxItem[]>([]);
+  const [syncing, setSyncing] = useState(false);
+
+  const loadItems = useCallback(async () => {
+    setItems(await getFieldOutboxItems());
+  }, []);
+
+  useEffect(() => {
+    loadItems();
+    window.addEventListener("field-outbox-changed", loadItems);
+    window.addEventListener("field-synced", loadItems);
+    window.addEventListener("field-sync-conflict", loadItems);
+    window.addEventListener("field-sync-error", loadItems);
+    return () => {
+      window.removeEventListener("field-outbox-changed", loadItems);
+      window.removeEventListener("field-synced", loadItems);
+      window.removeEventListener("field-sync-conflict", loadItems);
+      window.removeEventListener("field-sync-error", loadItems);
+    };
+  }, [loadItems]);
+
+  const handleSyncNow = async () => {
+    setSyncing(true);
+    try {
+      await processOutbox();
+    } finally {
+      setSyncing(false);
+      loadItems();
+    }
+  };
+
+  const handleDiscard = async (item: FieldOutboxItem) => {
+    const what = item.kind === "location" ? "this location update" : `"${item.label}"`;
+    if (!confirm(`Discard ${what}? It will not be sent to the office.`)) return;
+    await discardFieldItem(item.id);
+  };
+
+  const heldCount = items.filter((i) => i.status === "conflict" || i.status === "failed").length;
+  const jobItems = items.filter((i) => i.kind !== "location");
+  const locationCount = items.length - jobItems.length;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[110] flex items-end justify-center" onClick={onClose}>
+      <div
+        className="bg-white rounded-t-2xl w-full max-w-lg max-h-[80vh] flex flex-col animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+              <CloudUpload className="w-5 h-5 text-teal-600" />
+              Sync Status
+            </h3>
+            <p className="text-sm text-gray-500">
+              {items.length === 0
+                ? "Everything is synced"
+                : `${items.length} update${items.length !== 1 ? "s" : ""} waiting${
+                    heldCount > 0 ? ` · ${heldCount} need${heldCount === 1 ? "s" : ""} attention` : ""
+                  }`}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {!isOnline && items.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+              You&apos;re offline. These will send in order as soon as you reconnect.
+            </div>
+          )}
+
+          {jobItems.map((item) => (
+            <div
+              key={item.id}
+              className={`rounded-lg border p-3 ${
+                item.status === "conflict" || item.status === "failed"
+                  ? "border-red-200 bg-red-50"
+                  : "border-gray-200"
+              }`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{item.label}</p>
+                  <p className="text-xs text-gray-500">Taken at {formatTime(item.occurredAt)}</p>
+                </div>
+                <StateBadge item={item} />
+              </div>
+
+              {item.status === "conflict" && item.conflict && (
+                <div className="mt-2 space-y-2">
+                  <p className="text-sm text-red-700">{item.conflict.message}</p>
+                  <div className="flex gap-2">
+                    {item.conflict.forceable && (
+                      <button
+                        onClick={() => retryFieldItem(item.id, { force: true })}
+                        className="flex-1 py-2 px-3 rounded-lg text-sm font-medium text-white bg-teal-600"
+                      >
+                        Keep Mine
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDiscard(item)}
+                      className="flex-1 py-2 px-3 rounded-lg text-sm font-medium text-gray-700 bg-white border border-gray-200"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {item.status === "failed" && (
+                <div className="mt-2 space-y-2">
+                  {item.error && <p className="text-sm text-red-700">{item.error}</p>}
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => retryFieldItem(item.id)}
+                      className="flex-1 py-2 px-3 rounded-lg text-sm font-medium text-white bg-teal-600"
+                    >
+                      Try Again
+                    </button>
+                    <button
+                      onClick={() => handleDiscard(item)}
+                      className="flex-1 py-2 px-3 rounded-lg text-sm font-medium text-gray-700 bg-white border border-gray-200"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {item.status === "pending" && item.error && (
+                <p className="mt-1 text-xs text-gray-500">{item.error}</p>
+              )}
+            </div>
+          ))}
+
+          {locationCount > 0 && (
+            <div className="flex items-center justify-between text-sm text-gray-500 px-1">
+              <span>
+                {locationCount} location update{locationCount !== 1 ? "s" : ""}
+              </span>
+              {items.some((i) => i.kind === "location" && i.status === "failed") && (
+                <button
+                  onClick={() =>
+                    items
+                      .filter((i) => i.kind === "location" && i.status === "failed")
+                      .forEach((i) => void discardFieldItem(i.id))
+                  }
+                  className="flex items-center gap-1 text-red-600"
+                >
+                  <Trash2 className="w-3 h-3" />
+                  Clear failed
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100">
+          <button
+            onClick={handleSyncNow}
+            disabled={!isOnline || syncing || items.length === 0}
+            className="w-full py-3 px-4 rounded-xl font-medium text-white bg-teal-600 flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${syncing ? "animate-spin" : ""}`} />
+            {syncing ? "Syncing..." : "Sync Now"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,49 +1,90 @@
 "use client";
 
 import { useState } from "react";
-import { Play, CheckCircle, XCircle, AlertCircle } from "lucide-react";
+import { Play, CheckCircle, XCircle, AlertCircle, CloudOff } from "lucide-react";
+import { getCheckinFix, submitFieldAction, type FieldJobBase } from "@/lib/pwa/field-outbox";
 
 interface JobActionButtonsProps {
   jobId: string;
   status: string;
+  /** Job as loaded, for detecting office changes when a queued action syncs */
+  base?: Omit<FieldJobBase, "status">;
+  /** Shown in the sync panel while the action is queued, e.g. the client name */
+  label?: string;
+  /** Sent along with the complete action, e.g. a commercial station checklist */
+  completePayload?: Record<string, unknown>;
   onStatusChange: (newStatus: string) => void;
 }
 
+const ACTION_STATUS: Record<string, string> = {
+  start: "IN_PROGRESS",
+  complete: "COMPLETED",
+  skip: "SKIPPED",
+};
+
+const ACTION_LABEL: Record<string, string> = {
+  start: "Start",
+  complete: "Complete",
+  skip: "Skip",
+};
+
+// Matches the reasons priced under Skipped Cleanups in the billing settings
 const SKIP_REASONS = [
-  "Gate locked",
-  "Dog in yard",
-  "Customer request",
-  "Weather",
-  "Unsafe conditions",
-  "No access",
+  "Locked Gate",
+  "Gate Issue",
+  "Unsafe dog",
+  "Client Request",
+  "Bad Weather Conditions",
+  "Unfavorable Yard Conditions",
+  "Can't Find Location",
   "Other",
 ];
 
-export function JobActionButtons({ jobId, status, onStatusChange }: JobActionButtonsProps) {
+export function JobActionButtons({ jobId, status, base, label, completePayload, onStatusChange }: JobActionButtonsProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [queued, setQueued] = useState(false);
   const [showSkipModal, setShowSkipModal] = useState(false);
   const [skipReason, setSkipReason] = useState("");
   const [customReason, setCustomReason] = useState("");
+  const [proofIssues, setProofIssues] = useState<string[]>([]);
 
   const performAction = async (action: string, additionalData?: Record<string, unknown>) => {
     setLoading(true);
     setError(null);
 
     try {
-      const res = await fetch(`/api/field/job/${jobId}`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ action, ...additionalData }),
-      });
+      // The completion's GPS fix is the service proof check-in
+      let payload = additionalData;
+      if (action === "complete") {
+        payload = { ...payload, ...completePayload };
+        const checkin = await getCheckinFix();
+        if (checkin) payload = { ...payload, checkin };
+      }
 
-      const data = await res.json();
+      // Goes through the offline outbox: applied now if we have signal,
+      // otherwise replayed in order (with this timestamp) once we do
+      const result = await submitFieldAction({
+        kind: action as "start" | "complete" | "skip",
+        jobId,
+        label: label ? `${ACTION_LABEL[action]} · ${label}` : undefined,
+        payload,
+        base: { ...base, status },
+      });
 
-      if (res.ok) {
-        onStatusChange(data.job.status);
+      if (result.state === "synced") {
+        const job = result.data?.job as { status?: string } | undefined;
+        const proof = result.data?.proof as { issues?: Array<{ message: string }> } | undefined;
+        setProofIssues((proof?.issues || []).map((issue) => issue.message));
+        setQueued(false);
+        onStatusChange(job?.status || ACTION_STATUS[action]);
+        setShowSkipModal(false);
+      } else if (result.state === "queued") {
+        setQueued(true);
+        onStatusChange(ACTION_STATUS[action]);
         setShowSkipModal(false);
       } else {
-        setError(data.error || "Action failed");
+        setError(result.error || "Action failed");
       }
     } catch (err) {
       console.error("Error performing action:", err);
@@ -68,11 +109,24 @@ export function JobActionButtons({ jobId, status, onStatusChange }: JobActionBut
       <div className={`p-4 rounded-xl text-center ${
         status === "COMPLETED" ? "bg-green-100" : "bg-red-100"
       }`}>
+        {queued && (
+          <p className="flex items-center justify-center gap-1 text-xs text-gray-600 mb-1">
+            <CloudOff className="w-3 h-3" />
+            Saved offline - will sync when connected
+          </p>
+        )}
         {status === "COMPLETED" ? (
-          <div className="flex items-center justify-center gap-2 text-green-700">
-            <CheckCircle className="w-6 h-6" />
-            <span className="font-semibold">Job Completed</span>
-          </div>
+          <>
+            <div className="flex items-center justify-center gap-2 text-green-700">
+              <CheckCircle className="w-6 h-6" />
+              <span className="font-semibold">Job Completed</span>
+            </div>
+            {proofIssues.length > 0 && (
+              <p className="text-xs text-amber-800 bg-amber-50 rounded-lg px-3 py-2 mt-3 text-left">
+                Flagged for office review: {proofIssues.join("; ")}
+              </p>
+            )}
+          </>
         ) : (
           <div className="flex items-center justify-center gap-2 text-red-700">
             <XCircle className="w-6 h-6" />
@@ -92,6 +146,13 @@ export function JobActionButtons({ jobId, status, onStatusChange }: JobActionBut
         </div>
       )}
 
+      {queued && !error && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-2 flex items-center gap-2">
+          <CloudOff className="w-4 h-4 text-amber-600 flex-shrink-0" />
+          <p className="text-xs text-amber-800">Saved offline - will sync when connected</p>
+        </div>
+      )}
+
       {/* Skip Modal */}
       {showSkipModal && (
         <div className="fixed inset-0 bg-black/50 z-50 flex items-end justify-center">
@@ -1,21 +1,27 @@
 "use client";
 
 import { useState } from "react";
-import { Navigation, Check, AlertCircle } from "lucide-react";
+import { Navigation, Check, AlertCircle, CloudOff } from "lucide-react";
+import { submitFieldAction, type FieldJobBase } from "@/lib/pwa/field-outbox";
 
 interface OnTheWayButtonProps {
   jobId: string;
   status: string;
+  /** Job as loaded, for detecting office changes when a queued notice syncs */
+  base?: Omit<FieldJobBase, "status">;
+  /** Shown in the sync panel while the notice is queued, e.g. the client name */
+  label?: string;
   onSent: () => void;
 }
 
-export function OnTheWayButton({ jobId, status, onSent }: OnTheWayButtonProps) {
+export function OnTheWayButton({ jobId, status, base, label, onSent }: OnTheWayButtonProps) {
   const [loading, setLoading] = useState(false);
   const [sent, setSent] = useState(false);
+  const [queued, setQueued] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Only show for SCHEDULED jobs
-  if (status !== "SCHEDULED") {
+  // Only show for SCHEDULED jobs (and keep the confirmation once sent)
+  if (status !== "SCHEDULED" && !sent) {
     return null;
   }
 
@@ -24,19 +30,19 @@ export function OnTheWayButton({ jobId, status, onSent }: OnTheWayButtonProps) {
     setError(null);
 
     try {
-      const res = await fetch(`/api/field/job/${jobId}/notify`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({}),
+      const result = await submitFieldAction({
+        kind: "en_route",
+        jobId,
+        label: label ? `On my way · ${label}` : undefined,
+        base: { ...base, status },
       });
 
-      const data = await res.json();
-
-      if (res.ok) {
+      if (result.state === "synced" || result.state === "queued") {
+        setQueued(result.state === "queued");
         setSent(true);
         onSent();
       } else {
-        setError(data.error || "Failed to send notification");
+        setError(result.error || "Failed to send notification");
       }
     } catch (err) {
       console.error("Error sending notification:", err);
@@ -47,7 +53,12 @@ export function OnTheWayButton({ jobId, status, onSent }: OnTheWayButtonProps) {
   };
 
   if (sent) {
-    return (
+    return queued ? (
+      <div className="bg-amber-100 text-amber-800 py-3 px-4 rounded-xl font-medium flex items-center justify-center gap-2">
+        <CloudOff className="w-5 h-5" />
+        Client will be notified when you&apos;re back online
+      </div>
+    ) : (
       <div className="bg-green-100 text-green-700 py-3 px-4 rounded-xl font-medium flex items-center justify-center gap-2">
         <Check className="w-5 h-5" />
         Client Notified
@@ -1,7 +1,7 @@
 "use client";
 
 import { useEffect, useState, createContext, useContext } from "react";
-import { Wifi, WifiOff, RefreshCw, Download } from "lucide-react";
+import { Wifi, WifiOff, RefreshCw, Download, AlertTriangle } from "lucide-react";
 import {
   registerServiceWorker,
   applyUpdate,
@@ -9,12 +9,16 @@ import {
   promptInstall,
   getQueuedPhotoCount,
 } from "@/lib/pwa";
+import { startFieldOutbox, getFieldOutboxItems } from "@/lib/pwa/field-outbox";
+import { FieldSyncPanel } from "./FieldSyncPanel";
 
 interface PWAContextValue {
   isOnline: boolean;
   isInstalled: boolean;
   updateAvailable: boolean;
   queuedPhotos: number;
+  queuedActions: number;
+  openSyncPanel: () => void;
   applyUpdate: () => void;
   promptInstall: () => Promise<boolean>;
 }
@@ -24,6 +28,8 @@ const PWAContext = createContext<PWAContextValue>({
   isInstalled: false,
   updateAvailable: false,
   queuedPhotos: 0,
+  queuedActions: 0,
+  openSyncPanel: () => {},
   applyUpdate: () => {},
   promptInstall: async () => false,
 });
@@ -43,6 +49,9 @@ export function PWAProvider({ children }: PWAProviderProps) {
   const [canInstall, setCanInstall] = useState(false);
   const [queuedPhotos, setQueuedPhotos] = useState(0);
   const [showOfflineBanner, setShowOfflineBanner] = useState(false);
+  const [queuedActions, setQueuedActions] = useState(0);
+  const [syncIssues, setSyncIssues] = useState(0);
+  const [showSyncPanel, setShowSyncPanel] = useState(false);
 
   useEffect(() => {
     // Check initial online status
@@ -91,6 +100,24 @@ export function PWAProvider({ children }: PWAProviderProps) {
     // Initial queue count
     updateQueueCount();
 
+    // Field outbox: queued job actions, and those held for the tech to resolve
+    const updateOutbox = async () => {
+      const items = await getFieldOutboxItems();
+      setQueuedActions(items.length);
+      setSyncIssues(items.filter((i) => i.status === "conflict" || i.status === "failed").length);
+    };
+    const handleSyncConflict = () => {
+      updateOutbox();
+      setShowSyncPanel(true);
+    };
+
+    window.addEventListener("field-outbox-changed", updateOutbox);
+    window.addEventListener("field-sync-error", updateOutbox);
+    window.addEventListener("field-sync-conflict", handleSyncConflict);
+
+    startFieldOutbox();
+    updateOutbox();
+
     return () => {
       window.removeEventListener("online", handleOnline);
       window.removeEventListener("offline", handleOffline);
@@ -98,6 +125,9 @@ export function PWAProvider({ children }: PWAProviderProps) {
       window.removeEventListener("pwa-installable", handleInstallable);
       window.removeEventListener("photo-upload-success", updateQueueCount);
       window.removeEventListener("photo-upload-error", updateQueueCount);
+      window.removeEventListener("field-outbox-changed", updateOutbox);
+      window.removeEventListener("field-sync-error", updateOutbox);
+      window.removeEventListener("field-sync-conflict", handleSyncConflict);
     };
   }, []);
 
@@ -121,6 +151,8 @@ export function PWAProvider({ children }: PWAProviderProps) {
         isInstalled,
         updateAvailable,
         queuedPhotos,
+        queuedActions,
+        openSyncPanel: () => setShowSyncPanel(true),
         applyUpdate: handleApplyUpdate,
         promptInstall: handlePromptInstall,
       }}
@@ -173,17 +205,30 @@ export function PWAProvider({ children }: PWAProviderProps) {
         </div>
       )}
 
-      {/* Online Status Indicator (subtle) */}
+      {/* Sync Status Panel */}
+      {showSyncPanel && (
+        <FieldSyncPanel isOnline={isOnline} onClose={() => setShowSyncPanel(false)} />
+      )}
+
+      {/* Online Status Indicator (subtle) - opens the sync panel */}
       {!showOfflineBanner && (
         <div className="fixed bottom-[72px] right-4 z-50">
-          <div
+          <button
+            onClick={() => setShowSyncPanel(true)}
             className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs ${
-              isOnline
+              syncIssues > 0
+                ? "bg-red-100 text-red-700"
+                : isOnline
                 ? "bg-green-100 text-green-700"
                 : "bg-amber-100 text-amber-700"
             }`}
           >
-            {isOnline ? (
+            {syncIssues > 0 ? (
+              <>
+                <AlertTriangle className="w-3 h-3" />
+                <span>Needs review</span>
+              </>
+            ) : isOnline ? (
               <>
                 <Wifi className="w-3 h-3" />
                 <span>Online</span>
@@ -194,12 +239,12 @@ export function PWAProvider({ children }: PWAProviderProps) {
                 <span>Offline</span>
               </>
             )}
-            {queuedPhotos > 0 && (
+            {queuedPhotos + queuedActions > 0 && (
               <span className="ml-1 bg-amber-500 text-white px-1.5 rounded-full">
-                {queuedPhotos}
+                {queuedPhotos + queuedActions}
               </span>
             )}
-          </div>
+          </button>
         </div>
       )}
     </PWAContext.Provider>
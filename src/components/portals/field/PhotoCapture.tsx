@@ -2,12 +2,13 @@
 
 import { useState, useRef, useCallback } from "react";
 import { Camera, X, RotateCcw, Check, Loader2 } from "lucide-react";
-import { queuePhoto, compressImage } from "@/lib/pwa/photo-queue";
+import { compressImage } from "@/lib/pwa/photo-queue";
+import { submitFieldAction } from "@/lib/pwa/field-outbox";
 import { usePWA } from "./PWAProvider";
 
 interface PhotoCaptureProps {
   jobId: string;
-  type: "before" | "after" | "issue";
+  type: "before" | "after" | "gate" | "issue";
   onPhotoTaken: (photoId: string, url: string) => void;
   onCancel: () => void;
 }
@@ -107,35 +108,30 @@ export function PhotoCapture({ jobId, type, onPhotoTaken, onCancel }: PhotoCaptu
     setError(null);
 
     try {
-      if (isOnline) {
-        // Upload directly
-        const formData = new FormData();
-        formData.append("photo", capturedBlob, `${type}-${Date.now()}.jpg`);
-        formData.append("type", type);
-
-        const res = await fetch(`/api/field/job/${jobId}/photos`, {
-          method: "POST",
-          body: formData,
-        });
-
-        const data = await res.json();
-
-        if (res.ok) {
-          onPhotoTaken(data.photo.id, data.photo.url);
-        } else {
-          throw new Error(data.error || "Upload failed");
-        }
+      // Uploads now if online; otherwise queued behind this job's other
+      // offline actions and sent in order on reconnect
+      const result = await submitFieldAction({
+        kind: "photo",
+        jobId,
+        label: `${type.charAt(0).toUpperCase()}${type.slice(1)} photo`,
+        payload: { type },
+        blob: capturedBlob,
+      });
+
+      if (result.state === "synced") {
+        const photo = result.data?.photo as { id: string; url: string } | undefined;
+        onPhotoTaken(photo?.id || result.clientKey, photo?.url || capturedImage!);
+      } else if (result.state === "queued") {
+        onPhotoTaken(result.clientKey, capturedImage!);
       } else {
-        // Queue for later upload
-        const photoId = await queuePhoto(jobId, capturedBlob, type);
-        onPhotoTaken(photoId, capturedImage!);
+        throw new Error(result.error || "Upload failed");
       }
     } catch (err) {
       console.error("Error uploading photo:", err);
       setError(err instanceof Error ? err.message : "Failed to upload photo");
       setMode("preview");
     }
-  }, [capturedBlob, capturedImage, isOnline, jobId, onPhotoTaken, type]);
+  }, [capturedBlob, capturedImage, jobId, onPhotoTaken, type]);
 
   // Initialize camera on mount
   useState(() => {
@@ -0,0 +1,83 @@
+"use client";
+
+import { Minus, Plus, ClipboardCheck } from "lucide-react";
+
+export interface StationChecklistValue {
+  stationsTotal: number;
+  stationsServiced: number;
+  bagsRestocked: number;
+  cansEmptied: number;
+  notes: string;
+}
+
+interface StationChecklistProps {
+  value: StationChecklistValue;
+  onChange: (value: StationChecklistValue) => void;
+  /** Read-only once the job is completed */
+  disabled?: boolean;
+}
+
+const COUNTERS: Array<{ key: keyof Omit<StationChecklistValue, "notes">; label: string }> = [
+  { key: "stationsServiced", label: "Stations serviced" },
+  { key: "stationsTotal", label: "Stations on site" },
+  { key: "bagsRestocked", label: "Bags restocked" },
+  { key: "cansEmptied", label: "Cans emptied" },
+];
+
+export function StationChecklist({ value, onChange, disabled }: StationChecklistProps) {
+  const set = (key: keyof Omit<StationChecklistValue, "notes">, n: number) => {
+    const next = { ...value, [key]: Math.max(0, n) };
+    // Servicing more stations than we thought were there means there are more
+    if (next.stationsServiced > next.stationsTotal) next.stationsTotal = next.stationsServiced;
+    onChange(next);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <ClipboardCheck className="w-5 h-5 text-gray-400" />
+        <h3 className="font-semibold text-gray-900">Station Checklist</h3>
+      </div>
+      <div className="space-y-2">
+        {COUNTERS.map(({ key, label }) => (
+          <div key={key} className="flex items-center justify-between">
+            <span className="text-sm text-gray-700">{label}</span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => set(key, value[key] - 1)}
+                disabled={disabled || value[key] === 0}
+                className="w-9 h-9 rounded-lg bg-gray-100 flex items-center justify-center disabled:opacity-40"
+              >
+                <Minus className="w-4 h-4 text-gray-600" />
+              </button>
+              <input
+                type="number"
+                min={0}
+                inputMode="numeric"
+                value={value[key]}
+                onChange={(e) => set(key, Number(e.target.value) || 0)}
+                disabled={disabled}
+                className="w-14 text-center px-1 py-1.5 rounded-lg border border-gray-300 text-sm"
+              />
+              <button
+                onClick={() => set(key, value[key] + 1)}
+                disabled={disabled}
+                className="w-9 h-9 rounded-lg bg-gray-100 flex items-center justify-center disabled:opacity-40"
+              >
+                <Plus className="w-4 h-4 text-gray-600" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      <input
+        type="text"
+        value={value.notes}
+        onChange={(e) => onChange({ ...value, notes: e.target.value })}
+        disabled={disabled}
+        placeholder="Broken station, out of bags..."
+        className="w-full mt-3 px-3 py-2 rounded-lg border border-gray-300 text-sm focus:ring-teal-500 focus:border-teal-500"
+      />
+    </div>
+  );
+}
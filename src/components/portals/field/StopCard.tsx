@@ -1,6 +1,6 @@
 "use client";
 
-import { MapPin, AlertTriangle, CheckCircle, XCircle, PersonStanding, Clock, Calendar } from "lucide-react";
+import { MapPin, AlertTriangle, CheckCircle, XCircle, PersonStanding, Clock, PauseCircle } from "lucide-react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { cn } from "@/lib/utils";
@@ -57,6 +57,7 @@ export function StopCard({ stop, isNext = false }: StopCardProps) {
 
   const isCompleted = job.status === "COMPLETED";
   const isSkipped = job.status === "SKIPPED";
+  const isOnHold = job.status === "ON_HOLD";
 
   const openDirections = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -74,7 +75,7 @@ export function StopCard({ stop, isNext = false }: StopCardProps) {
       <div
         className={cn(
           "absolute -left-2 top-4 w-8 h-8 rounded-full flex items-center justify-center text-white font-bold text-sm z-10",
-          isNext ? "bg-teal-600" : isCompleted ? "bg-green-600" : isSkipped ? "bg-red-600" : "bg-teal-500"
+          isNext ? "bg-teal-600" : isCompleted ? "bg-green-600" : isSkipped ? "bg-red-600" : isOnHold ? "bg-indigo-400" : "bg-teal-500"
         )}
       >
         {stop.order}
@@ -84,7 +85,8 @@ export function StopCard({ stop, isNext = false }: StopCardProps) {
         href={`/app/field/route/${stop.id}`}
         className={cn(
           "block bg-white rounded-xl shadow-sm ml-4 overflow-hidden",
-          isNext && "ring-2 ring-teal-500"
+          isNext && "ring-2 ring-teal-500",
+          isOnHold && "opacity-60"
         )}
       >
         {/* Card Header with Icons */}
@@ -173,6 +175,11 @@ export function StopCard({ stop, isNext = false }: StopCardProps) {
                   <XCircle className="w-4 h-4 text-red-600" />
                   <span className="text-red-600 font-medium">SKIPPED</span>
                 </>
+              ) : isOnHold ? (
+                <>
+                  <PauseCircle className="w-4 h-4 text-indigo-600" />
+                  <span className="text-indigo-600 font-medium">ON HOLD</span>
+                </>
               ) : (
                 <span className="text-gray-600">Pending</span>
               )}
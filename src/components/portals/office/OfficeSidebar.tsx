@@ -74,6 +74,7 @@ const navigation: NavItem[] = [
       { name: "Route Manager", href: "/app/office/routes" },
       { name: "Schedule", href: "/app/office/schedule" },
       { name: "Unassigned", href: "/app/office/unassigned" },
+      { name: "Service Proof Review", href: "/app/office/service-proof" },
     ],
   },
   {
@@ -120,6 +121,7 @@ const navigation: NavItem[] = [
       { name: "Completed Jobs", href: "/app/office/reports/completed-jobs" },
       { name: "Residential Cross-Sells", href: "/app/office/reports/residential-cross-sells" },
       { name: "Commercial Cross-Sells", href: "/app/office/reports/commercial-cross-sells" },
+      { name: "Commercial Service Report", href: "/app/office/reports/commercial-service" },
       { name: "Open Balance Report", href: "/app/office/reports/open-balance" },
       { name: "Cleanup Notifications Report", href: "/app/office/reports/cleanup-notifications" },
       { name: "Ratings & Comments", href: "/app/office/reports/ratings" },
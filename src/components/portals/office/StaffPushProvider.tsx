@@ -0,0 +1,146 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Bell, BellOff } from "lucide-react";
+
+/**
+ * Registers the office portal for push notifications so inbox messages
+ * routed by PUSH forwarding rules (and new assignments) reach the staffer.
+ * Reuses the admin service worker, scoped to the office portal.
+ */
+export function StaffPushProvider() {
+  const [showBanner, setShowBanner] = useState(false);
+  const [reg, setReg] = useState<ServiceWorkerRegistration | null>(null);
+  const [subscribing, setSubscribing] = useState(false);
+
+  const vapidKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+
+  useEffect(() => {
+    if (
+      !vapidKey ||
+      typeof window === "undefined" ||
+      !("serviceWorker" in navigator) ||
+      !("PushManager" in window)
+    ) {
+      return;
+    }
+
+    async function init() {
+      try {
+        const registration = await navigator.serviceWorker.register(
+          "/admin-sw.js",
+          { scope: "/app/office/" }
+        );
+        setReg(registration);
+
+        await waitForActivation(registration);
+
+        const existing = await registration.pushManager.getSubscription();
+
+        if (existing) {
+          // Keep the server copy in sync with the browser's subscription
+          await saveSubscription(existing);
+          return;
+        }
+
+        if (Notification.permission === "granted") {
+          await doSubscribe(registration);
+        } else if (Notification.permission === "default") {
+          setShowBanner(true);
+        }
+      } catch (err) {
+        console.error("[StaffPush] Init error:", err);
+      }
+    }
+
+    init();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [vapidKey]);
+
+  async function waitForActivation(registration: ServiceWorkerRegistration) {
+    if (registration.active) return;
+
+    return new Promise<void>((resolve) => {
+      const sw = registration.installing ?? registration.waiting;
+      if (!sw) { resolve(); return; }
+
+      sw.addEventListener("statechange", function handler() {
+        if (sw.state === "activated") {
+          sw.removeEventListener("statechange", handler);
+          resolve();
+        }
+      });
+
+      setTimeout(resolve, 4000);
+    });
+  }
+
+  async function saveSubscription(subscription: PushSubscription) {
+    const json = subscription.toJSON();
+    await fetch("/api/messages/push", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ endpoint: json.endpoint, keys: json.keys }),
+    });
+  }
+
+  async function doSubscribe(registration: ServiceWorkerRegistration) {
+    const subscription = await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: vapidKey as string,
+    });
+    await saveSubscription(subscription);
+  }
+
+  // Runs inside the button's user gesture so iOS will show the prompt
+  async function handleEnable() {
+    if (!reg || subscribing) return;
+    setSubscribing(true);
+    try {
+      const permission = await Notification.requestPermission();
+      setShowBanner(false);
+      if (permission === "granted") {
+        await doSubscribe(reg);
+      }
+    } catch (err) {
+      console.error("[StaffPush] Permission request failed:", err);
+      setShowBanner(false);
+    } finally {
+      setSubscribing(false);
+    }
+  }
+
+  if (!showBanner) return null;
+
+  return (
+    <div className="fixed bottom-6 left-4 right-4 z-50 sm:left-auto sm:right-6 sm:w-80">
+      <div className="bg-white border border-gray-200 rounded-xl shadow-xl p-4 flex items-start gap-3">
+        <div className="w-9 h-9 rounded-full bg-teal-100 flex items-center justify-center flex-shrink-0 mt-0.5">
+          <Bell className="w-4 h-4 text-teal-600" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-semibold text-gray-900">Enable Notifications</p>
+          <p className="text-xs text-gray-500 mt-0.5 leading-relaxed">
+            Get alerts when customer messages are routed to you.
+          </p>
+          <div className="flex items-center gap-2 mt-3">
+            <button
+              onClick={handleEnable}
+              disabled={subscribing}
+              className="flex-1 bg-teal-600 hover:bg-teal-700 disabled:opacity-60 text-white text-xs font-semibold py-1.5 px-3 rounded-lg transition-colors"
+            >
+              {subscribing ? "Enabling…" : "Enable"}
+            </button>
+            <button
+              onClick={() => setShowBanner(false)}
+              className="p-1.5 text-gray-400 hover:text-gray-600 transition-colors"
+              aria-label="Dismiss"
+            >
+              <BellOff className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Image from "next/image";
+import { Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface SubmittedRating {
+  rating: number;
+  comment: string | null;
+  tipCents: number;
+  tipStatus: "NONE" | "PENDING" | "SUCCEEDED" | "FAILED";
+  tipError: string | null;
+  ratedAt: string;
+}
+
+interface RatingLinkData {
+  valid: boolean;
+  orgName: string;
+  orgLogo: string | null;
+  tippingEnabled: boolean;
+  tipAmounts: number[];
+  visit: {
+    date: string | null;
+    completedAt: string | null;
+    techFirstName: string | null;
+  };
+  rating: SubmittedRating | null;
+  error?: string;
+}
+
+interface RateVisitFormProps {
+  token: string;
+  source: "LINK" | "PORTAL";
+  /** Hide the org logo header when the page already has one (client portal) */
+  showHeader?: boolean;
+}
+
+const formatDollars = (cents: number) =>
+  `$${(cents / 100).toFixed(cents % 100 === 0 ? 0 : 2)}`;
+
+function formatVisitDate(date: string) {
+  return new Date(date + "T00:00:00").toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+/**
+ * "Rate your visit" form shared by the public /rate/[token] page and the
+ * client portal. Stars are required; the tip is optional and only offered
+ * when the org has tipping turned on.
+ */
+export function RateVisitForm({ token, source, showHeader = true }: RateVisitFormProps) {
+  const [loading, setLoading] = useState(true);
+  const [data, setData] = useState<RatingLinkData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [stars, setStars] = useState(0);
+  const [hovered, setHovered] = useState(0);
+  const [comment, setComment] = useState("");
+  const [tipCents, setTipCents] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadLink = async () => {
+      try {
+        const res = await fetch(`/api/public/rate/${token}`);
+        const result = await res.json();
+        if (!res.ok || !result.valid) {
+          setError(result.error || "This link is invalid or has expired.");
+        } else {
+          setData(result);
+        }
+      } catch {
+        setError("Failed to load this page. Please try again.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadLink();
+  }, [token]);
+
+  const handleSubmit = async () => {
+    if (stars === 0) {
+      setSubmitError("Please choose a star rating.");
+      return;
+    }
+    setSubmitting(true);
+    setSubmitError(null);
+    try {
+      const res = await fetch(`/api/public/rate/${token}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rating: stars, comment, tipCents, source }),
+      });
+      const result = await res.json();
+      if (!res.ok) {
+        throw new Error(result.error || "Failed to submit rating");
+      }
+      setData((prev) => (prev ? { ...prev, rating: result.rating } : prev));
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : "Failed to submit rating");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="animate-spin w-8 h-8 border-2 border-teal-500 border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="text-center py-8">
+        <div className="w-12 h-12 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
+          <span className="text-red-600 text-xl font-bold">!</span>
+        </div>
+        <h1 className="text-xl font-semibold text-gray-900 mb-2">Link Unavailable</h1>
+        <p className="text-sm text-gray-500">{error}</p>
+      </div>
+    );
+  }
+
+  const techName = data.visit.techFirstName || "your technician";
+
+  return (
+    <div>
+      {showHeader && (
+        <div className="flex justify-center mb-6">
+          {data.orgLogo ? (
+            <Image
+              src={data.orgLogo}
+              alt={data.orgName}
+              width={200}
+              height={60}
+              className="h-12 w-auto object-contain"
+            />
+          ) : (
+            <span className="text-xl font-bold text-gray-900">{data.orgName}</span>
+          )}
+        </div>
+      )}
+
+      {data.rating ? (
+        <div className="text-center py-4">
+          <div className="w-12 h-12 bg-teal-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <span className="text-teal-600 text-xl font-bold">&#10003;</span>
+          </div>
+          <h1 className="text-xl font-semibold text-gray-900 mb-2">Thanks for your feedback!</h1>
+          <div className="flex justify-center gap-1 mb-3">
+            {[1, 2, 3, 4, 5].map((star) => (
+              <Star
+                key={star}
+                className={cn(
+                  "w-6 h-6",
+                  star <= data.rating!.rating ? "fill-teal-500 text-teal-500" : "fill-gray-300 text-gray-300"
+                )}
+              />
+            ))}
+          </div>
+          {data.rating.tipStatus === "SUCCEEDED" && (
+            <p className="text-sm text-gray-600">
+              Your {formatDollars(data.rating.tipCents)} tip is on its way to {techName}.
+            </p>
+          )}
+          {data.rating.tipStatus === "FAILED" && (
+            <p className="text-sm text-red-600">
+              We couldn&apos;t charge your tip{data.rating.tipError ? ` (${data.rating.tipError})` : ""}.
+              Your rating was still saved.
+            </p>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="text-center">
+            <h1 className="text-xl font-semibold text-gray-900 mb-1">How did we do?</h1>
+            <p className="text-sm text-gray-500">
+              Rate {techName}&apos;s visit
+              {data.visit.date ? ` on ${formatVisitDate(data.visit.date)}` : ""}.
+            </p>
+          </div>
+
+          <div className="flex justify-center gap-2" onMouseLeave={() => setHovered(0)}>
+            {[1, 2, 3, 4, 5].map((star) => (
+              <button
+                key={star}
+                type="button"
+                onClick={() => setStars(star)}
+                onMouseEnter={() => setHovered(star)}
+                aria-label={`${star} star${star > 1 ? "s" : ""}`}
+              >
+                <Star
+                  className={cn(
+                    "w-10 h-10",
+                    star <= (hovered || stars) ? "fill-teal-500 text-teal-500" : "fill-gray-300 text-gray-300"
+                  )}
+                />
+              </button>
+            ))}
+          </div>
+
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Anything you'd like to tell us? (optional)"
+            rows={3}
+            maxLength={2000}
+            className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:border-teal-400 focus:ring-2 focus:ring-teal-100 outline-none text-sm"
+          />
+
+          {data.tippingEnabled && (
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Leave a tip for {techName}?</p>
+              <div className="grid grid-cols-4 gap-2">
+                <button
+                  type="button"
+                  onClick={() => setTipCents(0)}
+                  className={cn(
+                    "py-2 rounded-lg border text-sm font-medium",
+                    tipCents === 0 ? "bg-teal-50 border-teal-500 text-teal-700" : "border-gray-200 text-gray-600"
+                  )}
+                >
+                  No tip
+                </button>
+                {data.tipAmounts.map((amount) => {
+                  const cents = Math.round(amount * 100);
+                  return (
+                    <button
+                      key={amount}
+                      type="button"
+                      onClick={() => setTipCents(cents)}
+                      className={cn(
+                        "py-2 rounded-lg border text-sm font-medium",
+                        tipCents === cents ? "bg-teal-50 border-teal-500 text-teal-700" : "border-gray-200 text-gray-600"
+                      )}
+                    >
+                      {formatDollars(cents)}
+                    </button>
+                  );
+                })}
+              </div>
+              {tipCents > 0 && (
+                <p className="text-xs text-gray-500 mt-2">
+                  Charged to the card we have on file. 100% goes to {techName}.
+                </p>
+              )}
+            </div>
+          )}
+
+          {submitError && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+              {submitError}
+            </div>
+          )}
+
+          <button
+            onClick={handleSubmit}
+            disabled={submitting || stars === 0}
+            className="w-full py-3 bg-teal-600 text-white font-medium rounded-lg hover:bg-teal-700 disabled:opacity-50"
+          >
+            {submitting
+              ? "Submitting..."
+              : tipCents > 0
+                ? `Submit & Tip ${formatDollars(tipCents)}`
+                : "Submit Rating"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
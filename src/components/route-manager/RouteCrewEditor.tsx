@@ -0,0 +1,134 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Users, Loader2, Pencil } from "lucide-react";
+
+interface CrewMember {
+  userId: string;
+  name: string;
+  role: "LEAD" | "HELPER";
+}
+
+interface RouteCrewEditorProps {
+  routeId: string;
+  leadId: string | null;
+  techs: Array<{ id: string; fullName: string; role: string }>;
+}
+
+// Roles that can be added as helpers (matches lib/crews)
+const HELPER_ROLES = ["FIELD_TECH", "CREW_LEAD"];
+
+/**
+ * Helpers working a route alongside its lead
+ */
+export function RouteCrewEditor({ routeId, leadId, techs }: RouteCrewEditorProps) {
+  const [crew, setCrew] = useState<CrewMember[]>([]);
+  const [editing, setEditing] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCrew = useCallback(async () => {
+    const response = await fetch(`/api/admin/routes/${routeId}/crew`);
+    if (response.ok) {
+      const data = await response.json();
+      setCrew(data.crew || []);
+    }
+  }, [routeId]);
+
+  useEffect(() => {
+    fetchCrew();
+  }, [fetchCrew]);
+
+  const helpers = crew.filter((m) => m.role === "HELPER");
+
+  const startEditing = () => {
+    setSelected(helpers.map((m) => m.userId));
+    setError(null);
+    setEditing(true);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/routes/${routeId}/crew`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ helperIds: selected }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "Failed to update crew");
+        return;
+      }
+      setCrew(data.crew || []);
+      setEditing(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!leadId) return null;
+
+  return (
+    <div className="mt-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm text-gray-600 min-w-0">
+          <Users className="w-4 h-4 text-gray-400 flex-shrink-0" />
+          <span className="truncate">
+            {helpers.length > 0 ? `Helpers: ${helpers.map((m) => m.name).join(", ")}` : "No helpers"}
+          </span>
+        </div>
+        {!editing && (
+          <button
+            onClick={startEditing}
+            className="p-1 text-gray-400 hover:text-teal-600 hover:bg-teal-50 rounded"
+            title="Edit crew"
+          >
+            <Pencil className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      {editing && (
+        <div className="mt-2 bg-white border border-gray-200 rounded-lg p-2 space-y-1">
+          {techs
+            .filter((t) => t.id !== leadId && HELPER_ROLES.includes(t.role))
+            .map((tech) => (
+              <label key={tech.id} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(tech.id)}
+                  onChange={(e) =>
+                    setSelected((prev) =>
+                      e.target.checked ? [...prev, tech.id] : prev.filter((id) => id !== tech.id)
+                    )
+                  }
+                  className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+                />
+                {tech.fullName}
+              </label>
+            ))}
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <div className="flex justify-end gap-2 pt-1">
+            <button
+              onClick={() => setEditing(false)}
+              className="px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={save}
+              disabled={saving}
+              className="px-2 py-1 text-xs text-white bg-teal-600 hover:bg-teal-700 rounded disabled:opacity-50 flex items-center gap-1"
+            >
+              {saving && <Loader2 className="w-3 h-3 animate-spin" />}
+              Save Crew
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
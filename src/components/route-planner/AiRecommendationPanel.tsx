@@ -1,6 +1,6 @@
 "use client";
 
-import { Sparkles, MapPin, Navigation, Check, X, Calendar, User } from "lucide-react";
+import { Sparkles, MapPin, Navigation, Check, X, Calendar, User, AlertTriangle } from "lucide-react";
 
 interface NearbyClient {
   clientName: string;
@@ -14,6 +14,7 @@ interface Recommendation {
   suggestedTechName: string;
   nearbyClients: NearbyClient[];
   reasoning: string;
+  capacityWarning?: string | null;
 }
 
 interface MapTech {
@@ -93,6 +94,13 @@ export function AiRecommendationPanel({
           </div>
         </div>
 
+        {recommendation.capacityWarning && (
+          <div className="flex items-center gap-2 p-3 bg-amber-50 border border-amber-200 text-amber-800 rounded-lg text-sm">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            {recommendation.capacityWarning}
+          </div>
+        )}
+
         {/* Nearby clients */}
         {recommendation.nearbyClients.length > 0 && (
           <div>
@@ -0,0 +1,177 @@
+"use client";
+
+import { Gauge } from "lucide-react";
+
+interface CapacityLimits {
+  maxStops: number | null;
+  maxOnSiteMinutes: number | null;
+  maxDriveMinutes: number | null;
+}
+
+export interface DayLoad {
+  techId: string | null;
+  techName: string;
+  day: string;
+  peakDate: string | null;
+  stops: number;
+  onSiteMinutes: number;
+  driveMinutes: number;
+  limits: CapacityLimits;
+  exceeded: string[];
+  status: "ok" | "near" | "over";
+}
+
+interface CapacityHeatmapProps {
+  days: string[];
+  loads: DayLoad[];
+  enforcement: "WARN" | "BLOCK";
+  selectedDay: string | null;
+  selectedTechId: string | null;
+  onCellClick: (day: string, techId: string | null) => void;
+}
+
+const DAY_SHORT: Record<string, string> = {
+  MONDAY: "Mon",
+  TUESDAY: "Tue",
+  WEDNESDAY: "Wed",
+  THURSDAY: "Thu",
+  FRIDAY: "Fri",
+  SATURDAY: "Sat",
+  SUNDAY: "Sun",
+};
+
+/** Highest share of any limit the day uses (0 when it has no limits) */
+function utilization(load: DayLoad): number {
+  const ratios = [
+    load.limits.maxStops ? load.stops / load.limits.maxStops : 0,
+    load.limits.maxOnSiteMinutes ? load.onSiteMinutes / load.limits.maxOnSiteMinutes : 0,
+    load.limits.maxDriveMinutes ? load.driveMinutes / load.limits.maxDriveMinutes : 0,
+  ];
+  return Math.max(...ratios);
+}
+
+function cellClass(load: DayLoad): string {
+  if (load.stops === 0) return "bg-gray-50 text-gray-400";
+  if (load.status === "over") return "bg-red-100 text-red-800";
+  if (load.status === "near") return "bg-amber-100 text-amber-800";
+  const ratio = utilization(load);
+  if (ratio >= 0.6) return "bg-teal-200 text-teal-900";
+  if (ratio >= 0.3) return "bg-teal-100 text-teal-900";
+  return "bg-teal-50 text-teal-800";
+}
+
+function cellTitle(load: DayLoad): string {
+  const part = (value: number, limit: number | null, unit: string) =>
+    `${value}${limit !== null ? ` of ${limit}` : ""} ${unit}`;
+  return [
+    `${load.techName} — ${load.day}${load.peakDate ? ` (busiest: ${load.peakDate})` : ""}`,
+    part(load.stops, load.limits.maxStops, "stops"),
+    part(load.onSiteMinutes, load.limits.maxOnSiteMinutes, "min on site"),
+    part(load.driveMinutes, load.limits.maxDriveMinutes, "min driving"),
+  ].join("\n");
+}
+
+export function CapacityHeatmap({
+  days,
+  loads,
+  enforcement,
+  selectedDay,
+  selectedTechId,
+  onCellClick,
+}: CapacityHeatmapProps) {
+  // One row per tech, in the order the API returned them
+  const rows: Array<{ techId: string | null; techName: string }> = [];
+  for (const load of loads) {
+    if (!rows.some((r) => r.techId === load.techId)) {
+      rows.push({ techId: load.techId, techName: load.techName });
+    }
+  }
+  const loadFor = (techId: string | null, day: string) =>
+    loads.find((l) => l.techId === techId && l.day === day);
+
+  const overCount = loads.filter((l) => l.status === "over").length;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium text-gray-700 flex items-center gap-2">
+          <Gauge className="w-4 h-4" />
+          Weekly Route Load
+        </h3>
+        <p className="text-xs text-gray-500">
+          {overCount > 0
+            ? `${overCount} route day${overCount !== 1 ? "s" : ""} over capacity`
+            : "All route days within capacity"}
+          {" · "}
+          {enforcement === "BLOCK" ? "Over-capacity assignments are blocked" : "Over-capacity assignments need confirmation"}
+        </p>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-400">No routed subscriptions yet</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr>
+                <th className="text-left font-medium text-gray-500 pb-2 pr-3">Tech</th>
+                {days.map((day) => (
+                  <th key={day} className="font-medium text-gray-500 pb-2 px-1 text-center">
+                    {DAY_SHORT[day] || day}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.techId || "unassigned"}>
+                  <td className="pr-3 py-1 text-gray-700 whitespace-nowrap">{row.techName}</td>
+                  {days.map((day) => {
+                    const load = loadFor(row.techId, day);
+                    if (!load) return <td key={day} />;
+                    const selected = selectedDay === day && selectedTechId === row.techId;
+                    return (
+                      <td key={day} className="px-1 py-1">
+                        <button
+                          type="button"
+                          title={cellTitle(load)}
+                          onClick={() => onCellClick(day, row.techId)}
+                          className={`w-full rounded-md px-2 py-1.5 text-center ${cellClass(load)} ${
+                            selected ? "ring-2 ring-primary" : ""
+                          }`}
+                        >
+                          <span className="block font-semibold">
+                            {load.stops}
+                            {load.limits.maxStops !== null && (
+                              <span className="font-normal opacity-70">/{load.limits.maxStops}</span>
+                            )}
+                          </span>
+                          <span className="block text-[11px] opacity-80">
+                            {load.onSiteMinutes}m · {load.driveMinutes}m drive
+                          </span>
+                        </button>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4 mt-3 text-xs text-gray-500">
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded bg-teal-100" /> Room to spare
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded bg-amber-100" /> Nearly full (90%+)
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded bg-red-100" /> Over capacity
+        </span>
+        <span>Stops in the busiest of the next five weeks · on-site and drive minutes</span>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,8 @@
  * Structured prompts for different route analysis scenarios.
  */
 
+import type { DayLoad, PlacementSlot } from "../../route-capacity";
+
 export interface ClientLocation {
   id: string;
   subscriptionId: string;
@@ -15,6 +17,8 @@ export interface ClientLocation {
   techId: string | null;
   techName: string;
   frequency: string;
+  /** Estimated minutes on site per visit */
+  serviceMinutes?: number;
 }
 
 export interface Tech {
@@ -28,6 +32,26 @@ export interface NewClientInfo {
   longitude: number;
 }
 
+function formatLimit(value: number, limit: number | null, unit: string): string {
+  return limit !== null ? `${value}/${limit} ${unit}` : `${value} ${unit}`;
+}
+
+/** One line per tech/day: current peak load against its limits */
+function formatCapacityLines(loads: DayLoad[], fullKeys: Set<string> = new Set()): string {
+  return loads
+    .filter((l) => l.techId)
+    .map((l) => {
+      const load = [
+        formatLimit(l.stops, l.limits.maxStops, "stops"),
+        formatLimit(l.onSiteMinutes, l.limits.maxOnSiteMinutes, "min on site"),
+        formatLimit(l.driveMinutes, l.limits.maxDriveMinutes, "min driving"),
+      ].join(", ");
+      const full = fullKeys.has(`${l.techId}:${l.day}`) ? " - FULL" : "";
+      return `- ${l.techName} (ID: ${l.techId}) on ${l.day}: ${load}${full}`;
+    })
+    .join("\n");
+}
+
 /**
  * Build prompt for new client placement analysis
  */
@@ -35,7 +59,8 @@ export function buildNewClientPlacementPrompt(
   newClient: NewClientInfo,
   existingClients: ClientLocation[],
   techs: Tech[],
-  daysOff: string[]
+  daysOff: string[],
+  capacity: PlacementSlot[] = []
 ): string {
   const availableDays = [
     "MONDAY",
@@ -73,6 +98,14 @@ export function buildNewClientPlacementPrompt(
 
   const techList = techs.map((t) => `- ${t.name} (ID: ${t.id})`).join("\n");
 
+  const capacitySection =
+    capacity.length > 0
+      ? `\n\n## Route Capacity (busiest week, current/limit)\n${formatCapacityLines(
+          capacity,
+          new Set(capacity.filter((c) => c.full).map((c) => `${c.techId}:${c.day}`))
+        )}`
+      : "";
+
   return `You are a route optimization assistant for a pet waste removal company. Your task is to determine the best day and technician for a new client based on geographic proximity to existing clients.
 
 ## New Client Location
@@ -86,13 +119,14 @@ ${techList}
 ${dayData}
 
 ## Days Not Available
-${daysOff.length > 0 ? daysOff.join(", ") : "None - all days available"}
+${daysOff.length > 0 ? daysOff.join(", ") : "None - all days available"}${capacitySection}
 
 ## Instructions
 1. Analyze the geographic proximity of the new client to existing clients on each available day.
 2. Consider which technician already services clients near the new location.
 3. Balance route efficiency (minimize travel between stops) with workload distribution.
 4. Prefer days where the new client would fit naturally into an existing route cluster.
+5. Never suggest a technician and day marked FULL in Route Capacity unless every option is full.
 
 ## Response Format
 Respond with a JSON object in this exact format:
@@ -197,7 +231,8 @@ Only include suggestions with clear efficiency benefits. It's okay to return an
 export function buildFullReorgPrompt(
   clients: ClientLocation[],
   techs: Tech[],
-  daysOff: string[]
+  daysOff: string[],
+  capacity: DayLoad[] = []
 ): string {
   const availableDays = [
     "MONDAY",
@@ -212,12 +247,17 @@ export function buildFullReorgPrompt(
   const clientList = clients
     .map(
       (c) =>
-        `- ${c.clientName} (${c.subscriptionId.slice(0, 8)}) at ${c.address} (${c.latitude.toFixed(4)}, ${c.longitude.toFixed(4)}) - Currently: ${c.preferredDay || "Unassigned"}, Tech: ${c.techName}`
+        `- ${c.clientName} (${c.subscriptionId.slice(0, 8)}) at ${c.address} (${c.latitude.toFixed(4)}, ${c.longitude.toFixed(4)}) - Currently: ${c.preferredDay || "Unassigned"}, Tech: ${c.techName}, ${c.frequency}${c.serviceMinutes ? `, ~${c.serviceMinutes} min on site` : ""}`
     )
     .join("\n");
 
   const techList = techs.map((t) => `- ${t.name} (ID: ${t.id})`).join("\n");
 
+  const capacitySection =
+    capacity.length > 0
+      ? `\n\n## Current Route Capacity (busiest week, current/limit)\n${formatCapacityLines(capacity)}`
+      : "";
+
   return `You are a route optimization assistant for a pet waste removal company. Your task is to completely reorganize all routes for maximum efficiency.
 
 ## All Clients (${clients.length} total)
@@ -230,7 +270,7 @@ ${techList}
 ${availableDays.join(", ")}
 
 ## Days Not Available
-${daysOff.length > 0 ? daysOff.join(", ") : "None"}
+${daysOff.length > 0 ? daysOff.join(", ") : "None"}${capacitySection}
 
 ## Instructions
 1. Group clients geographically into efficient route clusters.
@@ -239,6 +279,7 @@ ${daysOff.length > 0 ? daysOff.join(", ") : "None"}
 4. Minimize total travel distance across all routes.
 5. Balance workload roughly equally across available days.
 6. Keep weekly client frequencies in mind (some clients are weekly, biweekly, etc.)
+7. Keep every technician's day within its stop, on-site minute and drive minute limits.
 
 ## Response Format
 Respond with a JSON object:
@@ -14,6 +14,7 @@ import {
   type NewClientInfo,
 } from "./prompts/route-optimization";
 import { calculateAirDistance, formatDistance } from "../distance-utils";
+import type { CapacityEnforcement, DayLoad, PlacementSlot } from "../route-capacity";
 
 // Response types
 export interface PlacementSuggestion {
@@ -27,6 +28,13 @@ export interface PlacementSuggestion {
     distance: string;
   }>;
   confidence: "high" | "medium" | "low";
+  /** Set when the suggested tech/day is already over capacity */
+  capacityWarning?: string;
+}
+
+export interface PlacementCapacity {
+  slots: PlacementSlot[];
+  enforcement: CapacityEnforcement;
 }
 
 export interface OptimizationSuggestion {
@@ -80,18 +88,20 @@ export class RouteOptimizer {
     newClient: NewClientInfo,
     existingClients: ClientLocation[],
     techs: Tech[],
-    daysOff: string[] = []
+    daysOff: string[] = [],
+    capacity?: PlacementCapacity
   ): Promise<PlacementSuggestion | null> {
     if (!this.client) {
       console.error("Anthropic client not configured");
-      return this.getFallbackPlacement(newClient, existingClients, techs, daysOff);
+      return this.getFallbackPlacement(newClient, existingClients, techs, daysOff, capacity);
     }
 
     const prompt = buildNewClientPlacementPrompt(
       newClient,
       existingClients,
       techs,
-      daysOff
+      daysOff,
+      capacity?.slots
     );
 
     try {
@@ -111,21 +121,30 @@ export class RouteOptimizer {
       const textContent = response.content.find((c) => c.type === "text");
       if (!textContent || textContent.type !== "text") {
         console.error("No text content in AI response");
-        return this.getFallbackPlacement(newClient, existingClients, techs, daysOff);
+        return this.getFallbackPlacement(newClient, existingClients, techs, daysOff, capacity);
       }
 
       // Parse the JSON response
       const jsonMatch = textContent.text.match(/\{[\s\S]*\}/);
       if (!jsonMatch) {
         console.error("No JSON found in AI response");
-        return this.getFallbackPlacement(newClient, existingClients, techs, daysOff);
+        return this.getFallbackPlacement(newClient, existingClients, techs, daysOff, capacity);
       }
 
       const result = JSON.parse(jsonMatch[0]) as PlacementSuggestion;
+
+      // The model can still pick a full day; refuse it or flag it
+      const slot = findSlot(capacity, result.suggestedTechId, result.suggestedDay);
+      if (slot?.full) {
+        if (capacity?.enforcement === "BLOCK") {
+          return this.getFallbackPlacement(newClient, existingClients, techs, daysOff, capacity);
+        }
+        result.capacityWarning = fullSlotWarning(slot);
+      }
       return result;
     } catch (error) {
       console.error("Error calling Claude API:", error);
-      return this.getFallbackPlacement(newClient, existingClients, techs, daysOff);
+      return this.getFallbackPlacement(newClient, existingClients, techs, daysOff, capacity);
     }
   }
 
@@ -183,14 +202,15 @@ export class RouteOptimizer {
   async analyzeFullReorganization(
     clients: ClientLocation[],
     techs: Tech[],
-    daysOff: string[] = []
+    daysOff: string[] = [],
+    capacity: DayLoad[] = []
   ): Promise<ReorgResult | null> {
     if (!this.client) {
       console.error("Anthropic client not configured");
       return null;
     }
 
-    const prompt = buildFullReorgPrompt(clients, techs, daysOff);
+    const prompt = buildFullReorgPrompt(clients, techs, daysOff, capacity);
 
     try {
       const response = await this.client.messages.create({
@@ -224,15 +244,16 @@ export class RouteOptimizer {
 
   /**
    * Fallback placement when AI is not available
-   * Uses simple distance-based heuristics
+   * Uses simple distance-based heuristics, skipping tech/days that are full
    */
   private getFallbackPlacement(
     newClient: NewClientInfo,
     existingClients: ClientLocation[],
     techs: Tech[],
-    daysOff: string[]
+    daysOff: string[],
+    capacity?: PlacementCapacity
   ): PlacementSuggestion {
-    const availableDays = [
+    const workingDays = [
       "MONDAY",
       "TUESDAY",
       "WEDNESDAY",
@@ -241,6 +262,14 @@ export class RouteOptimizer {
       "SATURDAY",
     ].filter((day) => !daysOff.includes(day));
 
+    const hasRoom = (techId: string, day: string) => !findSlot(capacity, techId, day)?.full;
+
+    // Only days where some tech still has room, unless every day is full
+    const daysWithRoom = workingDays.filter((day) =>
+      techs.length === 0 ? true : techs.some((t) => hasRoom(t.id, day))
+    );
+    const availableDays = daysWithRoom.length > 0 ? daysWithRoom : workingDays;
+
     // Find nearest clients and their days
     const clientsWithDistance = existingClients
       .filter((c) => c.preferredDay && !daysOff.includes(c.preferredDay))
@@ -296,12 +325,22 @@ export class RouteOptimizer {
       }
     }
 
-    let suggestedTechId = techs[0]?.id || "";
-    let suggestedTechName = techs[0]?.name || "Unassigned";
+    // Default to the least loaded tech with room that day
+    const defaultTech =
+      [...techs]
+        .filter((t) => hasRoom(t.id, bestDay))
+        .sort(
+          (a, b) =>
+            (findSlot(capacity, a.id, bestDay)?.stops || 0) -
+            (findSlot(capacity, b.id, bestDay)?.stops || 0)
+        )[0] || techs[0];
+
+    let suggestedTechId = defaultTech?.id || "";
+    let suggestedTechName = defaultTech?.name || "Unassigned";
     let maxCount = 0;
 
     for (const [techId, count] of Object.entries(techCounts)) {
-      if (count > maxCount) {
+      if (count > maxCount && hasRoom(techId, bestDay)) {
         maxCount = count;
         suggestedTechId = techId;
         const tech = techs.find((t) => t.id === techId);
@@ -309,6 +348,8 @@ export class RouteOptimizer {
       }
     }
 
+    const slot = findSlot(capacity, suggestedTechId, bestDay);
+
     // Get nearby clients for the suggested day
     const nearbyClients = clientsWithDistance
       .filter((c) => c.preferredDay === bestDay)
@@ -326,10 +367,24 @@ export class RouteOptimizer {
       reasoning: `Based on proximity analysis, ${bestDay} has ${bestScore} client${bestScore !== 1 ? "s" : ""} within 2 miles of this location.`,
       nearbyClients,
       confidence: bestScore >= 3 ? "high" : bestScore >= 1 ? "medium" : "low",
+      ...(slot?.full ? { capacityWarning: fullSlotWarning(slot) } : {}),
     };
   }
 }
 
+function findSlot(
+  capacity: PlacementCapacity | undefined,
+  techId: string,
+  day: string
+): PlacementSlot | undefined {
+  return capacity?.slots.find((s) => s.techId === techId && s.day === day);
+}
+
+function fullSlotWarning(slot: PlacementSlot): string {
+  const limit = slot.limits.maxStops !== null ? `/${slot.limits.maxStops}` : "";
+  return `${slot.techName}'s ${slot.day.charAt(0)}${slot.day.slice(1).toLowerCase()} route is at capacity (${slot.stops}${limit} stops, ${slot.onSiteMinutes} min on site, ${slot.driveMinutes} min driving).`;
+}
+
 // Singleton instance
 let optimizerInstance: RouteOptimizer | null = null;
 
@@ -39,6 +39,8 @@ export interface BrevoSendInput {
   replyTo?: string;
   headers?: Record<string, string>;
   tags?: string[];
+  /** Files to attach; content is base64 encoded */
+  attachments?: { name: string; content: string }[];
 }
 
 export interface BrevoSendResult {
@@ -64,6 +66,7 @@ export async function brevoSend(input: BrevoSendInput): Promise<BrevoSendResult>
         ...(input.replyTo ? { replyTo: parseAddr(input.replyTo) } : {}),
         ...(input.headers ? { headers: input.headers } : {}),
         ...(input.tags?.length ? { tags: input.tags } : {}),
+        ...(input.attachments?.length ? { attachment: input.attachments } : {}),
       }),
     });
 
@@ -0,0 +1,344 @@
+import prisma from "@/lib/prisma";
+import { findActiveCustomerByPhone } from "@/lib/lead-duplicates";
+import { estimateMonthlyRevenue, loadPlanPricing } from "@/lib/plan-pricing";
+import { pointInRing } from "@/lib/geo/home-count";
+
+// Canvasser pay: attributes a door-knock lead to the Sweep&Go customer it became
+// and accrues commission per the rules set in /admin/canvassers/leaderboard.
+//
+//   CanvassVisit → CanvasserLead (phone) → ACTIVE SweepandgoCustomer (same phone)
+//
+// A conversion counts when the customer's signup falls between the lead's
+// creation (a day of grace for a same-visit signup entered first) and the rule's
+// attribution window. The rule's terms are snapshotted onto the conversion so
+// later edits don't rewrite what a rep already earned. Each run then adds ledger
+// rows: the signup bounty once, and one revenue-share row per month reached
+// while the customer stays active. Idempotent — safe to run daily.
+
+const DAY_MS = 86_400_000;
+const SIGNUP_GRACE_MS = DAY_MS;
+/** The longest attribution window we look back for unconverted leads. */
+const MAX_LOOKBACK_DAYS = 365;
+
+/** Visit dispositions where someone came to the door. */
+export const CONTACT_STATUSES = ["INTERESTED", "NOT_INTERESTED", "CALLBACK", "LEAD"];
+
+type Ring = [number, number][];
+
+interface RuleTerms {
+  id: string;
+  canvasserId: string | null;
+  signupBountyCents: number;
+  revenueSharePct: number;
+  revenueShareMonths: number;
+  attributionDays: number;
+}
+
+function addMonths(d: Date, n: number): Date {
+  const out = new Date(d);
+  out.setUTCMonth(out.getUTCMonth() + n);
+  return out;
+}
+
+/** The canvasser's own active rule, else the team default. */
+function ruleFor(rules: RuleTerms[], canvasserId: string): RuleTerms | null {
+  return rules.find((r) => r.canvasserId === canvasserId) ?? rules.find((r) => r.canvasserId === null) ?? null;
+}
+
+/** Match new signups to canvasser leads, then accrue what's been earned. */
+export async function syncCanvassCommissions(now = new Date()): Promise<{ converted: number; accrued: number }> {
+  const rules: RuleTerms[] = await prisma.canvassCommissionRule.findMany({
+    where: { active: true },
+    orderBy: { updatedAt: "desc" },
+    select: { id: true, canvasserId: true, signupBountyCents: true, revenueSharePct: true, revenueShareMonths: true, attributionDays: true },
+  });
+
+  let converted = 0;
+  if (rules.length) {
+    const leads = await prisma.canvasserLead.findMany({
+      where: {
+        phone: { not: null },
+        status: { not: "CONVERTED" },
+        createdAt: { gte: new Date(now.getTime() - MAX_LOOKBACK_DAYS * DAY_MS) },
+      },
+      select: { id: true, phone: true, createdAt: true, canvasserId: true, canvasserName: true, visitId: true },
+    });
+    const already = new Set(
+      (await prisma.canvassConversion.findMany({ where: { leadId: { in: leads.map((l: { id: string }) => l.id) } }, select: { leadId: true } }))
+        .map((c: { leadId: string }) => c.leadId)
+    );
+
+    let pricing: Awaited<ReturnType<typeof loadPlanPricing>> | undefined;
+    let territories: Array<{ id: string; polygon: Ring }> | undefined;
+
+    for (const lead of leads) {
+      if (already.has(lead.id)) continue;
+      const rule = ruleFor(rules, lead.canvasserId);
+      if (!rule) continue;
+      if (now.getTime() - lead.createdAt.getTime() > rule.attributionDays * DAY_MS) continue;
+
+      const customer = await findActiveCustomerByPhone(lead.phone);
+      if (!customer) continue;
+      const signedUp = customer.startDate ?? customer.firstSeenAt;
+      const sinceLead = signedUp.getTime() - lead.createdAt.getTime();
+      // Already a customer before the knock, or signed up too long after it
+      if (sinceLead < -SIGNUP_GRACE_MS || sinceLead > rule.attributionDays * DAY_MS) continue;
+
+      // A customer is credited to one lead only
+      if (await prisma.canvassConversion.findFirst({ where: { customerId: customer.id }, select: { id: true } })) continue;
+
+      if (pricing === undefined) pricing = await loadPlanPricing();
+      if (territories === undefined) {
+        const rows: Array<{ id: string; polygon: unknown }> = await prisma.canvassTerritory.findMany({ where: { archived: false }, select: { id: true, polygon: true } });
+        territories = rows.map((t) => ({ id: t.id, polygon: (t.polygon as Ring) ?? [] }));
+      }
+      const visit = lead.visitId
+        ? await prisma.canvassVisit.findUnique({ where: { id: lead.visitId }, select: { lat: true, lng: true } })
+        : null;
+      const territoryId = visit
+        ? territories.find((t) => t.polygon.length >= 3 && pointInRing(visit.lng, visit.lat, t.polygon))?.id ?? null
+        : null;
+
+      await prisma.$transaction([
+        prisma.canvassConversion.create({
+          data: {
+            leadId: lead.id,
+            visitId: lead.visitId,
+            canvasserId: lead.canvasserId,
+            canvasserName: lead.canvasserName,
+            territoryId,
+            customerId: customer.id,
+            convertedAt: signedUp,
+            monthlyValueCents: Math.round(estimateMonthlyRevenue(customer.subscriptionNames, pricing) * 100),
+            ruleId: rule.id,
+            signupBountyCents: rule.signupBountyCents,
+            revenueSharePct: rule.revenueSharePct,
+            revenueShareMonths: rule.revenueShareMonths,
+          },
+        }),
+        prisma.canvasserLead.update({ where: { id: lead.id }, data: { status: "CONVERTED" } }),
+      ]);
+      converted++;
+    }
+  }
+
+  return { converted, accrued: await accrueCommissions(now) };
+}
+
+/** Add ledger rows for bounties and revenue-share months reached by now. */
+async function accrueCommissions(now: Date): Promise<number> {
+  const conversions = await prisma.canvassConversion.findMany({
+    where: { OR: [{ signupBountyCents: { gt: 0 } }, { revenueShareMonths: { gt: 0 }, revenueSharePct: { gt: 0 } }] },
+  });
+  if (!conversions.length) return 0;
+
+  const ids = conversions.map((c: { id: string }) => c.id);
+  const [existing, activeCustomers] = await Promise.all([
+    prisma.canvassCommission.findMany({ where: { conversionId: { in: ids } }, select: { conversionId: true, kind: true, month: true } }),
+    prisma.sweepandgoCustomer.findMany({
+      where: { id: { in: conversions.map((c: { customerId: string }) => c.customerId) }, active: true },
+      select: { id: true },
+    }),
+  ]);
+  const have = new Set(existing.map((e: { conversionId: string; kind: string; month: number }) => `${e.conversionId}:${e.kind}:${e.month}`));
+  const active = new Set(activeCustomers.map((c: { id: string }) => c.id));
+
+  const rows: Array<{ conversionId: string; canvasserId: string; kind: string; month: number; amountCents: number; earnedAt: Date }> = [];
+  for (const c of conversions) {
+    if (c.signupBountyCents > 0 && !have.has(`${c.id}:BOUNTY:0`)) {
+      rows.push({ conversionId: c.id, canvasserId: c.canvasserId, kind: "BOUNTY", month: 0, amountCents: c.signupBountyCents, earnedAt: c.convertedAt });
+    }
+    // Revenue share stops accruing once the customer cancels
+    if (!active.has(c.customerId)) continue;
+    const amountCents = Math.round((c.monthlyValueCents * c.revenueSharePct) / 100);
+    if (amountCents <= 0) continue;
+    for (let month = 1; month <= c.revenueShareMonths; month++) {
+      const earnedAt = addMonths(c.convertedAt, month - 1);
+      if (earnedAt > now) break;
+      if (have.has(`${c.id}:REVENUE_SHARE:${month}`)) continue;
+      rows.push({ conversionId: c.id, canvasserId: c.canvasserId, kind: "REVENUE_SHARE", month, amountCents, earnedAt });
+    }
+  }
+  if (!rows.length) return 0;
+  const res = await prisma.canvassCommission.createMany({ data: rows, skipDuplicates: true });
+  return res.count;
+}
+
+// ---------------------------------------------------------------------------
+// Pay periods — semi-monthly: the 1st–15th and the 16th–end of month (UTC).
+
+export interface PayPeriod {
+  start: Date;
+  /** Exclusive */
+  end: Date;
+  label: string;
+}
+
+/** The pay period containing `date`, shifted `offset` periods (−1 = previous). */
+export function payPeriod(date = new Date(), offset = 0): PayPeriod {
+  let index = date.getUTCFullYear() * 24 + date.getUTCMonth() * 2 + (date.getUTCDate() >= 16 ? 1 : 0) + offset;
+  const year = Math.floor(index / 24);
+  index -= year * 24;
+  const month = Math.floor(index / 2);
+  const second = index % 2 === 1;
+  const start = new Date(Date.UTC(year, month, second ? 16 : 1));
+  const end = second ? new Date(Date.UTC(year, month + 1, 1)) : new Date(Date.UTC(year, month, 16));
+  const last = new Date(end.getTime() - DAY_MS);
+  const fmt = (d: Date) => d.toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+  return { start, end, label: `${fmt(start)} – ${fmt(last)}, ${year}` };
+}
+
+// ---------------------------------------------------------------------------
+// Leaderboard
+
+export interface LeaderboardRow {
+  id: string;
+  name: string;
+  doors: number;
+  contacts: number;
+  /** contacts / doors, 0–1 */
+  contactRate: number;
+  leads: number;
+  conversions: number;
+  commissionCents: number;
+}
+
+function emptyRow(id: string, name: string): LeaderboardRow {
+  return { id, name, doors: 0, contacts: 0, contactRate: 0, leads: 0, conversions: 0, commissionCents: 0 };
+}
+
+/** Doors, contact rate, leads, conversions and commission per rep and per
+ *  territory for [from, to). Visits outside every territory are left off the
+ *  territory table. */
+export async function canvassLeaderboard(from: Date, to: Date): Promise<{ reps: LeaderboardRow[]; territories: LeaderboardRow[] }> {
+  const range = { gte: from, lt: to };
+  const [visits, leads, conversions, commissions, territoryRows] = await Promise.all([
+    prisma.canvassVisit.findMany({ where: { createdAt: range }, select: { id: true, canvasserId: true, canvasserName: true, status: true, lat: true, lng: true } }),
+    prisma.canvasserLead.findMany({ where: { createdAt: range }, select: { canvasserId: true, canvasserName: true, visitId: true } }),
+    prisma.canvassConversion.findMany({ where: { convertedAt: range }, select: { id: true, canvasserId: true, canvasserName: true, territoryId: true } }),
+    prisma.canvassCommission.findMany({ where: { earnedAt: range }, select: { conversionId: true, canvasserId: true, amountCents: true } }),
+    prisma.canvassTerritory.findMany({ where: { archived: false }, select: { id: true, name: true, polygon: true } }),
+  ]);
+
+  const territories = territoryRows.map((t: { id: string; name: string; polygon: unknown }) => ({ id: t.id, name: t.name, polygon: (t.polygon as Ring) ?? [] }));
+  const reps = new Map<string, LeaderboardRow>();
+  const areas = new Map<string, LeaderboardRow>(territories.map((t: { id: string; name: string }) => [t.id, emptyRow(t.id, t.name)]));
+  const rep = (id: string, name: string) => {
+    let r = reps.get(id);
+    if (!r) { r = emptyRow(id, name || "Unknown"); reps.set(id, r); }
+    if (name && r.name === "Unknown") r.name = name;
+    return r;
+  };
+
+  const visitTerritory = new Map<string, string>();
+  for (const v of visits) {
+    const contact = CONTACT_STATUSES.includes(v.status);
+    const r = rep(v.canvasserId, v.canvasserName);
+    r.doors++;
+    if (contact) r.contacts++;
+    const t = territories.find((t: { polygon: Ring }) => t.polygon.length >= 3 && pointInRing(v.lng, v.lat, t.polygon));
+    if (!t) continue;
+    visitTerritory.set(v.id, t.id);
+    const a = areas.get(t.id)!;
+    a.doors++;
+    if (contact) a.contacts++;
+  }
+  for (const l of leads) {
+    rep(l.canvasserId, l.canvasserName).leads++;
+    const tid = l.visitId ? visitTerritory.get(l.visitId) : undefined;
+    if (tid) areas.get(tid)!.leads++;
+  }
+  for (const c of conversions) {
+    rep(c.canvasserId, c.canvasserName).conversions++;
+    if (c.territoryId && areas.has(c.territoryId)) {
+      areas.get(c.territoryId)!.conversions++;
+    }
+  }
+  // Commission earned in range may belong to conversions from earlier periods
+  const commissionConversions = await prisma.canvassConversion.findMany({
+    where: { id: { in: [...new Set(commissions.map((c: { conversionId: string }) => c.conversionId))] } },
+    select: { id: true, territoryId: true },
+  });
+  const conversionTerritory = new Map<string, string>();
+  for (const c of commissionConversions) if (c.territoryId) conversionTerritory.set(c.id, c.territoryId);
+  for (const c of commissions) {
+    rep(c.canvasserId, "").commissionCents += c.amountCents;
+    const tid = conversionTerritory.get(c.conversionId);
+    if (tid && areas.has(tid)) areas.get(tid)!.commissionCents += c.amountCents;
+  }
+
+  // Reps seen only through commission rows need a name
+  const unnamed = [...reps.values()].filter((r) => r.name === "Unknown").map((r) => r.id);
+  if (unnamed.length) {
+    const named = await prisma.canvasser.findMany({ where: { id: { in: unnamed } }, select: { id: true, name: true } });
+    for (const c of named) reps.get(c.id)!.name = c.name;
+  }
+
+  const finish = (rows: LeaderboardRow[]) =>
+    rows
+      .map((r) => ({ ...r, contactRate: r.doors ? r.contacts / r.doors : 0 }))
+      .sort((a, b) => b.conversions - a.conversions || b.leads - a.leads || b.doors - a.doors);
+  return { reps: finish([...reps.values()]), territories: finish([...areas.values()].filter((a) => a.doors || a.conversions || a.commissionCents)) };
+}
+
+// ---------------------------------------------------------------------------
+// Statement
+
+export interface StatementLine {
+  id: string;
+  kind: string;
+  month: number;
+  amountCents: number;
+  earnedAt: Date;
+  customerLabel: string;
+  address: string | null;
+}
+
+/** One canvasser's commission lines and totals for a pay period. */
+export async function commissionStatement(canvasserId: string, period: PayPeriod): Promise<{
+  lines: StatementLine[];
+  totalCents: number;
+  bountyCents: number;
+  revenueShareCents: number;
+  doors: number;
+  leads: number;
+  conversions: number;
+}> {
+  const range = { gte: period.start, lt: period.end };
+  const [entries, doors, leads, conversions] = await Promise.all([
+    prisma.canvassCommission.findMany({ where: { canvasserId, earnedAt: range }, orderBy: { earnedAt: "asc" } }),
+    prisma.canvassVisit.count({ where: { canvasserId, createdAt: range } }),
+    prisma.canvasserLead.count({ where: { canvasserId, createdAt: range } }),
+    prisma.canvassConversion.count({ where: { canvasserId, convertedAt: range } }),
+  ]);
+
+  const convs = await prisma.canvassConversion.findMany({
+    where: { id: { in: [...new Set(entries.map((e: { conversionId: string }) => e.conversionId))] } },
+    select: { id: true, leadId: true },
+  });
+  const leadRows = await prisma.canvasserLead.findMany({
+    where: { id: { in: convs.map((c: { leadId: string }) => c.leadId) } },
+    select: { id: true, firstName: true, lastName: true, address: true, city: true },
+  });
+  type LeadLabel = { id: string; firstName: string | null; lastName: string | null; address: string | null; city: string | null };
+  const leadById = new Map<string, LeadLabel>(leadRows.map((l: LeadLabel) => [l.id, l]));
+  const leadByConversion = new Map<string, LeadLabel | undefined>(convs.map((c: { id: string; leadId: string }) => [c.id, leadById.get(c.leadId)]));
+
+  let bountyCents = 0, revenueShareCents = 0;
+  const lines: StatementLine[] = entries.map((e: { id: string; conversionId: string; kind: string; month: number; amountCents: number; earnedAt: Date }) => {
+    if (e.kind === "BOUNTY") bountyCents += e.amountCents;
+    else revenueShareCents += e.amountCents;
+    const lead = leadByConversion.get(e.conversionId);
+    return {
+      id: e.id,
+      kind: e.kind,
+      month: e.month,
+      amountCents: e.amountCents,
+      earnedAt: e.earnedAt,
+      customerLabel: [lead?.firstName, lead?.lastName].filter(Boolean).join(" ") || "Customer",
+      address: lead ? [lead.address, lead.city].filter(Boolean).join(", ") || null : null,
+    };
+  });
+
+  return { lines, totalCents: bountyCents + revenueShareCents, bountyCents, revenueShareCents, doors, leads, conversions };
+}
@@ -0,0 +1,145 @@
+import prisma from "@/lib/prisma";
+
+// Re-knock scheduling for canvass doors nobody resolved.
+//
+// NOT_HOME doors come back into the rep's queue `notHomeDays` after each knock,
+// until `maxAttempts` knocks have been made. CALLBACK doors come back at the
+// time the homeowner asked for (tomorrow, same time, if none was given). Any
+// other status resolves the door. Every knock is kept in CanvassVisitAttempt so
+// the pin shows its history.
+//
+// Offline saves replay through the outbox, so a save only counts as a new knock
+// when it plausibly is one: the status changed, or the door was due again, and
+// the last knock is at least NEW_ATTEMPT_GAP_MS old. Anything else corrects the
+// latest attempt in place.
+
+export const REKNOCK_SETTING_KEYS = {
+  notHomeDays: "canvass.reknock.notHomeDays",
+  maxAttempts: "canvass.reknock.maxAttempts",
+} as const;
+
+export interface ReknockSettings {
+  notHomeDays: number;
+  maxAttempts: number;
+}
+
+const DEFAULTS: ReknockSettings = { notHomeDays: 3, maxAttempts: 3 };
+const NEW_ATTEMPT_GAP_MS = 4 * 60 * 60 * 1000;
+const DAY_MS = 86_400_000;
+
+export async function getReknockSettings(): Promise<ReknockSettings> {
+  const rows: Array<{ key: string; value: string }> = await prisma.appSetting.findMany({
+    where: { key: { in: Object.values(REKNOCK_SETTING_KEYS) } },
+  });
+  const get = (key: string, fallback: number, max: number) => {
+    const n = parseInt(rows.find((r) => r.key === key)?.value ?? "", 10);
+    return Number.isFinite(n) && n >= 1 ? Math.min(n, max) : fallback;
+  };
+  return {
+    notHomeDays: get(REKNOCK_SETTING_KEYS.notHomeDays, DEFAULTS.notHomeDays, 60),
+    maxAttempts: get(REKNOCK_SETTING_KEYS.maxAttempts, DEFAULTS.maxAttempts, 10),
+  };
+}
+
+interface PriorVisit {
+  status: string;
+  attempts: number;
+  lastAttemptAt: Date;
+  nextKnockAt: Date | null;
+  callbackAt: Date | null;
+}
+
+export interface KnockPlan {
+  /** Log a new CanvassVisitAttempt rather than correcting the latest one */
+  newAttempt: boolean;
+  fields: {
+    attempts: number;
+    lastAttemptAt: Date;
+    nextKnockAt: Date | null;
+    callbackAt: Date | null;
+    callbackRemindedAt?: null;
+  };
+}
+
+/** Parse a requested callback time from the client; null if missing or bad. */
+export function parseCallbackAt(raw: unknown): Date | null {
+  if (typeof raw !== "string" || !raw) return null;
+  const d = new Date(raw);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+/** Attempt count and next-knock time for a visit save. `prior` is the stored
+ *  row (null for a new pin); `moved` is a drag, which is never a knock. */
+export function planKnock(
+  prior: PriorVisit | null,
+  input: { status: string; callbackAt: Date | null; moved: boolean },
+  settings: ReknockSettings,
+  now = new Date()
+): KnockPlan {
+  let newAttempt = !prior;
+  if (prior && !input.moved) {
+    const due = prior.nextKnockAt != null && prior.nextKnockAt <= now;
+    const changed = prior.status !== input.status;
+    newAttempt = (changed || due) && now.getTime() - prior.lastAttemptAt.getTime() >= NEW_ATTEMPT_GAP_MS;
+  }
+
+  const attempts = prior ? prior.attempts + (newAttempt ? 1 : 0) : 1;
+  const lastAttemptAt = newAttempt || !prior ? now : prior.lastAttemptAt;
+
+  let nextKnockAt: Date | null = null;
+  let callbackAt: Date | null = null;
+  if (input.status === "NOT_HOME") {
+    nextKnockAt = attempts < settings.maxAttempts ? new Date(lastAttemptAt.getTime() + settings.notHomeDays * DAY_MS) : null;
+  } else if (input.status === "CALLBACK") {
+    // Keep the requested time across saves that don't send one (map quick-taps)
+    callbackAt = input.callbackAt ?? (prior?.status === "CALLBACK" && !newAttempt ? prior.callbackAt : null) ?? new Date(lastAttemptAt.getTime() + DAY_MS);
+    nextKnockAt = callbackAt;
+  }
+
+  const callbackChanged = (callbackAt?.getTime() ?? null) !== (prior?.callbackAt?.getTime() ?? null);
+  return {
+    newAttempt,
+    fields: { attempts, lastAttemptAt, nextKnockAt, callbackAt, ...(callbackChanged ? { callbackRemindedAt: null } : {}) },
+  };
+}
+
+/** Write the attempt-history row for a saved visit. */
+export async function recordAttempt(
+  visit: { id: string; canvasserId: string; status: string; notes: string | null; callbackAt: Date | null },
+  newAttempt: boolean
+): Promise<void> {
+  const data = { status: visit.status, notes: visit.notes, callbackAt: visit.callbackAt };
+  const latest = newAttempt
+    ? null
+    : await prisma.canvassVisitAttempt.findFirst({ where: { visitId: visit.id }, orderBy: { createdAt: "desc" }, select: { id: true } });
+  if (latest) {
+    await prisma.canvassVisitAttempt.update({ where: { id: latest.id }, data });
+  } else {
+    await prisma.canvassVisitAttempt.create({ data: { visitId: visit.id, canvasserId: visit.canvasserId, ...data } });
+  }
+}
+
+export interface ReknockItem {
+  id: string;
+  status: string;
+  address: string | null;
+  city: string | null;
+  lat: number;
+  lng: number;
+  attempts: number;
+  nextKnockAt: Date;
+  callbackAt: Date | null;
+  notes: string | null;
+}
+
+/** The rep's doors due back by `until`: callbacks first by time, then not-homes
+ *  oldest-due first. */
+export async function reknockQueue(canvasserId: string, until: Date): Promise<ReknockItem[]> {
+  const rows: ReknockItem[] = await prisma.canvassVisit.findMany({
+    where: { canvasserId, nextKnockAt: { not: null, lte: until }, status: { in: ["NOT_HOME", "CALLBACK"] } },
+    select: { id: true, status: true, address: true, city: true, lat: true, lng: true, attempts: true, nextKnockAt: true, callbackAt: true, notes: true },
+    orderBy: { nextKnockAt: "asc" },
+    take: 200,
+  });
+  return [...rows.filter((r) => r.status === "CALLBACK"), ...rows.filter((r) => r.status !== "CALLBACK")];
+}
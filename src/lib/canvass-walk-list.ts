@@ -0,0 +1,374 @@
+import prisma from "@/lib/prisma";
+import { listHomesInPolygon, pointInRing, ringIsValid, type FootprintHome } from "@/lib/geo/home-count";
+
+// Walk lists: turn an assigned territory into an ordered list of doors.
+//
+// Homes come from the same OSM building footprints as the territory's home
+// count. We drop any door knocked (by anyone) within RECENT_DAYS, any ever
+// marked DO_NOT_KNOCK, and active customers, then order the rest into a walking
+// path — nearest-neighbor from where the rep is standing, tidied with 2-opt.
+// Pins are matched to homes by distance, since a rep drops the pin at the door
+// and the footprint point is the building's center.
+
+const RECENT_DAYS = 30;
+/** Coverage counts doors knocked within this window. */
+const COVERAGE_DAYS = 90;
+/** A pin within this many meters of a footprint center is that home. */
+const MATCH_METERS = 25;
+/** Bound 2-opt on big territories so generation stays well inside a request. */
+const TWO_OPT_MAX_STOPS = 600;
+const TWO_OPT_PASSES = 4;
+
+type Ring = [number, number][];
+type Point = { lat: number; lng: number };
+
+export class WalkListError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "WalkListError";
+    this.status = status;
+  }
+}
+
+/** Equirectangular distance in meters — plenty at neighborhood scale. */
+function meters(a: Point, b: Point): number {
+  const x = (b.lng - a.lng) * 111_320 * Math.cos(((a.lat + b.lat) / 2) * (Math.PI / 180));
+  const y = (b.lat - a.lat) * 110_574;
+  return Math.sqrt(x * x + y * y);
+}
+
+function bbox(ring: Ring) {
+  const lngs = ring.map((p) => p[0]);
+  const lats = ring.map((p) => p[1]);
+  return { minLng: Math.min(...lngs), maxLng: Math.max(...lngs), minLat: Math.min(...lats), maxLat: Math.max(...lats) };
+}
+
+/** "123 Main St" and "123 main street, Fontana CA" both → "123 main" */
+function addressKey(address: string | null | undefined): string | null {
+  const m = (address || "").toLowerCase().replace(/[^a-z0-9\s]/g, " ").trim().match(/^(\d+)\s+(?:[nsew]\s+)?([a-z0-9]+)/);
+  return m ? `${m[1]} ${m[2]}` : null;
+}
+
+/** Index of the home nearest `p` within MATCH_METERS, or -1. */
+function nearestHome(homes: Point[], p: Point): number {
+  let best = -1, bestD = MATCH_METERS;
+  for (let i = 0; i < homes.length; i++) {
+    // Cheap reject before the trig
+    if (Math.abs(homes[i].lat - p.lat) > 0.0005 || Math.abs(homes[i].lng - p.lng) > 0.0006) continue;
+    const d = meters(homes[i], p);
+    if (d <= bestD) { best = i; bestD = d; }
+  }
+  return best;
+}
+
+/** Nearest-neighbor tour from `start`, improved with bounded 2-opt. Open path
+ *  (the rep doesn't walk back to the start). */
+function walkingOrder<T extends Point>(homes: T[], start: Point): T[] {
+  if (homes.length <= 2) return homes;
+  const left = [...homes];
+  const path: T[] = [];
+  let at: Point = start;
+  while (left.length) {
+    let bi = 0, bd = Infinity;
+    for (let i = 0; i < left.length; i++) {
+      const d = meters(at, left[i]);
+      if (d < bd) { bd = d; bi = i; }
+    }
+    at = left[bi];
+    path.push(left[bi]);
+    left.splice(bi, 1);
+  }
+
+  if (path.length > TWO_OPT_MAX_STOPS) return path;
+  for (let pass = 0; pass < TWO_OPT_PASSES; pass++) {
+    let improved = false;
+    for (let i = 0; i < path.length - 2; i++) {
+      for (let k = i + 1; k < path.length - 1; k++) {
+        const a = i === 0 ? start : path[i - 1];
+        const before = meters(a, path[i]) + meters(path[k], path[k + 1]);
+        const after = meters(a, path[k]) + meters(path[i], path[k + 1]);
+        if (after + 0.01 < before) {
+          path.splice(i, k - i + 1, ...path.slice(i, k + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return path;
+}
+
+function pathLength(path: Point[]): number {
+  let total = 0;
+  for (let i = 1; i < path.length; i++) total += meters(path[i - 1], path[i]);
+  return Math.round(total);
+}
+
+/** Build a fresh walk list for a territory assigned to this canvasser; any
+ *  active list they had for it is replaced. `from` is where the rep is now. */
+export async function generateWalkList(canvasserId: string, territoryId: string, from?: Point | null) {
+  const territory = await prisma.canvassTerritory.findUnique({ where: { id: territoryId } });
+  if (!territory || territory.archived || territory.assignedCanvasserId !== canvasserId) {
+    throw new WalkListError("Territory not found", 404);
+  }
+  const ring = territory.polygon as unknown;
+  if (!ringIsValid(ring)) throw new WalkListError("This territory has no outline.");
+
+  const listed = await listHomesInPolygon(ring);
+  if ("error" in listed) throw new WalkListError(listed.error, 502);
+  const homes: FootprintHome[] = listed.homes.filter((h) => pointInRing(h.lng, h.lat, ring));
+  if (!homes.length) throw new WalkListError("No homes found in this territory's map data.");
+
+  const box = bbox(ring);
+  const inBox = { lat: { gte: box.minLat - 0.001, lte: box.maxLat + 0.001 }, lng: { gte: box.minLng - 0.001, lte: box.maxLng + 0.001 } };
+  const recentSince = new Date(Date.now() - RECENT_DAYS * 86_400_000);
+  const [visits, customers] = await Promise.all([
+    prisma.canvassVisit.findMany({
+      where: { ...inBox, OR: [{ status: "DO_NOT_KNOCK" }, { updatedAt: { gte: recentSince } }] },
+      select: { lat: true, lng: true, status: true },
+    }),
+    prisma.sweepandgoCustomer.findMany({
+      where: { active: true, OR: [{ ...inBox, geoPrecise: true }, { zipCode: { in: [...new Set(homes.map((h) => h.zipCode).filter((z): z is string => !!z))] } }] },
+      select: { lat: true, lng: true, geoPrecise: true, address: true },
+    }),
+  ]);
+
+  const dropped = new Map<number, "recent" | "dnk" | "customer">();
+  for (const v of visits as Array<{ lat: number; lng: number; status: string }>) {
+    const i = nearestHome(homes, v);
+    if (i === -1) continue;
+    if (v.status === "DO_NOT_KNOCK") dropped.set(i, "dnk");
+    else if (!dropped.has(i)) dropped.set(i, "recent");
+  }
+  const customerKeys = new Set<string>();
+  for (const c of customers as Array<{ lat: number | null; lng: number | null; geoPrecise: boolean | null; address: string | null }>) {
+    const key = addressKey(c.address);
+    if (key) customerKeys.add(key);
+    if (c.geoPrecise && c.lat != null && c.lng != null) {
+      const i = nearestHome(homes, { lat: c.lat, lng: c.lng });
+      if (i !== -1) dropped.set(i, "customer");
+    }
+  }
+  homes.forEach((h, i) => {
+    const key = addressKey(h.address);
+    if (key && customerKeys.has(key)) dropped.set(i, "customer");
+  });
+
+  const remaining = homes.filter((_, i) => !dropped.has(i));
+  const counts = { recent: 0, dnk: 0, customer: 0 };
+  for (const why of dropped.values()) counts[why]++;
+
+  // Start where the rep is; otherwise at the territory's first corner
+  const start: Point = from && Number.isFinite(from.lat) && Number.isFinite(from.lng) ? from : { lat: ring[0][1], lng: ring[0][0] };
+  const ordered = walkingOrder(remaining, start);
+
+  await prisma.canvassWalkList.updateMany({
+    where: { canvasserId, territoryId, status: "ACTIVE" },
+    data: { status: "REPLACED" },
+  });
+  const list = await prisma.canvassWalkList.create({
+    data: {
+      territoryId,
+      canvasserId,
+      homesFound: homes.length,
+      skippedRecent: counts.recent,
+      skippedDoNotKnock: counts.dnk,
+      skippedCustomers: counts.customer,
+      stopCount: ordered.length,
+      distanceMeters: pathLength(ordered),
+      status: ordered.length ? "ACTIVE" : "DONE",
+    },
+  });
+  if (ordered.length) {
+    await prisma.canvassWalkStop.createMany({
+      data: ordered.map((h, i) => ({
+        walkListId: list.id, seq: i + 1, lat: h.lat, lng: h.lng,
+        address: h.address, city: h.city, zipCode: h.zipCode,
+      })),
+    });
+  }
+  return list;
+}
+
+/** Check off the walk-list stop a freshly dropped pin belongs to, if any. Best
+ *  effort — called from the visit upsert, never blocks saving the pin. */
+export async function recordWalkStopVisit(canvasserId: string, visit: { id: string; lat: number; lng: number }): Promise<void> {
+  const lists = await prisma.canvassWalkList.findMany({ where: { canvasserId, status: "ACTIVE" }, select: { id: true } });
+  if (!lists.length) return;
+  // Already matched (an edit of an existing pin)
+  if (await prisma.canvassWalkStop.findFirst({ where: { visitId: visit.id }, select: { id: true } })) return;
+
+  const stops: Array<{ id: string; walkListId: string; lat: number; lng: number }> = await prisma.canvassWalkStop.findMany({
+    where: {
+      walkListId: { in: lists.map((l: { id: string }) => l.id) },
+      status: { not: "KNOCKED" },
+      lat: { gte: visit.lat - 0.0005, lte: visit.lat + 0.0005 },
+      lng: { gte: visit.lng - 0.0006, lte: visit.lng + 0.0006 },
+    },
+    select: { id: true, walkListId: true, lat: true, lng: true },
+  });
+  const i = nearestHome(stops, visit);
+  if (i === -1) return;
+  const stop = stops[i];
+  await prisma.canvassWalkStop.update({ where: { id: stop.id }, data: { status: "KNOCKED", visitId: visit.id, doneAt: new Date() } });
+  await finishIfDone(stop.walkListId);
+}
+
+async function finishIfDone(walkListId: string): Promise<void> {
+  const pending = await prisma.canvassWalkStop.count({ where: { walkListId, status: "PENDING" } });
+  if (pending === 0) {
+    await prisma.canvassWalkList.updateMany({ where: { id: walkListId, status: "ACTIVE" }, data: { status: "DONE" } });
+  }
+}
+
+/** Skip a stop (nobody should knock — vacant, gated, dog in yard) or put it back. */
+export async function setWalkStopStatus(canvasserId: string, stopId: string, status: "SKIPPED" | "PENDING") {
+  const stop = await prisma.canvassWalkStop.findUnique({ where: { id: stopId } });
+  const list = stop ? await prisma.canvassWalkList.findUnique({ where: { id: stop.walkListId } }) : null;
+  if (!stop || !list || list.canvasserId !== canvasserId) throw new WalkListError("Stop not found", 404);
+  if (stop.status === "KNOCKED") throw new WalkListError("That door already has a pin.", 409);
+
+  const updated = await prisma.canvassWalkStop.update({
+    where: { id: stopId },
+    data: { status, doneAt: status === "SKIPPED" ? new Date() : null },
+  });
+  if (status === "SKIPPED") await finishIfDone(list.id);
+  else await prisma.canvassWalkList.updateMany({ where: { id: list.id, status: "DONE" }, data: { status: "ACTIVE" } });
+  return updated;
+}
+
+export interface WalkStopView {
+  id: string;
+  seq: number;
+  lat: number;
+  lng: number;
+  address: string | null;
+  city: string | null;
+  zipCode: string | null;
+  status: string;
+  visitId: string | null;
+}
+
+export interface TerritoryWalkView {
+  territory: { id: string; name: string; color: string; homeCount: number };
+  /** Doors knocked in the territory in the last COVERAGE_DAYS ÷ its home count, 0–1 */
+  coverage: number;
+  knockedRecently: number;
+  list: {
+    id: string;
+    status: string;
+    createdAt: string;
+    stopCount: number;
+    done: number;
+    knocked: number;
+    skipped: number;
+    /** 0–1 */
+    progress: number;
+    distanceMeters: number;
+    skippedRecent: number;
+    skippedDoNotKnock: number;
+    skippedCustomers: number;
+    stops: WalkStopView[];
+  } | null;
+}
+
+/** Each territory assigned to the canvasser with coverage and its latest walk list. */
+export async function canvasserWalkLists(canvasserId: string): Promise<TerritoryWalkView[]> {
+  const territories: Array<{ id: string; name: string; color: string; homeCount: number; polygon: unknown }> = await prisma.canvassTerritory.findMany({
+    where: { assignedCanvasserId: canvasserId, archived: false },
+    select: { id: true, name: true, color: true, homeCount: true, polygon: true },
+    orderBy: { createdAt: "desc" },
+  });
+  if (!territories.length) return [];
+
+  const lists: Array<{ id: string; territoryId: string; status: string; createdAt: Date; stopCount: number; distanceMeters: number; skippedRecent: number; skippedDoNotKnock: number; skippedCustomers: number }> =
+    await prisma.canvassWalkList.findMany({
+      where: { canvasserId, territoryId: { in: territories.map((t) => t.id) }, status: { in: ["ACTIVE", "DONE"] } },
+      orderBy: { createdAt: "desc" },
+    });
+  const latest = new Map<string, (typeof lists)[number]>();
+  for (const l of lists) if (!latest.has(l.territoryId)) latest.set(l.territoryId, l);
+
+  const stops: Array<WalkStopView & { walkListId: string }> = latest.size
+    ? await prisma.canvassWalkStop.findMany({
+        where: { walkListId: { in: [...latest.values()].map((l) => l.id) } },
+        orderBy: { seq: "asc" },
+      })
+    : [];
+
+  const since = new Date(Date.now() - COVERAGE_DAYS * 86_400_000);
+  const out: TerritoryWalkView[] = [];
+  for (const t of territories) {
+    const ring = ringIsValid(t.polygon) ? t.polygon : null;
+    let knockedRecently = 0;
+    if (ring) {
+      const box = bbox(ring);
+      const visits: Point[] = await prisma.canvassVisit.findMany({
+        where: { updatedAt: { gte: since }, lat: { gte: box.minLat, lte: box.maxLat }, lng: { gte: box.minLng, lte: box.maxLng } },
+        select: { lat: true, lng: true },
+      });
+      knockedRecently = visits.filter((v) => pointInRing(v.lng, v.lat, ring)).length;
+    }
+
+    const l = latest.get(t.id);
+    const listStops = l ? stops.filter((s) => s.walkListId === l.id) : [];
+    const knocked = listStops.filter((s) => s.status === "KNOCKED").length;
+    const skipped = listStops.filter((s) => s.status === "SKIPPED").length;
+    out.push({
+      territory: { id: t.id, name: t.name, color: t.color, homeCount: t.homeCount },
+      coverage: t.homeCount ? Math.min(1, knockedRecently / t.homeCount) : 0,
+      knockedRecently,
+      list: l
+        ? {
+            id: l.id,
+            status: l.status,
+            createdAt: l.createdAt.toISOString(),
+            stopCount: l.stopCount,
+            done: knocked + skipped,
+            knocked,
+            skipped,
+            progress: l.stopCount ? (knocked + skipped) / l.stopCount : 1,
+            distanceMeters: l.distanceMeters,
+            skippedRecent: l.skippedRecent,
+            skippedDoNotKnock: l.skippedDoNotKnock,
+            skippedCustomers: l.skippedCustomers,
+            stops: listStops.map((s) => ({
+              id: s.id, seq: s.seq, lat: s.lat, lng: s.lng, address: s.address, city: s.city,
+              zipCode: s.zipCode, status: s.status, visitId: s.visitId,
+            })),
+          }
+        : null,
+    });
+  }
+  return out;
+}
+
+/** Where a visit sits in its walk list — for the pin page's step-through. */
+export async function walkContextForVisit(canvasserId: string, visitId: string): Promise<{
+  territoryName: string;
+  seq: number;
+  stopCount: number;
+  done: number;
+  next: WalkStopView | null;
+} | null> {
+  const stop = await prisma.canvassWalkStop.findFirst({ where: { visitId } });
+  if (!stop) return null;
+  const list = await prisma.canvassWalkList.findUnique({ where: { id: stop.walkListId } });
+  if (!list || list.canvasserId !== canvasserId || list.status === "REPLACED") return null;
+  const [territory, done, next] = await Promise.all([
+    prisma.canvassTerritory.findUnique({ where: { id: list.territoryId }, select: { name: true } }),
+    prisma.canvassWalkStop.count({ where: { walkListId: list.id, status: { not: "PENDING" } } }),
+    prisma.canvassWalkStop.findFirst({ where: { walkListId: list.id, status: "PENDING" }, orderBy: { seq: "asc" } }),
+  ]);
+  return {
+    territoryName: territory?.name ?? "Territory",
+    seq: stop.seq,
+    stopCount: list.stopCount,
+    done,
+    next: next
+      ? { id: next.id, seq: next.seq, lat: next.lat, lng: next.lng, address: next.address, city: next.city, zipCode: next.zipCode, status: next.status, visitId: next.visitId }
+      : null,
+  };
+}
@@ -1,8 +1,10 @@
 import prisma from "@/lib/prisma";
 import { brevoSend, isBrevoConfigured, parseAddr } from "@/lib/brevo-email";
+import { reknockQueue, type ReknockItem } from "@/lib/canvass-reknock";
 
 // End-of-day recap emailed to each canvasser who worked that day: doors knocked,
-// the disposition breakdown, leads, homes to follow up, and their running totals.
+// the disposition breakdown, leads, homes to follow up, their running totals, and
+// tomorrow's plan (call-backs with their times + not-home doors due again).
 // Runs on a daily cron in the evening (Pacific). Deterministic — no AI dependency.
 
 const FROM = "DooGoodScoopers <service@doogoodscoopers.com>";
@@ -16,7 +18,7 @@ const STATUS_LABEL: Record<string, string> = {
 const ORDER = ["INTERESTED", "CALLBACK", "LEAD", "NOT_HOME", "NOT_INTERESTED", "DO_NOT_KNOCK"];
 
 /** Midnight (start of day) Pacific time, as a Date. */
-function ptDayStart(now = new Date()): Date {
+export function ptDayStart(now = new Date()): Date {
   const parts = Object.fromEntries(
     new Intl.DateTimeFormat("en-US", { timeZone: "America/Los_Angeles", hour12: false, year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit" })
       .formatToParts(now).filter((p) => p.type !== "literal").map((p) => [p.type, p.value])
@@ -27,9 +29,30 @@ function ptDayStart(now = new Date()): Date {
   return new Date(midnightWall - offsetMs);
 }
 
+const esc = (t: string) => t.replace(/[&<>"]/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" }[c]!));
+
+/** Tomorrow's re-knocks: call-backs by time, then a count of not-home doors. */
+function planHtml(plan: ReknockItem[]): string {
+  if (!plan.length) return "";
+  const callbacks = plan.filter((p) => p.status === "CALLBACK");
+  const notHome = plan.length - callbacks.length;
+  const rows = callbacks.slice(0, 12).map((p) => {
+    const time = (p.callbackAt ?? p.nextKnockAt).toLocaleTimeString("en-US", { timeZone: "America/Los_Angeles", hour: "numeric", minute: "2-digit" });
+    const where = esc([p.address, p.city].filter(Boolean).join(", ") || "Pinned door");
+    return `<div style="font-size:13px;color:#344054;padding:4px 0"><b>${time}</b> · ${where}</div>`;
+  }).join("");
+  return `<div style="background:#F5F3FF;border:1px solid #E9E3FF;border-radius:12px;padding:12px 14px;margin-bottom:14px">
+      <div style="font-size:13.5px;font-weight:800;color:#5B21B6;margin-bottom:4px">Tomorrow's re-knocks</div>
+      ${rows}
+      ${callbacks.length > 12 ? `<div style="font-size:12px;color:#667085">+${callbacks.length - 12} more call-backs</div>` : ""}
+      ${notHome ? `<div style="font-size:13px;color:#344054;padding-top:4px"><b>${notHome}</b> not-home door${notHome === 1 ? "" : "s"} due for another try.</div>` : ""}
+      <a href="${APP_URL}/app/canvasser/list" style="display:inline-block;margin-top:6px;font-size:12.5px;font-weight:700;color:#6D3EF0;text-decoration:none">Open your re-knock list →</a>
+    </div>`;
+}
+
 function digestHtml(name: string, s: {
   doorsToday: number; byDispoToday: Record<string, number>; leadsToday: number;
-  aiToday: number; followups: number; doorsAll: number; leadsAll: number; dateLabel: string;
+  aiToday: number; followups: number; doorsAll: number; leadsAll: number; dateLabel: string; plan: ReknockItem[];
 }): string {
   const chips = ORDER.filter((k) => s.byDispoToday[k]).map((k) =>
     `<span style="display:inline-block;background:#F2F4F7;border-radius:8px;padding:5px 10px;margin:0 6px 6px 0;font-size:13px;color:#344054"><b>${s.byDispoToday[k]}</b> ${STATUS_LABEL[k]}</span>`
@@ -50,6 +73,7 @@ function digestHtml(name: string, s: {
     </div>
     <div style="margin-bottom:14px">${chips || '<span style="font-size:13px;color:#98A2B3">No dispositions recorded.</span>'}</div>
     ${s.followups ? `<div style="background:#FFFAEB;border:1px solid #FEF0C7;border-radius:12px;padding:12px 14px;margin-bottom:14px;font-size:13.5px;color:#93370D"><b>${s.followups}</b> home${s.followups === 1 ? "" : "s"} to follow up (interested + call-backs). Hit those first tomorrow.</div>` : ""}
+    ${planHtml(s.plan)}
     ${s.aiToday ? `<div style="font-size:12.5px;color:#667085;margin-bottom:14px">🎙️ You captured AI notes at <b>${s.aiToday}</b> door${s.aiToday === 1 ? "" : "s"} today.</div>` : ""}
     <div style="font-size:12.5px;color:#667085;border-top:1px solid #EAECF0;padding-top:12px">All-time: <b>${s.doorsAll}</b> doors · <b>${s.leadsAll}</b> leads.</div>
     <a href="${APP_URL}/app/canvasser/ask" style="display:inline-block;margin-top:14px;font-size:13px;font-weight:700;color:#6D3EF0;text-decoration:none">Ask your AI coach about today →</a>
@@ -84,6 +108,8 @@ function teamHtml(rows: TeamRow[], dateLabel: string): string {
 
 export async function runCanvasserDaily(now = new Date()): Promise<{ sent: number; skipped: number; teamEmailed: boolean }> {
   const today = ptDayStart(now);
+  // Noon the day after tomorrow → that day's midnight = the end of tomorrow (DST-safe)
+  const endOfTomorrow = ptDayStart(new Date(today.getTime() + 60 * 60 * 60 * 1000));
   const dateLabel = new Intl.DateTimeFormat("en-US", { timeZone: "America/Los_Angeles", weekday: "long", month: "short", day: "numeric" }).format(now);
 
   const canvassers = await prisma.canvasser.findMany({ where: { active: true, passwordHash: { not: null } } });
@@ -101,7 +127,22 @@ export async function runCanvasserDaily(now = new Date()): Promise<{ sent: numbe
       prisma.canvasserLead.count({ where: scope }),
     ]);
 
-    if (doorsToday === 0) { skipped++; continue; } // only recap days they worked
+    const plan = await reknockQueue(c.id, endOfTomorrow);
+
+    // Only recap days they worked; on a day off, just send tomorrow's plan (if any)
+    if (doorsToday === 0) {
+      if (!plan.length || !isBrevoConfigured()) { skipped++; continue; }
+      const res = await brevoSend({
+        from: parseAddr(FROM),
+        to: [parseAddr(c.email)],
+        subject: `Your re-knocks for tomorrow`,
+        html: `<div style="font-family:-apple-system,Segoe UI,Roboto,Helvetica,Arial,sans-serif;max-width:520px;margin:0 auto;padding:8px">${planHtml(plan)}</div>`,
+        tags: ["canvasser-daily"],
+      });
+      if (res.error) { console.error("[canvasser-daily]", c.email, res.error); skipped++; }
+      else sent++;
+      continue;
+    }
 
     const byDispoToday: Record<string, number> = {};
     for (const d of dispoToday) byDispoToday[d.status] = d._count._all;
@@ -113,7 +154,7 @@ export async function runCanvasserDaily(now = new Date()): Promise<{ sent: numbe
       from: parseAddr(FROM),
       to: [parseAddr(c.email)],
       subject: `Your canvassing recap — ${dateLabel}`,
-      html: digestHtml(c.name, { doorsToday, byDispoToday, leadsToday, aiToday, followups, doorsAll, leadsAll, dateLabel }),
+      html: digestHtml(c.name, { doorsToday, byDispoToday, leadsToday, aiToday, followups, doorsAll, leadsAll, dateLabel, plan }),
       tags: ["canvasser-daily"],
     });
     if (res.error) { console.error("[canvasser-daily]", c.email, res.error); skipped++; }
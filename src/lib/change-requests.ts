@@ -0,0 +1,946 @@
+/**
+ * Client Change Requests
+ *
+ * Typed changes a client asks for from the portal: frequency, service day,
+ * add/remove a dog, add an add-on, gate code and cancel. Each request stores
+ * a snapshot of what it changes (current_value) and the change itself
+ * (requested_value). Approving one in /app/office/change-requests applies it
+ * through the same paths as the office editors: dog, add-on and location rows
+ * first, then a single updateSubscription() call that re-prices the visit and
+ * regenerates jobs. If any step fails the earlier writes are undone and the
+ * request goes back to the queue with apply_error set. A run that died
+ * partway (a timeout or crash) can't be undone, so its request is left for
+ * the office to check and resolve by hand rather than applied again.
+ *
+ * A frequency, service day or dog change made partway through an invoiced
+ * month is prorated onto the next invoice; previewChangeProration shows the
+ * amount before the client submits or the office approves.
+ *
+ * Other request types (address, billing, tech preference...) stay manual:
+ * the office marks them complete after making the change by hand.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { loadPricingContext, quotePrice, YARD_SIZES } from "./pricing-engine";
+import {
+  updateSubscription,
+  previewSubscriptionChange,
+  SubscriptionUpdateError,
+  type SubscriptionChanges,
+} from "./subscription-update";
+import type { ProrationPreview } from "./proration";
+import { sendClientNotification } from "./notifications";
+import { formatCentsToDollars } from "./stripe";
+
+export const APPLICABLE_CHANGE_TYPES = [
+  "CHANGE_FREQUENCY",
+  "CHANGE_SERVICE_DAY",
+  "ADD_DOG",
+  "REMOVE_DOG",
+  "ADD_ADD_ON",
+  "CHANGE_GATE_CODE",
+  "CANCEL_SERVICE",
+] as const;
+
+export type ApplicableChangeType = typeof APPLICABLE_CHANGE_TYPES[number];
+
+/** Statuses a request can still be applied (or withdrawn) from */
+const PENDING_STATUSES = ["OPEN", "IN_PROGRESS", "APPLYING"];
+
+// An APPLYING claim older than this was left by a run that timed out or
+// crashed, possibly after some of its writes; it needs manual resolution
+const APPLY_CLAIM_TIMEOUT_MS = 15 * 60 * 1000;
+
+const CLIENT_FREQUENCIES = ["WEEKLY", "BIWEEKLY", "MONTHLY"];
+const SERVICE_DAYS = ["MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY", "SATURDAY", "SUNDAY"];
+
+const FREQUENCY_LABELS: Record<string, string> = {
+  WEEKLY: "Weekly",
+  BIWEEKLY: "Every 2 Weeks",
+  MONTHLY: "Monthly",
+  ONETIME: "One-time",
+};
+
+export class ChangeRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "ChangeRequestError";
+    this.status = status;
+  }
+}
+
+export function isApplicableChange(type: string): type is ApplicableChangeType {
+  return (APPLICABLE_CHANGE_TYPES as readonly string[]).includes(type);
+}
+
+function dayLabel(day: string | null | undefined): string {
+  if (!day) return "no set day";
+  return day.charAt(0) + day.slice(1).toLowerCase();
+}
+
+function frequencyLabel(frequency: string | null | undefined): string {
+  return (frequency && FREQUENCY_LABELS[frequency]) || frequency || "none";
+}
+
+// ── Creating requests ────────────────────────────────────────────────────────
+
+export interface ClientChangeInput {
+  type: string;
+  subscriptionId?: string | null;
+  locationId?: string | null;
+  /** The change itself; shape depends on type (see buildRequest) */
+  value: Record<string, unknown>;
+  description?: string | null;
+  userId: string;
+}
+
+interface BuiltRequest {
+  subscriptionId: string | null;
+  locationId: string | null;
+  title: string;
+  currentValue: Record<string, unknown>;
+  requestedValue: Record<string, unknown>;
+  /** requested_value key that makes two open requests of this type the same */
+  dedupeKey: string | null;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function loadClientSubscription(supabase: SupabaseClient, clientId: string, subscriptionId: string | null | undefined): Promise<any> {
+  const query = supabase
+    .from("subscriptions")
+    .select("*")
+    .eq("client_id", clientId);
+
+  if (subscriptionId) {
+    query.eq("id", subscriptionId);
+  } else {
+    query.in("status", ["ACTIVE", "PAUSED"]).order("created_at", { ascending: false }).limit(1);
+  }
+
+  const { data } = await query.maybeSingle();
+  return data;
+}
+
+async function countActiveDogs(
+  supabase: SupabaseClient,
+  clientId: string,
+  locationId: string | null
+): Promise<number> {
+  const query = supabase
+    .from("dogs")
+    .select("id", { count: "exact", head: true })
+    .eq("client_id", clientId)
+    .eq("is_active", true);
+
+  // Dogs without a location belong to every yard the client has
+  if (locationId) {
+    query.or(`location_id.eq.${locationId},location_id.is.null`);
+  }
+
+  const { count } = await query;
+  return count || 0;
+}
+
+function cleanText(value: unknown, max = 200): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed ? trimmed.slice(0, max) : null;
+}
+
+async function buildRequest(
+  supabase: SupabaseClient,
+  client: { id: string; org_id: string },
+  input: ClientChangeInput
+): Promise<BuiltRequest> {
+  const value = input.value || {};
+
+  switch (input.type) {
+    case "CHANGE_FREQUENCY": {
+      const frequency = value.frequency as string;
+      if (!CLIENT_FREQUENCIES.includes(frequency)) {
+        throw new ChangeRequestError("Invalid frequency");
+      }
+      const sub = await loadClientSubscription(supabase, client.id, input.subscriptionId);
+      if (!sub || !["ACTIVE", "PAUSED"].includes(sub.status)) {
+        throw new ChangeRequestError("No active subscription found", 404);
+      }
+      if (sub.frequency === frequency) {
+        throw new ChangeRequestError(`Your service is already ${frequencyLabel(frequency).toLowerCase()}`);
+      }
+      return {
+        subscriptionId: sub.id,
+        locationId: sub.location_id,
+        title: `Change frequency to ${frequencyLabel(frequency)}`,
+        currentValue: { frequency: sub.frequency },
+        requestedValue: { frequency },
+        dedupeKey: null,
+      };
+    }
+
+    case "CHANGE_SERVICE_DAY": {
+      const preferredDay = value.preferredDay as string;
+      if (!SERVICE_DAYS.includes(preferredDay)) {
+        throw new ChangeRequestError("Invalid service day");
+      }
+      const sub = await loadClientSubscription(supabase, client.id, input.subscriptionId);
+      if (!sub || !["ACTIVE", "PAUSED"].includes(sub.status)) {
+        throw new ChangeRequestError("No active subscription found", 404);
+      }
+      if (sub.preferred_day === preferredDay) {
+        throw new ChangeRequestError(`Your service is already on ${dayLabel(preferredDay)}`);
+      }
+      return {
+        subscriptionId: sub.id,
+        locationId: sub.location_id,
+        title: `Change service day to ${dayLabel(preferredDay)}`,
+        currentValue: { preferredDay: sub.preferred_day },
+        requestedValue: { preferredDay },
+        dedupeKey: null,
+      };
+    }
+
+    case "ADD_DOG": {
+      const name = cleanText(value.name, 100);
+      if (!name) {
+        throw new ChangeRequestError("Dog name is required");
+      }
+      const sub = await loadClientSubscription(supabase, client.id, input.subscriptionId);
+      const locationId = sub?.location_id || null;
+      return {
+        subscriptionId: sub?.id || null,
+        locationId,
+        title: `Add dog: ${name}`,
+        currentValue: { dogCount: await countActiveDogs(supabase, client.id, locationId) },
+        requestedValue: {
+          name,
+          breed: cleanText(value.breed, 100),
+          isSafe: value.isSafe !== false,
+          safetyNotes: cleanText(value.safetyNotes, 500),
+        },
+        dedupeKey: "name",
+      };
+    }
+
+    case "REMOVE_DOG": {
+      const dogId = value.dogId as string;
+      if (!dogId) {
+        throw new ChangeRequestError("dogId is required");
+      }
+      const { data: dog } = await supabase
+        .from("dogs")
+        .select("id, name, location_id, is_active")
+        .eq("id", dogId)
+        .eq("client_id", client.id)
+        .single();
+
+      if (!dog || !dog.is_active) {
+        throw new ChangeRequestError("Dog not found", 404);
+      }
+      const sub = await loadClientSubscription(supabase, client.id, input.subscriptionId);
+      const locationId = dog.location_id || sub?.location_id || null;
+      return {
+        subscriptionId: sub?.id || null,
+        locationId,
+        title: `Remove dog: ${dog.name}`,
+        currentValue: { dogCount: await countActiveDogs(supabase, client.id, locationId), dogActive: true },
+        requestedValue: { dogId: dog.id, name: dog.name },
+        dedupeKey: "dogId",
+      };
+    }
+
+    case "ADD_ADD_ON": {
+      const addOnId = value.addOnId as string;
+      const { data: addOn } = await supabase
+        .from("add_ons")
+        .select("id, name, is_active")
+        .eq("id", addOnId || "")
+        .eq("org_id", client.org_id)
+        .maybeSingle();
+
+      if (!addOn || !addOn.is_active) {
+        throw new ChangeRequestError("Add-on not found", 404);
+      }
+      const sub = await loadClientSubscription(supabase, client.id, input.subscriptionId);
+      if (!sub || !["ACTIVE", "PAUSED"].includes(sub.status)) {
+        throw new ChangeRequestError("No active subscription found", 404);
+      }
+      const { data: existing } = await supabase
+        .from("subscription_add_ons")
+        .select("add_on_id")
+        .eq("subscription_id", sub.id);
+      const addOnIds = (existing || []).map((row) => row.add_on_id);
+      if (addOnIds.includes(addOn.id)) {
+        throw new ChangeRequestError(`${addOn.name} is already on your service`);
+      }
+      return {
+        subscriptionId: sub.id,
+        locationId: sub.location_id,
+        title: `Add ${addOn.name}`,
+        currentValue: { addOnIds },
+        requestedValue: { addOnId: addOn.id, name: addOn.name },
+        dedupeKey: "addOnId",
+      };
+    }
+
+    case "CHANGE_GATE_CODE": {
+      const { data: location } = await supabase
+        .from("locations")
+        .select("id, gate_code")
+        .eq("id", input.locationId || "")
+        .eq("client_id", client.id)
+        .maybeSingle();
+
+      if (!location) {
+        throw new ChangeRequestError("Location not found", 404);
+      }
+      const gateCode = cleanText(value.gateCode, 50);
+      if (gateCode === (location.gate_code || null)) {
+        throw new ChangeRequestError("That is already your gate code");
+      }
+      return {
+        subscriptionId: null,
+        locationId: location.id,
+        title: gateCode ? "Update gate code" : "Remove gate code",
+        currentValue: { gateCode: location.gate_code || null },
+        requestedValue: { gateCode },
+        dedupeKey: null,
+      };
+    }
+
+    case "CANCEL_SERVICE": {
+      const sub = await loadClientSubscription(supabase, client.id, input.subscriptionId);
+      if (!sub || sub.status === "CANCELED") {
+        throw new ChangeRequestError("No active subscription found", 404);
+      }
+      return {
+        subscriptionId: sub.id,
+        locationId: sub.location_id,
+        title: "Cancel service",
+        currentValue: { status: sub.status },
+        requestedValue: { reason: cleanText(value.reason, 500) },
+        dedupeKey: null,
+      };
+    }
+
+    default:
+      throw new ChangeRequestError("Invalid request type");
+  }
+}
+
+/**
+ * Queue a typed change from the client portal. Rejects a second pending
+ * request for the same change (same subscription or location, or the same
+ * dog / add-on) with 409.
+ */
+export async function createClientChangeRequest(
+  supabase: SupabaseClient,
+  client: { id: string; org_id: string },
+  input: ClientChangeInput
+) {
+  const built = await buildRequest(supabase, client, input);
+
+  const { data: pending } = await supabase
+    .from("change_requests")
+    .select("id, subscription_id, location_id, requested_value")
+    .eq("client_id", client.id)
+    .eq("request_type", input.type)
+    .in("status", PENDING_STATUSES);
+
+  const duplicate = (pending || []).some((req) => {
+    if (built.dedupeKey) {
+      return req.requested_value?.[built.dedupeKey] === built.requestedValue[built.dedupeKey];
+    }
+    return built.subscriptionId
+      ? req.subscription_id === built.subscriptionId
+      : req.location_id === built.locationId;
+  });
+
+  if (duplicate) {
+    throw new ChangeRequestError("You already have a pending request for this change", 409);
+  }
+
+  const { data: changeRequest, error } = await supabase
+    .from("change_requests")
+    .insert({
+      org_id: client.org_id,
+      client_id: client.id,
+      subscription_id: built.subscriptionId,
+      location_id: built.locationId,
+      request_type: input.type,
+      title: built.title,
+      description: cleanText(input.description, 1000),
+      current_value: built.currentValue,
+      requested_value: built.requestedValue,
+      status: "OPEN",
+      source: "CLIENT",
+      requested_by: input.userId,
+    })
+    .select()
+    .single();
+
+  if (error || !changeRequest) {
+    console.error("Error creating change request:", error);
+    throw new ChangeRequestError("Failed to submit request", 500);
+  }
+
+  return changeRequest;
+}
+
+// ── Applying requests ────────────────────────────────────────────────────────
+
+export interface AppliedChange {
+  entityType: "SUBSCRIPTION" | "DOG" | "SUBSCRIPTION_ADD_ON" | "LOCATION";
+  entityId: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+export interface ApplyResult {
+  changes: AppliedChange[];
+  priceBeforeCents: number | null;
+  priceAfterCents: number | null;
+  jobsVoided: number;
+  jobsGenerated: number;
+  jobsRepriced: number;
+  /** Charged (or credited, if negative) on the next invoice */
+  prorationCents: number | null;
+}
+
+type Undo = () => PromiseLike<unknown>;
+
+/** Whether a request is being applied right now (an APPLYING claim that isn't stale) */
+export function isBeingApplied(request: { status: string; applying_at?: string | null }): boolean {
+  if (request.status !== "APPLYING") return false;
+  if (!request.applying_at) return false;
+  return Date.now() - new Date(request.applying_at).getTime() < APPLY_CLAIM_TIMEOUT_MS;
+}
+
+/** Whether an apply never finished (a stale APPLYING claim) and the office has to resolve it by hand */
+export function needsManualResolution(request: { status: string; applying_at?: string | null }): boolean {
+  return request.status === "APPLYING" && !isBeingApplied(request);
+}
+
+/**
+ * Approve and apply a client change request. The request is claimed
+ * (APPLYING) first so two office users can't apply it twice, and refused
+ * with 409 if the account no longer matches the snapshot it was made from.
+ * A claim left by a run that never finished is never retried: some of its
+ * writes (a new dog, say) may have landed, so it goes to manual resolution.
+ */
+export async function applyChangeRequest(
+  supabase: SupabaseClient,
+  options: { orgId: string; requestId: string; userId: string; notes?: string | null }
+): Promise<ApplyResult> {
+  const { orgId, requestId, userId } = options;
+
+  const { data: request } = await supabase
+    .from("change_requests")
+    .select("*")
+    .eq("id", requestId)
+    .eq("org_id", orgId)
+    .single();
+
+  if (!request) {
+    throw new ChangeRequestError("Change request not found", 404);
+  }
+  if (!isApplicableChange(request.request_type)) {
+    throw new ChangeRequestError("This request type has to be handled manually");
+  }
+  if (isBeingApplied(request)) {
+    throw new ChangeRequestError("This request is already being applied", 409);
+  }
+  if (needsManualResolution(request)) {
+    throw new ChangeRequestError(
+      "An earlier apply of this request never finished; check the account and resolve it by hand",
+      409
+    );
+  }
+  if (!PENDING_STATUSES.includes(request.status)) {
+    throw new ChangeRequestError("This request is already resolved", 409);
+  }
+
+  const previousStatus = request.status;
+
+  // Claim it so a second approval can't apply it again
+  const { data: claimed } = await supabase
+    .from("change_requests")
+    .update({ status: "APPLYING", applying_at: new Date().toISOString(), apply_error: null })
+    .eq("id", requestId)
+    .eq("status", request.status)
+    .select("id");
+
+  if (!claimed || claimed.length === 0) {
+    throw new ChangeRequestError("This request is already being applied", 409);
+  }
+
+  const undo: Undo[] = [];
+
+  try {
+    const result = await applyChange(supabase, orgId, request, userId, undo);
+
+    const now = new Date().toISOString();
+    await supabase
+      .from("change_requests")
+      .update({
+        status: "COMPLETED",
+        resolved_at: now,
+        resolved_by: userId,
+        applied_at: now,
+        applied_by: userId,
+        apply_result: result,
+        apply_error: null,
+        resolution_notes: options.notes ?? request.resolution_notes ?? null,
+      })
+      .eq("id", requestId);
+
+    await supabase.from("audit_log").insert(
+      result.changes.map((change) => ({
+        org_id: orgId,
+        user_id: userId,
+        action: `CHANGE_REQUEST_${request.request_type}`,
+        entity_type: change.entityType,
+        entity_id: change.entityId,
+        old_values: change.before,
+        new_values: change.after ? { ...change.after, change_request_id: requestId } : { change_request_id: requestId },
+      }))
+    );
+
+    await notifyClient(supabase, orgId, request, result);
+
+    return result;
+  } catch (error) {
+    for (const step of undo.reverse()) {
+      try {
+        await step();
+      } catch (undoError) {
+        console.error("Error undoing change request step:", undoError);
+      }
+    }
+
+    const message = error instanceof Error ? error.message : "Failed to apply change";
+    await supabase
+      .from("change_requests")
+      .update({ status: previousStatus, applying_at: null, apply_error: message })
+      .eq("id", requestId);
+
+    if (error instanceof ChangeRequestError) throw error;
+    if (error instanceof SubscriptionUpdateError) {
+      throw new ChangeRequestError(error.message, error.status);
+    }
+    console.error("Error applying change request:", error);
+    throw new ChangeRequestError("Failed to apply change", 500);
+  }
+}
+
+async function applyChange(
+  supabase: SupabaseClient,
+  orgId: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  request: any,
+  userId: string,
+  undo: Undo[]
+): Promise<ApplyResult> {
+  const type = request.request_type as ApplicableChangeType;
+  const requested = request.requested_value || {};
+  const current = request.current_value || {};
+  const changes: AppliedChange[] = [];
+  const drifted = (what: string) =>
+    new ChangeRequestError(`The ${what} has changed since this request was made; review it and update it by hand`, 409);
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let sub: any = null;
+  if (request.subscription_id) {
+    const { data } = await supabase
+      .from("subscriptions")
+      .select("*")
+      .eq("id", request.subscription_id)
+      .eq("org_id", orgId)
+      .single();
+    sub = data;
+  }
+
+  const needsSubscription = ["CHANGE_FREQUENCY", "CHANGE_SERVICE_DAY", "ADD_ADD_ON", "CANCEL_SERVICE"].includes(type);
+  if (needsSubscription && !sub) {
+    throw new ChangeRequestError("Subscription not found", 404);
+  }
+
+  const subChanges: SubscriptionChanges = {};
+  let reprice = false;
+  let dogsChanged = false;
+
+  switch (type) {
+    case "CHANGE_FREQUENCY":
+      if (sub.frequency !== current.frequency) throw drifted("service frequency");
+      subChanges.frequency = requested.frequency;
+      reprice = true;
+      break;
+
+    case "CHANGE_SERVICE_DAY":
+      if (sub.preferred_day !== current.preferredDay) throw drifted("service day");
+      subChanges.preferred_day = requested.preferredDay;
+      break;
+
+    case "CANCEL_SERVICE":
+      if (sub.status === "CANCELED") throw drifted("subscription");
+      subChanges.status = "CANCELED";
+      subChanges.cancel_reason = requested.reason || null;
+      break;
+
+    case "ADD_DOG": {
+      const { data: dog, error } = await supabase
+        .from("dogs")
+        .insert({
+          org_id: orgId,
+          client_id: request.client_id,
+          location_id: request.location_id || null,
+          name: requested.name,
+          breed: requested.breed || null,
+          is_safe: requested.isSafe !== false,
+          safety_notes: requested.safetyNotes || null,
+        })
+        .select("id, name, breed, is_safe, safety_notes, location_id, is_active")
+        .single();
+
+      if (error || !dog) throw new Error("Failed to add dog");
+      undo.push(() => supabase.from("dogs").delete().eq("id", dog.id));
+      changes.push({ entityType: "DOG", entityId: dog.id, before: null, after: dog });
+      reprice = true;
+      dogsChanged = true;
+      break;
+    }
+
+    case "REMOVE_DOG": {
+      const { data: dog } = await supabase
+        .from("dogs")
+        .select("id, name, is_active")
+        .eq("id", requested.dogId)
+        .eq("client_id", request.client_id)
+        .single();
+
+      if (!dog || !dog.is_active) throw drifted("dog");
+      const { error } = await supabase.from("dogs").update({ is_active: false }).eq("id", dog.id);
+      if (error) throw new Error("Failed to remove dog");
+      undo.push(() => supabase.from("dogs").update({ is_active: true }).eq("id", dog.id));
+      changes.push({ entityType: "DOG", entityId: dog.id, before: { is_active: true }, after: { is_active: false } });
+      reprice = true;
+      dogsChanged = true;
+      break;
+    }
+
+    case "ADD_ADD_ON": {
+      const { data: addOn } = await supabase
+        .from("add_ons")
+        .select("id, name, price_cents, price_type, is_active")
+        .eq("id", requested.addOnId)
+        .eq("org_id", orgId)
+        .single();
+
+      if (!addOn || !addOn.is_active) throw new ChangeRequestError("Add-on is no longer offered", 409);
+
+      const { data: onSub } = await supabase
+        .from("subscription_add_ons")
+        .select("id")
+        .eq("subscription_id", sub.id)
+        .eq("add_on_id", addOn.id);
+      if (onSub && onSub.length > 0) throw drifted("add-on list");
+
+      const dogs = addOn.price_type === "PER_DOG"
+        ? Math.max(1, await countActiveDogs(supabase, request.client_id, sub.location_id))
+        : 1;
+      const { data: row, error } = await supabase
+        .from("subscription_add_ons")
+        .insert({
+          org_id: orgId,
+          subscription_id: sub.id,
+          add_on_id: addOn.id,
+          quantity: 1,
+          price_cents: addOn.price_cents * dogs,
+        })
+        .select("id, add_on_id, quantity, price_cents")
+        .single();
+
+      if (error || !row) throw new Error("Failed to add add-on");
+      undo.push(() => supabase.from("subscription_add_ons").delete().eq("id", row.id));
+      changes.push({ entityType: "SUBSCRIPTION_ADD_ON", entityId: row.id, before: null, after: row });
+      break;
+    }
+
+    case "CHANGE_GATE_CODE": {
+      const { data: location } = await supabase
+        .from("locations")
+        .select("id, gate_code")
+        .eq("id", request.location_id)
+        .eq("client_id", request.client_id)
+        .single();
+
+      if (!location) throw new ChangeRequestError("Location not found", 404);
+      if ((location.gate_code || null) !== (current.gateCode ?? null)) throw drifted("gate code");
+
+      const { error } = await supabase
+        .from("locations")
+        .update({ gate_code: requested.gateCode || null })
+        .eq("id", location.id);
+      if (error) throw new Error("Failed to update gate code");
+      undo.push(() => supabase.from("locations").update({ gate_code: location.gate_code }).eq("id", location.id));
+      changes.push({
+        entityType: "LOCATION",
+        entityId: location.id,
+        before: { gate_code: location.gate_code || null },
+        after: { gate_code: requested.gateCode || null },
+      });
+      break;
+    }
+  }
+
+  // Re-price from the pricing engine when the price inputs changed
+  if (reprice && sub && sub.status !== "CANCELED" && !sub.metadata?.is_no_dogs) {
+    const dogCount = await countActiveDogs(supabase, request.client_id, sub.location_id);
+    const perVisitCents = await quoteVisitPrice(supabase, orgId, sub, dogCount, subChanges.frequency || sub.frequency);
+    if (perVisitCents !== null) {
+      subChanges.price_per_visit_cents = perVisitCents;
+    }
+
+    if (dogsChanged) {
+      subChanges.metadata = { dog_count: dogCount };
+      await repricePerDogAddOns(supabase, sub.id, Math.max(1, dogCount), changes, undo);
+    }
+  }
+
+  let priceBeforeCents: number | null = sub?.price_per_visit_cents ?? null;
+  let priceAfterCents = priceBeforeCents;
+  let jobsVoided = 0;
+  let jobsGenerated = 0;
+  let jobsRepriced = 0;
+  let prorationCents: number | null = null;
+
+  // The subscription goes last: nothing after it can fail and need undoing
+  if (sub && Object.keys(subChanges).length > 0) {
+    const before: Record<string, unknown> = {};
+    for (const key of Object.keys(subChanges)) {
+      before[key] = key === "cancel_reason" ? sub.cancel_reason : sub[key];
+    }
+
+    const result = await updateSubscription(supabase, orgId, sub, subChanges, {
+      regenerate: true,
+      prorate: { changeRequestId: request.id, userId },
+    });
+
+    const after: Record<string, unknown> = {};
+    for (const key of Object.keys(subChanges)) {
+      after[key] = result.subscription[key];
+    }
+    if (JSON.stringify(result.subscription.recurrence) !== JSON.stringify(sub.recurrence)) {
+      before.recurrence = sub.recurrence;
+      after.recurrence = result.subscription.recurrence;
+    }
+    changes.push({ entityType: "SUBSCRIPTION", entityId: sub.id, before, after });
+
+    priceBeforeCents = sub.price_per_visit_cents;
+    priceAfterCents = result.subscription.price_per_visit_cents;
+    jobsVoided = result.jobsVoided;
+    jobsGenerated = result.jobsGenerated;
+    jobsRepriced = result.jobsRepriced;
+    prorationCents = result.proration?.amountCents ?? null;
+  }
+
+  return { changes, priceBeforeCents, priceAfterCents, jobsVoided, jobsGenerated, jobsRepriced, prorationCents };
+}
+
+/** The per-visit price the pricing engine quotes for a subscription, or null if not configured */
+async function quoteVisitPrice(
+  supabase: SupabaseClient,
+  orgId: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  sub: any,
+  dogCount: number,
+  frequency: string
+): Promise<number | null> {
+  const { data: location } = await supabase
+    .from("locations")
+    .select("zip_code, lot_size")
+    .eq("id", sub.location_id)
+    .single();
+
+  const yardSize = YARD_SIZES.some((y) => y.value === location?.lot_size) ? location?.lot_size : null;
+  const quote = quotePrice(await loadPricingContext(supabase, orgId), {
+    zipCode: location?.zip_code,
+    dogs: dogCount,
+    frequency,
+    yardSize,
+  });
+
+  return !quote.priceNotConfigured && quote.perVisitCents > 0 ? quote.perVisitCents : null;
+}
+
+/** PER_DOG add-ons are priced for the dog count at the time they were added */
+async function repricePerDogAddOns(
+  supabase: SupabaseClient,
+  subscriptionId: string,
+  dogs: number,
+  changes: AppliedChange[],
+  undo: Undo[]
+) {
+  const { data: rows } = await supabase
+    .from("subscription_add_ons")
+    .select("id, price_cents, add_on:add_on_id (price_cents, price_type)")
+    .eq("subscription_id", subscriptionId);
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  for (const row of (rows || []) as any[]) {
+    if (row.add_on?.price_type !== "PER_DOG") continue;
+    const price = row.add_on.price_cents * dogs;
+    if (price === row.price_cents) continue;
+
+    const { error } = await supabase.from("subscription_add_ons").update({ price_cents: price }).eq("id", row.id);
+    if (error) throw new Error("Failed to re-price add-ons");
+    undo.push(() => supabase.from("subscription_add_ons").update({ price_cents: row.price_cents }).eq("id", row.id));
+    changes.push({
+      entityType: "SUBSCRIPTION_ADD_ON",
+      entityId: row.id,
+      before: { price_cents: row.price_cents },
+      after: { price_cents: price },
+    });
+  }
+}
+
+/** e.g. "your service day is now Tuesday" */
+export function describeAppliedChange(type: string, requested: Record<string, unknown>): string {
+  switch (type) {
+    case "CHANGE_FREQUENCY":
+      return `your service is now ${frequencyLabel(requested.frequency as string).toLowerCase()}`;
+    case "CHANGE_SERVICE_DAY":
+      return `your service day is now ${dayLabel(requested.preferredDay as string)}`;
+    case "ADD_DOG":
+      return `${requested.name} has been added to your account`;
+    case "REMOVE_DOG":
+      return `${requested.name} has been removed from your account`;
+    case "ADD_ADD_ON":
+      return `${requested.name} has been added to your service`;
+    case "CHANGE_GATE_CODE":
+      return requested.gateCode ? "your gate code has been updated" : "your gate code has been removed";
+    case "CANCEL_SERVICE":
+      return "your service has been canceled";
+    default:
+      return "your account has been updated";
+  }
+}
+
+async function notifyClient(
+  supabase: SupabaseClient,
+  orgId: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  request: any,
+  result: ApplyResult
+) {
+  try {
+    const { data: client } = await supabase
+      .from("clients")
+      .select("id, first_name, phone, email")
+      .eq("id", request.client_id)
+      .single();
+
+    if (!client) return;
+
+    const priceChanged =
+      result.priceAfterCents !== null && result.priceAfterCents !== result.priceBeforeCents;
+    const newPrice = result.priceAfterCents !== null ? `$${formatCentsToDollars(result.priceAfterCents)}` : "";
+
+    await sendClientNotification({
+      orgId,
+      clientId: client.id,
+      type: "CHANGE_APPLIED",
+      phone: client.phone || undefined,
+      email: client.email || undefined,
+      variables: {
+        client_name: client.first_name || "there",
+        change_summary: describeAppliedChange(request.request_type, request.requested_value || {}),
+        new_price: newPrice,
+        price_prompt: (priceChanged ? ` Your new price is ${newPrice} per visit.` : "") +
+          (result.prorationCents
+            ? ` Your next invoice includes a $${formatCentsToDollars(Math.abs(result.prorationCents))} ` +
+              `${result.prorationCents > 0 ? "charge" : "credit"} for the rest of this month.`
+            : ""),
+      },
+    });
+  } catch (error) {
+    // The change is made; a failed notice shouldn't undo it
+    console.error("Error sending change applied notice:", error);
+  }
+}
+
+// ── Previewing proration ─────────────────────────────────────────────────────
+
+/**
+ * The proration approving a request would record, without changing
+ * anything. Dog requests are priced for the dog count after the change.
+ * Null when the request doesn't change the subscription's plan.
+ */
+export async function previewChangeProration(
+  supabase: SupabaseClient,
+  orgId: string,
+  request: {
+    request_type: string;
+    requested_value: Record<string, unknown> | null;
+    client_id: string;
+    subscription_id: string | null;
+  }
+): Promise<ProrationPreview | null> {
+  if (!request.subscription_id) return null;
+
+  const { data: sub } = await supabase
+    .from("subscriptions")
+    .select("*")
+    .eq("id", request.subscription_id)
+    .eq("org_id", orgId)
+    .single();
+  if (!sub) return null;
+
+  const requested = request.requested_value || {};
+  const subChanges: SubscriptionChanges = {};
+  let dogDelta: number | null = null;
+
+  switch (request.request_type) {
+    case "CHANGE_FREQUENCY":
+      subChanges.frequency = requested.frequency as string;
+      dogDelta = 0;
+      break;
+    case "CHANGE_SERVICE_DAY":
+      subChanges.preferred_day = requested.preferredDay as string;
+      break;
+    case "ADD_DOG":
+      dogDelta = 1;
+      break;
+    case "REMOVE_DOG":
+      dogDelta = -1;
+      break;
+    default:
+      return null;
+  }
+
+  if (dogDelta !== null && sub.status !== "CANCELED" && !sub.metadata?.is_no_dogs) {
+    const dogCount = Math.max(0, (await countActiveDogs(supabase, request.client_id, sub.location_id)) + dogDelta);
+    const perVisitCents = await quoteVisitPrice(supabase, orgId, sub, dogCount, subChanges.frequency || sub.frequency);
+    if (perVisitCents !== null) {
+      subChanges.price_per_visit_cents = perVisitCents;
+    }
+  }
+
+  return previewSubscriptionChange(supabase, orgId, sub, subChanges);
+}
+
+/** Preview a change from the client portal before it is submitted */
+export async function previewClientChangeRequest(
+  supabase: SupabaseClient,
+  client: { id: string; org_id: string },
+  input: ClientChangeInput
+): Promise<ProrationPreview | null> {
+  const built = await buildRequest(supabase, client, input);
+  return previewChangeProration(supabase, client.org_id, {
+    request_type: input.type,
+    requested_value: built.requestedValue,
+    client_id: client.id,
+    subscription_id: built.subscriptionId,
+  });
+}
@@ -0,0 +1,501 @@
+/**
+ * Credit Ledger
+ *
+ * A client's prepaid and earned balances, drawn down automatically when an
+ * invoice is generated (the monthly cron, office one-off invoices and a new
+ * subscription's first invoice) in a fixed order:
+ *
+ *   1. Gift cards — gift_certificates assigned to the client, soonest to
+ *      expire first, and gift balances already moved onto the account
+ *      (account_credits with source GIFT_CERTIFICATE)
+ *   2. Referral credits (account_credits with source REFERRAL)
+ *   3. Goodwill credits — every other account credit (adjustments, refunds,
+ *      promos)
+ *
+ * Oldest first within a tier. The amount drawn goes on the invoice as a
+ * discount. Every draw is a credit_applications row; gift card draws also
+ * write gift_certificate_redemptions, and a referral credit that is used up
+ * marks its referral_rewards row redeemed. Voiding an invoice puts its
+ * credits back.
+ *
+ * clients.account_credit_cents is kept as the referral + goodwill balance.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+
+export type CreditTier = "GIFT" | "REFERRAL" | "GOODWILL";
+
+const TIER_ORDER: CreditTier[] = ["GIFT", "REFERRAL", "GOODWILL"];
+const GIFT_SOURCES = ["GIFT_CERTIFICATE", "GIFT"];
+
+export interface CreditSource {
+  kind: "GIFT_CERTIFICATE" | "ACCOUNT_CREDIT";
+  id: string;
+  tier: CreditTier;
+  balanceCents: number;
+  label: string;
+  referenceId: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+export interface CreditBalance {
+  giftCents: number;
+  referralCents: number;
+  goodwillCents: number;
+  totalCents: number;
+}
+
+export interface CreditDraw {
+  tier: CreditTier;
+  label: string;
+  amountCents: number;
+}
+
+export function creditTier(source: string | null): CreditTier {
+  if (source && GIFT_SOURCES.includes(source)) return "GIFT";
+  if (source === "REFERRAL") return "REFERRAL";
+  return "GOODWILL";
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  GIFT_CERTIFICATE: "Gift certificate",
+  GIFT: "Gift",
+  REFERRAL: "Referral credit",
+  ADJUSTMENT: "Account credit",
+  REFUND: "Refund credit",
+  PROMO: "Promotional credit",
+  CARRYOVER: "Carried-over invoice credit",
+};
+
+/**
+ * Everything the client can draw on, in the order it is drawn
+ */
+export async function loadCreditSources(
+  supabase: SupabaseClient,
+  orgId: string,
+  clientId: string
+): Promise<CreditSource[]> {
+  const today = new Date().toISOString().split("T")[0];
+
+  const [{ data: certificates }, { data: credits }] = await Promise.all([
+    supabase
+      .from("gift_certificates")
+      .select("id, code, balance_cents, expires_at, created_at")
+      .eq("org_id", orgId)
+      .eq("client_id", clientId)
+      .eq("status", "ACTIVE")
+      .gt("balance_cents", 0),
+    supabase
+      .from("account_credits")
+      .select("id, source, reason, balance_cents, reference_id, created_at")
+      .eq("org_id", orgId)
+      .eq("client_id", clientId)
+      .gt("balance_cents", 0),
+  ]);
+
+  const sources: CreditSource[] = [
+    ...(certificates || [])
+      .filter((cert) => !cert.expires_at || cert.expires_at >= today)
+      .map((cert) => ({
+        kind: "GIFT_CERTIFICATE" as const,
+        id: cert.id,
+        tier: "GIFT" as const,
+        balanceCents: cert.balance_cents,
+        label: `Gift certificate ${cert.code}`,
+        referenceId: null,
+        expiresAt: cert.expires_at,
+        createdAt: cert.created_at,
+      })),
+    ...(credits || []).map((credit) => ({
+      kind: "ACCOUNT_CREDIT" as const,
+      id: credit.id,
+      tier: creditTier(credit.source),
+      balanceCents: credit.balance_cents,
+      label: credit.reason || SOURCE_LABELS[credit.source] || "Account credit",
+      referenceId: credit.reference_id,
+      expiresAt: null,
+      createdAt: credit.created_at,
+    })),
+  ];
+
+  return sources.sort((a, b) =>
+    TIER_ORDER.indexOf(a.tier) - TIER_ORDER.indexOf(b.tier) ||
+    (a.expiresAt || "9999").localeCompare(b.expiresAt || "9999") ||
+    a.createdAt.localeCompare(b.createdAt)
+  );
+}
+
+export async function getCreditBalance(
+  supabase: SupabaseClient,
+  orgId: string,
+  clientId: string
+): Promise<CreditBalance> {
+  const sources = await loadCreditSources(supabase, orgId, clientId);
+  const sum = (tier: CreditTier) =>
+    sources.filter((s) => s.tier === tier).reduce((total, s) => total + s.balanceCents, 0);
+  const giftCents = sum("GIFT");
+  const referralCents = sum("REFERRAL");
+  const goodwillCents = sum("GOODWILL");
+  return { giftCents, referralCents, goodwillCents, totalCents: giftCents + referralCents + goodwillCents };
+}
+
+/** Keep clients.account_credit_cents in step with the ledger */
+async function syncClientCredit(supabase: SupabaseClient, orgId: string, clientId: string): Promise<void> {
+  const balance = await getCreditBalance(supabase, orgId, clientId);
+  await supabase
+    .from("clients")
+    .update({
+      account_credit_cents: balance.referralCents + balance.goodwillCents,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", clientId);
+}
+
+/**
+ * Take up to `amountCents` from one source. Balances are updated only if
+ * unchanged since they were read, so two runs can't spend the same credit.
+ */
+async function drawFromSource(
+  supabase: SupabaseClient,
+  source: CreditSource,
+  input: { orgId: string; clientId: string; invoiceId: string | null; amountCents: number; userId?: string | null }
+): Promise<number> {
+  const take = Math.min(source.balanceCents, input.amountCents);
+  if (take <= 0) return 0;
+  const remaining = source.balanceCents - take;
+  const now = new Date().toISOString();
+
+  if (source.kind === "GIFT_CERTIFICATE") {
+    const { data: updated } = await supabase
+      .from("gift_certificates")
+      .update({
+        balance_cents: remaining,
+        status: remaining === 0 ? "REDEEMED" : "ACTIVE",
+        updated_at: now,
+      })
+      .eq("id", source.id)
+      .eq("balance_cents", source.balanceCents)
+      .select("id");
+    if (!updated || updated.length === 0) return 0;
+
+    const { data: redemption } = await supabase
+      .from("gift_certificate_redemptions")
+      .insert({
+        org_id: input.orgId,
+        gift_certificate_id: source.id,
+        client_id: input.clientId,
+        invoice_id: input.invoiceId,
+        amount_cents: take,
+      })
+      .select("id")
+      .single();
+
+    await supabase.from("credit_applications").insert({
+      org_id: input.orgId,
+      client_id: input.clientId,
+      invoice_id: input.invoiceId,
+      gift_certificate_id: source.id,
+      gift_redemption_id: redemption?.id || null,
+      amount_cents: take,
+      created_by: input.userId || null,
+    });
+    return take;
+  }
+
+  const { data: updated } = await supabase
+    .from("account_credits")
+    .update({
+      balance_cents: remaining,
+      applied_to_invoice_id: input.invoiceId,
+    })
+    .eq("id", source.id)
+    .eq("balance_cents", source.balanceCents)
+    .select("id");
+  if (!updated || updated.length === 0) return 0;
+
+  await supabase.from("credit_applications").insert({
+    org_id: input.orgId,
+    client_id: input.clientId,
+    invoice_id: input.invoiceId,
+    account_credit_id: source.id,
+    amount_cents: take,
+    created_by: input.userId || null,
+  });
+
+  // A used-up referral credit is a redeemed referral reward
+  if (remaining === 0 && source.tier === "REFERRAL" && source.referenceId) {
+    await supabase
+      .from("referral_rewards")
+      .update({ redeemed_at: now })
+      .eq("referral_id", source.referenceId)
+      .eq("client_id", input.clientId)
+      .is("redeemed_at", null);
+  }
+  return take;
+}
+
+/**
+ * Draw the client's credits down against an invoice's amount due and record
+ * the total as the invoice's discount. An open invoice the credits cover in
+ * full is marked paid.
+ */
+export async function applyCreditsToInvoice(
+  supabase: SupabaseClient,
+  input: { orgId: string; invoiceId: string; userId?: string | null }
+): Promise<{ appliedCents: number; draws: CreditDraw[] }> {
+  const { data: invoice } = await supabase
+    .from("invoices")
+    .select("id, client_id, status, discount_cents, total_cents, amount_due_cents")
+    .eq("id", input.invoiceId)
+    .eq("org_id", input.orgId)
+    .single();
+
+  if (!invoice || invoice.status === "VOID" || invoice.status === "PAID" || invoice.amount_due_cents <= 0) {
+    return { appliedCents: 0, draws: [] };
+  }
+
+  const sources = await loadCreditSources(supabase, input.orgId, invoice.client_id);
+  const draws: CreditDraw[] = [];
+  let due = invoice.amount_due_cents;
+
+  for (const source of sources) {
+    if (due <= 0) break;
+    const taken = await drawFromSource(supabase, source, {
+      orgId: input.orgId,
+      clientId: invoice.client_id,
+      invoiceId: invoice.id,
+      amountCents: due,
+      userId: input.userId,
+    });
+    if (taken > 0) {
+      draws.push({ tier: source.tier, label: source.label, amountCents: taken });
+      due -= taken;
+    }
+  }
+
+  const appliedCents = invoice.amount_due_cents - due;
+  if (appliedCents === 0) return { appliedCents, draws };
+
+  const now = new Date().toISOString();
+  const coveredInFull = due === 0 && invoice.status === "OPEN";
+  const { error } = await supabase
+    .from("invoices")
+    .update({
+      discount_cents: (invoice.discount_cents || 0) + appliedCents,
+      total_cents: invoice.total_cents - appliedCents,
+      amount_due_cents: due,
+      ...(coveredInFull && { status: "PAID", paid_at: now }),
+      updated_at: now,
+    })
+    .eq("id", invoice.id);
+  if (error) throw error;
+
+  await syncClientCredit(supabase, input.orgId, invoice.client_id);
+  return { appliedCents, draws };
+}
+
+/**
+ * Add a reversed draw back onto a gift certificate or account credit, capped
+ * at its original value. Compare-and-set like drawFromSource, retried if a
+ * draw moved the balance first.
+ */
+async function restoreBalance(
+  supabase: SupabaseClient,
+  table: "gift_certificates" | "account_credits",
+  id: string,
+  amountCents: number
+): Promise<{ source: string | null; reference_id: string | null } | null> {
+  const isGift = table === "gift_certificates";
+  const columns: string = isGift
+    ? "balance_cents, initial_value_cents"
+    : "balance_cents, amount_cents, source, reference_id";
+  for (let attempt = 0; attempt < 3; attempt++) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: row } = await supabase.from(table).select(columns).eq("id", id).single<any>();
+    if (!row) return null;
+
+    const cap = isGift ? row.initial_value_cents : row.amount_cents;
+    const balance = Math.min(cap, row.balance_cents + amountCents);
+    const { data: updated } = await supabase
+      .from(table)
+      .update(isGift
+        ? { balance_cents: balance, status: "ACTIVE", updated_at: new Date().toISOString() }
+        : { balance_cents: balance })
+      .eq("id", id)
+      .eq("balance_cents", row.balance_cents)
+      .select("id");
+    if (updated && updated.length > 0) {
+      return { source: row.source ?? null, reference_id: row.reference_id ?? null };
+    }
+  }
+  console.error(`Error restoring credit to ${table} ${id}: balance kept changing`);
+  return null;
+}
+
+/**
+ * Put back the credits an invoice drew (when it is voided)
+ */
+export async function reverseInvoiceCredits(
+  supabase: SupabaseClient,
+  orgId: string,
+  invoiceId: string
+): Promise<number> {
+  const { data: applications } = await supabase
+    .from("credit_applications")
+    .select("id, client_id, account_credit_id, gift_certificate_id, gift_redemption_id, amount_cents")
+    .eq("org_id", orgId)
+    .eq("invoice_id", invoiceId)
+    .is("reversed_at", null);
+
+  if (!applications || applications.length === 0) return 0;
+
+  const now = new Date().toISOString();
+  let restored = 0;
+
+  for (const application of applications) {
+    // Claim the draw first so two voids of the same invoice can't both restore it
+    const { data: claimed } = await supabase
+      .from("credit_applications")
+      .update({ reversed_at: now })
+      .eq("id", application.id)
+      .is("reversed_at", null)
+      .select("id");
+    if (!claimed || claimed.length === 0) continue;
+
+    if (application.gift_certificate_id) {
+      await restoreBalance(supabase, "gift_certificates", application.gift_certificate_id, application.amount_cents);
+      if (application.gift_redemption_id) {
+        await supabase.from("gift_certificate_redemptions").delete().eq("id", application.gift_redemption_id);
+      }
+    } else if (application.account_credit_id) {
+      const credit = await restoreBalance(
+        supabase,
+        "account_credits",
+        application.account_credit_id,
+        application.amount_cents
+      );
+      if (credit && creditTier(credit.source) === "REFERRAL" && credit.reference_id) {
+        await supabase
+          .from("referral_rewards")
+          .update({ redeemed_at: null })
+          .eq("referral_id", credit.reference_id)
+          .eq("client_id", application.client_id);
+      }
+    }
+
+    restored += application.amount_cents;
+  }
+
+  await syncClientCredit(supabase, orgId, applications[0].client_id);
+  return restored;
+}
+
+/**
+ * Credit an invoice's line items couldn't use (credits worth more than its
+ * charges) becomes goodwill credit, drawn on the client's next invoice
+ */
+export async function carryInvoiceCredit(
+  supabase: SupabaseClient,
+  input: { orgId: string; clientId: string; invoiceId: string; amountCents: number; reason: string }
+): Promise<void> {
+  if (input.amountCents <= 0) return;
+
+  const { error } = await supabase.from("account_credits").insert({
+    org_id: input.orgId,
+    client_id: input.clientId,
+    amount_cents: input.amountCents,
+    balance_cents: input.amountCents,
+    source: "CARRYOVER",
+    reference_id: input.invoiceId,
+    reason: input.reason,
+  });
+  if (error) throw error;
+
+  await syncClientCredit(supabase, input.orgId, input.clientId);
+}
+
+/**
+ * Office change to a client's account credit. An increase is a new goodwill
+ * credit; a decrease uses up goodwill, then referral credit (newest first).
+ * Gift card balances are never touched here.
+ */
+export async function adjustAccountCredit(
+  supabase: SupabaseClient,
+  input: { orgId: string; clientId: string; deltaCents: number; reason: string | null; userId: string }
+): Promise<void> {
+  if (input.deltaCents > 0) {
+    const { error } = await supabase.from("account_credits").insert({
+      org_id: input.orgId,
+      client_id: input.clientId,
+      amount_cents: input.deltaCents,
+      balance_cents: input.deltaCents,
+      source: "ADJUSTMENT",
+      reason: input.reason,
+    });
+    if (error) throw error;
+  } else if (input.deltaCents < 0) {
+    const sources = (await loadCreditSources(supabase, input.orgId, input.clientId))
+      .filter((s) => s.tier !== "GIFT")
+      .reverse();
+    let remaining = -input.deltaCents;
+    for (const source of sources) {
+      if (remaining <= 0) break;
+      remaining -= await drawFromSource(supabase, source, {
+        orgId: input.orgId,
+        clientId: input.clientId,
+        invoiceId: null,
+        amountCents: remaining,
+        userId: input.userId,
+      });
+    }
+  }
+
+  await syncClientCredit(supabase, input.orgId, input.clientId);
+}
+
+/**
+ * Recent draws and adjustments for a client, newest first
+ */
+export async function listCreditActivity(
+  supabase: SupabaseClient,
+  orgId: string,
+  clientId: string,
+  limit = 20
+): Promise<Array<{
+  id: string;
+  createdAt: string;
+  amountCents: number;
+  tier: CreditTier;
+  invoiceId: string | null;
+  invoiceNumber: string | null;
+  reversed: boolean;
+}>> {
+  const { data } = await supabase
+    .from("credit_applications")
+    .select(`
+      id, created_at, amount_cents, invoice_id, reversed_at, gift_certificate_id,
+      credit:account_credit_id ( source ),
+      invoice:invoice_id ( invoice_number )
+    `)
+    .eq("org_id", orgId)
+    .eq("client_id", clientId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  return (data || []).map((row) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const credit = (Array.isArray(row.credit) ? row.credit[0] : row.credit) as any;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const invoice = (Array.isArray(row.invoice) ? row.invoice[0] : row.invoice) as any;
+    return {
+      id: row.id,
+      createdAt: row.created_at,
+      amountCents: row.amount_cents,
+      tier: row.gift_certificate_id ? "GIFT" : creditTier(credit?.source ?? null),
+      invoiceId: row.invoice_id,
+      invoiceNumber: invoice?.invoice_number ?? null,
+      reversed: !!row.reversed_at,
+    };
+  });
+}
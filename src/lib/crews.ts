@@ -0,0 +1,316 @@
+/**
+ * Crews & Job Splitting
+ *
+ * A route's assigned_to is its lead; route_crew_members adds helpers, who see
+ * the lead's route in the field app and can work and complete its jobs. When
+ * a job on a crew route is completed, each member's minutes are kept in
+ * job_crew_time (by default the job's start-to-complete time for everyone;
+ * the app can send per-member minutes). Payroll splits the job's yard and
+ * revenue credit by those minutes.
+ *
+ * A job too big for one visit can be split into parts on other days. Parts
+ * share split_group_id, are numbered split_index of split_count, and divide
+ * the original price between them.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+
+export class CrewError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "CrewError";
+    this.status = status;
+  }
+}
+
+export type CrewRole = "LEAD" | "HELPER";
+
+export interface CrewMember {
+  userId: string;
+  name: string;
+  role: CrewRole;
+}
+
+// Roles that can lead a crew / be added as a helper
+const LEAD_ROLES = ["CREW_LEAD", "MANAGER", "OWNER"];
+const HELPER_ROLES = ["FIELD_TECH", "CREW_LEAD"];
+
+export const MAX_SPLIT_PARTS = 7;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const one = (value: any) => (Array.isArray(value) ? value[0] ?? null : value);
+const fullName = (user: { first_name?: string | null; last_name?: string | null } | null) =>
+  user ? `${user.first_name || ""} ${user.last_name || ""}`.trim() || "Unknown" : "Unknown";
+
+/**
+ * The lead and helpers on a route, lead first
+ */
+export async function loadRouteCrew(supabase: SupabaseClient, routeId: string): Promise<CrewMember[]> {
+  const [{ data: route }, { data: helpers }] = await Promise.all([
+    supabase
+      .from("routes")
+      .select("assigned_to, lead:assigned_to ( first_name, last_name )")
+      .eq("id", routeId)
+      .single(),
+    supabase
+      .from("route_crew_members")
+      .select("user_id, user:user_id ( first_name, last_name )")
+      .eq("route_id", routeId)
+      .order("created_at", { ascending: true }),
+  ]);
+
+  const crew: CrewMember[] = [];
+  if (route?.assigned_to) {
+    crew.push({ userId: route.assigned_to, name: fullName(one(route.lead)), role: "LEAD" });
+  }
+  for (const helper of helpers || []) {
+    if (helper.user_id === route?.assigned_to) continue;
+    crew.push({ userId: helper.user_id, name: fullName(one(helper.user)), role: "HELPER" });
+  }
+  return crew;
+}
+
+/**
+ * Replace a route's helpers. The route needs a lead who can run a crew, and a
+ * helper can't already be working another route that day.
+ */
+export async function setRouteHelpers(
+  supabase: SupabaseClient,
+  orgId: string,
+  routeId: string,
+  helperIds: string[]
+): Promise<CrewMember[]> {
+  const { data: route } = await supabase
+    .from("routes")
+    .select("id, route_date, assigned_to, lead:assigned_to ( role )")
+    .eq("id", routeId)
+    .eq("org_id", orgId)
+    .single();
+
+  if (!route) throw new CrewError("Route not found", 404);
+
+  const ids = Array.from(new Set(helperIds)).filter((id) => id !== route.assigned_to);
+  if (ids.length > 0) {
+    if (!route.assigned_to) throw new CrewError("Assign a crew lead to the route before adding helpers");
+    if (!LEAD_ROLES.includes(one(route.lead)?.role)) {
+      throw new CrewError("Only a crew lead can run a route with helpers");
+    }
+
+    const { data: staff } = await supabase
+      .from("users")
+      .select("id, role, is_active")
+      .eq("org_id", orgId)
+      .in("id", ids);
+    const valid = (staff || []).filter((u) => u.is_active && HELPER_ROLES.includes(u.role));
+    if (valid.length !== ids.length) {
+      throw new CrewError("Helpers must be active field techs or crew leads");
+    }
+
+    // One route per person per day, as lead or helper
+    const [{ data: leading }, { data: helping }] = await Promise.all([
+      supabase
+        .from("routes")
+        .select("id")
+        .eq("org_id", orgId)
+        .eq("route_date", route.route_date)
+        .neq("id", routeId)
+        .in("assigned_to", ids),
+      supabase
+        .from("route_crew_members")
+        .select("user_id, route:route_id!inner ( route_date )")
+        .eq("org_id", orgId)
+        .neq("route_id", routeId)
+        .eq("route.route_date", route.route_date)
+        .in("user_id", ids),
+    ]);
+    if ((leading || []).length > 0 || (helping || []).length > 0) {
+      throw new CrewError("A helper is already on another route that day", 409);
+    }
+  }
+
+  const { error: deleteError } = await supabase.from("route_crew_members").delete().eq("route_id", routeId);
+  if (deleteError) throw deleteError;
+
+  if (ids.length > 0) {
+    const { error } = await supabase
+      .from("route_crew_members")
+      .insert(ids.map((userId) => ({ org_id: orgId, route_id: routeId, user_id: userId })));
+    if (error) throw error;
+  }
+
+  return loadRouteCrew(supabase, routeId);
+}
+
+/**
+ * The route a helper is working on a date, if any
+ */
+export async function findHelperRouteId(
+  supabase: SupabaseClient,
+  orgId: string,
+  userId: string,
+  date: string
+): Promise<string | null> {
+  const { data } = await supabase
+    .from("route_crew_members")
+    .select("route_id, route:route_id!inner ( route_date )")
+    .eq("org_id", orgId)
+    .eq("user_id", userId)
+    .eq("route.route_date", date)
+    .limit(1);
+  return data?.[0]?.route_id || null;
+}
+
+/**
+ * Is the user a helper on the route this job belongs to?
+ */
+export async function isJobHelper(
+  supabase: SupabaseClient,
+  job: { route_id: string | null },
+  userId: string
+): Promise<boolean> {
+  if (!job.route_id) return false;
+  const { data } = await supabase
+    .from("route_crew_members")
+    .select("id")
+    .eq("route_id", job.route_id)
+    .eq("user_id", userId)
+    .maybeSingle();
+  return !!data;
+}
+
+/** Per-member minutes sent with a complete: { [userId]: minutes } */
+export function parseCrewMinutes(raw: unknown): Record<string, number> | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const minutes: Record<string, number> = {};
+  for (const [userId, value] of Object.entries(raw as Record<string, unknown>)) {
+    const n = Number(value);
+    if (Number.isFinite(n) && n >= 0) minutes[userId] = Math.round(n);
+  }
+  return Object.keys(minutes).length > 0 ? minutes : null;
+}
+
+/**
+ * Record each crew member's time on a completed job. Does nothing for a
+ * single-tech route. `onlyUserId` records one member (a helper confirming a
+ * job the lead already completed) without touching the others.
+ */
+export async function recordCrewTime(
+  supabase: SupabaseClient,
+  input: {
+    orgId: string;
+    jobId: string;
+    routeId: string | null;
+    startedAt: string | null;
+    completedAt: string;
+    minutes?: Record<string, number> | null;
+    onlyUserId?: string;
+  }
+): Promise<void> {
+  if (!input.routeId) return;
+  const crew = await loadRouteCrew(supabase, input.routeId);
+  if (crew.length < 2) return;
+
+  const elapsed = input.startedAt
+    ? Math.max(0, Math.round((new Date(input.completedAt).getTime() - new Date(input.startedAt).getTime()) / 60000))
+    : 0;
+
+  const rows = crew
+    .filter((member) => !input.onlyUserId || member.userId === input.onlyUserId)
+    .map((member) => ({
+      org_id: input.orgId,
+      job_id: input.jobId,
+      user_id: member.userId,
+      minutes: input.minutes?.[member.userId] ?? elapsed,
+    }));
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from("job_crew_time")
+    .upsert(rows, { onConflict: "job_id,user_id", ignoreDuplicates: !!input.onlyUserId && !input.minutes });
+  if (error) throw error;
+}
+
+/**
+ * Split a scheduled job into parts on other days. The job itself becomes part
+ * 1 on its own date; each date in `dates` adds a part. The price is divided
+ * evenly (any remainder stays on part 1). Parts start unassigned so they can
+ * be routed on their day.
+ */
+export async function splitJob(
+  supabase: SupabaseClient,
+  orgId: string,
+  jobId: string,
+  dates: string[]
+): Promise<Array<{ id: string; scheduledDate: string; priceCents: number; splitIndex: number }>> {
+  const { data: job } = await supabase
+    .from("jobs")
+    .select("id, org_id, subscription_id, client_id, location_id, scheduled_date, status, price_cents, notes, internal_notes, metadata, split_group_id")
+    .eq("id", jobId)
+    .eq("org_id", orgId)
+    .single();
+
+  if (!job) throw new CrewError("Job not found", 404);
+  if (job.status !== "SCHEDULED") throw new CrewError("Only scheduled jobs can be split");
+  if (job.split_group_id) throw new CrewError("This job is already split");
+
+  const extra = Array.from(new Set(dates));
+  if (extra.length === 0) throw new CrewError("Pick at least one more day");
+  if (extra.length + 1 > MAX_SPLIT_PARTS) throw new CrewError(`A job can be split into at most ${MAX_SPLIT_PARTS} parts`);
+  if (extra.some((d) => !DATE_RE.test(d) || d === job.scheduled_date)) {
+    throw new CrewError("Each part needs a different valid date");
+  }
+
+  const count = extra.length + 1;
+  const share = Math.floor(job.price_cents / count);
+  const firstPrice = job.price_cents - share * (count - 1);
+
+  const { data: parts, error: insertError } = await supabase
+    .from("jobs")
+    .insert(
+      extra.sort().map((date, i) => ({
+        org_id: orgId,
+        subscription_id: job.subscription_id,
+        client_id: job.client_id,
+        location_id: job.location_id,
+        scheduled_date: date,
+        status: "SCHEDULED",
+        price_cents: share,
+        notes: job.notes,
+        internal_notes: job.internal_notes,
+        split_group_id: job.id,
+        split_index: i + 2,
+        split_count: count,
+        metadata: { ...(job.metadata || {}), split_from: job.id },
+      }))
+    )
+    .select("id, scheduled_date, price_cents, split_index");
+
+  if (insertError) throw insertError;
+
+  const { error: updateError } = await supabase
+    .from("jobs")
+    .update({
+      price_cents: firstPrice,
+      split_group_id: job.id,
+      split_index: 1,
+      split_count: count,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", job.id);
+
+  if (updateError) throw updateError;
+
+  return [
+    { id: job.id, scheduledDate: job.scheduled_date, priceCents: firstPrice, splitIndex: 1 },
+    ...(parts || []).map((p) => ({
+      id: p.id,
+      scheduledDate: p.scheduled_date,
+      priceCents: p.price_cents,
+      splitIndex: p.split_index,
+    })),
+  ];
+}
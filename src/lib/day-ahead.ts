@@ -0,0 +1,236 @@
+/**
+ * Day-Ahead Reminders
+ *
+ * Once tomorrow's routes are built, the queue-day-ahead cron queues a
+ * DAY_AHEAD message for every routed job so clients know we're coming. Each
+ * client gets their own channels (notification_preferences, dayAhead toggle),
+ * opted-out numbers never get the text, and the messages are scheduled inside
+ * the org send window for process-notifications to drain.
+ *
+ * Locations with gate notes get a "please unlock the gate" line; the gate
+ * code itself never goes in the message.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { sendClientNotification } from "@/lib/notifications";
+import { optedOutKeys, optOutKey } from "@/lib/sms-optout";
+import { clampToSendWindow, loadSendWindow } from "@/lib/send-window";
+
+export interface DayAheadSettings {
+  enabled: boolean;
+  /** Local hour (org send-window time zone) reminders go out at */
+  sendHour: number;
+}
+
+export const DEFAULT_DAY_AHEAD_SETTINGS: DayAheadSettings = {
+  enabled: true,
+  sendHour: 17,
+};
+
+export interface DayAheadRunResult {
+  orgs: number;
+  jobs: number;
+  queued: number;
+  alreadyQueued: number;
+  noChannel: number;
+}
+
+/** Read day-ahead settings from organizations.settings.scheduler */
+export function getDayAheadSettings(orgSettings: unknown): DayAheadSettings {
+  const scheduler = ((orgSettings as Record<string, unknown>)?.scheduler || {}) as Record<string, unknown>;
+  const hour = Number(scheduler.dayAheadSendHour);
+  return {
+    enabled: scheduler.dayAheadReminders !== false,
+    sendHour: Number.isInteger(hour) && hour >= 0 && hour <= 23 ? hour : DEFAULT_DAY_AHEAD_SETTINGS.sendHour,
+  };
+}
+
+/** YYYY-MM-DD of an instant in a time zone */
+function localDate(date: Date, timeZone: string): string {
+  return date.toLocaleDateString("en-CA", { timeZone });
+}
+
+function localHour(date: Date, timeZone: string): number {
+  return Number(date.toLocaleString("en-US", { timeZone, hour: "numeric", hour12: false })) % 24;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+function gatePrompt(location: { gate_code: string | null; gate_location: string | null }): string {
+  if (!location.gate_code && !location.gate_location) return "";
+  return location.gate_location
+    ? ` Please make sure your gate (${location.gate_location}) is unlocked so we can get in.`
+    : " Please make sure your gate is unlocked so we can get in.";
+}
+
+/**
+ * Queue reminders for one org's routed jobs on serviceDate. Jobs that already
+ * have a day-ahead notification are skipped, so re-running is safe.
+ */
+async function queueOrgReminders(
+  supabase: SupabaseClient,
+  orgId: string,
+  serviceDate: string,
+  sendAt: Date,
+  optedOut: Set<string>
+): Promise<Omit<DayAheadRunResult, "orgs">> {
+  const result = { jobs: 0, queued: 0, alreadyQueued: 0, noChannel: 0 };
+
+  const { data: templates } = await supabase
+    .from("notification_templates")
+    .select("id")
+    .eq("org_id", orgId)
+    .eq("type", "DAY_AHEAD")
+    .eq("is_enabled", true);
+  if (!templates || templates.length === 0) return result;
+
+  // Only jobs that made it onto a route or a tech's day
+  const { data: jobs, error } = await supabase
+    .from("jobs")
+    .select(`
+      id,
+      client_id,
+      client:client_id (
+        first_name,
+        phone,
+        email
+      ),
+      location:location_id (
+        address_line1,
+        city,
+        gate_code,
+        gate_location
+      ),
+      tech:assigned_to (
+        first_name
+      )
+    `)
+    .eq("org_id", orgId)
+    .eq("scheduled_date", serviceDate)
+    .eq("status", "SCHEDULED")
+    .or("route_id.not.is.null,assigned_to.not.is.null");
+
+  if (error) {
+    console.error("Error loading day-ahead jobs:", orgId, error);
+    return result;
+  }
+  if (!jobs || jobs.length === 0) return result;
+  result.jobs = jobs.length;
+
+  const { data: existing } = await supabase
+    .from("notifications")
+    .select("job_id, client_id")
+    .in("job_id", jobs.map((job) => job.id))
+    .in("template_id", templates.map((template) => template.id));
+
+  const queuedJobs = new Set((existing || []).map((row) => row.job_id));
+  // One reminder per client, even with several visits tomorrow
+  const queuedClients = new Set((existing || []).map((row) => row.client_id));
+
+  const serviceDateLabel = new Date(`${serviceDate}T12:00:00Z`).toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  for (const job of jobs as any[]) {
+    if (queuedJobs.has(job.id) || queuedClients.has(job.client_id)) {
+      result.alreadyQueued++;
+      continue;
+    }
+
+    const client = Array.isArray(job.client) ? job.client[0] : job.client;
+    const location = Array.isArray(job.location) ? job.location[0] : job.location;
+    const tech = Array.isArray(job.tech) ? job.tech[0] : job.tech;
+    if (!client) continue;
+
+    const phoneKey = optOutKey(client.phone);
+    const phone = client.phone && !(phoneKey && optedOut.has(phoneKey)) ? client.phone : undefined;
+
+    try {
+      const sent = await sendClientNotification({
+        orgId,
+        clientId: job.client_id,
+        jobId: job.id,
+        type: "DAY_AHEAD",
+        phone,
+        email: client.email || undefined,
+        scheduledFor: sendAt,
+        variables: {
+          client_name: client.first_name || "there",
+          service_date: serviceDateLabel,
+          address: location ? [location.address_line1, location.city].filter(Boolean).join(", ") : "",
+          tech_name: tech?.first_name || "your technician",
+          gate_location: location?.gate_location || "",
+          gate_prompt: location ? gatePrompt(location) : "",
+        },
+      });
+
+      if (sent.sms?.success || sent.email?.success) {
+        result.queued++;
+        queuedClients.add(job.client_id);
+      } else {
+        result.noChannel++;
+      }
+    } catch (error) {
+      console.error("Error queueing day-ahead reminder:", job.id, error);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Queue tomorrow's reminders for every org whose send hour has come. Runs
+ * hourly; an org is picked up on the first run at or after its send hour,
+ * and later runs catch jobs routed since. Nothing is queued once the send
+ * window has closed for the day, since the reminder would land on the day
+ * of service.
+ */
+export async function queueDayAheadReminders(
+  supabase: SupabaseClient,
+  now = new Date()
+): Promise<DayAheadRunResult> {
+  const totals: DayAheadRunResult = { orgs: 0, jobs: 0, queued: 0, alreadyQueued: 0, noChannel: 0 };
+
+  const window = await loadSendWindow();
+  const sendAt = clampToSendWindow(now, window);
+  const today = localDate(now, window.timeZone);
+  if (localDate(sendAt, window.timeZone) !== today) return totals;
+
+  const { data: orgs, error } = await supabase
+    .from("organizations")
+    .select("id, settings");
+
+  if (error) {
+    console.error("Error loading organizations:", error);
+    throw new Error("Failed to load organizations");
+  }
+
+  const hour = localHour(now, window.timeZone);
+  const due = (orgs || []).filter((org) => {
+    const settings = getDayAheadSettings(org.settings);
+    return settings.enabled && hour >= settings.sendHour;
+  });
+  if (due.length === 0) return totals;
+
+  const optedOut = await optedOutKeys();
+  const serviceDate = addDays(today, 1);
+
+  for (const org of due) {
+    const result = await queueOrgReminders(supabase, org.id, serviceDate, sendAt, optedOut);
+    totals.orgs++;
+    totals.jobs += result.jobs;
+    totals.queued += result.queued;
+    totals.alreadyQueued += result.alreadyQueued;
+    totals.noChannel += result.noChannel;
+  }
+
+  return totals;
+}
@@ -0,0 +1,807 @@
+/**
+ * Dunning
+ *
+ * Follow-up on failed Stripe invoice payments. Each failed invoice opens a
+ * dunning case; the process-dunning cron walks open cases through the org's
+ * sequence (settings.billing.dunning), counted in days since the first
+ * failure:
+ *
+ *   retryDays    - re-attempt the charge on the card on file
+ *   reminderDays - SMS + email with an /add-card/[token] link
+ *   escalateDay  - raise it in the office notification feed
+ *   pauseDay     - pause the subscription (Stripe + local jobs)
+ *
+ * Every step is written to the client's activity timeline. A successful
+ * payment resolves the case and reverses it: paused subscriptions resume,
+ * the card link expires and the office notification is dismissed.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import crypto from "crypto";
+import {
+  payInvoice,
+  pauseStripeSubscription,
+  resumeStripeSubscription,
+  formatCentsToDollars,
+} from "@/lib/stripe";
+import { handleSubscriptionStatusChange } from "@/lib/subscription-jobs";
+import { sendClientNotification } from "@/lib/notifications";
+import { isOptedOut } from "@/lib/sms-optout";
+import { isWithinSendWindow, loadSendWindow } from "@/lib/send-window";
+import { notify, dismissNotification } from "@/lib/notify";
+
+export interface DunningSettings {
+  enabled: boolean;
+  retryDays: number[];
+  reminderDays: number[];
+  escalateDay: number | null;
+  pauseDay: number | null;
+}
+
+export type DunningStatus = "ACTIVE" | "RESOLVED" | "CANCELED";
+
+export interface DunningCase {
+  id: string;
+  orgId: string;
+  clientId: string;
+  invoiceId: string | null;
+  stripeInvoiceId: string;
+  stripeSubscriptionId: string | null;
+  amountDueCents: number;
+  status: DunningStatus;
+  failureCount: number;
+  lastFailureReason: string | null;
+  firstFailedAt: string;
+  lastFailedAt: string;
+  completedSteps: string[];
+  cardLinkToken: string | null;
+  escalatedAt: string | null;
+  pausedSubscriptionIds: string[];
+  pausedAt: string | null;
+  resolvedAt: string | null;
+  resolution: string | null;
+}
+
+export const DEFAULT_DUNNING_SETTINGS: DunningSettings = {
+  enabled: true,
+  retryDays: [3, 7],
+  reminderDays: [0, 3, 7],
+  escalateDay: 7,
+  pauseDay: 14,
+};
+
+// How long a reminder's add-card link stays valid
+export const CARD_LINK_DAYS = 7;
+
+const MAX_DUNNING_DAY = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CASE_COLUMNS =
+  "id, org_id, client_id, invoice_id, stripe_invoice_id, stripe_subscription_id, amount_due_cents, status, failure_count, last_failure_reason, first_failed_at, last_failed_at, completed_steps, card_link_token, escalated_at, paused_subscription_ids, paused_at, resolved_at, resolution";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function mapDunningCase(row: any): DunningCase {
+  return {
+    id: row.id,
+    orgId: row.org_id,
+    clientId: row.client_id,
+    invoiceId: row.invoice_id,
+    stripeInvoiceId: row.stripe_invoice_id,
+    stripeSubscriptionId: row.stripe_subscription_id,
+    amountDueCents: row.amount_due_cents,
+    status: row.status,
+    failureCount: row.failure_count,
+    lastFailureReason: row.last_failure_reason,
+    firstFailedAt: row.first_failed_at,
+    lastFailedAt: row.last_failed_at,
+    completedSteps: row.completed_steps || [],
+    cardLinkToken: row.card_link_token,
+    escalatedAt: row.escalated_at,
+    pausedSubscriptionIds: row.paused_subscription_ids || [],
+    pausedAt: row.paused_at,
+    resolvedAt: row.resolved_at,
+    resolution: row.resolution,
+  };
+}
+
+// ── Settings ────────────────────────────────────────────────────────────────
+
+function dayList(value: unknown, fallback: number[], min: number): number[] {
+  if (!Array.isArray(value)) return fallback;
+  const days = value
+    .map((d) => Math.floor(Number(d)))
+    .filter((d) => Number.isFinite(d) && d >= min && d <= MAX_DUNNING_DAY);
+  return [...new Set(days)].sort((a, b) => a - b);
+}
+
+function dayOrNull(value: unknown, fallback: number | null): number | null {
+  if (value === null) return null;
+  if (value === undefined) return fallback;
+  const day = Math.floor(Number(value));
+  return Number.isFinite(day) && day >= 0 && day <= MAX_DUNNING_DAY ? day : fallback;
+}
+
+/**
+ * Fill in defaults and drop invalid days. Retries start on day 1, since the
+ * failure that opened the case was itself an attempt.
+ */
+export function normalizeDunningSettings(raw: unknown): DunningSettings {
+  const input = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  return {
+    enabled: input.enabled === undefined ? DEFAULT_DUNNING_SETTINGS.enabled : input.enabled === true,
+    retryDays: dayList(input.retryDays, DEFAULT_DUNNING_SETTINGS.retryDays, 1),
+    reminderDays: dayList(input.reminderDays, DEFAULT_DUNNING_SETTINGS.reminderDays, 0),
+    escalateDay: dayOrNull(input.escalateDay, DEFAULT_DUNNING_SETTINGS.escalateDay),
+    pauseDay: dayOrNull(input.pauseDay, DEFAULT_DUNNING_SETTINGS.pauseDay),
+  };
+}
+
+export async function getDunningSettings(
+  supabase: SupabaseClient,
+  orgId: string
+): Promise<DunningSettings> {
+  const { data: org } = await supabase
+    .from("organizations")
+    .select("settings")
+    .eq("id", orgId)
+    .single();
+
+  return normalizeDunningSettings(org?.settings?.billing?.dunning);
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+async function logDunning(
+  supabase: SupabaseClient,
+  dunningCase: Pick<DunningCase, "id" | "orgId" | "clientId" | "stripeInvoiceId">,
+  action: string,
+  details: Record<string, unknown> = {}
+) {
+  await supabase.from("activity_logs").insert({
+    org_id: dunningCase.orgId,
+    user_id: null,
+    action,
+    entity_type: "CLIENT",
+    entity_id: dunningCase.clientId,
+    details: { dunningCaseId: dunningCase.id, stripeInvoiceId: dunningCase.stripeInvoiceId, ...details },
+  });
+}
+
+function notificationKey(caseId: string): string {
+  return `dunning:${caseId}`;
+}
+
+function daysOpen(dunningCase: DunningCase, now: Date): number {
+  return Math.floor((now.getTime() - new Date(dunningCase.firstFailedAt).getTime()) / DAY_MS);
+}
+
+async function getClientContact(supabase: SupabaseClient, clientId: string) {
+  const { data: client } = await supabase
+    .from("clients")
+    .select("id, first_name, last_name, email, phone")
+    .eq("id", clientId)
+    .single();
+  return client;
+}
+
+/**
+ * Subscriptions a case pauses: the Stripe subscription the invoice belongs
+ * to, or the client's active subscriptions for one-off invoices
+ */
+async function getDunningSubscriptions(supabase: SupabaseClient, dunningCase: DunningCase) {
+  let query = supabase
+    .from("subscriptions")
+    .select("id, status, stripe_subscription_id")
+    .eq("org_id", dunningCase.orgId)
+    .eq("client_id", dunningCase.clientId)
+    .in("status", ["ACTIVE", "PAST_DUE"]);
+
+  if (dunningCase.stripeSubscriptionId) {
+    query = query.eq("stripe_subscription_id", dunningCase.stripeSubscriptionId);
+  }
+
+  const { data } = await query;
+  return data || [];
+}
+
+function siteUrl(): string {
+  return process.env.NEXT_PUBLIC_SITE_URL || process.env.NEXT_PUBLIC_APP_URL || "https://doogoodscoopers.vercel.app";
+}
+
+// ── Steps ───────────────────────────────────────────────────────────────────
+
+async function retryCharge(
+  supabase: SupabaseClient,
+  dunningCase: DunningCase,
+  day: number,
+  paymentMethodId?: string
+) {
+  try {
+    const invoice = await payInvoice(dunningCase.stripeInvoiceId, paymentMethodId);
+    await logDunning(supabase, dunningCase, "DUNNING_RETRY", { day, result: invoice.status });
+    return invoice.status === "paid";
+  } catch (error) {
+    // A declined retry also arrives as invoice.payment_failed, which bumps the failure count
+    const message = error instanceof Error ? error.message : "Retry failed";
+    await logDunning(supabase, dunningCase, "DUNNING_RETRY", { day, result: "failed", error: message });
+    return false;
+  }
+}
+
+async function sendReminder(supabase: SupabaseClient, dunningCase: DunningCase, day: number) {
+  const client = await getClientContact(supabase, dunningCase.clientId);
+  if (!client) return;
+
+  const token = crypto.randomUUID();
+  const { error: linkError } = await supabase.from("credit_card_links").insert({
+    org_id: dunningCase.orgId,
+    client_id: dunningCase.clientId,
+    token,
+    expires_at: new Date(Date.now() + CARD_LINK_DAYS * DAY_MS).toISOString(),
+  });
+
+  if (linkError) {
+    console.error("Error creating dunning card link:", linkError);
+    return;
+  }
+
+  // The newest link replaces the previous one
+  if (dunningCase.cardLinkToken) {
+    await supabase
+      .from("credit_card_links")
+      .update({ expires_at: new Date().toISOString() })
+      .eq("token", dunningCase.cardLinkToken)
+      .is("used_at", null);
+  }
+  await supabase.from("dunning_cases").update({ card_link_token: token }).eq("id", dunningCase.id);
+  dunningCase.cardLinkToken = token;
+
+  let invoiceNumber = "";
+  if (dunningCase.invoiceId) {
+    const { data: invoice } = await supabase
+      .from("invoices")
+      .select("invoice_number")
+      .eq("id", dunningCase.invoiceId)
+      .single();
+    invoiceNumber = invoice?.invoice_number || "";
+  }
+
+  const phone = client.phone && !(await isOptedOut(client.phone)) ? client.phone : undefined;
+  const results = await sendClientNotification({
+    orgId: dunningCase.orgId,
+    clientId: dunningCase.clientId,
+    type: "PAYMENT_FAILED",
+    phone,
+    email: client.email || undefined,
+    variables: {
+      client_name: client.first_name || "there",
+      amount: formatCentsToDollars(dunningCase.amountDueCents),
+      invoice_number: invoiceNumber,
+      card_link: `${siteUrl()}/add-card/${token}`,
+    },
+  });
+
+  await logDunning(supabase, dunningCase, "DUNNING_REMINDER_SENT", {
+    day,
+    sms: results.sms ? (results.sms.success ? "sent" : results.sms.error) : "skipped",
+    email: results.email ? (results.email.success ? "sent" : results.email.error) : "skipped",
+  });
+}
+
+async function escalate(supabase: SupabaseClient, dunningCase: DunningCase, day: number) {
+  const client = await getClientContact(supabase, dunningCase.clientId);
+  const name = client ? [client.first_name, client.last_name].filter(Boolean).join(" ") : "A client";
+
+  await notify({
+    type: "payment_failed",
+    severity: "warning",
+    title: `Payment failing: ${name}`,
+    body: `${formatCentsToDollars(dunningCase.amountDueCents)} unpaid for ${day} days after ${dunningCase.failureCount} failed attempt${dunningCase.failureCount === 1 ? "" : "s"}.`,
+    link: `/app/office/clients/${dunningCase.clientId}`,
+    dedupeKey: notificationKey(dunningCase.id),
+    push: true,
+  });
+
+  await supabase
+    .from("dunning_cases")
+    .update({ escalated_at: new Date().toISOString() })
+    .eq("id", dunningCase.id);
+
+  await logDunning(supabase, dunningCase, "DUNNING_ESCALATED", { day });
+}
+
+/**
+ * Pause the case's subscriptions. Returns false when there were some to pause
+ * but none could be, so the caller can let the next run try again.
+ */
+async function pauseForNonPayment(supabase: SupabaseClient, dunningCase: DunningCase, day: number): Promise<boolean> {
+  const subscriptions = await getDunningSubscriptions(supabase, dunningCase);
+  const today = new Date().toISOString().split("T")[0];
+  const paused: string[] = [];
+
+  for (const subscription of subscriptions) {
+    if (subscription.stripe_subscription_id) {
+      try {
+        await pauseStripeSubscription(subscription.stripe_subscription_id);
+      } catch (error) {
+        console.error("Error pausing Stripe subscription for dunning:", error);
+        continue;
+      }
+    }
+
+    const { error } = await supabase
+      .from("subscriptions")
+      .update({ status: "PAUSED", pause_start_date: today })
+      .eq("id", subscription.id);
+
+    if (error) {
+      console.error("Error pausing subscription for dunning:", error);
+      continue;
+    }
+
+    await handleSubscriptionStatusChange(supabase, subscription.id, dunningCase.orgId, subscription.status, "PAUSED");
+    paused.push(subscription.id);
+  }
+
+  if (paused.length === 0) return subscriptions.length === 0;
+
+  const pausedAt = new Date().toISOString();
+  const pausedIds = [...new Set([...dunningCase.pausedSubscriptionIds, ...paused])];
+  await supabase
+    .from("dunning_cases")
+    .update({ paused_subscription_ids: pausedIds, paused_at: pausedAt })
+    .eq("id", dunningCase.id);
+  dunningCase.pausedSubscriptionIds = pausedIds;
+  dunningCase.pausedAt = pausedAt;
+
+  const client = await getClientContact(supabase, dunningCase.clientId);
+  const name = client ? [client.first_name, client.last_name].filter(Boolean).join(" ") : "A client";
+  await notify({
+    type: "payment_failed",
+    severity: "error",
+    title: `Service paused for non-payment: ${name}`,
+    body: `${formatCentsToDollars(dunningCase.amountDueCents)} still unpaid after ${day} days. Service resumes automatically once the invoice is paid.`,
+    link: `/app/office/clients/${dunningCase.clientId}`,
+    dedupeKey: notificationKey(dunningCase.id),
+    push: true,
+  });
+
+  await logDunning(supabase, dunningCase, "DUNNING_SUBSCRIPTION_PAUSED", { day, subscriptionIds: paused });
+  return true;
+}
+
+// ── Case lifecycle ──────────────────────────────────────────────────────────
+
+/**
+ * Record a failed invoice payment (from the Stripe webhook). Opens a case
+ * for the invoice and runs any steps already due (typically the day-0
+ * reminder), or bumps the failure count of the open one and leaves its next
+ * step to the cron.
+ */
+export async function recordPaymentFailure(
+  supabase: SupabaseClient,
+  input: {
+    stripeInvoiceId: string;
+    stripeCustomerId: string;
+    stripeSubscriptionId: string | null;
+    amountDueCents: number;
+    reason: string | null;
+  }
+): Promise<DunningCase | null> {
+  const { data: client } = await supabase
+    .from("clients")
+    .select("id, org_id")
+    .eq("stripe_customer_id", input.stripeCustomerId)
+    .single();
+
+  if (!client) {
+    console.log("Dunning: no client for Stripe customer", input.stripeCustomerId);
+    return null;
+  }
+
+  const settings = await getDunningSettings(supabase, client.org_id);
+  if (!settings.enabled) return null;
+
+  const now = new Date().toISOString();
+  const { data: existing } = await supabase
+    .from("dunning_cases")
+    .select(CASE_COLUMNS)
+    .eq("stripe_invoice_id", input.stripeInvoiceId)
+    .maybeSingle();
+
+  let dunningCase: DunningCase;
+
+  if (existing && existing.status === "ACTIVE") {
+    const { data: row } = await supabase
+      .from("dunning_cases")
+      .update({
+        failure_count: existing.failure_count + 1,
+        last_failure_reason: input.reason,
+        last_failed_at: now,
+        amount_due_cents: input.amountDueCents,
+      })
+      .eq("id", existing.id)
+      .select(CASE_COLUMNS)
+      .single();
+    dunningCase = mapDunningCase(row || existing);
+    await logDunning(supabase, dunningCase, "DUNNING_PAYMENT_FAILED", {
+      attempt: dunningCase.failureCount,
+      reason: input.reason,
+    });
+    // The case is already being walked (this may be our own retry failing);
+    // the cron takes its next step
+    return dunningCase;
+  } else {
+    const { data: invoice } = await supabase
+      .from("invoices")
+      .select("id")
+      .eq("stripe_invoice_id", input.stripeInvoiceId)
+      .maybeSingle();
+
+    const fields = {
+      org_id: client.org_id,
+      client_id: client.id,
+      invoice_id: invoice?.id || null,
+      stripe_invoice_id: input.stripeInvoiceId,
+      stripe_subscription_id: input.stripeSubscriptionId,
+      amount_due_cents: input.amountDueCents,
+      status: "ACTIVE",
+      failure_count: 1,
+      last_failure_reason: input.reason,
+      first_failed_at: now,
+      last_failed_at: now,
+      completed_steps: [],
+      card_link_token: null,
+      escalated_at: null,
+      paused_subscription_ids: [],
+      paused_at: null,
+      resolved_at: null,
+      resolution: null,
+    };
+
+    // A resolved invoice failing again (e.g. a disputed retry) starts over
+    const { data: row, error } = existing
+      ? await supabase.from("dunning_cases").update(fields).eq("id", existing.id).select(CASE_COLUMNS).single()
+      : await supabase.from("dunning_cases").insert(fields).select(CASE_COLUMNS).single();
+
+    if (error || !row) {
+      console.error("Error opening dunning case:", error);
+      return null;
+    }
+
+    dunningCase = mapDunningCase(row);
+    await logDunning(supabase, dunningCase, "DUNNING_STARTED", {
+      amountDueCents: input.amountDueCents,
+      reason: input.reason,
+    });
+  }
+
+  await processDunningCase(supabase, dunningCase, settings);
+  return dunningCase;
+}
+
+/**
+ * Run the steps that are due for one case. Missed days are caught up with a
+ * single action, so a case that sat through an outage gets one reminder, not
+ * three. Returns the step keys completed.
+ */
+export async function processDunningCase(
+  supabase: SupabaseClient,
+  dunningCase: DunningCase,
+  settings: DunningSettings,
+  now = new Date()
+): Promise<string[]> {
+  if (dunningCase.status !== "ACTIVE") return [];
+
+  const day = daysOpen(dunningCase, now);
+  const done = new Set(dunningCase.completedSteps);
+  const completed: string[] = [];
+
+  // Each step is claimed before it runs, so overlapping runs (the cron and a
+  // webhook) never retry or remind twice. A step that fails after its claim
+  // isn't repeated.
+  const dueRetries = settings.retryDays
+    .filter((d) => d <= day && !done.has(`retry:${d}`))
+    .map((d) => `retry:${d}`);
+  if (dueRetries.length > 0 && (await claimSteps(supabase, dunningCase, dueRetries))) {
+    completed.push(...dueRetries);
+    const paid = await retryCharge(supabase, dunningCase, day);
+    if (paid) {
+      await resolveDunningCase(supabase, dunningCase.stripeInvoiceId, "Paid on retry");
+      return completed;
+    }
+  }
+
+  // Texts and emails wait for the send window; the hourly cron picks them up
+  const dueReminders = settings.reminderDays
+    .filter((d) => d <= day && !done.has(`remind:${d}`))
+    .map((d) => `remind:${d}`);
+  if (
+    dueReminders.length > 0 &&
+    isWithinSendWindow(now, await loadSendWindow()) &&
+    (await claimSteps(supabase, dunningCase, dueReminders))
+  ) {
+    completed.push(...dueReminders);
+    await sendReminder(supabase, dunningCase, day);
+  }
+
+  if (
+    settings.escalateDay !== null &&
+    day >= settings.escalateDay &&
+    !dunningCase.escalatedAt &&
+    (await claimSteps(supabase, dunningCase, ["escalate"]))
+  ) {
+    completed.push("escalate");
+    await escalate(supabase, dunningCase, day);
+  }
+
+  if (
+    settings.pauseDay !== null &&
+    day >= settings.pauseDay &&
+    !dunningCase.pausedAt &&
+    (await claimSteps(supabase, dunningCase, ["pause"]))
+  ) {
+    // Unlike the other steps, a pause that didn't take is released so the
+    // next run tries again
+    let paused = false;
+    try {
+      paused = await pauseForNonPayment(supabase, dunningCase, day);
+    } finally {
+      if (paused) {
+        completed.push("pause");
+      } else {
+        await releaseStep(supabase, dunningCase, "pause");
+      }
+    }
+  }
+
+  return completed;
+}
+
+/**
+ * Add step keys to an active case's completed_steps unless another run
+ * already has. Compare-and-set on the stored list, retried if it moved.
+ */
+async function claimSteps(supabase: SupabaseClient, dunningCase: DunningCase, steps: string[]): Promise<boolean> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: row } = await supabase
+      .from("dunning_cases")
+      .select("status, completed_steps")
+      .eq("id", dunningCase.id)
+      .single();
+    if (!row || row.status !== "ACTIVE") return false;
+
+    const current: string[] = row.completed_steps || [];
+    dunningCase.completedSteps = current;
+    if (steps.some((step) => current.includes(step))) return false;
+
+    const next = [...current, ...steps];
+    const { data: updated } = await supabase
+      .from("dunning_cases")
+      .update({ completed_steps: next })
+      .eq("id", dunningCase.id)
+      .eq("completed_steps", JSON.stringify(current))
+      .select("id");
+    if (updated && updated.length > 0) {
+      dunningCase.completedSteps = next;
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Take a step key back out of a case's completed_steps so a later run can
+ * claim it again. Compare-and-set like claimSteps.
+ */
+async function releaseStep(supabase: SupabaseClient, dunningCase: DunningCase, step: string): Promise<void> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: row } = await supabase
+      .from("dunning_cases")
+      .select("completed_steps")
+      .eq("id", dunningCase.id)
+      .single();
+    const current: string[] = row?.completed_steps || [];
+    if (!current.includes(step)) return;
+
+    const next = current.filter((s) => s !== step);
+    const { data: updated } = await supabase
+      .from("dunning_cases")
+      .update({ completed_steps: next })
+      .eq("id", dunningCase.id)
+      .eq("completed_steps", JSON.stringify(current))
+      .select("id");
+    if (updated && updated.length > 0) {
+      dunningCase.completedSteps = next;
+      return;
+    }
+  }
+  console.error(`Could not release dunning step ${step} on case ${dunningCase.id}`);
+}
+
+/**
+ * Advance every open case (process-dunning cron)
+ */
+export async function runDunning(
+  supabase: SupabaseClient,
+  now = new Date()
+): Promise<{ processed: number; steps: number }> {
+  const { data: rows, error } = await supabase
+    .from("dunning_cases")
+    .select(CASE_COLUMNS)
+    .eq("status", "ACTIVE")
+    .order("first_failed_at", { ascending: true })
+    .limit(500);
+
+  if (error) {
+    console.error("Error loading dunning cases:", error);
+    throw new Error("Failed to load dunning cases");
+  }
+
+  const settingsByOrg = new Map<string, DunningSettings>();
+  let steps = 0;
+
+  for (const row of rows || []) {
+    const dunningCase = mapDunningCase(row);
+    let settings = settingsByOrg.get(dunningCase.orgId);
+    if (!settings) {
+      settings = await getDunningSettings(supabase, dunningCase.orgId);
+      settingsByOrg.set(dunningCase.orgId, settings);
+    }
+    if (!settings.enabled) continue;
+
+    try {
+      steps += (await processDunningCase(supabase, dunningCase, settings, now)).length;
+    } catch (error) {
+      console.error("Error processing dunning case:", dunningCase.id, error);
+    }
+  }
+
+  return { processed: rows?.length || 0, steps };
+}
+
+/**
+ * Close a case whose invoice got paid and undo what dunning did: resume the
+ * subscriptions it paused, clear PAST_DUE, expire the card link and dismiss
+ * the office notification. Safe to call for invoices without a case.
+ */
+export async function resolveDunningCase(
+  supabase: SupabaseClient,
+  stripeInvoiceId: string,
+  resolution = "Payment received"
+): Promise<boolean> {
+  const dunningCase = await closeDunningCase(supabase, stripeInvoiceId, "RESOLVED", resolution);
+  if (!dunningCase) return false;
+
+  let resumed = 0;
+  if (dunningCase.pausedSubscriptionIds.length > 0) {
+    const { data: subscriptions } = await supabase
+      .from("subscriptions")
+      .select("id, status, stripe_subscription_id")
+      .in("id", dunningCase.pausedSubscriptionIds)
+      .eq("status", "PAUSED");
+
+    for (const subscription of subscriptions || []) {
+      if (subscription.stripe_subscription_id) {
+        try {
+          await resumeStripeSubscription(subscription.stripe_subscription_id);
+        } catch (error) {
+          console.error("Error resuming Stripe subscription after dunning:", error);
+        }
+      }
+
+      await supabase
+        .from("subscriptions")
+        .update({ status: "ACTIVE", pause_start_date: null, pause_end_date: null })
+        .eq("id", subscription.id);
+
+      await handleSubscriptionStatusChange(supabase, subscription.id, dunningCase.orgId, "PAUSED", "ACTIVE");
+      resumed++;
+    }
+  }
+
+  if (dunningCase.stripeSubscriptionId) {
+    await supabase
+      .from("subscriptions")
+      .update({ status: "ACTIVE" })
+      .eq("stripe_subscription_id", dunningCase.stripeSubscriptionId)
+      .eq("status", "PAST_DUE");
+  }
+
+  await logDunning(supabase, dunningCase, "DUNNING_RESOLVED", {
+    resolution,
+    failureCount: dunningCase.failureCount,
+    subscriptionsResumed: resumed,
+  });
+
+  return true;
+}
+
+/**
+ * Stop dunning without resuming anything, e.g. when the invoice is voided
+ */
+export async function cancelDunningCase(
+  supabase: SupabaseClient,
+  stripeInvoiceId: string,
+  resolution: string
+): Promise<boolean> {
+  const dunningCase = await closeDunningCase(supabase, stripeInvoiceId, "CANCELED", resolution);
+  if (!dunningCase) return false;
+
+  await logDunning(supabase, dunningCase, "DUNNING_CANCELED", { resolution });
+  return true;
+}
+
+async function closeDunningCase(
+  supabase: SupabaseClient,
+  stripeInvoiceId: string,
+  status: DunningStatus,
+  resolution: string
+): Promise<DunningCase | null> {
+  const { data: row } = await supabase
+    .from("dunning_cases")
+    .update({ status, resolution, resolved_at: new Date().toISOString() })
+    .eq("stripe_invoice_id", stripeInvoiceId)
+    .eq("status", "ACTIVE")
+    .select(CASE_COLUMNS)
+    .maybeSingle();
+
+  if (!row) return null;
+  const dunningCase = mapDunningCase(row);
+
+  if (dunningCase.cardLinkToken) {
+    await supabase
+      .from("credit_card_links")
+      .update({ expires_at: new Date().toISOString() })
+      .eq("token", dunningCase.cardLinkToken)
+      .is("used_at", null);
+  }
+
+  await dismissNotification(notificationKey(dunningCase.id));
+  return dunningCase;
+}
+
+/**
+ * Retry the client's open dunning invoices right away with a newly added
+ * card (add-card link). Returns how many were paid.
+ */
+export async function retryDunningForClient(
+  supabase: SupabaseClient,
+  clientId: string,
+  paymentMethodId: string
+): Promise<number> {
+  const { data: rows } = await supabase
+    .from("dunning_cases")
+    .select(CASE_COLUMNS)
+    .eq("client_id", clientId)
+    .eq("status", "ACTIVE");
+
+  let paid = 0;
+  for (const row of rows || []) {
+    const dunningCase = mapDunningCase(row);
+    if (await retryCharge(supabase, dunningCase, daysOpen(dunningCase, new Date()), paymentMethodId)) {
+      await resolveDunningCase(supabase, dunningCase.stripeInvoiceId, "Paid with updated card");
+      paid++;
+    }
+  }
+  return paid;
+}
+
+/**
+ * A client's dunning cases, newest first (office client page)
+ */
+export async function listClientDunningCases(
+  supabase: SupabaseClient,
+  orgId: string,
+  clientId: string
+): Promise<DunningCase[]> {
+  const { data } = await supabase
+    .from("dunning_cases")
+    .select(CASE_COLUMNS)
+    .eq("org_id", orgId)
+    .eq("client_id", clientId)
+    .order("first_failed_at", { ascending: false })
+    .limit(20);
+
+  return (data || []).map(mapDunningCase);
+}
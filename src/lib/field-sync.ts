@@ -0,0 +1,217 @@
+/**
+ * Field Sync
+ *
+ * Server side of the tech app's offline outbox (src/lib/pwa/field-outbox.ts).
+ * Queued field actions arrive with a `clientKey`, the time the tech actually
+ * took the action (`occurredAt`) and a snapshot of the job as the device saw
+ * it then (`base`). Each one is recorded in field_sync_events:
+ *
+ * - a clientKey that already applied is answered from the stored result, so a
+ *   replay whose response was lost never applies twice;
+ * - if the office changed the job in the meantime (rescheduled, reassigned,
+ *   moved it to another status, canceled it or put it on hold) the action is
+ *   refused as a conflict. The tech can resend with `force` to keep their
+ *   version, except for canceled and on-hold jobs. A forced action still has
+ *   to be a valid transition from the job's current status;
+ * - a replay onto the final status the job already has (completed or
+ *   skipped) changes nothing and is answered as a duplicate.
+ *
+ * Requests without a clientKey (live, online) behave as before.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+
+/** The job as the device last saw it when the action was queued */
+export interface JobSnapshot {
+  status?: string;
+  scheduledDate?: string;
+  assignedTo?: string | null;
+}
+
+export interface FieldSyncMeta {
+  clientKey: string;
+  occurredAt: string;
+  base: JobSnapshot | null;
+  force: boolean;
+}
+
+export type FieldSyncConflictReason =
+  | "canceled"
+  | "on_hold"
+  | "reassigned"
+  | "rescheduled"
+  | "status_changed";
+
+export interface FieldSyncConflict {
+  reason: FieldSyncConflictReason;
+  message: string;
+  /** Whether resending with force may override the office's change */
+  forceable: boolean;
+  current: {
+    status: string;
+    scheduledDate: string;
+    assignedTo: string | null;
+  };
+}
+
+export interface FieldSyncEvent {
+  id: string;
+  status: "APPLIED" | "CONFLICT";
+  result: Record<string, unknown> | null;
+}
+
+// Outbox items older than this are still applied, but stamped with the time
+// they were synced rather than trusted blindly
+const MAX_BACKDATE_MS = 7 * 24 * 60 * 60 * 1000;
+// Clock skew allowed for device timestamps in the future
+const MAX_FUTURE_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * Read the outbox fields off a request body; null for live requests
+ */
+export function parseFieldSyncMeta(body: Record<string, unknown>): FieldSyncMeta | null {
+  const clientKey = typeof body.clientKey === "string" ? body.clientKey.trim() : "";
+  if (!clientKey) return null;
+
+  const now = Date.now();
+  const occurred = typeof body.occurredAt === "string" ? Date.parse(body.occurredAt) : NaN;
+  const occurredAt =
+    Number.isFinite(occurred) && occurred <= now + MAX_FUTURE_SKEW_MS && occurred >= now - MAX_BACKDATE_MS
+      ? new Date(Math.min(occurred, now)).toISOString()
+      : new Date(now).toISOString();
+
+  const rawBase = body.base && typeof body.base === "object" ? (body.base as Record<string, unknown>) : null;
+  const base: JobSnapshot | null = rawBase
+    ? {
+        status: typeof rawBase.status === "string" ? rawBase.status : undefined,
+        scheduledDate: typeof rawBase.scheduledDate === "string" ? rawBase.scheduledDate : undefined,
+        assignedTo:
+          rawBase.assignedTo === null || typeof rawBase.assignedTo === "string"
+            ? (rawBase.assignedTo as string | null)
+            : undefined,
+      }
+    : null;
+
+  return {
+    clientKey,
+    occurredAt,
+    base,
+    force: body.force === true || body.force === "true",
+  };
+}
+
+/**
+ * The recorded outcome of an earlier replay of this clientKey, if any
+ */
+export async function findFieldSyncEvent(
+  supabase: SupabaseClient,
+  orgId: string,
+  clientKey: string
+): Promise<FieldSyncEvent | null> {
+  const { data } = await supabase
+    .from("field_sync_events")
+    .select("id, status, result")
+    .eq("org_id", orgId)
+    .eq("client_key", clientKey)
+    .maybeSingle();
+
+  return (data as FieldSyncEvent | null) || null;
+}
+
+/**
+ * Did the office change the job since the device queued this action?
+ */
+export function detectJobConflict(
+  job: { status: string; scheduled_date: string; assigned_to: string | null },
+  meta: FieldSyncMeta
+): FieldSyncConflict | null {
+  const current = {
+    status: job.status,
+    scheduledDate: job.scheduled_date,
+    assignedTo: job.assigned_to,
+  };
+
+  if (job.status === "CANCELED") {
+    return {
+      reason: "canceled",
+      message: "The office canceled this job while you were offline",
+      forceable: false,
+      current,
+    };
+  }
+  if (job.status === "ON_HOLD") {
+    return {
+      reason: "on_hold",
+      message: "This job was put on a vacation hold while you were offline",
+      forceable: false,
+      current,
+    };
+  }
+
+  const base = meta.base;
+  if (meta.force || !base) return null;
+
+  if (base.assignedTo !== undefined && job.assigned_to !== base.assignedTo) {
+    return {
+      reason: "reassigned",
+      message: "The office reassigned this job while you were offline",
+      forceable: true,
+      current,
+    };
+  }
+  if (base.scheduledDate && job.scheduled_date !== base.scheduledDate) {
+    return {
+      reason: "rescheduled",
+      message: `The office moved this job to ${job.scheduled_date} while you were offline`,
+      forceable: true,
+      current,
+    };
+  }
+  if (base.status && job.status !== base.status) {
+    return {
+      reason: "status_changed",
+      message: `The office marked this job ${job.status.replace("_", " ").toLowerCase()} while you were offline`,
+      forceable: true,
+      current,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Record a replayed action's outcome under its clientKey
+ */
+export async function recordFieldSyncEvent(
+  supabase: SupabaseClient,
+  params: {
+    orgId: string;
+    userId: string;
+    jobId: string | null;
+    kind: string;
+    meta: FieldSyncMeta;
+    status: "APPLIED" | "CONFLICT";
+    conflict?: FieldSyncConflict | null;
+    result?: Record<string, unknown> | null;
+  }
+): Promise<void> {
+  const { error } = await supabase.from("field_sync_events").upsert(
+    {
+      org_id: params.orgId,
+      user_id: params.userId,
+      job_id: params.jobId,
+      client_key: params.meta.clientKey,
+      kind: params.kind,
+      occurred_at: params.meta.occurredAt,
+      status: params.status,
+      forced: params.meta.force,
+      conflict: params.conflict || null,
+      result: params.result || null,
+    },
+    { onConflict: "client_key" }
+  );
+
+  if (error) {
+    console.error("Error recording field sync event:", error);
+  }
+}
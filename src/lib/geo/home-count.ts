@@ -1,7 +1,8 @@
 // Estimate how many homes sit inside a drawn polygon by counting residential
 // building footprints from OpenStreetMap (Overpass API). This is the best free
 // signal available for an arbitrary shape; coverage is strong in mapped suburbs
-// like the Inland Empire. It's an estimate, not a parcel-exact count.
+// like the Inland Empire. It's an estimate, not a parcel-exact count. The same
+// footprints, listed as points, seed canvassing walk lists.
 
 type Ring = [number, number][]; // [lng, lat] points
 
@@ -45,11 +46,20 @@ export function ringAcres(ring: Ring): number {
   return m2 / 4046.8564224; // m² → acres
 }
 
-export async function countHomesInPolygon(ring: Ring): Promise<{ count: number } | { error: string }> {
-  if (!ringIsValid(ring)) return { error: "Invalid area." };
-  const poly = polyString(ring);
-  const query = `[out:json][timeout:25];(way["building"~"${RESIDENTIAL}",i](poly:"${poly}");relation["building"~"${RESIDENTIAL}",i](poly:"${poly}"););out count;`;
+/** Whether a lng/lat point falls inside a ring (ray casting; edges are ambiguous). */
+export function pointInRing(lng: number, lat: number, ring: Ring): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
 
+// POST an Overpass QL query, falling back across mirrors. null if none answer.
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function runOverpass(query: string): Promise<any | null> {
   for (const url of ENDPOINTS) {
     try {
       const controller = new AbortController();
@@ -66,12 +76,58 @@ export async function countHomesInPolygon(ring: Ring): Promise<{ count: number }
       clearTimeout(timer);
       if (!res.ok) continue;
       const data = await res.json().catch(() => null);
-      const el = data?.elements?.find((e: { type?: string }) => e?.type === "count");
-      const total = el?.tags?.total ?? el?.count?.total;
-      if (total != null) return { count: parseInt(String(total), 10) || 0 };
+      if (data) return data;
     } catch {
       // try the next endpoint
     }
   }
-  return { error: "Couldn't reach the map data service. Try again in a moment." };
+  return null;
+}
+
+const UNREACHABLE = "Couldn't reach the map data service. Try again in a moment.";
+
+export async function countHomesInPolygon(ring: Ring): Promise<{ count: number } | { error: string }> {
+  if (!ringIsValid(ring)) return { error: "Invalid area." };
+  const poly = polyString(ring);
+  const query = `[out:json][timeout:25];(way["building"~"${RESIDENTIAL}",i](poly:"${poly}");relation["building"~"${RESIDENTIAL}",i](poly:"${poly}"););out count;`;
+
+  const data = await runOverpass(query);
+  const el = data?.elements?.find((e: { type?: string }) => e?.type === "count");
+  const total = el?.tags?.total ?? el?.count?.total;
+  if (total != null) return { count: parseInt(String(total), 10) || 0 };
+  return { error: UNREACHABLE };
+}
+
+export interface FootprintHome {
+  lat: number;
+  lng: number;
+  /** "123 Main St" when OSM has address tags on the building; often missing */
+  address: string | null;
+  city: string | null;
+  zipCode: string | null;
+}
+
+/** Each residential footprint in the polygon as a point (its center), with
+ *  whatever address tags OSM has. Same building filter as the count. */
+export async function listHomesInPolygon(ring: Ring): Promise<{ homes: FootprintHome[] } | { error: string }> {
+  if (!ringIsValid(ring)) return { error: "Invalid area." };
+  const poly = polyString(ring);
+  const query = `[out:json][timeout:25];(way["building"~"${RESIDENTIAL}",i](poly:"${poly}");relation["building"~"${RESIDENTIAL}",i](poly:"${poly}"););out center tags;`;
+
+  const data = await runOverpass(query);
+  if (!Array.isArray(data?.elements)) return { error: UNREACHABLE };
+  const homes: FootprintHome[] = [];
+  for (const e of data.elements as Array<{ center?: { lat: number; lon: number }; tags?: Record<string, string> }>) {
+    if (!e.center || !Number.isFinite(e.center.lat) || !Number.isFinite(e.center.lon)) continue;
+    const t = e.tags ?? {};
+    const street = [t["addr:housenumber"], t["addr:street"]].filter(Boolean).join(" ");
+    homes.push({
+      lat: e.center.lat,
+      lng: e.center.lon,
+      address: t["addr:housenumber"] && t["addr:street"] ? street : null,
+      city: t["addr:city"] || null,
+      zipCode: t["addr:postcode"] || null,
+    });
+  }
+  return { homes };
 }
@@ -0,0 +1,402 @@
+/**
+ * Service Holiday Calendar
+ *
+ * Org-level holiday / blackout dates and the policy applied to visits that
+ * fall on them. Shared by the job generation cron, regenerateJobsForSubscription,
+ * the office holiday settings API and the client schedule.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { sendClientNotification } from "./notifications";
+
+export type HolidayPolicy = "SKIP" | "SHIFT_NEXT" | "SHIFT_PREVIOUS";
+
+export const HOLIDAY_POLICIES: HolidayPolicy[] = ["SKIP", "SHIFT_NEXT", "SHIFT_PREVIOUS"];
+
+export interface ServiceHoliday {
+  id: string;
+  date: string; // YYYY-MM-DD
+  name: string;
+  policy: HolidayPolicy;
+  notifyClients: boolean;
+}
+
+/** Holidays keyed by YYYY-MM-DD */
+export type HolidayCalendar = Map<string, ServiceHoliday>;
+
+/** Holiday details stamped on jobs.metadata.holiday when a visit is moved or skipped */
+export interface JobHolidayMetadata {
+  id: string;
+  name: string;
+  policy: HolidayPolicy;
+  original_date: string;
+}
+
+export interface HolidayResolution {
+  /** Date the visit should happen on, or null when it is skipped */
+  date: string | null;
+  /** Holiday that caused the change, if any */
+  holiday: ServiceHoliday | null;
+}
+
+export interface HolidayJobChange {
+  jobId: string;
+  clientId: string;
+  originalDate: string;
+  newDate: string | null;
+}
+
+// A shift never moves a visit further than this; past it the visit is skipped.
+const MAX_SHIFT_DAYS = 7;
+
+export function addDaysToDateString(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+function isSunday(date: string): boolean {
+  return new Date(`${date}T00:00:00Z`).getUTCDay() === 0;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function mapHoliday(row: any): ServiceHoliday {
+  return {
+    id: row.id,
+    date: row.date,
+    name: row.name,
+    policy: row.policy,
+    notifyClients: row.notify_clients !== false,
+  };
+}
+
+/**
+ * Load holidays covering a date range. The range is padded by the maximum
+ * shift distance so shifted visits can check the days they land on.
+ */
+export async function getHolidayCalendar(
+  supabase: SupabaseClient,
+  orgId: string,
+  startDate: string,
+  endDate: string
+): Promise<HolidayCalendar> {
+  const { data, error } = await supabase
+    .from("service_holidays")
+    .select("id, date, name, policy, notify_clients")
+    .eq("org_id", orgId)
+    .gte("date", addDaysToDateString(startDate, -MAX_SHIFT_DAYS))
+    .lte("date", addDaysToDateString(endDate, MAX_SHIFT_DAYS));
+
+  if (error) {
+    console.error("Error fetching service holidays:", error);
+  }
+
+  const calendar: HolidayCalendar = new Map();
+  for (const row of data || []) {
+    calendar.set(row.date, mapHoliday(row));
+  }
+  return calendar;
+}
+
+/**
+ * Resolve where a visit planned for `date` actually happens.
+ * Shifted visits land on the nearest non-Sunday, non-holiday day in the
+ * policy's direction, and never before `earliestDate` (usually today).
+ */
+export function resolveServiceDate(
+  date: string,
+  calendar: HolidayCalendar,
+  earliestDate?: string
+): HolidayResolution {
+  const holiday = calendar.get(date);
+  if (!holiday) {
+    return { date, holiday: null };
+  }
+
+  if (holiday.policy === "SKIP") {
+    return { date: null, holiday };
+  }
+
+  const step = holiday.policy === "SHIFT_NEXT" ? 1 : -1;
+  let candidate = date;
+  for (let i = 0; i < MAX_SHIFT_DAYS; i++) {
+    candidate = addDaysToDateString(candidate, step);
+    if (earliestDate && candidate < earliestDate) break;
+    if (!isSunday(candidate) && !calendar.has(candidate)) {
+      return { date: candidate, holiday };
+    }
+  }
+
+  return { date: null, holiday };
+}
+
+export function buildHolidayMetadata(
+  holiday: ServiceHoliday,
+  originalDate: string
+): JobHolidayMetadata {
+  return {
+    id: holiday.id,
+    name: holiday.name,
+    policy: holiday.policy,
+    original_date: originalDate,
+  };
+}
+
+export function holidaySkipReason(holiday: ServiceHoliday): string {
+  return `Holiday: ${holiday.name}`;
+}
+
+/**
+ * Apply a holiday to jobs already scheduled on its date. Skipped visits are
+ * canceled; shifted visits are moved and taken off their route so dispatch
+ * can place them on the new day.
+ */
+export async function applyHolidayToScheduledJobs(
+  supabase: SupabaseClient,
+  orgId: string,
+  holiday: ServiceHoliday
+): Promise<HolidayJobChange[]> {
+  const today = new Date().toISOString().split("T")[0];
+  if (holiday.date < today) {
+    return [];
+  }
+
+  const { data: jobs, error } = await supabase
+    .from("jobs")
+    .select("id, client_id, subscription_id, metadata")
+    .eq("org_id", orgId)
+    .eq("scheduled_date", holiday.date)
+    .eq("status", "SCHEDULED");
+
+  if (error) {
+    console.error("Error fetching jobs for holiday:", error);
+    return [];
+  }
+
+  if (!jobs || jobs.length === 0) {
+    return [];
+  }
+
+  const calendar = await getHolidayCalendar(supabase, orgId, holiday.date, holiday.date);
+  calendar.set(holiday.date, holiday);
+  const resolution = resolveServiceDate(holiday.date, calendar, today);
+  const holidayMeta = buildHolidayMetadata(holiday, holiday.date);
+
+  const changes: HolidayJobChange[] = [];
+
+  for (const job of jobs) {
+    let newDate = resolution.date;
+
+    // Don't stack two visits for the same subscription on one day
+    if (newDate && job.subscription_id) {
+      const { data: collision } = await supabase
+        .from("jobs")
+        .select("id")
+        .eq("subscription_id", job.subscription_id)
+        .eq("scheduled_date", newDate)
+        .neq("status", "CANCELED")
+        .limit(1);
+
+      if (collision && collision.length > 0) {
+        newDate = null;
+      }
+    }
+
+    const metadata = { ...(job.metadata || {}), holiday: holidayMeta };
+    const update = newDate
+      ? { scheduled_date: newDate, route_id: null, route_order: null, metadata }
+      : { status: "CANCELED", skip_reason: holidaySkipReason(holiday), route_id: null, route_order: null, metadata };
+
+    const { error: updateError } = await supabase
+      .from("jobs")
+      .update(update)
+      .eq("id", job.id);
+
+    if (updateError) {
+      console.error(`Error applying holiday to job ${job.id}:`, updateError);
+      continue;
+    }
+
+    await supabase.from("route_stops").delete().eq("job_id", job.id);
+
+    changes.push({
+      jobId: job.id,
+      clientId: job.client_id,
+      originalDate: holiday.date,
+      newDate,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Undo a holiday on upcoming jobs it moved or skipped, returning them to
+ * their original date. Used when a holiday is removed or its policy changes.
+ */
+export async function revertHolidayJobs(
+  supabase: SupabaseClient,
+  orgId: string,
+  holiday: ServiceHoliday
+): Promise<number> {
+  const today = new Date().toISOString().split("T")[0];
+
+  const { data: jobs, error } = await supabase
+    .from("jobs")
+    .select("id, status, skip_reason, metadata")
+    .eq("org_id", orgId)
+    .eq("metadata->holiday->>id", holiday.id)
+    .gte("scheduled_date", today)
+    .in("status", ["SCHEDULED", "CANCELED"]);
+
+  if (error) {
+    console.error("Error fetching holiday jobs:", error);
+    return 0;
+  }
+
+  let reverted = 0;
+
+  for (const job of jobs || []) {
+    // Only undo cancellations the holiday itself made
+    if (job.status === "CANCELED" && job.skip_reason !== holidaySkipReason(holiday)) {
+      continue;
+    }
+
+    const { holiday: holidayMeta, ...metadata } = job.metadata || {};
+    const originalDate = (holidayMeta as JobHolidayMetadata | undefined)?.original_date;
+    if (!originalDate || originalDate < today) {
+      continue;
+    }
+
+    const { error: updateError } = await supabase
+      .from("jobs")
+      .update({
+        scheduled_date: originalDate,
+        status: "SCHEDULED",
+        skip_reason: null,
+        route_id: null,
+        route_order: null,
+        metadata,
+      })
+      .eq("id", job.id);
+
+    if (updateError) {
+      console.error(`Error reverting holiday on job ${job.id}:`, updateError);
+      continue;
+    }
+
+    await supabase.from("route_stops").delete().eq("job_id", job.id);
+    reverted++;
+  }
+
+  return reverted;
+}
+
+function formatNoticeDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+/**
+ * Send the OFF_SCHEDULE notice to clients whose visits a holiday changed.
+ * Each client is notified at most once per holiday; a notice that fails to
+ * send is released so a later run tries again.
+ */
+export async function notifyHolidayChanges(
+  supabase: SupabaseClient,
+  orgId: string,
+  holiday: ServiceHoliday,
+  changes: HolidayJobChange[]
+): Promise<number> {
+  if (!holiday.notifyClients || changes.length === 0) {
+    return 0;
+  }
+
+  const byClient = new Map<string, HolidayJobChange>();
+  for (const change of changes) {
+    if (!byClient.has(change.clientId)) {
+      byClient.set(change.clientId, change);
+    }
+  }
+
+  // Claim the notice rows first so concurrent paths don't double-send
+  const { data: claimed, error: claimError } = await supabase
+    .from("service_holiday_notices")
+    .upsert(
+      Array.from(byClient.values()).map((change) => ({
+        org_id: orgId,
+        holiday_id: holiday.id,
+        client_id: change.clientId,
+        job_id: change.jobId,
+      })),
+      { onConflict: "holiday_id,client_id", ignoreDuplicates: true }
+    )
+    .select("client_id");
+
+  if (claimError) {
+    console.error("Error recording holiday notices:", claimError);
+    return 0;
+  }
+
+  const clientIds = (claimed || []).map((row) => row.client_id);
+  if (clientIds.length === 0) {
+    return 0;
+  }
+
+  const { data: clients } = await supabase
+    .from("clients")
+    .select("id, first_name, last_name, phone, email")
+    .in("id", clientIds);
+
+  let sent = 0;
+  const unsent = new Set(clientIds);
+
+  for (const client of clients || []) {
+    const change = byClient.get(client.id);
+    if (!change) continue;
+
+    const originalDate = formatNoticeDate(change.originalDate);
+    const newDate = change.newDate ? formatNoticeDate(change.newDate) : "";
+
+    try {
+      const results = await sendClientNotification({
+        orgId,
+        clientId: client.id,
+        jobId: change.jobId,
+        type: "OFF_SCHEDULE",
+        phone: client.phone || undefined,
+        email: client.email || undefined,
+        variables: {
+          client_first_name: client.first_name || "there",
+          client_name: `${client.first_name || ""} ${client.last_name || ""}`.trim() || "Customer",
+          holiday_name: holiday.name,
+          original_date: originalDate,
+          new_date: newDate,
+          schedule_change: newDate
+            ? `your service on ${originalDate} has moved to ${newDate} for ${holiday.name}`
+            : `your service on ${originalDate} is skipped for ${holiday.name}`,
+        },
+      });
+
+      if (results.sms?.success || results.email?.success) {
+        unsent.delete(client.id);
+        sent++;
+      }
+    } catch (error) {
+      console.error(`Error sending holiday notice to client ${client.id}:`, error);
+    }
+  }
+
+  if (unsent.size > 0) {
+    await supabase
+      .from("service_holiday_notices")
+      .delete()
+      .eq("holiday_id", holiday.id)
+      .in("client_id", Array.from(unsent));
+  }
+
+  return sent;
+}
@@ -0,0 +1,683 @@
+/**
+ * Unified Inbox
+ *
+ * One thread per client or lead in /app/office/messages, merging every channel
+ * the customer reaches us on:
+ *   - SMS: Quo texts (/api/webhooks/quo). Client texts are threaded as
+ *     messages rows; lead texts stay in Prisma LeadMessage (so the /admin lead
+ *     page and the inbox show the same history) and are merged in on read.
+ *   - EMAIL: replies to our emails, captured by Resend inbound
+ *     (email.received on /api/webhooks/resend).
+ *   - PORTAL: messages clients send from /app/client/messages.
+ *
+ * The conversation's channel is the one the customer last wrote on, and is
+ * where replies go unless the staffer picks another. An inbound message marks
+ * the thread unread and needs-reply; replying clears both. New inbound
+ * messages run the org's reply_forwarding_rules (email, SMS or push to the
+ * assigned staffer).
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import type { LeadSource } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { sendSms, isQuoConfigured, normalizePhoneNumber, getQuoFromNumber } from "@/lib/quo";
+import { sendEmail, isResendConfigured, renderTemplate, wrapEmailHtml } from "@/lib/resend";
+import { isOptedOut } from "@/lib/sms-optout";
+import { sendStaffPush } from "@/lib/web-push";
+
+export type InboxChannel = "SMS" | "EMAIL" | "PORTAL";
+
+export interface InboxLead {
+  type: LeadSource;
+  id: string;
+  name: string | null;
+}
+
+export type InboxParty = { clientId: string } | { lead: InboxLead };
+
+export interface InboxMessage {
+  id: string;
+  channel: InboxChannel;
+  direction: "INBOUND" | "OUTBOUND";
+  subject: string | null;
+  body: string;
+  status: string;
+  sentBy: string | null;
+  createdAt: string;
+}
+
+interface ConversationRow {
+  id: string;
+  org_id: string;
+  client_id: string | null;
+  lead_type: LeadSource | null;
+  lead_id: string | null;
+  contact_name: string | null;
+  staff_id: string | null;
+  channel: InboxChannel;
+  participant_their: string;
+  unread_count: number;
+}
+
+const CONVERSATION_COLUMNS =
+  "id, org_id, client_id, lead_type, lead_id, contact_name, staff_id, channel, participant_their, unread_count";
+
+const LEAD_PATHS: Partial<Record<LeadSource, string>> = {
+  QUOTE_FORM: "quote-leads",
+  AD_LEAD: "ad-leads",
+  CANVASSER: "canvasser-leads",
+};
+
+export class InboxError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "InboxError";
+    this.status = status;
+  }
+}
+
+/** The /admin page for a lead thread, when the lead type has one */
+export function leadAdminPath(type: string | null, id: string | null): string | null {
+  if (!type || !id) return null;
+  const path = LEAD_PATHS[type as LeadSource];
+  return path ? `/admin/${path}/${id}` : null;
+}
+
+function inboundEmailAddress(): string {
+  return (
+    process.env.INBOUND_EMAIL_ADDRESS ||
+    process.env.RESEND_FROM_EMAIL ||
+    process.env.EMAIL_FROM_EMAIL ||
+    ""
+  );
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** "Jane Doe <jane@example.com>" → "jane@example.com" */
+export function emailAddressOf(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim().toLowerCase();
+}
+
+/**
+ * The new part of an email reply: everything above the quoted original
+ * ("On … wrote:" or a "> " block)
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const kept: string[] = [];
+  for (const line of lines) {
+    if (/^On .+wrote:\s*$/i.test(line.trim()) || /^-{2,}\s*Original Message/i.test(line.trim())) break;
+    if (line.startsWith(">")) break;
+    kept.push(line);
+  }
+  const reply = kept.join("\n").trim();
+  return reply || text.trim();
+}
+
+async function findConversation(
+  supabase: SupabaseClient,
+  orgId: string,
+  party: InboxParty
+): Promise<ConversationRow | null> {
+  let query = supabase
+    .from("message_conversations")
+    .select(CONVERSATION_COLUMNS)
+    .eq("org_id", orgId)
+    .neq("status", "ARCHIVED");
+
+  query = "clientId" in party
+    ? query.eq("client_id", party.clientId)
+    : query.eq("lead_type", party.lead.type).eq("lead_id", party.lead.id);
+
+  const { data } = await query
+    .order("last_message_at", { ascending: false, nullsFirst: false })
+    .limit(1)
+    .maybeSingle();
+  return (data as ConversationRow | null) || null;
+}
+
+/**
+ * Get the thread for a client or lead, creating it if they've never been in
+ * the inbox
+ */
+export async function ensureConversation(
+  supabase: SupabaseClient,
+  orgId: string,
+  party: InboxParty,
+  channel: InboxChannel,
+  participantTheir: string
+): Promise<ConversationRow | null> {
+  const existing = await findConversation(supabase, orgId, party);
+  if (existing) return existing;
+
+  const participantOur =
+    channel === "SMS" ? getQuoFromNumber() : channel === "EMAIL" ? inboundEmailAddress() : "portal";
+
+  const { data, error } = await supabase
+    .from("message_conversations")
+    .insert({
+      org_id: orgId,
+      client_id: "clientId" in party ? party.clientId : null,
+      lead_type: "lead" in party ? party.lead.type : null,
+      lead_id: "lead" in party ? party.lead.id : null,
+      contact_name: "lead" in party ? party.lead.name : null,
+      channel,
+      status: "OPEN",
+      participant_our: participantOur || "",
+      participant_their: participantTheir,
+      last_message_at: new Date().toISOString(),
+    })
+    .select(CONVERSATION_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error("Error creating conversation:", error);
+    return null;
+  }
+  return data as ConversationRow;
+}
+
+/**
+ * Thread an inbound message from a client or lead: reopen the conversation,
+ * switch it to the channel they used, mark it unread and needs-reply, and run
+ * the forwarding rules. Lead texts are already stored as LeadMessage, so the
+ * caller passes threadMessage: false for those.
+ */
+export async function recordInboundMessage(
+  supabase: SupabaseClient,
+  input: {
+    orgId: string;
+    party: InboxParty;
+    channel: InboxChannel;
+    from: string;
+    body: string;
+    subject?: string | null;
+    provider: string;
+    providerId?: string | null;
+    metadata?: Record<string, unknown>;
+    threadMessage?: boolean;
+  }
+): Promise<string | null> {
+  const conversation = await ensureConversation(supabase, input.orgId, input.party, input.channel, input.from);
+  if (!conversation) return null;
+
+  if (input.threadMessage !== false) {
+    await supabase.from("messages").insert({
+      org_id: input.orgId,
+      conversation_id: conversation.id,
+      channel: input.channel,
+      direction: "INBOUND",
+      subject: input.subject || null,
+      body: input.body,
+      status: "DELIVERED", // inbound is received; RECEIVED is not a valid status value
+      provider: input.provider,
+      provider_id: input.providerId || null,
+      metadata: { from: input.from, ...(input.metadata || {}) },
+    });
+  }
+
+  const now = new Date().toISOString();
+  await supabase
+    .from("message_conversations")
+    .update({
+      channel: input.channel,
+      participant_their: input.from,
+      status: "OPEN",
+      needs_reply: true,
+      unread_count: (conversation.unread_count ?? 0) + 1,
+      last_message_at: now,
+      last_inbound_at: now,
+      updated_at: now,
+      ...("lead" in input.party && input.party.lead.name ? { contact_name: input.party.lead.name } : {}),
+    })
+    .eq("id", conversation.id);
+
+  let contactName = conversation.contact_name;
+  if (conversation.client_id) {
+    const { data: client } = await supabase
+      .from("clients")
+      .select("first_name, last_name")
+      .eq("id", conversation.client_id)
+      .single();
+    if (client) contactName = `${client.first_name || ""} ${client.last_name || ""}`.trim();
+  }
+
+  await routeInboundMessage(supabase, {
+    orgId: input.orgId,
+    conversation,
+    channel: input.channel,
+    from: input.from,
+    contactName: contactName || input.from,
+    body: input.body,
+  });
+
+  return conversation.id;
+}
+
+/**
+ * Apply the org's reply_forwarding_rules to a new inbound message. Rules can
+ * be limited to channels (conditions.channels). PUSH rules go to a staff user
+ * id, or to whoever the conversation is assigned to (ASSIGNED). Never throws.
+ */
+export async function routeInboundMessage(
+  supabase: SupabaseClient,
+  input: {
+    orgId: string;
+    conversation: { id: string; staff_id: string | null } | null;
+    channel: InboxChannel;
+    from: string;
+    contactName: string;
+    body: string;
+  }
+): Promise<void> {
+  try {
+    const { data: rules } = await supabase
+      .from("reply_forwarding_rules")
+      .select("forward_to_type, forward_to_value, conditions")
+      .eq("org_id", input.orgId)
+      .eq("is_enabled", true);
+    if (!rules || rules.length === 0) return;
+
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "";
+    const link = input.conversation
+      ? `/app/office/messages?conversation=${input.conversation.id}`
+      : "/app/office/messages";
+    const channelLabel = input.channel === "SMS" ? "SMS" : input.channel === "EMAIL" ? "email" : "portal message";
+    const pushUserIds = new Set<string>();
+
+    for (const rule of rules) {
+      const channels = (rule.conditions as { channels?: string[] } | null)?.channels;
+      if (Array.isArray(channels) && channels.length > 0 && !channels.includes(input.channel)) continue;
+
+      if (rule.forward_to_type === "EMAIL" && rule.forward_to_value) {
+        await sendEmail({
+          to: rule.forward_to_value,
+          subject: `New ${channelLabel} from ${input.contactName}`,
+          html: wrapEmailHtml(`
+            <p>You received a new ${channelLabel}:</p>
+            <blockquote style="border-left: 4px solid #14b8a6; padding-left: 16px; margin: 16px 0;">
+              ${escapeHtml(input.body)}
+            </blockquote>
+            <p><strong>From:</strong> ${escapeHtml(input.contactName)} (${escapeHtml(input.from)})</p>
+            <p><a href="${siteUrl}${link}">View in Dashboard</a></p>
+          `),
+        }).catch((e) => console.error("[inbox] forward email failed:", e));
+      } else if (rule.forward_to_type === "SMS" && rule.forward_to_value && isQuoConfigured()) {
+        const to = normalizePhoneNumber(rule.forward_to_value);
+        if (to) {
+          await sendSms({
+            to,
+            body: `New ${channelLabel} from ${input.contactName}: ${input.body.slice(0, 300)}`,
+          }).catch((e) => console.error("[inbox] forward SMS failed:", e));
+        }
+      } else if (rule.forward_to_type === "PUSH" && rule.forward_to_value) {
+        const userId = rule.forward_to_value === "ASSIGNED" ? input.conversation?.staff_id : rule.forward_to_value;
+        if (userId) pushUserIds.add(userId);
+      }
+    }
+
+    if (pushUserIds.size > 0) {
+      await sendStaffPush(supabase, [...pushUserIds], {
+        title: `💬 ${input.contactName}`,
+        body: input.body.slice(0, 120),
+        url: link,
+        tag: `inbox-${input.conversation?.id || input.from}`,
+        renotify: true,
+      });
+    }
+  } catch (error) {
+    console.error("[inbox] forwarding failed:", error);
+  }
+}
+
+/** A thread's messages, oldest first, with lead texts merged in from LeadMessage */
+export async function getThread(
+  supabase: SupabaseClient,
+  conversation: { id: string; lead_type: string | null; lead_id: string | null }
+): Promise<InboxMessage[]> {
+  const { data: rows } = await supabase
+    .from("messages")
+    .select("id, channel, direction, subject, body, status, sent_by, created_at")
+    .eq("conversation_id", conversation.id)
+    .order("created_at", { ascending: true });
+
+  const thread: InboxMessage[] = (rows || []).map((m) => ({
+    id: m.id,
+    channel: m.channel,
+    direction: m.direction,
+    subject: m.subject,
+    body: m.body,
+    status: m.status,
+    sentBy: m.sent_by,
+    createdAt: m.created_at,
+  }));
+
+  if (conversation.lead_type && conversation.lead_id) {
+    const leadMessages = await prisma.leadMessage.findMany({
+      where: { leadType: conversation.lead_type as LeadSource, leadId: conversation.lead_id },
+      orderBy: { createdAt: "asc" },
+    });
+    for (const m of leadMessages) {
+      thread.push({
+        id: m.id,
+        channel: "SMS",
+        direction: m.direction === "INBOUND" ? "INBOUND" : "OUTBOUND",
+        subject: null,
+        body: m.body,
+        status: m.status || "SENT",
+        sentBy: m.adminEmail,
+        createdAt: m.createdAt.toISOString(),
+      });
+    }
+    thread.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  return thread;
+}
+
+/**
+ * Where a reply on a channel goes: the address the customer last wrote from
+ * on that channel, else what's on file
+ */
+async function replyAddress(
+  supabase: SupabaseClient,
+  conversation: ConversationRow,
+  channel: InboxChannel,
+  client: { phone: string | null; email: string | null } | null
+): Promise<string | null> {
+  if (channel === "SMS" && conversation.lead_type && conversation.lead_id) {
+    const last = await prisma.leadMessage.findFirst({
+      where: { leadType: conversation.lead_type, leadId: conversation.lead_id, direction: "INBOUND" },
+      orderBy: { createdAt: "desc" },
+      select: { phone: true },
+    });
+    if (last?.phone) return last.phone;
+  }
+
+  const { data: lastInbound } = await supabase
+    .from("messages")
+    .select("metadata")
+    .eq("conversation_id", conversation.id)
+    .eq("channel", channel)
+    .eq("direction", "INBOUND")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  const from = (lastInbound?.metadata as { from?: string } | null)?.from;
+  if (from) return channel === "EMAIL" ? emailAddressOf(from) : from;
+
+  if (client) return channel === "SMS" ? client.phone : client.email;
+  if (conversation.channel === channel) return conversation.participant_their || null;
+  return null;
+}
+
+/**
+ * Send a staff reply on the conversation's channel (or the one picked) and
+ * clear its unread / needs-reply state. Saved replies can use {{firstName}}
+ * and {{lastName}}.
+ */
+export async function sendInboxReply(
+  supabase: SupabaseClient,
+  input: {
+    orgId: string;
+    conversationId: string;
+    body: string;
+    channel?: InboxChannel;
+    sentBy: { id: string; email: string };
+  }
+): Promise<InboxMessage> {
+  const { data } = await supabase
+    .from("message_conversations")
+    .select(CONVERSATION_COLUMNS)
+    .eq("id", input.conversationId)
+    .eq("org_id", input.orgId)
+    .single();
+  const conversation = data as ConversationRow | null;
+  if (!conversation) throw new InboxError("Conversation not found", 404);
+
+  const channel = input.channel || conversation.channel;
+  const isLead = !!(conversation.lead_type && conversation.lead_id);
+  if (channel === "PORTAL" && !conversation.client_id) {
+    throw new InboxError("Leads don't have a client portal");
+  }
+
+  let client: { first_name: string | null; last_name: string | null; phone: string | null; email: string | null } | null = null;
+  if (conversation.client_id) {
+    const { data: row } = await supabase
+      .from("clients")
+      .select("first_name, last_name, phone, email")
+      .eq("id", conversation.client_id)
+      .single();
+    client = row;
+  }
+
+  const [firstName, ...rest] = (conversation.contact_name || "").split(" ");
+  const body = renderTemplate(input.body, {
+    firstName: client?.first_name || firstName || "",
+    lastName: client?.last_name || rest.join(" ") || "",
+  }).trim();
+  if (!body) throw new InboxError("Message required");
+
+  const recipient = channel === "PORTAL" ? null : await replyAddress(supabase, conversation, channel, client);
+  if (channel !== "PORTAL" && !recipient) {
+    throw new InboxError(`No ${channel === "SMS" ? "phone" : "email"} on file for this contact`);
+  }
+
+  let message: InboxMessage;
+
+  if (channel === "SMS") {
+    const to = normalizePhoneNumber(recipient!);
+    if (!to) throw new InboxError("Invalid phone number");
+    if (await isOptedOut(to)) {
+      throw new InboxError("This contact replied STOP and can no longer be texted.", 409);
+    }
+
+    const result = isQuoConfigured()
+      ? await sendSms({ to, body })
+      : { success: false, error: "SMS not configured", messageId: undefined, status: undefined };
+
+    if (isLead) {
+      const leadMessage = await prisma.leadMessage.create({
+        data: {
+          leadType: conversation.lead_type!,
+          leadId: conversation.lead_id!,
+          direction: "OUTBOUND",
+          body,
+          phone: to,
+          provider: "quo",
+          quoMessageId: result.messageId ?? null,
+          status: result.success ? result.status || "SENT" : "FAILED",
+          adminEmail: input.sentBy.email,
+        },
+      });
+      message = {
+        id: leadMessage.id,
+        channel: "SMS",
+        direction: "OUTBOUND",
+        subject: null,
+        body,
+        status: leadMessage.status || "SENT",
+        sentBy: input.sentBy.email,
+        createdAt: leadMessage.createdAt.toISOString(),
+      };
+    } else {
+      message = await insertOutbound(supabase, conversation, {
+        channel,
+        body,
+        subject: null,
+        status: result.success ? "SENT" : "FAILED",
+        provider: "quo",
+        providerId: result.messageId || null,
+        sentBy: input.sentBy.id,
+        to,
+      });
+    }
+    if (!result.success) throw new InboxError(result.error || "Failed to send", 502);
+  } else if (channel === "EMAIL") {
+    if (!isResendConfigured()) throw new InboxError("Email not configured", 500);
+
+    const { data: lastEmail } = await supabase
+      .from("messages")
+      .select("subject")
+      .eq("conversation_id", conversation.id)
+      .eq("channel", "EMAIL")
+      .not("subject", "is", null)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    const subject = lastEmail?.subject
+      ? lastEmail.subject.startsWith("Re:") ? lastEmail.subject : `Re: ${lastEmail.subject}`
+      : "Message from DooGoodScoopers";
+
+    const result = await sendEmail({
+      to: recipient!,
+      subject,
+      html: wrapEmailHtml(`<p>${escapeHtml(body).replace(/\n/g, "<br>")}</p>`),
+      text: body,
+      replyTo: inboundEmailAddress() || undefined,
+    });
+
+    message = await insertOutbound(supabase, conversation, {
+      channel,
+      body,
+      subject,
+      status: result.success ? "SENT" : "FAILED",
+      provider: "resend",
+      providerId: result.messageId || null,
+      sentBy: input.sentBy.id,
+      to: recipient!,
+    });
+    if (!result.success) throw new InboxError(result.error || "Failed to send", 502);
+  } else {
+    // The client reads it in the portal; nothing to deliver
+    message = await insertOutbound(supabase, conversation, {
+      channel,
+      body,
+      subject: null,
+      status: "DELIVERED",
+      provider: "portal",
+      providerId: null,
+      sentBy: input.sentBy.id,
+      to: null,
+    });
+  }
+
+  const now = new Date().toISOString();
+  await supabase
+    .from("message_conversations")
+    .update({ needs_reply: false, unread_count: 0, last_message_at: now, updated_at: now })
+    .eq("id", conversation.id);
+
+  return message;
+}
+
+async function insertOutbound(
+  supabase: SupabaseClient,
+  conversation: ConversationRow,
+  input: {
+    channel: InboxChannel;
+    body: string;
+    subject: string | null;
+    status: string;
+    provider: string;
+    providerId: string | null;
+    sentBy: string | null;
+    to: string | null;
+  }
+): Promise<InboxMessage> {
+  const { data, error } = await supabase
+    .from("messages")
+    .insert({
+      org_id: conversation.org_id,
+      conversation_id: conversation.id,
+      channel: input.channel,
+      direction: "OUTBOUND",
+      subject: input.subject,
+      body: input.body,
+      status: input.status,
+      provider: input.provider,
+      provider_id: input.providerId,
+      sent_by: input.sentBy,
+      metadata: input.to ? { to: input.to } : {},
+    })
+    .select("id, created_at")
+    .single();
+
+  if (error || !data) {
+    console.error("Error recording message:", error);
+    throw new InboxError("Failed to record message", 500);
+  }
+
+  return {
+    id: data.id,
+    channel: input.channel,
+    direction: "OUTBOUND",
+    subject: input.subject,
+    body: input.body,
+    status: input.status,
+    sentBy: input.sentBy,
+    createdAt: data.created_at,
+  };
+}
+
+/**
+ * Assign (or unassign) a conversation and let the new owner know by push
+ */
+export async function assignConversation(
+  supabase: SupabaseClient,
+  conversationId: string,
+  staffId: string | null,
+  assignedBy: string
+): Promise<void> {
+  const now = new Date().toISOString();
+  const { data: conversation, error } = await supabase
+    .from("message_conversations")
+    .update({ staff_id: staffId, assigned_at: staffId ? now : null, updated_at: now })
+    .eq("id", conversationId)
+    .select("id, contact_name, client:client_id (first_name, last_name)")
+    .single();
+
+  if (error || !conversation) {
+    throw new InboxError("Failed to update conversation", 500);
+  }
+
+  if (staffId && staffId !== assignedBy) {
+    const client = Array.isArray(conversation.client) ? conversation.client[0] : conversation.client;
+    const name = client
+      ? `${client.first_name || ""} ${client.last_name || ""}`.trim()
+      : conversation.contact_name || "A customer";
+    await sendStaffPush(supabase, [staffId], {
+      title: "Conversation assigned to you",
+      body: name,
+      url: `/app/office/messages?conversation=${conversationId}`,
+      tag: `inbox-${conversationId}`,
+    }).catch(() => {});
+  }
+}
+
+/**
+ * A lead was answered from the /admin lead page: the inbox thread no longer
+ * needs a reply
+ */
+export async function markLeadConversationReplied(
+  supabase: SupabaseClient,
+  leadType: LeadSource,
+  leadId: string
+): Promise<void> {
+  const now = new Date().toISOString();
+  await supabase
+    .from("message_conversations")
+    .update({ needs_reply: false, unread_count: 0, last_message_at: now, updated_at: now })
+    .eq("lead_type", leadType)
+    .eq("lead_id", leadId);
+}
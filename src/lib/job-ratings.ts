@@ -0,0 +1,463 @@
+/**
+ * Job Ratings & Tips
+ *
+ * When a visit is completed the client gets the COMPLETED notification with a
+ * /rate/[token] link (the portal reaches the same page from the schedule).
+ * They pick 1-5 stars and, when settings.ratingsTipping.mode is "all", one of
+ * the preset tip amounts, which is charged to their default card and
+ * attributed to the tech who did the visit. Successful tips show up as a TIPS
+ * line in payroll; ratings at or below LOW_RATING_MAX alert the office.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import crypto from "crypto";
+import { chargeDefaultPaymentMethod, dollarsToCents, formatCentsToDollars } from "@/lib/stripe";
+import { sendClientNotification } from "@/lib/notifications";
+import { isOptedOut } from "@/lib/sms-optout";
+import { notify } from "@/lib/notify";
+
+export type RatingsMode = "disabled" | "ratings_only" | "all";
+
+export interface RatingsSettings {
+  mode: RatingsMode;
+  showToFieldTech: boolean;
+  /** Preset tip amounts in dollars */
+  tipAmounts: number[];
+}
+
+export type TipStatus = "NONE" | "PENDING" | "SUCCEEDED" | "FAILED";
+export type RatingSource = "LINK" | "PORTAL";
+
+export interface JobRating {
+  id: string;
+  orgId: string;
+  jobId: string;
+  clientId: string;
+  techId: string | null;
+  token: string;
+  expiresAt: string;
+  rating: number | null;
+  comment: string | null;
+  ratedAt: string | null;
+  source: RatingSource | null;
+  tipCents: number;
+  tipStatus: TipStatus;
+  tipError: string | null;
+  tippedAt: string | null;
+}
+
+export interface RatingSummary {
+  averageRating: number;
+  totalCount: number;
+}
+
+export const DEFAULT_RATINGS_SETTINGS: RatingsSettings = {
+  mode: "all",
+  showToFieldTech: true,
+  tipAmounts: [2, 5, 10],
+};
+
+// Ratings at or below this raise an office alert
+export const LOW_RATING_MAX = 3;
+
+// How long a rating link stays valid after the visit
+export const RATING_LINK_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RATING_COLUMNS =
+  "id, org_id, job_id, client_id, tech_id, token, expires_at, rating, comment, rated_at, source, tip_cents, tip_status, tip_error, tipped_at";
+
+export class RatingError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "RatingError";
+    this.status = status;
+  }
+}
+
+/**
+ * Normalize settings.ratingsTipping, filling in the defaults the
+ * ratings & tipping settings page shows
+ */
+export function getRatingsSettings(orgSettings: unknown): RatingsSettings {
+  const raw = ((orgSettings as Record<string, unknown> | null)?.ratingsTipping || {}) as Partial<RatingsSettings>;
+  const mode: RatingsMode =
+    raw.mode === "disabled" || raw.mode === "ratings_only" || raw.mode === "all"
+      ? raw.mode
+      : DEFAULT_RATINGS_SETTINGS.mode;
+  const tipAmounts = Array.isArray(raw.tipAmounts)
+    ? raw.tipAmounts.map(Number).filter((amount) => amount > 0)
+    : [];
+
+  return {
+    mode,
+    showToFieldTech: raw.showToFieldTech ?? DEFAULT_RATINGS_SETTINGS.showToFieldTech,
+    tipAmounts: tipAmounts.length > 0 ? tipAmounts : DEFAULT_RATINGS_SETTINGS.tipAmounts,
+  };
+}
+
+export async function loadRatingsSettings(
+  supabase: SupabaseClient,
+  orgId: string
+): Promise<RatingsSettings> {
+  const { data: org } = await supabase
+    .from("organizations")
+    .select("settings")
+    .eq("id", orgId)
+    .single();
+  return getRatingsSettings(org?.settings);
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mapRating(row: any): JobRating {
+  return {
+    id: row.id,
+    orgId: row.org_id,
+    jobId: row.job_id,
+    clientId: row.client_id,
+    techId: row.tech_id,
+    token: row.token,
+    expiresAt: row.expires_at,
+    rating: row.rating,
+    comment: row.comment,
+    ratedAt: row.rated_at,
+    source: row.source,
+    tipCents: row.tip_cents || 0,
+    tipStatus: row.tip_status,
+    tipError: row.tip_error,
+    tippedAt: row.tipped_at,
+  };
+}
+
+function siteUrl(): string {
+  return process.env.NEXT_PUBLIC_SITE_URL || process.env.NEXT_PUBLIC_APP_URL || "https://doogoodscoopers.vercel.app";
+}
+
+export function ratingLink(token: string): string {
+  return `${siteUrl()}/rate/${token}`;
+}
+
+export async function getRatingByToken(
+  supabase: SupabaseClient,
+  token: string
+): Promise<JobRating | null> {
+  const { data } = await supabase
+    .from("job_ratings")
+    .select(RATING_COLUMNS)
+    .eq("token", token)
+    .single();
+  return data ? mapRating(data) : null;
+}
+
+/**
+ * Get (or create) the rating row for a completed job. An unrated link that
+ * has expired is renewed, so the portal can always reach the rating page.
+ */
+export async function ensureRatingLink(
+  supabase: SupabaseClient,
+  job: { id: string; org_id: string; client_id: string; assigned_to: string | null }
+): Promise<JobRating | null> {
+  const expiresAt = new Date(Date.now() + RATING_LINK_DAYS * DAY_MS).toISOString();
+
+  const { data: existing } = await supabase
+    .from("job_ratings")
+    .select(RATING_COLUMNS)
+    .eq("job_id", job.id)
+    .maybeSingle();
+
+  if (existing) {
+    const rating = mapRating(existing);
+    if (!rating.ratedAt && new Date(rating.expiresAt) < new Date()) {
+      await supabase.from("job_ratings").update({ expires_at: expiresAt }).eq("id", rating.id);
+      rating.expiresAt = expiresAt;
+    }
+    return rating;
+  }
+
+  const { data: created, error } = await supabase
+    .from("job_ratings")
+    .insert({
+      org_id: job.org_id,
+      job_id: job.id,
+      client_id: job.client_id,
+      tech_id: job.assigned_to,
+      token: crypto.randomUUID(),
+      expires_at: expiresAt,
+    })
+    .select(RATING_COLUMNS)
+    .single();
+
+  if (error || !created) {
+    console.error("Error creating rating link:", error);
+    return null;
+  }
+  return mapRating(created);
+}
+
+/**
+ * Send the COMPLETED notification for a job, with a rating link unless the
+ * org has ratings turned off. Never throws; completing the job must not fail
+ * because a text didn't go out.
+ */
+export async function sendCompletedNotification(
+  supabase: SupabaseClient,
+  jobId: string
+): Promise<void> {
+  try {
+    const { data: job } = await supabase
+      .from("jobs")
+      .select(`
+        id,
+        org_id,
+        client_id,
+        assigned_to,
+        client:client_id (
+          first_name,
+          email,
+          phone
+        ),
+        tech:assigned_to (
+          first_name
+        )
+      `)
+      .eq("id", jobId)
+      .single();
+    if (!job) return;
+
+    const client = Array.isArray(job.client) ? job.client[0] : job.client;
+    const tech = Array.isArray(job.tech) ? job.tech[0] : job.tech;
+    if (!client) return;
+
+    const settings = await loadRatingsSettings(supabase, job.org_id);
+    let link = "";
+    let prompt = "";
+    if (settings.mode !== "disabled") {
+      const rating = await ensureRatingLink(supabase, job);
+      if (rating && !rating.ratedAt) {
+        link = ratingLink(rating.token);
+        prompt = settings.mode === "all"
+          ? ` How did we do? Rate your visit or leave a tip: ${link}`
+          : ` How did we do? Rate your visit: ${link}`;
+      }
+    }
+
+    const phone = client.phone && !(await isOptedOut(client.phone)) ? client.phone : undefined;
+    await sendClientNotification({
+      orgId: job.org_id,
+      clientId: job.client_id,
+      jobId: job.id,
+      type: "COMPLETED",
+      phone,
+      email: client.email || undefined,
+      variables: {
+        client_name: client.first_name || "there",
+        tech_name: tech?.first_name || "your technician",
+        rating_link: link,
+        rating_prompt: prompt,
+      },
+    });
+  } catch (error) {
+    console.error("Error sending completed notification:", error);
+  }
+}
+
+/**
+ * Record a client's rating and optional tip. The tip must be one of the
+ * org's preset amounts and is charged once, off-session, to the default card;
+ * a declined tip still keeps the rating.
+ */
+export async function submitRating(
+  supabase: SupabaseClient,
+  rating: JobRating,
+  input: { rating: number; comment?: string | null; tipCents?: number; source: RatingSource }
+): Promise<JobRating> {
+  if (rating.ratedAt) {
+    throw new RatingError("This visit has already been rated", 409);
+  }
+  if (new Date(rating.expiresAt) < new Date()) {
+    throw new RatingError("This rating link has expired", 410);
+  }
+
+  const stars = Number(input.rating);
+  if (!Number.isInteger(stars) || stars < 1 || stars > 5) {
+    throw new RatingError("Rating must be between 1 and 5 stars");
+  }
+
+  const settings = await loadRatingsSettings(supabase, rating.orgId);
+  if (settings.mode === "disabled") {
+    throw new RatingError("Ratings are not enabled", 403);
+  }
+
+  const tipCents = Number(input.tipCents) || 0;
+  if (tipCents > 0) {
+    if (settings.mode !== "all") {
+      throw new RatingError("Tipping is not enabled", 403);
+    }
+    if (!settings.tipAmounts.some((amount) => dollarsToCents(amount) === tipCents)) {
+      throw new RatingError("Tip must be one of the listed amounts");
+    }
+  }
+
+  const ratedAt = new Date().toISOString();
+  const comment = input.comment?.trim() || null;
+
+  // Claim the row so a double submit can't rate (or tip) twice
+  const { data: claimed, error } = await supabase
+    .from("job_ratings")
+    .update({
+      rating: stars,
+      comment,
+      rated_at: ratedAt,
+      source: input.source,
+      tip_cents: tipCents,
+      tip_status: tipCents > 0 ? "PENDING" : "NONE",
+    })
+    .eq("id", rating.id)
+    .is("rated_at", null)
+    .select(RATING_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error saving rating:", error);
+    throw new RatingError("Failed to save rating", 500);
+  }
+  if (!claimed) {
+    throw new RatingError("This visit has already been rated", 409);
+  }
+
+  let saved = mapRating(claimed);
+  if (tipCents > 0) {
+    saved = await chargeTip(supabase, saved);
+  }
+
+  await supabase.from("activity_logs").insert({
+    org_id: saved.orgId,
+    user_id: null,
+    action: "JOB_RATED",
+    entity_type: "JOB",
+    entity_id: saved.jobId,
+    details: {
+      rating: stars,
+      comment,
+      source: input.source,
+      techId: saved.techId,
+      tipCents: tipCents || undefined,
+      tipStatus: tipCents > 0 ? saved.tipStatus : undefined,
+    },
+  });
+
+  if (stars <= LOW_RATING_MAX) {
+    await alertLowRating(supabase, saved);
+  }
+
+  return saved;
+}
+
+async function chargeTip(supabase: SupabaseClient, rating: JobRating): Promise<JobRating> {
+  const { data: client } = await supabase
+    .from("clients")
+    .select("stripe_customer_id")
+    .eq("id", rating.clientId)
+    .single();
+
+  let updates: Record<string, unknown>;
+  try {
+    if (!client?.stripe_customer_id) {
+      throw new Error("No card on file");
+    }
+    const intent = await chargeDefaultPaymentMethod(client.stripe_customer_id, rating.tipCents, {
+      description: "Tip for your technician",
+      metadata: {
+        type: "tip",
+        job_rating_id: rating.id,
+        job_id: rating.jobId,
+        tech_id: rating.techId || "",
+      },
+      idempotencyKey: `tip-${rating.id}`,
+    });
+    updates =
+      intent.status === "succeeded"
+        ? { tip_status: "SUCCEEDED", tip_payment_intent_id: intent.id, tipped_at: new Date().toISOString() }
+        : { tip_status: "FAILED", tip_payment_intent_id: intent.id, tip_error: `Payment ${intent.status}` };
+  } catch (error) {
+    updates = {
+      tip_status: "FAILED",
+      tip_error: error instanceof Error ? error.message : "Tip payment failed",
+    };
+  }
+
+  const { data } = await supabase
+    .from("job_ratings")
+    .update(updates)
+    .eq("id", rating.id)
+    .select(RATING_COLUMNS)
+    .single();
+  return data ? mapRating(data) : { ...rating, tipStatus: updates.tip_status as TipStatus };
+}
+
+async function alertLowRating(supabase: SupabaseClient, rating: JobRating) {
+  const [{ data: client }, { data: tech }] = await Promise.all([
+    supabase.from("clients").select("first_name, last_name").eq("id", rating.clientId).single(),
+    rating.techId
+      ? supabase.from("users").select("first_name, last_name").eq("id", rating.techId).single()
+      : Promise.resolve({ data: null }),
+  ]);
+  const clientName = client ? [client.first_name, client.last_name].filter(Boolean).join(" ") : "A client";
+  const techName = tech ? [tech.first_name, tech.last_name].filter(Boolean).join(" ") : null;
+  const tipNote = rating.tipStatus === "SUCCEEDED" ? ` (tipped ${formatCentsToDollars(rating.tipCents)})` : "";
+
+  await notify({
+    type: "low_rating",
+    severity: "warning",
+    title: `${rating.rating}-star rating from ${clientName}`,
+    body: `${techName ? `Visit by ${techName}${tipNote}. ` : ""}${rating.comment || "No comment left."}`,
+    link: `/app/office/clients/${rating.clientId}`,
+    dedupeKey: `low-rating:${rating.id}`,
+    push: true,
+  });
+
+  await supabase
+    .from("job_ratings")
+    .update({ alerted_at: new Date().toISOString() })
+    .eq("id", rating.id);
+}
+
+/**
+ * Average rating and count per tech
+ */
+export async function getRatingSummaries(
+  supabase: SupabaseClient,
+  orgId: string,
+  techIds?: string[]
+): Promise<Map<string, RatingSummary>> {
+  let query = supabase
+    .from("job_ratings")
+    .select("tech_id, rating")
+    .eq("org_id", orgId)
+    .not("rated_at", "is", null)
+    .not("tech_id", "is", null);
+  if (techIds) {
+    query = query.in("tech_id", techIds);
+  }
+
+  const { data } = await query;
+  const totals = new Map<string, { sum: number; count: number }>();
+  for (const row of data || []) {
+    const total = totals.get(row.tech_id) || { sum: 0, count: 0 };
+    total.sum += row.rating;
+    total.count += 1;
+    totals.set(row.tech_id, total);
+  }
+
+  const summaries = new Map<string, RatingSummary>();
+  for (const [techId, total] of totals) {
+    summaries.set(techId, {
+      averageRating: Math.round((total.sum / total.count) * 10) / 10,
+      totalCount: total.count,
+    });
+  }
+  return summaries;
+}
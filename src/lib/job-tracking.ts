@@ -0,0 +1,357 @@
+/**
+ * Job Tracking ("where's my scooper")
+ *
+ * The ON_THE_WAY message links to /track/[token]. The page polls a public
+ * endpoint that works out, from the tech's latest staff_locations ping and the
+ * day's stop sequence (route_stops, or the tech's jobs by route_order), how
+ * many stops are still ahead of this client and a rolling ETA.
+ *
+ * Nothing about other stops leaves the server: the client sees a count, an
+ * ETA and the tech's position snapped to a coarse grid so it can't be used to
+ * find the yard they're currently in. Links die with the job (completed,
+ * skipped or canceled) and after TRACKING_LINK_HOURS regardless.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import crypto from "crypto";
+import { calculateAirDistance, metersToMiles } from "@/lib/distance-utils";
+import { DEFAULT_AVG_SPEED_MPH, DEFAULT_CIRCUITY_FACTOR } from "@/lib/stop-sequencer";
+
+export interface TrackingPoint {
+  lat: number;
+  lng: number;
+}
+
+export type TrackingEndReason = "completed" | "skipped" | "expired";
+
+export type TrackingView =
+  | {
+      active: true;
+      jobStatus: string;
+      orgName: string;
+      orgLogo: string | null;
+      techFirstName: string | null;
+      stopsAhead: number;
+      etaMinutes: number | null;
+      etaAt: string | null;
+      /** Tech position snapped to a ~1km grid; null when the last ping is stale */
+      techPosition: (TrackingPoint & { recordedAt: string }) | null;
+      home: TrackingPoint | null;
+      refreshedAt: string;
+    }
+  | {
+      active: false;
+      reason: TrackingEndReason;
+      orgName: string;
+    };
+
+// Hard cap on a link's life, in case the job is never closed out
+export const TRACKING_LINK_HOURS = 12;
+
+// Pings older than this aren't shown or used for the ETA
+export const TRACKING_PING_MAX_AGE_MINUTES = 30;
+
+// Grid the tech's position is snapped to (0.01 deg is roughly 1km)
+const POSITION_GRID_DEGREES = 0.01;
+
+const DEFAULT_SERVICE_MINUTES = 7;
+
+const DONE_STATUSES = ["COMPLETED", "SKIPPED", "CANCELED"];
+
+interface SequenceStop {
+  jobId: string;
+  status: string;
+  startedAt: string | null;
+  point: TrackingPoint | null;
+  serviceMinutes: number | null;
+}
+
+function siteUrl(): string {
+  return process.env.NEXT_PUBLIC_SITE_URL || process.env.NEXT_PUBLIC_APP_URL || "https://doogoodscoopers.vercel.app";
+}
+
+export function trackingLink(token: string): string {
+  return `${siteUrl()}/track/${token}`;
+}
+
+function toPoint(lat: unknown, lng: unknown): TrackingPoint | null {
+  const la = Number(lat);
+  const ln = Number(lng);
+  if (lat === null || lng === null || !Number.isFinite(la) || !Number.isFinite(ln)) return null;
+  return { lat: la, lng: ln };
+}
+
+function snapToGrid(value: number): number {
+  return Math.round(Math.round(value / POSITION_GRID_DEGREES) * POSITION_GRID_DEGREES * 1000) / 1000;
+}
+
+/**
+ * Get the live tracking link for a job, creating one if it has none (or its
+ * old one has ended)
+ */
+export async function ensureTrackingLink(
+  supabase: SupabaseClient,
+  job: { id: string; org_id: string; client_id: string }
+): Promise<string | null> {
+  const expiresAt = new Date(Date.now() + TRACKING_LINK_HOURS * 60 * 60 * 1000).toISOString();
+
+  const { data: existing } = await supabase
+    .from("job_tracking_links")
+    .select("id, token, expires_at, expired_at")
+    .eq("job_id", job.id)
+    .maybeSingle();
+
+  if (existing) {
+    // Re-sending "on the way" revives the same link for the day
+    await supabase
+      .from("job_tracking_links")
+      .update({ expires_at: expiresAt, expired_at: null })
+      .eq("id", existing.id);
+    return existing.token;
+  }
+
+  const token = crypto.randomUUID();
+  const { error } = await supabase.from("job_tracking_links").insert({
+    org_id: job.org_id,
+    job_id: job.id,
+    client_id: job.client_id,
+    token,
+    expires_at: expiresAt,
+  });
+
+  if (error) {
+    console.error("Error creating tracking link:", error);
+    return null;
+  }
+  return token;
+}
+
+/** End a job's tracking link (job completed or skipped) */
+export async function expireTrackingLink(supabase: SupabaseClient, jobId: string): Promise<void> {
+  await supabase
+    .from("job_tracking_links")
+    .update({ expired_at: new Date().toISOString() })
+    .eq("job_id", jobId)
+    .is("expired_at", null);
+}
+
+/**
+ * The tech's stops for the day in visit order, from route_stops when the job
+ * is on a planned route, otherwise the tech's jobs that day by route_order
+ */
+async function loadSequence(
+  supabase: SupabaseClient,
+  job: { id: string; org_id: string; assigned_to: string | null; scheduled_date: string }
+): Promise<SequenceStop[]> {
+  const { data: routeStop } = await supabase
+    .from("route_stops")
+    .select("route_id")
+    .eq("job_id", job.id)
+    .limit(1)
+    .maybeSingle();
+
+  if (routeStop) {
+    const { data: stops } = await supabase
+      .from("route_stops")
+      .select(`
+        stop_order,
+        estimated_service_minutes,
+        job:job_id (
+          id,
+          status,
+          started_at,
+          location:location_id (
+            latitude,
+            longitude
+          )
+        )
+      `)
+      .eq("route_id", routeStop.route_id)
+      .order("stop_order", { ascending: true });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return (stops || []).flatMap((stop: any) => {
+      const stopJob = Array.isArray(stop.job) ? stop.job[0] : stop.job;
+      if (!stopJob) return [];
+      const location = Array.isArray(stopJob.location) ? stopJob.location[0] : stopJob.location;
+      return [{
+        jobId: stopJob.id,
+        status: stopJob.status,
+        startedAt: stopJob.started_at,
+        point: location ? toPoint(location.latitude, location.longitude) : null,
+        serviceMinutes: stop.estimated_service_minutes,
+      }];
+    });
+  }
+
+  if (!job.assigned_to) return [];
+
+  const { data: jobs } = await supabase
+    .from("jobs")
+    .select(`
+      id,
+      status,
+      started_at,
+      route_order,
+      location:location_id (
+        latitude,
+        longitude
+      )
+    `)
+    .eq("org_id", job.org_id)
+    .eq("assigned_to", job.assigned_to)
+    .eq("scheduled_date", job.scheduled_date)
+    .order("route_order", { ascending: true, nullsFirst: false });
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return (jobs || []).map((row: any) => {
+    const location = Array.isArray(row.location) ? row.location[0] : row.location;
+    return {
+      jobId: row.id,
+      status: row.status,
+      startedAt: row.started_at,
+      point: location ? toPoint(location.latitude, location.longitude) : null,
+      serviceMinutes: null,
+    };
+  });
+}
+
+/**
+ * Build what the public tracking page shows for a token, or null if the
+ * token doesn't exist
+ */
+export async function getTrackingView(
+  supabase: SupabaseClient,
+  token: string
+): Promise<TrackingView | null> {
+  const { data: link } = await supabase
+    .from("job_tracking_links")
+    .select("id, org_id, job_id, expires_at, expired_at")
+    .eq("token", token)
+    .single();
+  if (!link) return null;
+
+  const [{ data: job }, { data: org }] = await Promise.all([
+    supabase
+      .from("jobs")
+      .select(`
+        id,
+        org_id,
+        status,
+        scheduled_date,
+        assigned_to,
+        location:location_id (
+          latitude,
+          longitude
+        )
+      `)
+      .eq("id", link.job_id)
+      .single(),
+    supabase
+      .from("organizations")
+      .select("name, logo_url, settings")
+      .eq("id", link.org_id)
+      .single(),
+  ]);
+
+  const orgName = org?.name || "DooGoodScoopers";
+  if (!job) {
+    return { active: false, reason: "expired", orgName };
+  }
+
+  if (DONE_STATUSES.includes(job.status)) {
+    if (!link.expired_at) await expireTrackingLink(supabase, job.id);
+    return { active: false, reason: job.status === "COMPLETED" ? "completed" : "skipped", orgName };
+  }
+  if (link.expired_at || new Date(link.expires_at) < new Date()) {
+    return { active: false, reason: "expired", orgName };
+  }
+
+  await supabase
+    .from("job_tracking_links")
+    .update({ last_viewed_at: new Date().toISOString() })
+    .eq("id", link.id);
+
+  const routeSettings = ((org?.settings as Record<string, unknown>)?.routeOptimization || {}) as Record<
+    string,
+    unknown
+  >;
+  const avgSpeedMph = Number(routeSettings.avgSpeedMph) || DEFAULT_AVG_SPEED_MPH;
+  const circuityFactor = Number(routeSettings.circuityFactor) || DEFAULT_CIRCUITY_FACTOR;
+  const defaultServiceMinutes =
+    routeSettings.serviceMinutesBase !== undefined
+      ? (Number(routeSettings.serviceMinutesBase) || 0) + (Number(routeSettings.serviceMinutesPerDog) || 0)
+      : DEFAULT_SERVICE_MINUTES;
+
+  const driveMinutes = (from: TrackingPoint, to: TrackingPoint) =>
+    (metersToMiles(calculateAirDistance(from.lat, from.lng, to.lat, to.lng)) * circuityFactor * 60) / avgSpeedMph;
+
+  const jobLocation = Array.isArray(job.location) ? job.location[0] : job.location;
+  const home = jobLocation ? toPoint(jobLocation.latitude, jobLocation.longitude) : null;
+
+  // Tech's latest fresh ping and first name
+  let techFirstName: string | null = null;
+  let ping: (TrackingPoint & { recordedAt: string }) | null = null;
+  if (job.assigned_to) {
+    const since = new Date(Date.now() - TRACKING_PING_MAX_AGE_MINUTES * 60 * 1000).toISOString();
+    const [{ data: tech }, { data: location }] = await Promise.all([
+      supabase.from("users").select("first_name").eq("id", job.assigned_to).single(),
+      supabase
+        .from("staff_locations")
+        .select("lat, lng, recorded_at")
+        .eq("user_id", job.assigned_to)
+        .gte("recorded_at", since)
+        .order("recorded_at", { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+    ]);
+    techFirstName = tech?.first_name || null;
+    const point = location ? toPoint(location.lat, location.lng) : null;
+    if (point && location) ping = { ...point, recordedAt: location.recorded_at };
+  }
+
+  // Stops still to do before this one
+  const sequence = await loadSequence(supabase, job);
+  const index = sequence.findIndex((stop) => stop.jobId === job.id);
+  const ahead = index > 0
+    ? sequence.slice(0, index).filter((stop) => !DONE_STATUSES.includes(stop.status))
+    : [];
+
+  let etaMinutes: number | null = null;
+  if (job.status === "IN_PROGRESS") {
+    etaMinutes = 0;
+  } else if (home && (ping || ahead.length > 0)) {
+    let position: TrackingPoint | null = ping;
+    let minutes = 0;
+    for (const stop of ahead) {
+      const service = stop.serviceMinutes ?? defaultServiceMinutes;
+      if (stop.status === "IN_PROGRESS" && stop.startedAt) {
+        // Already there: only the rest of the visit is left
+        const elapsed = (Date.now() - new Date(stop.startedAt).getTime()) / 60000;
+        minutes += Math.max(0, service - elapsed);
+      } else {
+        if (position && stop.point) minutes += driveMinutes(position, stop.point);
+        minutes += service;
+      }
+      position = stop.point || position;
+    }
+    if (position) minutes += driveMinutes(position, home);
+    etaMinutes = Math.max(1, Math.round(minutes));
+  }
+
+  return {
+    active: true,
+    jobStatus: job.status,
+    orgName,
+    orgLogo: org?.logo_url || null,
+    techFirstName,
+    stopsAhead: ahead.length,
+    etaMinutes,
+    etaAt: etaMinutes !== null ? new Date(Date.now() + etaMinutes * 60000).toISOString() : null,
+    techPosition: ping
+      ? { lat: snapToGrid(ping.lat), lng: snapToGrid(ping.lng), recordedAt: ping.recordedAt }
+      : null,
+    home,
+    refreshedAt: new Date().toISOString(),
+  };
+}
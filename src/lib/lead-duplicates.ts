@@ -92,13 +92,18 @@ async function getPhone(wire: WireLeadType, id: string): Promise<string | null>
  * Sweep&Go lookup is unavailable.
  */
 export async function isActiveCustomerByPhone(phone: string | null | undefined): Promise<boolean> {
+  return !!(await findActiveCustomerByPhone(phone));
+}
+
+/** The ACTIVE Sweep&Go customer with this phone, if any. Used to attribute a
+ *  canvasser lead's signup (canvass-commissions.ts). */
+export async function findActiveCustomerByPhone(phone: string | null | undefined) {
   const candidates = phoneCandidates(phone);
-  if (candidates.length === 0) return false;
-  const customer = await prisma.sweepandgoCustomer.findFirst({
+  if (candidates.length === 0) return null;
+  return prisma.sweepandgoCustomer.findFirst({
     where: { active: true, OR: [{ cellPhone: { in: candidates } }, { homePhone: { in: candidates } }] },
-    select: { id: true },
+    select: { id: true, subscriptionNames: true, startDate: true, firstSeenAt: true },
   });
-  return !!customer;
 }
 
 /** True if this email matches an ACTIVE Sweep&Go customer in the local mirror.
@@ -7,6 +7,7 @@
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
 import { sendSms, isQuoConfigured, normalizePhoneNumber } from "./quo";
 import { sendEmail, isResendConfigured, renderTemplate, wrapEmailHtml } from "./resend";
+import { isOptedOut } from "./sms-optout";
 
 export type NotificationChannel = "SMS" | "EMAIL";
 export type NotificationType =
@@ -18,7 +19,8 @@ export type NotificationType =
   | "PAYMENT_FAILED"
   | "WELCOME"
   | "REMARKETING_SMS"
-  | "REMARKETING_EMAIL";
+  | "REMARKETING_EMAIL"
+  | "CHANGE_APPLIED";
 export type NotificationStatus = "PENDING" | "SENT" | "DELIVERED" | "FAILED" | "CANCELLED";
 
 export interface NotificationTemplate {
@@ -147,8 +149,8 @@ export async function sendNotification(
     };
   }
 
-  // If scheduled for later, don't send now
-  if (options.scheduledFor && options.scheduledFor > new Date()) {
+  // Scheduled sends are left for processPendingNotifications, even if due
+  if (options.scheduledFor) {
     return {
       success: true,
       notificationId: notification.id,
@@ -295,6 +297,13 @@ export async function processPendingNotifications(): Promise<{
   for (const notification of pending) {
     let result: SendNotificationResult;
 
+    // The client may have texted STOP since this was queued
+    if (notification.channel === "SMS" && (await isOptedOut(notification.recipient))) {
+      await updateNotificationStatus(supabase, notification.id, "FAILED", "Recipient opted out");
+      failed++;
+      continue;
+    }
+
     if (notification.channel === "SMS") {
       result = await sendSmsNotification(
         notification.id,
@@ -361,6 +370,7 @@ export async function sendClientNotification(options: {
   phone?: string;
   email?: string;
   variables?: Record<string, string>;
+  scheduledFor?: Date;
 }): Promise<{ sms?: SendNotificationResult; email?: SendNotificationResult }> {
   const prefs = await getClientNotificationPreferences(options.clientId);
   const results: { sms?: SendNotificationResult; email?: SendNotificationResult } = {};
@@ -391,6 +401,7 @@ export async function sendClientNotification(options: {
         channel: "SMS",
         recipient: normalizedPhone,
         variables: options.variables,
+        scheduledFor: options.scheduledFor,
       });
     }
   }
@@ -405,6 +416,7 @@ export async function sendClientNotification(options: {
       channel: "EMAIL",
       recipient: options.email,
       variables: options.variables,
+      scheduledFor: options.scheduledFor,
     });
   }
 
@@ -10,7 +10,7 @@ import { sendAdminPush } from "@/lib/web-push";
  * operation that triggered it.
  */
 
-export type NotifyType = "delivery_failed" | "lead_created" | "lead_replied" | "credits" | "system";
+export type NotifyType = "delivery_failed" | "lead_created" | "lead_replied" | "credits" | "payment_failed" | "low_rating" | "service_proof" | "system";
 export type NotifySeverity = "info" | "warning" | "error";
 
 export interface NotifyInput {
@@ -50,3 +50,8 @@ export async function notify(input: NotifyInput): Promise<void> {
     sendAdminPush({ title, body: body || "", url: link || "/admin", tag: dedupeKey || type }).catch(() => {});
   }
 }
+
+/** Retire a notification once its condition clears (e.g. the client paid). */
+export async function dismissNotification(dedupeKey: string): Promise<void> {
+  await prisma.adminNotification.deleteMany({ where: { dedupeKey } }).catch(() => {});
+}
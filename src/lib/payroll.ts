@@ -0,0 +1,732 @@
+/**
+ * Payroll Calculation Engine
+ *
+ * Computes pay for field staff over a pay period from shifts, shift breaks,
+ * completed jobs and shift odometer mileage, using each tech's comp plan from
+ * settings.payroll.staffPayroll (hourly, per-yard, revenue percentage, fixed
+ * rate and mileage) plus the org's overtime rules. Client tips charged in the
+ * period (job_ratings) are passed through to the tech who did the visit.
+ * A job worked by a crew (job_crew_time) is credited to each member by their
+ * share of the crew's minutes instead of wholly to the lead.
+ *
+ * Used by the field tech payroll report and the office pay-run view. Both apply
+ * the org's settings.payroll.visibility toggles via applyPayrollVisibility().
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+
+export type PayPeriodType = "weekly" | "biweekly" | "monthly";
+
+export interface PayrollSettings {
+  mileageRateCents: number;
+  hourlyRateCents: number;
+  basePercentage: number;
+  yardRateCents: number;
+  fixedRateCents: number;
+  minRevenuePerMile: number | null;
+  minRevenuePerHour: number | null;
+  affectingCompanyAverages: boolean | null;
+}
+
+export interface PayrollVisibility {
+  yearsInService: boolean;
+  residentialRevenue: boolean;
+  commercialRevenue: boolean;
+  revenue: boolean;
+  distance: boolean;
+  overtimeHours: boolean;
+  vacationHours: boolean;
+  tips: boolean;
+  miscReimb: boolean;
+  nrOfJobs: boolean;
+  mileageRate: boolean;
+  basePercentage: boolean;
+  fixedRate: boolean;
+  workedHours: boolean;
+  additionalResidentialServicesRevenue: boolean;
+  additionalCommercialServicesRevenue: boolean;
+  revenueAdjustment: boolean;
+  regularHours: boolean;
+  holidayHours: boolean;
+  pto: boolean;
+  addlBonus: boolean;
+  deductions: boolean;
+  nrOfComplaints: boolean;
+  hourlyRate: boolean;
+  perYardRate: boolean;
+}
+
+export interface OvertimeRules {
+  /** Hours per workweek before overtime applies (0 = no weekly overtime) */
+  weeklyThresholdHours: number;
+  /** Hours per day before overtime applies (0 = no daily overtime) */
+  dailyThresholdHours: number;
+  multiplier: number;
+}
+
+export interface OrgPayrollConfig {
+  payPeriod: PayPeriodType;
+  payPeriodStartDay: number;
+  showPayrollOnFieldTechApp: boolean;
+  staffPayroll: Record<string, PayrollSettings>;
+  visibility: PayrollVisibility;
+  overtime: OvertimeRules;
+}
+
+export type PayrollLineType =
+  | "REGULAR_HOURS"
+  | "OVERTIME_HOURS"
+  | "YARDS"
+  | "REVENUE_PERCENTAGE"
+  | "FIXED"
+  | "MILEAGE"
+  | "TIPS";
+
+export interface PayrollLineItem {
+  type: PayrollLineType;
+  description: string;
+  quantity: number | null;
+  rateCents: number | null;
+  amountCents: number;
+}
+
+export interface PayrollDay {
+  date: string;
+  workedMinutes: number;
+  regularMinutes: number;
+  overtimeMinutes: number;
+  breakMinutes: number;
+  miles: number;
+  /** Crew jobs count as the member's share, so this can be fractional */
+  jobsCompleted: number;
+  revenueCents: number;
+}
+
+export interface PayrollStatement {
+  userId: string;
+  name: string;
+  hireDate: string | null;
+  yearsInService: number | null;
+  periodStart: string;
+  periodEnd: string;
+  workedHours: number | null;
+  regularHours: number | null;
+  overtimeHours: number | null;
+  miles: number | null;
+  jobsCompleted: number | null;
+  revenueCents: number | null;
+  residentialRevenueCents: number | null;
+  commercialRevenueCents: number | null;
+  hourlyRateCents: number | null;
+  yardRateCents: number | null;
+  basePercentage: number | null;
+  fixedRateCents: number | null;
+  mileageRateCents: number | null;
+  hasIncompleteShifts: boolean;
+  lineItems: PayrollLineItem[];
+  days: PayrollDay[];
+  totalCents: number;
+}
+
+export const DEFAULT_PAYROLL_SETTINGS: PayrollSettings = {
+  mileageRateCents: 0,
+  hourlyRateCents: 0,
+  basePercentage: 0,
+  yardRateCents: 0,
+  fixedRateCents: 0,
+  minRevenuePerMile: null,
+  minRevenuePerHour: null,
+  affectingCompanyAverages: null,
+};
+
+export const DEFAULT_PAYROLL_VISIBILITY: PayrollVisibility = {
+  yearsInService: true,
+  residentialRevenue: true,
+  commercialRevenue: true,
+  revenue: true,
+  distance: true,
+  overtimeHours: true,
+  vacationHours: true,
+  tips: true,
+  miscReimb: true,
+  nrOfJobs: true,
+  mileageRate: true,
+  basePercentage: true,
+  fixedRate: true,
+  workedHours: true,
+  additionalResidentialServicesRevenue: true,
+  additionalCommercialServicesRevenue: true,
+  revenueAdjustment: true,
+  regularHours: true,
+  holidayHours: true,
+  pto: true,
+  addlBonus: true,
+  deductions: true,
+  nrOfComplaints: true,
+  hourlyRate: true,
+  perYardRate: true,
+};
+
+export const DEFAULT_OVERTIME_RULES: OvertimeRules = {
+  weeklyThresholdHours: 40,
+  dailyThresholdHours: 0,
+  multiplier: 1.5,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Anchor for bi-weekly periods so every request agrees on which week is "week 1"
+const BIWEEKLY_ANCHOR = "2024-01-07";
+
+interface ShiftRow {
+  id: string;
+  user_id: string;
+  shift_date: string;
+  clock_in: string | null;
+  clock_out: string | null;
+  start_odometer: number | string | null;
+  end_odometer: number | string | null;
+  breaks: Array<{
+    break_start: string;
+    break_end: string | null;
+    break_type: string;
+  }> | null;
+}
+
+interface JobRow {
+  id: string;
+  assigned_to: string;
+  scheduled_date: string;
+  price_cents: number | null;
+  client: { client_type: string } | Array<{ client_type: string }> | null;
+}
+
+interface CrewTimeRow {
+  job_id: string;
+  user_id: string;
+  minutes: number;
+  job: Omit<JobRow, "id" | "assigned_to"> | Array<Omit<JobRow, "id" | "assigned_to">> | null;
+}
+
+interface StaffRow {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  staff_profile:
+    | { hire_date: string | null; hourly_rate_cents: number | null }
+    | Array<{ hire_date: string | null; hourly_rate_cents: number | null }>
+    | null;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function parseDate(value: string): Date {
+  return new Date(`${value}T00:00:00Z`);
+}
+
+function addDays(value: string, days: number): string {
+  return toDateString(new Date(parseDate(value).getTime() + days * DAY_MS));
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Read settings.payroll from organization settings, filling in defaults
+ */
+export function getPayrollConfig(orgSettings: unknown): OrgPayrollConfig {
+  const raw = ((orgSettings as Record<string, unknown>)?.payroll || {}) as Partial<
+    OrgPayrollConfig
+  >;
+  return {
+    payPeriod: raw.payPeriod || "weekly",
+    payPeriodStartDay: raw.payPeriodStartDay ?? 1,
+    showPayrollOnFieldTechApp: raw.showPayrollOnFieldTechApp ?? false,
+    staffPayroll: raw.staffPayroll || {},
+    visibility: { ...DEFAULT_PAYROLL_VISIBILITY, ...(raw.visibility || {}) },
+    overtime: { ...DEFAULT_OVERTIME_RULES, ...(raw.overtime || {}) },
+  };
+}
+
+/**
+ * Get the pay period containing `referenceDate`, shifted by `offset` periods
+ * (-1 = previous period). Dates are YYYY-MM-DD, end inclusive.
+ */
+export function getPayPeriod(
+  config: Pick<OrgPayrollConfig, "payPeriod" | "payPeriodStartDay">,
+  referenceDate: string,
+  offset: number = 0
+): { start: string; end: string } {
+  if (config.payPeriod === "monthly") {
+    const ref = parseDate(referenceDate);
+    const start = new Date(Date.UTC(ref.getUTCFullYear(), ref.getUTCMonth() + offset, 1));
+    const end = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0));
+    return { start: toDateString(start), end: toDateString(end) };
+  }
+
+  // Back up to the most recent period start day
+  const ref = parseDate(referenceDate);
+  const back = (ref.getUTCDay() - config.payPeriodStartDay + 7) % 7;
+  let start = addDays(referenceDate, -back);
+
+  if (config.payPeriod === "biweekly") {
+    const anchorDate = parseDate(BIWEEKLY_ANCHOR);
+    const anchorBack = (anchorDate.getUTCDay() - config.payPeriodStartDay + 7) % 7;
+    const anchor = addDays(BIWEEKLY_ANCHOR, -anchorBack);
+    const weeks = Math.round((parseDate(start).getTime() - parseDate(anchor).getTime()) / (7 * DAY_MS));
+    if (((weeks % 2) + 2) % 2 === 1) {
+      start = addDays(start, -7);
+    }
+    start = addDays(start, offset * 14);
+    return { start, end: addDays(start, 13) };
+  }
+
+  start = addDays(start, offset * 7);
+  return { start, end: addDays(start, 6) };
+}
+
+/**
+ * Minutes worked on a shift, less unpaid (LUNCH) breaks
+ */
+function shiftMinutes(shift: ShiftRow): { worked: number; breaks: number } {
+  if (!shift.clock_in || !shift.clock_out) return { worked: 0, breaks: 0 };
+  const total = (new Date(shift.clock_out).getTime() - new Date(shift.clock_in).getTime()) / 60000;
+
+  let unpaid = 0;
+  let breaks = 0;
+  for (const b of shift.breaks || []) {
+    const end = b.break_end || shift.clock_out;
+    const minutes = Math.max(0, (new Date(end).getTime() - new Date(b.break_start).getTime()) / 60000);
+    breaks += minutes;
+    if (b.break_type === "LUNCH") unpaid += minutes;
+  }
+
+  return { worked: Math.max(0, total - unpaid), breaks };
+}
+
+/**
+ * Split daily worked minutes into regular and overtime.
+ * Daily overtime is applied first, then weekly overtime on the remaining
+ * regular minutes of each workweek (weeks start on payPeriodStartDay).
+ */
+function applyOvertime(days: PayrollDay[], rules: OvertimeRules, weekStartDay: number): void {
+  const dailyLimit = rules.dailyThresholdHours > 0 ? rules.dailyThresholdHours * 60 : Infinity;
+  const weeklyLimit = rules.weeklyThresholdHours > 0 ? rules.weeklyThresholdHours * 60 : Infinity;
+
+  let currentWeek: string | null = null;
+  let weekRegular = 0;
+
+  for (const day of days) {
+    const date = parseDate(day.date);
+    const weekStart = addDays(day.date, -((date.getUTCDay() - weekStartDay + 7) % 7));
+    if (weekStart !== currentWeek) {
+      currentWeek = weekStart;
+      weekRegular = 0;
+    }
+
+    let regular = Math.min(day.workedMinutes, dailyLimit);
+    let overtime = day.workedMinutes - regular;
+
+    if (weekRegular + regular > weeklyLimit) {
+      const excess = weekRegular + regular - weeklyLimit;
+      regular -= excess;
+      overtime += excess;
+    }
+
+    weekRegular += regular;
+    day.regularMinutes = regular;
+    day.overtimeMinutes = overtime;
+  }
+}
+
+function yearsSince(hireDate: string | null, asOf: string): number | null {
+  if (!hireDate) return null;
+  const years = (parseDate(asOf).getTime() - parseDate(hireDate).getTime()) / (365.25 * DAY_MS);
+  return years >= 0 ? Math.floor(years * 10) / 10 : null;
+}
+
+/**
+ * Calculate payroll statements for a pay period
+ */
+export async function calculatePayroll(
+  supabase: SupabaseClient,
+  orgId: string,
+  period: { start: string; end: string },
+  options: { userIds?: string[]; config?: OrgPayrollConfig } = {}
+): Promise<PayrollStatement[]> {
+  let config = options.config;
+  if (!config) {
+    const { data: org } = await supabase
+      .from("organizations")
+      .select("settings")
+      .eq("id", orgId)
+      .single();
+    config = getPayrollConfig(org?.settings);
+  }
+
+  let staffQuery = supabase
+    .from("users")
+    .select(`
+      id,
+      first_name,
+      last_name,
+      staff_profile:staff_profiles!left (
+        hire_date,
+        hourly_rate_cents
+      )
+    `)
+    .eq("org_id", orgId)
+    .in("role", ["FIELD_TECH", "CREW_LEAD"]);
+
+  if (options.userIds) {
+    staffQuery = staffQuery.in("id", options.userIds);
+  } else {
+    staffQuery = staffQuery.eq("is_active", true);
+  }
+
+  let shiftQuery = supabase
+    .from("shifts")
+    .select(`
+      id,
+      user_id,
+      shift_date,
+      clock_in,
+      clock_out,
+      start_odometer,
+      end_odometer,
+      breaks:shift_breaks (
+        break_start,
+        break_end,
+        break_type
+      )
+    `)
+    .eq("org_id", orgId)
+    .gte("shift_date", period.start)
+    .lte("shift_date", period.end);
+
+  let jobQuery = supabase
+    .from("jobs")
+    .select(`
+      id,
+      assigned_to,
+      scheduled_date,
+      price_cents,
+      client:client_id (
+        client_type
+      )
+    `)
+    .eq("org_id", orgId)
+    .eq("status", "COMPLETED")
+    .not("assigned_to", "is", null)
+    .gte("scheduled_date", period.start)
+    .lte("scheduled_date", period.end);
+
+  // Tips count in the period they were charged, for the tech who did the visit
+  let tipQuery = supabase
+    .from("job_ratings")
+    .select("tech_id, tip_cents")
+    .eq("org_id", orgId)
+    .eq("tip_status", "SUCCEEDED")
+    .not("tech_id", "is", null)
+    .gte("tipped_at", `${period.start}T00:00:00`)
+    .lte("tipped_at", `${period.end}T23:59:59.999`);
+
+  // All members' time on crew jobs, since each share depends on the whole crew
+  const crewQuery = supabase
+    .from("job_crew_time")
+    .select(`
+      job_id,
+      user_id,
+      minutes,
+      job:job_id!inner (
+        scheduled_date,
+        price_cents,
+        status,
+        client:client_id (
+          client_type
+        )
+      )
+    `)
+    .eq("org_id", orgId)
+    .eq("job.status", "COMPLETED")
+    .gte("job.scheduled_date", period.start)
+    .lte("job.scheduled_date", period.end);
+
+  if (options.userIds) {
+    shiftQuery = shiftQuery.in("user_id", options.userIds);
+    jobQuery = jobQuery.in("assigned_to", options.userIds);
+    tipQuery = tipQuery.in("tech_id", options.userIds);
+  }
+
+  const [{ data: staff }, { data: shifts }, { data: jobs }, { data: tips }, { data: crewTime }] = await Promise.all([
+    staffQuery,
+    shiftQuery,
+    jobQuery,
+    tipQuery,
+    crewQuery,
+  ]);
+
+  // Each crew member's share of a crew job; equal shares when no minutes were kept
+  const crewRows = (crewTime || []) as unknown as CrewTimeRow[];
+  const crewJobMinutes = new Map<string, { minutes: number; members: number }>();
+  for (const row of crewRows) {
+    const total = crewJobMinutes.get(row.job_id) || { minutes: 0, members: 0 };
+    total.minutes += row.minutes;
+    total.members += 1;
+    crewJobMinutes.set(row.job_id, total);
+  }
+  const crewShare = (row: CrewTimeRow) => {
+    const total = crewJobMinutes.get(row.job_id)!;
+    return total.minutes > 0 ? row.minutes / total.minutes : 1 / total.members;
+  };
+
+  const statements: PayrollStatement[] = [];
+
+  for (const member of (staff || []) as unknown as StaffRow[]) {
+    const profile = Array.isArray(member.staff_profile)
+      ? member.staff_profile[0] || null
+      : member.staff_profile;
+    const plan = { ...DEFAULT_PAYROLL_SETTINGS, ...(config.staffPayroll[member.id] || {}) };
+    const hourlyRateCents = plan.hourlyRateCents || profile?.hourly_rate_cents || 0;
+
+    const dayMap = new Map<string, PayrollDay>();
+    const getDay = (date: string) => {
+      let day = dayMap.get(date);
+      if (!day) {
+        day = {
+          date,
+          workedMinutes: 0,
+          regularMinutes: 0,
+          overtimeMinutes: 0,
+          breakMinutes: 0,
+          miles: 0,
+          jobsCompleted: 0,
+          revenueCents: 0,
+        };
+        dayMap.set(date, day);
+      }
+      return day;
+    };
+
+    let hasIncompleteShifts = false;
+    for (const shift of ((shifts || []) as unknown as ShiftRow[]).filter(
+      (s) => s.user_id === member.id
+    )) {
+      if (shift.clock_in && !shift.clock_out) hasIncompleteShifts = true;
+      const day = getDay(shift.shift_date);
+      const minutes = shiftMinutes(shift);
+      day.workedMinutes += minutes.worked;
+      day.breakMinutes += minutes.breaks;
+
+      if (shift.start_odometer !== null && shift.end_odometer !== null) {
+        const distance = Number(shift.end_odometer) - Number(shift.start_odometer);
+        if (distance > 0) day.miles += distance;
+      }
+    }
+
+    let residentialRevenueCents = 0;
+    let commercialRevenueCents = 0;
+    const credit = (job: Omit<JobRow, "id" | "assigned_to">, share: number) => {
+      const day = getDay(job.scheduled_date);
+      const price = Math.round((job.price_cents || 0) * share);
+      day.jobsCompleted += share;
+      day.revenueCents += price;
+      const client = Array.isArray(job.client) ? job.client[0] : job.client;
+      if (client?.client_type === "COMMERCIAL") {
+        commercialRevenueCents += price;
+      } else {
+        residentialRevenueCents += price;
+      }
+    };
+    for (const job of ((jobs || []) as unknown as JobRow[]).filter(
+      (j) => j.assigned_to === member.id && !crewJobMinutes.has(j.id)
+    )) {
+      credit(job, 1);
+    }
+    for (const row of crewRows.filter((r) => r.user_id === member.id)) {
+      const job = Array.isArray(row.job) ? row.job[0] : row.job;
+      if (job) credit(job, crewShare(row));
+    }
+
+    const days = Array.from(dayMap.values()).sort((a, b) => a.date.localeCompare(b.date));
+    for (const day of days) day.jobsCompleted = round2(day.jobsCompleted);
+    applyOvertime(days, config.overtime, config.payPeriodStartDay);
+
+    const regularMinutes = days.reduce((sum, d) => sum + d.regularMinutes, 0);
+    const overtimeMinutes = days.reduce((sum, d) => sum + d.overtimeMinutes, 0);
+    const workedMinutes = regularMinutes + overtimeMinutes;
+    const miles = days.reduce((sum, d) => sum + d.miles, 0);
+    const jobsCompleted = round2(days.reduce((sum, d) => sum + d.jobsCompleted, 0));
+    const revenueCents = residentialRevenueCents + commercialRevenueCents;
+
+    const lineItems: PayrollLineItem[] = [];
+    const regularHours = round2(regularMinutes / 60);
+    const overtimeHours = round2(overtimeMinutes / 60);
+
+    if (hourlyRateCents > 0 && regularMinutes > 0) {
+      lineItems.push({
+        type: "REGULAR_HOURS",
+        description: "Regular hours",
+        quantity: regularHours,
+        rateCents: hourlyRateCents,
+        amountCents: Math.round((regularMinutes / 60) * hourlyRateCents),
+      });
+    }
+    if (hourlyRateCents > 0 && overtimeMinutes > 0) {
+      const overtimeRate = Math.round(hourlyRateCents * config.overtime.multiplier);
+      lineItems.push({
+        type: "OVERTIME_HOURS",
+        description: `Overtime hours (${config.overtime.multiplier}x)`,
+        quantity: overtimeHours,
+        rateCents: overtimeRate,
+        amountCents: Math.round((overtimeMinutes / 60) * overtimeRate),
+      });
+    }
+    if (plan.yardRateCents > 0 && jobsCompleted > 0) {
+      lineItems.push({
+        type: "YARDS",
+        description: "Completed yards",
+        quantity: jobsCompleted,
+        rateCents: plan.yardRateCents,
+        amountCents: Math.round(jobsCompleted * plan.yardRateCents),
+      });
+    }
+    if (plan.basePercentage > 0 && revenueCents > 0) {
+      lineItems.push({
+        type: "REVENUE_PERCENTAGE",
+        description: `${plan.basePercentage}% of revenue`,
+        quantity: revenueCents / 100,
+        rateCents: null,
+        amountCents: Math.round((revenueCents * plan.basePercentage) / 100),
+      });
+    }
+    if (plan.fixedRateCents > 0) {
+      lineItems.push({
+        type: "FIXED",
+        description: "Fixed rate",
+        quantity: 1,
+        rateCents: plan.fixedRateCents,
+        amountCents: plan.fixedRateCents,
+      });
+    }
+    if (plan.mileageRateCents > 0 && miles > 0) {
+      lineItems.push({
+        type: "MILEAGE",
+        description: "Mileage reimbursement",
+        quantity: round2(miles),
+        rateCents: plan.mileageRateCents,
+        amountCents: Math.round(miles * plan.mileageRateCents),
+      });
+    }
+
+    const memberTips = (tips || []).filter((t) => t.tech_id === member.id);
+    if (memberTips.length > 0) {
+      lineItems.push({
+        type: "TIPS",
+        description: "Client tips",
+        quantity: memberTips.length,
+        rateCents: null,
+        amountCents: memberTips.reduce((sum, t) => sum + (t.tip_cents || 0), 0),
+      });
+    }
+
+    // Skip techs with no activity and no fixed pay this period
+    if (days.length === 0 && lineItems.length === 0) continue;
+
+    statements.push({
+      userId: member.id,
+      name: `${member.first_name || ""} ${member.last_name || ""}`.trim() || "Unknown",
+      hireDate: profile?.hire_date || null,
+      yearsInService: yearsSince(profile?.hire_date || null, period.end),
+      periodStart: period.start,
+      periodEnd: period.end,
+      workedHours: round2(workedMinutes / 60),
+      regularHours,
+      overtimeHours,
+      miles: round2(miles),
+      jobsCompleted,
+      revenueCents,
+      residentialRevenueCents,
+      commercialRevenueCents,
+      hourlyRateCents,
+      yardRateCents: plan.yardRateCents,
+      basePercentage: plan.basePercentage,
+      fixedRateCents: plan.fixedRateCents,
+      mileageRateCents: plan.mileageRateCents,
+      hasIncompleteShifts,
+      lineItems,
+      days,
+      totalCents: lineItems.reduce((sum, item) => sum + item.amountCents, 0),
+    });
+  }
+
+  return statements.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Null out anything the org has hidden via settings.payroll.visibility.
+ * Line item amounts are kept so the statement still adds up to its total.
+ */
+export function applyPayrollVisibility(
+  statement: PayrollStatement,
+  visibility: PayrollVisibility
+): PayrollStatement {
+  const hideRate: Partial<Record<PayrollLineType, boolean>> = {
+    REGULAR_HOURS: !visibility.hourlyRate,
+    OVERTIME_HOURS: !visibility.hourlyRate,
+    YARDS: !visibility.perYardRate,
+    FIXED: !visibility.fixedRate,
+    MILEAGE: !visibility.mileageRate,
+  };
+  const hideQuantity: Partial<Record<PayrollLineType, boolean>> = {
+    REGULAR_HOURS: !visibility.regularHours,
+    OVERTIME_HOURS: !visibility.overtimeHours,
+    YARDS: !visibility.nrOfJobs,
+    REVENUE_PERCENTAGE: !visibility.revenue,
+    MILEAGE: !visibility.distance,
+    TIPS: !visibility.tips,
+  };
+
+  return {
+    ...statement,
+    yearsInService: visibility.yearsInService ? statement.yearsInService : null,
+    workedHours: visibility.workedHours ? statement.workedHours : null,
+    regularHours: visibility.regularHours ? statement.regularHours : null,
+    overtimeHours: visibility.overtimeHours ? statement.overtimeHours : null,
+    miles: visibility.distance ? statement.miles : null,
+    jobsCompleted: visibility.nrOfJobs ? statement.jobsCompleted : null,
+    revenueCents: visibility.revenue ? statement.revenueCents : null,
+    residentialRevenueCents: visibility.residentialRevenue
+      ? statement.residentialRevenueCents
+      : null,
+    commercialRevenueCents: visibility.commercialRevenue
+      ? statement.commercialRevenueCents
+      : null,
+    hourlyRateCents: visibility.hourlyRate ? statement.hourlyRateCents : null,
+    yardRateCents: visibility.perYardRate ? statement.yardRateCents : null,
+    basePercentage: visibility.basePercentage ? statement.basePercentage : null,
+    fixedRateCents: visibility.fixedRate ? statement.fixedRateCents : null,
+    mileageRateCents: visibility.mileageRate ? statement.mileageRateCents : null,
+    lineItems: statement.lineItems.map((item) => ({
+      ...item,
+      description:
+        item.type === "REVENUE_PERCENTAGE" && !visibility.basePercentage
+          ? "Revenue share"
+          : item.description,
+      quantity: hideQuantity[item.type] ? null : item.quantity,
+      rateCents: hideRate[item.type] ? null : item.rateCents,
+    })),
+    days: statement.days.map((day) => ({
+      ...day,
+      workedMinutes: visibility.workedHours ? day.workedMinutes : 0,
+      regularMinutes: visibility.regularHours ? day.regularMinutes : 0,
+      overtimeMinutes: visibility.overtimeHours ? day.overtimeMinutes : 0,
+      miles: visibility.distance ? day.miles : 0,
+      jobsCompleted: visibility.nrOfJobs ? day.jobsCompleted : 0,
+      revenueCents: visibility.revenue ? day.revenueCents : 0,
+    })),
+  };
+}
@@ -1,6 +1,11 @@
-// Estimated monthly revenue per plan, derived from the median of actual charged
-// amounts in the historical subscriptions export (Sweep&Go's API doesn't expose
-// a per-customer price). Used to estimate MRR on the Customers → Dashboard for
+import { createClient } from "@supabase/supabase-js";
+import { loadPricingContext, quotePrice, type PricingContext } from "@/lib/pricing-engine";
+
+// Estimated monthly revenue per plan. Plan codes ("2d-1xW" = 2 dogs, once a
+// week) are priced by the pricing engine when a PricingContext is passed; the
+// medians below, from actual charged amounts in the historical subscriptions
+// export (Sweep&Go's API doesn't expose a per-customer price), cover codes the
+// pricing rules don't. Used to estimate MRR on the Customers → Dashboard for
 // active customers (whose revenue isn't in the sync feed) and to keep MRR moving
 // as customers sign up / cancel going forward.
 const CODE_PRICE: Record<string, number> = {
@@ -12,16 +17,56 @@ const CODE_PRICE: Record<string, number> = {
 const SPRAY = 25;
 const OVERALL = 89;
 
+const CODE_FREQUENCY: Record<string, string> = {
+  "1xm": "MONTHLY",
+  bw: "BIWEEKLY",
+  "1xw": "WEEKLY",
+  "2xw": "TWICE_WEEKLY",
+};
+
+/** Monthly dollars the pricing rules charge for a plan code, if they cover it */
+function engineMonthly(code: string, ctx: PricingContext): number | null {
+  const match = code.match(/^(\d+)d-(\w+)$/);
+  const frequency = match ? CODE_FREQUENCY[match[2]] : undefined;
+  if (!match || !frequency) return null;
+  const quote = quotePrice(ctx, { dogs: parseInt(match[1]), frequency });
+  if (quote.priceNotConfigured || !quote.monthlyCents) return null;
+  return Math.round(quote.monthlyCents) / 100;
+}
+
 /** Best-effort monthly revenue for a customer from their plan code(s) (e.g.
  *  "2d-1xW,Sanitization Spray"). Falls back to the overall median. */
-export function estimateMonthlyRevenue(subscriptionNames: string | null | undefined): number {
+export function estimateMonthlyRevenue(
+  subscriptionNames: string | null | undefined,
+  ctx?: PricingContext | null
+): number {
   const s = (subscriptionNames || "").toLowerCase();
   let total = 0;
   let found = false;
   for (const m of s.matchAll(/(\d+d-\w+)/g)) {
-    const price = CODE_PRICE[m[1]];
+    const price = (ctx ? engineMonthly(m[1], ctx) : null) ?? CODE_PRICE[m[1]];
     if (price != null) { total += price; found = true; }
   }
   if (s.includes("saniti")) { total += SPRAY; found = true; }
   return found ? total : OVERALL;
 }
+
+// Pricing rules for revenue estimates outside a request (crons, admin pages);
+// null falls back to the historical medians above.
+export async function loadPlanPricing(): Promise<PricingContext | null> {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) return null;
+  try {
+    const supabase = createClient(url, serviceKey);
+    const { data: org } = await supabase
+      .from("organizations")
+      .select("id")
+      .eq("slug", "doogoodscoopers")
+      .single();
+    return org ? await loadPricingContext(supabase, org.id) : null;
+  } catch (e) {
+    console.error("[plan-pricing] pricing rules unavailable:", e);
+    return null;
+  }
+}
@@ -0,0 +1,531 @@
+/**
+ * Pricing Engine
+ *
+ * The one place a price is worked out. Everything comes from pricing_rules
+ * (see migration 0041 for rule types), the org's add_ons and the one-time
+ * price ranges in organizations.settings.pricing:
+ *
+ *   service price     PRICE rules by frequency, dog range and zone
+ *   zone              SERVICE_AREA rules (the zip's REGULAR / PREMIUM area)
+ *   surcharges        YARD_SIZE and ZIP_SURCHARGE rules
+ *   initial cleanup   INITIAL_CLEANUP rules by last-cleaned bracket
+ *   add-ons           add_ons by price_type / is_recurring
+ *
+ * quotePrice() is pure so a batch of quotes (the settings simulator, service
+ * plan previews, MRR estimates) shares one loadPricingContext() round trip.
+ * Used by /api/v2/get-pricing (QuoteForm), /api/v2/funnel/pricing, the office
+ * Pricing Setup screens and plan-pricing.ts.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+
+export type PricingZone = "REGULAR" | "PREMIUM";
+export type PriceCadence = "PER_VISIT" | "PER_MONTH" | "ONE_TIME";
+
+export interface PricingRuleRow {
+  id: string;
+  name: string;
+  rule_type: string | null;
+  zip_codes: string[] | null;
+  zone: PricingZone | null;
+  frequency: string | null;
+  min_dogs: number | null;
+  max_dogs: number | null;
+  last_cleaned_bracket: string | null;
+  yard_size: string | null;
+  price_unit: string | null;
+  base_price_cents: number;
+  per_dog_price_cents: number;
+  initial_cleanup_cents: number;
+  priority: number;
+}
+
+export interface AddOnRow {
+  id: string;
+  name: string;
+  price_cents: number;
+  price_type: "FIXED" | "PER_DOG" | "PER_VISIT";
+  is_recurring: boolean;
+}
+
+interface OneTimePriceRange {
+  min: number;
+  max: number;
+}
+
+export interface PricingSettings {
+  oneTime?: { useCustomPrices?: boolean };
+  /** { [lastCleanedBracket]: { [dogCount]: { min, max } } } in cents */
+  oneTimePrices?: Record<string, Record<string, OneTimePriceRange>>;
+}
+
+export interface PricingContext {
+  orgId: string;
+  rules: PricingRuleRow[];
+  addOns: AddOnRow[];
+  settings: PricingSettings;
+}
+
+export interface QuoteInput {
+  zipCode?: string | null;
+  dogs: number;
+  /** Funnel (once_a_week) or database (WEEKLY) frequency */
+  frequency: string;
+  /** Funnel (3-4_months) or settings (THREE_TO_FOUR_MONTHS) bracket */
+  lastCleaned?: string | null;
+  yardSize?: string | null;
+  addOnIds?: string[];
+  /** Price as this zone instead of looking the zip up */
+  zone?: PricingZone | null;
+}
+
+export interface QuoteLineItem {
+  kind: "SERVICE" | "EXTRA_DOGS" | "YARD_SIZE" | "ZIP_SURCHARGE" | "INITIAL_CLEANUP" | "ADD_ON";
+  label: string;
+  amountCents: number;
+  cadence: PriceCadence;
+  ruleId?: string;
+  addOnId?: string;
+}
+
+export interface PriceQuote {
+  frequency: string | null;
+  dogs: number;
+  zone: PricingZone | null;
+  /** null when no zip was given */
+  inServiceArea: boolean | null;
+  oneTime: boolean;
+  visitsPerMonth: number;
+  perVisitCents: number;
+  /** null for one-time cleanups */
+  monthlyCents: number | null;
+  initialCleanupCents: number;
+  initialCleanupAddOnId: string | null;
+  /** Due at signup: initial cleanup, non-recurring add-ons, or the one-time cleanup itself */
+  dueTodayCents: number;
+  /** Estimate range when one-time cleanups are quoted from the settings table */
+  oneTimeRange: { minCents: number; maxCents: number } | null;
+  lineItems: QuoteLineItem[];
+  priceNotConfigured: boolean;
+}
+
+export const YARD_SIZES = [
+  { value: "SMALL", label: "Small (under 1/4 acre)" },
+  { value: "MEDIUM", label: "Medium (1/4 - 1/2 acre)" },
+  { value: "LARGE", label: "Large (1/2 - 1 acre)" },
+  { value: "XLARGE", label: "Extra large (over 1 acre)" },
+] as const;
+
+/** Last-cleaned brackets, keyed as in the Initial/One Time Prices settings */
+export const LAST_CLEANED_BRACKETS = [
+  { key: "ONE_WEEK", label: "One Week" },
+  { key: "TWO_WEEKS", label: "Two Weeks" },
+  { key: "THREE_WEEKS", label: "Three Weeks" },
+  { key: "ONE_MONTH", label: "One Month" },
+  { key: "TWO_MONTHS", label: "Two Months" },
+  { key: "THREE_TO_FOUR_MONTHS", label: "3-4 Months" },
+  { key: "FIVE_TO_SIX_MONTHS", label: "5-6 Months" },
+  { key: "SEVEN_TO_NINE_MONTHS", label: "7-9 Months" },
+  { key: "TEN_PLUS_MONTHS", label: "10+ Months" },
+] as const;
+
+const FUNNEL_LAST_CLEANED: Record<string, string> = {
+  one_week: "ONE_WEEK",
+  two_weeks: "TWO_WEEKS",
+  three_weeks: "THREE_WEEKS",
+  one_month: "ONE_MONTH",
+  two_months: "TWO_MONTHS",
+  "3-4_months": "THREE_TO_FOUR_MONTHS",
+  "5-6_months": "FIVE_TO_SIX_MONTHS",
+  "7-9_months": "SEVEN_TO_NINE_MONTHS",
+  "10+_months": "TEN_PLUS_MONTHS",
+};
+
+// Initial cleanup add-ons used before INITIAL_CLEANUP rules existed; a yard
+// cleaned within two weeks has no initial fee.
+const LEGACY_INITIAL_CLEANUP_ADD_ONS: Record<string, string | null> = {
+  ONE_WEEK: null,
+  TWO_WEEKS: null,
+  THREE_WEEKS: "Initial Cleanup - Moderate",
+  ONE_MONTH: "Initial Cleanup - Moderate",
+  TWO_MONTHS: "Initial Cleanup - Heavy",
+  THREE_TO_FOUR_MONTHS: "Initial Cleanup - Heavy",
+  FIVE_TO_SIX_MONTHS: "Initial Cleanup - Deep",
+  SEVEN_TO_NINE_MONTHS: "Initial Cleanup - Deep",
+  TEN_PLUS_MONTHS: "Initial Cleanup - Deep",
+};
+
+const FUNNEL_FREQUENCIES: Record<string, string> = {
+  once_a_week: "WEEKLY",
+  weekly: "WEEKLY",
+  two_times_a_week: "TWICE_WEEKLY",
+  twice_weekly: "TWICE_WEEKLY",
+  bi_weekly: "BIWEEKLY",
+  biweekly: "BIWEEKLY",
+  every_other_week: "BIWEEKLY",
+  once_a_month: "MONTHLY",
+  monthly: "MONTHLY",
+  one_time: "ONETIME",
+  onetime: "ONETIME",
+  one_time_cleanup: "ONETIME",
+};
+
+// Visits per month on the 4.33-weeks/month basis Sweep&Go also bills on
+const WEEKS_PER_MONTH = 4.33;
+const VISITS_PER_MONTH: Record<string, number> = {
+  SEVEN_TIMES_A_WEEK: WEEKS_PER_MONTH * 7,
+  SIX_TIMES_A_WEEK: WEEKS_PER_MONTH * 6,
+  FIVE_TIMES_A_WEEK: WEEKS_PER_MONTH * 5,
+  FOUR_TIMES_A_WEEK: WEEKS_PER_MONTH * 4,
+  THREE_TIMES_A_WEEK: WEEKS_PER_MONTH * 3,
+  TWICE_WEEKLY: WEEKS_PER_MONTH * 2,
+  WEEKLY: WEEKS_PER_MONTH,
+  BIWEEKLY: WEEKS_PER_MONTH / 2,
+  TWICE_PER_MONTH: 2,
+  EVERY_THREE_WEEKS: WEEKS_PER_MONTH / 3,
+  EVERY_FOUR_WEEKS: WEEKS_PER_MONTH / 4,
+  MONTHLY: 1,
+  ONETIME: 1,
+};
+
+// Multi-visit cadences without their own rule are priced per visit off the
+// weekly rule; a monthly weekly price is scaled by the visit count instead.
+const WEEKLY_MULTIPLES: Record<string, number> = {
+  TWICE_WEEKLY: 2,
+  THREE_TIMES_A_WEEK: 3,
+  FOUR_TIMES_A_WEEK: 4,
+  FIVE_TIMES_A_WEEK: 5,
+  SIX_TIMES_A_WEEK: 6,
+  SEVEN_TIMES_A_WEEK: 7,
+};
+
+/** Database frequency for a funnel or database frequency value */
+export function normalizeFrequency(frequency: string | null | undefined): string | null {
+  if (!frequency) return null;
+  const upper = frequency.toUpperCase();
+  if (VISITS_PER_MONTH[upper] !== undefined) return upper;
+  if (upper === "ONE_TIME") return "ONETIME";
+  if (upper === "EVERY_OTHER_WEEK") return "BIWEEKLY";
+  return FUNNEL_FREQUENCIES[frequency.toLowerCase()] || null;
+}
+
+/** Settings bracket key for a funnel or settings last-cleaned value */
+export function normalizeLastCleaned(lastCleaned: string | null | undefined): string | null {
+  if (!lastCleaned) return null;
+  if (LAST_CLEANED_BRACKETS.some((b) => b.key === lastCleaned)) return lastCleaned;
+  return FUNNEL_LAST_CLEANED[lastCleaned.toLowerCase()] || null;
+}
+
+export function visitsPerMonth(frequency: string | null | undefined): number {
+  const normalized = normalizeFrequency(frequency);
+  return normalized ? VISITS_PER_MONTH[normalized] : WEEKS_PER_MONTH;
+}
+
+/**
+ * Load everything quotePrice() needs for an org in one go.
+ */
+export async function loadPricingContext(
+  supabase: SupabaseClient,
+  orgId: string
+): Promise<PricingContext> {
+  const [rulesResult, addOnsResult, orgResult] = await Promise.all([
+    supabase
+      .from("pricing_rules")
+      .select("*")
+      .eq("org_id", orgId)
+      .eq("is_active", true)
+      .order("priority", { ascending: false }),
+    supabase
+      .from("add_ons")
+      .select("id, name, price_cents, price_type, is_recurring")
+      .eq("org_id", orgId)
+      .eq("is_active", true),
+    supabase.from("organizations").select("settings").eq("id", orgId).single(),
+  ]);
+
+  if (rulesResult.error) {
+    throw new Error(`Failed to load pricing rules: ${rulesResult.error.message}`);
+  }
+
+  return {
+    orgId,
+    rules: (rulesResult.data || []) as PricingRuleRow[],
+    addOns: (addOnsResult.data || []) as AddOnRow[],
+    settings: (orgResult.data?.settings?.pricing || {}) as PricingSettings,
+  };
+}
+
+function ruleType(rule: PricingRuleRow): string {
+  // Rows from before migration 0041 are recognised the way check-zip does
+  if (rule.name?.startsWith("Service Area - ")) return "SERVICE_AREA";
+  return rule.rule_type || "PRICE";
+}
+
+function coversDogs(rule: PricingRuleRow, dogs: number): boolean {
+  return dogs >= (rule.min_dogs ?? 1) && dogs <= (rule.max_dogs ?? 99);
+}
+
+function coversZip(rule: PricingRuleRow, zipCode: string | null): boolean {
+  const zips = rule.zip_codes || [];
+  return zips.length === 0 || (!!zipCode && zips.includes(zipCode));
+}
+
+function coversZone(rule: PricingRuleRow, zone: PricingZone | null): boolean {
+  return !rule.zone || rule.zone === (zone || "REGULAR");
+}
+
+// Zip-specific rules beat zone rules, which beat catch-all rules; priority breaks ties
+function specificity(rule: PricingRuleRow): number {
+  return ((rule.zip_codes || []).length > 0 ? 2 : 0) + (rule.zone ? 1 : 0);
+}
+
+function bySpecificity(a: PricingRuleRow, b: PricingRuleRow): number {
+  return specificity(b) - specificity(a) || (b.priority || 0) - (a.priority || 0);
+}
+
+/** Base cents plus per-dog cents for every dog past the rule's minimum */
+function ruleAmount(rule: PricingRuleRow, dogs: number): { base: number; extra: number; extraDogs: number } {
+  const extraDogs = rule.per_dog_price_cents > 0 ? Math.max(0, dogs - (rule.min_dogs ?? 1)) : 0;
+  return {
+    base: rule.base_price_cents,
+    extra: extraDogs * rule.per_dog_price_cents,
+    extraDogs,
+  };
+}
+
+/** The zone a zip is served in, or null when it isn't in any service area */
+export function resolveZone(ctx: PricingContext, zipCode: string | null | undefined): PricingZone | null {
+  if (!zipCode) return null;
+  const area = ctx.rules
+    .filter((r) => ruleType(r) === "SERVICE_AREA" && (r.zip_codes || []).includes(zipCode))
+    .sort(bySpecificity)[0];
+  return area ? area.zone || "REGULAR" : null;
+}
+
+function findRule(
+  ctx: PricingContext,
+  type: string,
+  matches: (rule: PricingRuleRow) => boolean,
+  dogs: number
+): PricingRuleRow | null {
+  const candidates = ctx.rules.filter((r) => ruleType(r) === type && matches(r)).sort(bySpecificity);
+  const exact = candidates.find((r) => coversDogs(r, dogs));
+  if (exact) return exact;
+  // More dogs than any rule covers: extend the largest per-dog rule
+  return (
+    candidates
+      .filter((r) => r.per_dog_price_cents > 0 && r.max_dogs != null && r.max_dogs < dogs)
+      .sort((a, b) => (b.max_dogs || 0) - (a.max_dogs || 0))[0] || null
+  );
+}
+
+function cadenceOf(rule: PricingRuleRow, oneTime: boolean): PriceCadence {
+  if (oneTime) return "ONE_TIME";
+  return rule.price_unit === "PER_MONTH" ? "PER_MONTH" : "PER_VISIT";
+}
+
+function dogsLabel(dogs: number): string {
+  return `${dogs} dog${dogs === 1 ? "" : "s"}`;
+}
+
+/**
+ * Price a service for the given dogs, frequency, yard, zip and add-ons.
+ */
+export function quotePrice(ctx: PricingContext, input: QuoteInput): PriceQuote {
+  const dogs = Math.max(1, Math.floor(input.dogs || 1));
+  const frequency = normalizeFrequency(input.frequency);
+  const oneTime = frequency === "ONETIME";
+  const vpm = frequency ? VISITS_PER_MONTH[frequency] : WEEKS_PER_MONTH;
+  const zipCode = input.zipCode?.trim() || null;
+  const areaZone = resolveZone(ctx, zipCode);
+  const zone = input.zone || areaZone;
+  const bracket = normalizeLastCleaned(input.lastCleaned);
+  const lineItems: QuoteLineItem[] = [];
+  let priceNotConfigured = false;
+  let oneTimeRange: PriceQuote["oneTimeRange"] = null;
+
+  const inArea = (r: PricingRuleRow) => coversZone(r, zone) && coversZip(r, zipCode);
+
+  // ── Service price ──────────────────────────────────────────────────────────
+  let serviceRule: PricingRuleRow | null = null;
+  const customOneTime = oneTime && ctx.settings.oneTime?.useCustomPrices && bracket
+    ? ctx.settings.oneTimePrices?.[bracket]?.[String(dogs)]
+    : undefined;
+
+  if (customOneTime && customOneTime.max > 0) {
+    oneTimeRange = { minCents: customOneTime.min, maxCents: customOneTime.max };
+    lineItems.push({
+      kind: "SERVICE",
+      label: `One-time cleanup, ${dogsLabel(dogs)} (estimate)`,
+      amountCents: customOneTime.min,
+      cadence: "ONE_TIME",
+    });
+  } else if (frequency) {
+    serviceRule = findRule(ctx, "PRICE", (r) => r.frequency === frequency && inArea(r), dogs);
+    let multiple = 1;
+    if (!serviceRule && WEEKLY_MULTIPLES[frequency]) {
+      serviceRule = findRule(ctx, "PRICE", (r) => r.frequency === "WEEKLY" && inArea(r), dogs);
+      multiple = serviceRule?.price_unit === "PER_MONTH" ? WEEKLY_MULTIPLES[frequency] : 1;
+    }
+
+    if (serviceRule) {
+      const { base, extra, extraDogs } = ruleAmount(serviceRule, dogs);
+      const cadence = cadenceOf(serviceRule, oneTime);
+      lineItems.push({
+        kind: "SERVICE",
+        label: serviceRule.name,
+        amountCents: base * multiple,
+        cadence,
+        ruleId: serviceRule.id,
+      });
+      if (extra > 0) {
+        lineItems.push({
+          kind: "EXTRA_DOGS",
+          label: `${extraDogs} additional dog${extraDogs === 1 ? "" : "s"}`,
+          amountCents: extra * multiple,
+          cadence,
+          ruleId: serviceRule.id,
+        });
+      }
+    } else {
+      priceNotConfigured = true;
+    }
+  } else {
+    priceNotConfigured = true;
+  }
+
+  // ── Surcharges ─────────────────────────────────────────────────────────────
+  if (!priceNotConfigured) {
+    const appliesToFrequency = (r: PricingRuleRow) => !r.frequency || r.frequency === frequency;
+
+    if (input.yardSize) {
+      const yardRule = findRule(
+        ctx,
+        "YARD_SIZE",
+        (r) => r.yard_size === input.yardSize && appliesToFrequency(r) && inArea(r),
+        dogs
+      );
+      if (yardRule) {
+        const { base, extra } = ruleAmount(yardRule, dogs);
+        if (base + extra > 0) {
+          lineItems.push({
+            kind: "YARD_SIZE",
+            label: yardRule.name,
+            amountCents: base + extra,
+            cadence: cadenceOf(yardRule, oneTime),
+            ruleId: yardRule.id,
+          });
+        }
+      }
+    }
+
+    if (zipCode) {
+      const zipRules = ctx.rules.filter(
+        (r) =>
+          ruleType(r) === "ZIP_SURCHARGE" &&
+          (r.zip_codes || []).includes(zipCode) &&
+          appliesToFrequency(r) &&
+          coversDogs(r, dogs)
+      );
+      for (const rule of zipRules) {
+        const { base, extra } = ruleAmount(rule, dogs);
+        if (base + extra <= 0) continue;
+        lineItems.push({
+          kind: "ZIP_SURCHARGE",
+          label: rule.name,
+          amountCents: base + extra,
+          cadence: cadenceOf(rule, oneTime),
+          ruleId: rule.id,
+        });
+      }
+    }
+  }
+
+  // ── Initial cleanup (recurring service only) ───────────────────────────────
+  let initialCleanupAddOnId: string | null = null;
+  if (!oneTime && !priceNotConfigured && bracket) {
+    const initialRule = findRule(
+      ctx,
+      "INITIAL_CLEANUP",
+      (r) => r.last_cleaned_bracket === bracket && inArea(r),
+      dogs
+    );
+    const bracketLabel = LAST_CLEANED_BRACKETS.find((b) => b.key === bracket)?.label || bracket;
+
+    if (initialRule) {
+      const { base, extra } = ruleAmount(initialRule, dogs);
+      if (base + extra > 0) {
+        lineItems.push({
+          kind: "INITIAL_CLEANUP",
+          label: `Initial cleanup (last cleaned ${bracketLabel.toLowerCase()} ago)`,
+          amountCents: base + extra,
+          cadence: "ONE_TIME",
+          ruleId: initialRule.id,
+        });
+      }
+    } else if (serviceRule && serviceRule.initial_cleanup_cents > 0 && LEGACY_INITIAL_CLEANUP_ADD_ONS[bracket]) {
+      // The service rule's own initial fee, for brackets that carry one
+      lineItems.push({
+        kind: "INITIAL_CLEANUP",
+        label: "Initial cleanup",
+        amountCents: serviceRule.initial_cleanup_cents,
+        cadence: "ONE_TIME",
+        ruleId: serviceRule.id,
+      });
+    } else {
+      const addOnName = LEGACY_INITIAL_CLEANUP_ADD_ONS[bracket];
+      const addOn = addOnName ? ctx.addOns.find((a) => a.name === addOnName) : undefined;
+      if (addOn && addOn.price_cents > 0) {
+        initialCleanupAddOnId = addOn.id;
+        lineItems.push({
+          kind: "INITIAL_CLEANUP",
+          label: addOn.name,
+          amountCents: addOn.price_cents,
+          cadence: "ONE_TIME",
+          addOnId: addOn.id,
+        });
+      }
+    }
+  }
+
+  // ── Add-ons ────────────────────────────────────────────────────────────────
+  for (const addOnId of input.addOnIds || []) {
+    const addOn = ctx.addOns.find((a) => a.id === addOnId);
+    if (!addOn) continue;
+    const amount = addOn.price_type === "PER_DOG" ? addOn.price_cents * dogs : addOn.price_cents;
+    let cadence: PriceCadence = "ONE_TIME";
+    if (addOn.is_recurring && !oneTime) {
+      cadence = addOn.price_type === "FIXED" ? "PER_MONTH" : "PER_VISIT";
+    }
+    lineItems.push({ kind: "ADD_ON", label: addOn.name, amountCents: amount, cadence, addOnId: addOn.id });
+  }
+
+  // ── Totals ─────────────────────────────────────────────────────────────────
+  const sum = (cadence: PriceCadence, kinds?: QuoteLineItem["kind"][]) =>
+    lineItems
+      .filter((l) => l.cadence === cadence && (!kinds || kinds.includes(l.kind)))
+      .reduce((total, l) => total + l.amountCents, 0);
+
+  const perVisitLines = sum("PER_VISIT");
+  const perMonthLines = sum("PER_MONTH");
+  const initialCleanupCents = sum("ONE_TIME", ["INITIAL_CLEANUP"]);
+
+  return {
+    frequency,
+    dogs,
+    zone,
+    inServiceArea: zipCode ? areaZone !== null : null,
+    oneTime,
+    visitsPerMonth: vpm,
+    perVisitCents: oneTime
+      ? sum("ONE_TIME", ["SERVICE", "EXTRA_DOGS", "YARD_SIZE", "ZIP_SURCHARGE"])
+      : perVisitLines + Math.round(perMonthLines / vpm),
+    monthlyCents: oneTime ? null : Math.round(perVisitLines * vpm) + perMonthLines,
+    initialCleanupCents,
+    initialCleanupAddOnId,
+    dueTodayCents: sum("ONE_TIME"),
+    oneTimeRange,
+    lineItems,
+    priceNotConfigured,
+  };
+}
@@ -0,0 +1,344 @@
+/**
+ * Mid-cycle Proration
+ *
+ * Monthly invoices bill a subscription for the month ahead on the 1st, so a
+ * plan change partway through a month (new frequency, schedule or per-visit
+ * price, e.g. after adding a dog) leaves the rest of that month billed at
+ * the old plan. Proration prices the visits from the effective date to the
+ * end of the month both ways and records the difference: a charge when the
+ * new plan costs more, a credit when it costs less.
+ *
+ * Old-plan visits are counted from the jobs on the schedule (held, skipped
+ * and canceled jobs don't count), with the old rule filling in past the
+ * last generated job; new-plan visits come from the new rule. Nothing is
+ * prorated for a month that hasn't been invoiced yet, since that invoice
+ * already uses the new plan, nor for pauses, cancellations or one-time
+ * service.
+ *
+ * Only flat-rate plans are billed by the month (see lib/visit-billing).
+ * Moving off flat rate credits the rest of the month, since those visits
+ * are now billed one by one; moving onto it charges the rest of the month
+ * at the new rate. Changes between per-visit and prepaid pack plans aren't
+ * prorated.
+ *
+ * Recorded prorations wait in subscription_prorations until the monthly
+ * invoice generator bills them as explicit line items. A credit bigger than
+ * that invoice's charges carries over to the client's account credit (see
+ * lib/credit-ledger).
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { addDaysToDate, getSubscriptionRecurrence, serviceDatesBetween } from "./recurrence";
+import { billingModeOf, BILLING_MODE_LABELS, type BillingMode } from "./visit-billing";
+
+const FREQUENCY_LABELS: Record<string, string> = {
+  WEEKLY: "Weekly",
+  BIWEEKLY: "Every 2 Weeks",
+  MONTHLY: "Monthly",
+  ONETIME: "One-time",
+};
+
+// Invoice statuses that mean the month was billed
+const BILLED_STATUSES = ["OPEN", "PAID", "FAILED"];
+
+// Jobs that count as visits still coming under the old plan
+const VISIT_STATUSES = ["SCHEDULED", "EN_ROUTE", "IN_PROGRESS", "COMPLETED"];
+
+export interface ProrationPreview {
+  /** False when nothing is prorated; reason says why */
+  applies: boolean;
+  reason: string | null;
+  subscriptionId: string;
+  effectiveDate: string;
+  periodStart: string;
+  periodEnd: string;
+  /** The invoice that billed the period at the old plan */
+  invoiceId: string | null;
+  oldFrequency: string;
+  newFrequency: string;
+  oldMode: BillingMode;
+  newMode: BillingMode;
+  oldPerVisitCents: number;
+  newPerVisitCents: number;
+  oldVisits: number;
+  newVisits: number;
+  oldChargeCents: number;
+  newChargeCents: number;
+  /** Positive is charged on the next invoice, negative is credited */
+  amountCents: number;
+  description: string;
+}
+
+export interface PendingProration {
+  id: string;
+  subscriptionId: string;
+  effectiveDate: string;
+  amountCents: number;
+  description: string;
+}
+
+function formatCents(cents: number): string {
+  return `$${(Math.abs(cents) / 100).toFixed(2)}`;
+}
+
+function frequencyLabel(frequency: string): string {
+  return FREQUENCY_LABELS[frequency] || frequency;
+}
+
+function lastDayOfMonth(date: string): string {
+  const [year, month] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month, 0)).toISOString().split("T")[0];
+}
+
+function describe(preview: Omit<ProrationPreview, "applies" | "reason" | "description">): string {
+  const visits = (count: number) => `${count} visit${count !== 1 ? "s" : ""}`;
+  if (preview.oldMode !== preview.newMode) {
+    const change = `Switch to ${BILLING_MODE_LABELS[preview.newMode].toLowerCase()} billing from ${preview.effectiveDate}`;
+    return preview.newMode === "MONTHLY_FLAT"
+      ? `${change}: ${visits(preview.newVisits)} at ${formatCents(preview.newPerVisitCents)}`
+      : `${change}: credit for ${visits(preview.oldVisits)} at ${formatCents(preview.oldPerVisitCents)} already billed`;
+  }
+  const plan = preview.oldFrequency !== preview.newFrequency
+    ? `${frequencyLabel(preview.oldFrequency)} to ${frequencyLabel(preview.newFrequency)}`
+    : "Plan change";
+  return `${plan} proration from ${preview.effectiveDate}: ` +
+    `${visits(preview.newVisits)} at ${formatCents(preview.newPerVisitCents)} ` +
+    `instead of ${visits(preview.oldVisits)} at ${formatCents(preview.oldPerVisitCents)}`;
+}
+
+/** Old-plan visits left in the period: jobs on the schedule, then the rule */
+async function countScheduledVisits(
+  supabase: SupabaseClient,
+  orgId: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  subscription: any,
+  from: string,
+  to: string
+): Promise<number> {
+  const { data: jobs } = await supabase
+    .from("jobs")
+    .select("scheduled_date, status")
+    .eq("org_id", orgId)
+    .eq("subscription_id", subscription.id)
+    .gte("scheduled_date", from)
+    .lte("scheduled_date", to);
+
+  const rows = jobs || [];
+  const visits = rows.filter((job) => VISIT_STATUSES.includes(job.status)).length;
+
+  // Jobs are only generated a couple of weeks ahead
+  const lastJobDate = rows.reduce<string | null>(
+    (latest, job) => (!latest || job.scheduled_date > latest ? job.scheduled_date : latest),
+    null
+  );
+  const rule = getSubscriptionRecurrence(subscription);
+  const ruleFrom = lastJobDate ? addDaysToDate(lastJobDate, 1) : from;
+  return visits + (rule && ruleFrom <= to ? serviceDatesBetween(rule, ruleFrom, to).length : 0);
+}
+
+/**
+ * Price a change to a subscription for the rest of the month it takes
+ * effect in. `before` is the current row and `after` the row as it will be
+ * once the change is applied.
+ */
+export async function previewProration(
+  supabase: SupabaseClient,
+  orgId: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  before: any,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  after: any,
+  effectiveDate?: string | null
+): Promise<ProrationPreview> {
+  const effective = effectiveDate || new Date().toISOString().split("T")[0];
+  const periodStart = `${effective.slice(0, 7)}-01`;
+  const periodEnd = lastDayOfMonth(effective);
+
+  const base = {
+    subscriptionId: before.id,
+    effectiveDate: effective,
+    periodStart,
+    periodEnd,
+    invoiceId: null as string | null,
+    oldFrequency: before.frequency,
+    newFrequency: after.frequency,
+    oldMode: billingModeOf(before),
+    newMode: billingModeOf(after),
+    oldPerVisitCents: before.price_per_visit_cents || 0,
+    newPerVisitCents: after.price_per_visit_cents || 0,
+    oldVisits: 0,
+    newVisits: 0,
+    oldChargeCents: 0,
+    newChargeCents: 0,
+    amountCents: 0,
+  };
+  const skip = (reason: string): ProrationPreview => ({
+    ...base,
+    applies: false,
+    reason,
+    description: "",
+  });
+
+  if (before.status !== "ACTIVE") return skip("Only active subscriptions are prorated");
+  if (after.status !== "ACTIVE") return skip("Pausing and canceling aren't prorated");
+
+  const oldRule = getSubscriptionRecurrence(before);
+  const newRule = getSubscriptionRecurrence(after);
+  if (!oldRule || !newRule) return skip("One-time service isn't prorated");
+
+  const oldFlat = base.oldMode === "MONTHLY_FLAT";
+  const newFlat = base.newMode === "MONTHLY_FLAT";
+  if (!oldFlat && !newFlat) return skip("Per-visit and prepaid plans are billed by the visit");
+
+  if (
+    oldFlat && newFlat &&
+    base.oldPerVisitCents === base.newPerVisitCents &&
+    JSON.stringify(oldRule) === JSON.stringify(newRule)
+  ) {
+    return skip("The change doesn't affect what is billed");
+  }
+
+  // Only a flat-rate plan can already have been billed for the month
+  let invoiceId: string | null = null;
+  if (oldFlat) {
+    const billed = await findBilledInvoice(supabase, orgId, before.client_id, periodStart, periodEnd);
+    if (!billed) {
+      return skip("This month hasn't been invoiced yet; its invoice will use the new plan");
+    }
+    invoiceId = billed;
+  }
+
+  const newFrom = after.start_date && after.start_date > effective ? after.start_date : effective;
+  const oldVisits = oldFlat ? await countScheduledVisits(supabase, orgId, before, effective, periodEnd) : 0;
+  const newVisits = newFlat && newFrom <= periodEnd ? serviceDatesBetween(newRule, newFrom, periodEnd).length : 0;
+
+  const priced = {
+    ...base,
+    invoiceId,
+    oldVisits,
+    newVisits,
+    oldChargeCents: oldVisits * base.oldPerVisitCents,
+    newChargeCents: newVisits * base.newPerVisitCents,
+    amountCents: newVisits * base.newPerVisitCents - oldVisits * base.oldPerVisitCents,
+  };
+
+  if (priced.amountCents === 0) {
+    return { ...priced, applies: false, reason: "The rest of the month costs the same", description: "" };
+  }
+
+  return { ...priced, applies: true, reason: null, description: describe(priced) };
+}
+
+/** The monthly invoice that billed a client for the period, if any */
+async function findBilledInvoice(
+  supabase: SupabaseClient,
+  orgId: string,
+  clientId: string,
+  periodStart: string,
+  periodEnd: string
+): Promise<string | null> {
+  const nextMonth = addDaysToDate(periodEnd, 1);
+  const { data: invoice } = await supabase
+    .from("invoices")
+    .select("id")
+    .eq("org_id", orgId)
+    .eq("client_id", clientId)
+    .eq("billing_interval", "MONTHLY")
+    .in("status", BILLED_STATUSES)
+    .gte("created_at", `${periodStart}T00:00:00Z`)
+    .lt("created_at", `${nextMonth}T00:00:00Z`)
+    .order("created_at", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  return invoice?.id ?? null;
+}
+
+/**
+ * Queue a proration for the client's next invoice. Returns its id, or null
+ * when the preview doesn't apply.
+ */
+export async function recordProration(
+  supabase: SupabaseClient,
+  opts: {
+    orgId: string;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    subscription: any;
+    preview: ProrationPreview;
+    changeRequestId?: string | null;
+    userId?: string | null;
+  }
+): Promise<string | null> {
+  const { preview } = opts;
+  if (!preview.applies) return null;
+
+  const { data, error } = await supabase
+    .from("subscription_prorations")
+    .insert({
+      org_id: opts.orgId,
+      client_id: opts.subscription.client_id,
+      subscription_id: preview.subscriptionId,
+      change_request_id: opts.changeRequestId ?? null,
+      effective_date: preview.effectiveDate,
+      period_start: preview.periodStart,
+      period_end: preview.periodEnd,
+      billed_invoice_id: preview.invoiceId,
+      old_frequency: preview.oldFrequency,
+      new_frequency: preview.newFrequency,
+      old_price_per_visit_cents: preview.oldPerVisitCents,
+      new_price_per_visit_cents: preview.newPerVisitCents,
+      old_visits: preview.oldVisits,
+      new_visits: preview.newVisits,
+      amount_cents: preview.amountCents,
+      description: preview.description,
+      created_by: opts.userId ?? null,
+    })
+    .select("id")
+    .single();
+
+  if (error || !data) {
+    console.error("Error recording proration:", error);
+    return null;
+  }
+  return data.id;
+}
+
+/** Prorations recorded for a client and not yet on an invoice */
+export async function getPendingProrations(
+  supabase: SupabaseClient,
+  orgId: string,
+  clientId: string
+): Promise<PendingProration[]> {
+  const { data, error } = await supabase
+    .from("subscription_prorations")
+    .select("id, subscription_id, effective_date, amount_cents, description")
+    .eq("org_id", orgId)
+    .eq("client_id", clientId)
+    .is("invoice_id", null)
+    .order("effective_date", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching pending prorations:", error);
+    return [];
+  }
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    subscriptionId: row.subscription_id,
+    effectiveDate: row.effective_date,
+    amountCents: row.amount_cents,
+    description: row.description,
+  }));
+}
+
+export async function markProrationsInvoiced(
+  supabase: SupabaseClient,
+  prorations: PendingProration[],
+  invoiceId: string
+): Promise<void> {
+  if (prorations.length === 0) return;
+  await supabase
+    .from("subscription_prorations")
+    .update({ invoice_id: invoiceId, invoiced_at: new Date().toISOString() })
+    .in("id", prorations.map((p) => p.id));
+}
@@ -0,0 +1,482 @@
+/**
+ * Field offline outbox.
+ *
+ * Every job action the tech takes — on the way, start, complete, skip, notes,
+ * photos — plus the location ping captured with it is queued in IndexedDB and
+ * replayed in the order it was taken, stamped with the time it was taken. The
+ * server records each item under its `clientKey` (lib/field-sync), so a replay
+ * whose response was lost never applies twice.
+ *
+ * Items for the same job go one at a time: while one is waiting, failed or in
+ * conflict, the later ones for that job wait behind it (a photo never lands
+ * before the complete it belongs to). A 409 means the office changed the job
+ * while the tech was offline; the item is held for the tech to resolve from the
+ * sync panel — resend with `force` to keep their version, or discard it.
+ */
+
+import { openDB, IDBPDatabase } from "idb";
+
+const DB_NAME = "dgs-field-outbox";
+const DB_VERSION = 1;
+const STORE = "outbox";
+const MAX_RETRIES = 6;
+
+export type FieldActionKind =
+  | "en_route"
+  | "start"
+  | "complete"
+  | "skip"
+  | "notes"
+  | "photo"
+  | "location";
+
+/** The job as the device saw it when the action was taken */
+export interface FieldJobBase {
+  status: string;
+  scheduledDate?: string;
+  assignedTo?: string | null;
+}
+
+export interface FieldSyncConflictInfo {
+  reason: string;
+  message: string;
+  forceable: boolean;
+}
+
+export interface FieldOutboxItem {
+  id: string; // = clientKey
+  seq: number;
+  kind: FieldActionKind;
+  jobId: string | null;
+  label: string;
+  payload: Record<string, unknown>;
+  blob?: Blob;
+  occurredAt: string;
+  base: FieldJobBase | null;
+  status: "pending" | "sending" | "failed" | "conflict";
+  force: boolean;
+  conflict?: FieldSyncConflictInfo;
+  error?: string;
+  retryCount: number;
+  createdAt: number;
+}
+
+export interface FieldActionInput {
+  kind: Exclude<FieldActionKind, "location">;
+  jobId: string;
+  label?: string;
+  payload?: Record<string, unknown>;
+  blob?: Blob;
+  base?: FieldJobBase | null;
+}
+
+export interface FieldActionResult {
+  state: "synced" | "queued" | "conflict" | "failed";
+  clientKey: string;
+  data?: Record<string, unknown>;
+  error?: string;
+  conflict?: FieldSyncConflictInfo;
+}
+
+const KIND_LABEL: Record<FieldActionKind, string> = {
+  en_route: "On my way",
+  start: "Start job",
+  complete: "Complete job",
+  skip: "Skip job",
+  notes: "Job notes",
+  photo: "Photo",
+  location: "Location",
+};
+
+// The status each action moves the job to, for optimistic display
+const KIND_STATUS: Partial<Record<FieldActionKind, string>> = {
+  en_route: "EN_ROUTE",
+  start: "IN_PROGRESS",
+  complete: "COMPLETED",
+  skip: "SKIPPED",
+};
+
+let dbInstance: IDBPDatabase | null = null;
+async function getDB(): Promise<IDBPDatabase> {
+  if (dbInstance) return dbInstance;
+  dbInstance = await openDB(DB_NAME, DB_VERSION, {
+    upgrade(db) {
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: "id" });
+      }
+    },
+  });
+  return dbInstance;
+}
+
+const online = () => (typeof navigator === "undefined" ? true : navigator.onLine);
+
+function emit(name: string, detail: unknown) {
+  if (typeof window !== "undefined") window.dispatchEvent(new CustomEvent(name, { detail }));
+}
+
+const uuid = () =>
+  typeof crypto !== "undefined" && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+let seqCounter = 0;
+const nextSeq = () => Date.now() * 1000 + (seqCounter++ % 1000);
+
+// Server responses for items synced this session, so submitFieldAction can
+// hand them back to the caller
+const syncedData = new Map<string, Record<string, unknown>>();
+
+async function putItem(item: FieldOutboxItem): Promise<void> {
+  const db = await getDB();
+  await db.put(STORE, item);
+}
+
+async function enqueue(
+  kind: FieldActionKind,
+  fields: Pick<FieldOutboxItem, "jobId" | "payload" | "base"> & {
+    label?: string;
+    blob?: Blob;
+    occurredAt?: string;
+  }
+): Promise<FieldOutboxItem> {
+  const item: FieldOutboxItem = {
+    id: uuid(),
+    seq: nextSeq(),
+    kind,
+    jobId: fields.jobId,
+    label: fields.label || KIND_LABEL[kind],
+    payload: fields.payload,
+    blob: fields.blob,
+    occurredAt: fields.occurredAt || new Date().toISOString(),
+    base: fields.base,
+    status: "pending",
+    force: false,
+    retryCount: 0,
+    createdAt: Date.now(),
+  };
+  await putItem(item);
+  emit("field-outbox-changed", await getFieldQueueCount());
+  return item;
+}
+
+/**
+ * Queue a job action and try to send it right away. Resolves once the
+ * current flush finishes: "synced" if the server applied it, "queued" if it is
+ * waiting for a connection (or behind an earlier action for the same job).
+ */
+export async function submitFieldAction(input: FieldActionInput): Promise<FieldActionResult> {
+  const item = await enqueue(input.kind, {
+    jobId: input.jobId,
+    label: input.label,
+    payload: input.payload || {},
+    blob: input.blob,
+    base: input.base || null,
+  });
+
+  if (KIND_STATUS[input.kind]) {
+    void captureLocationPing({ jobId: input.jobId, action: input.kind });
+  }
+
+  await processOutbox();
+
+  const db = await getDB();
+  const stored = (await db.get(STORE, item.id)) as FieldOutboxItem | undefined;
+  if (!stored) {
+    const data = syncedData.get(item.id);
+    syncedData.delete(item.id);
+    return { state: "synced", clientKey: item.id, data };
+  }
+  if (stored.status === "conflict") {
+    return { state: "conflict", clientKey: item.id, conflict: stored.conflict, error: stored.conflict?.message };
+  }
+  if (stored.status === "failed") {
+    return { state: "failed", clientKey: item.id, error: stored.error };
+  }
+  return { state: "queued", clientKey: item.id };
+}
+
+/** Queue a GPS fix alongside a job action. Never throws; no-op without geolocation. */
+export function captureLocationPing(metadata: Record<string, unknown> = {}): Promise<void> {
+  if (typeof navigator === "undefined" || !navigator.geolocation) return Promise.resolve();
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      async (position) => {
+        try {
+          await enqueue("location", {
+            jobId: null,
+            payload: {
+              lat: position.coords.latitude,
+              lng: position.coords.longitude,
+              accuracy: position.coords.accuracy,
+              heading: position.coords.heading,
+              speed: position.coords.speed,
+              altitude: position.coords.altitude,
+              metadata: { ...metadata, source: "field-outbox" },
+            },
+            base: null,
+            occurredAt: new Date(position.timestamp).toISOString(),
+          });
+          void processOutbox();
+        } finally {
+          resolve();
+        }
+      },
+      () => resolve(),
+      { enableHighAccuracy: true, timeout: 10000, maximumAge: 60000 }
+    );
+  });
+}
+
+/** One GPS fix for the service proof check-in; null if unavailable in time. Never throws. */
+export function getCheckinFix(timeoutMs = 8000): Promise<{ lat: number; lng: number; accuracy: number; at: string } | null> {
+  if (typeof navigator === "undefined" || !navigator.geolocation) return Promise.resolve(null);
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      (position) =>
+        resolve({
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+          accuracy: position.coords.accuracy,
+          at: new Date(position.timestamp).toISOString(),
+        }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 60000 }
+    );
+  });
+}
+
+export async function getFieldOutboxItems(): Promise<FieldOutboxItem[]> {
+  const db = await getDB();
+  const all = (await db.getAll(STORE)) as FieldOutboxItem[];
+  return all.sort((a, b) => a.seq - b.seq);
+}
+
+export async function getFieldQueueCount(): Promise<number> {
+  const db = await getDB();
+  return db.count(STORE);
+}
+
+/**
+ * Status each job will have once its queued actions sync, so pages can show
+ * the tech's own changes while they wait. Held (failed/conflict) items don't
+ * count — the server's status stands until the tech resolves them.
+ */
+export async function getPendingJobStatuses(): Promise<Record<string, string>> {
+  const statuses: Record<string, string> = {};
+  for (const item of await getFieldOutboxItems()) {
+    const status = KIND_STATUS[item.kind];
+    if (!status || !item.jobId) continue;
+    if (item.status === "pending" || item.status === "sending") {
+      statuses[item.jobId] = status;
+    }
+  }
+  return statuses;
+}
+
+/** Send a held item again; `force` keeps the tech's version over the office's change */
+export async function retryFieldItem(id: string, options: { force?: boolean } = {}): Promise<void> {
+  const db = await getDB();
+  const item = (await db.get(STORE, id)) as FieldOutboxItem | undefined;
+  if (!item) return;
+  item.status = "pending";
+  item.retryCount = 0;
+  item.force = options.force || item.force;
+  item.conflict = undefined;
+  item.error = undefined;
+  await db.put(STORE, item);
+  emit("field-outbox-changed", await getFieldQueueCount());
+  void processOutbox();
+}
+
+/** Drop a queued item without sending it. Returns whether it was queued. */
+export async function discardFieldItem(id: string): Promise<boolean> {
+  const db = await getDB();
+  const item = await db.get(STORE, id);
+  if (!item) return false;
+  await db.delete(STORE, id);
+  emit("field-outbox-changed", await getFieldQueueCount());
+  void processOutbox();
+  return true;
+}
+
+function buildRequest(item: FieldOutboxItem): { url: string; init: RequestInit } {
+  const meta = {
+    clientKey: item.id,
+    occurredAt: item.occurredAt,
+    base: item.base,
+    force: item.force,
+  };
+
+  switch (item.kind) {
+    case "en_route":
+      return {
+        url: `/api/field/job/${item.jobId}/notify`,
+        init: {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ...item.payload, ...meta }),
+        },
+      };
+    case "photo": {
+      const formData = new FormData();
+      if (item.blob) {
+        formData.append("photo", item.blob, `${item.payload.type || "photo"}-${item.createdAt}.jpg`);
+      }
+      formData.append("type", String(item.payload.type || "after"));
+      formData.append("clientKey", item.id);
+      formData.append("occurredAt", item.occurredAt);
+      return {
+        url: `/api/field/job/${item.jobId}/photos`,
+        // Tells the service worker not to queue this upload a second time
+        init: { method: "POST", headers: { "X-Field-Outbox": "1" }, body: formData },
+      };
+    }
+    case "location":
+      return {
+        url: "/api/field/location",
+        init: {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ...item.payload, timestamp: item.occurredAt, clientKey: item.id }),
+        },
+      };
+    default:
+      return {
+        url: `/api/field/job/${item.jobId}`,
+        init: {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action: item.kind, ...item.payload, ...meta }),
+        },
+      };
+  }
+}
+
+type SendOutcome = "synced" | "held" | "retry" | "stop";
+
+async function send(item: FieldOutboxItem): Promise<SendOutcome> {
+  item.status = "sending";
+  await putItem(item);
+
+  const { url, init } = buildRequest(item);
+  let res: Response;
+  try {
+    res = await fetch(url, init);
+  } catch {
+    // Offline or flaky connection: leave it for the next flush
+    item.status = "pending";
+    await putItem(item);
+    return "stop";
+  }
+
+  const data = (await res.json().catch(() => ({}))) as Record<string, unknown>;
+
+  if (res.ok) {
+    const db = await getDB();
+    await db.delete(STORE, item.id);
+    syncedData.set(item.id, data);
+    emit("field-synced", { kind: item.kind, jobId: item.jobId, clientKey: item.id, data });
+    return "synced";
+  }
+
+  if (res.status === 401) {
+    // Session expired: keep everything queued until the tech signs back in
+    item.status = "pending";
+    item.error = "Sign in again to sync";
+    await putItem(item);
+    return "stop";
+  }
+
+  if (res.status === 409) {
+    const conflict = data.conflict as FieldSyncConflictInfo | undefined;
+    item.status = "conflict";
+    item.conflict = {
+      reason: conflict?.reason || "conflict",
+      message: conflict?.message || (data.error as string) || "The office changed this job",
+      forceable: conflict?.forceable ?? false,
+    };
+    await putItem(item);
+    emit("field-sync-conflict", { kind: item.kind, jobId: item.jobId, clientKey: item.id, conflict: item.conflict });
+    return "held";
+  }
+
+  if (res.status === 400 || res.status === 403 || res.status === 404) {
+    // Permanent rejection — hold it for the tech to see rather than retrying forever
+    item.status = "failed";
+    item.error = (data.error as string) || `Rejected (${res.status})`;
+    await putItem(item);
+    emit("field-sync-error", { kind: item.kind, jobId: item.jobId, clientKey: item.id, status: res.status });
+    return "held";
+  }
+
+  item.retryCount += 1;
+  item.error = (data.error as string) || `Server error (${res.status})`;
+  item.status = item.retryCount >= MAX_RETRIES ? "failed" : "pending";
+  await putItem(item);
+  return item.status === "failed" ? "held" : "retry";
+}
+
+async function flushOnce(): Promise<void> {
+  const items = await getFieldOutboxItems();
+  const blockedJobs = new Set<string>();
+
+  for (const item of items) {
+    if (item.jobId && blockedJobs.has(item.jobId)) continue;
+
+    if (item.status !== "pending") {
+      if (item.jobId) blockedJobs.add(item.jobId);
+      continue;
+    }
+
+    const outcome = await send(item);
+    if (outcome === "stop") return;
+    if (outcome !== "synced" && item.jobId) blockedJobs.add(item.jobId);
+  }
+}
+
+let flushing: Promise<void> | null = null;
+let rerun = false;
+/** Replay everything queued, oldest first. Safe to call repeatedly. */
+export function processOutbox(): Promise<void> {
+  if (flushing) {
+    rerun = true;
+    return flushing;
+  }
+  if (!online()) return Promise.resolve();
+
+  flushing = (async () => {
+    try {
+      do {
+        rerun = false;
+        await flushOnce();
+      } while (rerun && online());
+    } finally {
+      flushing = null;
+      emit("field-outbox-changed", await getFieldQueueCount());
+    }
+  })();
+  return flushing;
+}
+
+let started = false;
+/** Wire auto-flush on reconnect + an initial drain. Call once on portal mount. */
+export function startFieldOutbox(): void {
+  if (started || typeof window === "undefined") return;
+  started = true;
+  window.addEventListener("online", () => void processOutbox());
+  // Server errors are retried on the next flush; don't wait for a new action
+  window.setInterval(() => void processOutbox(), 60 * 1000);
+
+  // Anything left "sending" was cut off mid-request (tab closed, app killed)
+  void (async () => {
+    const db = await getDB();
+    for (const item of (await db.getAll(STORE)) as FieldOutboxItem[]) {
+      if (item.status === "sending") {
+        item.status = "pending";
+        await db.put(STORE, item);
+      }
+    }
+    await processOutbox();
+  })();
+}
@@ -7,3 +7,4 @@
 export * from './register-sw';
 export * from './photo-queue';
 export * from './offline-storage';
+export * from './field-outbox';
@@ -0,0 +1,1200 @@
+/**
+ * QuickBooks Online Sync
+ *
+ * Per-org OAuth connection and a one-way push of clients (Customer),
+ * invoices + invoice_items (Invoice), payments (Payment) and refunds
+ * (RefundReceipt) to QBO.
+ *
+ * Setup:
+ *  1. Create an app at developer.intuit.com with the Accounting scope.
+ *     Redirect URI = <your-domain>/api/admin/quickbooks/oauth/callback
+ *     (or QBO_REDIRECT_URI).
+ *  2. Set env: QBO_CLIENT_ID, QBO_CLIENT_SECRET, QBO_ENVIRONMENT
+ *     ("sandbox" | "production", default sandbox).
+ *  3. Connect from Settings → QuickBooks Online and pick the item/account mapping.
+ *
+ * Every endpoint can be pointed elsewhere for local testing against
+ * scripts/mock-qbo-server.mjs: QBO_API_BASE_URL, QBO_AUTHORIZE_URL,
+ * QBO_TOKEN_URL, QBO_REVOKE_URL.
+ *
+ * Idempotency: each push is recorded in quickbooks_sync_log under a key
+ * derived from the entity and a hash of its payload, and the log row id is
+ * sent to QBO as the `requestid`, so a retried request is de-duplicated by
+ * QBO itself. quickbooks_entity_links remembers the QBO id and last payload
+ * hash so unchanged rows are skipped and changed rows are updated in place.
+ * Tokens are server-only and never returned to the browser.
+ */
+
+import crypto from "crypto";
+import { SupabaseClient } from "@supabase/supabase-js";
+
+export type QuickbooksEntityType = "CUSTOMER" | "INVOICE" | "PAYMENT" | "REFUND";
+
+export interface QuickbooksItemRule {
+  /** Case-insensitive text matched against the invoice line description */
+  match: string;
+  itemId: string;
+}
+
+/** Stored on quickbooks_connections.mapping */
+export interface QuickbooksMapping {
+  /** Product/Service used for invoice lines no rule matches (required to sync invoices) */
+  defaultItemId?: string;
+  itemRules?: QuickbooksItemRule[];
+  /** Product/Service for the invoice tax line */
+  taxItemId?: string;
+  /** Account payments are deposited to (defaults to Undeposited Funds in QBO) */
+  depositAccountId?: string;
+  /** Bank account refunds are paid from (required to sync refunds) */
+  refundAccountId?: string;
+  /** Local payment_method (CREDIT_CARD, CHECK, ...) → QBO PaymentMethod id */
+  paymentMethodIds?: Record<string, string>;
+  /** Only invoices and payments created on/after this date (YYYY-MM-DD) are pushed */
+  syncStartDate?: string;
+}
+
+export interface QuickbooksConnection {
+  id: string;
+  orgId: string;
+  realmId: string;
+  companyName: string | null;
+  accessToken: string;
+  refreshToken: string;
+  accessTokenExpiresAt: string;
+  refreshTokenExpiresAt: string | null;
+  mapping: QuickbooksMapping;
+  connectedAt: string;
+  lastSyncAt: string | null;
+  lastError: string | null;
+}
+
+export interface QuickbooksSyncResult {
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  errors: string[];
+}
+
+export interface QuickbooksMismatch {
+  entityType: QuickbooksEntityType;
+  localId: string;
+  reference: string;
+  qboId: string | null;
+  issue: "NOT_SYNCED" | "MISSING_IN_QBO" | "AMOUNT_MISMATCH" | "BALANCE_MISMATCH" | "SYNC_FAILED";
+  localCents: number | null;
+  qboCents: number | null;
+  detail: string | null;
+}
+
+const SCOPE = "com.intuit.quickbooks.accounting";
+const MINOR_VERSION = "75";
+// Automatic retries per payload; after this the office retries by hand
+export const MAX_SYNC_ATTEMPTS = 5;
+// Refresh the access token this long before it expires
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+const CONNECTION_COLUMNS =
+  "id, org_id, realm_id, company_name, access_token, refresh_token, access_token_expires_at, refresh_token_expires_at, mapping, connected_at, last_sync_at, last_error";
+
+export class QuickbooksError extends Error {
+  status: number;
+  code: string | null;
+
+  constructor(message: string, status: number, code: string | null = null) {
+    super(message);
+    this.name = "QuickbooksError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// ── Configuration ───────────────────────────────────────────────────────────
+
+export function quickbooksConfigured(): boolean {
+  return !!(process.env.QBO_CLIENT_ID && process.env.QBO_CLIENT_SECRET);
+}
+
+function apiBaseUrl(): string {
+  if (process.env.QBO_API_BASE_URL) return process.env.QBO_API_BASE_URL.replace(/\/$/, "");
+  return process.env.QBO_ENVIRONMENT === "production"
+    ? "https://quickbooks.api.intuit.com"
+    : "https://sandbox-quickbooks.api.intuit.com";
+}
+
+function authorizeUrl(): string {
+  return process.env.QBO_AUTHORIZE_URL || "https://appcenter.intuit.com/connect/oauth2";
+}
+
+function tokenUrl(): string {
+  return process.env.QBO_TOKEN_URL || "https://oauth.platform.intuit.com/oauth2/v1/tokens/bearer";
+}
+
+function revokeUrl(): string {
+  return process.env.QBO_REVOKE_URL || "https://developer.api.intuit.com/v2/oauth2/tokens/revoke";
+}
+
+function redirectUri(origin: string): string {
+  return process.env.QBO_REDIRECT_URI || `${origin}/api/admin/quickbooks/oauth/callback`;
+}
+
+function basicAuthHeader(): string {
+  const credentials = `${process.env.QBO_CLIENT_ID || ""}:${process.env.QBO_CLIENT_SECRET || ""}`;
+  return `Basic ${Buffer.from(credentials).toString("base64")}`;
+}
+
+// ── OAuth ───────────────────────────────────────────────────────────────────
+
+export function buildAuthUrl(origin: string, state: string): string {
+  const params = new URLSearchParams({
+    client_id: process.env.QBO_CLIENT_ID || "",
+    redirect_uri: redirectUri(origin),
+    response_type: "code",
+    scope: SCOPE,
+    state,
+  });
+  return `${authorizeUrl()}?${params}`;
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number;
+  x_refresh_token_expires_in?: number;
+}
+
+async function requestTokens(body: Record<string, string>): Promise<TokenResponse> {
+  const res = await fetch(tokenUrl(), {
+    method: "POST",
+    headers: {
+      Authorization: basicAuthHeader(),
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    },
+    body: new URLSearchParams(body),
+    cache: "no-store",
+  });
+
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new QuickbooksError(
+      `Token request failed: ${res.status} ${text}`,
+      res.status,
+      /invalid_grant/i.test(text) ? "invalid_grant" : null
+    );
+  }
+
+  return res.json();
+}
+
+function tokenColumns(tokens: TokenResponse) {
+  const now = Date.now();
+  return {
+    access_token: tokens.access_token,
+    refresh_token: tokens.refresh_token,
+    access_token_expires_at: new Date(now + tokens.expires_in * 1000).toISOString(),
+    refresh_token_expires_at: tokens.x_refresh_token_expires_in
+      ? new Date(now + tokens.x_refresh_token_expires_in * 1000).toISOString()
+      : null,
+  };
+}
+
+/**
+ * Finish the OAuth flow: exchange the code and store the connection for the org.
+ * Reconnecting keeps the existing mapping and entity links.
+ */
+export async function completeQuickbooksConnection(
+  supabase: SupabaseClient,
+  orgId: string,
+  userId: string,
+  code: string,
+  realmId: string,
+  origin: string
+): Promise<QuickbooksConnection> {
+  const tokens = await requestTokens({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: redirectUri(origin),
+  });
+
+  let companyName: string | null = null;
+  try {
+    const info = await qboFetch(realmId, tokens.access_token, "GET", `/companyinfo/${realmId}`);
+    companyName = info?.CompanyInfo?.CompanyName || null;
+  } catch (error) {
+    console.error("Error fetching QuickBooks company info:", error);
+  }
+
+  const { data, error } = await supabase
+    .from("quickbooks_connections")
+    .upsert(
+      {
+        org_id: orgId,
+        realm_id: realmId,
+        company_name: companyName,
+        ...tokenColumns(tokens),
+        connected_by: userId,
+        connected_at: new Date().toISOString(),
+        last_error: null,
+      },
+      { onConflict: "org_id" }
+    )
+    .select(CONNECTION_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to save QuickBooks connection: ${error?.message}`);
+  }
+
+  return mapConnection(data);
+}
+
+/**
+ * Revoke the refresh token with Intuit and remove the connection.
+ * Entity links are kept so a reconnect to the same company resumes cleanly.
+ */
+export async function disconnectQuickbooks(
+  supabase: SupabaseClient,
+  orgId: string
+): Promise<void> {
+  const connection = await getQuickbooksConnection(supabase, orgId);
+  if (!connection) return;
+
+  try {
+    await fetch(revokeUrl(), {
+      method: "POST",
+      headers: {
+        Authorization: basicAuthHeader(),
+        "Content-Type": "application/json",
+        Accept: "application/json",
+      },
+      body: JSON.stringify({ token: connection.refreshToken }),
+    });
+  } catch (error) {
+    // The connection is removed either way
+    console.error("Error revoking QuickBooks token:", error);
+  }
+
+  await supabase.from("quickbooks_connections").delete().eq("org_id", orgId);
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mapConnection(row: any): QuickbooksConnection {
+  return {
+    id: row.id,
+    orgId: row.org_id,
+    realmId: row.realm_id,
+    companyName: row.company_name,
+    accessToken: row.access_token,
+    refreshToken: row.refresh_token,
+    accessTokenExpiresAt: row.access_token_expires_at,
+    refreshTokenExpiresAt: row.refresh_token_expires_at,
+    mapping: row.mapping || {},
+    connectedAt: row.connected_at,
+    lastSyncAt: row.last_sync_at,
+    lastError: row.last_error,
+  };
+}
+
+export async function getQuickbooksConnection(
+  supabase: SupabaseClient,
+  orgId: string
+): Promise<QuickbooksConnection | null> {
+  const { data } = await supabase
+    .from("quickbooks_connections")
+    .select(CONNECTION_COLUMNS)
+    .eq("org_id", orgId)
+    .maybeSingle();
+
+  return data ? mapConnection(data) : null;
+}
+
+/**
+ * Return a valid access token, refreshing and persisting it when close to expiry
+ */
+async function getAccessToken(
+  supabase: SupabaseClient,
+  connection: QuickbooksConnection
+): Promise<string> {
+  const expiresAt = new Date(connection.accessTokenExpiresAt).getTime();
+  if (expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+    return connection.accessToken;
+  }
+
+  try {
+    const tokens = await requestTokens({
+      grant_type: "refresh_token",
+      refresh_token: connection.refreshToken,
+    });
+    const columns = tokenColumns(tokens);
+
+    await supabase
+      .from("quickbooks_connections")
+      .update(columns)
+      .eq("id", connection.id);
+
+    connection.accessToken = columns.access_token;
+    connection.refreshToken = columns.refresh_token;
+    connection.accessTokenExpiresAt = columns.access_token_expires_at;
+    return columns.access_token;
+  } catch (error) {
+    if (error instanceof QuickbooksError && error.code === "invalid_grant") {
+      await supabase
+        .from("quickbooks_connections")
+        .update({ last_error: "QuickBooks authorization expired. Reconnect to resume syncing." })
+        .eq("id", connection.id);
+      throw new QuickbooksError("QuickBooks authorization expired. Reconnect to resume syncing.", 401, "invalid_grant");
+    }
+    throw error;
+  }
+}
+
+// ── API client ──────────────────────────────────────────────────────────────
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function qboFetch(realmId: string, accessToken: string, method: "GET" | "POST", path: string, body?: unknown, query: Record<string, string> = {}): Promise<any> {
+  const params = new URLSearchParams({ minorversion: MINOR_VERSION, ...query });
+  const res = await fetch(`${apiBaseUrl()}/v3/company/${realmId}${path}?${params}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: "application/json",
+      ...(body !== undefined && { "Content-Type": "application/json" }),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+    cache: "no-store",
+  });
+
+  const json = await res.json().catch(() => null);
+
+  if (!res.ok || json?.Fault) {
+    const fault = json?.Fault?.Error?.[0];
+    const message = fault
+      ? `${fault.Message}${fault.Detail ? `: ${fault.Detail}` : ""}`
+      : `QuickBooks request failed (${res.status})`;
+    throw new QuickbooksError(message, res.status, fault?.code ? String(fault.code) : null);
+  }
+
+  return json;
+}
+
+interface QuickbooksContext {
+  supabase: SupabaseClient;
+  connection: QuickbooksConnection;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function qboRequest(ctx: QuickbooksContext, method: "GET" | "POST", path: string, body?: unknown, query?: Record<string, string>): Promise<any> {
+  const token = await getAccessToken(ctx.supabase, ctx.connection);
+  try {
+    return await qboFetch(ctx.connection.realmId, token, method, path, body, query);
+  } catch (error) {
+    // Token revoked or expired early - refresh once and retry
+    if (error instanceof QuickbooksError && error.status === 401) {
+      ctx.connection.accessTokenExpiresAt = new Date(0).toISOString();
+      const fresh = await getAccessToken(ctx.supabase, ctx.connection);
+      return qboFetch(ctx.connection.realmId, fresh, method, path, body, query);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Run a QBO query (SQL-like). Quotes in values must be escaped by the caller.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function qboQuery(ctx: QuickbooksContext, entity: string, query: string): Promise<any[]> {
+  const json = await qboRequest(ctx, "GET", "/query", undefined, { query });
+  return json?.QueryResponse?.[entity] || [];
+}
+
+function escapeQueryValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/'/g, "\\'");
+}
+
+/**
+ * Products/services and accounts for the mapping screen
+ */
+export async function getQuickbooksLookups(
+  supabase: SupabaseClient,
+  connection: QuickbooksConnection
+): Promise<{
+  items: { id: string; name: string; type: string }[];
+  accounts: { id: string; name: string; type: string }[];
+  paymentMethods: { id: string; name: string }[];
+}> {
+  const ctx = { supabase, connection };
+  const [items, accounts, paymentMethods] = await Promise.all([
+    qboQuery(ctx, "Item", "select Id, Name, Type from Item where Active = true maxresults 1000"),
+    qboQuery(ctx, "Account", "select Id, Name, AccountType from Account where Active = true maxresults 1000"),
+    qboQuery(ctx, "PaymentMethod", "select Id, Name from PaymentMethod where Active = true maxresults 100"),
+  ]);
+
+  return {
+    items: items.map((i) => ({ id: String(i.Id), name: i.Name, type: i.Type })),
+    accounts: accounts.map((a) => ({ id: String(a.Id), name: a.Name, type: a.AccountType })),
+    paymentMethods: paymentMethods.map((m) => ({ id: String(m.Id), name: m.Name })),
+  };
+}
+
+// ── Push with idempotency ───────────────────────────────────────────────────
+
+const QBO_ENTITY_NAMES: Record<QuickbooksEntityType, string> = {
+  CUSTOMER: "Customer",
+  INVOICE: "Invoice",
+  PAYMENT: "Payment",
+  REFUND: "RefundReceipt",
+};
+
+interface EntityLink {
+  qboId: string;
+  syncToken: string | null;
+  payloadHash: string;
+}
+
+type PushOutcome =
+  | { status: "created" | "updated" | "skipped"; qboId: string }
+  | { status: "failed"; error: string };
+
+function hashPayload(payload: unknown): string {
+  return crypto.createHash("sha256").update(JSON.stringify(payload)).digest("hex");
+}
+
+async function getEntityLink(
+  ctx: QuickbooksContext,
+  entityType: QuickbooksEntityType,
+  localId: string
+): Promise<EntityLink | null> {
+  const { data } = await ctx.supabase
+    .from("quickbooks_entity_links")
+    .select("qbo_id, sync_token, payload_hash")
+    .eq("org_id", ctx.connection.orgId)
+    .eq("entity_type", entityType)
+    .eq("local_id", localId)
+    .maybeSingle();
+
+  return data ? { qboId: data.qbo_id, syncToken: data.sync_token, payloadHash: data.payload_hash } : null;
+}
+
+async function saveEntityLink(
+  ctx: QuickbooksContext,
+  entityType: QuickbooksEntityType,
+  localId: string,
+  qboId: string,
+  syncToken: string | null,
+  payloadHash: string
+): Promise<void> {
+  await ctx.supabase.from("quickbooks_entity_links").upsert(
+    {
+      org_id: ctx.connection.orgId,
+      entity_type: entityType,
+      local_id: localId,
+      qbo_id: qboId,
+      sync_token: syncToken,
+      payload_hash: payloadHash,
+      synced_at: new Date().toISOString(),
+    },
+    { onConflict: "org_id,entity_type,local_id" }
+  );
+}
+
+/**
+ * Claim a sync log row for this exact payload. Returns null when the payload
+ * already synced or has used up its automatic retries.
+ */
+async function claimSyncLog(
+  ctx: QuickbooksContext,
+  entityType: QuickbooksEntityType,
+  localId: string,
+  operation: "CREATE" | "UPDATE" | "VOID",
+  idempotencyKey: string
+): Promise<{ id: string } | { done: "SUCCESS" | "EXHAUSTED"; qboId: string | null }> {
+  const { data: existing } = await ctx.supabase
+    .from("quickbooks_sync_log")
+    .select("id, status, attempts, qbo_id")
+    .eq("org_id", ctx.connection.orgId)
+    .eq("idempotency_key", idempotencyKey)
+    .maybeSingle();
+
+  if (existing) {
+    if (existing.status === "SUCCESS") {
+      return { done: "SUCCESS", qboId: existing.qbo_id };
+    }
+    if (existing.attempts >= MAX_SYNC_ATTEMPTS) {
+      return { done: "EXHAUSTED", qboId: null };
+    }
+
+    await ctx.supabase
+      .from("quickbooks_sync_log")
+      .update({
+        status: "PENDING",
+        attempts: existing.attempts + 1,
+        last_attempt_at: new Date().toISOString(),
+      })
+      .eq("id", existing.id);
+
+    return { id: existing.id };
+  }
+
+  const { data: created, error } = await ctx.supabase
+    .from("quickbooks_sync_log")
+    .insert({
+      org_id: ctx.connection.orgId,
+      entity_type: entityType,
+      local_id: localId,
+      operation,
+      idempotency_key: idempotencyKey,
+      status: "PENDING",
+      attempts: 1,
+      last_attempt_at: new Date().toISOString(),
+    })
+    .select("id")
+    .single();
+
+  if (error || !created) {
+    throw new Error(`Failed to record QuickBooks sync: ${error?.message}`);
+  }
+
+  return { id: created.id };
+}
+
+/**
+ * Create or update one QBO entity from a local row. Unchanged payloads are
+ * skipped; failures are recorded on the sync log for retry.
+ */
+async function pushEntity(
+  ctx: QuickbooksContext,
+  entityType: QuickbooksEntityType,
+  localId: string,
+  payload: Record<string, unknown>,
+  options: { operation?: "VOID" } = {}
+): Promise<PushOutcome> {
+  const payloadHash = hashPayload({ ...payload, _operation: options.operation || null });
+  const link = await getEntityLink(ctx, entityType, localId);
+
+  if (link && link.payloadHash === payloadHash) {
+    return { status: "skipped", qboId: link.qboId };
+  }
+
+  // Voiding only applies to something already in QBO
+  if (options.operation === "VOID" && !link) {
+    return { status: "failed", error: "Cannot void an invoice that was never synced" };
+  }
+
+  const operation = options.operation || (link ? "UPDATE" : "CREATE");
+  const idempotencyKey = `${entityType}:${localId}:${payloadHash.slice(0, 24)}`;
+  const claim = await claimSyncLog(ctx, entityType, localId, operation, idempotencyKey);
+
+  if ("done" in claim) {
+    if (claim.done === "SUCCESS" && (claim.qboId || link)) {
+      return { status: "skipped", qboId: claim.qboId || link!.qboId };
+    }
+    return { status: "failed", error: "Retry limit reached" };
+  }
+
+  const entityName = QBO_ENTITY_NAMES[entityType];
+  const path = `/${entityName.toLowerCase()}`;
+  const send = async (syncToken: string | null) => {
+    if (options.operation === "VOID") {
+      return qboRequest(ctx, "POST", path, { Id: link!.qboId, SyncToken: syncToken }, { requestid: claim.id, operation: "void" });
+    }
+    const body = link ? { ...payload, Id: link.qboId, SyncToken: syncToken, sparse: true } : payload;
+    return qboRequest(ctx, "POST", path, body, { requestid: claim.id });
+  };
+
+  try {
+    let response;
+    try {
+      response = await send(link?.syncToken ?? null);
+    } catch (error) {
+      // Stale SyncToken (edited in QBO since our last push) - re-read it once
+      if (link && error instanceof QuickbooksError && error.code === "5010") {
+        const current = await qboRequest(ctx, "GET", `${path}/${link.qboId}`);
+        response = await send(current?.[entityName]?.SyncToken ?? null);
+      } else {
+        throw error;
+      }
+    }
+
+    const entity = response?.[entityName];
+    const qboId = String(entity?.Id ?? link?.qboId ?? "");
+    if (!qboId) {
+      throw new Error(`QuickBooks returned no ${entityName} id`);
+    }
+
+    await saveEntityLink(ctx, entityType, localId, qboId, entity?.SyncToken ?? null, payloadHash);
+    await ctx.supabase
+      .from("quickbooks_sync_log")
+      .update({ status: "SUCCESS", qbo_id: qboId, last_error: null })
+      .eq("id", claim.id);
+
+    // Earlier failed versions of this row no longer need a retry
+    await ctx.supabase
+      .from("quickbooks_sync_log")
+      .update({ status: "SUPERSEDED" })
+      .eq("org_id", ctx.connection.orgId)
+      .eq("entity_type", entityType)
+      .eq("local_id", localId)
+      .eq("status", "FAILED");
+
+    return { status: link ? "updated" : "created", qboId };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await ctx.supabase
+      .from("quickbooks_sync_log")
+      .update({ status: "FAILED", last_error: message.slice(0, 1000) })
+      .eq("id", claim.id);
+    return { status: "failed", error: message };
+  }
+}
+
+// ── Entity builders ─────────────────────────────────────────────────────────
+
+const toAmount = (cents: number) => Math.round(cents) / 100;
+
+function tally(result: QuickbooksSyncResult, outcome: PushOutcome, label: string) {
+  if (outcome.status === "failed") {
+    result.failed++;
+    result.errors.push(`${label}: ${outcome.error}`);
+  } else {
+    result[outcome.status]++;
+  }
+}
+
+async function syncCustomer(
+  ctx: QuickbooksContext,
+  clientId: string,
+  result: QuickbooksSyncResult
+): Promise<string | null> {
+  const { data: client } = await ctx.supabase
+    .from("clients")
+    .select("id, first_name, last_name, company_name, email, phone")
+    .eq("id", clientId)
+    .eq("org_id", ctx.connection.orgId)
+    .single();
+
+  if (!client) {
+    result.failed++;
+    result.errors.push(`Client ${clientId}: not found`);
+    return null;
+  }
+
+  const personName = `${client.first_name || ""} ${client.last_name || ""}`.trim();
+  const displayName = (client.company_name || personName || `Client ${client.id.slice(0, 8)}`).slice(0, 100);
+
+  const payload: Record<string, unknown> = {
+    DisplayName: displayName,
+    GivenName: client.first_name || undefined,
+    FamilyName: client.last_name || undefined,
+    CompanyName: client.company_name || undefined,
+    PrimaryEmailAddr: client.email ? { Address: client.email } : undefined,
+    PrimaryPhone: client.phone ? { FreeFormNumber: client.phone } : undefined,
+  };
+
+  let outcome = await pushEntity(ctx, "CUSTOMER", client.id, payload);
+
+  // DisplayName must be unique in QBO. If the bookkeeper already created this
+  // customer by hand, link to it; otherwise disambiguate the name.
+  if (outcome.status === "failed" && /duplicate name/i.test(outcome.error)) {
+    const existing = await qboQuery(
+      ctx,
+      "Customer",
+      `select Id, SyncToken, PrimaryEmailAddr from Customer where DisplayName = '${escapeQueryValue(displayName)}'`
+    );
+    const match = existing[0];
+    const sameEmail = match && client.email && match.PrimaryEmailAddr?.Address?.toLowerCase() === client.email.toLowerCase();
+
+    if (match && sameEmail) {
+      await saveEntityLink(ctx, "CUSTOMER", client.id, String(match.Id), match.SyncToken ?? null, "");
+      outcome = await pushEntity(ctx, "CUSTOMER", client.id, payload);
+    } else {
+      outcome = await pushEntity(ctx, "CUSTOMER", client.id, {
+        ...payload,
+        DisplayName: `${displayName.slice(0, 88)} (${client.id.slice(0, 8)})`,
+      });
+    }
+  }
+
+  tally(result, outcome, `Customer ${displayName}`);
+  return outcome.status === "failed" ? null : outcome.qboId;
+}
+
+function itemForLine(mapping: QuickbooksMapping, description: string): string | undefined {
+  const text = description.toLowerCase();
+  const rule = (mapping.itemRules || []).find((r) => r.match && text.includes(r.match.toLowerCase()));
+  return rule?.itemId || mapping.defaultItemId;
+}
+
+async function syncInvoice(
+  ctx: QuickbooksContext,
+  invoiceId: string,
+  result: QuickbooksSyncResult
+): Promise<string | null> {
+  const { mapping } = ctx.connection;
+
+  const { data: invoice } = await ctx.supabase
+    .from("invoices")
+    .select("id, client_id, invoice_number, status, subtotal_cents, discount_cents, tax_cents, total_cents, due_date, notes, created_at")
+    .eq("id", invoiceId)
+    .eq("org_id", ctx.connection.orgId)
+    .single();
+
+  if (!invoice) {
+    result.failed++;
+    result.errors.push(`Invoice ${invoiceId}: not found`);
+    return null;
+  }
+
+  const label = `Invoice ${invoice.invoice_number}`;
+
+  if (invoice.status === "VOID") {
+    const link = await getEntityLink(ctx, "INVOICE", invoice.id);
+    if (!link) {
+      // Never reached QBO - nothing to void
+      result.skipped++;
+      return null;
+    }
+    const outcome = await pushEntity(ctx, "INVOICE", invoice.id, { voided: true }, { operation: "VOID" });
+    tally(result, outcome, label);
+    return outcome.status === "failed" ? null : outcome.qboId;
+  }
+
+  const customerId = await syncCustomer(ctx, invoice.client_id, result);
+  if (!customerId) {
+    result.failed++;
+    result.errors.push(`${label}: customer did not sync`);
+    return null;
+  }
+
+  const { data: items } = await ctx.supabase
+    .from("invoice_items")
+    .select("id, description, quantity, unit_price_cents, total_cents")
+    .eq("invoice_id", invoice.id)
+    .order("created_at", { ascending: true });
+
+  const lines: Record<string, unknown>[] = [];
+  for (const item of items || []) {
+    const itemId = itemForLine(mapping, item.description);
+    lines.push({
+      DetailType: "SalesItemLineDetail",
+      Amount: toAmount(item.total_cents),
+      Description: item.description,
+      SalesItemLineDetail: {
+        ...(itemId && { ItemRef: { value: itemId } }),
+        Qty: item.quantity,
+        UnitPrice: toAmount(item.unit_price_cents),
+      },
+    });
+  }
+
+  if (invoice.tax_cents > 0) {
+    const itemId = mapping.taxItemId || mapping.defaultItemId;
+    lines.push({
+      DetailType: "SalesItemLineDetail",
+      Amount: toAmount(invoice.tax_cents),
+      Description: "Sales tax",
+      SalesItemLineDetail: {
+        ...(itemId && { ItemRef: { value: itemId } }),
+        Qty: 1,
+        UnitPrice: toAmount(invoice.tax_cents),
+      },
+    });
+  }
+
+  if (invoice.discount_cents > 0) {
+    lines.push({
+      DetailType: "DiscountLineDetail",
+      Amount: toAmount(invoice.discount_cents),
+      DiscountLineDetail: { PercentBased: false },
+    });
+  }
+
+  const payload = {
+    CustomerRef: { value: customerId },
+    DocNumber: invoice.invoice_number.slice(0, 21),
+    TxnDate: invoice.created_at.split("T")[0],
+    ...(invoice.due_date && { DueDate: invoice.due_date }),
+    ...(invoice.notes && { PrivateNote: String(invoice.notes).slice(0, 4000) }),
+    Line: lines,
+  };
+
+  const outcome = await pushEntity(ctx, "INVOICE", invoice.id, payload);
+  tally(result, outcome, label);
+  return outcome.status === "failed" ? null : outcome.qboId;
+}
+
+async function syncPayment(
+  ctx: QuickbooksContext,
+  paymentId: string,
+  result: QuickbooksSyncResult
+): Promise<void> {
+  const { mapping } = ctx.connection;
+
+  const { data: payment } = await ctx.supabase
+    .from("payments")
+    .select("id, client_id, invoice_id, amount_cents, refunded_amount_cents, status, payment_method, stripe_payment_intent_id, created_at, updated_at")
+    .eq("id", paymentId)
+    .eq("org_id", ctx.connection.orgId)
+    .single();
+
+  if (!payment) {
+    result.failed++;
+    result.errors.push(`Payment ${paymentId}: not found`);
+    return;
+  }
+
+  const label = `Payment ${payment.stripe_payment_intent_id || payment.id.slice(0, 8)}`;
+  const customerId = await syncCustomer(ctx, payment.client_id, result);
+  if (!customerId) {
+    result.failed++;
+    result.errors.push(`${label}: customer did not sync`);
+    return;
+  }
+
+  let invoiceQboId: string | null = null;
+  if (payment.invoice_id) {
+    invoiceQboId = await syncInvoice(ctx, payment.invoice_id, result);
+    if (!invoiceQboId) {
+      result.failed++;
+      result.errors.push(`${label}: invoice did not sync`);
+      return;
+    }
+  }
+
+  const paymentMethodId = payment.payment_method ? mapping.paymentMethodIds?.[payment.payment_method] : undefined;
+  const amount = toAmount(payment.amount_cents);
+
+  const paymentOutcome = await pushEntity(ctx, "PAYMENT", payment.id, {
+    CustomerRef: { value: customerId },
+    TotalAmt: amount,
+    TxnDate: payment.created_at.split("T")[0],
+    ...(payment.stripe_payment_intent_id && { PaymentRefNum: payment.stripe_payment_intent_id.slice(-21) }),
+    ...(paymentMethodId && { PaymentMethodRef: { value: paymentMethodId } }),
+    ...(mapping.depositAccountId && { DepositToAccountRef: { value: mapping.depositAccountId } }),
+    Line: invoiceQboId
+      ? [{ Amount: amount, LinkedTxn: [{ TxnId: invoiceQboId, TxnType: "Invoice" }] }]
+      : [],
+  });
+  tally(result, paymentOutcome, label);
+
+  if (paymentOutcome.status === "failed" || !payment.refunded_amount_cents) {
+    return;
+  }
+
+  // Refunds are cumulative on the payment, so one RefundReceipt tracks the total
+  if (!mapping.refundAccountId) {
+    result.failed++;
+    result.errors.push(`${label}: choose a refund account to sync refunds`);
+    return;
+  }
+
+  const refundItemId = mapping.defaultItemId;
+  const refundAmount = toAmount(payment.refunded_amount_cents);
+  const refundOutcome = await pushEntity(ctx, "REFUND", payment.id, {
+    CustomerRef: { value: customerId },
+    TxnDate: payment.updated_at.split("T")[0],
+    DepositToAccountRef: { value: mapping.refundAccountId },
+    ...(paymentMethodId && { PaymentMethodRef: { value: paymentMethodId } }),
+    PrivateNote: `Refund of ${label}`,
+    Line: [
+      {
+        DetailType: "SalesItemLineDetail",
+        Amount: refundAmount,
+        Description: `Refund of ${label}`,
+        SalesItemLineDetail: {
+          ...(refundItemId && { ItemRef: { value: refundItemId } }),
+          Qty: 1,
+          UnitPrice: refundAmount,
+        },
+      },
+    ],
+  });
+  tally(result, refundOutcome, `Refund of ${label}`);
+}
+
+// ── Sync runs ───────────────────────────────────────────────────────────────
+
+/**
+ * Push everything changed since the last sync, plus rows whose last attempt
+ * failed and still has automatic retries left.
+ */
+export async function runQuickbooksSync(
+  supabase: SupabaseClient,
+  orgId: string
+): Promise<QuickbooksSyncResult> {
+  const result: QuickbooksSyncResult = { created: 0, updated: 0, skipped: 0, failed: 0, errors: [] };
+
+  const connection = await getQuickbooksConnection(supabase, orgId);
+  if (!connection) {
+    throw new QuickbooksError("QuickBooks is not connected", 400);
+  }
+
+  if (!connection.mapping.defaultItemId) {
+    throw new QuickbooksError("Choose a default product/service in the QuickBooks mapping before syncing", 400);
+  }
+
+  const ctx: QuickbooksContext = { supabase, connection };
+  const startedAt = new Date().toISOString();
+  const since = connection.lastSyncAt;
+  const startDate = connection.mapping.syncStartDate;
+
+  let invoiceQuery = supabase
+    .from("invoices")
+    .select("id")
+    .eq("org_id", orgId)
+    .neq("status", "DRAFT")
+    .order("created_at", { ascending: true })
+    .limit(500);
+  if (since) invoiceQuery = invoiceQuery.gte("updated_at", since);
+  if (startDate) invoiceQuery = invoiceQuery.gte("created_at", startDate);
+
+  let paymentQuery = supabase
+    .from("payments")
+    .select("id")
+    .eq("org_id", orgId)
+    .in("status", ["SUCCEEDED", "REFUNDED", "PARTIALLY_REFUNDED"])
+    .order("created_at", { ascending: true })
+    .limit(500);
+  if (since) paymentQuery = paymentQuery.gte("updated_at", since);
+  if (startDate) paymentQuery = paymentQuery.gte("created_at", startDate);
+
+  // Customers already in QBO whose details changed
+  let clientQuery = supabase
+    .from("clients")
+    .select("id")
+    .eq("org_id", orgId)
+    .limit(500);
+  if (since) clientQuery = clientQuery.gte("updated_at", since);
+
+  const [{ data: invoices }, { data: payments }, { data: clients }, { data: failedLogs }, { data: customerLinks }] = await Promise.all([
+    invoiceQuery,
+    paymentQuery,
+    clientQuery,
+    supabase
+      .from("quickbooks_sync_log")
+      .select("entity_type, local_id")
+      .eq("org_id", orgId)
+      .eq("status", "FAILED")
+      .lt("attempts", MAX_SYNC_ATTEMPTS),
+    supabase
+      .from("quickbooks_entity_links")
+      .select("local_id")
+      .eq("org_id", orgId)
+      .eq("entity_type", "CUSTOMER"),
+  ]);
+
+  const linkedCustomers = new Set((customerLinks || []).map((l) => l.local_id));
+  const customerIds = new Set((clients || []).map((c) => c.id).filter((id) => linkedCustomers.has(id)));
+  const invoiceIds = new Set((invoices || []).map((i) => i.id));
+  const paymentIds = new Set((payments || []).map((p) => p.id));
+
+  for (const log of failedLogs || []) {
+    if (log.entity_type === "CUSTOMER") customerIds.add(log.local_id);
+    if (log.entity_type === "INVOICE") invoiceIds.add(log.local_id);
+    if (log.entity_type === "PAYMENT" || log.entity_type === "REFUND") paymentIds.add(log.local_id);
+  }
+
+  try {
+    for (const clientId of customerIds) {
+      await syncCustomer(ctx, clientId, result);
+    }
+    for (const invoiceId of invoiceIds) {
+      await syncInvoice(ctx, invoiceId, result);
+    }
+    for (const paymentId of paymentIds) {
+      await syncPayment(ctx, paymentId, result);
+    }
+  } catch (error) {
+    // Connection-level failure (e.g. authorization expired) - stop the run
+    const message = error instanceof Error ? error.message : String(error);
+    result.errors.push(message);
+    await supabase
+      .from("quickbooks_connections")
+      .update({ last_error: message })
+      .eq("id", connection.id);
+    return result;
+  }
+
+  await supabase
+    .from("quickbooks_connections")
+    .update({
+      last_sync_at: startedAt,
+      last_error: result.failed > 0 ? `${result.failed} item${result.failed !== 1 ? "s" : ""} failed to sync` : null,
+    })
+    .eq("id", connection.id);
+
+  return result;
+}
+
+/**
+ * Give failed pushes a fresh set of automatic retries and run a sync
+ */
+export async function retryFailedQuickbooksSync(
+  supabase: SupabaseClient,
+  orgId: string
+): Promise<QuickbooksSyncResult> {
+  await supabase
+    .from("quickbooks_sync_log")
+    .update({ attempts: 0 })
+    .eq("org_id", orgId)
+    .eq("status", "FAILED");
+
+  return runQuickbooksSync(supabase, orgId);
+}
+
+// ── Mismatch report ─────────────────────────────────────────────────────────
+
+// QBO "in" queries are limited in length; keep batches small
+const QUERY_BATCH_SIZE = 50;
+
+async function fetchQboAmounts(
+  ctx: QuickbooksContext,
+  entity: "Invoice" | "Payment" | "RefundReceipt",
+  ids: string[]
+): Promise<Map<string, { total: number; balance: number | null }>> {
+  const amounts = new Map<string, { total: number; balance: number | null }>();
+
+  for (let i = 0; i < ids.length; i += QUERY_BATCH_SIZE) {
+    const batch = ids.slice(i, i + QUERY_BATCH_SIZE);
+    const list = batch.map((id) => `'${escapeQueryValue(id)}'`).join(", ");
+    const columns = entity === "Invoice" ? "Id, TotalAmt, Balance" : "Id, TotalAmt";
+    const rows = await qboQuery(ctx, entity, `select ${columns} from ${entity} where Id in (${list}) maxresults ${QUERY_BATCH_SIZE}`);
+
+    for (const row of rows) {
+      amounts.set(String(row.Id), {
+        total: Math.round(Number(row.TotalAmt || 0) * 100),
+        balance: row.Balance !== undefined ? Math.round(Number(row.Balance) * 100) : null,
+      });
+    }
+  }
+
+  return amounts;
+}
+
+/**
+ * Compare local invoices and payments with what QBO holds: rows never
+ * synced, failed pushes, rows deleted in QBO, and total/balance differences.
+ */
+export async function getQuickbooksMismatchReport(
+  supabase: SupabaseClient,
+  orgId: string,
+  options: { since?: string } = {}
+): Promise<QuickbooksMismatch[]> {
+  const connection = await getQuickbooksConnection(supabase, orgId);
+  if (!connection) {
+    throw new QuickbooksError("QuickBooks is not connected", 400);
+  }
+
+  const ctx: QuickbooksContext = { supabase, connection };
+  const since = options.since || connection.mapping.syncStartDate;
+  const mismatches: QuickbooksMismatch[] = [];
+
+  let invoiceQuery = supabase
+    .from("invoices")
+    .select("id, invoice_number, status, total_cents, amount_due_cents")
+    .eq("org_id", orgId)
+    .neq("status", "DRAFT")
+    .order("created_at", { ascending: false })
+    .limit(1000);
+  if (since) invoiceQuery = invoiceQuery.gte("created_at", since);
+
+  let paymentQuery = supabase
+    .from("payments")
+    .select("id, amount_cents, refunded_amount_cents, stripe_payment_intent_id")
+    .eq("org_id", orgId)
+    .in("status", ["SUCCEEDED", "REFUNDED", "PARTIALLY_REFUNDED"])
+    .order("created_at", { ascending: false })
+    .limit(1000);
+  if (since) paymentQuery = paymentQuery.gte("created_at", since);
+
+  const [{ data: invoices }, { data: payments }, { data: links }, { data: failedLogs }] = await Promise.all([
+    invoiceQuery,
+    paymentQuery,
+    supabase
+      .from("quickbooks_entity_links")
+      .select("entity_type, local_id, qbo_id")
+      .eq("org_id", orgId)
+      .in("entity_type", ["INVOICE", "PAYMENT", "REFUND"]),
+    supabase
+      .from("quickbooks_sync_log")
+      .select("entity_type, local_id, last_error")
+      .eq("org_id", orgId)
+      .eq("status", "FAILED"),
+  ]);
+
+  const linkMap = new Map((links || []).map((l) => [`${l.entity_type}:${l.local_id}`, l.qbo_id as string]));
+  const failedMap = new Map((failedLogs || []).map((l) => [`${l.entity_type}:${l.local_id}`, l.last_error as string | null]));
+
+  const invoiceIds = (invoices || []).map((inv) => linkMap.get(`INVOICE:${inv.id}`)).filter((id): id is string => !!id);
+  const paymentIds = (payments || []).map((p) => linkMap.get(`PAYMENT:${p.id}`)).filter((id): id is string => !!id);
+  const refundIds = (payments || []).map((p) => linkMap.get(`REFUND:${p.id}`)).filter((id): id is string => !!id);
+
+  const [qboInvoices, qboPayments, qboRefunds] = await Promise.all([
+    fetchQboAmounts(ctx, "Invoice", invoiceIds),
+    fetchQboAmounts(ctx, "Payment", paymentIds),
+    fetchQboAmounts(ctx, "RefundReceipt", refundIds),
+  ]);
+
+  for (const invoice of invoices || []) {
+    const key = `INVOICE:${invoice.id}`;
+    const qboId = linkMap.get(key) || null;
+    const base = { entityType: "INVOICE" as const, localId: invoice.id, reference: invoice.invoice_number, qboId };
+
+    if (failedMap.has(key)) {
+      mismatches.push({ ...base, issue: "SYNC_FAILED", localCents: invoice.total_cents, qboCents: null, detail: failedMap.get(key) || null });
+      continue;
+    }
+    if (!qboId) {
+      // Voided before it was ever pushed - nothing to reconcile
+      if (invoice.status !== "VOID") {
+        mismatches.push({ ...base, issue: "NOT_SYNCED", localCents: invoice.total_cents, qboCents: null, detail: null });
+      }
+      continue;
+    }
+
+    const qbo = qboInvoices.get(qboId);
+    if (!qbo) {
+      mismatches.push({ ...base, issue: "MISSING_IN_QBO", localCents: invoice.total_cents, qboCents: null, detail: null });
+      continue;
+    }
+
+    // A voided invoice is zeroed in QBO
+    const expectedTotal = invoice.status === "VOID" ? 0 : invoice.total_cents;
+    if (qbo.total !== expectedTotal) {
+      mismatches.push({ ...base, issue: "AMOUNT_MISMATCH", localCents: expectedTotal, qboCents: qbo.total, detail: "Invoice total differs" });
+    } else if (invoice.status !== "VOID" && qbo.balance !== null && qbo.balance !== invoice.amount_due_cents) {
+      mismatches.push({ ...base, issue: "BALANCE_MISMATCH", localCents: invoice.amount_due_cents, qboCents: qbo.balance, detail: "Open balance differs" });
+    }
+  }
+
+  for (const payment of payments || []) {
+    const reference = payment.stripe_payment_intent_id || payment.id.slice(0, 8);
+    const checks: { type: "PAYMENT" | "REFUND"; cents: number; amounts: typeof qboPayments }[] = [
+      { type: "PAYMENT", cents: payment.amount_cents, amounts: qboPayments },
+    ];
+    if (payment.refunded_amount_cents > 0) {
+      checks.push({ type: "REFUND", cents: payment.refunded_amount_cents, amounts: qboRefunds });
+    }
+
+    for (const check of checks) {
+      const key = `${check.type}:${payment.id}`;
+      const qboId = linkMap.get(key) || null;
+      const base = { entityType: check.type, localId: payment.id, reference, qboId };
+
+      if (failedMap.has(key)) {
+        mismatches.push({ ...base, issue: "SYNC_FAILED", localCents: check.cents, qboCents: null, detail: failedMap.get(key) || null });
+      } else if (!qboId) {
+        mismatches.push({ ...base, issue: "NOT_SYNCED", localCents: check.cents, qboCents: null, detail: null });
+      } else {
+        const qbo = check.amounts.get(qboId);
+        if (!qbo) {
+          mismatches.push({ ...base, issue: "MISSING_IN_QBO", localCents: check.cents, qboCents: null, detail: null });
+        } else if (qbo.total !== check.cents) {
+          mismatches.push({ ...base, issue: "AMOUNT_MISMATCH", localCents: check.cents, qboCents: qbo.total, detail: null });
+        }
+      }
+    }
+  }
+
+  return mismatches;
+}
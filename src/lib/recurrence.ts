@@ -0,0 +1,332 @@
+/**
+ * Subscription Recurrence
+ *
+ * The single answer to "which dates is this subscription serviced on". A rule
+ * is a set of weekdays, a week interval counted from an explicit anchor week,
+ * and optionally the occurrences of the weekday within a month:
+ *
+ *   every Tuesday                 { days: [2], intervalWeeks: 1 }
+ *   twice weekly Mon/Thu          { days: [1, 4], intervalWeeks: 1 }
+ *   every other Tuesday           { days: [2], intervalWeeks: 2, anchorWeek }
+ *   1st Monday of the month       { days: [1], monthWeeks: [1] }
+ *   1st and 3rd Friday            { days: [5], monthWeeks: [1, 3] }
+ *
+ * Stored on subscriptions.recurrence; subscriptions without one fall back to
+ * a rule derived from frequency / preferred_day / start date. Shared by the
+ * generate-jobs cron, regenerateJobsForSubscription, the route planner's
+ * Week A / Week B split and the client portal's next service date.
+ *
+ * All dates are YYYY-MM-DD strings and weeks start on Monday.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+
+export interface RecurrenceRule {
+  /** Service weekdays, 0=Sun … 6=Sat */
+  days: number[];
+  /** Weeks between service weeks (1 = every week, 2 = every other week) */
+  intervalWeeks: number;
+  /** Monday of a service week; week intervals count from here */
+  anchorWeek: string;
+  /** Occurrences of the weekday in the month (1-4, -1 = last); null for week-interval rules */
+  monthWeeks: number[] | null;
+}
+
+/** subscriptions.preferred_day values, indexed like Date#getDay() */
+export const WEEKDAY_KEYS = ["SUNDAY", "MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY", "SATURDAY"];
+
+const DAY_SHORT = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const DAY_LONG = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const ORDINALS: Record<number, string> = { 1: "1st", 2: "2nd", 3: "3rd", 4: "4th", [-1]: "last" };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A Monday; week parity is counted from here so Week A / Week B mean the same thing everywhere
+const PARITY_EPOCH = Date.UTC(1970, 0, 5);
+
+// Weekdays for the multi-visit cadences when the office hasn't picked days
+const MULTI_DAY_DEFAULTS: Record<string, number[]> = {
+  TWICE_WEEKLY: [1, 4],
+  TWO_TIMES_A_WEEK: [1, 4],
+  THREE_TIMES_A_WEEK: [1, 3, 5],
+  FOUR_TIMES_A_WEEK: [1, 2, 4, 5],
+  FIVE_TIMES_A_WEEK: [1, 2, 3, 4, 5],
+  SIX_TIMES_A_WEEK: [1, 2, 3, 4, 5, 6],
+  SEVEN_TIMES_A_WEEK: [0, 1, 2, 3, 4, 5, 6],
+};
+
+const INTERVAL_WEEKS: Record<string, number> = {
+  BIWEEKLY: 2,
+  BI_WEEKLY: 2,
+  EVERY_THREE_WEEKS: 3,
+  EVERY_FOUR_WEEKS: 4,
+};
+
+// ── Date helpers ────────────────────────────────────────────────────────────
+
+function toUtc(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getTime();
+}
+
+function fromUtc(ms: number): string {
+  return new Date(ms).toISOString().split("T")[0];
+}
+
+export function addDaysToDate(date: string, days: number): string {
+  return fromUtc(toUtc(date) + days * DAY_MS);
+}
+
+/** 0=Sun … 6=Sat */
+export function weekdayOf(date: string): number {
+  return new Date(toUtc(date)).getUTCDay();
+}
+
+/** Monday of the week containing the date */
+export function weekStartOf(date: string): string {
+  const offset = (weekdayOf(date) + 6) % 7;
+  return addDaysToDate(date, -offset);
+}
+
+function weeksBetween(fromWeek: string, toWeek: string): number {
+  return Math.round((toUtc(weekStartOf(toWeek)) - toUtc(weekStartOf(fromWeek))) / (7 * DAY_MS));
+}
+
+/** 0 for "Week A", 1 for "Week B" — the same split for every customer and screen */
+export function weekParityOf(date: string): number {
+  const weeks = Math.round((toUtc(weekStartOf(date)) - PARITY_EPOCH) / (7 * DAY_MS));
+  return ((weeks % 2) + 2) % 2;
+}
+
+/** Which occurrence of its weekday the date is in its month (1-5) */
+function weekdayOccurrence(date: string): number {
+  return Math.ceil(Number(date.slice(8, 10)) / 7);
+}
+
+function isLastWeekdayOfMonth(date: string): boolean {
+  return addDaysToDate(date, 7).slice(0, 7) !== date.slice(0, 7);
+}
+
+// ── Rules ───────────────────────────────────────────────────────────────────
+
+/**
+ * Rule implied by the legacy fields, for subscriptions without a stored one.
+ * The anchor is the week of the start date; monthly visits keep the start
+ * date's weekday and week of the month.
+ */
+export function defaultRecurrence(
+  frequency: string,
+  preferredDay: string | null | undefined,
+  startDate: string,
+  cleanupFrequency?: string | null
+): RecurrenceRule | null {
+  if (frequency === "ONETIME" || !DATE_PATTERN.test(startDate)) return null;
+
+  const cadence = cleanupFrequency && (MULTI_DAY_DEFAULTS[cleanupFrequency] || INTERVAL_WEEKS[cleanupFrequency] || cleanupFrequency === "TWICE_PER_MONTH")
+    ? cleanupFrequency
+    : frequency;
+
+  const preferredIndex = preferredDay ? WEEKDAY_KEYS.indexOf(preferredDay) : -1;
+  // Sunday starts fall back to Monday; routes don't run on Sundays by default
+  const startWeekday = weekdayOf(startDate) || 1;
+
+  const days = MULTI_DAY_DEFAULTS[cadence]
+    ? [...MULTI_DAY_DEFAULTS[cadence]]
+    : [preferredIndex >= 0 ? preferredIndex : startWeekday];
+
+  let monthWeeks: number[] | null = null;
+  if (cadence === "MONTHLY" || cadence === "ONCE_A_MONTH") {
+    const occurrence = weekdayOccurrence(startDate);
+    monthWeeks = [occurrence > 4 ? -1 : occurrence];
+  } else if (cadence === "TWICE_PER_MONTH") {
+    monthWeeks = [1, 3];
+  }
+
+  return {
+    days: [...new Set(days)].sort((a, b) => a - b),
+    intervalWeeks: INTERVAL_WEEKS[cadence] || 1,
+    anchorWeek: weekStartOf(startDate),
+    monthWeeks,
+  };
+}
+
+/**
+ * Validate a rule from a request or the database. Returns the cleaned rule or an error.
+ */
+export function parseRecurrence(raw: unknown): { rule?: RecurrenceRule; error?: string } {
+  if (!raw || typeof raw !== "object") return { error: "Recurrence is required" };
+  const input = raw as Record<string, unknown>;
+
+  const days = Array.isArray(input.days)
+    ? [...new Set(input.days.map(Number))].filter((d) => Number.isInteger(d) && d >= 0 && d <= 6).sort((a, b) => a - b)
+    : [];
+  if (days.length === 0) return { error: "Pick at least one service day" };
+
+  const intervalWeeks = input.intervalWeeks === undefined ? 1 : Number(input.intervalWeeks);
+  if (!Number.isInteger(intervalWeeks) || intervalWeeks < 1 || intervalWeeks > 8) {
+    return { error: "Week interval must be between 1 and 8" };
+  }
+
+  const anchor = typeof input.anchorWeek === "string" ? input.anchorWeek : "";
+  if (!DATE_PATTERN.test(anchor)) return { error: "Anchor week must be a date (YYYY-MM-DD)" };
+
+  let monthWeeks: number[] | null = null;
+  if (Array.isArray(input.monthWeeks) && input.monthWeeks.length > 0) {
+    monthWeeks = [...new Set(input.monthWeeks.map(Number))]
+      .filter((w) => [1, 2, 3, 4, -1].includes(w))
+      .sort((a, b) => (a === -1 ? 5 : a) - (b === -1 ? 5 : b));
+    if (monthWeeks.length === 0) return { error: "Month weeks must be 1-4 or -1 (last)" };
+    if (intervalWeeks !== 1) return { error: "Monthly rules can't also use a week interval" };
+  }
+
+  return { rule: { days, intervalWeeks, anchorWeek: weekStartOf(anchor), monthWeeks } };
+}
+
+/**
+ * The rule for a subscription row: the stored one if valid, else the legacy default
+ */
+export function getSubscriptionRecurrence(subscription: {
+  frequency: string;
+  preferred_day?: string | null;
+  recurrence?: unknown;
+  start_date?: string | null;
+  created_at: string;
+  metadata?: Record<string, unknown> | null;
+}): RecurrenceRule | null {
+  if (subscription.frequency === "ONETIME") return null;
+
+  if (subscription.recurrence) {
+    const { rule } = parseRecurrence(subscription.recurrence);
+    if (rule) return rule;
+  }
+
+  const startDate = subscription.start_date || subscription.created_at.split("T")[0];
+  const cleanupFrequency = typeof subscription.metadata?.cleanup_frequency === "string"
+    ? subscription.metadata.cleanup_frequency
+    : null;
+  return defaultRecurrence(subscription.frequency, subscription.preferred_day, startDate, cleanupFrequency);
+}
+
+/** Whether the rule services the given date */
+export function isServiceDate(rule: RecurrenceRule, date: string): boolean {
+  if (!rule.days.includes(weekdayOf(date))) return false;
+
+  if (rule.monthWeeks) {
+    const occurrence = weekdayOccurrence(date);
+    return rule.monthWeeks.includes(occurrence) || (rule.monthWeeks.includes(-1) && isLastWeekdayOfMonth(date));
+  }
+
+  const weeks = weeksBetween(rule.anchorWeek, date);
+  return ((weeks % rule.intervalWeeks) + rule.intervalWeeks) % rule.intervalWeeks === 0;
+}
+
+/** Service dates from `from` through `to`, inclusive */
+export function serviceDatesBetween(rule: RecurrenceRule, from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (let date = from; date <= to; date = addDaysToDate(date, 1)) {
+    if (isServiceDate(rule, date)) dates.push(date);
+  }
+  return dates;
+}
+
+/** First service date on or after `from` (looks ahead up to ~2 months) */
+export function nextServiceDate(rule: RecurrenceRule, from: string): string | null {
+  const horizon = Math.max(rule.intervalWeeks * 7, 62);
+  for (let i = 0; i <= horizon; i++) {
+    const date = addDaysToDate(from, i);
+    if (isServiceDate(rule, date)) return date;
+  }
+  return null;
+}
+
+/**
+ * The next date a subscription is due (what the client portal shows), from its
+ * rule rather than the stored next_service_date, which only one-time
+ * subscriptions still rely on
+ */
+export function subscriptionNextServiceDate(
+  subscription: Parameters<typeof getSubscriptionRecurrence>[0] & { next_service_date?: string | null },
+  from: string
+): string | null {
+  const rule = getSubscriptionRecurrence(subscription);
+  if (!rule) return subscription.next_service_date || null;
+  const start = subscription.start_date && subscription.start_date > from ? subscription.start_date : from;
+  return nextServiceDate(rule, start);
+}
+
+/**
+ * Week A (0) / Week B (1) a rule is serviced in, or null when it is serviced
+ * every week or doesn't follow a fixed two-week split.
+ */
+export function recurrenceWeekParity(rule: RecurrenceRule): number | null {
+  if (rule.monthWeeks || rule.intervalWeeks % 2 !== 0) return null;
+  return weekParityOf(rule.anchorWeek);
+}
+
+/** The preferred_day kept in sync with the rule's first weekday */
+export function primaryDayKey(rule: RecurrenceRule | null): string | null {
+  if (!rule || rule.days.length === 0) return null;
+  // Prefer a working day over Sunday for the single-day field
+  const day = rule.days.find((d) => d !== 0) ?? rule.days[0];
+  return WEEKDAY_KEYS[day];
+}
+
+/** e.g. "Every Tue", "Every other Tue", "Mon & Thu weekly", "1st Mon of the month" */
+export function describeRecurrence(rule: RecurrenceRule | null): string {
+  if (!rule) return "One-time";
+
+  if (rule.monthWeeks) {
+    const which = rule.monthWeeks.map((w) => ORDINALS[w]).join(" & ");
+    const dayNames = rule.days.map((d) => (rule.days.length === 1 ? DAY_LONG[d] : DAY_SHORT[d])).join(" & ");
+    return `${which} ${dayNames} of the month`;
+  }
+
+  const dayNames = rule.days.map((d) => DAY_SHORT[d]).join(" & ");
+  if (rule.intervalWeeks === 1) {
+    return rule.days.length === 1 ? `Every ${DAY_LONG[rule.days[0]]}` : `${dayNames} weekly`;
+  }
+  if (rule.intervalWeeks === 2) {
+    return `Every other ${dayNames} (Week ${weekParityOf(rule.anchorWeek) === 0 ? "A" : "B"})`;
+  }
+  return `${dayNames} every ${rule.intervalWeeks} weeks`;
+}
+
+/**
+ * Move subscriptions to new service weekdays (e.g. from the schedule board or
+ * route planner), keeping each one's cadence and anchor week. Also updates
+ * preferred_day. Returns the number of subscriptions updated.
+ */
+export async function setSubscriptionServiceDays(
+  supabase: SupabaseClient,
+  orgId: string,
+  subscriptionIds: string[],
+  dayKeys: string[]
+): Promise<number> {
+  const days = [...new Set(dayKeys.map((key) => WEEKDAY_KEYS.indexOf(key)).filter((d) => d >= 0))].sort((a, b) => a - b);
+  if (days.length === 0 || subscriptionIds.length === 0) return 0;
+
+  const { data: subscriptions, error } = await supabase
+    .from("subscriptions")
+    .select("id, frequency, preferred_day, recurrence, start_date, metadata, created_at")
+    .eq("org_id", orgId)
+    .in("id", subscriptionIds);
+
+  if (error) {
+    console.error("Error fetching subscriptions for service days:", error);
+    return 0;
+  }
+
+  let updated = 0;
+  for (const subscription of subscriptions || []) {
+    const current = getSubscriptionRecurrence(subscription);
+    const recurrence = current ? { ...current, days } : null;
+
+    const { error: updateError } = await supabase
+      .from("subscriptions")
+      .update({ recurrence, preferred_day: primaryDayKey(recurrence) || dayKeys[0] })
+      .eq("id", subscription.id);
+
+    if (!updateError) updated++;
+  }
+
+  return updated;
+}
@@ -45,6 +45,7 @@ export interface SendEmailOptions {
   from?: string;
   replyTo?: string;
   tags?: Array<{ name: string; value: string }>;
+  attachments?: Array<{ filename: string; content: string }>;
 }
 
 /**
@@ -62,6 +63,10 @@ export async function sendEmail(options: SendEmailOptions): Promise<SendEmailRes
       text: options.text,
       replyTo: options.replyTo,
       tags: options.tags?.map((t) => t.value),
+      attachments: options.attachments?.map((a) => ({
+        name: a.filename,
+        content: Buffer.from(a.content).toString("base64"),
+      })),
     });
     return r.messageId ? { success: true, messageId: r.messageId } : { success: false, error: r.error };
   }
@@ -94,6 +99,12 @@ export async function sendEmail(options: SendEmailOptions): Promise<SendEmailRes
     if (options.tags) {
       emailPayload.tags = options.tags;
     }
+    if (options.attachments) {
+      emailPayload.attachments = options.attachments.map((a) => ({
+        filename: a.filename,
+        content: Buffer.from(a.content),
+      }));
+    }
 
     const { data, error } = await client.emails.send(emailPayload);
 
@@ -119,6 +130,45 @@ export async function sendEmail(options: SendEmailOptions): Promise<SendEmailRes
   }
 }
 
+export interface ReceivedEmail {
+  id: string;
+  from: string;
+  to: string[];
+  subject: string;
+  text: string | null;
+  html: string | null;
+  messageId: string;
+}
+
+/**
+ * Fetch an inbound email (Resend receiving) by id. The email.received
+ * webhook only carries the envelope; the body has to be fetched.
+ */
+export async function getReceivedEmail(id: string): Promise<ReceivedEmail | null> {
+  const client = getClient();
+  if (!client) return null;
+
+  try {
+    const { data, error } = await client.emails.receiving.get(id);
+    if (error || !data) {
+      console.error("Resend receiving error:", error);
+      return null;
+    }
+    return {
+      id: data.id,
+      from: data.from,
+      to: data.to,
+      subject: data.subject,
+      text: data.text,
+      html: data.html,
+      messageId: data.message_id,
+    };
+  } catch (error) {
+    console.error("Resend receiving error:", error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
 /**
  * Send a templated email with variable substitution
  */
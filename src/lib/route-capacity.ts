@@ -0,0 +1,676 @@
+/**
+ * Route Capacity
+ *
+ * How loaded each tech's route is on each weekday, measured against limits in
+ * settings.routeOptimization.capacity: stops, minutes on site and minutes
+ * driving, with per-tech and per-tech-per-weekday overrides.
+ *
+ * A weekday's load is its busiest occurrence over the next five weeks, so
+ * every-other-week and monthly yards only count in the weeks they are actually
+ * serviced (see src/lib/recurrence.ts). Time on site is estimated per yard from
+ * the dog count and how long waste piles up between visits; drive time from a
+ * nearest-neighbor tour out of the tech's start location at the org's average
+ * speed, the same way the stop sequencer estimates travel.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { calculateAirDistance, metersToMiles } from "./distance-utils";
+import {
+  DEFAULT_AVG_SPEED_MPH,
+  DEFAULT_CIRCUITY_FACTOR,
+  type SequencerPoint,
+} from "./stop-sequencer";
+import {
+  WEEKDAY_KEYS,
+  addDaysToDate,
+  getSubscriptionRecurrence,
+  isServiceDate,
+  weekStartOf,
+  type RecurrenceRule,
+} from "./recurrence";
+
+export type CapacityEnforcement = "WARN" | "BLOCK";
+export type CapacityMetric = "stops" | "onSiteMinutes" | "driveMinutes";
+
+export interface CapacityLimits {
+  maxStops: number | null;
+  maxOnSiteMinutes: number | null;
+  maxDriveMinutes: number | null;
+}
+
+/** A tech's limits, for one weekday or (day null) every day; null fields inherit */
+export interface TechCapacityLimits extends CapacityLimits {
+  techId: string;
+  day: string | null;
+}
+
+export interface CapacitySettings {
+  /** WARN lets the office go over a limit after confirming; BLOCK refuses */
+  enforcement: CapacityEnforcement;
+  defaultLimits: CapacityLimits;
+  techLimits: TechCapacityLimits[];
+}
+
+export const DEFAULT_CAPACITY_SETTINGS: CapacitySettings = {
+  enforcement: "WARN",
+  defaultLimits: { maxStops: 25, maxOnSiteMinutes: 360, maxDriveMinutes: 150 },
+  techLimits: [],
+};
+
+export interface ServiceTimeSettings {
+  serviceMinutesBase: number;
+  serviceMinutesPerDog: number;
+}
+
+export interface CapacityTech {
+  id: string;
+  name: string;
+  start: SequencerPoint | null;
+}
+
+export interface CapacityStop {
+  subscriptionId: string;
+  clientName: string;
+  techId: string | null;
+  lat: number;
+  lng: number;
+  dogCount: number;
+  frequency: string;
+  rule: RecurrenceRule;
+  serviceMinutes: number;
+}
+
+export interface CapacityModel {
+  settings: CapacitySettings;
+  serviceTime: ServiceTimeSettings;
+  avgSpeedMph: number;
+  circuityFactor: number;
+  depot: SequencerPoint | null;
+  daysOff: string[];
+  techs: CapacityTech[];
+  stops: CapacityStop[];
+  /** Monday of the first week loads are measured over */
+  weekStart: string;
+}
+
+export interface DayLoad {
+  techId: string | null;
+  techName: string;
+  day: string;
+  /** Date of the busiest occurrence, or null if the day has no stops */
+  peakDate: string | null;
+  stops: number;
+  onSiteMinutes: number;
+  driveMinutes: number;
+  limits: CapacityLimits;
+  exceeded: CapacityMetric[];
+  status: "ok" | "near" | "over";
+}
+
+export interface CapacityCheck {
+  ok: boolean;
+  enforcement: CapacityEnforcement;
+  violations: DayLoad[];
+  message: string | null;
+}
+
+/** A subscription placed (or moved) onto a tech's route */
+export interface CapacityPlacement {
+  subscriptionId?: string;
+  clientName: string;
+  techId: string;
+  rule: RecurrenceRule;
+  lat: number;
+  lng: number;
+  dogCount: number;
+  frequency: string;
+}
+
+const LOAD_WEEKS = 5;
+// Share of a limit at which a day shows as nearly full
+const NEAR_CAPACITY_RATIO = 0.9;
+
+// Typical days between visits; the longer the gap, the more there is to pick up
+const VISIT_GAP_DAYS: Record<string, number> = {
+  SEVEN_TIMES_A_WEEK: 1,
+  SIX_TIMES_A_WEEK: 1.2,
+  FIVE_TIMES_A_WEEK: 1.4,
+  FOUR_TIMES_A_WEEK: 1.75,
+  THREE_TIMES_A_WEEK: 2.3,
+  TWICE_WEEKLY: 3.5,
+  TWO_TIMES_A_WEEK: 3.5,
+  WEEKLY: 7,
+  BIWEEKLY: 14,
+  BI_WEEKLY: 14,
+  TWICE_PER_MONTH: 15,
+  EVERY_THREE_WEEKS: 21,
+  EVERY_FOUR_WEEKS: 28,
+  MONTHLY: 30,
+  ONETIME: 30,
+};
+
+const METRIC_LABELS: Record<CapacityMetric, string> = {
+  stops: "stops",
+  onSiteMinutes: "on-site min",
+  driveMinutes: "drive min",
+};
+
+const DAY_LABELS: Record<string, string> = {
+  SUNDAY: "Sunday",
+  MONDAY: "Monday",
+  TUESDAY: "Tuesday",
+  WEDNESDAY: "Wednesday",
+  THURSDAY: "Thursday",
+  FRIDAY: "Friday",
+  SATURDAY: "Saturday",
+};
+
+// ── Settings ────────────────────────────────────────────────────────────────
+
+function toLimit(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const num = Number(value);
+  return Number.isFinite(num) && num > 0 ? Math.round(num) : null;
+}
+
+function toPoint(lat: unknown, lng: unknown): SequencerPoint | null {
+  if (lat === null || lat === undefined || lat === "" || lng === null || lng === undefined || lng === "") {
+    return null;
+  }
+  const latitude = Number(lat);
+  const longitude = Number(lng);
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  return { lat: latitude, lng: longitude };
+}
+
+/**
+ * Fill in defaults for settings.routeOptimization.capacity. An explicit null
+ * default limit means "no limit".
+ */
+export function normalizeCapacitySettings(raw: unknown): CapacitySettings {
+  const value = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const defaults = (value.defaultLimits && typeof value.defaultLimits === "object"
+    ? value.defaultLimits
+    : {}) as Record<string, unknown>;
+
+  const defaultLimit = (key: keyof CapacityLimits) =>
+    key in defaults ? toLimit(defaults[key]) : DEFAULT_CAPACITY_SETTINGS.defaultLimits[key];
+
+  const techLimits = Array.isArray(value.techLimits)
+    ? (value.techLimits as Array<Record<string, unknown>>)
+        .filter((t) => t && typeof t.techId === "string" && t.techId)
+        .map((t) => ({
+          techId: t.techId as string,
+          day: typeof t.day === "string" && WEEKDAY_KEYS.includes(t.day) ? t.day : null,
+          maxStops: toLimit(t.maxStops),
+          maxOnSiteMinutes: toLimit(t.maxOnSiteMinutes),
+          maxDriveMinutes: toLimit(t.maxDriveMinutes),
+        }))
+    : [];
+
+  return {
+    enforcement: value.enforcement === "BLOCK" ? "BLOCK" : "WARN",
+    defaultLimits: {
+      maxStops: defaultLimit("maxStops"),
+      maxOnSiteMinutes: defaultLimit("maxOnSiteMinutes"),
+      maxDriveMinutes: defaultLimit("maxDriveMinutes"),
+    },
+    techLimits,
+  };
+}
+
+/**
+ * Limits for a tech on a weekday: their entry for that day, then their
+ * every-day entry, then the org default, field by field
+ */
+export function resolveCapacityLimits(
+  settings: CapacitySettings,
+  techId: string | null,
+  day: string
+): CapacityLimits {
+  if (!techId) {
+    // Unassigned stops have nobody to overload
+    return { maxStops: null, maxOnSiteMinutes: null, maxDriveMinutes: null };
+  }
+
+  const forDay = settings.techLimits.find((t) => t.techId === techId && t.day === day);
+  const forTech = settings.techLimits.find((t) => t.techId === techId && t.day === null);
+  const pick = (key: keyof CapacityLimits) =>
+    forDay?.[key] ?? forTech?.[key] ?? settings.defaultLimits[key];
+
+  return {
+    maxStops: pick("maxStops"),
+    maxOnSiteMinutes: pick("maxOnSiteMinutes"),
+    maxDriveMinutes: pick("maxDriveMinutes"),
+  };
+}
+
+// ── Estimates ───────────────────────────────────────────────────────────────
+
+/**
+ * Minutes on site for one visit: base + per-dog time, scaled by how long waste
+ * accumulates between visits (weekly = 1x, every other week = 1.4x, monthly ≈ 2.3x)
+ */
+export function estimateServiceMinutes(
+  dogCount: number,
+  frequency: string,
+  serviceTime: ServiceTimeSettings
+): number {
+  const base = serviceTime.serviceMinutesBase + serviceTime.serviceMinutesPerDog * Math.max(dogCount, 1);
+  const gapDays = VISIT_GAP_DAYS[frequency] ?? 7;
+  const factor = Math.min(0.6 + (0.4 * gapDays) / 7, 2.5);
+  return Math.max(Math.round(base * factor), 1);
+}
+
+/** Drive minutes for a nearest-neighbor tour from `start` through the stops and back */
+function estimateDriveMinutes(
+  stops: Array<{ lat: number; lng: number }>,
+  start: SequencerPoint | null,
+  avgSpeedMph: number,
+  circuityFactor: number
+): number {
+  if (stops.length === 0) return 0;
+
+  const remaining = [...stops];
+  let meters = 0;
+  let current: SequencerPoint = start || remaining.shift()!;
+
+  while (remaining.length > 0) {
+    let nearest = 0;
+    let nearestMeters = Infinity;
+    remaining.forEach((stop, i) => {
+      const d = calculateAirDistance(current.lat, current.lng, stop.lat, stop.lng);
+      if (d < nearestMeters) {
+        nearestMeters = d;
+        nearest = i;
+      }
+    });
+    meters += nearestMeters;
+    current = remaining.splice(nearest, 1)[0];
+  }
+
+  if (start) {
+    meters += calculateAirDistance(current.lat, current.lng, start.lat, start.lng);
+  }
+
+  return (metersToMiles(meters) * circuityFactor * 60) / avgSpeedMph;
+}
+
+// ── Loading ─────────────────────────────────────────────────────────────────
+
+/**
+ * Everything capacity checks need for an org: settings, field techs with their
+ * start locations, and every active recurring subscription with coordinates.
+ * A subscription's tech is whoever was assigned its most recent job.
+ */
+export async function loadCapacityModel(
+  supabase: SupabaseClient,
+  orgId: string
+): Promise<CapacityModel> {
+  const [{ data: org }, { data: techUsers }, { data: subscriptions, error }] = await Promise.all([
+    supabase.from("organizations").select("settings").eq("id", orgId).single(),
+    supabase
+      .from("users")
+      .select("id, first_name, last_name")
+      .eq("org_id", orgId)
+      .in("role", ["FIELD_TECH", "CREW_LEAD"])
+      .eq("is_active", true),
+    supabase
+      .from("subscriptions")
+      .select(`
+        id,
+        frequency,
+        preferred_day,
+        recurrence,
+        start_date,
+        created_at,
+        metadata,
+        client:clients!inner (
+          first_name,
+          last_name,
+          company_name
+        ),
+        location:locations!inner (
+          latitude,
+          longitude,
+          dogs (
+            is_active
+          )
+        )
+      `)
+      .eq("org_id", orgId)
+      .eq("status", "ACTIVE")
+      .neq("frequency", "ONETIME")
+      .not("location.latitude", "is", null)
+      .not("location.longitude", "is", null),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to load subscriptions: ${error.message}`);
+  }
+
+  const raw = ((org?.settings as Record<string, unknown>)?.routeOptimization || {}) as Record<
+    string,
+    unknown
+  >;
+  const depot = raw.depot as { latitude?: unknown; longitude?: unknown } | undefined;
+  const serviceTime: ServiceTimeSettings = {
+    serviceMinutesBase: raw.serviceMinutesBase !== undefined ? Number(raw.serviceMinutesBase) || 0 : 5,
+    serviceMinutesPerDog: raw.serviceMinutesPerDog !== undefined ? Number(raw.serviceMinutesPerDog) || 0 : 2,
+  };
+
+  const techIds = (techUsers || []).map((t) => t.id);
+  const { data: profiles } = techIds.length
+    ? await supabase
+        .from("staff_profiles")
+        .select("user_id, start_latitude, start_longitude")
+        .in("user_id", techIds)
+    : { data: [] };
+  const startByTech = new Map(
+    (profiles || []).map((p) => [p.user_id as string, toPoint(p.start_latitude, p.start_longitude)])
+  );
+
+  const techs: CapacityTech[] = (techUsers || []).map((t) => ({
+    id: t.id,
+    name: `${t.first_name || ""} ${t.last_name || ""}`.trim() || "Unknown",
+    start: startByTech.get(t.id) || null,
+  }));
+
+  // Tech per subscription from its most recent assigned job
+  const subscriptionIds = (subscriptions || []).map((s) => s.id);
+  const techAssignments: Record<string, string> = {};
+  if (subscriptionIds.length > 0) {
+    const { data: recentJobs } = await supabase
+      .from("jobs")
+      .select("subscription_id, assigned_to")
+      .in("subscription_id", subscriptionIds)
+      .not("assigned_to", "is", null)
+      .order("scheduled_date", { ascending: false });
+
+    for (const job of recentJobs || []) {
+      if (job.subscription_id && job.assigned_to && !techAssignments[job.subscription_id]) {
+        techAssignments[job.subscription_id] = job.assigned_to;
+      }
+    }
+  }
+
+  const stops: CapacityStop[] = [];
+  for (const sub of subscriptions || []) {
+    const rule = getSubscriptionRecurrence(sub);
+    const client = sub.client as unknown as {
+      first_name: string | null;
+      last_name: string | null;
+      company_name: string | null;
+    };
+    const location = sub.location as unknown as {
+      latitude: number | string;
+      longitude: number | string;
+      dogs?: Array<{ is_active: boolean }>;
+    };
+    const point = toPoint(location.latitude, location.longitude);
+    if (!rule || !point) continue;
+
+    const metadata = sub.metadata as Record<string, unknown> | null;
+    const frequency =
+      typeof metadata?.cleanup_frequency === "string" ? metadata.cleanup_frequency : sub.frequency;
+    const dogCount = (location.dogs || []).filter((d) => d.is_active).length;
+
+    stops.push({
+      subscriptionId: sub.id,
+      clientName:
+        client.company_name || `${client.first_name || ""} ${client.last_name || ""}`.trim(),
+      techId: techAssignments[sub.id] || null,
+      lat: point.lat,
+      lng: point.lng,
+      dogCount,
+      frequency,
+      rule,
+      serviceMinutes: estimateServiceMinutes(dogCount, frequency, serviceTime),
+    });
+  }
+
+  return {
+    settings: normalizeCapacitySettings(raw.capacity),
+    serviceTime,
+    avgSpeedMph: Number(raw.avgSpeedMph) || DEFAULT_AVG_SPEED_MPH,
+    circuityFactor: Number(raw.circuityFactor) || DEFAULT_CIRCUITY_FACTOR,
+    depot: depot ? toPoint(depot.latitude, depot.longitude) : null,
+    daysOff: Array.isArray(raw.daysOff) ? (raw.daysOff as string[]) : [],
+    techs,
+    stops,
+    weekStart: weekStartOf(new Date().toISOString().split("T")[0]),
+  };
+}
+
+// ── Loads ───────────────────────────────────────────────────────────────────
+
+function exceededMetrics(load: Pick<DayLoad, CapacityMetric>, limits: CapacityLimits): CapacityMetric[] {
+  const exceeded: CapacityMetric[] = [];
+  if (limits.maxStops !== null && load.stops > limits.maxStops) exceeded.push("stops");
+  if (limits.maxOnSiteMinutes !== null && load.onSiteMinutes > limits.maxOnSiteMinutes) {
+    exceeded.push("onSiteMinutes");
+  }
+  if (limits.maxDriveMinutes !== null && load.driveMinutes > limits.maxDriveMinutes) {
+    exceeded.push("driveMinutes");
+  }
+  return exceeded;
+}
+
+function isNearLimit(load: Pick<DayLoad, CapacityMetric>, limits: CapacityLimits): boolean {
+  const near = (value: number, limit: number | null) =>
+    limit !== null && value >= limit * NEAR_CAPACITY_RATIO;
+  return (
+    near(load.stops, limits.maxStops) ||
+    near(load.onSiteMinutes, limits.maxOnSiteMinutes) ||
+    near(load.driveMinutes, limits.maxDriveMinutes)
+  );
+}
+
+/** Dates of a weekday across the measured weeks */
+function weekdayDates(model: CapacityModel, day: string): string[] {
+  const offset = (WEEKDAY_KEYS.indexOf(day) + 6) % 7; // weeks start Monday
+  return Array.from({ length: LOAD_WEEKS }, (_, w) => addDaysToDate(model.weekStart, w * 7 + offset));
+}
+
+/** Load of one tech's route on one weekday, at its busiest occurrence */
+function dayLoad(
+  model: CapacityModel,
+  techId: string | null,
+  day: string,
+  techStops: CapacityStop[]
+): DayLoad {
+  const tech = techId ? model.techs.find((t) => t.id === techId) : null;
+  const start = tech?.start || model.depot;
+  const limits = resolveCapacityLimits(model.settings, techId, day);
+
+  let peakDate: string | null = null;
+  let stops = 0;
+  let onSiteMinutes = 0;
+  let driveMinutes = 0;
+
+  for (const date of weekdayDates(model, day)) {
+    const visits = techStops.filter((s) => isServiceDate(s.rule, date));
+    if (visits.length === 0) continue;
+
+    if (visits.length > stops) {
+      stops = visits.length;
+      peakDate = date;
+    }
+    onSiteMinutes = Math.max(
+      onSiteMinutes,
+      visits.reduce((sum, s) => sum + s.serviceMinutes, 0)
+    );
+    driveMinutes = Math.max(
+      driveMinutes,
+      estimateDriveMinutes(visits, start, model.avgSpeedMph, model.circuityFactor)
+    );
+  }
+
+  const metrics = { stops, onSiteMinutes: Math.round(onSiteMinutes), driveMinutes: Math.round(driveMinutes) };
+  const exceeded = exceededMetrics(metrics, limits);
+
+  return {
+    techId,
+    techName: tech?.name || (techId ? "Unknown" : "Unassigned"),
+    day,
+    peakDate,
+    ...metrics,
+    limits,
+    exceeded,
+    status: exceeded.length > 0 ? "over" : isNearLimit(metrics, limits) ? "near" : "ok",
+  };
+}
+
+/** Working weekdays, Monday first */
+export function capacityDays(model: CapacityModel): string[] {
+  return [...WEEKDAY_KEYS.slice(1), WEEKDAY_KEYS[0]].filter((d) => !model.daysOff.includes(d));
+}
+
+/**
+ * Load for every tech × working weekday (plus an Unassigned row when some
+ * subscriptions have no tech yet). Pass `stops` to measure a proposed layout.
+ */
+export function computeDayLoads(
+  model: CapacityModel,
+  stops: CapacityStop[] = model.stops
+): DayLoad[] {
+  const byTech = new Map<string | null, CapacityStop[]>();
+  for (const tech of model.techs) byTech.set(tech.id, []);
+  for (const stop of stops) {
+    const list = byTech.get(stop.techId);
+    if (list) list.push(stop);
+    else byTech.set(stop.techId, [stop]);
+  }
+
+  const days = capacityDays(model);
+  const loads: DayLoad[] = [];
+  for (const [techId, techStops] of byTech) {
+    for (const day of days) {
+      loads.push(dayLoad(model, techId, day, techStops));
+    }
+  }
+  return loads;
+}
+
+/** e.g. "Alex Kim on Tuesday: 27/25 stops, 410/360 on-site min" */
+export function describeDayLoad(load: DayLoad): string {
+  const limitFor: Record<CapacityMetric, number | null> = {
+    stops: load.limits.maxStops,
+    onSiteMinutes: load.limits.maxOnSiteMinutes,
+    driveMinutes: load.limits.maxDriveMinutes,
+  };
+  const parts = (load.exceeded.length > 0 ? load.exceeded : (["stops"] as CapacityMetric[])).map(
+    (metric) =>
+      `${load[metric]}${limitFor[metric] !== null ? `/${limitFor[metric]}` : ""} ${METRIC_LABELS[metric]}`
+  );
+  return `${load.techName} on ${DAY_LABELS[load.day] || load.day}: ${parts.join(", ")}`;
+}
+
+function buildCheck(model: CapacityModel, violations: DayLoad[]): CapacityCheck {
+  return {
+    ok: violations.length === 0,
+    enforcement: model.settings.enforcement,
+    violations,
+    message:
+      violations.length > 0
+        ? `Over route capacity — ${violations.map(describeDayLoad).join("; ")}`
+        : null,
+  };
+}
+
+/** The stop a placement would add, replacing the subscription's current one */
+function placementStop(model: CapacityModel, placement: CapacityPlacement): CapacityStop {
+  return {
+    subscriptionId: placement.subscriptionId || "new",
+    clientName: placement.clientName,
+    techId: placement.techId,
+    lat: placement.lat,
+    lng: placement.lng,
+    dogCount: placement.dogCount,
+    frequency: placement.frequency,
+    rule: placement.rule,
+    serviceMinutes: estimateServiceMinutes(placement.dogCount, placement.frequency, model.serviceTime),
+  };
+}
+
+/**
+ * Would putting a subscription on this tech's route (on its rule's weekdays)
+ * push any of those days over capacity?
+ */
+export function checkPlacementCapacity(
+  model: CapacityModel,
+  placement: CapacityPlacement
+): CapacityCheck {
+  const techStops = model.stops.filter(
+    (s) => s.techId === placement.techId && s.subscriptionId !== placement.subscriptionId
+  );
+  techStops.push(placementStop(model, placement));
+
+  const violations = placement.rule.days
+    .map((d) => dayLoad(model, placement.techId, WEEKDAY_KEYS[d], techStops))
+    .filter((load) => load.exceeded.length > 0);
+
+  return buildCheck(model, violations);
+}
+
+/**
+ * Days over capacity if subscriptions were moved as proposed (e.g. a full
+ * reorganization). Each keeps its cadence and takes the new weekday and tech.
+ */
+export function checkReassignmentCapacity(
+  model: CapacityModel,
+  assignments: Array<{ subscriptionId: string; day: string; techId: string }>
+): CapacityCheck {
+  const bySubscription = new Map(assignments.map((a) => [a.subscriptionId, a]));
+  const stops = model.stops.map((stop) => {
+    const assignment = bySubscription.get(stop.subscriptionId);
+    const dayIndex = assignment ? WEEKDAY_KEYS.indexOf(assignment.day) : -1;
+    if (!assignment || dayIndex < 0) return stop;
+    return {
+      ...stop,
+      techId: assignment.techId,
+      rule: { ...stop.rule, days: [dayIndex] },
+    };
+  });
+
+  return buildCheck(
+    model,
+    computeDayLoads(model, stops).filter((load) => load.exceeded.length > 0)
+  );
+}
+
+/** A tech's current load on a weekday, and whether one more weekly yard would overfill it */
+export interface PlacementSlot extends DayLoad {
+  full: boolean;
+}
+
+/**
+ * Every tech × working weekday a new client at this location could go on.
+ * The client is assumed to be a weekly single-dog yard until they sign up.
+ */
+export function placementSlots(
+  model: CapacityModel,
+  location: { lat: number; lng: number }
+): PlacementSlot[] {
+  const slots: PlacementSlot[] = [];
+
+  for (const tech of model.techs) {
+    const techStops = model.stops.filter((s) => s.techId === tech.id);
+    for (const day of capacityDays(model)) {
+      const newStop = placementStop(model, {
+        clientName: "New client",
+        techId: tech.id,
+        rule: { days: [WEEKDAY_KEYS.indexOf(day)], intervalWeeks: 1, anchorWeek: model.weekStart, monthWeeks: null },
+        lat: location.lat,
+        lng: location.lng,
+        dogCount: 1,
+        frequency: "WEEKLY",
+      });
+      const current = dayLoad(model, tech.id, day, techStops);
+      const withNew = dayLoad(model, tech.id, day, [...techStops, newStop]);
+      slots.push({ ...current, full: withNew.exceeded.length > 0 });
+    }
+  }
+
+  return slots;
+}
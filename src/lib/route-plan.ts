@@ -3,6 +3,7 @@
 // the RoutePlanAssignment table, never to Sweep&Go.
 
 import { parseServiceDays } from "@/lib/customer-schedule";
+import { weekParityOf } from "@/lib/recurrence";
 
 // One color per weekday (0=Sun … 6=Sat), tuned to sit alongside the violet admin
 // theme rather than the office app's neon palette.
@@ -77,9 +78,12 @@ export function sprayInfo(
   return { freq: raw === "twice" ? "weekly" : raw };
 }
 
-/** Stable 0/1 parity per customer, for splitting bi-weekly/monthly sprays across
- *  a Week A / Week B view (an estimate — real cadence parity lives in Sweep&Go). */
-export function weekParity(id: string): number {
+/** 0/1 parity per customer, for splitting bi-weekly/monthly sprays across a
+ *  Week A / Week B view. Anchored on the start week (the same Week A/B split the
+ *  recurrence rules and job generation use); customers without a start date
+ *  fall back to a stable hash of the id. */
+export function weekParity(id: string, startDate?: string | null): number {
+  if (startDate) return weekParityOf(startDate.slice(0, 10));
   let h = 0;
   for (let i = 0; i < id.length; i++) h = (h * 31 + id.charCodeAt(i)) | 0;
   return Math.abs(h) % 2;
@@ -0,0 +1,466 @@
+/**
+ * Sales Tax
+ *
+ * Tax rules by jurisdiction (ZIP, city or state) and product category with
+ * effective dates. applySalesTax taxes an invoice's line items from the
+ * client's primary service address; every invoice path calls it after its
+ * items are written and before credits are drawn down. Invoices billed
+ * through Stripe (signup and its initial cleanup fee, subscription renewals
+ * via the invoice.created webhook) are taxed the same way, and the tax is
+ * added to the Stripe invoice as a "sales_tax" line. The most specific
+ * rule wins: ZIP, then city + state, then state. Lines with no category,
+ * tax-exempt clients and addresses no rule covers are not taxed.
+ *
+ * Shared by invoice generation, the office tax rule settings, the client
+ * tax card and the sales tax liability report.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+
+export type TaxCategory = "SERVICE_PLAN" | "ADD_ON" | "CROSS_SELL" | "GIFT_CARD";
+
+export const TAX_CATEGORIES: TaxCategory[] = ["SERVICE_PLAN", "ADD_ON", "CROSS_SELL", "GIFT_CARD"];
+
+export const TAX_CATEGORY_LABELS: Record<TaxCategory, string> = {
+  SERVICE_PLAN: "Service plan",
+  ADD_ON: "Add-on",
+  CROSS_SELL: "Cross-sell",
+  GIFT_CARD: "Gift card",
+};
+
+/** Category for one-off invoice lines that don't say otherwise */
+export const DEFAULT_TAX_CATEGORY: TaxCategory = "ADD_ON";
+
+export class SalesTaxError extends Error {
+  status: number;
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export interface SalesTaxRule {
+  id: string;
+  jurisdiction: string;
+  state: string | null;
+  city: string | null;
+  zipCode: string | null;
+  category: TaxCategory;
+  ratePercent: number;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  notes: string | null;
+}
+
+export interface TaxLocation {
+  zipCode: string | null;
+  city: string | null;
+  state: string | null;
+}
+
+export const TAX_RULE_COLUMNS =
+  "id, jurisdiction, state, city, zip_code, category, rate_percent, effective_from, effective_to, notes";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function mapTaxRule(row: any): SalesTaxRule {
+  return {
+    id: row.id,
+    jurisdiction: row.jurisdiction,
+    state: row.state,
+    city: row.city,
+    zipCode: row.zip_code,
+    category: row.category,
+    ratePercent: Number(row.rate_percent),
+    effectiveFrom: row.effective_from,
+    effectiveTo: row.effective_to,
+    notes: row.notes,
+  };
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Line item category from request input: undefined takes the default,
+ * null or "" marks the line not taxable.
+ */
+export function parseTaxCategory(value: unknown, fallback: TaxCategory | null = DEFAULT_TAX_CATEGORY): TaxCategory | null {
+  if (value === undefined) return fallback;
+  if (value === null || value === "") return null;
+  if (!TAX_CATEGORIES.includes(value as TaxCategory)) {
+    throw new SalesTaxError(`Invalid tax category. Must be one of ${TAX_CATEGORIES.join(", ")}`);
+  }
+  return value as TaxCategory;
+}
+
+/**
+ * Validate a rule from the settings form into a sales_tax_rules row.
+ * With `partial`, only the fields present are checked and returned.
+ */
+export function parseTaxRuleInput(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  body: any,
+  partial = false
+): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  const has = (key: string) => body[key] !== undefined;
+  const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : null);
+
+  if (!partial || has("jurisdiction")) {
+    const jurisdiction = text(body.jurisdiction);
+    if (!jurisdiction) throw new SalesTaxError("Jurisdiction name is required");
+    row.jurisdiction = jurisdiction;
+  }
+  if (!partial || has("state")) row.state = text(body.state)?.toUpperCase() ?? null;
+  if (!partial || has("city")) row.city = text(body.city);
+  if (!partial || has("zipCode")) {
+    const zip = text(body.zipCode);
+    if (zip && !/^\d{5}$/.test(zip)) throw new SalesTaxError("ZIP code must be 5 digits");
+    row.zip_code = zip;
+  }
+  if (!partial || has("category")) {
+    if (!TAX_CATEGORIES.includes(body.category)) {
+      throw new SalesTaxError(`Invalid category. Must be one of ${TAX_CATEGORIES.join(", ")}`);
+    }
+    row.category = body.category;
+  }
+  if (!partial || has("ratePercent")) {
+    const rate = Number(body.ratePercent);
+    if (body.ratePercent === null || body.ratePercent === "" || !Number.isFinite(rate) || rate < 0 || rate > 100) {
+      throw new SalesTaxError("Rate must be a percentage between 0 and 100");
+    }
+    row.rate_percent = Math.round(rate * 1000) / 1000;
+  }
+  if (!partial || has("effectiveFrom")) {
+    if (!DATE_PATTERN.test(body.effectiveFrom || "")) {
+      throw new SalesTaxError("Effective from date (YYYY-MM-DD) is required");
+    }
+    row.effective_from = body.effectiveFrom;
+  }
+  if (!partial || has("effectiveTo")) {
+    const effectiveTo = text(body.effectiveTo);
+    if (effectiveTo && !DATE_PATTERN.test(effectiveTo)) {
+      throw new SalesTaxError("Effective to date must be YYYY-MM-DD");
+    }
+    row.effective_to = effectiveTo;
+  }
+  if (!partial || has("notes")) row.notes = text(body.notes);
+
+  if (!partial) {
+    if (!row.zip_code && !row.city && !row.state) {
+      throw new SalesTaxError("A rule needs a ZIP code, a city and state, or a state");
+    }
+    if (row.city && !row.state) throw new SalesTaxError("A city rule also needs its state");
+    if (row.effective_to && (row.effective_to as string) < (row.effective_from as string)) {
+      throw new SalesTaxError("Effective to date can't be before the effective from date");
+    }
+  }
+
+  return row;
+}
+
+/** Rules in effect on a date (YYYY-MM-DD) */
+export async function loadTaxRules(
+  supabase: SupabaseClient,
+  orgId: string,
+  onDate: string
+): Promise<SalesTaxRule[]> {
+  const { data } = await supabase
+    .from("sales_tax_rules")
+    .select(TAX_RULE_COLUMNS)
+    .eq("org_id", orgId)
+    .lte("effective_from", onDate)
+    .or(`effective_to.is.null,effective_to.gte.${onDate}`);
+
+  return (data || []).map(mapTaxRule);
+}
+
+const same = (a: string | null, b: string | null) =>
+  !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Most specific rule for a location and category. Of two rules at the same
+ * level, the one that took effect latest wins.
+ */
+export function matchTaxRule(
+  rules: SalesTaxRule[],
+  location: TaxLocation,
+  category: TaxCategory
+): SalesTaxRule | null {
+  const zip = location.zipCode?.slice(0, 5) || null;
+  const level = (rule: SalesTaxRule): number => {
+    if (rule.zipCode) return rule.zipCode === zip ? 3 : 0;
+    if (rule.city) return same(rule.city, location.city) && same(rule.state, location.state) ? 2 : 0;
+    return same(rule.state, location.state) ? 1 : 0;
+  };
+
+  let best: SalesTaxRule | null = null;
+  let bestLevel = 0;
+  for (const rule of rules) {
+    if (rule.category !== category) continue;
+    const ruleLevel = level(rule);
+    if (
+      ruleLevel > bestLevel ||
+      (ruleLevel > 0 && ruleLevel === bestLevel && best && rule.effectiveFrom > best.effectiveFrom)
+    ) {
+      best = rule;
+      bestLevel = ruleLevel;
+    }
+  }
+  return best;
+}
+
+export function taxCentsFor(amountCents: number, ratePercent: number): number {
+  return Math.round((amountCents * ratePercent) / 100);
+}
+
+/** Client's primary service address and exemption */
+export async function loadClientTaxProfile(
+  supabase: SupabaseClient,
+  clientId: string
+): Promise<{ location: TaxLocation | null; taxExempt: boolean }> {
+  const [{ data: client }, { data: locations }] = await Promise.all([
+    supabase.from("clients").select("tax_exempt").eq("id", clientId).single(),
+    supabase
+      .from("locations")
+      .select("zip_code, city, state, is_primary")
+      .eq("client_id", clientId)
+      .eq("is_active", true)
+      .order("is_primary", { ascending: false })
+      .order("created_at", { ascending: true })
+      .limit(1),
+  ]);
+
+  const location = locations?.[0];
+  return {
+    location: location ? { zipCode: location.zip_code, city: location.city, state: location.state } : null,
+    taxExempt: client?.tax_exempt === true,
+  };
+}
+
+/**
+ * Cross-sell catalog ids marked not taxable in the org's residential and
+ * commercial cross-sell settings
+ */
+export async function loadNonTaxableCrossSellIds(
+  supabase: SupabaseClient,
+  orgId: string
+): Promise<Set<string>> {
+  const { data: org } = await supabase
+    .from("organizations")
+    .select("settings")
+    .eq("id", orgId)
+    .single();
+
+  const ids = new Set<string>();
+  for (const key of ["residentialCrossSells", "commercialCrossSells"]) {
+    for (const item of org?.settings?.[key]?.items || []) {
+      if (item?.id && item.taxable !== true) ids.add(item.id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Tax an invoice's line items and update its tax, total and amount due.
+ * Safe to run again after the items change.
+ */
+export async function applySalesTax(
+  supabase: SupabaseClient,
+  input: { orgId: string; invoiceId: string }
+): Promise<number> {
+  const { data: invoice } = await supabase
+    .from("invoices")
+    .select("id, client_id, created_at, subtotal_cents, discount_cents, amount_paid_cents")
+    .eq("id", input.invoiceId)
+    .eq("org_id", input.orgId)
+    .single();
+  if (!invoice) throw new SalesTaxError("Invoice not found", 404);
+
+  const { data: items } = await supabase
+    .from("invoice_items")
+    .select("id, total_cents, tax_category, tax_rule_id, tax_cents")
+    .eq("invoice_id", invoice.id);
+
+  const taxDate = (invoice.created_at || new Date().toISOString()).split("T")[0];
+  const [rules, profile] = await Promise.all([
+    loadTaxRules(supabase, input.orgId, taxDate),
+    loadClientTaxProfile(supabase, invoice.client_id),
+  ]);
+
+  const taxed = (items || []).map((item) => {
+    const rule = item.tax_category && !profile.taxExempt && profile.location
+      ? matchTaxRule(rules, profile.location, item.tax_category)
+      : null;
+    return { item, rule, tax: rule ? taxCentsFor(item.total_cents, rule.ratePercent) : 0 };
+  });
+
+  // Credit lines can't take tax below zero: scale their (negative) tax down
+  // so it cancels the rest exactly, keeping the lines summing to the invoice
+  const charged = taxed.reduce((sum, line) => sum + Math.max(0, line.tax), 0);
+  const credited = taxed.reduce((sum, line) => sum - Math.min(0, line.tax), 0);
+  if (credited > charged) {
+    const credits = taxed.filter((line) => line.tax < 0);
+    let remaining = charged;
+    credits.forEach((line, index) => {
+      const share = index === credits.length - 1
+        ? remaining
+        : Math.min(remaining, Math.round((-line.tax * charged) / credited));
+      line.tax = -share;
+      remaining -= share;
+    });
+  }
+
+  let taxCents = 0;
+  for (const { item, rule, tax } of taxed) {
+    taxCents += tax;
+
+    if (tax !== item.tax_cents || (rule?.id ?? null) !== item.tax_rule_id) {
+      await supabase
+        .from("invoice_items")
+        .update({
+          tax_rule_id: rule?.id ?? null,
+          tax_jurisdiction: rule?.jurisdiction ?? null,
+          tax_rate_percent: rule?.ratePercent ?? null,
+          tax_cents: tax,
+        })
+        .eq("id", item.id);
+    }
+  }
+
+  const totalCents = Math.max(0, invoice.subtotal_cents + taxCents - (invoice.discount_cents || 0));
+
+  const { error } = await supabase
+    .from("invoices")
+    .update({
+      tax_cents: taxCents,
+      total_cents: totalCents,
+      amount_due_cents: Math.max(0, totalCents - (invoice.amount_paid_cents || 0)),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", invoice.id);
+  if (error) throw error;
+
+  return taxCents;
+}
+
+/**
+ * The rate each category would be taxed at for a client today
+ */
+export async function getClientTaxRates(
+  supabase: SupabaseClient,
+  orgId: string,
+  clientId: string
+): Promise<{
+  taxExempt: boolean;
+  location: TaxLocation | null;
+  rates: Array<{ category: TaxCategory; jurisdiction: string | null; ratePercent: number }>;
+}> {
+  const today = new Date().toISOString().split("T")[0];
+  const [rules, profile] = await Promise.all([
+    loadTaxRules(supabase, orgId, today),
+    loadClientTaxProfile(supabase, clientId),
+  ]);
+
+  return {
+    taxExempt: profile.taxExempt,
+    location: profile.location,
+    rates: TAX_CATEGORIES.map((category) => {
+      const rule = profile.location && !profile.taxExempt
+        ? matchTaxRule(rules, profile.location, category)
+        : null;
+      return { category, jurisdiction: rule?.jurisdiction ?? null, ratePercent: rule?.ratePercent ?? 0 };
+    }),
+  };
+}
+
+export interface SalesTaxReportRow {
+  period: string; // YYYY-MM
+  jurisdiction: string | null;
+  category: TaxCategory;
+  ratePercent: number | null;
+  taxableSalesCents: number;
+  taxCents: number;
+  invoiceCount: number;
+}
+
+// Invoices that count toward tax liability (billed, whether or not paid)
+const REPORTED_STATUSES = ["OPEN", "PAID", "FAILED"];
+const REPORT_PAGE_SIZE = 1000;
+
+/**
+ * Taxable sales and tax billed per month, jurisdiction and category for
+ * invoices created between two dates (inclusive). Lines in a taxable
+ * category that no rule covered are reported with a null jurisdiction.
+ */
+export async function buildSalesTaxReport(
+  supabase: SupabaseClient,
+  orgId: string,
+  from: string,
+  to: string
+): Promise<{ rows: SalesTaxReportRow[]; totals: { taxableSalesCents: number; taxCents: number } }> {
+  const toExclusive = new Date(`${to}T00:00:00Z`);
+  toExclusive.setUTCDate(toExclusive.getUTCDate() + 1);
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const lines: any[] = [];
+  for (let offset = 0; ; offset += REPORT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("invoice_items")
+      .select(`
+        total_cents, tax_category, tax_jurisdiction, tax_rate_percent, tax_cents, invoice_id,
+        invoice:invoice_id!inner ( created_at, status )
+      `)
+      .eq("org_id", orgId)
+      .not("tax_category", "is", null)
+      .in("invoice.status", REPORTED_STATUSES)
+      .gte("invoice.created_at", `${from}T00:00:00Z`)
+      .lt("invoice.created_at", toExclusive.toISOString())
+      .range(offset, offset + REPORT_PAGE_SIZE - 1);
+    if (error) throw error;
+    lines.push(...(data || []));
+    if (!data || data.length < REPORT_PAGE_SIZE) break;
+  }
+
+  const groups = new Map<string, SalesTaxReportRow & { invoices: Set<string> }>();
+  for (const line of lines) {
+    const invoice = Array.isArray(line.invoice) ? line.invoice[0] : line.invoice;
+    const period = (invoice?.created_at || "").slice(0, 7);
+    const key = `${period}|${line.tax_jurisdiction ?? ""}|${line.tax_category}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        period,
+        jurisdiction: line.tax_jurisdiction,
+        category: line.tax_category,
+        ratePercent: line.tax_rate_percent === null ? null : Number(line.tax_rate_percent),
+        taxableSalesCents: 0,
+        taxCents: 0,
+        invoiceCount: 0,
+        invoices: new Set(),
+      };
+      groups.set(key, group);
+    }
+    // A rate change inside the month leaves no single rate to show
+    const rate = line.tax_rate_percent === null ? null : Number(line.tax_rate_percent);
+    if (group.ratePercent !== rate) group.ratePercent = null;
+    group.taxableSalesCents += line.total_cents;
+    group.taxCents += line.tax_cents || 0;
+    group.invoices.add(line.invoice_id);
+  }
+
+  const rows = Array.from(groups.values())
+    .map(({ invoices, ...row }) => ({ ...row, invoiceCount: invoices.size }))
+    .sort((a, b) =>
+      a.period.localeCompare(b.period) ||
+      (a.jurisdiction ?? "~").localeCompare(b.jurisdiction ?? "~") ||
+      TAX_CATEGORIES.indexOf(a.category) - TAX_CATEGORIES.indexOf(b.category)
+    );
+
+  return {
+    rows,
+    totals: {
+      taxableSalesCents: rows.reduce((sum, row) => sum + row.taxableSalesCents, 0),
+      taxCents: rows.reduce((sum, row) => sum + row.taxCents, 0),
+    },
+  };
+}
@@ -0,0 +1,283 @@
+/**
+ * Service Proof
+ *
+ * What a completed visit has to show, from settings.fieldTechApp.serviceProof:
+ * a minimum number of photos, a gate-closed photo, and how close to the
+ * location's geocode the tech must be when they complete. Completing never
+ * fails on these rules — the check is stored on the job (proof_check) and a
+ * completion that misses one is FLAGGED for the office to review on
+ * /app/office/service-proof, where flags can also be exported for disputes.
+ *
+ * The check-in fix is the GPS position the app sends with the complete
+ * action; without one we fall back to the tech's nearest location ping.
+ * Photos added after completing run the check again.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { calculateAirDistance } from "@/lib/distance-utils";
+import { dismissNotification, notify } from "@/lib/notify";
+
+export interface ServiceProofSettings {
+  /** Photos of any kind the visit needs; 0 turns the rule off */
+  minPhotos: number;
+  requireGatePhoto: boolean;
+  /** How far from the geocode the tech may complete; 0 turns the rule off */
+  maxDistanceMeters: number;
+}
+
+export const DEFAULT_SERVICE_PROOF_SETTINGS: ServiceProofSettings = {
+  minPhotos: 0,
+  requireGatePhoto: false,
+  maxDistanceMeters: 0,
+};
+
+/** Photo type the field app uses for the gate-closed shot */
+export const GATE_PHOTO_TYPE = "gate";
+
+// How far either side of the completion a location ping may be and still count
+const PING_WINDOW_MS = 15 * 60 * 1000;
+// A fix's reported accuracy is allowed as slack, up to this much
+const MAX_ACCURACY_SLACK_METERS = 50;
+
+export type ProofStatus = "OK" | "FLAGGED" | "REVIEWED";
+export type ProofIssueCode = "TOO_FEW_PHOTOS" | "NO_GATE_PHOTO" | "NO_GPS" | "TOO_FAR";
+
+export interface ProofIssue {
+  code: ProofIssueCode;
+  message: string;
+}
+
+export interface ProofCheckin {
+  lat: number;
+  lng: number;
+  accuracy: number | null;
+  at: string;
+  source: "DEVICE" | "PING";
+}
+
+export interface ProofCheck {
+  checkedAt: string;
+  rules: ServiceProofSettings;
+  photoCount: number;
+  gatePhoto: boolean;
+  checkin: ProofCheckin | null;
+  /** Null when there was no fix or the location has no geocode */
+  distanceMeters: number | null;
+  issues: ProofIssue[];
+}
+
+export function getServiceProofSettings(orgSettings: unknown): ServiceProofSettings {
+  const fieldTechApp = (orgSettings as Record<string, unknown> | null)?.fieldTechApp as Record<string, unknown> | undefined;
+  const raw = (fieldTechApp?.serviceProof || {}) as Partial<ServiceProofSettings>;
+  const count = (value: unknown, fallback: number) => {
+    const n = Number(value);
+    return Number.isFinite(n) && n >= 0 ? Math.floor(n) : fallback;
+  };
+  return {
+    minPhotos: count(raw.minPhotos, DEFAULT_SERVICE_PROOF_SETTINGS.minPhotos),
+    requireGatePhoto: raw.requireGatePhoto ?? DEFAULT_SERVICE_PROOF_SETTINGS.requireGatePhoto,
+    maxDistanceMeters: count(raw.maxDistanceMeters, DEFAULT_SERVICE_PROOF_SETTINGS.maxDistanceMeters),
+  };
+}
+
+export async function loadServiceProofSettings(
+  supabase: SupabaseClient,
+  orgId: string
+): Promise<ServiceProofSettings> {
+  const { data: org } = await supabase
+    .from("organizations")
+    .select("settings")
+    .eq("id", orgId)
+    .single();
+  return getServiceProofSettings(org?.settings);
+}
+
+/** The `checkin` fix sent with a complete action, if it is usable */
+export function parseCheckin(raw: unknown, fallbackAt: string): ProofCheckin | null {
+  if (!raw || typeof raw !== "object") return null;
+  const { lat, lng, accuracy, at } = raw as Record<string, unknown>;
+  if (typeof lat !== "number" || typeof lng !== "number") return null;
+  if (lat < -90 || lat > 90 || lng < -180 || lng > 180) return null;
+  return {
+    lat,
+    lng,
+    accuracy: typeof accuracy === "number" && accuracy >= 0 ? accuracy : null,
+    at: typeof at === "string" && !Number.isNaN(Date.parse(at)) ? at : fallbackAt,
+    source: "DEVICE",
+  };
+}
+
+/** The tech's location ping closest to `at`, within PING_WINDOW_MS */
+async function findCheckinPing(
+  supabase: SupabaseClient,
+  userId: string,
+  at: string
+): Promise<ProofCheckin | null> {
+  const t = new Date(at).getTime();
+  const { data: pings } = await supabase
+    .from("staff_locations")
+    .select("lat, lng, accuracy, recorded_at")
+    .eq("user_id", userId)
+    .gte("recorded_at", new Date(t - PING_WINDOW_MS).toISOString())
+    .lte("recorded_at", new Date(t + PING_WINDOW_MS).toISOString())
+    .limit(50);
+
+  let best: ProofCheckin | null = null;
+  let bestGap = Infinity;
+  for (const ping of pings || []) {
+    const gap = Math.abs(new Date(ping.recorded_at).getTime() - t);
+    if (gap < bestGap) {
+      bestGap = gap;
+      best = {
+        lat: Number(ping.lat),
+        lng: Number(ping.lng),
+        accuracy: ping.accuracy != null ? Number(ping.accuracy) : null,
+        at: ping.recorded_at,
+        source: "PING",
+      };
+    }
+  }
+  return best;
+}
+
+/** Check a visit's photos and check-in fix against the rules */
+export function evaluateServiceProof(
+  input: {
+    photos: Array<{ type?: string }>;
+    geocode: { lat: number; lng: number } | null;
+    checkin: ProofCheckin | null;
+  },
+  rules: ServiceProofSettings,
+  now = new Date()
+): ProofCheck {
+  const photoCount = input.photos.length;
+  const gatePhoto = input.photos.some((p) => p.type === GATE_PHOTO_TYPE);
+  const distanceMeters = input.checkin && input.geocode
+    ? Math.round(calculateAirDistance(input.geocode.lat, input.geocode.lng, input.checkin.lat, input.checkin.lng))
+    : null;
+
+  const issues: ProofIssue[] = [];
+  if (rules.minPhotos > 0 && photoCount < rules.minPhotos) {
+    issues.push({
+      code: "TOO_FEW_PHOTOS",
+      message: `${photoCount} of ${rules.minPhotos} required photo${rules.minPhotos === 1 ? "" : "s"}`,
+    });
+  }
+  if (rules.requireGatePhoto && !gatePhoto) {
+    issues.push({ code: "NO_GATE_PHOTO", message: "No gate-closed photo" });
+  }
+  if (rules.maxDistanceMeters > 0 && input.geocode) {
+    if (!input.checkin) {
+      issues.push({ code: "NO_GPS", message: "No GPS fix at completion" });
+    } else if (distanceMeters != null) {
+      const slack = Math.min(input.checkin.accuracy ?? 0, MAX_ACCURACY_SLACK_METERS);
+      if (distanceMeters - slack > rules.maxDistanceMeters) {
+        issues.push({
+          code: "TOO_FAR",
+          message: `Completed ${distanceMeters} m from the property (limit ${rules.maxDistanceMeters} m)`,
+        });
+      }
+    }
+  }
+
+  return {
+    checkedAt: now.toISOString(),
+    rules,
+    photoCount,
+    gatePhoto,
+    checkin: input.checkin,
+    distanceMeters,
+    issues,
+  };
+}
+
+/**
+ * Run the check for a completed job and store it. `checkin` is the fix sent
+ * with the complete action; when absent the job's earlier fix is reused, then
+ * the nearest location ping. A job the office already reviewed keeps its
+ * REVIEWED status.
+ */
+export async function recordServiceProof(
+  supabase: SupabaseClient,
+  jobId: string,
+  options: { checkin?: ProofCheckin | null } = {}
+): Promise<ProofCheck | null> {
+  const { data: job } = await supabase
+    .from("jobs")
+    .select(`
+      id, org_id, status, assigned_to, completed_at, photos, proof_status, proof_check,
+      location:location_id ( address_line1, latitude, longitude )
+    `)
+    .eq("id", jobId)
+    .single();
+
+  if (!job || job.status !== "COMPLETED") return null;
+
+  const previous = job.proof_check as ProofCheck | null;
+  let checkin = options.checkin ?? previous?.checkin ?? null;
+  if (!checkin && job.assigned_to && job.completed_at) {
+    checkin = await findCheckinPing(supabase, job.assigned_to, job.completed_at);
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const locationData = job.location as any;
+  const location = Array.isArray(locationData) ? locationData[0] : locationData;
+  const geocode = location?.latitude != null && location?.longitude != null
+    ? { lat: Number(location.latitude), lng: Number(location.longitude) }
+    : null;
+
+  const rules = await loadServiceProofSettings(supabase, job.org_id);
+  const check = evaluateServiceProof(
+    { photos: (job.photos as Array<{ type?: string }>) || [], geocode, checkin },
+    rules
+  );
+
+  const status: ProofStatus = job.proof_status === "REVIEWED"
+    ? "REVIEWED"
+    : check.issues.length > 0 ? "FLAGGED" : "OK";
+
+  await supabase
+    .from("jobs")
+    .update({ proof_status: status, proof_check: check, updated_at: new Date().toISOString() })
+    .eq("id", jobId);
+
+  if (status === "FLAGGED" && job.proof_status !== "FLAGGED") {
+    await notify({
+      type: "service_proof",
+      severity: "warning",
+      title: "Completion flagged for review",
+      body: `${location?.address_line1 || "A visit"}: ${check.issues.map((i) => i.message).join("; ")}`,
+      link: "/app/office/service-proof",
+      dedupeKey: `service-proof:${jobId}`,
+    });
+  } else if (status === "OK" && job.proof_status === "FLAGGED") {
+    await dismissNotification(`service-proof:${jobId}`);
+  }
+
+  return check;
+}
+
+/** Mark a flagged completion as reviewed by the office */
+export async function reviewServiceProof(
+  supabase: SupabaseClient,
+  input: { orgId: string; jobId: string; userId: string; note: string | null }
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("jobs")
+    .update({
+      proof_status: "REVIEWED",
+      proof_reviewed_at: new Date().toISOString(),
+      proof_reviewed_by: input.userId,
+      proof_review_note: input.note,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", input.jobId)
+    .eq("org_id", input.orgId)
+    .eq("proof_status", "FLAGGED")
+    .select("id");
+
+  if (error) throw error;
+  const reviewed = (data || []).length > 0;
+  if (reviewed) await dismissNotification(`service-proof:${input.jobId}`);
+  return reviewed;
+}
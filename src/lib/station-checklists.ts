@@ -0,0 +1,231 @@
+/**
+ * Station Checklists
+ *
+ * Commercial visits (apartment complexes, HOAs, parks) are counted in pet
+ * stations rather than yards. The tech records how many stations were
+ * serviced, bags restocked and cans emptied with the complete action; the
+ * checklist is stored per job and rolled up into the client's monthly
+ * service report on /app/office/reports/commercial-service.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+
+export interface StationChecklist {
+  stationsTotal: number;
+  stationsServiced: number;
+  bagsRestocked: number;
+  cansEmptied: number;
+  notes: string | null;
+}
+
+export interface CommercialServiceVisit {
+  jobId: string;
+  date: string;
+  status: string;
+  address: string | null;
+  techs: string[];
+  crewMinutes: number;
+  splitIndex: number | null;
+  splitCount: number | null;
+  checklist: StationChecklist | null;
+}
+
+export interface CommercialServiceReport {
+  client: { id: string; name: string; companyName: string | null };
+  month: string;
+  visits: CommercialServiceVisit[];
+  totals: {
+    scheduled: number;
+    completed: number;
+    skipped: number;
+    stationsServiced: number;
+    stationVisits: number;
+    bagsRestocked: number;
+    cansEmptied: number;
+    crewHours: number;
+  };
+}
+
+const MONTH_RE = /^\d{4}-\d{2}$/;
+
+const count = (value: unknown) => {
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : 0;
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const one = (value: any) => (Array.isArray(value) ? value[0] ?? null : value);
+
+/** The `stations` checklist sent with a complete action, if any */
+export function parseStationChecklist(raw: unknown): StationChecklist | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  const checklist: StationChecklist = {
+    stationsTotal: count(r.stationsTotal),
+    stationsServiced: count(r.stationsServiced),
+    bagsRestocked: count(r.bagsRestocked),
+    cansEmptied: count(r.cansEmptied),
+    notes: typeof r.notes === "string" && r.notes.trim() ? r.notes.trim() : null,
+  };
+  checklist.stationsTotal = Math.max(checklist.stationsTotal, checklist.stationsServiced);
+  return checklist;
+}
+
+/** Store the checklist for a job, replacing any earlier one */
+export async function saveStationChecklist(
+  supabase: SupabaseClient,
+  input: { orgId: string; jobId: string; userId: string; checklist: StationChecklist }
+): Promise<void> {
+  const { data: job } = await supabase
+    .from("jobs")
+    .select("client_id, location_id, scheduled_date")
+    .eq("id", input.jobId)
+    .single();
+  if (!job) return;
+
+  const { error } = await supabase.from("job_station_checklists").upsert(
+    {
+      org_id: input.orgId,
+      job_id: input.jobId,
+      client_id: job.client_id,
+      location_id: job.location_id,
+      service_date: job.scheduled_date,
+      stations_total: input.checklist.stationsTotal,
+      stations_serviced: input.checklist.stationsServiced,
+      bags_restocked: input.checklist.bagsRestocked,
+      cans_emptied: input.checklist.cansEmptied,
+      notes: input.checklist.notes,
+      recorded_by: input.userId,
+    },
+    { onConflict: "job_id" }
+  );
+  if (error) throw error;
+}
+
+/** A job's checklist, or the station count from the location's last one as a starting point */
+export async function loadStationChecklist(
+  supabase: SupabaseClient,
+  jobId: string
+): Promise<{ checklist: StationChecklist | null; lastStationsTotal: number | null }> {
+  const { data: job } = await supabase
+    .from("jobs")
+    .select("location_id, checklist:job_station_checklists ( stations_total, stations_serviced, bags_restocked, cans_emptied, notes )")
+    .eq("id", jobId)
+    .single();
+  if (!job) return { checklist: null, lastStationsTotal: null };
+
+  const row = one(job.checklist);
+  if (row) {
+    return {
+      checklist: {
+        stationsTotal: row.stations_total,
+        stationsServiced: row.stations_serviced,
+        bagsRestocked: row.bags_restocked,
+        cansEmptied: row.cans_emptied,
+        notes: row.notes,
+      },
+      lastStationsTotal: row.stations_total,
+    };
+  }
+
+  if (!job.location_id) return { checklist: null, lastStationsTotal: null };
+  const { data: last } = await supabase
+    .from("job_station_checklists")
+    .select("stations_total")
+    .eq("location_id", job.location_id)
+    .order("service_date", { ascending: false })
+    .limit(1);
+  return { checklist: null, lastStationsTotal: last?.[0]?.stations_total ?? null };
+}
+
+/**
+ * Roll up a commercial client's visits for a month (YYYY-MM): each visit's
+ * checklist and crew, plus totals for the month.
+ */
+export async function buildCommercialServiceReport(
+  supabase: SupabaseClient,
+  orgId: string,
+  clientId: string,
+  month: string
+): Promise<CommercialServiceReport | null> {
+  if (!MONTH_RE.test(month)) return null;
+
+  const { data: client } = await supabase
+    .from("clients")
+    .select("id, first_name, last_name, company_name")
+    .eq("id", clientId)
+    .eq("org_id", orgId)
+    .single();
+  if (!client) return null;
+
+  const [year, mon] = month.split("-").map(Number);
+  const from = `${month}-01`;
+  const to = new Date(Date.UTC(year, mon, 0)).toISOString().split("T")[0];
+
+  const { data: jobs } = await supabase
+    .from("jobs")
+    .select(`
+      id, status, scheduled_date, split_index, split_count,
+      assignee:assigned_to ( first_name, last_name ),
+      location:location_id ( address_line1 ),
+      checklist:job_station_checklists ( stations_total, stations_serviced, bags_restocked, cans_emptied, notes ),
+      crew:job_crew_time ( minutes, user:user_id ( first_name, last_name ) )
+    `)
+    .eq("org_id", orgId)
+    .eq("client_id", clientId)
+    .gte("scheduled_date", from)
+    .lte("scheduled_date", to)
+    .in("status", ["COMPLETED", "SKIPPED", "SCHEDULED", "EN_ROUTE", "IN_PROGRESS"])
+    .order("scheduled_date", { ascending: true });
+
+  const name = (u: { first_name?: string; last_name?: string } | null) =>
+    u ? `${u.first_name || ""} ${u.last_name || ""}`.trim() : "";
+
+  const visits: CommercialServiceVisit[] = (jobs || []).map((job) => {
+    const row = one(job.checklist);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const crew = ((job.crew as any[]) || []).map((c) => ({ name: name(one(c.user)), minutes: c.minutes as number }));
+    const lead = name(one(job.assignee));
+    return {
+      jobId: job.id,
+      date: job.scheduled_date,
+      status: job.status,
+      address: one(job.location)?.address_line1 || null,
+      techs: crew.length > 0 ? crew.map((c) => c.name).filter(Boolean) : lead ? [lead] : [],
+      crewMinutes: crew.reduce((sum, c) => sum + c.minutes, 0),
+      splitIndex: job.split_index,
+      splitCount: job.split_count,
+      checklist: row
+        ? {
+            stationsTotal: row.stations_total,
+            stationsServiced: row.stations_serviced,
+            bagsRestocked: row.bags_restocked,
+            cansEmptied: row.cans_emptied,
+            notes: row.notes,
+          }
+        : null,
+    };
+  });
+
+  const checklists = visits.map((v) => v.checklist).filter((c): c is StationChecklist => !!c);
+
+  return {
+    client: {
+      id: client.id,
+      name: `${client.first_name} ${client.last_name || ""}`.trim(),
+      companyName: client.company_name,
+    },
+    month,
+    visits,
+    totals: {
+      scheduled: visits.length,
+      completed: visits.filter((v) => v.status === "COMPLETED").length,
+      skipped: visits.filter((v) => v.status === "SKIPPED").length,
+      stationsServiced: checklists.reduce((sum, c) => sum + c.stationsServiced, 0),
+      stationVisits: checklists.reduce((sum, c) => sum + c.stationsTotal, 0),
+      bagsRestocked: checklists.reduce((sum, c) => sum + c.bagsRestocked, 0),
+      cansEmptied: checklists.reduce((sum, c) => sum + c.cansEmptied, 0),
+      crewHours: Math.round(visits.reduce((sum, v) => sum + v.crewMinutes, 0) / 6) / 10,
+    },
+  };
+}
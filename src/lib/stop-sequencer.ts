@@ -0,0 +1,498 @@
+/**
+ * Stop Sequencer
+ *
+ * Orders the stops on a single route (a small TSP with time windows).
+ * Travel is estimated from air distance (calculateAirDistance) scaled by a road
+ * circuity factor and an average driving speed, unless the caller supplies a
+ * precomputed drive-time matrix.
+ *
+ * Travel between every pair of stops is worked out once per call. The solver
+ * is a nearest-neighbor construction from a few spread-out first stops,
+ * followed by 2-opt and or-opt local search, all within a fixed time budget so
+ * a long route can't stall the request. Late arrivals against a stop's time window are
+ * heavily penalized rather than forbidden, so a route with an impossible window
+ * still gets a sensible order and the violation is reported back.
+ */
+
+import { calculateAirDistance, metersToMiles } from "./distance-utils";
+
+export interface SequencerPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface SequencerStop {
+  id: string;
+  lat: number | null;
+  lng: number | null;
+  /** Expected minutes on site */
+  serviceMinutes: number;
+  /** Earliest start, in minutes after midnight */
+  windowStart?: number | null;
+  /** Latest start, in minutes after midnight */
+  windowEnd?: number | null;
+}
+
+/**
+ * Optional precomputed travel costs between two points (e.g. a cached Google
+ * Distance Matrix). Returning null falls back to the air-distance estimate.
+ */
+export type TravelLookup = (
+  from: SequencerPoint,
+  to: SequencerPoint
+) => { meters: number; minutes: number } | null;
+
+export interface SequencerOptions {
+  /** Where the tech starts the day. Null = route starts at the first stop. */
+  start?: SequencerPoint | null;
+  /** Where the tech ends the day. Null = same as start (or open if no start). */
+  end?: SequencerPoint | null;
+  /** Route start time, in minutes after midnight */
+  startMinutes?: number;
+  /** Average driving speed used for air-distance estimates */
+  avgSpeedMph?: number;
+  /** Multiplier applied to air distance to approximate road distance */
+  circuityFactor?: number;
+  travelLookup?: TravelLookup;
+}
+
+export interface StopArrival {
+  stopId: string;
+  arrivalMinutes: number;
+  departureMinutes: number;
+  waitMinutes: number;
+  lateMinutes: number;
+}
+
+export interface SequenceMetrics {
+  miles: number;
+  driveMinutes: number;
+  serviceMinutes: number;
+  waitMinutes: number;
+  totalMinutes: number;
+  lateMinutes: number;
+  windowViolations: number;
+  arrivals: StopArrival[];
+}
+
+export interface SequenceResult {
+  /** Full stop order, including stops that could not be located */
+  order: string[];
+  /** Stops with no coordinates; kept at the end in their original order */
+  unlocatedStopIds: string[];
+  before: SequenceMetrics;
+  after: SequenceMetrics;
+  /** False when the current order was already at least as good */
+  improved: boolean;
+}
+
+export const DEFAULT_AVG_SPEED_MPH = 25;
+export const DEFAULT_CIRCUITY_FACTOR = 1.3;
+export const DEFAULT_START_MINUTES = 8 * 60;
+
+// A minute late is worth this many minutes of extra driving.
+const LATE_PENALTY = 1000;
+const MAX_IMPROVEMENT_PASSES = 50;
+// Without a start depot, nearest-neighbor runs from this many first stops
+const MAX_START_SEEDS = 4;
+// Wall-clock budget for the whole search; the best order so far is kept
+const SEARCH_BUDGET_MS = 1500;
+
+interface Context {
+  stops: SequencerStop[];
+  start: SequencerPoint | null;
+  end: SequencerPoint | null;
+  startMinutes: number;
+  /** Node index of the start depot in the travel matrix (stops come first) */
+  startNode: number;
+  endNode: number;
+  /** Travel between nodes, row-major over stops + start + end */
+  meters: Float64Array;
+  minutes: Float64Array;
+  size: number;
+}
+
+function buildContext(stops: SequencerStop[], options: SequencerOptions): Context {
+  const speed = options.avgSpeedMph || DEFAULT_AVG_SPEED_MPH;
+  const circuity = options.circuityFactor || DEFAULT_CIRCUITY_FACTOR;
+  const start = options.start ?? null;
+  const end = options.end ?? start;
+
+  const travel = (from: SequencerPoint, to: SequencerPoint) => {
+    const cached = options.travelLookup?.(from, to);
+    if (cached) return cached;
+    const meters = calculateAirDistance(from.lat, from.lng, to.lat, to.lng) * circuity;
+    return { meters, minutes: (metersToMiles(meters) / speed) * 60 };
+  };
+
+  const points: Array<SequencerPoint | null> = [...stops.map(pointOf), start, end];
+  const size = points.length;
+  const meters = new Float64Array(size * size);
+  const minutes = new Float64Array(size * size);
+  for (let from = 0; from < size; from++) {
+    for (let to = 0; to < size; to++) {
+      const a = points[from];
+      const b = points[to];
+      if (from === to || !a || !b) continue;
+      const leg = travel(a, b);
+      meters[from * size + to] = leg.meters;
+      minutes[from * size + to] = leg.minutes;
+    }
+  }
+
+  return {
+    stops,
+    start,
+    end,
+    startMinutes: options.startMinutes ?? DEFAULT_START_MINUTES,
+    startNode: stops.length,
+    endNode: stops.length + 1,
+    meters,
+    minutes,
+    size,
+  };
+}
+
+function legMinutes(ctx: Context, from: number, to: number): number {
+  return ctx.minutes[from * ctx.size + to];
+}
+
+function pointOf(stop: SequencerStop): SequencerPoint {
+  return { lat: stop.lat as number, lng: stop.lng as number };
+}
+
+function isLocated(stop: SequencerStop): boolean {
+  return (
+    typeof stop.lat === "number" &&
+    typeof stop.lng === "number" &&
+    Number.isFinite(stop.lat) &&
+    Number.isFinite(stop.lng)
+  );
+}
+
+/**
+ * Simulate driving a sequence of stops (indices into ctx.stops)
+ */
+function simulate(ctx: Context, sequence: number[]): SequenceMetrics {
+  let clock = ctx.startMinutes;
+  let meters = 0;
+  let driveMinutes = 0;
+  let serviceMinutes = 0;
+  let waitMinutes = 0;
+  let lateMinutes = 0;
+  let windowViolations = 0;
+  const arrivals: StopArrival[] = [];
+
+  let position: number | null = ctx.start ? ctx.startNode : null;
+
+  for (const index of sequence) {
+    const stop = ctx.stops[index];
+
+    if (position !== null) {
+      const leg = position * ctx.size + index;
+      meters += ctx.meters[leg];
+      driveMinutes += ctx.minutes[leg];
+      clock += ctx.minutes[leg];
+    }
+
+    const arrival = clock;
+    let wait = 0;
+    if (stop.windowStart != null && clock < stop.windowStart) {
+      wait = stop.windowStart - clock;
+      clock = stop.windowStart;
+    }
+
+    let late = 0;
+    if (stop.windowEnd != null && clock > stop.windowEnd) {
+      late = clock - stop.windowEnd;
+      windowViolations++;
+    }
+
+    clock += stop.serviceMinutes;
+    serviceMinutes += stop.serviceMinutes;
+    waitMinutes += wait;
+    lateMinutes += late;
+
+    arrivals.push({
+      stopId: stop.id,
+      arrivalMinutes: arrival,
+      departureMinutes: clock,
+      waitMinutes: wait,
+      lateMinutes: late,
+    });
+
+    position = index;
+  }
+
+  if (position !== null && ctx.end && sequence.length > 0) {
+    const leg = position * ctx.size + ctx.endNode;
+    meters += ctx.meters[leg];
+    driveMinutes += ctx.minutes[leg];
+    clock += ctx.minutes[leg];
+  }
+
+  return {
+    miles: metersToMiles(meters),
+    driveMinutes,
+    serviceMinutes,
+    waitMinutes,
+    totalMinutes: clock - ctx.startMinutes,
+    lateMinutes,
+    windowViolations,
+    arrivals,
+  };
+}
+
+/**
+ * Objective minimized by the solver. Service time is constant across orders,
+ * so only driving, waiting and lateness matter.
+ */
+function cost(metrics: SequenceMetrics): number {
+  return metrics.driveMinutes + metrics.waitMinutes + metrics.lateMinutes * LATE_PENALTY;
+}
+
+/** cost(simulate(ctx, sequence)) without building the per-stop arrivals */
+function sequenceCost(ctx: Context, sequence: number[]): number {
+  let clock = ctx.startMinutes;
+  let total = 0;
+  let position: number | null = ctx.start ? ctx.startNode : null;
+
+  for (const index of sequence) {
+    const stop = ctx.stops[index];
+    if (position !== null) {
+      const minutes = legMinutes(ctx, position, index);
+      total += minutes;
+      clock += minutes;
+    }
+    if (stop.windowStart != null && clock < stop.windowStart) {
+      total += stop.windowStart - clock;
+      clock = stop.windowStart;
+    }
+    if (stop.windowEnd != null && clock > stop.windowEnd) {
+      total += (clock - stop.windowEnd) * LATE_PENALTY;
+    }
+    clock += stop.serviceMinutes;
+    position = index;
+  }
+
+  if (position !== null && ctx.end && sequence.length > 0) {
+    total += legMinutes(ctx, position, ctx.endNode);
+  }
+  return total;
+}
+
+function nearestNeighbor(ctx: Context, candidates: number[], first: number | null): number[] {
+  const remaining = new Set(candidates);
+  const sequence: number[] = [];
+  let clock = ctx.startMinutes;
+  let position: number | null = ctx.start ? ctx.startNode : null;
+
+  if (first !== null) {
+    const stop = ctx.stops[first];
+    sequence.push(first);
+    remaining.delete(first);
+    clock = Math.max(clock, stop.windowStart ?? clock) + stop.serviceMinutes;
+    position = first;
+  }
+
+  while (remaining.size > 0) {
+    let best: number | null = null;
+    let bestScore = Infinity;
+
+    for (const index of remaining) {
+      const stop = ctx.stops[index];
+      const travelMinutes = position !== null ? legMinutes(ctx, position, index) : 0;
+      const arrival = clock + travelMinutes;
+      const wait = stop.windowStart != null ? Math.max(0, stop.windowStart - arrival) : 0;
+      const late = stop.windowEnd != null ? Math.max(0, arrival + wait - stop.windowEnd) : 0;
+      // Prefer stops whose window closes soonest when travel is comparable
+      const urgency = stop.windowEnd != null ? Math.max(0, stop.windowEnd - arrival) / 60 : 0;
+      const score = travelMinutes + wait + late * LATE_PENALTY + urgency;
+
+      if (score < bestScore) {
+        bestScore = score;
+        best = index;
+      }
+    }
+
+    const stop = ctx.stops[best as number];
+    const travelMinutes = position !== null ? legMinutes(ctx, position, best as number) : 0;
+    clock = Math.max(clock + travelMinutes, stop.windowStart ?? 0) + stop.serviceMinutes;
+    position = best as number;
+    sequence.push(best as number);
+    remaining.delete(best as number);
+  }
+
+  return sequence;
+}
+
+/**
+ * Improve a sequence with 2-opt segment reversals and or-opt relocations of
+ * 1-3 consecutive stops until no move helps or the deadline passes.
+ */
+function improve(ctx: Context, initial: number[], deadline: number): number[] {
+  let best = initial.slice();
+  let bestCost = sequenceCost(ctx, best);
+  const n = best.length;
+
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    let improved = false;
+
+    // 2-opt: reverse best[i..j]
+    for (let i = 0; i < n - 1; i++) {
+      if (Date.now() > deadline) return best;
+      for (let j = i + 1; j < n; j++) {
+        const candidate = best
+          .slice(0, i)
+          .concat(best.slice(i, j + 1).reverse(), best.slice(j + 1));
+        const candidateCost = sequenceCost(ctx, candidate);
+        if (candidateCost + 1e-6 < bestCost) {
+          best = candidate;
+          bestCost = candidateCost;
+          improved = true;
+        }
+      }
+    }
+
+    // Or-opt: move a segment of 1-3 stops elsewhere
+    for (let size = 1; size <= 3; size++) {
+      for (let i = 0; i + size <= n; i++) {
+        if (Date.now() > deadline) return best;
+        const segment = best.slice(i, i + size);
+        const rest = best.slice(0, i).concat(best.slice(i + size));
+        for (let k = 0; k <= rest.length; k++) {
+          if (k === i) continue;
+          const candidate = rest.slice(0, k).concat(segment, rest.slice(k));
+          const candidateCost = sequenceCost(ctx, candidate);
+          if (candidateCost + 1e-6 < bestCost) {
+            best = candidate;
+            bestCost = candidateCost;
+            improved = true;
+            break;
+          }
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  return best;
+}
+
+/**
+ * First stops for the no-depot search: the current first stop, then each
+ * stop farthest from the ones already picked
+ */
+function spreadSeeds(ctx: Context, stops: number[]): number[] {
+  const seeds = [stops[0]];
+  const nearest = stops.map((index) => legMinutes(ctx, stops[0], index));
+
+  while (seeds.length < Math.min(MAX_START_SEEDS, stops.length)) {
+    let farthest = -1;
+    for (let i = 0; i < stops.length; i++) {
+      if (farthest === -1 || nearest[i] > nearest[farthest]) farthest = i;
+    }
+    if (nearest[farthest] <= 0) break;
+    seeds.push(stops[farthest]);
+    for (let i = 0; i < stops.length; i++) {
+      nearest[i] = Math.min(nearest[i], legMinutes(ctx, stops[farthest], stops[i]));
+    }
+  }
+  return seeds;
+}
+
+/**
+ * Evaluate an existing stop order (stop IDs). Stops without coordinates are
+ * skipped since their travel cannot be estimated.
+ */
+export function evaluateSequence(
+  stops: SequencerStop[],
+  order: string[],
+  options: SequencerOptions = {}
+): SequenceMetrics {
+  const located = stops.filter(isLocated);
+  const ctx = buildContext(located, options);
+  const indexById = new Map(located.map((s, i) => [s.id, i]));
+  const sequence = order
+    .map((id) => indexById.get(id))
+    .filter((i): i is number => i !== undefined);
+  return simulate(ctx, sequence);
+}
+
+/**
+ * Find a good visiting order for the given stops.
+ * `stops` must be passed in their current order; that order is used as the
+ * "before" baseline and is kept if the solver cannot beat it.
+ */
+export function optimizeStopSequence(
+  stops: SequencerStop[],
+  options: SequencerOptions = {}
+): SequenceResult {
+  const located = stops.filter(isLocated);
+  const unlocatedStopIds = stops.filter((s) => !isLocated(s)).map((s) => s.id);
+  const ctx = buildContext(located, options);
+
+  const current = located.map((_, i) => i);
+  const before = simulate(ctx, current);
+
+  let bestSequence = current;
+  let bestCost = cost(before);
+
+  if (located.length > 2 || (located.length === 2 && (ctx.start || ctx.end))) {
+    const deadline = Date.now() + SEARCH_BUDGET_MS;
+
+    // With a start depot there is one natural starting point; without one,
+    // try a few first stops spread across the route.
+    const starts: Array<number | null> = ctx.start ? [null] : spreadSeeds(ctx, current);
+
+    for (const first of starts) {
+      if (Date.now() > deadline) break;
+      const candidate = improve(ctx, nearestNeighbor(ctx, current, first), deadline);
+      const candidateCost = sequenceCost(ctx, candidate);
+      if (candidateCost + 1e-6 < bestCost) {
+        bestSequence = candidate;
+        bestCost = candidateCost;
+      }
+    }
+
+    // Local search from the current order too, so we never do worse than it
+    const polished = improve(ctx, current, deadline);
+    const polishedCost = sequenceCost(ctx, polished);
+    if (polishedCost + 1e-6 < bestCost) {
+      bestSequence = polished;
+      bestCost = polishedCost;
+    }
+  }
+
+  const after = simulate(ctx, bestSequence);
+  const improved = bestSequence.some((index, position) => index !== current[position]);
+
+  return {
+    order: bestSequence.map((i) => located[i].id).concat(unlocatedStopIds),
+    unlocatedStopIds,
+    before,
+    after,
+    improved,
+  };
+}
+
+/**
+ * Parse a Postgres time ("HH:MM" or "HH:MM:SS") into minutes after midnight
+ */
+export function parseTimeToMinutes(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const match = /^(\d{1,2}):(\d{2})/.exec(value);
+  if (!match) return null;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+/**
+ * Format minutes after midnight as a Postgres time ("HH:MM:SS")
+ */
+export function formatMinutesAsTime(minutes: number): string {
+  const clamped = Math.max(0, Math.min(Math.round(minutes), 24 * 60 - 1));
+  const hours = Math.floor(clamped / 60);
+  const mins = clamped % 60;
+  return `${String(hours).padStart(2, "0")}:${String(mins).padStart(2, "0")}:00`;
+}
@@ -418,13 +418,17 @@ export async function finalizeAndSendInvoice(
 }
 
 /**
- * Pay an invoice immediately
+ * Pay an invoice immediately, optionally with a specific payment method
  */
 export async function payInvoice(
-  invoiceId: string
+  invoiceId: string,
+  paymentMethodId?: string
 ): Promise<Stripe.Invoice> {
   const stripe = getStripe();
-  return await stripe.invoices.pay(invoiceId);
+  return await stripe.invoices.pay(
+    invoiceId,
+    paymentMethodId ? { payment_method: paymentMethodId } : undefined
+  );
 }
 
 /**
@@ -473,6 +477,46 @@ export async function confirmPaymentIntent(
   });
 }
 
+/**
+ * Charge a customer's default card off-session (falls back to their first
+ * saved card). Throws if they have no card or the charge is declined.
+ */
+export async function chargeDefaultPaymentMethod(
+  stripeCustomerId: string,
+  amountCents: number,
+  options: { description?: string; metadata?: Record<string, string>; idempotencyKey?: string } = {}
+): Promise<Stripe.PaymentIntent> {
+  const stripe = getStripe();
+  const customer = await stripe.customers.retrieve(stripeCustomerId);
+  if (customer.deleted) {
+    throw new Error("Stripe customer has been deleted");
+  }
+
+  const defaultMethod = customer.invoice_settings?.default_payment_method;
+  let paymentMethodId = typeof defaultMethod === "string" ? defaultMethod : defaultMethod?.id;
+  if (!paymentMethodId) {
+    const [firstCard] = await listPaymentMethods(stripeCustomerId);
+    paymentMethodId = firstCard?.id;
+  }
+  if (!paymentMethodId) {
+    throw new Error("No card on file");
+  }
+
+  return await stripe.paymentIntents.create(
+    {
+      amount: amountCents,
+      currency: "usd",
+      customer: stripeCustomerId,
+      payment_method: paymentMethodId,
+      off_session: true,
+      confirm: true,
+      description: options.description,
+      metadata: options.metadata,
+    },
+    options.idempotencyKey ? { idempotencyKey: options.idempotencyKey } : undefined
+  );
+}
+
 // =====================================================
 // COUPONS AND PROMOTIONS
 // =====================================================
@@ -6,6 +6,17 @@
  */
 
 import { SupabaseClient } from "@supabase/supabase-js";
+import {
+  getHolidayCalendar,
+  resolveServiceDate,
+  buildHolidayMetadata,
+  holidaySkipReason,
+  notifyHolidayChanges,
+  type HolidayJobChange,
+  type ServiceHoliday,
+} from "./holidays";
+import { getActiveHolds, findHoldForDate } from "./vacation-holds";
+import { getSubscriptionRecurrence, isServiceDate } from "./recurrence";
 
 interface Subscription {
   id: string;
@@ -13,13 +24,20 @@ interface Subscription {
   location_id: string;
   frequency: string;
   preferred_day?: string | null;
+  recurrence?: unknown;
+  start_date?: string | null;
+  metadata?: Record<string, unknown> | null;
   price_per_visit_cents: number;
   created_at: string;
   status: string;
 }
 
+// Columns regenerateJobsForSubscription needs, for callers loading the row
+export const SUBSCRIPTION_JOB_COLUMNS =
+  "id, client_id, location_id, frequency, preferred_day, recurrence, start_date, metadata, price_per_visit_cents, created_at, status";
+
 /**
- * Void all future scheduled/en_route jobs for a subscription
+ * Void all future scheduled/en_route/on-hold jobs for a subscription
  * Returns the count of jobs voided
  */
 export async function voidFutureJobsForSubscription(
@@ -40,7 +58,7 @@ export async function voidFutureJobsForSubscription(
     .eq("subscription_id", subscriptionId)
     .eq("org_id", orgId)
     .gte("scheduled_date", today)
-    .in("status", ["SCHEDULED", "EN_ROUTE"])
+    .in("status", ["SCHEDULED", "EN_ROUTE", "ON_HOLD"])
     .select("id");
 
   if (voidError) {
@@ -69,7 +87,9 @@ export async function voidFutureJobsForSubscription(
 }
 
 /**
- * Regenerate jobs for a subscription based on its frequency
+ * Regenerate jobs for a subscription on the dates its recurrence rule services.
+ * Honors the org holiday calendar and client vacation holds the same way
+ * the generate-jobs cron does.
  * Returns the count of jobs generated
  */
 export async function regenerateJobsForSubscription(
@@ -91,72 +111,55 @@ export async function regenerateJobsForSubscription(
   const today = new Date();
   today.setHours(0, 0, 0, 0);
 
-  const getDayOfWeek = (date: Date): string => {
-    const days = ["SUNDAY", "MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY", "SATURDAY"];
-    return days[date.getDay()];
-  };
-
-  const isServiceDay = (
-    date: Date,
-    frequency: string,
-    subscriptionStartDate: Date,
-    preferredDay?: string | null
-  ): boolean => {
-    const dayOfWeek = date.getDay();
-    // Skip Sunday
-    if (dayOfWeek === 0) return false;
-
-    // If preferred day is set, only that day is a service day
-    if (preferredDay) {
-      return getDayOfWeek(date) === preferredDay;
-    }
-
-    // Weekly - any weekday (Mon-Sat)
-    if (frequency === "WEEKLY") {
-      return true;
-    }
-
-    // Biweekly - every other week from subscription start
-    if (frequency === "BIWEEKLY") {
-      const diffTime = date.getTime() - subscriptionStartDate.getTime();
-      const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
-      const weekNumber = Math.floor(diffDays / 7);
-      return weekNumber % 2 === 0;
-    }
+  const recurrence = getSubscriptionRecurrence(subscription);
+  if (!recurrence) {
+    return 0;
+  }
 
-    // Monthly - within 3 days of subscription day of month
-    if (frequency === "MONTHLY") {
-      const subscriptionDayOfMonth = subscriptionStartDate.getDate();
-      const dateDayOfMonth = date.getDate();
-      return Math.abs(dateDayOfMonth - subscriptionDayOfMonth) <= 3;
-    }
+  let generatedCount = 0;
 
-    return false;
+  const toDateStr = (offset: number) => {
+    const d = new Date(today);
+    d.setDate(d.getDate() + offset);
+    return d.toISOString().split("T")[0];
   };
-
-  let generatedCount = 0;
-  const subscriptionStart = new Date(subscription.created_at);
+  const todayStr = toDateStr(0);
+  const calendar = await getHolidayCalendar(supabase, orgId, toDateStr(1), toDateStr(daysAhead));
+  const holidayChanges = new Map<string, { holiday: ServiceHoliday; changes: HolidayJobChange[] }>();
+  const holds = await getActiveHolds(supabase, orgId, toDateStr(1), toDateStr(daysAhead), subscription.client_id);
 
   for (let dayOffset = 1; dayOffset <= daysAhead; dayOffset++) {
     const jobDate = new Date(today);
     jobDate.setDate(jobDate.getDate() + dayOffset);
     const jobDateStr = jobDate.toISOString().split("T")[0];
 
-    if (!isServiceDay(
-      jobDate,
-      subscription.frequency,
-      subscriptionStart,
-      subscription.preferred_day
-    )) {
+    if (!isServiceDate(recurrence, jobDateStr)) {
       continue;
     }
 
+    const { date: serviceDateStr, holiday } = resolveServiceDate(jobDateStr, calendar, todayStr);
+
+    if (holiday && !serviceDateStr) {
+      // Skipped for a holiday - keep a single canceled record explaining why
+      const { data: skippedJobs } = await supabase
+        .from("jobs")
+        .select("id")
+        .eq("subscription_id", subscription.id)
+        .eq("scheduled_date", jobDateStr)
+        .eq("skip_reason", holidaySkipReason(holiday))
+        .limit(1);
+
+      if (skippedJobs && skippedJobs.length > 0) {
+        continue;
+      }
+    }
+
     // Check if job already exists for this date
     const { data: existingJob } = await supabase
       .from("jobs")
       .select("id")
       .eq("subscription_id", subscription.id)
-      .eq("scheduled_date", jobDateStr)
+      .eq("scheduled_date", serviceDateStr || jobDateStr)
       .neq("status", "CANCELED")
       .single();
 
@@ -164,25 +167,55 @@ export async function regenerateJobsForSubscription(
       continue;
     }
 
+    const vacationHold = serviceDateStr
+      ? findHoldForDate(holds, subscription.client_id, subscription.id, serviceDateStr)
+      : null;
+
     // Create the job
-    const { error: jobError } = await supabase.from("jobs").insert({
-      org_id: orgId,
-      subscription_id: subscription.id,
-      client_id: subscription.client_id,
-      location_id: subscription.location_id,
-      scheduled_date: jobDateStr,
-      status: "SCHEDULED",
-      price_cents: subscription.price_per_visit_cents,
-      metadata: {
-        generated_by: "subscription_change",
-        generated_at: new Date().toISOString(),
-        frequency: subscription.frequency,
-      },
-    });
-
-    if (!jobError) {
+    const { data: createdJob, error: jobError } = await supabase
+      .from("jobs")
+      .insert({
+        org_id: orgId,
+        subscription_id: subscription.id,
+        client_id: subscription.client_id,
+        location_id: subscription.location_id,
+        scheduled_date: serviceDateStr || jobDateStr,
+        status: !serviceDateStr ? "CANCELED" : vacationHold ? "ON_HOLD" : "SCHEDULED",
+        skip_reason: holiday && !serviceDateStr ? holidaySkipReason(holiday) : null,
+        price_cents: subscription.price_per_visit_cents,
+        metadata: {
+          generated_by: "subscription_change",
+          generated_at: new Date().toISOString(),
+          frequency: subscription.frequency,
+          ...(holiday && { holiday: buildHolidayMetadata(holiday, jobDateStr) }),
+          ...(vacationHold && { vacation_hold_id: vacationHold.id }),
+        },
+      })
+      .select("id")
+      .single();
+
+    if (jobError) {
+      continue;
+    }
+
+    if (serviceDateStr && !vacationHold) {
       generatedCount++;
     }
+
+    if (holiday && createdJob) {
+      const entry = holidayChanges.get(holiday.id) || { holiday, changes: [] };
+      entry.changes.push({
+        jobId: createdJob.id,
+        clientId: subscription.client_id,
+        originalDate: jobDateStr,
+        newDate: serviceDateStr,
+      });
+      holidayChanges.set(holiday.id, entry);
+    }
+  }
+
+  for (const { holiday, changes } of holidayChanges.values()) {
+    await notifyHolidayChanges(supabase, orgId, holiday, changes);
   }
 
   return generatedCount;
@@ -217,7 +250,7 @@ export async function handleSubscriptionStatusChange(
     // Fetch the subscription to get required fields
     const { data: subscription } = await supabase
       .from("subscriptions")
-      .select("id, client_id, location_id, frequency, preferred_day, price_per_visit_cents, created_at, status")
+      .select(SUBSCRIPTION_JOB_COLUMNS)
       .eq("id", subscriptionId)
       .single();
 
@@ -0,0 +1,375 @@
+/**
+ * Subscription Updates
+ *
+ * The one path for editing a subscription's status, frequency, schedule,
+ * price and billing mode. Used by the office subscription editor (PUT /api/admin/subscriptions)
+ * and by approved client change requests, so both void and regenerate jobs
+ * the same way, and both prorate a plan change made partway through an
+ * invoiced month (see lib/proration).
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { voidFutureJobsForSubscription, regenerateJobsForSubscription } from "./subscription-jobs";
+import {
+  defaultRecurrence,
+  getSubscriptionRecurrence,
+  parseRecurrence,
+  primaryDayKey,
+  WEEKDAY_KEYS,
+  type RecurrenceRule,
+} from "./recurrence";
+import { previewProration, recordProration, type ProrationPreview } from "./proration";
+import { BILLING_MODES, VISIT_CHARGE_BATCHES } from "./visit-billing";
+
+export class SubscriptionUpdateError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "SubscriptionUpdateError";
+    this.status = status;
+  }
+}
+
+export const SUBSCRIPTION_STATUSES = ["ACTIVE", "PAUSED", "CANCELED", "PAST_DUE"];
+export const SUBSCRIPTION_FREQUENCIES = ["WEEKLY", "BIWEEKLY", "MONTHLY", "ONETIME"];
+export const PREFERRED_DAYS = ["MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY", "SATURDAY", "SUNDAY"];
+
+export interface SubscriptionChanges {
+  status?: string;
+  cancel_reason?: string | null;
+  frequency?: string;
+  preferred_day?: string | null;
+  recurrence?: unknown;
+  price_per_visit_cents?: number;
+  /** MONTHLY_FLAT, PER_VISIT or PREPAID_PACK (see lib/visit-billing) */
+  billing_mode?: string;
+  visit_charge_batch?: string;
+  pause_start_date?: string | null;
+  pause_end_date?: string | null;
+  next_service_date?: string | null;
+  notes?: string | null;
+  /** Merged into the existing metadata */
+  metadata?: Record<string, unknown>;
+}
+
+export interface SubscriptionUpdateResult {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  subscription: any;
+  jobsVoided: number;
+  jobsGenerated: number;
+  /** Future jobs moved to the new per-visit price */
+  jobsRepriced: number;
+  /** Charge or credit recorded for the next invoice, if any */
+  proration: ProrationPreview | null;
+}
+
+export interface ProrationOptions {
+  /** First day the new plan applies; defaults to today */
+  effectiveDate?: string | null;
+  changeRequestId?: string | null;
+  userId?: string | null;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** The subscription fields the office editor can change, from a request body */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function subscriptionChangesFromBody(body: any): SubscriptionChanges {
+  return {
+    status: body.status,
+    cancel_reason: body.cancel_reason,
+    frequency: body.frequency,
+    preferred_day: body.preferred_day,
+    recurrence: body.recurrence,
+    price_per_visit_cents: body.price_per_visit_cents,
+    billing_mode: body.billing_mode,
+    visit_charge_batch: body.visit_charge_batch,
+    pause_start_date: body.pause_start_date,
+    pause_end_date: body.pause_end_date,
+    next_service_date: body.next_service_date,
+    notes: body.notes,
+  };
+}
+
+/**
+ * A validated effective_date from request input; undefined means today.
+ * Jobs are voided and regenerated from today, so a change can't take effect
+ * on any other date without the schedule and the proration disagreeing.
+ */
+export function parseEffectiveDate(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string" || !DATE_PATTERN.test(value)) {
+    throw new SubscriptionUpdateError("effective_date must be a YYYY-MM-DD date");
+  }
+  if (value !== new Date().toISOString().split("T")[0]) {
+    throw new SubscriptionUpdateError("Plan changes take effect today; effective_date can only be today");
+  }
+  return value;
+}
+
+interface PlannedUpdate {
+  updates: Record<string, unknown>;
+  needsJobRegeneration: boolean;
+  shouldVoidFutureJobs: boolean;
+  priceChanged: boolean;
+}
+
+/**
+ * Validate changes and work out the row updates and job work they need,
+ * without writing anything
+ */
+function planSubscriptionUpdate(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  existing: any,
+  changes: SubscriptionChanges,
+  options: { regenerate?: boolean } = {}
+): PlannedUpdate {
+  const updates: Record<string, unknown> = {};
+  let needsJobRegeneration = !!options.regenerate;
+  let shouldVoidFutureJobs = false;
+
+  // Status changes
+  if (changes.status !== undefined && changes.status !== existing.status) {
+    if (!SUBSCRIPTION_STATUSES.includes(changes.status)) {
+      throw new SubscriptionUpdateError("Invalid status");
+    }
+    updates.status = changes.status;
+
+    // If pausing or canceling, void future jobs
+    if (changes.status === "PAUSED" || changes.status === "CANCELED") {
+      shouldVoidFutureJobs = true;
+      if (changes.status === "CANCELED") {
+        updates.canceled_at = new Date().toISOString();
+        updates.cancel_reason = changes.cancel_reason || null;
+      }
+    }
+
+    // If reactivating, regenerate jobs
+    if (changes.status === "ACTIVE" && existing.status !== "ACTIVE") {
+      needsJobRegeneration = true;
+    }
+  }
+
+  // Frequency changes
+  if (changes.frequency !== undefined && changes.frequency !== existing.frequency) {
+    if (!SUBSCRIPTION_FREQUENCIES.includes(changes.frequency)) {
+      throw new SubscriptionUpdateError("Invalid frequency");
+    }
+    updates.frequency = changes.frequency;
+    // The old rule's cadence no longer applies; re-derive unless a new rule is sent
+    if (changes.recurrence === undefined) {
+      updates.recurrence = defaultRecurrence(
+        changes.frequency,
+        existing.preferred_day,
+        existing.start_date || existing.created_at.split("T")[0]
+      );
+    }
+    shouldVoidFutureJobs = true;
+    if (existing.status === "ACTIVE" || changes.status === "ACTIVE") {
+      needsJobRegeneration = true;
+    }
+  }
+
+  // Preferred day changes
+  if (changes.preferred_day !== undefined) {
+    if (changes.preferred_day !== null && !PREFERRED_DAYS.includes(changes.preferred_day)) {
+      throw new SubscriptionUpdateError("Invalid preferred_day");
+    }
+    updates.preferred_day = changes.preferred_day;
+    shouldVoidFutureJobs = true;
+    needsJobRegeneration = true;
+
+    // Keep a single-day rule on the new day; multi-day rules are edited via recurrence
+    const current = updates.recurrence !== undefined
+      ? (updates.recurrence as RecurrenceRule | null)
+      : getSubscriptionRecurrence(existing);
+    if (current && current.days.length === 1 && changes.preferred_day) {
+      updates.recurrence = { ...current, days: [WEEKDAY_KEYS.indexOf(changes.preferred_day)] };
+    }
+  }
+
+  // Recurrence rule changes (days, week interval, anchor week, nth weekday)
+  if (changes.recurrence !== undefined) {
+    if (changes.recurrence === null) {
+      updates.recurrence = null;
+    } else {
+      const { rule, error: recurrenceError } = parseRecurrence(changes.recurrence);
+      if (!rule) {
+        throw new SubscriptionUpdateError(recurrenceError || "Invalid recurrence");
+      }
+      updates.recurrence = rule;
+      updates.preferred_day = primaryDayKey(rule);
+    }
+    shouldVoidFutureJobs = true;
+    needsJobRegeneration = true;
+  }
+
+  // Price changes
+  const priceChanged =
+    changes.price_per_visit_cents !== undefined &&
+    changes.price_per_visit_cents !== existing.price_per_visit_cents;
+  if (changes.price_per_visit_cents !== undefined) {
+    updates.price_per_visit_cents = changes.price_per_visit_cents;
+  }
+
+  // Billing mode; switching prorates the rest of a flat-rate month
+  if (changes.billing_mode !== undefined && changes.billing_mode !== existing.billing_mode) {
+    if (!(BILLING_MODES as string[]).includes(changes.billing_mode)) {
+      throw new SubscriptionUpdateError("Invalid billing_mode");
+    }
+    updates.billing_mode = changes.billing_mode;
+  }
+  if (changes.visit_charge_batch !== undefined) {
+    if (!(VISIT_CHARGE_BATCHES as string[]).includes(changes.visit_charge_batch)) {
+      throw new SubscriptionUpdateError("Invalid visit_charge_batch");
+    }
+    updates.visit_charge_batch = changes.visit_charge_batch;
+  }
+
+  // Pause dates
+  if (changes.pause_start_date !== undefined) {
+    updates.pause_start_date = changes.pause_start_date;
+  }
+  if (changes.pause_end_date !== undefined) {
+    updates.pause_end_date = changes.pause_end_date;
+  }
+
+  // Next service date
+  if (changes.next_service_date !== undefined) {
+    updates.next_service_date = changes.next_service_date;
+  }
+
+  // Notes
+  if (changes.notes !== undefined) {
+    updates.notes = changes.notes;
+  }
+
+  // Metadata (merged so unrelated keys survive)
+  if (changes.metadata !== undefined) {
+    updates.metadata = { ...(existing.metadata || {}), ...changes.metadata };
+  }
+
+  return { updates, needsJobRegeneration, shouldVoidFutureJobs, priceChanged };
+}
+
+/**
+ * The proration a change would create, without applying it
+ */
+export async function previewSubscriptionChange(
+  supabase: SupabaseClient,
+  orgId: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  existing: any,
+  changes: SubscriptionChanges,
+  effectiveDate?: string | null
+): Promise<ProrationPreview> {
+  const { updates } = planSubscriptionUpdate(existing, changes);
+  return previewProration(supabase, orgId, existing, { ...existing, ...updates }, effectiveDate);
+}
+
+/**
+ * Apply changes to a subscription row. Pausing or canceling voids future
+ * jobs; schedule changes void and regenerate them; a price change carries
+ * over to jobs already on the schedule. Pass regenerate to top up the
+ * schedule even when nothing schedule-related changed, and prorate to
+ * charge or credit the rest of an already-invoiced month on the next
+ * invoice.
+ */
+export async function updateSubscription(
+  supabase: SupabaseClient,
+  orgId: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  existing: any,
+  changes: SubscriptionChanges,
+  options: { regenerate?: boolean; prorate?: ProrationOptions } = {}
+): Promise<SubscriptionUpdateResult> {
+  const { updates, needsJobRegeneration, shouldVoidFutureJobs, priceChanged } =
+    planSubscriptionUpdate(existing, changes, options);
+
+  // Priced from the jobs on the schedule, so before they're voided
+  const proration = options.prorate
+    ? await previewProration(supabase, orgId, existing, { ...existing, ...updates }, options.prorate.effectiveDate)
+    : null;
+
+  // Void future jobs if needed
+  let jobsVoided = 0;
+  if (shouldVoidFutureJobs) {
+    jobsVoided = await voidFutureJobsForSubscription(
+      supabase,
+      existing.id,
+      orgId,
+      "Subscription changed"
+    );
+  }
+
+  // Update the subscription
+  const { data: subscription, error: updateError } = await supabase
+    .from("subscriptions")
+    .update(updates)
+    .eq("id", existing.id)
+    .select()
+    .single();
+
+  if (updateError || !subscription) {
+    console.error("Error updating subscription:", updateError);
+    throw new SubscriptionUpdateError("Failed to update subscription", 500);
+  }
+
+  // Jobs still on the schedule carry the old price
+  let jobsRepriced = 0;
+  if (priceChanged && !shouldVoidFutureJobs) {
+    const today = new Date().toISOString().split("T")[0];
+    const { data: repriced } = await supabase
+      .from("jobs")
+      .update({ price_cents: subscription.price_per_visit_cents })
+      .eq("subscription_id", existing.id)
+      .eq("org_id", orgId)
+      .gte("scheduled_date", today)
+      .in("status", ["SCHEDULED", "ON_HOLD"])
+      .select("id");
+    jobsRepriced = repriced?.length || 0;
+  }
+
+  // Regenerate jobs if needed
+  let jobsGenerated = 0;
+  if (needsJobRegeneration && subscription.status === "ACTIVE") {
+    jobsGenerated = await regenerateJobsForSubscription(
+      supabase,
+      {
+        id: subscription.id,
+        client_id: subscription.client_id,
+        location_id: subscription.location_id,
+        frequency: subscription.frequency,
+        preferred_day: subscription.preferred_day,
+        recurrence: subscription.recurrence,
+        start_date: subscription.start_date,
+        metadata: subscription.metadata,
+        price_per_visit_cents: subscription.price_per_visit_cents,
+        created_at: subscription.created_at,
+        status: subscription.status,
+      },
+      orgId,
+      14 // Generate 2 weeks ahead
+    );
+  }
+
+  let prorationId: string | null = null;
+  if (proration && options.prorate) {
+    prorationId = await recordProration(supabase, {
+      orgId,
+      subscription,
+      preview: proration,
+      changeRequestId: options.prorate.changeRequestId,
+      userId: options.prorate.userId,
+    });
+  }
+
+  return {
+    subscription,
+    jobsVoided,
+    jobsGenerated,
+    jobsRepriced,
+    proration: prorationId ? proration : null,
+  };
+}
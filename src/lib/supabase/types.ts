@@ -17,16 +17,17 @@ export type UserRole =
 
 export type ClientStatus = "ACTIVE" | "PAUSED" | "CANCELED" | "DELINQUENT";
 export type SubscriptionStatus = "ACTIVE" | "PAUSED" | "CANCELED" | "PAST_DUE";
-export type JobStatus = "SCHEDULED" | "EN_ROUTE" | "IN_PROGRESS" | "COMPLETED" | "SKIPPED" | "CANCELED";
+export type JobStatus = "SCHEDULED" | "EN_ROUTE" | "IN_PROGRESS" | "COMPLETED" | "SKIPPED" | "CANCELED" | "ON_HOLD";
 export type LeadStatus = "NEW" | "CONTACTED" | "QUALIFIED" | "CONVERTED" | "LOST";
 export type LeadSource = "QUOTE_FORM" | "OUT_OF_AREA" | "COMMERCIAL" | "AD_LEAD" | "REFERRAL" | "OTHER";
 export type Frequency = "TWICE_WEEKLY" | "WEEKLY" | "BIWEEKLY" | "MONTHLY" | "ONETIME";
-export type NotificationType = "ON_THE_WAY" | "DAY_AHEAD" | "COMPLETED" | "SKIPPED" | "OFF_SCHEDULE" | "PAYMENT_FAILED" | "WELCOME" | "REMARKETING_SMS" | "REMARKETING_EMAIL";
+export type NotificationType = "ON_THE_WAY" | "DAY_AHEAD" | "COMPLETED" | "SKIPPED" | "OFF_SCHEDULE" | "PAYMENT_FAILED" | "WELCOME" | "REMARKETING_SMS" | "REMARKETING_EMAIL" | "CHANGE_APPLIED";
 export type Channel = "SMS" | "EMAIL";
 export type PayoutMethod = "CHECK" | "ACH" | "VENMO" | "PAYPAL" | "OTHER";
 export type CommissionType = "PERCENTAGE" | "FIXED_AMOUNT";
 export type VendorCostType = "FIXED" | "PER_VISIT";
 export type VendorPayoutStatus = "PENDING" | "PAID" | "CANCELED";
+export type VendorPayoutSource = "MANUAL" | "JOB_ADD_ON" | "CROSS_SELL";
 export type CrossSellType = "RESIDENTIAL" | "COMMERCIAL";
 
 export interface Database {
@@ -856,6 +857,9 @@ export interface Database {
           period_end: string;
           notes: string | null;
           paid_at: string | null;
+          payout_run_id: string | null;
+          statement_sent_at: string | null;
+          statement_sent_to: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -871,6 +875,9 @@ export interface Database {
           period_end: string;
           notes?: string | null;
           paid_at?: string | null;
+          payout_run_id?: string | null;
+          statement_sent_at?: string | null;
+          statement_sent_to?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -886,6 +893,9 @@ export interface Database {
           period_end?: string;
           notes?: string | null;
           paid_at?: string | null;
+          payout_run_id?: string | null;
+          statement_sent_at?: string | null;
+          statement_sent_to?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -896,8 +906,14 @@ export interface Database {
           org_id: string;
           vendor_payout_id: string;
           job_add_on_id: string | null;
+          source: VendorPayoutSource;
+          invoice_id: string | null;
+          invoice_item_id: string | null;
           description: string;
           amount_cents: number;
+          gross_cents: number | null;
+          commission_cents: number | null;
+          released_at: string | null;
           created_at: string;
         };
         Insert: {
@@ -905,8 +921,14 @@ export interface Database {
           org_id: string;
           vendor_payout_id: string;
           job_add_on_id?: string | null;
+          source?: VendorPayoutSource;
+          invoice_id?: string | null;
+          invoice_item_id?: string | null;
           description: string;
           amount_cents: number;
+          gross_cents?: number | null;
+          commission_cents?: number | null;
+          released_at?: string | null;
           created_at?: string;
         };
         Update: {
@@ -914,8 +936,14 @@ export interface Database {
           org_id?: string;
           vendor_payout_id?: string;
           job_add_on_id?: string | null;
+          source?: VendorPayoutSource;
+          invoice_id?: string | null;
+          invoice_item_id?: string | null;
           description?: string;
           amount_cents?: number;
+          gross_cents?: number | null;
+          commission_cents?: number | null;
+          released_at?: string | null;
           created_at?: string;
         };
       };
@@ -0,0 +1,439 @@
+/**
+ * Vacation Holds
+ *
+ * Client-requested service holds over a date range. Visits inside a hold are
+ * kept with status ON_HOLD so dispatch and the field route can show them,
+ * and are released back to SCHEDULED if the hold is canceled. Used by the
+ * client subscription API, the office client API, job generation and the
+ * monthly invoice cron (optional prorated credit).
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+
+export type VacationHoldStatus = "ACTIVE" | "CANCELED";
+export type VacationHoldSource = "CLIENT" | "OFFICE";
+
+export interface VacationHold {
+  id: string;
+  clientId: string;
+  subscriptionId: string | null;
+  startDate: string;
+  endDate: string;
+  reason: string | null;
+  status: VacationHoldStatus;
+  applyCredit: boolean;
+  creditCents: number | null;
+  creditInvoiceId: string | null;
+  source: VacationHoldSource;
+  createdAt: string;
+}
+
+export interface CreateVacationHoldInput {
+  orgId: string;
+  clientId: string;
+  subscriptionId?: string | null;
+  startDate: string;
+  endDate: string;
+  reason?: string | null;
+  applyCredit?: boolean;
+  source: VacationHoldSource;
+  userId: string;
+}
+
+// Longest hold a client can place; longer absences should pause the subscription
+export const MAX_HOLD_DAYS = 90;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const HOLD_COLUMNS =
+  "id, client_id, subscription_id, start_date, end_date, reason, status, apply_credit, credit_cents, credit_invoice_id, source, created_at";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function mapVacationHold(row: any): VacationHold {
+  return {
+    id: row.id,
+    clientId: row.client_id,
+    subscriptionId: row.subscription_id,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    reason: row.reason,
+    status: row.status,
+    applyCredit: row.apply_credit,
+    creditCents: row.credit_cents,
+    creditInvoiceId: row.credit_invoice_id,
+    source: row.source,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Find the active hold covering a date for a subscription, if any
+ */
+export function findHoldForDate(
+  holds: VacationHold[],
+  clientId: string,
+  subscriptionId: string,
+  date: string
+): VacationHold | null {
+  return (
+    holds.find(
+      (hold) =>
+        hold.status === "ACTIVE" &&
+        hold.clientId === clientId &&
+        (!hold.subscriptionId || hold.subscriptionId === subscriptionId) &&
+        hold.startDate <= date &&
+        hold.endDate >= date
+    ) || null
+  );
+}
+
+/**
+ * Load active holds overlapping a date range
+ */
+export async function getActiveHolds(
+  supabase: SupabaseClient,
+  orgId: string,
+  startDate: string,
+  endDate: string,
+  clientId?: string
+): Promise<VacationHold[]> {
+  let query = supabase
+    .from("vacation_holds")
+    .select(HOLD_COLUMNS)
+    .eq("org_id", orgId)
+    .eq("status", "ACTIVE")
+    .lte("start_date", endDate)
+    .gte("end_date", startDate);
+
+  if (clientId) {
+    query = query.eq("client_id", clientId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error fetching vacation holds:", error);
+    return [];
+  }
+
+  return (data || []).map(mapVacationHold);
+}
+
+/**
+ * List a client's holds that haven't ended yet (plus recent ones when includePast)
+ */
+export async function listClientHolds(
+  supabase: SupabaseClient,
+  orgId: string,
+  clientId: string,
+  includePast = false
+): Promise<VacationHold[]> {
+  let query = supabase
+    .from("vacation_holds")
+    .select(HOLD_COLUMNS)
+    .eq("org_id", orgId)
+    .eq("client_id", clientId)
+    .order("start_date", { ascending: false });
+
+  if (!includePast) {
+    query = query
+      .eq("status", "ACTIVE")
+      .gte("end_date", new Date().toISOString().split("T")[0]);
+  }
+
+  const { data, error } = await query.limit(50);
+
+  if (error) {
+    console.error("Error fetching client vacation holds:", error);
+    return [];
+  }
+
+  return (data || []).map(mapVacationHold);
+}
+
+/**
+ * Put scheduled visits inside a hold on hold
+ */
+async function holdScheduledJobs(
+  supabase: SupabaseClient,
+  orgId: string,
+  hold: VacationHold
+): Promise<number> {
+  let query = supabase
+    .from("jobs")
+    .select("id, metadata")
+    .eq("org_id", orgId)
+    .eq("client_id", hold.clientId)
+    .eq("status", "SCHEDULED")
+    .gte("scheduled_date", hold.startDate)
+    .lte("scheduled_date", hold.endDate);
+
+  if (hold.subscriptionId) {
+    query = query.eq("subscription_id", hold.subscriptionId);
+  }
+
+  const { data: jobs, error } = await query;
+
+  if (error) {
+    console.error("Error fetching jobs for vacation hold:", error);
+    return 0;
+  }
+
+  let held = 0;
+  for (const job of jobs || []) {
+    const { error: updateError } = await supabase
+      .from("jobs")
+      .update({
+        status: "ON_HOLD",
+        metadata: { ...(job.metadata || {}), vacation_hold_id: hold.id },
+      })
+      .eq("id", job.id);
+
+    if (!updateError) held++;
+  }
+
+  return held;
+}
+
+/**
+ * Release upcoming visits held by a hold back to SCHEDULED
+ */
+async function releaseHeldJobs(
+  supabase: SupabaseClient,
+  orgId: string,
+  hold: VacationHold
+): Promise<number> {
+  const today = new Date().toISOString().split("T")[0];
+
+  const { data: jobs, error } = await supabase
+    .from("jobs")
+    .select("id, metadata")
+    .eq("org_id", orgId)
+    .eq("status", "ON_HOLD")
+    .eq("metadata->>vacation_hold_id", hold.id)
+    .gte("scheduled_date", today);
+
+  if (error) {
+    console.error("Error fetching held jobs:", error);
+    return 0;
+  }
+
+  let released = 0;
+  for (const job of jobs || []) {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { vacation_hold_id, ...metadata } = job.metadata || {};
+    const { error: updateError } = await supabase
+      .from("jobs")
+      .update({ status: "SCHEDULED", metadata })
+      .eq("id", job.id);
+
+    if (!updateError) released++;
+  }
+
+  return released;
+}
+
+/**
+ * Validate and create a hold, then hold any visits already scheduled in it.
+ * Returns an error message instead of throwing for validation failures.
+ */
+export async function createVacationHold(
+  supabase: SupabaseClient,
+  input: CreateVacationHoldInput
+): Promise<{ hold?: VacationHold; jobsHeld?: number; error?: string }> {
+  const { startDate, endDate } = input;
+  const today = new Date().toISOString().split("T")[0];
+
+  if (!DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate)) {
+    return { error: "Start and end dates must be YYYY-MM-DD" };
+  }
+  if (endDate < startDate) {
+    return { error: "End date must be on or after the start date" };
+  }
+  if (startDate < today) {
+    return { error: "Holds can't start in the past" };
+  }
+
+  const days =
+    (new Date(`${endDate}T00:00:00Z`).getTime() - new Date(`${startDate}T00:00:00Z`).getTime()) /
+      (24 * 60 * 60 * 1000) +
+    1;
+  if (days > MAX_HOLD_DAYS) {
+    return { error: `Holds can be at most ${MAX_HOLD_DAYS} days. Pause the subscription for longer breaks.` };
+  }
+
+  // Overlapping holds would fight over the same visits
+  const overlapping = await getActiveHolds(supabase, input.orgId, startDate, endDate, input.clientId);
+  const conflict = overlapping.find(
+    (h) => !h.subscriptionId || !input.subscriptionId || h.subscriptionId === input.subscriptionId
+  );
+  if (conflict) {
+    return { error: `This overlaps an existing hold (${conflict.startDate} to ${conflict.endDate})` };
+  }
+
+  // Clients can't choose; fall back to the org's billing setting
+  let applyCredit = input.applyCredit;
+  if (applyCredit === undefined) {
+    const { data: org } = await supabase
+      .from("organizations")
+      .select("settings")
+      .eq("id", input.orgId)
+      .single();
+    applyCredit = org?.settings?.billing?.vacationHoldCredit === true;
+  }
+
+  const { data: row, error } = await supabase
+    .from("vacation_holds")
+    .insert({
+      org_id: input.orgId,
+      client_id: input.clientId,
+      subscription_id: input.subscriptionId || null,
+      start_date: startDate,
+      end_date: endDate,
+      reason: input.reason?.trim() || null,
+      apply_credit: applyCredit,
+      source: input.source,
+      created_by: input.userId,
+    })
+    .select(HOLD_COLUMNS)
+    .single();
+
+  if (error || !row) {
+    console.error("Error creating vacation hold:", error);
+    return { error: "Failed to create vacation hold" };
+  }
+
+  const hold = mapVacationHold(row);
+  const jobsHeld = await holdScheduledJobs(supabase, input.orgId, hold);
+
+  await supabase.from("activity_logs").insert({
+    org_id: input.orgId,
+    user_id: input.userId,
+    action: "VACATION_HOLD_CREATED",
+    entity_type: "CLIENT",
+    entity_id: input.clientId,
+    details: {
+      holdId: hold.id,
+      startDate,
+      endDate,
+      subscriptionId: hold.subscriptionId,
+      source: input.source,
+      jobsHeld,
+    },
+  });
+
+  return { hold, jobsHeld };
+}
+
+/**
+ * Cancel a hold and release its upcoming visits
+ */
+export async function cancelVacationHold(
+  supabase: SupabaseClient,
+  orgId: string,
+  clientId: string,
+  holdId: string,
+  userId: string
+): Promise<{ jobsReleased?: number; error?: string; status?: number }> {
+  const { data: row } = await supabase
+    .from("vacation_holds")
+    .select(HOLD_COLUMNS)
+    .eq("id", holdId)
+    .eq("org_id", orgId)
+    .eq("client_id", clientId)
+    .single();
+
+  if (!row) {
+    return { error: "Vacation hold not found", status: 404 };
+  }
+
+  const hold = mapVacationHold(row);
+  if (hold.status !== "ACTIVE") {
+    return { error: "Vacation hold is already canceled", status: 400 };
+  }
+
+  const { error } = await supabase
+    .from("vacation_holds")
+    .update({ status: "CANCELED", canceled_at: new Date().toISOString() })
+    .eq("id", holdId);
+
+  if (error) {
+    console.error("Error canceling vacation hold:", error);
+    return { error: "Failed to cancel vacation hold", status: 500 };
+  }
+
+  const jobsReleased = await releaseHeldJobs(supabase, orgId, hold);
+
+  await supabase.from("activity_logs").insert({
+    org_id: orgId,
+    user_id: userId,
+    action: "VACATION_HOLD_CANCELED",
+    entity_type: "CLIENT",
+    entity_id: clientId,
+    details: { holdId, jobsReleased },
+  });
+
+  return { jobsReleased };
+}
+
+/**
+ * Prorated credit for holds that have ended and not yet been credited:
+ * the price of each visit the hold kept on hold. Returned holds should be
+ * marked with markHoldsCredited once the invoice exists.
+ */
+export async function getPendingHoldCredits(
+  supabase: SupabaseClient,
+  orgId: string,
+  clientId: string,
+  beforeDate: string
+): Promise<{ hold: VacationHold; visits: number; creditCents: number }[]> {
+  const { data: rows, error } = await supabase
+    .from("vacation_holds")
+    .select(HOLD_COLUMNS)
+    .eq("org_id", orgId)
+    .eq("client_id", clientId)
+    .eq("status", "ACTIVE")
+    .eq("apply_credit", true)
+    .is("credit_invoice_id", null)
+    .or("credit_cents.is.null,credit_cents.gt.0")
+    .lt("end_date", beforeDate);
+
+  if (error) {
+    console.error("Error fetching holds to credit:", error);
+    return [];
+  }
+
+  const credits: { hold: VacationHold; visits: number; creditCents: number }[] = [];
+
+  for (const row of rows || []) {
+    const hold = mapVacationHold(row);
+    const { data: heldJobs } = await supabase
+      .from("jobs")
+      .select("price_cents")
+      .eq("org_id", orgId)
+      .eq("status", "ON_HOLD")
+      .eq("metadata->>vacation_hold_id", hold.id);
+
+    const creditCents = (heldJobs || []).reduce((sum, job) => sum + (job.price_cents || 0), 0);
+    credits.push({ hold, visits: (heldJobs || []).length, creditCents });
+  }
+
+  return credits;
+}
+
+/**
+ * Stamp holds with what they were credited. A hold with nothing to credit is
+ * marked with zero and no invoice so it isn't picked up again.
+ */
+export async function markHoldsCredited(
+  supabase: SupabaseClient,
+  credits: { hold: VacationHold; creditCents: number }[],
+  invoiceId: string | null
+): Promise<void> {
+  for (const { hold, creditCents } of credits) {
+    await supabase
+      .from("vacation_holds")
+      .update({ credit_cents: creditCents, credit_invoice_id: invoiceId })
+      .eq("id", hold.id);
+  }
+}
@@ -0,0 +1,630 @@
+/**
+ * Vendor Payout Runs
+ *
+ * Drafts vendor payouts for a period from the work each vendor fulfilled:
+ *   - Completed job add-ons, paid to the add-on's default vendor link
+ *   - Cross-sell lines on invoices paid in the period, paid to the vendor
+ *     assigned to the client's cross-sell (or the cross-sell's default link)
+ *
+ * The vendor's commission (a percentage in basis points of the billed
+ * amount, or a fixed amount per unit) is withheld from each line and the
+ * remainder becomes a payout item linked to its source invoice. A source
+ * line only ever sits on one live payout item, so reruns and overlapping
+ * periods never pay it twice; canceling a payout releases its items.
+ *
+ * Statements are emailed to the vendor as a CSV attachment.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { sendEmail, wrapEmailHtml } from "@/lib/resend";
+
+export type PayoutSource = "MANUAL" | "JOB_ADD_ON" | "CROSS_SELL";
+
+export const PAYOUT_SOURCE_LABELS: Record<PayoutSource, string> = {
+  MANUAL: "Manual",
+  JOB_ADD_ON: "Add-on",
+  CROSS_SELL: "Cross-sell",
+};
+
+export class VendorPayoutError extends Error {
+  status: number;
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export interface PayableLine {
+  source: Exclude<PayoutSource, "MANUAL">;
+  jobAddOnId: string | null;
+  invoiceItemId: string | null;
+  invoiceId: string | null;
+  invoiceNumber: string | null;
+  description: string;
+  workDate: string | null;
+  quantity: number;
+  grossCents: number;
+  commissionCents: number;
+  amountCents: number;
+}
+
+export interface VendorPayoutDraft {
+  vendorId: string;
+  vendorName: string;
+  vendorEmail: string | null;
+  payoutMethod: string | null;
+  lines: PayableLine[];
+  grossCents: number;
+  commissionCents: number;
+  amountCents: number;
+}
+
+/** Work in the period that couldn't be attributed to a single vendor */
+export interface UnassignedLine {
+  source: Exclude<PayoutSource, "MANUAL">;
+  description: string;
+  reason: string;
+}
+
+interface VendorRow {
+  id: string;
+  name: string;
+  email: string | null;
+  payout_method: string | null;
+  commission_type: "PERCENTAGE" | "FIXED_AMOUNT";
+  commission_value: number;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const IN_CHUNK_SIZE = 200;
+
+/** Validate a payout period from request input */
+export function parsePayoutPeriod(body: Record<string, unknown>): { periodStart: string; periodEnd: string } {
+  const periodStart = body.periodStart ?? body.period_start;
+  const periodEnd = body.periodEnd ?? body.period_end;
+  if (typeof periodStart !== "string" || !DATE_PATTERN.test(periodStart)) {
+    throw new VendorPayoutError("periodStart must be a YYYY-MM-DD date");
+  }
+  if (typeof periodEnd !== "string" || !DATE_PATTERN.test(periodEnd)) {
+    throw new VendorPayoutError("periodEnd must be a YYYY-MM-DD date");
+  }
+  if (periodEnd < periodStart) {
+    throw new VendorPayoutError("periodEnd must be on or after periodStart");
+  }
+  return { periodStart, periodEnd };
+}
+
+/** Commission withheld from a line, never more than the line itself */
+export function commissionCentsFor(
+  vendor: Pick<VendorRow, "commission_type" | "commission_value">,
+  grossCents: number,
+  quantity: number
+): number {
+  if (grossCents <= 0) return 0;
+  const commission = vendor.commission_type === "FIXED_AMOUNT"
+    ? vendor.commission_value * Math.max(1, quantity)
+    : Math.round((grossCents * vendor.commission_value) / 10000);
+  return Math.min(grossCents, Math.max(0, commission));
+}
+
+function endExclusive(periodEnd: string): string {
+  const end = new Date(`${periodEnd}T00:00:00Z`);
+  end.setUTCDate(end.getUTCDate() + 1);
+  return end.toISOString();
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function one(value: any) {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function clientName(client: any): string {
+  if (!client) return "";
+  return client.company_name || [client.first_name, client.last_name].filter(Boolean).join(" ");
+}
+
+/** Pick the vendor for a catalog item: its default link, or its only link */
+function pickLinkedVendor(links: { vendor_id: string; is_default: boolean }[]): string | null {
+  const defaultLink = links.find((link) => link.is_default);
+  if (defaultLink) return defaultLink.vendor_id;
+  return links.length === 1 ? links[0].vendor_id : null;
+}
+
+/** IDs among `ids` already on a live (unreleased) payout item */
+async function loadPaidSourceIds(
+  supabase: SupabaseClient,
+  column: "job_add_on_id" | "invoice_item_id",
+  ids: string[]
+): Promise<Set<string>> {
+  const paid = new Set<string>();
+  for (let i = 0; i < ids.length; i += IN_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from("vendor_payout_items")
+      .select(column)
+      .in(column, ids.slice(i, i + IN_CHUNK_SIZE))
+      .is("released_at", null);
+    if (error) throw error;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    for (const row of (data || []) as any[]) paid.add(row[column]);
+  }
+  return paid;
+}
+
+/**
+ * Everything owed to vendors for a period that isn't already on a payout,
+ * grouped by vendor. Nothing is written.
+ */
+export async function findPayableWork(
+  supabase: SupabaseClient,
+  opts: { orgId: string; periodStart: string; periodEnd: string; vendorId?: string | null }
+): Promise<{ drafts: VendorPayoutDraft[]; unassigned: UnassignedLine[] }> {
+  const { orgId, periodStart, periodEnd } = opts;
+  const from = `${periodStart}T00:00:00Z`;
+  const to = endExclusive(periodEnd);
+
+  const { data: vendorRows, error: vendorError } = await supabase
+    .from("vendors")
+    .select("id, name, email, payout_method, commission_type, commission_value")
+    .eq("org_id", orgId);
+  if (vendorError) throw vendorError;
+  const vendors = new Map<string, VendorRow>((vendorRows || []).map((v: VendorRow) => [v.id, v]));
+
+  const owed: { vendorId: string; line: Omit<PayableLine, "commissionCents" | "amountCents"> }[] = [];
+  const unassigned: UnassignedLine[] = [];
+
+  // Completed job add-ons
+  const { data: addOnRows, error: addOnError } = await supabase
+    .from("job_add_ons")
+    .select(`
+      id, add_on_id, job_id, quantity, price_cents,
+      add_on:add_on_id ( name ),
+      job:job_id!inner ( status, completed_at, client:client_id ( first_name, last_name, company_name ) )
+    `)
+    .eq("org_id", orgId)
+    .eq("completed", true)
+    .eq("job.status", "COMPLETED")
+    .gte("job.completed_at", from)
+    .lt("job.completed_at", to);
+  if (addOnError) throw addOnError;
+
+  const jobAddOns = addOnRows || [];
+  if (jobAddOns.length > 0) {
+    const paidAddOns = await loadPaidSourceIds(supabase, "job_add_on_id", jobAddOns.map((row) => row.id));
+    const addOnIds = Array.from(new Set(jobAddOns.map((row) => row.add_on_id)));
+    const jobIds = Array.from(new Set(jobAddOns.map((row) => row.job_id)));
+
+    const { data: links } = await supabase
+      .from("add_on_vendor_links")
+      .select("add_on_id, vendor_id, is_default")
+      .eq("org_id", orgId)
+      .eq("is_active", true)
+      .in("add_on_id", addOnIds);
+    const linksByAddOn = new Map<string, { vendor_id: string; is_default: boolean }[]>();
+    for (const link of links || []) {
+      linksByAddOn.set(link.add_on_id, [...(linksByAddOn.get(link.add_on_id) || []), link]);
+    }
+
+    // The invoice a job was billed on, for the statement's back-reference
+    const { data: jobItems } = await supabase
+      .from("invoice_items")
+      .select("job_id, invoice_id, invoice:invoice_id!inner ( invoice_number, status )")
+      .eq("org_id", orgId)
+      .neq("invoice.status", "VOID")
+      .in("job_id", jobIds);
+    const invoiceByJob = new Map<string, { id: string; number: string | null }>();
+    for (const item of jobItems || []) {
+      if (!invoiceByJob.has(item.job_id)) {
+        invoiceByJob.set(item.job_id, { id: item.invoice_id, number: one(item.invoice)?.invoice_number ?? null });
+      }
+    }
+
+    for (const row of jobAddOns) {
+      if (paidAddOns.has(row.id)) continue;
+      const job = one(row.job);
+      const name = one(row.add_on)?.name || "Add-on";
+      const who = clientName(one(job?.client));
+      const workDate = job?.completed_at ? String(job.completed_at).slice(0, 10) : null;
+      const description = `${name}${who ? ` - ${who}` : ""}${workDate ? ` (${workDate})` : ""}`;
+
+      const vendorId = pickLinkedVendor(linksByAddOn.get(row.add_on_id) || []);
+      if (!vendorId || !vendors.has(vendorId)) {
+        unassigned.push({
+          source: "JOB_ADD_ON",
+          description,
+          reason: (linksByAddOn.get(row.add_on_id) || []).length > 1
+            ? "Several vendors linked and none is the default"
+            : "No vendor linked to this add-on",
+        });
+        continue;
+      }
+
+      const quantity = row.quantity || 1;
+      const invoice = invoiceByJob.get(row.job_id);
+      owed.push({
+        vendorId,
+        line: {
+          source: "JOB_ADD_ON",
+          jobAddOnId: row.id,
+          invoiceItemId: null,
+          invoiceId: invoice?.id ?? null,
+          invoiceNumber: invoice?.number ?? null,
+          description,
+          workDate,
+          quantity,
+          grossCents: row.price_cents * quantity,
+        },
+      });
+    }
+  }
+
+  // Cross-sell lines on invoices paid in the period
+  const { data: crossSellRows, error: crossSellError } = await supabase
+    .from("invoice_items")
+    .select(`
+      id, invoice_id, description, quantity, total_cents,
+      cross_sell:client_cross_sell_id!inner ( cross_sell_id, vendor_id, client:client_id ( first_name, last_name, company_name ) ),
+      invoice:invoice_id!inner ( invoice_number, status, paid_at )
+    `)
+    .eq("org_id", orgId)
+    .eq("invoice.status", "PAID")
+    .gte("invoice.paid_at", from)
+    .lt("invoice.paid_at", to);
+  if (crossSellError) throw crossSellError;
+
+  const crossSellItems = crossSellRows || [];
+  if (crossSellItems.length > 0) {
+    const paidItems = await loadPaidSourceIds(supabase, "invoice_item_id", crossSellItems.map((row) => row.id));
+    const catalogIds = Array.from(new Set(crossSellItems.map((row) => one(row.cross_sell)?.cross_sell_id).filter(Boolean)));
+
+    const { data: links } = await supabase
+      .from("cross_sell_vendor_links")
+      .select("cross_sell_id, vendor_id, is_default")
+      .eq("org_id", orgId)
+      .eq("is_active", true)
+      .in("cross_sell_id", catalogIds);
+    const linksByCrossSell = new Map<string, { vendor_id: string; is_default: boolean }[]>();
+    for (const link of links || []) {
+      linksByCrossSell.set(link.cross_sell_id, [...(linksByCrossSell.get(link.cross_sell_id) || []), link]);
+    }
+
+    for (const row of crossSellItems) {
+      if (paidItems.has(row.id)) continue;
+      const crossSell = one(row.cross_sell);
+      const invoice = one(row.invoice);
+      const who = clientName(one(crossSell?.client));
+      const workDate = invoice?.paid_at ? String(invoice.paid_at).slice(0, 10) : null;
+      const description = `${row.description}${who ? ` - ${who}` : ""}`;
+
+      const vendorId = crossSell?.vendor_id || pickLinkedVendor(linksByCrossSell.get(crossSell?.cross_sell_id) || []);
+      if (!vendorId || !vendors.has(vendorId)) {
+        unassigned.push({
+          source: "CROSS_SELL",
+          description,
+          reason: "No vendor assigned to this cross-sell",
+        });
+        continue;
+      }
+
+      owed.push({
+        vendorId,
+        line: {
+          source: "CROSS_SELL",
+          jobAddOnId: null,
+          invoiceItemId: row.id,
+          invoiceId: row.invoice_id,
+          invoiceNumber: invoice?.invoice_number ?? null,
+          description,
+          workDate,
+          quantity: row.quantity || 1,
+          grossCents: row.total_cents,
+        },
+      });
+    }
+  }
+
+  const drafts = new Map<string, VendorPayoutDraft>();
+  for (const { vendorId, line } of owed) {
+    if (opts.vendorId && vendorId !== opts.vendorId) continue;
+    const vendor = vendors.get(vendorId)!;
+    const commissionCents = commissionCentsFor(vendor, line.grossCents, line.quantity);
+    const amountCents = Math.max(0, line.grossCents - commissionCents);
+
+    let draft = drafts.get(vendorId);
+    if (!draft) {
+      draft = {
+        vendorId,
+        vendorName: vendor.name,
+        vendorEmail: vendor.email,
+        payoutMethod: vendor.payout_method,
+        lines: [],
+        grossCents: 0,
+        commissionCents: 0,
+        amountCents: 0,
+      };
+      drafts.set(vendorId, draft);
+    }
+    draft.lines.push({ ...line, commissionCents, amountCents });
+    draft.grossCents += line.grossCents;
+    draft.commissionCents += commissionCents;
+    draft.amountCents += amountCents;
+  }
+
+  return {
+    drafts: Array.from(drafts.values())
+      .filter((draft) => draft.amountCents > 0)
+      .map((draft) => ({
+        ...draft,
+        lines: draft.lines.sort((a, b) => (a.workDate ?? "").localeCompare(b.workDate ?? "")),
+      }))
+      .sort((a, b) => a.vendorName.localeCompare(b.vendorName)),
+    unassigned,
+  };
+}
+
+export interface PayoutRunResult {
+  runId: string;
+  payouts: { payoutId: string; vendorId: string; vendorName: string; amountCents: number; itemCount: number; statementSentTo: string | null }[];
+  skipped: { vendorName: string; reason: string }[];
+  unassigned: UnassignedLine[];
+  totalCents: number;
+  statementsSent: number;
+}
+
+/**
+ * Draft a PENDING payout per vendor for the period and optionally email
+ * each vendor its statement. Lines another run claims first are dropped
+ * by the live-item unique indexes and that vendor is reported as skipped.
+ */
+export async function runVendorPayouts(
+  supabase: SupabaseClient,
+  opts: {
+    orgId: string;
+    periodStart: string;
+    periodEnd: string;
+    vendorId?: string | null;
+    sendStatements?: boolean;
+    userId?: string | null;
+  }
+): Promise<PayoutRunResult> {
+  const { drafts, unassigned } = await findPayableWork(supabase, opts);
+  if (drafts.length === 0) {
+    throw new VendorPayoutError("Nothing is owed to vendors for this period", 422);
+  }
+
+  const { data: run, error: runError } = await supabase
+    .from("vendor_payout_runs")
+    .insert({
+      org_id: opts.orgId,
+      period_start: opts.periodStart,
+      period_end: opts.periodEnd,
+      created_by: opts.userId ?? null,
+    })
+    .select("id")
+    .single();
+  if (runError || !run) throw runError || new Error("Failed to create payout run");
+
+  const result: PayoutRunResult = {
+    runId: run.id,
+    payouts: [],
+    skipped: [],
+    unassigned,
+    totalCents: 0,
+    statementsSent: 0,
+  };
+
+  for (const draft of drafts) {
+    const { data: payout, error: payoutError } = await supabase
+      .from("vendor_payouts")
+      .insert({
+        org_id: opts.orgId,
+        vendor_id: draft.vendorId,
+        amount_cents: draft.amountCents,
+        status: "PENDING",
+        payout_method: draft.payoutMethod,
+        period_start: opts.periodStart,
+        period_end: opts.periodEnd,
+        payout_run_id: run.id,
+        notes: `${draft.lines.length} line${draft.lines.length !== 1 ? "s" : ""}, ` +
+          `${formatCents(draft.grossCents)} billed less ${formatCents(draft.commissionCents)} commission`,
+      })
+      .select("id")
+      .single();
+
+    if (payoutError || !payout) {
+      result.skipped.push({ vendorName: draft.vendorName, reason: payoutError?.message || "Failed to create payout" });
+      continue;
+    }
+
+    const { error: itemsError } = await supabase.from("vendor_payout_items").insert(
+      draft.lines.map((line) => ({
+        org_id: opts.orgId,
+        vendor_payout_id: payout.id,
+        source: line.source,
+        job_add_on_id: line.jobAddOnId,
+        invoice_item_id: line.invoiceItemId,
+        invoice_id: line.invoiceId,
+        description: line.description,
+        gross_cents: line.grossCents,
+        commission_cents: line.commissionCents,
+        amount_cents: line.amountCents,
+      }))
+    );
+
+    if (itemsError) {
+      // Another run claimed some of these lines in the meantime
+      await supabase.from("vendor_payouts").delete().eq("id", payout.id);
+      result.skipped.push({
+        vendorName: draft.vendorName,
+        reason: itemsError.code === "23505" ? "Lines were paid by another run; run again" : itemsError.message,
+      });
+      continue;
+    }
+
+    let statementSentTo: string | null = null;
+    if (opts.sendStatements && draft.vendorEmail) {
+      try {
+        statementSentTo = (await sendPayoutStatement(supabase, opts.orgId, payout.id)).sentTo;
+        result.statementsSent++;
+      } catch (err) {
+        console.error(`Error sending payout statement to ${draft.vendorName}:`, err);
+      }
+    }
+
+    result.payouts.push({
+      payoutId: payout.id,
+      vendorId: draft.vendorId,
+      vendorName: draft.vendorName,
+      amountCents: draft.amountCents,
+      itemCount: draft.lines.length,
+      statementSentTo,
+    });
+    result.totalCents += draft.amountCents;
+  }
+
+  await supabase
+    .from("vendor_payout_runs")
+    .update({
+      payout_count: result.payouts.length,
+      total_cents: result.totalCents,
+      statements_sent: result.statementsSent,
+    })
+    .eq("id", run.id);
+
+  return result;
+}
+
+/** Free a canceled payout's source lines so a later run can pay them */
+export async function releasePayoutItems(supabase: SupabaseClient, payoutId: string): Promise<void> {
+  const { error } = await supabase
+    .from("vendor_payout_items")
+    .update({ released_at: new Date().toISOString() })
+    .eq("vendor_payout_id", payoutId)
+    .is("released_at", null);
+  if (error) throw error;
+}
+
+function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function csvCell(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+export interface PayoutStatement {
+  filename: string;
+  csv: string;
+  vendorName: string;
+  vendorEmail: string | null;
+  periodStart: string;
+  periodEnd: string;
+  amountCents: number;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  items: any[];
+}
+
+/** A payout's statement: one CSV row per item plus a total */
+export async function buildPayoutStatement(
+  supabase: SupabaseClient,
+  orgId: string,
+  payoutId: string
+): Promise<PayoutStatement> {
+  const { data: payout } = await supabase
+    .from("vendor_payouts")
+    .select("id, amount_cents, period_start, period_end, vendor:vendor_id ( name, email )")
+    .eq("id", payoutId)
+    .eq("org_id", orgId)
+    .single();
+  if (!payout) throw new VendorPayoutError("Payout not found", 404);
+
+  const { data: items, error } = await supabase
+    .from("vendor_payout_items")
+    .select("source, description, gross_cents, commission_cents, amount_cents, invoice:invoice_id ( invoice_number )")
+    .eq("vendor_payout_id", payoutId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+
+  const vendor = one(payout.vendor);
+  const rows = (items || []).map((item) => [
+    PAYOUT_SOURCE_LABELS[item.source as PayoutSource] || item.source,
+    item.description,
+    one(item.invoice)?.invoice_number || "",
+    item.gross_cents === null ? "" : (item.gross_cents / 100).toFixed(2),
+    item.commission_cents === null ? "" : (item.commission_cents / 100).toFixed(2),
+    (item.amount_cents / 100).toFixed(2),
+  ]);
+
+  const csv = [
+    ["Source", "Description", "Invoice", "Billed", "Commission", "Payout"].join(","),
+    ...rows.map((row) => row.map(csvCell).join(",")),
+    ["", "Total", "", "", "", (payout.amount_cents / 100).toFixed(2)].map(csvCell).join(","),
+  ].join("\n");
+
+  const slug = (vendor?.name || "vendor").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+
+  return {
+    filename: `payout-${slug}-${payout.period_start}-to-${payout.period_end}.csv`,
+    csv,
+    vendorName: vendor?.name || "Vendor",
+    vendorEmail: vendor?.email || null,
+    periodStart: payout.period_start,
+    periodEnd: payout.period_end,
+    amountCents: payout.amount_cents,
+    items: items || [],
+  };
+}
+
+/** Email a payout's statement to the vendor with the CSV attached */
+export async function sendPayoutStatement(
+  supabase: SupabaseClient,
+  orgId: string,
+  payoutId: string
+): Promise<{ sentTo: string }> {
+  const statement = await buildPayoutStatement(supabase, orgId, payoutId);
+  if (!statement.vendorEmail) {
+    throw new VendorPayoutError("Vendor has no email address");
+  }
+
+  const rows = statement.items
+    .map((item) => `<tr>
+      <td style="padding:6px 8px;border-bottom:1px solid #eee;">${escapeHtml(item.description)}</td>
+      <td style="padding:6px 8px;border-bottom:1px solid #eee;text-align:right;">${formatCents(item.amount_cents)}</td>
+    </tr>`)
+    .join("");
+
+  const html = wrapEmailHtml(`
+    <p>Hi ${escapeHtml(statement.vendorName)},</p>
+    <p>Here is your payout statement for ${statement.periodStart} to ${statement.periodEnd}.
+    The attached CSV lists each line with the amount billed and the commission withheld.</p>
+    <table style="width:100%;border-collapse:collapse;font-size:14px;">
+      ${rows}
+      <tr>
+        <td style="padding:8px;font-weight:600;">Total payout</td>
+        <td style="padding:8px;font-weight:600;text-align:right;">${formatCents(statement.amountCents)}</td>
+      </tr>
+    </table>
+  `, "Payout Statement");
+
+  const result = await sendEmail({
+    to: statement.vendorEmail,
+    subject: `Payout statement: ${statement.periodStart} to ${statement.periodEnd}`,
+    html,
+    attachments: [{ filename: statement.filename, content: statement.csv }],
+    tags: [{ name: "type", value: "vendor_payout_statement" }],
+  });
+  if (!result.success) {
+    throw new VendorPayoutError(result.error || "Failed to send statement", 502);
+  }
+
+  await supabase
+    .from("vendor_payouts")
+    .update({ statement_sent_at: new Date().toISOString(), statement_sent_to: statement.vendorEmail })
+    .eq("id", payoutId);
+
+  return { sentTo: statement.vendorEmail };
+}
@@ -0,0 +1,821 @@
+/**
+ * Visit Billing
+ *
+ * Subscriptions are billed in one of three modes (subscriptions.billing_mode):
+ *
+ *   MONTHLY_FLAT - a line on the monthly invoice; visits aren't billed
+ *                  one by one (the generate-monthly-invoices cron)
+ *   PER_VISIT    - each completed visit is queued in visit_charges and
+ *                  charged to the card on file, right away or in a daily
+ *                  or weekly batch (subscriptions.visit_charge_batch)
+ *   PREPAID_PACK - each completed visit uses one visit from
+ *                  subscriptions.prepaid_visits_remaining (a job split
+ *                  across days uses one for all its parts); once the pack
+ *                  is used up, visits are charged like PER_VISIT
+ *
+ * One-time cleanups are always charged per visit.
+ *
+ * A skipped visit costs the share of the visit price the org set for the
+ * skip reason (billing.skippedCleanupsResidential / Commercial): 0% when the
+ * skip was on us, 100% when it was the client's doing (a locked gate, an
+ * unsafe dog). On a prepaid pack a full-cost skip uses a visit; a partial
+ * one is charged to the card instead.
+ *
+ * Batches become OPEN invoices with one line per visit, taxed and drawn
+ * against the client's credits like every other invoice, then charged.
+ * A declined or missing card leaves the invoice FAILED or OPEN and tells
+ * the office.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { chargeDefaultPaymentMethod, formatCentsToDollars } from "@/lib/stripe";
+import { applySalesTax } from "@/lib/sales-tax";
+import { applyCreditsToInvoice } from "@/lib/credit-ledger";
+import { notify } from "@/lib/notify";
+
+export type BillingMode = "MONTHLY_FLAT" | "PER_VISIT" | "PREPAID_PACK";
+export type VisitChargeBatch = "IMMEDIATE" | "DAILY" | "WEEKLY";
+export type PrepaidEntryType = "PURCHASE" | "VISIT" | "SKIP" | "ADJUSTMENT";
+
+export const BILLING_MODES: BillingMode[] = ["MONTHLY_FLAT", "PER_VISIT", "PREPAID_PACK"];
+export const VISIT_CHARGE_BATCHES: VisitChargeBatch[] = ["IMMEDIATE", "DAILY", "WEEKLY"];
+
+export const BILLING_MODE_LABELS: Record<BillingMode, string> = {
+  MONTHLY_FLAT: "Monthly flat rate",
+  PER_VISIT: "Per visit",
+  PREPAID_PACK: "Prepaid pack",
+};
+
+export const VISIT_CHARGE_BATCH_LABELS: Record<VisitChargeBatch, string> = {
+  IMMEDIATE: "On completion",
+  DAILY: "Daily",
+  WEEKLY: "Weekly (Mondays)",
+};
+
+// Weekly batches are charged on this UTC day (0 = Sunday)
+const WEEKLY_CHARGE_DAY = 1;
+
+// Largest pack the office can sell or adjust in one go
+export const MAX_PACK_VISITS = 200;
+
+export class VisitBillingError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "VisitBillingError";
+    this.status = status;
+  }
+}
+
+export interface SkipCost {
+  reason: string;
+  cost: number;
+}
+
+export interface PendingVisitCharge {
+  id: string;
+  clientId: string;
+  subscriptionId: string;
+  jobId: string;
+  serviceDate: string;
+  amountCents: number;
+  description: string;
+}
+
+export interface VisitBillingResult {
+  mode: BillingMode;
+  /** CHARGED: invoiced now; QUEUED: waiting for its batch; PACK_USED: taken from the prepaid balance */
+  action: "CHARGED" | "QUEUED" | "PACK_USED" | "NONE";
+  amountCents: number;
+  invoiceId: string | null;
+  invoiceStatus: string | null;
+  visitsRemaining: number | null;
+}
+
+export interface VisitInvoiceResult {
+  invoiceId: string;
+  invoiceNumber: string;
+  status: string;
+  amountCents: number;
+}
+
+/** How a subscription row is billed; one-time service is always per visit */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function billingModeOf(subscription: any): BillingMode {
+  if (subscription?.frequency === "ONETIME") return "PER_VISIT";
+  return BILLING_MODES.includes(subscription?.billing_mode) ? subscription.billing_mode : "MONTHLY_FLAT";
+}
+
+export function parseBillingMode(value: unknown): BillingMode {
+  if (!BILLING_MODES.includes(value as BillingMode)) {
+    throw new VisitBillingError("Invalid billing mode");
+  }
+  return value as BillingMode;
+}
+
+export function parseVisitChargeBatch(value: unknown): VisitChargeBatch {
+  if (!VISIT_CHARGE_BATCHES.includes(value as VisitChargeBatch)) {
+    throw new VisitBillingError("Invalid charge batch");
+  }
+  return value as VisitChargeBatch;
+}
+
+function batchInterval(batch: VisitChargeBatch): "DAILY" | "WEEKLY" {
+  return batch === "WEEKLY" ? "WEEKLY" : "DAILY";
+}
+
+// ── Skip costs ──────────────────────────────────────────────────────────────
+
+function normalizeReason(reason: string): string {
+  return reason.trim().toLowerCase();
+}
+
+/**
+ * The share of the visit price (0-100) a skip reason costs. Unlisted
+ * reasons cost what "Other" costs, or nothing.
+ */
+export function skipCostPercent(costs: SkipCost[], reason: string | null): number {
+  const key = normalizeReason(reason || "");
+  const match =
+    costs.find((entry) => normalizeReason(entry.reason) === key) ||
+    costs.find((entry) => normalizeReason(entry.reason) === "other");
+  const cost = Number(match?.cost);
+  return Number.isFinite(cost) ? Math.min(100, Math.max(0, cost)) : 0;
+}
+
+/** The org's skip costs for the client's type (residential or commercial) */
+async function loadSkipCosts(
+  supabase: SupabaseClient,
+  orgId: string,
+  clientId: string
+): Promise<SkipCost[]> {
+  const [{ data: org }, { data: client }] = await Promise.all([
+    supabase.from("organizations").select("settings").eq("id", orgId).single(),
+    supabase.from("clients").select("client_type").eq("id", clientId).single(),
+  ]);
+
+  const billing = org?.settings?.billing || {};
+  const costs = client?.client_type === "COMMERCIAL"
+    ? billing.skippedCleanupsCommercial
+    : billing.skippedCleanupsResidential;
+  return Array.isArray(costs) ? costs : [];
+}
+
+// ── Billing a visit ─────────────────────────────────────────────────────────
+
+/**
+ * Bill a job that just moved to COMPLETED or SKIPPED. Returns null for
+ * jobs that aren't billed by the visit (flat-rate plans, jobs without a
+ * subscription) or were already billed.
+ */
+export async function billVisit(
+  supabase: SupabaseClient,
+  jobId: string
+): Promise<VisitBillingResult | null> {
+  const { data: job } = await supabase
+    .from("jobs")
+    .select("id, org_id, client_id, subscription_id, status, scheduled_date, price_cents, skip_reason, split_group_id")
+    .eq("id", jobId)
+    .single();
+
+  if (!job?.subscription_id || !["COMPLETED", "SKIPPED"].includes(job.status)) return null;
+
+  const { data: subscription } = await supabase
+    .from("subscriptions")
+    .select("id, client_id, frequency, billing_mode, visit_charge_batch, prepaid_visits_remaining, price_per_visit_cents")
+    .eq("id", job.subscription_id)
+    .single();
+
+  if (!subscription) return null;
+
+  const mode = billingModeOf(subscription);
+  if (mode === "MONTHLY_FLAT") return null;
+
+  const skipped = job.status === "SKIPPED";
+  const costPercent = skipped
+    ? skipCostPercent(await loadSkipCosts(supabase, job.org_id, job.client_id), job.skip_reason)
+    : 100;
+
+  const result: VisitBillingResult = {
+    mode,
+    action: "NONE",
+    amountCents: 0,
+    invoiceId: null,
+    invoiceStatus: null,
+    visitsRemaining: mode === "PREPAID_PACK" ? subscription.prepaid_visits_remaining : null,
+  };
+
+  if (mode === "PREPAID_PACK" && costPercent >= 100) {
+    // A split job is one visit: whichever part finishes first draws it,
+    // recorded against the group (the original job), and the rest find it
+    const remaining = await drawPrepaidVisit(supabase, {
+      orgId: job.org_id,
+      subscriptionId: subscription.id,
+      clientId: job.client_id,
+      jobId: job.split_group_id ?? job.id,
+      entryType: skipped ? "SKIP" : "VISIT",
+    });
+    if (remaining !== null) {
+      return { ...result, action: "PACK_USED", visitsRemaining: remaining };
+    }
+    // Pack used up: charged as a single visit below
+  }
+
+  const priceCents = job.price_cents ?? subscription.price_per_visit_cents ?? 0;
+  const amountCents = Math.round((priceCents * costPercent) / 100);
+  if (amountCents <= 0) return result;
+
+  const { data: charge, error } = await supabase
+    .from("visit_charges")
+    .insert({
+      org_id: job.org_id,
+      client_id: job.client_id,
+      subscription_id: subscription.id,
+      job_id: job.id,
+      kind: skipped ? "SKIP" : "VISIT",
+      service_date: job.scheduled_date,
+      amount_cents: amountCents,
+      skip_reason: skipped ? job.skip_reason : null,
+      cost_percent: skipped ? costPercent : null,
+      description: skipped
+        ? `Skipped visit ${job.scheduled_date}: ${job.skip_reason || "No reason given"} (${costPercent}%)`
+        : `Cleanup ${job.scheduled_date}`,
+    })
+    .select("id, client_id, subscription_id, job_id, service_date, amount_cents, description")
+    .single();
+
+  if (error) {
+    // Already billed (a replayed completion)
+    if (error.code === "23505") return null;
+    throw error;
+  }
+
+  const batch: VisitChargeBatch = subscription.visit_charge_batch || "IMMEDIATE";
+  if (batch !== "IMMEDIATE") {
+    return { ...result, action: "QUEUED", amountCents };
+  }
+
+  const invoice = await invoiceVisitCharges(supabase, {
+    orgId: job.org_id,
+    clientId: job.client_id,
+    charges: [mapVisitCharge(charge)],
+    batch,
+  });
+  return {
+    ...result,
+    action: invoice ? "CHARGED" : "QUEUED",
+    amountCents,
+    invoiceId: invoice?.invoiceId ?? null,
+    invoiceStatus: invoice?.status ?? null,
+  };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mapVisitCharge(row: any): PendingVisitCharge {
+  return {
+    id: row.id,
+    clientId: row.client_id,
+    subscriptionId: row.subscription_id,
+    jobId: row.job_id,
+    serviceDate: row.service_date,
+    amountCents: row.amount_cents,
+    description: row.description,
+  };
+}
+
+// ── Invoicing and charging ──────────────────────────────────────────────────
+
+// A claim that never got its invoice (a crashed run, or the invoice was
+// deleted) is released after this long
+const CLAIM_TIMEOUT_MS = 60 * 60 * 1000;
+
+function unclaimedFilter(): string {
+  const staleBefore = new Date(Date.now() - CLAIM_TIMEOUT_MS).toISOString();
+  return `invoiced_at.is.null,invoiced_at.lt.${staleBefore}`;
+}
+
+async function nextInvoiceNumber(supabase: SupabaseClient, orgId: string): Promise<string> {
+  const { data: latestInvoice } = await supabase
+    .from("invoices")
+    .select("invoice_number")
+    .eq("org_id", orgId)
+    .like("invoice_number", "INV-%")
+    .order("invoice_number", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  let nextNumber = 1;
+  if (latestInvoice?.invoice_number) {
+    const match = latestInvoice.invoice_number.match(/INV-(\d+)/);
+    if (match) nextNumber = parseInt(match[1], 10) + 1;
+  }
+  return `INV-${String(nextNumber).padStart(5, "0")}`;
+}
+
+/**
+ * Create an invoice for a client's line items, tax it, draw their credits
+ * and charge the rest to the card on file
+ */
+async function createChargedInvoice(
+  supabase: SupabaseClient,
+  input: {
+    orgId: string;
+    clientId: string;
+    subscriptionId: string;
+    /** Null for one-off invoices such as a pack sale */
+    interval: "DAILY" | "WEEKLY" | null;
+    notes: string;
+    items: { description: string; unitPriceCents: number; quantity: number; jobId?: string }[];
+  }
+): Promise<VisitInvoiceResult> {
+  const subtotalCents = input.items.reduce((sum, item) => sum + item.quantity * item.unitPriceCents, 0);
+  const invoiceNumber = await nextInvoiceNumber(supabase, input.orgId);
+  const today = new Date().toISOString().split("T")[0];
+
+  const { data: invoice, error: invoiceError } = await supabase
+    .from("invoices")
+    .insert({
+      org_id: input.orgId,
+      client_id: input.clientId,
+      invoice_number: invoiceNumber,
+      status: "OPEN",
+      subtotal_cents: subtotalCents,
+      tax_cents: 0,
+      discount_cents: 0,
+      total_cents: subtotalCents,
+      amount_paid_cents: 0,
+      amount_due_cents: subtotalCents,
+      due_date: today,
+      billing_interval: input.interval,
+      subscription_id: input.subscriptionId,
+      notes: input.notes,
+    })
+    .select("id")
+    .single();
+
+  if (invoiceError || !invoice) {
+    throw new VisitBillingError(`Failed to create invoice: ${invoiceError?.message}`, 500);
+  }
+
+  const { error: itemsError } = await supabase.from("invoice_items").insert(
+    input.items.map((item) => ({
+      org_id: input.orgId,
+      invoice_id: invoice.id,
+      job_id: item.jobId ?? null,
+      description: item.description,
+      quantity: item.quantity,
+      unit_price_cents: item.unitPriceCents,
+      total_cents: item.quantity * item.unitPriceCents,
+      tax_category: "SERVICE_PLAN",
+    }))
+  );
+  if (itemsError) {
+    console.error(`Invoice ${invoiceNumber}: failed to create line items:`, itemsError);
+  }
+
+  await applySalesTax(supabase, { orgId: input.orgId, invoiceId: invoice.id });
+  await applyCreditsToInvoice(supabase, { orgId: input.orgId, invoiceId: invoice.id });
+
+  const status = await chargeInvoiceToCard(supabase, input.orgId, invoice.id);
+  return { invoiceId: invoice.id, invoiceNumber, status, amountCents: subtotalCents };
+}
+
+/**
+ * Invoice and charge a batch of a client's pending visit charges. Charges
+ * another run already claimed are left out; returns null when none remain.
+ */
+export async function invoiceVisitCharges(
+  supabase: SupabaseClient,
+  input: { orgId: string; clientId: string; charges: PendingVisitCharge[]; batch: VisitChargeBatch }
+): Promise<VisitInvoiceResult | null> {
+  if (input.charges.length === 0) return null;
+
+  // Claim the charges first so an overlapping run can't bill them too
+  const { data: claimed } = await supabase
+    .from("visit_charges")
+    .update({ invoiced_at: new Date().toISOString() })
+    .in("id", input.charges.map((charge) => charge.id))
+    .is("invoice_id", null)
+    .or(unclaimedFilter())
+    .select("id");
+
+  const claimedIds = new Set((claimed || []).map((row) => row.id));
+  const charges = input.charges.filter((charge) => claimedIds.has(charge.id));
+  if (charges.length === 0) return null;
+
+  const dates = charges.map((charge) => charge.serviceDate).sort();
+  const period = dates[0] === dates[dates.length - 1] ? dates[0] : `${dates[0]} to ${dates[dates.length - 1]}`;
+
+  let invoice: VisitInvoiceResult;
+  try {
+    invoice = await createChargedInvoice(supabase, {
+      orgId: input.orgId,
+      clientId: input.clientId,
+      subscriptionId: charges[0].subscriptionId,
+      interval: batchInterval(input.batch),
+      notes: `Per-visit charges for ${period}`,
+      items: charges.map((charge) => ({
+        description: charge.description,
+        unitPriceCents: charge.amountCents,
+        quantity: 1,
+        jobId: charge.jobId,
+      })),
+    });
+  } catch (error) {
+    // Back in the queue for the next run
+    await supabase
+      .from("visit_charges")
+      .update({ invoiced_at: null })
+      .in("id", charges.map((charge) => charge.id));
+    throw error;
+  }
+
+  await supabase
+    .from("visit_charges")
+    .update({ invoice_id: invoice.invoiceId })
+    .in("id", charges.map((charge) => charge.id));
+
+  return invoice;
+}
+
+/**
+ * Charge an OPEN invoice's amount due to the client's card on file.
+ * Returns the invoice's status afterwards.
+ */
+export async function chargeInvoiceToCard(
+  supabase: SupabaseClient,
+  orgId: string,
+  invoiceId: string
+): Promise<string> {
+  const { data: invoice } = await supabase
+    .from("invoices")
+    .select(`
+      id,
+      invoice_number,
+      status,
+      client_id,
+      total_cents,
+      amount_due_cents,
+      client:client_id (
+        first_name,
+        last_name,
+        stripe_customer_id
+      )
+    `)
+    .eq("id", invoiceId)
+    .eq("org_id", orgId)
+    .single();
+
+  if (!invoice) return "MISSING";
+  if (invoice.status !== "OPEN" || invoice.amount_due_cents <= 0) return invoice.status;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const client = invoice.client as any;
+  const clientName = client ? [client.first_name, client.last_name].filter(Boolean).join(" ") : "A client";
+  const alertOffice = (title: string, body: string) =>
+    notify({
+      type: "payment_failed",
+      severity: "warning",
+      title,
+      body,
+      link: `/app/office/clients/${invoice.client_id}`,
+      dedupeKey: `visit-charge:${invoice.id}`,
+    });
+
+  if (!client?.stripe_customer_id) {
+    await alertOffice(
+      `No card on file: ${clientName}`,
+      `Invoice ${invoice.invoice_number} (${formatCentsToDollars(invoice.amount_due_cents)}) for per-visit service is waiting to be collected.`
+    );
+    return invoice.status;
+  }
+
+  const now = new Date().toISOString();
+  try {
+    const intent = await chargeDefaultPaymentMethod(client.stripe_customer_id, invoice.amount_due_cents, {
+      description: `Invoice ${invoice.invoice_number}`,
+      metadata: {
+        invoice_id: invoice.id,
+        invoice_number: invoice.invoice_number,
+        org_id: orgId,
+      },
+      idempotencyKey: `invoice-${invoice.id}`,
+    });
+
+    if (intent.status !== "succeeded") {
+      throw new Error(`Payment ${intent.status}`);
+    }
+
+    await supabase
+      .from("invoices")
+      .update({
+        status: "PAID",
+        amount_paid_cents: invoice.total_cents,
+        amount_due_cents: 0,
+        paid_at: now,
+        payment_method: "CREDIT_CARD",
+        updated_at: now,
+      })
+      .eq("id", invoice.id);
+
+    const chargeId = typeof intent.latest_charge === "string"
+      ? intent.latest_charge
+      : intent.latest_charge?.id || null;
+
+    await supabase.from("payments").insert({
+      org_id: orgId,
+      client_id: invoice.client_id,
+      invoice_id: invoice.id,
+      stripe_payment_intent_id: intent.id,
+      stripe_charge_id: chargeId,
+      amount_cents: invoice.amount_due_cents,
+      status: "SUCCEEDED",
+      payment_method: "CREDIT_CARD",
+    });
+
+    return "PAID";
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Payment failed";
+    await supabase
+      .from("invoices")
+      .update({ status: "FAILED", updated_at: now })
+      .eq("id", invoice.id);
+    await alertOffice(
+      `Card declined: ${clientName}`,
+      `Invoice ${invoice.invoice_number} (${formatCentsToDollars(invoice.amount_due_cents)}): ${message}`
+    );
+    return "FAILED";
+  }
+}
+
+/**
+ * Charge every pending visit whose batch is due: daily batches every run,
+ * weekly batches on Mondays, and anything an on-completion charge left
+ * behind.
+ */
+export async function runVisitChargeBatches(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<{ invoices: number; chargedCents: number; failed: number; errors: string[] }> {
+  const weeklyDue = now.getUTCDay() === WEEKLY_CHARGE_DAY;
+  const summary = { invoices: 0, chargedCents: 0, failed: 0, errors: [] as string[] };
+
+  const { data: rows, error } = await supabase
+    .from("visit_charges")
+    .select(`
+      id,
+      org_id,
+      client_id,
+      subscription_id,
+      job_id,
+      service_date,
+      amount_cents,
+      description,
+      subscription:subscription_id ( visit_charge_batch )
+    `)
+    .is("invoice_id", null)
+    .or(unclaimedFilter())
+    .order("service_date", { ascending: true });
+
+  if (error) {
+    summary.errors.push(`Failed to load pending visit charges: ${error.message}`);
+    return summary;
+  }
+
+  // One invoice per client and batch
+  const groups = new Map<string, { orgId: string; clientId: string; batch: VisitChargeBatch; charges: PendingVisitCharge[] }>();
+  for (const row of rows || []) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const batch: VisitChargeBatch = (row.subscription as any)?.visit_charge_batch || "IMMEDIATE";
+    if (batch === "WEEKLY" && !weeklyDue) continue;
+
+    const key = `${row.client_id}:${batch}`;
+    if (!groups.has(key)) {
+      groups.set(key, { orgId: row.org_id, clientId: row.client_id, batch, charges: [] });
+    }
+    groups.get(key)!.charges.push(mapVisitCharge(row));
+  }
+
+  for (const group of groups.values()) {
+    try {
+      const invoice = await invoiceVisitCharges(supabase, group);
+      if (!invoice) continue;
+      summary.invoices++;
+      if (invoice.status === "PAID") summary.chargedCents += invoice.amountCents;
+      if (invoice.status === "FAILED") summary.failed++;
+    } catch (err) {
+      summary.errors.push(`Client ${group.clientId}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  return summary;
+}
+
+// ── Prepaid packs ───────────────────────────────────────────────────────────
+
+/**
+ * Take one visit from a subscription's prepaid balance for a job. Returns
+ * the balance left, or null when the pack is used up.
+ */
+async function drawPrepaidVisit(
+  supabase: SupabaseClient,
+  input: { orgId: string; subscriptionId: string; clientId: string; jobId: string; entryType: PrepaidEntryType }
+): Promise<number | null> {
+  const { data: existing } = await supabase
+    .from("prepaid_visit_ledger")
+    .select("balance_after")
+    .eq("job_id", input.jobId)
+    .maybeSingle();
+  if (existing) return existing.balance_after;
+
+  const balance = await changePrepaidBalance(supabase, input.subscriptionId, -1);
+  if (balance === null) return null;
+
+  const { error } = await supabase.from("prepaid_visit_ledger").insert({
+    org_id: input.orgId,
+    client_id: input.clientId,
+    subscription_id: input.subscriptionId,
+    job_id: input.jobId,
+    entry_type: input.entryType,
+    visits: -1,
+    balance_after: balance,
+  });
+
+  if (error) {
+    // Another request used the pack for this job first
+    await changePrepaidBalance(supabase, input.subscriptionId, 1);
+    if (error.code === "23505") return balance + 1;
+    throw error;
+  }
+
+  if (balance === 0) {
+    const { data: client } = await supabase
+      .from("clients")
+      .select("first_name, last_name")
+      .eq("id", input.clientId)
+      .single();
+    const name = client ? [client.first_name, client.last_name].filter(Boolean).join(" ") : "A client";
+    await notify({
+      type: "system",
+      title: `Prepaid pack used up: ${name}`,
+      body: "Their next visits will be charged to the card on file until a new pack is added.",
+      link: `/app/office/subscriptions/${input.subscriptionId}`,
+      dedupeKey: `prepaid-empty:${input.subscriptionId}`,
+    });
+  }
+
+  return balance;
+}
+
+/**
+ * Move a prepaid balance by delta, never below zero. Returns the new
+ * balance, or null when there weren't enough visits left.
+ */
+async function changePrepaidBalance(
+  supabase: SupabaseClient,
+  subscriptionId: string,
+  delta: number
+): Promise<number | null> {
+  // Compare-and-set, retried if another request moved the balance first
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: subscription } = await supabase
+      .from("subscriptions")
+      .select("prepaid_visits_remaining")
+      .eq("id", subscriptionId)
+      .single();
+    if (!subscription) return null;
+
+    const current = subscription.prepaid_visits_remaining || 0;
+    const next = current + delta;
+    if (next < 0) return null;
+
+    const { data: updated } = await supabase
+      .from("subscriptions")
+      .update({ prepaid_visits_remaining: next, updated_at: new Date().toISOString() })
+      .eq("id", subscriptionId)
+      .eq("prepaid_visits_remaining", current)
+      .select("id");
+    if (updated && updated.length > 0) return next;
+  }
+  throw new VisitBillingError("Prepaid balance is changing too quickly; try again", 409);
+}
+
+/**
+ * Sell a pack of visits (invoiced at priceCents and charged to the card
+ * on file) or adjust the balance by hand (priceCents 0, visits may be
+ * negative).
+ */
+export async function addPrepaidVisits(
+  supabase: SupabaseClient,
+  input: {
+    orgId: string;
+    subscriptionId: string;
+    visits: number;
+    priceCents: number;
+    note?: string | null;
+    userId?: string | null;
+  }
+): Promise<{ visitsRemaining: number; invoice: VisitInvoiceResult | null }> {
+  if (!Number.isInteger(input.visits) || input.visits === 0 || Math.abs(input.visits) > MAX_PACK_VISITS) {
+    throw new VisitBillingError(`Visits must be a whole number between -${MAX_PACK_VISITS} and ${MAX_PACK_VISITS}`);
+  }
+  if (!Number.isInteger(input.priceCents) || input.priceCents < 0) {
+    throw new VisitBillingError("Price must be zero or more cents");
+  }
+  if (input.priceCents > 0 && input.visits < 0) {
+    throw new VisitBillingError("A pack sold for a price must add visits");
+  }
+
+  const { data: subscription } = await supabase
+    .from("subscriptions")
+    .select("id, client_id, frequency, billing_mode")
+    .eq("id", input.subscriptionId)
+    .eq("org_id", input.orgId)
+    .single();
+
+  if (!subscription) {
+    throw new VisitBillingError("Subscription not found", 404);
+  }
+  if (billingModeOf(subscription) !== "PREPAID_PACK") {
+    throw new VisitBillingError("Subscription isn't billed from a prepaid pack");
+  }
+
+  const balance = await changePrepaidBalance(supabase, subscription.id, input.visits);
+  if (balance === null) {
+    throw new VisitBillingError("Not enough prepaid visits to remove");
+  }
+
+  const entryType: PrepaidEntryType = input.priceCents > 0 ? "PURCHASE" : "ADJUSTMENT";
+  const { data: entry } = await supabase
+    .from("prepaid_visit_ledger")
+    .insert({
+      org_id: input.orgId,
+      client_id: subscription.client_id,
+      subscription_id: subscription.id,
+      entry_type: entryType,
+      visits: input.visits,
+      balance_after: balance,
+      amount_cents: input.priceCents,
+      note: input.note || null,
+      created_by: input.userId || null,
+    })
+    .select("id")
+    .single();
+
+  let invoice: VisitInvoiceResult | null = null;
+  if (entryType === "PURCHASE") {
+    invoice = await createChargedInvoice(supabase, {
+      orgId: input.orgId,
+      clientId: subscription.client_id,
+      subscriptionId: subscription.id,
+      interval: null,
+      notes: `Prepaid pack of ${input.visits} visits`,
+      items: [{ description: `Prepaid pack: ${input.visits} visits`, unitPriceCents: input.priceCents, quantity: 1 }],
+    });
+    if (entry) {
+      await supabase.from("prepaid_visit_ledger").update({ invoice_id: invoice.invoiceId }).eq("id", entry.id);
+    }
+  }
+
+  return { visitsRemaining: balance, invoice };
+}
+
+export interface PrepaidLedgerEntry {
+  id: string;
+  entryType: PrepaidEntryType;
+  visits: number;
+  balanceAfter: number;
+  amountCents: number;
+  jobId: string | null;
+  invoiceId: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+export async function listPrepaidLedger(
+  supabase: SupabaseClient,
+  orgId: string,
+  subscriptionId: string,
+  limit = 50
+): Promise<PrepaidLedgerEntry[]> {
+  const { data } = await supabase
+    .from("prepaid_visit_ledger")
+    .select("id, entry_type, visits, balance_after, amount_cents, job_id, invoice_id, note, created_at")
+    .eq("org_id", orgId)
+    .eq("subscription_id", subscriptionId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    entryType: row.entry_type,
+    visits: row.visits,
+    balanceAfter: row.balance_after,
+    amountCents: row.amount_cents,
+    jobId: row.job_id,
+    invoiceId: row.invoice_id,
+    note: row.note,
+    createdAt: row.created_at,
+  }));
+}
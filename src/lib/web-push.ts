@@ -1,4 +1,5 @@
 import webPush from "web-push";
+import type { SupabaseClient } from "@supabase/supabase-js";
 import prisma from "@/lib/prisma";
 
 export interface PushPayload {
@@ -9,19 +10,24 @@ export interface PushPayload {
   renotify?: boolean;
 }
 
-/**
- * Send a push notification to all stored admin subscriptions.
- * Automatically removes expired/invalid subscriptions (HTTP 410/404).
- */
-export async function sendAdminPush(payload: PushPayload) {
-  // Initialize lazily so env vars are read at runtime, not build time
+// Initialize lazily so env vars are read at runtime, not build time
+function configureVapid(): boolean {
   const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
   const privateKey = process.env.VAPID_PRIVATE_KEY;
   if (!publicKey || !privateKey) {
     console.warn("[web-push] VAPID keys not configured — skipping push");
-    return { sent: 0, failed: 0 };
+    return false;
   }
   webPush.setVapidDetails("mailto:service@doogoodscoopers.com", publicKey, privateKey);
+  return true;
+}
+
+/**
+ * Send a push notification to all stored admin subscriptions.
+ * Automatically removes expired/invalid subscriptions (HTTP 410/404).
+ */
+export async function sendAdminPush(payload: PushPayload) {
+  if (!configureVapid()) return { sent: 0, failed: 0 };
   const subs = await prisma.adminPushSubscription.findMany();
 
   if (subs.length === 0) return { sent: 0, failed: 0 };
@@ -50,3 +56,73 @@ export async function sendAdminPush(payload: PushPayload) {
   const failed = results.filter((r) => r.status === "rejected").length;
   return { sent, failed };
 }
+
+/**
+ * Send a push notification to specific office staff (staff_push_subscriptions,
+ * one row per browser they enabled notifications in). Expired subscriptions
+ * are removed the same way as admin ones.
+ */
+export async function sendStaffPush(supabase: SupabaseClient, userIds: string[], payload: PushPayload) {
+  if (userIds.length === 0 || !configureVapid()) return { sent: 0, failed: 0 };
+
+  const { data: subs } = await supabase
+    .from("staff_push_subscriptions")
+    .select("endpoint, p256dh, auth")
+    .in("user_id", userIds);
+
+  if (!subs || subs.length === 0) return { sent: 0, failed: 0 };
+
+  const results = await Promise.allSettled(
+    subs.map(async (sub) => {
+      try {
+        await webPush.sendNotification(
+          { endpoint: sub.endpoint, keys: { p256dh: sub.p256dh, auth: sub.auth } },
+          JSON.stringify(payload)
+        );
+      } catch (err: unknown) {
+        const status = (err as { statusCode?: number }).statusCode;
+        if (status === 410 || status === 404) {
+          await supabase.from("staff_push_subscriptions").delete().eq("endpoint", sub.endpoint);
+        }
+        throw err;
+      }
+    })
+  );
+
+  const sent = results.filter((r) => r.status === "fulfilled").length;
+  const failed = results.filter((r) => r.status === "rejected").length;
+  return { sent, failed };
+}
+
+/**
+ * Send a push notification to a canvasser's devices (canvasser PWA). Expired
+ * subscriptions are removed the same way as admin ones.
+ */
+export async function sendCanvasserPush(canvasserId: string, payload: PushPayload) {
+  if (!configureVapid()) return { sent: 0, failed: 0 };
+  const subs: Array<{ endpoint: string; p256dh: string; auth: string }> =
+    await prisma.canvasserPushSubscription.findMany({ where: { canvasserId } });
+
+  if (subs.length === 0) return { sent: 0, failed: 0 };
+
+  const results = await Promise.allSettled(
+    subs.map(async (sub) => {
+      try {
+        await webPush.sendNotification(
+          { endpoint: sub.endpoint, keys: { p256dh: sub.p256dh, auth: sub.auth } },
+          JSON.stringify(payload)
+        );
+      } catch (err: unknown) {
+        const status = (err as { statusCode?: number }).statusCode;
+        if (status === 410 || status === 404) {
+          await prisma.canvasserPushSubscription.deleteMany({ where: { endpoint: sub.endpoint } });
+        }
+        throw err;
+      }
+    })
+  );
+
+  const sent = results.filter((r) => r.status === "fulfilled").length;
+  const failed = results.filter((r) => r.status === "rejected").length;
+  return { sent, failed };
+}
@@ -0,0 +1,28 @@
+-- Migration: 0034_route_stop_optimization
+-- Description: Per-tech start/end depots for the stop-sequence optimizer
+-- (POST /api/admin/routes/optimize). When a tech has no depot of their own the
+-- optimizer falls back to settings.routeOptimization.depot on the organization.
+
+ALTER TABLE public.staff_profiles
+ADD COLUMN IF NOT EXISTS start_address text;
+
+ALTER TABLE public.staff_profiles
+ADD COLUMN IF NOT EXISTS start_latitude decimal(10, 8);
+
+ALTER TABLE public.staff_profiles
+ADD COLUMN IF NOT EXISTS start_longitude decimal(11, 8);
+
+-- End depot is optional; when null the route ends at the start depot.
+ALTER TABLE public.staff_profiles
+ADD COLUMN IF NOT EXISTS end_address text;
+
+ALTER TABLE public.staff_profiles
+ADD COLUMN IF NOT EXISTS end_latitude decimal(10, 8);
+
+ALTER TABLE public.staff_profiles
+ADD COLUMN IF NOT EXISTS end_longitude decimal(11, 8);
+
+-- Estimated service duration used by the optimizer, stored alongside the
+-- planned arrival so dispatch can see where the minutes went.
+ALTER TABLE public.route_stops
+ADD COLUMN IF NOT EXISTS estimated_service_minutes int;
@@ -0,0 +1,78 @@
+-- 0035: Service Holidays
+-- Org-level holiday / blackout calendar. Each date carries a policy that job
+-- generation (cron + regenerateJobsForSubscription) applies to visits that
+-- would fall on it: skip the visit, or move it to the next / previous
+-- service day.
+
+create table if not exists public.service_holidays (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  date date not null,
+  name text not null,
+  policy text not null default 'SKIP' check (policy in ('SKIP','SHIFT_NEXT','SHIFT_PREVIOUS')),
+  notify_clients boolean not null default true,
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (org_id, date)
+);
+
+create index if not exists idx_service_holidays_org_date on public.service_holidays(org_id, date);
+
+-- RLS
+alter table public.service_holidays enable row level security;
+
+create policy "Service role has full access to service_holidays"
+  on public.service_holidays for all using (auth.role() = 'service_role');
+
+-- updated_at trigger
+drop trigger if exists update_service_holidays_updated_at on public.service_holidays;
+create trigger update_service_holidays_updated_at
+  before update on public.service_holidays
+  for each row execute function public.update_updated_at_column();
+
+-- One notice per client per holiday, however many paths (office edit, nightly
+-- cron, subscription regeneration) touch that client's visit.
+create table if not exists public.service_holiday_notices (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  holiday_id uuid not null references public.service_holidays(id) on delete cascade,
+  client_id uuid not null references public.clients(id) on delete cascade,
+  job_id uuid references public.jobs(id) on delete set null,
+  sent_at timestamptz not null default now(),
+  unique (holiday_id, client_id)
+);
+
+create index if not exists idx_service_holiday_notices_holiday on public.service_holiday_notices(holiday_id);
+
+alter table public.service_holiday_notices enable row level security;
+
+create policy "Service role has full access to service_holiday_notices"
+  on public.service_holiday_notices for all using (auth.role() = 'service_role');
+
+-- Client notice when a holiday moves or skips a visit
+insert into public.notification_templates (org_id, type, channel, name, subject, body, is_enabled, variables)
+select
+  o.id,
+  'OFF_SCHEDULE',
+  'SMS',
+  'Holiday Schedule Change',
+  null,
+  'Hi {{client_first_name}}, a heads-up from DooGoodScoopers: {{schedule_change}}.',
+  true,
+  '["client_first_name","client_name","holiday_name","original_date","new_date","schedule_change"]'::jsonb
+from public.organizations o
+on conflict (org_id, type, channel) do nothing;
+
+insert into public.notification_templates (org_id, type, channel, name, subject, body, is_enabled, variables)
+select
+  o.id,
+  'OFF_SCHEDULE',
+  'EMAIL',
+  'Holiday Schedule Change Email',
+  'Your service schedule for {{holiday_name}}',
+  'Hi {{client_first_name}},\n\nA heads-up from DooGoodScoopers: {{schedule_change}}.\n\nThanks,\nDooGoodScoopers',
+  true,
+  '["client_first_name","client_name","holiday_name","original_date","new_date","schedule_change"]'::jsonb
+from public.organizations o
+on conflict (org_id, type, channel) do nothing;
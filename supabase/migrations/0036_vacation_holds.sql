@@ -0,0 +1,45 @@
+-- 0036: Vacation Holds
+-- Client-requested service holds over a date range. Visits inside a hold are
+-- kept on the schedule with status ON_HOLD (instead of being voided) so the
+-- dispatch board and field route show why the yard isn't being serviced.
+-- Holds can optionally credit the held visits on the next monthly invoice.
+
+-- Allow the ON_HOLD job status
+alter table public.jobs drop constraint if exists jobs_status_check;
+alter table public.jobs add constraint jobs_status_check
+  check (status in ('SCHEDULED','EN_ROUTE','IN_PROGRESS','COMPLETED','SKIPPED','CANCELED','ON_HOLD'));
+
+create table if not exists public.vacation_holds (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  client_id uuid not null references public.clients(id) on delete cascade,
+  subscription_id uuid references public.subscriptions(id) on delete cascade, -- null = all of the client's subscriptions
+  start_date date not null,
+  end_date date not null,
+  reason text,
+  status text not null default 'ACTIVE' check (status in ('ACTIVE','CANCELED')),
+  apply_credit boolean not null default false,
+  credit_cents int,
+  credit_invoice_id uuid references public.invoices(id) on delete set null,
+  source text not null default 'CLIENT' check (source in ('CLIENT','OFFICE')),
+  created_by uuid references public.users(id) on delete set null,
+  canceled_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (end_date >= start_date)
+);
+
+create index if not exists idx_vacation_holds_client on public.vacation_holds(client_id);
+create index if not exists idx_vacation_holds_org_dates on public.vacation_holds(org_id, start_date, end_date);
+
+-- RLS
+alter table public.vacation_holds enable row level security;
+
+create policy "Service role has full access to vacation_holds"
+  on public.vacation_holds for all using (auth.role() = 'service_role');
+
+-- updated_at trigger
+drop trigger if exists update_vacation_holds_updated_at on public.vacation_holds;
+create trigger update_vacation_holds_updated_at
+  before update on public.vacation_holds
+  for each row execute function public.update_updated_at_column();
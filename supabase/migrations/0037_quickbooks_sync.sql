@@ -0,0 +1,90 @@
+-- 0037: QuickBooks Online Sync
+-- Per-org QBO OAuth connection and a one-way push of clients (customers),
+-- invoices, payments and refunds. Entity links map local rows to QBO ids so
+-- re-syncs update instead of duplicating; the sync log records every push
+-- attempt with an idempotency key so retries never double-post. A failed
+-- attempt is SUPERSEDED once a newer version of the same row syncs.
+
+create table if not exists public.quickbooks_connections (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null unique references public.organizations(id) on delete cascade,
+  realm_id text not null,
+  company_name text,
+  access_token text not null,
+  refresh_token text not null,
+  access_token_expires_at timestamptz not null,
+  refresh_token_expires_at timestamptz,
+  mapping jsonb not null default '{}'::jsonb, -- item / account mapping, see QuickbooksMapping
+  connected_by uuid references public.users(id) on delete set null,
+  connected_at timestamptz not null default now(),
+  last_sync_at timestamptz,
+  last_error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.quickbooks_entity_links (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  entity_type text not null check (entity_type in ('CUSTOMER','INVOICE','PAYMENT','REFUND')),
+  local_id uuid not null,
+  qbo_id text not null,
+  sync_token text,
+  payload_hash text not null, -- hash of the last pushed payload; unchanged rows are skipped
+  synced_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (org_id, entity_type, local_id)
+);
+
+create index if not exists idx_quickbooks_entity_links_qbo on public.quickbooks_entity_links(org_id, entity_type, qbo_id);
+
+create table if not exists public.quickbooks_sync_log (
+  id uuid primary key default gen_random_uuid(), -- also sent to QBO as the requestid
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  entity_type text not null check (entity_type in ('CUSTOMER','INVOICE','PAYMENT','REFUND')),
+  local_id uuid not null,
+  operation text not null check (operation in ('CREATE','UPDATE','VOID')),
+  idempotency_key text not null,
+  status text not null default 'PENDING' check (status in ('PENDING','SUCCESS','FAILED','SUPERSEDED')),
+  attempts int not null default 0,
+  qbo_id text,
+  last_error text,
+  last_attempt_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (org_id, idempotency_key)
+);
+
+create index if not exists idx_quickbooks_sync_log_status on public.quickbooks_sync_log(org_id, status);
+create index if not exists idx_quickbooks_sync_log_entity on public.quickbooks_sync_log(org_id, entity_type, local_id);
+
+-- RLS
+alter table public.quickbooks_connections enable row level security;
+alter table public.quickbooks_entity_links enable row level security;
+alter table public.quickbooks_sync_log enable row level security;
+
+create policy "Service role has full access to quickbooks_connections"
+  on public.quickbooks_connections for all using (auth.role() = 'service_role');
+
+create policy "Service role has full access to quickbooks_entity_links"
+  on public.quickbooks_entity_links for all using (auth.role() = 'service_role');
+
+create policy "Service role has full access to quickbooks_sync_log"
+  on public.quickbooks_sync_log for all using (auth.role() = 'service_role');
+
+-- updated_at triggers
+drop trigger if exists update_quickbooks_connections_updated_at on public.quickbooks_connections;
+create trigger update_quickbooks_connections_updated_at
+  before update on public.quickbooks_connections
+  for each row execute function public.update_updated_at_column();
+
+drop trigger if exists update_quickbooks_entity_links_updated_at on public.quickbooks_entity_links;
+create trigger update_quickbooks_entity_links_updated_at
+  before update on public.quickbooks_entity_links
+  for each row execute function public.update_updated_at_column();
+
+drop trigger if exists update_quickbooks_sync_log_updated_at on public.quickbooks_sync_log;
+create trigger update_quickbooks_sync_log_updated_at
+  before update on public.quickbooks_sync_log
+  for each row execute function public.update_updated_at_column();
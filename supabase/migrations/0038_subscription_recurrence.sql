@@ -0,0 +1,67 @@
+-- 0038: Subscription Recurrence Rules
+-- Explicit recurrence per subscription (see src/lib/recurrence.ts):
+--   { "days": [2], "intervalWeeks": 2, "anchorWeek": "2026-01-05", "monthWeeks": null }
+-- days are weekdays (0=Sun … 6=Sat), anchorWeek is the Monday of a service
+-- week that week intervals count from, and monthWeeks (1-4, -1 = last) makes
+-- it an "nth weekday of the month" rule. Null = derive from frequency /
+-- preferred_day / start date.
+
+alter table public.subscriptions
+  add column if not exists recurrence jsonb;
+
+-- Backfill recurring subscriptions so biweekly parity is pinned to the week
+-- they started, and monthly visits keep the start date's weekday and week.
+with base as (
+  select
+    id,
+    frequency,
+    preferred_day,
+    coalesce(start_date, created_at::date) as start_on,
+    metadata->>'cleanup_frequency' as cleanup_frequency
+  from public.subscriptions
+  where recurrence is null
+    and frequency <> 'ONETIME'
+),
+derived as (
+  select
+    id,
+    start_on,
+    coalesce(
+      case cleanup_frequency
+        when 'TWO_TIMES_A_WEEK' then '[1,4]'::jsonb
+        when 'THREE_TIMES_A_WEEK' then '[1,3,5]'::jsonb
+        when 'FOUR_TIMES_A_WEEK' then '[1,2,4,5]'::jsonb
+        when 'FIVE_TIMES_A_WEEK' then '[1,2,3,4,5]'::jsonb
+        when 'SIX_TIMES_A_WEEK' then '[1,2,3,4,5,6]'::jsonb
+        when 'SEVEN_TIMES_A_WEEK' then '[0,1,2,3,4,5,6]'::jsonb
+      end,
+      case when frequency = 'TWICE_WEEKLY' then '[1,4]'::jsonb end,
+      jsonb_build_array(coalesce(
+        array_position(array['SUNDAY','MONDAY','TUESDAY','WEDNESDAY','THURSDAY','FRIDAY','SATURDAY'], preferred_day) - 1,
+        nullif(extract(dow from start_on)::int, 0),
+        1
+      ))
+    ) as days,
+    case
+      when cleanup_frequency = 'EVERY_THREE_WEEKS' or frequency = 'EVERY_THREE_WEEKS' then 3
+      when cleanup_frequency = 'EVERY_FOUR_WEEKS' or frequency = 'EVERY_FOUR_WEEKS' then 4
+      when frequency = 'BIWEEKLY' and coalesce(cleanup_frequency, '') <> 'TWICE_PER_MONTH' then 2
+      else 1
+    end as interval_weeks,
+    case
+      when cleanup_frequency = 'TWICE_PER_MONTH' or frequency = 'TWICE_PER_MONTH' then '[1,3]'::jsonb
+      when frequency = 'MONTHLY' and coalesce(cleanup_frequency, '') <> 'EVERY_FOUR_WEEKS' then
+        jsonb_build_array(case when ceil(extract(day from start_on) / 7) > 4 then -1 else ceil(extract(day from start_on) / 7)::int end)
+      else 'null'::jsonb
+    end as month_weeks
+  from base
+)
+update public.subscriptions s
+set recurrence = jsonb_build_object(
+  'days', d.days,
+  'intervalWeeks', d.interval_weeks,
+  'anchorWeek', to_char(date_trunc('week', d.start_on), 'YYYY-MM-DD'),
+  'monthWeeks', d.month_weeks
+)
+from derived d
+where s.id = d.id;
@@ -0,0 +1,66 @@
+-- 0039: Dunning
+-- One case per failed Stripe invoice. The process-dunning cron walks each open
+-- case through the org's sequence (settings.billing.dunning): retry the charge,
+-- text/email an add-card link, escalate to the office and finally pause the
+-- subscription. A successful payment resolves the case and undoes the pause.
+
+create table if not exists public.dunning_cases (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  client_id uuid not null references public.clients(id) on delete cascade,
+  invoice_id uuid references public.invoices(id) on delete set null,
+  stripe_invoice_id text not null unique,
+  stripe_subscription_id text,
+  amount_due_cents int not null default 0,
+  status text not null default 'ACTIVE' check (status in ('ACTIVE','RESOLVED','CANCELED')),
+  failure_count int not null default 1,
+  last_failure_reason text,
+  first_failed_at timestamptz not null default now(),
+  last_failed_at timestamptz not null default now(),
+  completed_steps jsonb not null default '[]'::jsonb, -- e.g. ["remind:0","retry:3"]
+  card_link_token text,
+  escalated_at timestamptz,
+  paused_subscription_ids uuid[] not null default '{}',
+  paused_at timestamptz,
+  resolved_at timestamptz,
+  resolution text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_dunning_cases_client on public.dunning_cases(client_id);
+create index if not exists idx_dunning_cases_org_status on public.dunning_cases(org_id, status);
+
+-- RLS
+alter table public.dunning_cases enable row level security;
+
+create policy "Service role has full access to dunning_cases"
+  on public.dunning_cases for all using (auth.role() = 'service_role');
+
+-- updated_at trigger
+drop trigger if exists update_dunning_cases_updated_at on public.dunning_cases;
+create trigger update_dunning_cases_updated_at
+  before update on public.dunning_cases
+  for each row execute function public.update_updated_at_column();
+
+-- Reminder templates carry the add-card link
+insert into public.notification_templates (org_id, type, channel, name, subject, body, is_enabled, variables)
+select
+  o.id,
+  'PAYMENT_FAILED',
+  'SMS',
+  'Payment Failed SMS',
+  null,
+  'Hi {{client_name}}, we couldn''t process your payment of {{amount}} for DooGoodScoopers. Please update your card to keep service going: {{card_link}}',
+  true,
+  '["client_name","amount","invoice_number","card_link"]'::jsonb
+from public.organizations o
+on conflict (org_id, type, channel) do nothing;
+
+update public.notification_templates
+set
+  body = 'Hi {{client_name}},\n\nWe were unable to process your payment of {{amount}} for invoice {{invoice_number}}. Please update your payment method to avoid service interruption:\n\n{{card_link}}\n\nThanks,\nDooGoodScoopers',
+  variables = '["client_name","amount","invoice_number","card_link"]'::jsonb
+where type = 'PAYMENT_FAILED'
+  and channel = 'EMAIL'
+  and body = 'Hi {{client_name}},\n\nWe were unable to process your payment. Please update your payment method to avoid service interruption.\n\nThanks,\nDooGoodScoopers';
@@ -0,0 +1,37 @@
+-- 0040: Field Sync Events
+-- Every field action replayed from the tech app's offline outbox
+-- (src/lib/pwa/field-outbox.ts) is recorded here under its client_key, so a
+-- replay that already landed is answered from the stored result instead of
+-- being applied twice, and conflicts with office edits made while the tech was
+-- offline are kept for review.
+
+create table if not exists public.field_sync_events (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  user_id uuid references public.users(id) on delete set null,
+  job_id uuid references public.jobs(id) on delete cascade,
+  client_key text not null unique,
+  kind text not null, -- en_route, start, complete, skip, notes, photo
+  occurred_at timestamptz not null, -- when the tech took the action on the device
+  status text not null check (status in ('APPLIED','CONFLICT')),
+  forced boolean not null default false,
+  conflict jsonb,
+  result jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_field_sync_events_job on public.field_sync_events(job_id);
+create index if not exists idx_field_sync_events_org_status on public.field_sync_events(org_id, status);
+
+-- RLS
+alter table public.field_sync_events enable row level security;
+
+create policy "Service role has full access to field_sync_events"
+  on public.field_sync_events for all using (auth.role() = 'service_role');
+
+-- updated_at trigger
+drop trigger if exists update_field_sync_events_updated_at on public.field_sync_events;
+create trigger update_field_sync_events_updated_at
+  before update on public.field_sync_events
+  for each row execute function public.update_updated_at_column();
@@ -0,0 +1,34 @@
+-- 0041: Pricing Rule Types
+-- pricing_rules drives the shared pricing engine (src/lib/pricing-engine.ts),
+-- so a rule now says what it prices:
+--   PRICE            recurring / one-time service price by frequency, dogs, zone
+--   SERVICE_AREA     zip codes that make up a REGULAR or PREMIUM zone
+--   INITIAL_CLEANUP  first-visit fee by last-cleaned bracket (and dogs)
+--   YARD_SIZE        surcharge for a yard size
+--   ZIP_SURCHARGE    surcharge for specific zip codes
+-- price_unit says whether base/per-dog cents are charged per visit or per
+-- month (the "Prepaid Fixed Monthly" matrix in Pricing Setup).
+
+alter table public.pricing_rules
+  add column if not exists rule_type text not null default 'PRICE'
+    check (rule_type in ('PRICE','SERVICE_AREA','INITIAL_CLEANUP','YARD_SIZE','ZIP_SURCHARGE')),
+  add column if not exists yard_size text
+    check (yard_size in ('SMALL','MEDIUM','LARGE','XLARGE')),
+  add column if not exists price_unit text not null default 'PER_VISIT'
+    check (price_unit in ('PER_VISIT','PER_MONTH'));
+
+-- Existing service area rows are recognised by name (see check-zip)
+update public.pricing_rules
+  set rule_type = 'SERVICE_AREA'
+  where name like 'Service Area - %';
+
+-- Rows saved from the Regular/Premium matrix are monthly prepaid prices
+update public.pricing_rules
+  set price_unit = 'PER_MONTH'
+  where rule_type = 'PRICE'
+    and zone is not null
+    and frequency is not null
+    and frequency <> 'ONETIME';
+
+create index if not exists idx_pricing_rules_org_type
+  on public.pricing_rules(org_id, rule_type, is_active);
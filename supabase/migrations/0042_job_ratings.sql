@@ -0,0 +1,67 @@
+-- 0042: Job Ratings
+-- One row per completed visit, created when the COMPLETED notification goes
+-- out with a /rate/[token] link. The client fills in 1-5 stars, an optional
+-- comment and (when settings.ratingsTipping.mode = 'all') a preset tip that is
+-- charged to their default card. tech_id is the tech the visit (and the tip)
+-- is attributed to; payroll picks up SUCCEEDED tips by tipped_at.
+
+create table if not exists public.job_ratings (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  job_id uuid not null unique references public.jobs(id) on delete cascade,
+  client_id uuid not null references public.clients(id) on delete cascade,
+  tech_id uuid references public.users(id) on delete set null,
+  token text not null unique,
+  expires_at timestamptz not null,
+  rating int check (rating between 1 and 5),
+  comment text,
+  rated_at timestamptz,
+  source text check (source in ('LINK','PORTAL')),
+  tip_cents int not null default 0,
+  tip_status text not null default 'NONE' check (tip_status in ('NONE','PENDING','SUCCEEDED','FAILED')),
+  tip_payment_intent_id text,
+  tip_error text,
+  tipped_at timestamptz,
+  alerted_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_job_ratings_org_tech on public.job_ratings(org_id, tech_id, rated_at);
+create index if not exists idx_job_ratings_client on public.job_ratings(client_id);
+create index if not exists idx_job_ratings_tips on public.job_ratings(org_id, tip_status, tipped_at);
+
+-- RLS
+alter table public.job_ratings enable row level security;
+
+create policy "Service role has full access to job_ratings"
+  on public.job_ratings for all using (auth.role() = 'service_role');
+
+-- updated_at trigger
+drop trigger if exists update_job_ratings_updated_at on public.job_ratings;
+create trigger update_job_ratings_updated_at
+  before update on public.job_ratings
+  for each row execute function public.update_updated_at_column();
+
+-- Completed templates carry the rating link ({{rating_prompt}} is empty when
+-- ratings are disabled)
+insert into public.notification_templates (org_id, type, channel, name, subject, body, is_enabled, variables)
+select
+  o.id,
+  'COMPLETED',
+  'EMAIL',
+  'Service Completed Email',
+  'Your yard has been serviced',
+  'Hi {{client_name}},\n\nYour yard has been serviced by {{tech_name}} today. Thanks for being a valued customer!{{rating_prompt}}\n\nThanks,\nDooGoodScoopers',
+  true,
+  '["client_name","tech_name","rating_link","rating_prompt"]'::jsonb
+from public.organizations o
+on conflict (org_id, type, channel) do nothing;
+
+update public.notification_templates
+set
+  body = 'Your yard has been serviced by DooGoodScoopers! Thanks for being a valued customer.{{rating_prompt}}',
+  variables = '["client_name","tech_name","rating_link","rating_prompt"]'::jsonb
+where type = 'COMPLETED'
+  and channel = 'SMS'
+  and body = 'Your yard has been serviced by DooGoodScoopers! Thanks for being a valued customer.';
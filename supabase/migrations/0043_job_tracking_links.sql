@@ -0,0 +1,42 @@
+-- 0043: Job Tracking Links
+-- Tokenized "where's my scooper" links, created when the tech sends the
+-- ON_THE_WAY message. The public /track/[token] page shows the tech's
+-- approximate position, how many stops are ahead of this client and a rolling
+-- ETA. A link stops working once its job is completed or skipped (expired_at
+-- is stamped then) or after expires_at as a safety net.
+
+create table if not exists public.job_tracking_links (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  job_id uuid not null unique references public.jobs(id) on delete cascade,
+  client_id uuid not null references public.clients(id) on delete cascade,
+  token text not null unique,
+  expires_at timestamptz not null,
+  expired_at timestamptz,
+  last_viewed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_job_tracking_links_org on public.job_tracking_links(org_id, created_at desc);
+
+-- RLS
+alter table public.job_tracking_links enable row level security;
+
+create policy "Service role has full access to job_tracking_links"
+  on public.job_tracking_links for all using (auth.role() = 'service_role');
+
+-- updated_at trigger
+drop trigger if exists update_job_tracking_links_updated_at on public.job_tracking_links;
+create trigger update_job_tracking_links_updated_at
+  before update on public.job_tracking_links
+  for each row execute function public.update_updated_at_column();
+
+-- On-the-way texts carry the tracking link (live ETA replaces the fixed one)
+update public.notification_templates
+set
+  body = 'Hi {{client_name}}! Your DooGoodScoopers technician is on the way.{{tracking_prompt}}',
+  variables = '["client_name","client_first_name","eta_minutes","tracking_link","tracking_prompt"]'::jsonb
+where type = 'ON_THE_WAY'
+  and channel = 'SMS'
+  and body = 'Hi {{client_name}}! Your DooGoodScoopers technician is on the way and will arrive in approximately {{eta}} minutes.';
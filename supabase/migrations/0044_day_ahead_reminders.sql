@@ -0,0 +1,30 @@
+-- 0044: Day-Ahead Reminders
+-- The queue-day-ahead cron queues a DAY_AHEAD message for each of tomorrow's
+-- routed jobs at the org's send hour (settings.scheduler.dayAheadSendHour).
+-- Locations with gate notes get a "please unlock the gate" line through
+-- {{gate_prompt}}; it's empty for everyone else. Adds the email version so
+-- clients who prefer email get the reminder too.
+
+update public.notification_templates
+set
+  body = 'Reminder: DooGoodScoopers is scheduled to service your yard tomorrow ({{service_date}}).{{gate_prompt}}',
+  variables = '["client_name","service_date","address","tech_name","gate_location","gate_prompt"]'::jsonb
+where type = 'DAY_AHEAD'
+  and channel = 'SMS'
+  and body = 'Reminder: DooGoodScoopers is scheduled to service your yard tomorrow. Please ensure gate access is available.';
+
+insert into public.notification_templates (org_id, type, channel, name, subject, body, is_enabled, variables)
+select
+  o.id,
+  'DAY_AHEAD',
+  'EMAIL',
+  'Day Ahead Reminder Email',
+  'Your yard service is tomorrow',
+  'Hi {{client_name}},\n\nJust a reminder that DooGoodScoopers is scheduled to service your yard at {{address}} tomorrow, {{service_date}}.{{gate_prompt}}\n\nThanks,\nDooGoodScoopers',
+  true,
+  '["client_name","service_date","address","tech_name","gate_location","gate_prompt"]'::jsonb
+from public.organizations o
+on conflict (org_id, type, channel) do nothing;
+
+-- Finds a job's day-ahead reminder when deduping
+create index if not exists idx_notifications_job on public.notifications(job_id) where job_id is not null;
@@ -0,0 +1,119 @@
+-- 0045: Unified Inbox
+-- One thread per client or lead in /app/office/messages, whatever channel the
+-- customer used: Quo texts, email replies (Resend inbound) and messages sent
+-- from the client portal. Each message now carries its own channel; the
+-- conversation's channel is the one the customer last wrote on, which is where
+-- replies go. Lead threads point at the Prisma lead (lead_type + lead_id) and
+-- read their texts from LeadMessage.
+--
+-- Adds needs-reply tracking, assignment time, PUSH forwarding rules that
+-- notify the assigned staffer, and per-user push subscriptions for office
+-- staff.
+
+-- Conversations
+alter table public.message_conversations drop constraint if exists message_conversations_channel_check;
+alter table public.message_conversations
+  add constraint message_conversations_channel_check check (channel in ('SMS','EMAIL','PORTAL'));
+
+alter table public.message_conversations
+  add column if not exists lead_type text,
+  add column if not exists lead_id text,
+  add column if not exists contact_name text,
+  add column if not exists needs_reply boolean not null default false,
+  add column if not exists last_inbound_at timestamptz,
+  add column if not exists assigned_at timestamptz;
+
+create index if not exists idx_msg_convos_lead on public.message_conversations(lead_type, lead_id) where lead_id is not null;
+create index if not exists idx_msg_convos_staff on public.message_conversations(org_id, staff_id);
+
+-- Messages
+alter table public.messages
+  add column if not exists channel text,
+  add column if not exists subject text;
+
+update public.messages m
+set channel = c.channel
+from public.message_conversations c
+where c.id = m.conversation_id
+  and m.channel is null;
+
+alter table public.messages alter column channel set default 'SMS';
+update public.messages set channel = 'SMS' where channel is null;
+alter table public.messages alter column channel set not null;
+alter table public.messages drop constraint if exists messages_channel_check;
+alter table public.messages
+  add constraint messages_channel_check check (channel in ('SMS','EMAIL','PORTAL'));
+
+-- Fold each client's per-channel conversations into their most recent one
+with ranked as (
+  select
+    id,
+    client_id,
+    first_value(id) over (
+      partition by client_id
+      order by last_message_at desc nulls last, created_at desc
+    ) as keep_id
+  from public.message_conversations
+  where client_id is not null
+    and status <> 'ARCHIVED'
+)
+update public.messages m
+set conversation_id = r.keep_id
+from ranked r
+where m.conversation_id = r.id
+  and r.id <> r.keep_id;
+
+with ranked as (
+  select
+    id,
+    first_value(id) over (
+      partition by client_id
+      order by last_message_at desc nulls last, created_at desc
+    ) as keep_id
+  from public.message_conversations
+  where client_id is not null
+    and status <> 'ARCHIVED'
+)
+update public.message_conversations c
+set status = 'ARCHIVED', unread_count = 0, updated_at = now()
+from ranked r
+where c.id = r.id
+  and r.id <> r.keep_id;
+
+-- Anything still unread was never answered
+update public.message_conversations
+set needs_reply = true
+where unread_count > 0
+  and status = 'OPEN';
+
+-- Reply forwarding: PUSH rules notify office staff (forward_to_value is a
+-- user id, or ASSIGNED for whoever the conversation is assigned to)
+alter table public.reply_forwarding_rules drop constraint if exists reply_forwarding_rules_forward_to_type_check;
+alter table public.reply_forwarding_rules
+  add constraint reply_forwarding_rules_forward_to_type_check check (forward_to_type in ('SMS','EMAIL','PUSH'));
+
+-- Push subscriptions for office staff (one per browser)
+create table if not exists public.staff_push_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  user_id uuid not null references public.users(id) on delete cascade,
+  endpoint text not null unique,
+  p256dh text not null,
+  auth text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_staff_push_subscriptions_user on public.staff_push_subscriptions(user_id);
+
+-- RLS
+alter table public.staff_push_subscriptions enable row level security;
+
+create policy "Service role has full access to staff_push_subscriptions"
+  on public.staff_push_subscriptions for all using (auth.role() = 'service_role');
+
+-- updated_at trigger
+drop trigger if exists update_staff_push_subscriptions_updated_at on public.staff_push_subscriptions;
+create trigger update_staff_push_subscriptions_updated_at
+  before update on public.staff_push_subscriptions
+  for each row execute function public.update_updated_at_column();
@@ -0,0 +1,62 @@
+-- 0046: Self-Serve Change Requests
+-- Clients request frequency, service day, dog, add-on, gate code and cancel
+-- changes from the portal. Approving one in /app/office/change-requests
+-- applies it through the office edit paths, re-prices the subscription,
+-- regenerates jobs and tells the client.
+--
+-- APPLYING claims a request while it's being applied so it can't be applied
+-- twice; applying_at lets a claim left by a crashed run go stale. apply_result keeps the before/after of every row touched; the same
+-- diff goes to audit_log.
+
+alter table public.change_requests drop constraint if exists change_requests_status_check;
+alter table public.change_requests
+  add constraint change_requests_status_check
+  check (status in ('OPEN','IN_PROGRESS','APPLYING','COMPLETED','DISMISSED'));
+
+alter table public.change_requests
+  add column if not exists source text not null default 'OFFICE',
+  add column if not exists location_id uuid references public.locations(id) on delete set null,
+  add column if not exists requested_by uuid references public.users(id) on delete set null,
+  add column if not exists applying_at timestamptz,
+  add column if not exists applied_at timestamptz,
+  add column if not exists applied_by uuid references public.users(id) on delete set null,
+  add column if not exists apply_result jsonb,
+  add column if not exists apply_error text;
+
+alter table public.change_requests drop constraint if exists change_requests_source_check;
+alter table public.change_requests
+  add constraint change_requests_source_check check (source in ('OFFICE','CLIENT'));
+
+create index if not exists idx_change_requests_subscription on public.change_requests(subscription_id, status);
+
+-- Client notice when an approved change has been made
+alter table public.notification_templates drop constraint if exists notification_templates_type_check;
+alter table public.notification_templates
+  add constraint notification_templates_type_check
+  check (type in ('ON_THE_WAY','DAY_AHEAD','COMPLETED','SKIPPED','OFF_SCHEDULE','PAYMENT_FAILED','WELCOME','REMARKETING_SMS','REMARKETING_EMAIL','CHANGE_APPLIED'));
+
+insert into public.notification_templates (org_id, type, channel, name, subject, body, is_enabled, variables)
+select
+  o.id,
+  'CHANGE_APPLIED',
+  'SMS',
+  'Change Request Applied',
+  null,
+  'Hi {{client_name}}, your DooGoodScoopers service has been updated: {{change_summary}}.{{price_prompt}}',
+  true,
+  '["client_name","change_summary","new_price","price_prompt"]'::jsonb
+from public.organizations o
+on conflict (org_id, type, channel) do nothing;
+
+insert into public.notification_templates (org_id, type, channel, name, subject, body, is_enabled, variables)
+select
+  o.id,
+  'CHANGE_APPLIED',
+  'EMAIL',
+  'Change Request Applied Email',
+  'Your service has been updated',
+  'Hi {{client_name}},\n\nWe''ve made the change you asked for: {{change_summary}}.{{price_prompt}}\n\nThanks,\nDooGoodScoopers',
+  true,
+  '["client_name","change_summary","new_price","price_prompt"]'::jsonb
+from public.organizations o
+on conflict (org_id, type, channel) do nothing;
@@ -0,0 +1,24 @@
+-- 0047: Service Proof
+-- Completion requirements live in organizations.settings.fieldTechApp.serviceProof
+-- (minimum photo count, a gate-closed photo, how far from the location's
+-- geocode the tech may be). Completing a job always goes through; the check
+-- is stored on the job and completions that miss a rule are FLAGGED for the
+-- office to review on /app/office/service-proof. proof_check keeps the
+-- check-in fix, distance and photo counts so flags can be exported for
+-- disputes.
+
+alter table public.jobs
+  add column if not exists proof_status text,
+  add column if not exists proof_check jsonb,
+  add column if not exists proof_reviewed_at timestamptz,
+  add column if not exists proof_reviewed_by uuid references public.users(id) on delete set null,
+  add column if not exists proof_review_note text;
+
+alter table public.jobs drop constraint if exists jobs_proof_status_check;
+alter table public.jobs
+  add constraint jobs_proof_status_check
+  check (proof_status is null or proof_status in ('OK','FLAGGED','REVIEWED'));
+
+create index if not exists idx_jobs_proof_status
+  on public.jobs(org_id, proof_status, completed_at desc)
+  where proof_status in ('FLAGGED','REVIEWED');
@@ -0,0 +1,87 @@
+-- 0048: Crews, Job Splitting and Station Checklists
+-- Large commercial properties (apartment complexes with many pet stations)
+-- need more than one tech, or more than one day.
+--
+-- A route's assigned_to is its lead (normally a CREW_LEAD); route_crew_members
+-- adds helpers who see and work the same route. Any crew member can complete
+-- a job; job_crew_time records the minutes each member put in, which splits
+-- the job's yard and revenue credit in payroll.
+--
+-- A job can be split into parts on different days (split_group_id groups the
+-- parts; the price is shared across them).
+--
+-- Commercial visits record a station checklist, rolled up into the client's
+-- monthly service report.
+
+create table if not exists public.route_crew_members (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  route_id uuid not null references public.routes(id) on delete cascade,
+  user_id uuid not null references public.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  unique (route_id, user_id)
+);
+
+create index if not exists idx_route_crew_members_user on public.route_crew_members(user_id);
+
+create table if not exists public.job_crew_time (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  job_id uuid not null references public.jobs(id) on delete cascade,
+  user_id uuid not null references public.users(id) on delete cascade,
+  minutes int not null default 0 check (minutes >= 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (job_id, user_id)
+);
+
+create index if not exists idx_job_crew_time_user on public.job_crew_time(user_id);
+
+alter table public.jobs
+  add column if not exists split_group_id uuid,
+  add column if not exists split_index int,
+  add column if not exists split_count int;
+
+create index if not exists idx_jobs_split_group on public.jobs(split_group_id) where split_group_id is not null;
+
+create table if not exists public.job_station_checklists (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  job_id uuid not null unique references public.jobs(id) on delete cascade,
+  client_id uuid not null references public.clients(id) on delete cascade,
+  location_id uuid references public.locations(id) on delete set null,
+  service_date date not null,
+  stations_total int not null default 0 check (stations_total >= 0),
+  stations_serviced int not null default 0 check (stations_serviced >= 0),
+  bags_restocked int not null default 0 check (bags_restocked >= 0),
+  cans_emptied int not null default 0 check (cans_emptied >= 0),
+  notes text,
+  recorded_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_job_station_checklists_client on public.job_station_checklists(client_id, service_date);
+
+-- RLS
+alter table public.route_crew_members enable row level security;
+alter table public.job_crew_time enable row level security;
+alter table public.job_station_checklists enable row level security;
+
+create policy "Service role has full access to route_crew_members"
+  on public.route_crew_members for all using (auth.role() = 'service_role');
+create policy "Service role has full access to job_crew_time"
+  on public.job_crew_time for all using (auth.role() = 'service_role');
+create policy "Service role has full access to job_station_checklists"
+  on public.job_station_checklists for all using (auth.role() = 'service_role');
+
+-- updated_at triggers
+drop trigger if exists update_job_crew_time_updated_at on public.job_crew_time;
+create trigger update_job_crew_time_updated_at
+  before update on public.job_crew_time
+  for each row execute function public.update_updated_at_column();
+
+drop trigger if exists update_job_station_checklists_updated_at on public.job_station_checklists;
+create trigger update_job_station_checklists_updated_at
+  before update on public.job_station_checklists
+  for each row execute function public.update_updated_at_column();
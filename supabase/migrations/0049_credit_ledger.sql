@@ -0,0 +1,88 @@
+-- 0049: Credit Ledger
+-- Gift certificates, referral rewards and goodwill credits are drawn down
+-- automatically when monthly and one-off invoices are generated, in a fixed
+-- order: gift cards, then referral credits, then goodwill credits.
+--
+-- account_credits gets the running balance and source columns the referral
+-- and quote flows already write (balance_cents, source, reference_id,
+-- notes). credit_applications records every draw (and manual adjustment),
+-- so voiding an invoice can put its credits back. Gift certificate draws
+-- also write gift_certificate_redemptions; a referral credit that is used up
+-- marks its referral_rewards row redeemed.
+--
+-- clients.account_credit_cents stays as the cached referral + goodwill
+-- balance shown around the app; gift balances are reported separately.
+
+alter table public.account_credits
+  add column if not exists balance_cents int,
+  add column if not exists source text,
+  add column if not exists reference_id uuid,
+  add column if not exists notes text,
+  add column if not exists updated_at timestamptz not null default now();
+
+alter table public.account_credits alter column source_type drop not null;
+alter table public.account_credits drop constraint if exists account_credits_source_type_check;
+
+update public.account_credits
+  set source = coalesce(source, source_type),
+      reference_id = coalesce(reference_id, source_id)
+  where source is null or reference_id is null;
+
+update public.account_credits
+  set balance_cents = case when applied_to_invoice_id is null then amount_cents else 0 end
+  where balance_cents is null;
+
+alter table public.account_credits alter column balance_cents set default 0;
+alter table public.account_credits alter column balance_cents set not null;
+alter table public.account_credits alter column source set default 'ADJUSTMENT';
+
+alter table public.account_credits drop constraint if exists account_credits_balance_check;
+alter table public.account_credits
+  add constraint account_credits_balance_check
+  check (balance_cents >= 0 and balance_cents <= amount_cents);
+
+create index if not exists idx_account_credits_open
+  on public.account_credits(client_id, created_at)
+  where balance_cents > 0;
+
+-- Credit the client page already showed but that had no row behind it
+insert into public.account_credits (org_id, client_id, amount_cents, balance_cents, source, reason)
+select c.org_id, c.id, c.account_credit_cents - coalesce(open.balance, 0),
+       c.account_credit_cents - coalesce(open.balance, 0), 'ADJUSTMENT', 'Opening balance'
+from public.clients c
+left join (
+  select client_id, sum(balance_cents) as balance
+  from public.account_credits
+  where source not in ('GIFT_CERTIFICATE', 'GIFT')
+  group by client_id
+) open on open.client_id = c.id
+where c.account_credit_cents > coalesce(open.balance, 0);
+
+create table if not exists public.credit_applications (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  client_id uuid not null references public.clients(id) on delete cascade,
+  -- Null for a manual adjustment from the office
+  invoice_id uuid references public.invoices(id) on delete set null,
+  account_credit_id uuid references public.account_credits(id) on delete cascade,
+  gift_certificate_id uuid references public.gift_certificates(id) on delete cascade,
+  gift_redemption_id uuid references public.gift_certificate_redemptions(id) on delete set null,
+  amount_cents int not null check (amount_cents > 0),
+  reversed_at timestamptz,
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  check (account_credit_id is not null or gift_certificate_id is not null)
+);
+
+create index if not exists idx_credit_applications_client on public.credit_applications(client_id, created_at desc);
+create index if not exists idx_credit_applications_invoice on public.credit_applications(invoice_id);
+
+alter table public.credit_applications enable row level security;
+
+create policy "Service role has full access to credit_applications"
+  on public.credit_applications for all using (auth.role() = 'service_role');
+
+drop trigger if exists update_account_credits_updated_at on public.account_credits;
+create trigger update_account_credits_updated_at
+  before update on public.account_credits
+  for each row execute function public.update_updated_at_column();
@@ -0,0 +1,63 @@
+-- 0050: Sales Tax Rules
+-- Per-jurisdiction sales tax rates by product category, with effective
+-- dates. Every invoice path (monthly generation, one-off office invoices,
+-- draft edits, a new subscription's first invoice) taxes its line items
+-- from these rules using the client's primary service address. The most
+-- specific matching rule wins: ZIP, then city + state, then state.
+--
+-- invoice_items record the category, rule, jurisdiction and rate each line
+-- was taxed at, so the tax liability report reads from what was billed and
+-- is not changed by later rule edits.
+
+create table if not exists public.sales_tax_rules (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  -- Name the tax is reported under, e.g. "Denver, CO"
+  jurisdiction text not null,
+  state text,
+  city text,
+  zip_code text,
+  category text not null check (category in ('SERVICE_PLAN','ADD_ON','CROSS_SELL','GIFT_CARD')),
+  rate_percent numeric(6,3) not null check (rate_percent >= 0 and rate_percent <= 100),
+  effective_from date not null,
+  effective_to date,
+  notes text,
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (zip_code is not null or city is not null or state is not null),
+  check (city is null or state is not null),
+  check (effective_to is null or effective_to >= effective_from)
+);
+
+create index if not exists idx_sales_tax_rules_org on public.sales_tax_rules(org_id, category, effective_from);
+
+alter table public.sales_tax_rules enable row level security;
+
+create policy "Service role has full access to sales_tax_rules"
+  on public.sales_tax_rules for all using (auth.role() = 'service_role');
+
+drop trigger if exists update_sales_tax_rules_updated_at on public.sales_tax_rules;
+create trigger update_sales_tax_rules_updated_at
+  before update on public.sales_tax_rules
+  for each row execute function public.update_updated_at_column();
+
+-- Null tax_category means the line is not taxable
+alter table public.invoice_items
+  add column if not exists tax_category text,
+  add column if not exists tax_rule_id uuid references public.sales_tax_rules(id) on delete set null,
+  add column if not exists tax_jurisdiction text,
+  add column if not exists tax_rate_percent numeric(6,3),
+  add column if not exists tax_cents int not null default 0;
+
+alter table public.invoice_items drop constraint if exists invoice_items_tax_category_check;
+alter table public.invoice_items
+  add constraint invoice_items_tax_category_check
+  check (tax_category is null or tax_category in ('SERVICE_PLAN','ADD_ON','CROSS_SELL','GIFT_CARD'));
+
+create index if not exists idx_invoice_items_tax_jurisdiction
+  on public.invoice_items(org_id, tax_jurisdiction)
+  where tax_jurisdiction is not null;
+
+alter table public.clients
+  add column if not exists tax_exempt boolean not null default false;
@@ -0,0 +1,66 @@
+-- 0051: Vendor Payout Runs
+-- Generates vendor payouts for a period from the work vendors fulfilled:
+-- completed job add-ons linked to a vendor, and cross-sell lines on paid
+-- invoices. The vendor's commission is withheld from each line and the
+-- remainder drafted as a PENDING payout with one item per source line.
+--
+-- Payout items point back at the job add-on or invoice item they pay for.
+-- A source can only sit on one live payout item; canceling a payout
+-- releases its items so a later run can pay them again.
+
+create table if not exists public.vendor_payout_runs (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  period_start date not null,
+  period_end date not null,
+  payout_count int not null default 0,
+  total_cents int not null default 0,
+  statements_sent int not null default 0,
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  check (period_end >= period_start)
+);
+
+create index if not exists idx_vendor_payout_runs_org on public.vendor_payout_runs(org_id, created_at desc);
+
+alter table public.vendor_payout_runs enable row level security;
+
+create policy "Service role has full access to vendor_payout_runs"
+  on public.vendor_payout_runs for all using (auth.role() = 'service_role');
+
+alter table public.vendor_payouts
+  add column if not exists payout_run_id uuid references public.vendor_payout_runs(id) on delete set null,
+  add column if not exists statement_sent_at timestamptz,
+  add column if not exists statement_sent_to text;
+
+create index if not exists idx_vendor_payouts_run on public.vendor_payouts(payout_run_id);
+
+-- Monthly invoicing records which client cross-sell a line bills for
+alter table public.invoice_items
+  add column if not exists client_cross_sell_id uuid references public.client_cross_sells(id) on delete set null;
+
+create index if not exists idx_invoice_items_client_cross_sell
+  on public.invoice_items(client_cross_sell_id)
+  where client_cross_sell_id is not null;
+
+alter table public.vendor_payout_items
+  add column if not exists source text not null default 'MANUAL',
+  add column if not exists invoice_id uuid references public.invoices(id) on delete set null,
+  add column if not exists invoice_item_id uuid references public.invoice_items(id) on delete set null,
+  add column if not exists gross_cents int,
+  add column if not exists commission_cents int,
+  add column if not exists released_at timestamptz;
+
+alter table public.vendor_payout_items drop constraint if exists vendor_payout_items_source_check;
+alter table public.vendor_payout_items
+  add constraint vendor_payout_items_source_check
+  check (source in ('MANUAL','JOB_ADD_ON','CROSS_SELL'));
+
+-- One live payout item per source line, so no line is paid twice
+create unique index if not exists idx_vendor_payout_items_job_add_on_live
+  on public.vendor_payout_items(job_add_on_id)
+  where job_add_on_id is not null and released_at is null;
+
+create unique index if not exists idx_vendor_payout_items_invoice_item_live
+  on public.vendor_payout_items(invoice_item_id)
+  where invoice_item_id is not null and released_at is null;
@@ -0,0 +1,50 @@
+-- 0052: Subscription Prorations
+-- A plan change partway through an already-invoiced month (frequency,
+-- schedule or per-visit price) records the difference for the rest of the
+-- month: visits from the effective date priced at the new plan, less the
+-- same stretch at the old plan. The monthly invoice generator bills pending
+-- rows as explicit line items and stamps invoice_id; deleting that invoice
+-- puts them back in the queue.
+
+create table if not exists public.subscription_prorations (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  client_id uuid not null references public.clients(id) on delete cascade,
+  subscription_id uuid not null references public.subscriptions(id) on delete cascade,
+  change_request_id uuid references public.change_requests(id) on delete set null,
+  effective_date date not null,
+  period_start date not null,
+  period_end date not null,
+  -- The invoice that billed the period at the old plan
+  billed_invoice_id uuid references public.invoices(id) on delete set null,
+  old_frequency text not null,
+  new_frequency text not null,
+  old_price_per_visit_cents int not null,
+  new_price_per_visit_cents int not null,
+  old_visits int not null,
+  new_visits int not null,
+  -- Positive is charged, negative is credited
+  amount_cents int not null check (amount_cents <> 0),
+  description text not null,
+  invoice_id uuid references public.invoices(id) on delete set null,
+  invoiced_at timestamptz,
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_subscription_prorations_pending
+  on public.subscription_prorations(org_id, client_id)
+  where invoice_id is null;
+create index if not exists idx_subscription_prorations_subscription
+  on public.subscription_prorations(subscription_id);
+
+alter table public.subscription_prorations enable row level security;
+
+create policy "Service role has full access to subscription_prorations"
+  on public.subscription_prorations for all using (auth.role() = 'service_role');
+
+drop trigger if exists update_subscription_prorations_updated_at on public.subscription_prorations;
+create trigger update_subscription_prorations_updated_at
+  before update on public.subscription_prorations
+  for each row execute function public.update_updated_at_column();
@@ -0,0 +1,88 @@
+-- 0053: Subscription Billing Modes
+-- How each subscription is billed:
+--   MONTHLY_FLAT  - one line on the monthly invoice (the existing behavior)
+--   PER_VISIT     - the card on file is charged for each completed visit,
+--                   right away or batched daily or weekly
+--   PREPAID_PACK  - each completed visit uses one from a prepaid balance
+-- Skipped visits are charged (or use up a pack visit) by the cost the org
+-- set for the skip reason under billing.skippedCleanups*.
+-- One-time cleanups are charged on completion.
+
+alter table public.subscriptions
+  add column if not exists billing_mode text not null default 'MONTHLY_FLAT'
+    check (billing_mode in ('MONTHLY_FLAT', 'PER_VISIT', 'PREPAID_PACK')),
+  add column if not exists visit_charge_batch text not null default 'IMMEDIATE'
+    check (visit_charge_batch in ('IMMEDIATE', 'DAILY', 'WEEKLY')),
+  add column if not exists prepaid_visits_remaining int not null default 0;
+
+update public.subscriptions
+  set billing_mode = 'PER_VISIT'
+  where frequency = 'ONETIME' and billing_mode = 'MONTHLY_FLAT';
+
+-- One row per billable visit on a PER_VISIT subscription, waiting for its
+-- batch to be invoiced and charged
+create table if not exists public.visit_charges (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  client_id uuid not null references public.clients(id) on delete cascade,
+  subscription_id uuid not null references public.subscriptions(id) on delete cascade,
+  job_id uuid not null references public.jobs(id) on delete cascade,
+  kind text not null check (kind in ('VISIT', 'SKIP')),
+  service_date date not null,
+  amount_cents int not null check (amount_cents > 0),
+  -- For skips: the reason and the share of the visit price it costs
+  skip_reason text,
+  cost_percent numeric(5,2),
+  description text not null,
+  invoice_id uuid references public.invoices(id) on delete set null,
+  invoiced_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists idx_visit_charges_job
+  on public.visit_charges(job_id);
+create index if not exists idx_visit_charges_pending
+  on public.visit_charges(org_id, client_id)
+  where invoice_id is null;
+
+alter table public.visit_charges enable row level security;
+
+create policy "Service role has full access to visit_charges"
+  on public.visit_charges for all using (auth.role() = 'service_role');
+
+drop trigger if exists update_visit_charges_updated_at on public.visit_charges;
+create trigger update_visit_charges_updated_at
+  before update on public.visit_charges
+  for each row execute function public.update_updated_at_column();
+
+-- Every change to a PREPAID_PACK balance: packs bought, visits used and
+-- office adjustments
+create table if not exists public.prepaid_visit_ledger (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  client_id uuid not null references public.clients(id) on delete cascade,
+  subscription_id uuid not null references public.subscriptions(id) on delete cascade,
+  job_id uuid references public.jobs(id) on delete set null,
+  entry_type text not null check (entry_type in ('PURCHASE', 'VISIT', 'SKIP', 'ADJUSTMENT')),
+  -- Positive adds visits, negative uses them
+  visits int not null check (visits <> 0),
+  balance_after int not null,
+  amount_cents int not null default 0,
+  invoice_id uuid references public.invoices(id) on delete set null,
+  note text,
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+-- A visit uses the pack at most once
+create unique index if not exists idx_prepaid_visit_ledger_job
+  on public.prepaid_visit_ledger(job_id)
+  where job_id is not null;
+create index if not exists idx_prepaid_visit_ledger_subscription
+  on public.prepaid_visit_ledger(subscription_id, created_at desc);
+
+alter table public.prepaid_visit_ledger enable row level security;
+
+create policy "Service role has full access to prepaid_visit_ledger"
+  on public.prepaid_visit_ledger for all using (auth.role() = 'service_role');
@@ -408,11 +408,18 @@ ON CONFLICT DO NOTHING;
 -- =============================================================================
 INSERT INTO public.notification_templates (id, org_id, type, channel, name, subject, body, is_enabled)
 VALUES
-  (gen_random_uuid(), 'b2b5d576-aee6-4899-9a2f-c3e1c68e802c'::uuid, 'ON_THE_WAY', 'SMS', 'On The Way SMS', NULL, 'Hi {{client_name}}! Your DooGoodScoopers technician is on the way and will arrive in approximately {{eta}} minutes.', true),
-  (gen_random_uuid(), 'b2b5d576-aee6-4899-9a2f-c3e1c68e802c'::uuid, 'DAY_AHEAD', 'SMS', 'Day Ahead Reminder', NULL, 'Reminder: DooGoodScoopers is scheduled to service your yard tomorrow. Please ensure gate access is available.', true),
-  (gen_random_uuid(), 'b2b5d576-aee6-4899-9a2f-c3e1c68e802c'::uuid, 'COMPLETED', 'SMS', 'Service Completed', NULL, 'Your yard has been serviced by DooGoodScoopers! Thanks for being a valued customer.', true),
+  (gen_random_uuid(), 'b2b5d576-aee6-4899-9a2f-c3e1c68e802c'::uuid, 'ON_THE_WAY', 'SMS', 'On The Way SMS', NULL, 'Hi {{client_name}}! Your DooGoodScoopers technician is on the way.{{tracking_prompt}}', true),
+  (gen_random_uuid(), 'b2b5d576-aee6-4899-9a2f-c3e1c68e802c'::uuid, 'DAY_AHEAD', 'SMS', 'Day Ahead Reminder', NULL, 'Reminder: DooGoodScoopers is scheduled to service your yard tomorrow ({{service_date}}).{{gate_prompt}}', true),
+  (gen_random_uuid(), 'b2b5d576-aee6-4899-9a2f-c3e1c68e802c'::uuid, 'DAY_AHEAD', 'EMAIL', 'Day Ahead Reminder Email', 'Your yard service is tomorrow', 'Hi {{client_name}},\n\nJust a reminder that DooGoodScoopers is scheduled to service your yard at {{address}} tomorrow, {{service_date}}.{{gate_prompt}}\n\nThanks,\nDooGoodScoopers', true),
+  (gen_random_uuid(), 'b2b5d576-aee6-4899-9a2f-c3e1c68e802c'::uuid, 'COMPLETED', 'SMS', 'Service Completed', NULL, 'Your yard has been serviced by DooGoodScoopers! Thanks for being a valued customer.{{rating_prompt}}', true),
+  (gen_random_uuid(), 'b2b5d576-aee6-4899-9a2f-c3e1c68e802c'::uuid, 'COMPLETED', 'EMAIL', 'Service Completed Email', 'Your yard has been serviced', 'Hi {{client_name}},\n\nYour yard has been serviced by {{tech_name}} today. Thanks for being a valued customer!{{rating_prompt}}\n\nThanks,\nDooGoodScoopers', true),
+  (gen_random_uuid(), 'b2b5d576-aee6-4899-9a2f-c3e1c68e802c'::uuid, 'OFF_SCHEDULE', 'SMS', 'Holiday Schedule Change', NULL, 'Hi {{client_first_name}}, a heads-up from DooGoodScoopers: {{schedule_change}}.', true),
+  (gen_random_uuid(), 'b2b5d576-aee6-4899-9a2f-c3e1c68e802c'::uuid, 'OFF_SCHEDULE', 'EMAIL', 'Holiday Schedule Change Email', 'Your service schedule for {{holiday_name}}', 'Hi {{client_first_name}},\n\nA heads-up from DooGoodScoopers: {{schedule_change}}.\n\nThanks,\nDooGoodScoopers', true),
   (gen_random_uuid(), 'b2b5d576-aee6-4899-9a2f-c3e1c68e802c'::uuid, 'WELCOME', 'EMAIL', 'Welcome Email', 'Welcome to DooGoodScoopers!', 'Hi {{client_name}},\n\nWelcome to the DooGoodScoopers family! We''re excited to help keep your yard clean.\n\nYour first service is scheduled for {{next_service_date}}.\n\nThanks,\nThe DooGoodScoopers Team', true),
-  (gen_random_uuid(), 'b2b5d576-aee6-4899-9a2f-c3e1c68e802c'::uuid, 'PAYMENT_FAILED', 'EMAIL', 'Payment Failed', 'Action Required: Payment Failed', 'Hi {{client_name}},\n\nWe were unable to process your payment. Please update your payment method to avoid service interruption.\n\nThanks,\nDooGoodScoopers', true)
+  (gen_random_uuid(), 'b2b5d576-aee6-4899-9a2f-c3e1c68e802c'::uuid, 'PAYMENT_FAILED', 'EMAIL', 'Payment Failed', 'Action Required: Payment Failed', 'Hi {{client_name}},\n\nWe were unable to process your payment of {{amount}} for invoice {{invoice_number}}. Please update your payment method to avoid service interruption:\n\n{{card_link}}\n\nThanks,\nDooGoodScoopers', true),
+  (gen_random_uuid(), 'b2b5d576-aee6-4899-9a2f-c3e1c68e802c'::uuid, 'PAYMENT_FAILED', 'SMS', 'Payment Failed SMS', NULL, 'Hi {{client_name}}, we couldn''t process your payment of {{amount}} for DooGoodScoopers. Please update your card to keep service going: {{card_link}}', true),
+  (gen_random_uuid(), 'b2b5d576-aee6-4899-9a2f-c3e1c68e802c'::uuid, 'CHANGE_APPLIED', 'SMS', 'Change Request Applied', NULL, 'Hi {{client_name}}, your DooGoodScoopers service has been updated: {{change_summary}}.{{price_prompt}}', true),
+  (gen_random_uuid(), 'b2b5d576-aee6-4899-9a2f-c3e1c68e802c'::uuid, 'CHANGE_APPLIED', 'EMAIL', 'Change Request Applied Email', 'Your service has been updated', 'Hi {{client_name}},\n\nWe''ve made the change you asked for: {{change_summary}}.{{price_prompt}}\n\nThanks,\nDooGoodScoopers', true)
 ON CONFLICT DO NOTHING;
 
 -- =============================================================================